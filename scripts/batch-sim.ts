@@ -0,0 +1,115 @@
+/**
+ * Headless Batch Simulation — balance testing from the command line.
+ *
+ * Runs every line-up × match type × seed through the match engine and writes
+ * aggregate stats per wrestler, per move and per match type as JSON and CSV.
+ * Same arguments = same numbers (matches are deterministic), so runs before
+ * and after a BalanceConfig change can be diffed directly.
+ *
+ * Usage:
+ *   npm run sim:batch -- [options]
+ *
+ * Options:
+ *   --types singles,no_dq     Match types (default: singles)
+ *   --seeds 1-200             Seed range or comma list (default: 1-20)
+ *   --wrestlers a,b,c         Roster ids, paired round-robin both ways round (default: whole roster)
+ *   --lineups "a,b,c;d,e,f"   Explicit line-ups instead of round-robin pairs (multi-fighter match types)
+ *   --out dir                 Output directory (default: batch-results)
+ *   --format json,csv         What to write (default: both)
+ *   --verify                  Run every match twice and fail on the first desync
+ *
+ * Writes report.json, wrestlers.csv, moves.csv, match_types.csv and matches.csv.
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { BatchRunner, roundRobin, batchReportToCSV } from '../src/lib/match/engine';
+import { toWrestlerInput } from '../src/lib/data/wrestlers/wrestlerInput';
+import type { WrestlerDef } from '../src/lib/data/wrestlers/schema';
+import rosterData from '../src/lib/data/wrestlers/roster.json';
+
+const roster = rosterData as WrestlerDef[];
+
+/** Options that are switches and take no value. */
+const FLAGS = new Set(['verify']);
+
+function parseArgs(argv: string[]): Map<string, string> {
+	const args = new Map<string, string>();
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (!arg.startsWith('--')) throw new Error(`batch-sim: unexpected argument '${arg}'`);
+		if (FLAGS.has(arg.slice(2))) {
+			args.set(arg.slice(2), 'true');
+			continue;
+		}
+		const value = argv[i + 1];
+		if (value === undefined || value.startsWith('--')) throw new Error(`batch-sim: ${arg} needs a value`);
+		args.set(arg.slice(2), value);
+		i++;
+	}
+	return args;
+}
+
+function parseSeeds(spec: string): number[] {
+	const range = /^(\d+)-(\d+)$/.exec(spec);
+	if (range) {
+		const [from, to] = [Number(range[1]), Number(range[2])];
+		if (to < from) throw new Error(`batch-sim: empty seed range '${spec}'`);
+		return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+	}
+	return spec.split(',').map((s) => {
+		const seed = Number(s);
+		if (!Number.isInteger(seed)) throw new Error(`batch-sim: bad seed '${s}'`);
+		return seed;
+	});
+}
+
+const list = (spec: string) => spec.split(',').map((s) => s.trim()).filter((s) => s.length > 0);
+
+function main(): void {
+	const args = parseArgs(process.argv.slice(2));
+	const matchTypes = list(args.get('types') ?? 'singles');
+	const seeds = parseSeeds(args.get('seeds') ?? '1-20');
+	const ids = args.has('wrestlers') ? list(args.get('wrestlers')!) : roster.map((w) => w.id);
+	const matchups = args.has('lineups')
+		? args.get('lineups')!.split(';').map(list)
+		: roundRobin(ids);
+	const outDir = args.get('out') ?? 'batch-results';
+	const formats = new Set(list(args.get('format') ?? 'json,csv'));
+
+	const runner = new BatchRunner({
+		wrestlers: roster.map(toWrestlerInput),
+		matchups,
+		matchTypes,
+		seeds,
+		verify: args.has('verify'),
+		onMatch: (_record, done, total) => {
+			if (done % 50 === 0 || done === total) process.stderr.write(`\r  ${done}/${total} matches`);
+		}
+	});
+
+	console.error(`Simulating ${runner.totalMatches} matches (${matchups.length} line-ups × ${matchTypes.length} match types × ${seeds.length} seeds)${args.has('verify') ? ', verifying determinism' : ''}`);
+	const startTime = performance.now();
+	const report = runner.run();
+	const elapsedMs = performance.now() - startTime;
+	console.error(`\n  done in ${(elapsedMs / 1000).toFixed(1)}s`);
+
+	mkdirSync(outDir, { recursive: true });
+	if (formats.has('json')) {
+		writeFileSync(join(outDir, 'report.json'), JSON.stringify(report, null, '\t'));
+	}
+	if (formats.has('csv')) {
+		const csv = batchReportToCSV(report);
+		writeFileSync(join(outDir, 'wrestlers.csv'), csv.wrestlers);
+		writeFileSync(join(outDir, 'moves.csv'), csv.moves);
+		writeFileSync(join(outDir, 'match_types.csv'), csv.matchTypes);
+		writeFileSync(join(outDir, 'matches.csv'), csv.matches);
+	}
+
+	console.error(`  wrote ${[...formats].join(' + ')} to ${outDir}/`);
+	for (const w of report.wrestlers) {
+		console.log(`${w.name.padEnd(24)} ${(w.winRate * 100).toFixed(1).padStart(5)}% wins  ${w.avgDuration.toFixed(0).padStart(4)}s avg  hit ${(w.hitRate * 100).toFixed(0)}%  finishers ${w.finishersLanded}/${w.finishersAttempted}`);
+	}
+}
+
+main();
@@ -0,0 +1,199 @@
+/**
+ * Mock Trainer — a stand-in for the Python trainer.
+ *
+ * Connects to a trainer server (scripts/train-server.ts), does the
+ * handshake and plays episodes on every env with random legal actions,
+ * checking each reply against the protocol as it goes: observation and
+ * mask sizes, masks that always allow 'idle', finite rewards, env ids in
+ * the order asked for, and the errors for stepping a finished env or
+ * sending an unknown action. Exits non-zero on the first violation.
+ *
+ * Usage:
+ *   npm run train:mock -- [options]
+ *
+ * Options:
+ *   --url ws://localhost:8765   Server to connect to (default: ws://localhost:8765)
+ *   --episodes 20               Episodes to finish across all envs (default: 20)
+ *   --seed 1                    First episode seed; each reset takes the next (default: 1)
+ */
+
+import WebSocket from 'ws';
+import {
+	PROTOCOL_VERSION,
+	encodeMessage,
+	parseSimMessage,
+	type ConfigPayload,
+	type SimMessage,
+	type TrainerMessage
+} from '../src/lib/ai/rl/TrainingProtocol';
+import { SeededRandom } from '../src/lib/utils/random';
+
+function parseArgs(argv: string[]): Map<string, string> {
+	const args = new Map<string, string>();
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (!arg.startsWith('--')) throw new Error(`mock-trainer: unexpected argument '${arg}'`);
+		const value = argv[i + 1];
+		if (value === undefined || value.startsWith('--')) throw new Error(`mock-trainer: ${arg} needs a value`);
+		args.set(arg.slice(2), value);
+		i++;
+	}
+	return args;
+}
+
+function check(condition: boolean, problem: string): asserts condition {
+	if (!condition) throw new Error(`mock-trainer: ${problem}`);
+}
+
+/**
+ * Request/reply over the socket. The server answers messages in order,
+ * so replies are matched to requests first-in first-out.
+ */
+class Connection {
+	private readonly inbox: SimMessage[] = [];
+	private readonly waiting: ((message: SimMessage) => void)[] = [];
+
+	constructor(private readonly socket: WebSocket) {
+		socket.on('message', (data) => {
+			const message = parseSimMessage(data.toString());
+			const next = this.waiting.shift();
+			if (next) next(message);
+			else this.inbox.push(message);
+		});
+	}
+
+	static open(url: string): Promise<Connection> {
+		return new Promise((resolve, reject) => {
+			const socket = new WebSocket(url);
+			const connection = new Connection(socket);
+			socket.once('open', () => resolve(connection));
+			socket.once('error', reject);
+		});
+	}
+
+	send(message: TrainerMessage): void {
+		this.socket.send(encodeMessage(message));
+	}
+
+	receive(): Promise<SimMessage> {
+		const queued = this.inbox.shift();
+		if (queued) return Promise.resolve(queued);
+		return new Promise((resolve) => this.waiting.push(resolve));
+	}
+
+	async request(message: TrainerMessage): Promise<SimMessage> {
+		this.send(message);
+		return this.receive();
+	}
+
+	close(): void {
+		this.send({ type: 'close', payload: {} });
+		this.socket.close();
+	}
+}
+
+function checkObservations(config: ConfigPayload, obs: number[][], masks: number[][]): void {
+	for (let i = 0; i < obs.length; i++) {
+		check(obs[i].length === config.observationSize, `observation ${i} has ${obs[i].length} values`);
+		check(obs[i].every(Number.isFinite), `observation ${i} has a non-finite value`);
+		check(masks[i].length === config.actionCount, `mask ${i} has ${masks[i].length} entries`);
+		check(masks[i][config.actions.indexOf('idle')] === 1, `mask ${i} forbids idle`);
+	}
+}
+
+/** A random action the mask allows. */
+function pickAction(rng: SeededRandom, mask: number[]): number {
+	const legal = mask.flatMap((allowed, id) => (allowed ? [id] : []));
+	return rng.pick(legal);
+}
+
+async function main(): Promise<void> {
+	const args = parseArgs(process.argv.slice(2));
+	const url = args.get('url') ?? 'ws://localhost:8765';
+	const episodes = Number(args.get('episodes') ?? 20);
+	let nextSeed = Number(args.get('seed') ?? 1);
+	const rng = new SeededRandom(nextSeed);
+
+	const connection = await Connection.open(url);
+	const greeting = await connection.receive();
+	check(greeting.type === 'config', `expected config first, got '${greeting.type}'`);
+	const config = greeting.payload;
+	check(config.version === PROTOCOL_VERSION, `server speaks v${config.version}, expected v${PROTOCOL_VERSION}`);
+	check(config.mode === 'server', `server is in '${config.mode}' mode`);
+	check(config.actions.length === config.actionCount, 'action names and action count disagree');
+	check(config.observationLabels.length === config.observationSize, 'observation labels and size disagree');
+	console.error(`Connected to ${url}: ${config.numEnvs} envs, ${config.observationSize} observations, ${config.actionCount} actions`);
+
+	// Stepping before the handshake is an error
+	const early = await connection.request({ type: 'step', payload: { actions: [0] } });
+	check(early.type === 'error', 'step before ready was accepted');
+	connection.send({ type: 'ready', payload: { version: PROTOCOL_VERSION } });
+
+	const envIds = Array.from({ length: config.numEnvs }, (_, i) => i);
+	const reset = await connection.request({
+		type: 'reset',
+		payload: { seeds: envIds.map(() => nextSeed++) }
+	});
+	check(reset.type === 'reset_result', `expected reset_result, got '${reset.type}'`);
+	checkObservations(config, reset.payload.obs, reset.payload.masks);
+	const masks = reset.payload.masks;
+
+	const bad = await connection.request({ type: 'step', payload: { actions: [config.actionCount], envIds: [0] } });
+	check(bad.type === 'error', 'an out-of-range action was accepted');
+
+	let finished = 0;
+	let steps = 0;
+	let decided = 0;
+	let totalReward = 0;
+	const startTime = performance.now();
+
+	while (finished < episodes) {
+		const actions = envIds.map((id) => pickAction(rng, masks[id]));
+		const result = await connection.request({ type: 'step', payload: { actions } });
+		if (result.type === 'error') throw new Error(`mock-trainer: server error: ${result.payload.message}`);
+		check(result.type === 'step_result', `expected step_result, got '${result.type}'`);
+		const { obs, rewards, dones, infos } = result.payload;
+		check(result.payload.envIds.join() === envIds.join(), 'step_result env ids out of order');
+		checkObservations(config, obs, result.payload.masks);
+		check(rewards.every(Number.isFinite), 'non-finite reward');
+		steps += envIds.length;
+
+		const doneIds: number[] = [];
+		for (const id of envIds) {
+			masks[id] = result.payload.masks[id];
+			totalReward += rewards[id];
+			if (!dones[id]) continue;
+			doneIds.push(id);
+			finished++;
+			if (infos[id].winnerId !== null) decided++;
+		}
+		if (doneIds.length === 0) continue;
+
+		// A finished env refuses steps until it is reset
+		const stale = await connection.request({
+			type: 'step',
+			payload: { actions: [0], envIds: [doneIds[0]] }
+		});
+		check(stale.type === 'error', `stepping finished env ${doneIds[0]} was accepted`);
+
+		const again = await connection.request({
+			type: 'reset',
+			payload: { seeds: doneIds.map(() => nextSeed++), envIds: doneIds }
+		});
+		check(again.type === 'reset_result', `expected reset_result, got '${again.type}'`);
+		check(again.payload.envIds.join() === doneIds.join(), 'reset_result env ids out of order');
+		checkObservations(config, again.payload.obs, again.payload.masks);
+		doneIds.forEach((id, i) => (masks[id] = again.payload.masks[i]));
+	}
+
+	connection.close();
+
+	const seconds = (performance.now() - startTime) / 1000;
+	console.error(`  ${finished} episodes, ${steps} steps in ${seconds.toFixed(1)}s (${(steps / seconds).toFixed(0)} steps/s)`);
+	console.log(`episodes=${finished} decided=${decided} steps=${steps} mean_reward=${(totalReward / finished).toFixed(3)}`);
+}
+
+main().catch((err: Error) => {
+	console.error(err.message);
+	process.exit(1);
+});
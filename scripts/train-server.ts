@@ -0,0 +1,106 @@
+/**
+ * Trainer Protocol Server — headless matches for a local RL trainer.
+ *
+ * Hosts batches of MatchEnvs behind a WebSocket and speaks TrainingProtocol
+ * in server mode: the trainer connects, gets the config (observation and
+ * action space shapes), answers `ready`, then drives every env with batched
+ * `reset` and `step` messages. Each connection gets its own batch, so
+ * several trainers (or workers of one trainer) can share a server.
+ *
+ * Envs step one after another on a single thread. To spread a batch over
+ * CPU cores, start one server per core on its own port.
+ *
+ * Usage:
+ *   npm run train:server -- [options]
+ *
+ * Options:
+ *   --port 8765               Port to listen on (default: 8765)
+ *   --envs 8                  Envs per connection (default: 8)
+ *   --wrestlers a,b           Roster ids; the trainer controls the first (default: first two in the roster)
+ *   --type singles            Match type (default: singles)
+ *   --opponent utility_ai     Strategy id for everyone else (default: the built-in agent)
+ *   --ticks-per-step 2        Match ticks per step (default: 2)
+ *   --max-ticks 108000        Ticks before an episode is truncated (default: 30 minutes)
+ *
+ * See scripts/mock-trainer.ts for a minimal client.
+ */
+
+import { WebSocketServer } from 'ws';
+import { TrainingSession, STRATEGY_IDS, type MatchEnvConfig } from '../src/lib/match/engine';
+import { encodeMessage } from '../src/lib/ai/rl/TrainingProtocol';
+import { toWrestlerInput } from '../src/lib/data/wrestlers/wrestlerInput';
+import type { WrestlerDef } from '../src/lib/data/wrestlers/schema';
+import rosterData from '../src/lib/data/wrestlers/roster.json';
+
+const roster = rosterData as WrestlerDef[];
+
+function parseArgs(argv: string[]): Map<string, string> {
+	const args = new Map<string, string>();
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (!arg.startsWith('--')) throw new Error(`train-server: unexpected argument '${arg}'`);
+		const value = argv[i + 1];
+		if (value === undefined || value.startsWith('--')) throw new Error(`train-server: ${arg} needs a value`);
+		args.set(arg.slice(2), value);
+		i++;
+	}
+	return args;
+}
+
+function intArg(args: Map<string, string>, name: string, fallback: number): number {
+	const raw = args.get(name);
+	if (raw === undefined) return fallback;
+	const value = Number(raw);
+	if (!Number.isInteger(value) || value < 1) throw new Error(`train-server: --${name} must be a positive integer`);
+	return value;
+}
+
+const list = (spec: string) => spec.split(',').map((s) => s.trim()).filter((s) => s.length > 0);
+
+function buildEnvConfig(args: Map<string, string>): MatchEnvConfig {
+	const ids = args.has('wrestlers') ? list(args.get('wrestlers')!) : roster.slice(0, 2).map((w) => w.id);
+	const opponent = args.get('opponent');
+	if (opponent !== undefined && !(STRATEGY_IDS as readonly string[]).includes(opponent)) {
+		throw new Error(`train-server: unknown strategy '${opponent}' (${STRATEGY_IDS.join(', ')})`);
+	}
+	const wrestlers = ids.map((id, i) => {
+		const def = roster.find((w) => w.id === id);
+		if (!def) throw new Error(`train-server: no wrestler '${id}' in the roster`);
+		const input = toWrestlerInput(def);
+		return i > 0 && opponent ? { ...input, strategy: opponent } : input;
+	});
+	return {
+		match: { matchType: args.get('type') ?? 'singles', tickRate: 60, wrestlers },
+		ticksPerStep: args.has('ticks-per-step') ? intArg(args, 'ticks-per-step', 0) : undefined,
+		maxTicks: args.has('max-ticks') ? intArg(args, 'max-ticks', 0) : undefined
+	};
+}
+
+function main(): void {
+	const args = parseArgs(process.argv.slice(2));
+	const port = intArg(args, 'port', 8765);
+	const numEnvs = intArg(args, 'envs', 8);
+	const env = buildEnvConfig(args);
+	// Fail on a bad match setup now rather than on the first connection
+	new TrainingSession({ numEnvs: 1, env });
+
+	const server = new WebSocketServer({ port });
+	server.on('connection', (socket, request) => {
+		const peer = `${request.socket.remoteAddress}:${request.socket.remotePort}`;
+		const session = new TrainingSession({ numEnvs, env });
+		console.error(`  ${peer} connected (${numEnvs} envs)`);
+		socket.send(encodeMessage(session.greeting()));
+
+		socket.on('message', (data) => {
+			const reply = session.handle(data.toString());
+			if (reply) socket.send(encodeMessage(reply));
+			if (session.isClosed) socket.close();
+		});
+		socket.on('close', () => console.error(`  ${peer} disconnected`));
+	});
+
+	const names = env.match.wrestlers.map((w) => w.name).join(' vs ');
+	console.error(`Trainer server on ws://localhost:${port}: ${names}, ${env.match.matchType}, ${numEnvs} envs per connection`);
+}
+
+main();
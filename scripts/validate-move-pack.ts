@@ -0,0 +1,51 @@
+/**
+ * Move Pack Validator — checks custom move packs before they ship.
+ *
+ * Layers each pack over the core pack in the order given (as a match would
+ * load them) and prints every problem MovePackLoader finds. Exits non-zero
+ * if there are any.
+ *
+ * Usage:
+ *   npm run moves:validate -- pack.json [more.json ...]
+ */
+
+import { readFileSync } from 'node:fs';
+import { MovePackLoader } from '../src/lib/combat/MovePackLoader';
+import { CORE_MOVE_PACK } from '../src/lib/data/moves';
+
+function readPack(file: string): unknown {
+	try {
+		return JSON.parse(readFileSync(file, 'utf8'));
+	} catch (err) {
+		throw new Error(`validate-move-pack: can't read ${file}: ${(err as Error).message}`);
+	}
+}
+
+function main(): void {
+	const files = process.argv.slice(2);
+	if (files.length === 0) {
+		console.error('Usage: npm run moves:validate -- pack.json [more.json ...]');
+		process.exit(1);
+	}
+
+	const packs = [CORE_MOVE_PACK, ...files.map(readPack)];
+	const issues = MovePackLoader.validate(packs);
+	if (issues.length > 0) {
+		for (const issue of issues) console.log(MovePackLoader.formatIssue(issue));
+		console.error(`${issues.length} problem${issues.length === 1 ? '' : 's'} found`);
+		process.exit(1);
+	}
+
+	const library = MovePackLoader.load(packs);
+	console.log(
+		`OK — ${library.moves.size} moves, ${library.finishers.size} movesets, ` +
+		`${library.combos.size} combos, ${library.grappleChains.size} grapple positions`
+	);
+}
+
+try {
+	main();
+} catch (err) {
+	console.error((err as Error).message);
+	process.exit(1);
+}
@@ -96,3 +96,22 @@ export function isValidAction(action: string): action is ActionName {
 export function getActionCategory(action: string): string {
 	return ACTION_CATEGORIES[action as ActionName] ?? 'unknown';
 }
+
+/**
+ * Whether an action mask (one entry per action ID, 1 = legal) allows an action.
+ * A missing mask allows everything.
+ */
+export function isActionAllowed(mask: readonly number[] | undefined, action: string): boolean {
+	if (!mask) return true;
+	return mask[actionToId(action)] === 1;
+}
+
+/**
+ * IDs of the actions a mask allows (every ID when there is no mask).
+ * Falls back to idle if the mask allows nothing.
+ */
+export function legalActionIds(mask: readonly number[] | undefined): number[] {
+	if (!mask) return ACTION_LIST.map((_, id) => id);
+	const legal = ACTION_LIST.flatMap((_, id) => (mask[id] === 1 ? [id] : []));
+	return legal.length > 0 ? legal : [ACTION_TO_ID.idle];
+}
@@ -1,5 +1,12 @@
 import type { ActionResult } from '../Strategy';
 import { ACTION_COUNT, idToAction } from './ActionSpace';
+import {
+	PROTOCOL_VERSION,
+	buildConfig,
+	encodeMessage,
+	parseTrainerMessage,
+	type SimMessage
+} from './TrainingProtocol';
 
 /**
  * Connection state for the training bridge.
@@ -11,31 +18,28 @@ export enum BridgeState {
 	ERROR = 'ERROR'
 }
 
-/**
- * Message types for the WebSocket protocol between the sim and the Python trainer.
- */
-export interface TrainingMessage {
-	type: 'observation' | 'action' | 'reward' | 'reset' | 'done' | 'config';
-	payload: unknown;
-}
-
 /**
  * WebSocket bridge to an external Python RL trainer.
  *
- * Protocol:
- * 1. Sim sends observation vector on each AI tick.
- * 2. Trainer responds with action ID (integer).
- * 3. After action execution, sim sends reward.
- * 4. On match end, sim sends terminal signal.
+ * Speaks TrainingProtocol in bridge mode:
+ * 1. On connect, sim sends its config; the trainer answers `ready`.
+ * 2. Sim announces each match with `episode_start` and its seed.
+ * 3. Sim sends observation vector and action mask on each AI tick.
+ * 4. Trainer responds with action ID (integer).
+ * 5. After action execution, sim sends reward (with done at match end).
  *
  * When no trainer is connected, the bridge falls back to
- * random action selection (for self-play / baseline).
+ * random legal action selection (for self-play / baseline).
  */
 export class TrainingBridge {
 	private ws: WebSocket | null = null;
 	private state: BridgeState = BridgeState.DISCONNECTED;
 	private url: string = '';
 	private pendingResolve: ((action: ActionResult) => void) | null = null;
+	/** Mask sent with the pending observation (for the timeout fallback). */
+	private pendingMask: number[] | null = null;
+	/** Settles connect() once the trainer answers the handshake. */
+	private handshake: { resolve: () => void; reject: (err: Error) => void } | null = null;
 	private reconnectAttempts: number = 0;
 	private readonly maxReconnectAttempts: number = 5;
 	private readonly reconnectDelayMs: number = 2000;
@@ -71,7 +75,8 @@ export class TrainingBridge {
 	 * Connect to the external Python trainer via WebSocket.
 	 *
 	 * @param url - WebSocket URL (e.g., 'ws://localhost:8765').
-	 * @returns Promise that resolves when connected, rejects on failure.
+	 * @returns Promise that resolves once the trainer accepts the handshake,
+	 *          rejects on failure or a protocol version mismatch.
 	 */
 	connect(url: string): Promise<void> {
 		this.url = url;
@@ -82,9 +87,8 @@ export class TrainingBridge {
 				this.ws = new WebSocket(url);
 
 				this.ws.onopen = () => {
-					this.state = BridgeState.CONNECTED;
-					this.reconnectAttempts = 0;
-					resolve();
+					this.handshake = { resolve, reject };
+					this.send({ type: 'config', payload: buildConfig('bridge', 1, 0) });
 				};
 
 				this.ws.onmessage = (event: MessageEvent) => {
@@ -98,6 +102,8 @@ export class TrainingBridge {
 
 				this.ws.onclose = () => {
 					this.state = BridgeState.DISCONNECTED;
+					this.handshake?.reject(new Error(`Trainer at ${url} closed before the handshake`));
+					this.handshake = null;
 					this.attemptReconnect();
 				};
 			} catch (err) {
@@ -111,38 +117,40 @@ export class TrainingBridge {
 	 * Send an observation vector to the trainer and wait for an action response.
 	 *
 	 * @param observation - Normalized float array from ObservationSpace.build().
+	 * @param mask - 1 per legal action id, 0 per illegal one (default: all legal).
 	 * @returns Promise resolving to the trainer's chosen ActionResult.
 	 */
-	sendObservation(observation: number[]): Promise<ActionResult> {
+	sendObservation(observation: number[], mask?: number[]): Promise<ActionResult> {
 		this.stepCount++;
+		const actionMask = mask ?? new Array<number>(ACTION_COUNT).fill(1);
 
 		if (this.state !== BridgeState.CONNECTED || !this.ws) {
-			// Fallback: return a random action
+			// Fallback: return a random legal action
 			if (this.localFallback) {
-				return Promise.resolve(this.randomAction());
+				return Promise.resolve(this.randomAction(actionMask));
 			}
 			return Promise.reject(new Error('TrainingBridge not connected and fallback disabled'));
 		}
 
 		return new Promise<ActionResult>((resolve) => {
 			this.pendingResolve = resolve;
+			this.pendingMask = actionMask;
 
-			const message: TrainingMessage = {
+			this.send({
 				type: 'observation',
 				payload: {
-					vector: observation,
+					obs: observation,
+					mask: actionMask,
 					episode: this.episodeCount,
 					step: this.stepCount
 				}
-			};
-
-			this.ws!.send(JSON.stringify(message));
+			});
 
 			// Timeout: if trainer doesn't respond in 5 seconds, fall back
 			setTimeout(() => {
-				if (this.pendingResolve) {
+				if (this.pendingResolve === resolve) {
 					this.pendingResolve = null;
-					resolve(this.randomAction());
+					resolve(this.randomAction(actionMask));
 				}
 			}, 5000);
 		});
@@ -151,8 +159,8 @@ export class TrainingBridge {
 	/**
 	 * Alias for sendObservation — waits for and returns the trainer's action.
 	 */
-	async receiveAction(observation: number[]): Promise<ActionResult> {
-		return this.sendObservation(observation);
+	async receiveAction(observation: number[], mask?: number[]): Promise<ActionResult> {
+		return this.sendObservation(observation, mask);
 	}
 
 	/**
@@ -164,7 +172,7 @@ export class TrainingBridge {
 	sendReward(reward: number, done: boolean = false): void {
 		if (this.state !== BridgeState.CONNECTED || !this.ws) return;
 
-		const message: TrainingMessage = {
+		this.send({
 			type: 'reward',
 			payload: {
 				reward,
@@ -172,9 +180,7 @@ export class TrainingBridge {
 				episode: this.episodeCount,
 				step: this.stepCount
 			}
-		};
-
-		this.ws.send(JSON.stringify(message));
+		});
 
 		if (done) {
 			this.episodeCount++;
@@ -184,34 +190,23 @@ export class TrainingBridge {
 
 	/**
 	 * Signal the start of a new episode (match) to the trainer.
+	 *
+	 * @param seed - The match seed, so the trainer can replay the episode.
 	 */
-	resetEpisode(): void {
+	resetEpisode(seed: number): void {
 		this.stepCount = 0;
 
 		if (this.state !== BridgeState.CONNECTED || !this.ws) return;
 
-		const message: TrainingMessage = {
-			type: 'reset',
-			payload: { episode: this.episodeCount }
-		};
-
-		this.ws.send(JSON.stringify(message));
+		this.send({ type: 'episode_start', payload: { episode: this.episodeCount, seed } });
 	}
 
 	/**
 	 * Close the WebSocket connection cleanly.
+	 * The trainer learns the episode ended from the last reward's done flag.
 	 */
 	close(): void {
 		if (this.ws) {
-			// Send done signal before closing
-			if (this.state === BridgeState.CONNECTED) {
-				const message: TrainingMessage = {
-					type: 'done',
-					payload: { episode: this.episodeCount, totalSteps: this.stepCount }
-				};
-				this.ws.send(JSON.stringify(message));
-			}
-
 			this.ws.onclose = null; // prevent reconnect attempt
 			this.ws.close();
 			this.ws = null;
@@ -219,6 +214,8 @@ export class TrainingBridge {
 
 		this.state = BridgeState.DISCONNECTED;
 		this.pendingResolve = null;
+		this.pendingMask = null;
+		this.handshake = null;
 	}
 
 	// ── Private helpers ──
@@ -227,44 +224,71 @@ export class TrainingBridge {
 	 * Handle an incoming message from the trainer.
 	 */
 	private handleMessage(data: string): void {
+		let message;
 		try {
-			const message = JSON.parse(data) as TrainingMessage;
-
-			switch (message.type) {
-				case 'action': {
-					const payload = message.payload as { actionId: number; confidence?: number };
-					const actionName = idToAction(payload.actionId);
-					const result: ActionResult = {
-						action: actionName,
-						target: null,
-						confidence: payload.confidence ?? 0.5,
-						reasoning: `rl_trainer:ep${this.episodeCount}:step${this.stepCount}`
-					};
-
-					if (this.pendingResolve) {
-						this.pendingResolve(result);
-						this.pendingResolve = null;
-					}
-					break;
-				}
-				case 'config': {
-					// Trainer can send configuration updates (learning rate, etc.)
-					// This is a hook for future extensibility
+			message = parseTrainerMessage(data);
+		} catch (err) {
+			this.send({ type: 'error', payload: { message: (err as Error).message } });
+			return;
+		}
+
+		switch (message.type) {
+			case 'ready': {
+				if (!this.handshake) break;
+				const { resolve, reject } = this.handshake;
+				this.handshake = null;
+				if (message.payload.version !== PROTOCOL_VERSION) {
+					const error = `TrainingBridge: trainer speaks protocol v${message.payload.version}, sim speaks v${PROTOCOL_VERSION}`;
+					this.send({ type: 'error', payload: { message: error } });
+					this.close();
+					this.state = BridgeState.ERROR;
+					reject(new Error(error));
 					break;
 				}
-				default:
-					break;
+				this.state = BridgeState.CONNECTED;
+				this.reconnectAttempts = 0;
+				resolve();
+				break;
+			}
+			case 'action': {
+				if (!this.pendingResolve) break;
+				const { actionId, confidence } = message.payload;
+				const legal = actionId >= 0 && actionId < ACTION_COUNT;
+				const result: ActionResult = legal
+					? {
+							action: idToAction(actionId),
+							target: null,
+							confidence: confidence ?? 0.5,
+							reasoning: `rl_trainer:ep${this.episodeCount}:step${this.stepCount}`
+						}
+					: this.randomAction(this.pendingMask ?? new Array<number>(ACTION_COUNT).fill(1));
+				this.pendingResolve(result);
+				this.pendingResolve = null;
+				this.pendingMask = null;
+				break;
 			}
-		} catch {
-			// Malformed message — ignore
+			case 'close':
+				this.close();
+				break;
+			default:
+				// Server-mode messages have no meaning for a live match
+				this.send({ type: 'error', payload: { message: `TrainingBridge: '${message.type}' is a server-mode message` } });
+				break;
 		}
 	}
 
+	private send(message: SimMessage): void {
+		this.ws?.send(encodeMessage(message));
+	}
+
 	/**
-	 * Generate a random action for local fallback mode.
+	 * Generate a random legal action for local fallback mode.
 	 */
-	private randomAction(): ActionResult {
-		const actionId = Math.floor(Math.random() * ACTION_COUNT);
+	private randomAction(mask: number[]): ActionResult {
+		const legal = mask.flatMap((allowed, id) => (allowed ? [id] : []));
+		const actionId = legal.length > 0
+			? legal[Math.floor(Math.random() * legal.length)]
+			: 0;
 		return {
 			action: idToAction(actionId),
 			target: null,
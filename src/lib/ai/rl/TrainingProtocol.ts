@@ -0,0 +1,197 @@
+import { ACTION_COUNT, ACTION_LIST, type ActionName } from './ActionSpace';
+import { OBSERVATION_LABELS, OBSERVATION_SIZE } from './ObservationSpace';
+
+/**
+ * Version of the sim ↔ trainer protocol. Bumped on any change a trainer
+ * would notice; both sides refuse to talk across versions.
+ *
+ * Every message is a JSON text frame `{ type, payload }` over a WebSocket.
+ *
+ * Handshake (both modes):
+ *   1. sim → `config`: version, observation/action space shapes and labels,
+ *      env count and ticks per step
+ *   2. trainer → `ready` with its version. A version mismatch gets an
+ *      `error` and the connection is closed.
+ *
+ * Server mode (the trainer drives a batch of headless envs):
+ *   - trainer → `reset` { seeds, envIds? }: start new episodes (all envs
+ *     when envIds is left out); sim → `reset_result` { envIds, obs, masks }
+ *   - trainer → `step` { actions, envIds? }: one action id per env;
+ *     sim → `step_result` { envIds, obs, masks, rewards, dones, infos }
+ *   - A done env must be reset before it is stepped again.
+ *
+ * Bridge mode (a live match asks the trainer for each decision):
+ *   - sim → `episode_start` { episode, seed } when a match begins
+ *   - sim → `observation` { obs, mask, episode, step }; trainer → `action`
+ *     { actionId, confidence? }
+ *   - sim → `reward` { reward, done, episode, step } after the action
+ *
+ * Masks hold one entry per action id: 1 if the fighter can execute the
+ * action right now, 0 if the engine would refuse it (ActionLegality).
+ * Illegal actions are still accepted but not carried out as asked: the
+ * fighter idles, or closes distance when the move is out of range.
+ *
+ * Either side may send `error` (sim) or `close` (trainer) at any time.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Which side of the protocol the sim is on.
+ *   - 'server': the sim hosts a batch of headless envs and the trainer
+ *     drives them with reset/step (scripts/train-server.ts)
+ *   - 'bridge': a live match in the game asks a trainer for each decision
+ *     (TrainingBridge)
+ */
+export type ProtocolMode = 'server' | 'bridge';
+
+/** Sent by the sim as soon as the connection opens. */
+export interface ConfigPayload {
+	version: number;
+	mode: ProtocolMode;
+	observationSize: number;
+	actionCount: number;
+	/** Action names in id order */
+	actions: readonly ActionName[];
+	/** Observation slot names in vector order */
+	observationLabels: readonly string[];
+	/** Envs the trainer can step (1 in bridge mode) */
+	numEnvs: number;
+	/** Match ticks per step (0 in bridge mode, where the match sets the pace) */
+	ticksPerStep: number;
+}
+
+/** Per-env info in a step result. */
+export interface StepInfo {
+	tick: number;
+	/** Whether the fighter reached a decision point and took the action */
+	actionApplied: boolean;
+	/** The episode hit its tick limit without a result */
+	truncated: boolean;
+	winnerId: string | null;
+	method: string | null;
+}
+
+/**
+ * Messages the sim sends.
+ * Batched payloads are parallel arrays in `envIds` order.
+ */
+export type SimMessage =
+	| { type: 'config'; payload: ConfigPayload }
+	| { type: 'reset_result'; payload: { envIds: number[]; obs: number[][]; masks: number[][] } }
+	| {
+			type: 'step_result';
+			payload: {
+				envIds: number[];
+				obs: number[][];
+				masks: number[][];
+				rewards: number[];
+				dones: boolean[];
+				infos: StepInfo[];
+			};
+	  }
+	| { type: 'observation'; payload: { obs: number[]; mask: number[]; episode: number; step: number } }
+	| { type: 'reward'; payload: { reward: number; done: boolean; episode: number; step: number } }
+	| { type: 'episode_start'; payload: { episode: number; seed: number } }
+	| { type: 'error'; payload: { message: string } };
+
+/** Messages the trainer sends. */
+export type TrainerMessage =
+	| { type: 'ready'; payload: { version: number } }
+	| { type: 'reset'; payload: { seeds: number[]; envIds?: number[] } }
+	| { type: 'step'; payload: { actions: number[]; envIds?: number[] } }
+	| { type: 'action'; payload: { actionId: number; confidence?: number } }
+	| { type: 'close'; payload: Record<string, never> };
+
+/** The config a sim announces for its observation and action spaces. */
+export function buildConfig(mode: ProtocolMode, numEnvs: number, ticksPerStep: number): ConfigPayload {
+	return {
+		version: PROTOCOL_VERSION,
+		mode,
+		observationSize: OBSERVATION_SIZE,
+		actionCount: ACTION_COUNT,
+		actions: ACTION_LIST,
+		observationLabels: OBSERVATION_LABELS,
+		numEnvs,
+		ticksPerStep
+	};
+}
+
+export function encodeMessage(message: SimMessage | TrainerMessage): string {
+	return JSON.stringify(message);
+}
+
+/**
+ * Parse and check a message from the trainer.
+ * Throws on anything that isn't a well-formed v1 trainer message.
+ */
+export function parseTrainerMessage(raw: string): TrainerMessage {
+	let message: unknown;
+	try {
+		message = JSON.parse(raw);
+	} catch {
+		throw new Error('TrainingProtocol: message is not JSON');
+	}
+	if (!isObject(message)) throw new Error('TrainingProtocol: message must be an object');
+	const payload = message.payload ?? {};
+	if (!isObject(payload)) throw new Error('TrainingProtocol: payload must be an object');
+
+	switch (message.type) {
+		case 'ready':
+			if (typeof payload.version !== 'number') throw new Error('TrainingProtocol: ready needs a version');
+			return { type: 'ready', payload: { version: payload.version } };
+		case 'reset': {
+			const seeds = intArray(payload.seeds, 'reset.seeds');
+			const envIds = payload.envIds === undefined ? undefined : intArray(payload.envIds, 'reset.envIds');
+			if (envIds && envIds.length !== seeds.length) {
+				throw new Error('TrainingProtocol: reset.seeds and reset.envIds differ in length');
+			}
+			return { type: 'reset', payload: { seeds, envIds } };
+		}
+		case 'step': {
+			const actions = intArray(payload.actions, 'step.actions');
+			const envIds = payload.envIds === undefined ? undefined : intArray(payload.envIds, 'step.envIds');
+			if (envIds && envIds.length !== actions.length) {
+				throw new Error('TrainingProtocol: step.actions and step.envIds differ in length');
+			}
+			return { type: 'step', payload: { actions, envIds } };
+		}
+		case 'action': {
+			const [actionId] = intArray([payload.actionId], 'action.actionId');
+			const confidence = typeof payload.confidence === 'number' ? payload.confidence : undefined;
+			return { type: 'action', payload: { actionId, confidence } };
+		}
+		case 'close':
+			return { type: 'close', payload: {} };
+		default:
+			throw new Error(`TrainingProtocol: unknown message type '${String(message.type)}'`);
+	}
+}
+
+/**
+ * Parse a message from the sim (the trainer's side of the protocol).
+ * Only the envelope is checked; the sim is trusted to fill in payloads.
+ */
+export function parseSimMessage(raw: string): SimMessage {
+	let message: { type?: unknown; payload?: unknown };
+	try {
+		message = JSON.parse(raw);
+	} catch {
+		throw new Error('TrainingProtocol: message is not JSON');
+	}
+	if (typeof message?.type !== 'string' || typeof message.payload !== 'object' || message.payload === null) {
+		throw new Error('TrainingProtocol: malformed message');
+	}
+	return message as SimMessage;
+}
+
+/** A JSON object: not null, not an array. */
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function intArray(value: unknown, field: string): number[] {
+	if (!Array.isArray(value) || !value.every((v) => Number.isInteger(v))) {
+		throw new Error(`TrainingProtocol: ${field} must be an array of integers`);
+	}
+	return value as number[];
+}
@@ -1,7 +1,7 @@
 import type { AgentObservation } from '../../components/agent/AgentObservation';
 import type { SeededRandom } from '../../utils/random';
 import type { ActionResult, Strategy } from '../Strategy';
-import { ACTION_COUNT, idToAction } from '../rl/ActionSpace';
+import { ACTION_COUNT, idToAction, legalActionIds } from '../rl/ActionSpace';
 import { OBSERVATION_SIZE } from '../rl/ObservationSpace';
 
 /**
@@ -63,6 +63,15 @@ function sampleCategorical(probs: number[], random: SeededRandom): number {
 	return probs.length - 1;
 }
 
+/**
+ * Rule out actions that aren't legal right now.
+ * Their logits become -Infinity, so softmax gives them zero probability.
+ */
+function maskLogits(logits: number[], legal: readonly number[]): number[] {
+	const allowed = new Set(legal);
+	return logits.map((l, i) => (allowed.has(i) ? l : -Infinity));
+}
+
 /**
  * Forward pass through the linear policy.
  * Returns raw logits (one per action).
@@ -96,6 +105,7 @@ function forwardPass(policy: LinearPolicy, observation: number[]): number[] {
  * - Deterministic or stochastic action selection (via temperature).
  * - Policy can be hot-swapped via setPolicy().
  * - Epsilon-greedy exploration for training.
+ * - Illegal actions (observation.actionMask) are never chosen.
  * - Structured for future neural network integration.
  */
 export class RLStrategy implements Strategy {
@@ -121,25 +131,26 @@ export class RLStrategy implements Strategy {
 
 	decide(observation: AgentObservation, random: SeededRandom): ActionResult {
 		const vec = observation.vector;
+		const legal = legalActionIds(observation.actionMask);
 
-		// If no policy is loaded, use purely random actions
+		// If no policy is loaded, use purely random legal actions
 		if (!this.policy) {
-			const actionId = random.int(0, ACTION_COUNT - 1);
+			const actionId = random.pick(legal);
 			return {
 				action: idToAction(actionId),
 				target: null,
-				confidence: 1.0 / ACTION_COUNT,
+				confidence: 1.0 / legal.length,
 				reasoning: 'rl:no_policy:random'
 			};
 		}
 
 		// Epsilon-greedy exploration
 		if (random.next() < this.epsilon) {
-			const actionId = random.int(0, ACTION_COUNT - 1);
+			const actionId = random.pick(legal);
 			return {
 				action: idToAction(actionId),
 				target: null,
-				confidence: this.epsilon / ACTION_COUNT,
+				confidence: this.epsilon / legal.length,
 				reasoning: 'rl:epsilon_explore'
 			};
 		}
@@ -147,8 +158,8 @@ export class RLStrategy implements Strategy {
 		// Forward pass through policy
 		const logits = forwardPass(this.policy, vec);
 
-		// Apply temperature
-		const temperedLogits = logits.map((l) => l / this.temperature);
+		// Apply temperature, then drop illegal actions
+		const temperedLogits = maskLogits(logits.map((l) => l / this.temperature), legal);
 
 		if (this.greedy) {
 			// Argmax selection (deterministic)
@@ -7,7 +7,7 @@ import {
 	applyPersonalityBias,
 	createBalancedWeights
 } from '../personality/PersonalityProfile';
-import { ACTION_CATEGORIES, type ActionName } from '../rl/ActionSpace';
+import { ACTION_CATEGORIES, isActionAllowed, type ActionName } from '../rl/ActionSpace';
 
 // ── Observation indices (matching ObservationSpace layout) ──
 const OBS = {
@@ -233,11 +233,12 @@ export function buildDefaultActions(): UtilityAction[] {
 }
 
 /**
- * UtilityAIStrategy: scores all possible actions and picks the highest.
+ * UtilityAIStrategy: scores all legal actions and picks the highest.
  *
  * Each action has a scoring function that returns a base utility in [0, 1].
  * Personality weights bias the scores toward the wrestler's style.
  * A small random perturbation prevents deterministic play.
+ * Actions the observation's action mask rules out are never scored.
  */
 export class UtilityAIStrategy implements Strategy {
 	readonly id = 'utility_ai';
@@ -267,9 +268,13 @@ export class UtilityAIStrategy implements Strategy {
 
 	decide(observation: AgentObservation, random: SeededRandom): ActionResult {
 		const vec = observation.vector;
+		const candidates = this.actions.filter((ua) => isActionAllowed(observation.actionMask, ua.action));
+		if (candidates.length === 0) {
+			return { action: 'idle', target: null, confidence: 1, reasoning: 'utility:no_legal_action' };
+		}
 
-		// Score each action
-		const baseScores = this.actions.map((ua) => ({
+		// Score each legal action
+		const baseScores = candidates.map((ua) => ({
 			action: ua.action,
 			category: ua.category,
 			score: ua.scoreFn(vec)
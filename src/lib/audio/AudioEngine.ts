@@ -0,0 +1,251 @@
+import type { World } from '../ecs/World';
+import { clamp } from '../utils/math';
+import { VOICES, createNoiseBuffer } from './ProceduralVoices';
+import { ThemePlayer, themeFor } from './EntranceThemes';
+
+/**
+ * A sound to play (MatchAudioCues turns match log entries into these, and
+ * the ECS AudioSystem engine events).
+ */
+export interface AudioCue {
+	/** Voice id (ProceduralVoices.VOICES) */
+	soundId: string;
+	volume: number;
+	/** Playback rate: scales every frequency in the voice */
+	pitch: number;
+	/** Stereo position, -1 (left) to 1 (right) */
+	pan: number;
+	/** Higher plays first when a drain has more cues than it can start */
+	priority: number;
+}
+
+/** Most cues started from one drain — the loudest moments win. */
+const MAX_CUES_PER_DRAIN = 6;
+
+/** Most sound effects ringing at once; cues past it are dropped. */
+const MAX_VOICES = 24;
+
+/** Crowd bed gain at no tension and at full tension. */
+const CROWD_BED_MIN = 0.05;
+const CROWD_BED_MAX = 0.35;
+
+/** Crowd bed lowpass cutoff (Hz) at no tension and at full tension — a tense crowd is brighter. */
+const CROWD_CUTOFF_MIN = 700;
+const CROWD_CUTOFF_MAX = 3200;
+
+/** Time constant (seconds) the crowd bed follows tension with. */
+const CROWD_SMOOTHING = 0.8;
+
+/** Seconds a theme fades out over when stopped or replaced. */
+const THEME_FADE_OUT = 1.5;
+
+/** A sound effect that's still ringing, with the nodes to release when it's done. */
+interface ActiveVoice {
+	end: number;
+	nodes: AudioNode[];
+}
+
+/**
+ * AudioEngine
+ *
+ * Plays the match on Web Audio. Everything is synthesized (ProceduralVoices,
+ * EntranceThemes), so there's nothing to download.
+ *
+ *   - drain(): plays the AudioCues queued from MatchAudioCues, each through
+ *     its own stereo panner
+ *   - drainWorld(): the same for the cues AudioSystem leaves in an ECS
+ *     world's 'audioQueue' resource
+ *   - setCrowdTension(): a looped crowd bed that swells and brightens with
+ *     the drama scorer's tension
+ *   - playTheme()/stopTheme(): a wrestler's entrance theme by music id
+ *   - update(): once per frame, keeps themes scheduled and frees finished voices
+ *
+ * Without Web Audio (SSR, old browsers) every method is a no-op. Browsers
+ * keep a new context suspended until the user interacts with the page; the
+ * engine resumes it on the first click or key press.
+ */
+export class AudioEngine {
+	private readonly ctx: AudioContext | null = null;
+	private readonly master: GainNode | null = null;
+	private readonly noise: AudioBuffer | null = null;
+
+	private crowdSource: AudioBufferSourceNode | null = null;
+	private crowdFilter: BiquadFilterNode | null = null;
+	private crowdGain: GainNode | null = null;
+
+	private theme: ThemePlayer | null = null;
+	/** Themes fading out, kept until their tails have rung */
+	private fadingThemes: ThemePlayer[] = [];
+	private voices: ActiveVoice[] = [];
+
+	private enabled = true;
+	private volume = 0.7;
+
+	private readonly resume = () => {
+		void this.ctx?.resume();
+	};
+
+	constructor() {
+		if (typeof window === 'undefined' || typeof window.AudioContext === 'undefined') return;
+
+		this.ctx = new AudioContext();
+		this.noise = createNoiseBuffer(this.ctx);
+
+		// Master volume into a compressor, so a finisher on top of a roaring crowd doesn't clip
+		const compressor = this.ctx.createDynamicsCompressor();
+		compressor.threshold.value = -12;
+		compressor.ratio.value = 4;
+		compressor.connect(this.ctx.destination);
+		this.master = this.ctx.createGain();
+		this.master.gain.value = this.volume;
+		this.master.connect(compressor);
+
+		this.startCrowdBed();
+
+		if (this.ctx.state === 'suspended') {
+			window.addEventListener('pointerdown', this.resume, { once: true });
+			window.addEventListener('keydown', this.resume, { once: true });
+		}
+	}
+
+	/** Apply the audio settings (settingsStore's audioEnabled/audioVolume). */
+	configure(enabled: boolean, volume: number): void {
+		this.enabled = enabled;
+		this.volume = clamp(volume, 0, 1);
+		if (!this.ctx || !this.master) return;
+		this.master.gain.setTargetAtTime(enabled ? this.volume : 0, this.ctx.currentTime, 0.05);
+	}
+
+	/**
+	 * Play the queued cues and empty the queue (in place, so the producer's
+	 * array can be reused).
+	 */
+	drain(queue: AudioCue[]): void {
+		if (this.ctx && this.enabled && queue.length > 0) {
+			queue.sort((a, b) => b.priority - a.priority);
+			for (const cue of queue.slice(0, MAX_CUES_PER_DRAIN)) this.play(cue);
+		}
+		queue.length = 0;
+	}
+
+	/** Play and empty the 'audioQueue' resource AudioSystem writes to. */
+	drainWorld(world: World): void {
+		const queue = world.getResource<AudioCue[]>('audioQueue');
+		if (queue) this.drain(queue);
+	}
+
+	/** Play one cue now. Unknown sound ids are ignored. */
+	play(cue: AudioCue): void {
+		if (!this.ctx || !this.master || !this.noise || !this.enabled) return;
+		const voice = VOICES[cue.soundId];
+		if (!voice || this.voices.length >= MAX_VOICES) return;
+
+		const gain = this.ctx.createGain();
+		gain.gain.value = clamp(cue.volume, 0, 1);
+		const panner = this.ctx.createStereoPanner();
+		panner.pan.value = clamp(cue.pan, -1, 1);
+		gain.connect(panner).connect(this.master);
+
+		const when = this.ctx.currentTime;
+		const length = voice({ ctx: this.ctx, out: gain, when, pitch: cue.pitch, noise: this.noise });
+		this.voices.push({ end: when + length, nodes: [gain, panner] });
+	}
+
+	/** Follow the drama scorer's tension (0-1) with the crowd bed. */
+	setCrowdTension(tension: number): void {
+		if (!this.ctx || !this.crowdGain || !this.crowdFilter) return;
+		const t = clamp(tension, 0, 1);
+		const now = this.ctx.currentTime;
+		this.crowdGain.gain.setTargetAtTime(CROWD_BED_MIN + (CROWD_BED_MAX - CROWD_BED_MIN) * t, now, CROWD_SMOOTHING);
+		this.crowdFilter.frequency.setTargetAtTime(
+			CROWD_CUTOFF_MIN + (CROWD_CUTOFF_MAX - CROWD_CUTOFF_MIN) * t,
+			now,
+			CROWD_SMOOTHING
+		);
+	}
+
+	/** Start a wrestler's entrance theme (entrance.musicId), fading out whatever was playing. */
+	playTheme(musicId: string): void {
+		if (!this.ctx || !this.master || !this.noise) return;
+		this.stopTheme();
+		this.theme = new ThemePlayer(this.ctx, this.master, this.noise, themeFor(musicId));
+	}
+
+	/** Fade out the current theme. */
+	stopTheme(fadeSeconds = THEME_FADE_OUT): void {
+		if (!this.theme) return;
+		this.theme.stop(fadeSeconds);
+		this.fadingThemes.push(this.theme);
+		this.theme = null;
+	}
+
+	/** Call once per frame: schedules theme notes ahead and frees finished voices. */
+	update(): void {
+		if (!this.ctx) return;
+		const now = this.ctx.currentTime;
+
+		this.voices = this.voices.filter((v) => {
+			if (v.end > now) return true;
+			for (const node of v.nodes) node.disconnect();
+			return false;
+		});
+
+		if (this.enabled) this.theme?.schedule();
+		this.fadingThemes = this.fadingThemes.filter((theme) => {
+			if (!theme.finished) {
+				theme.schedule();
+				return true;
+			}
+			theme.dispose();
+			return false;
+		});
+	}
+
+	/** Stop everything and close the audio context. */
+	dispose(): void {
+		if (!this.ctx) return;
+		window.removeEventListener('pointerdown', this.resume);
+		window.removeEventListener('keydown', this.resume);
+		this.theme?.dispose();
+		for (const theme of this.fadingThemes) theme.dispose();
+		this.theme = null;
+		this.fadingThemes = [];
+		this.crowdSource?.stop();
+		this.voices = [];
+		void this.ctx.close();
+	}
+
+	/** Looped noise shaped like a crowd: vocal-range band, lowpass and gain driven by tension. */
+	private startCrowdBed(): void {
+		if (!this.ctx || !this.master || !this.noise) return;
+
+		this.crowdSource = this.ctx.createBufferSource();
+		this.crowdSource.buffer = this.noise;
+		this.crowdSource.loop = true;
+
+		const band = this.ctx.createBiquadFilter();
+		band.type = 'bandpass';
+		band.frequency.value = 650;
+		band.Q.value = 0.5;
+
+		this.crowdFilter = this.ctx.createBiquadFilter();
+		this.crowdFilter.type = 'lowpass';
+		this.crowdFilter.frequency.value = CROWD_CUTOFF_MIN;
+
+		this.crowdGain = this.ctx.createGain();
+		this.crowdGain.gain.value = CROWD_BED_MIN;
+
+		this.crowdSource.connect(band).connect(this.crowdFilter).connect(this.crowdGain).connect(this.master);
+		this.crowdSource.start();
+	}
+}
+
+/** Impact sound for a hit by damage tier. */
+export function impactSoundId(damage: number): string {
+	if (damage >= 25) return 'sfx_impact_heavy';
+	if (damage >= 15) return 'sfx_impact_medium';
+	if (damage >= 8) return 'sfx_impact_light';
+	return 'sfx_impact_soft';
+}
+
+export { MAX_CUES_PER_DRAIN, MAX_VOICES, THEME_FADE_OUT };
@@ -0,0 +1,244 @@
+import { SeededRandom } from '../utils/random';
+import { DRUMS, playNote, type VoiceTarget } from './ProceduralVoices';
+
+/**
+ * An entrance theme: a two-bar loop of sixteen eighth-note steps with a bass
+ * line, a lead riff and a drum pattern, written in scale degrees so a theme is
+ * a handful of numbers rather than an audio file.
+ *
+ * Degrees index into `scale` and wrap into the next octave (with a
+ * five-note scale, degree 5 is the root an octave up).
+ */
+export interface ThemeDef {
+	/** Beats per minute (steps are eighth notes) */
+	tempo: number;
+	/** MIDI note of the bass root */
+	root: number;
+	/** Scale as semitone offsets from the root */
+	scale: number[];
+	/** Bass degree per step (null = rest) */
+	bass: (number | null)[];
+	/** Lead degree per step (null = rest), played an octave over the bass */
+	lead: (number | null)[];
+	/** Drum per step: k = kick, s = snare, h = hi-hat, - = rest */
+	drums: string;
+	bassWave: OscillatorType;
+	leadWave: OscillatorType;
+}
+
+/** Steps in a theme loop. */
+const THEME_STEPS = 16;
+
+/** Seconds of notes scheduled ahead of the audio clock. */
+const SCHEDULE_AHEAD = 0.2;
+
+/** Seconds a theme takes to come up to full volume. */
+const FADE_IN = 0.8;
+
+const THEME_VOLUME = 0.45;
+const BASS_GAIN = 0.35;
+const LEAD_GAIN = 0.18;
+
+const MINOR_PENTATONIC = [0, 3, 5, 7, 10];
+const MAJOR = [0, 2, 4, 5, 7, 9, 11];
+const DORIAN = [0, 2, 3, 5, 7, 9, 10];
+const PHRYGIAN = [0, 1, 3, 5, 7, 8, 10];
+const HARMONIC_MINOR = [0, 2, 3, 5, 7, 8, 11];
+const MIXOLYDIAN = [0, 2, 4, 5, 7, 9, 10];
+
+const SCALES = [MINOR_PENTATONIC, MAJOR, DORIAN, PHRYGIAN, HARMONIC_MINOR, MIXOLYDIAN];
+const WAVES: OscillatorType[] = ['sawtooth', 'square', 'triangle'];
+
+const _ = null;
+
+/** Themes by entrance.musicId (roster.json, customWrestler.ts). */
+export const ENTRANCE_THEMES: Record<string, ThemeDef> = {
+	// Slow, heavy and menacing
+	iron_theme: {
+		tempo: 96, root: 40, scale: MINOR_PENTATONIC,
+		bass: [0, _, 0, _, 0, 0, _, _, 2, _, 2, _, 1, _, 0, _],
+		lead: [5, _, _, _, _, _, 6, 7, 8, _, _, _, 7, _, 6, _],
+		drums: 'k-h-s-h-kkh-s-h-',
+		bassWave: 'sawtooth', leadWave: 'square'
+	},
+	// Bright and fast for the high-flyer
+	phoenix_theme: {
+		tempo: 152, root: 50, scale: MAJOR,
+		bass: [0, _, 0, _, 4, _, 4, _, 5, _, 5, _, 3, _, 4, _],
+		lead: [7, 9, 11, 14, 11, 9, 7, 9, 8, 10, 12, 15, 12, 10, 11, _],
+		drums: 'khshkhshkhshkhss',
+		bassWave: 'triangle', leadWave: 'square'
+	},
+	// Measured and clean
+	technique_theme: {
+		tempo: 112, root: 45, scale: DORIAN,
+		bass: [0, _, _, 0, 4, _, 3, _, 2, _, _, 2, 6, _, 4, _],
+		lead: [_, 7, 9, 10, _, 11, 10, 9, _, 7, 9, 10, 12, _, 11, _],
+		drums: 'k-h-s-hkk-h-s-hh',
+		bassWave: 'triangle', leadWave: 'triangle'
+	},
+	// Driving and dissonant
+	chaos_theme: {
+		tempo: 144, root: 41, scale: PHRYGIAN,
+		bass: [0, 0, 1, 0, 0, 0, 1, 0, 3, 3, 1, 0, 4, 3, 1, 0],
+		lead: [7, _, 8, _, 11, 10, _, 8, 7, _, 8, _, 12, 11, 8, 7],
+		drums: 'kkshkksh-kshkkss',
+		bassWave: 'sawtooth', leadWave: 'sawtooth'
+	},
+	// Slow and sinister
+	serpent_theme: {
+		tempo: 84, root: 38, scale: HARMONIC_MINOR,
+		bass: [0, _, _, _, _, _, 0, _, 5, _, _, _, 4, _, _, _],
+		lead: [7, _, 9, _, 11, _, 13, 12, 11, _, _, 9, 10, _, 9, _],
+		drums: 'k---h---s---h-h-',
+		bassWave: 'sine', leadWave: 'sine'
+	},
+	// Big, stomping arena rock
+	thunder_theme: {
+		tempo: 128, root: 43, scale: MIXOLYDIAN,
+		bass: [0, 0, _, 0, 0, 0, _, 0, 6, 6, _, 6, 3, 3, 4, _],
+		lead: [7, _, 7, 9, _, 7, _, _, 13, _, 13, 11, _, 9, 7, _],
+		drums: 'k-hsk-hsk-hskkss',
+		bassWave: 'square', leadWave: 'sawtooth'
+	},
+	// Created wrestlers share a generic rock theme
+	custom_theme: {
+		tempo: 120, root: 43, scale: MINOR_PENTATONIC,
+		bass: [0, _, 0, _, 2, _, 0, _, 3, _, 3, _, 2, _, 1, _],
+		lead: [5, _, 7, _, 8, 7, 5, _, 8, _, 9, _, 8, 7, 6, _],
+		drums: 'k-h-s-h-k-k-s-hh',
+		bassWave: 'sawtooth', leadWave: 'square'
+	}
+};
+
+/**
+ * The theme for a music id. Ids without a written theme get one generated
+ * from the id, so the same wrestler always walks out to the same music.
+ */
+export function themeFor(musicId: string): ThemeDef {
+	return ENTRANCE_THEMES[musicId] ?? generateTheme(musicId);
+}
+
+function generateTheme(musicId: string): ThemeDef {
+	let seed = 0;
+	for (let i = 0; i < musicId.length; i++) {
+		seed = (Math.imul(seed, 31) + musicId.charCodeAt(i)) | 0;
+	}
+	const rng = new SeededRandom(seed);
+
+	const bass: (number | null)[] = [];
+	const lead: (number | null)[] = [];
+	let drums = '';
+	for (let step = 0; step < THEME_STEPS; step++) {
+		bass.push(step === 0 ? 0 : rng.chance(0.6) ? rng.int(0, 4) : null);
+		lead.push(rng.chance(0.45) ? rng.int(5, 11) : null);
+		// Kick on the downbeats, snare on the backbeats, the rest filled in
+		if (step % 8 === 0) drums += 'k';
+		else if (step % 8 === 4) drums += 's';
+		else drums += rng.chance(0.25) ? 'k' : rng.chance(0.6) ? 'h' : '-';
+	}
+
+	return {
+		tempo: rng.int(90, 150),
+		root: rng.int(38, 45),
+		scale: rng.pick(SCALES),
+		bass,
+		lead,
+		drums,
+		bassWave: rng.pick(WAVES),
+		leadWave: rng.pick(WAVES)
+	};
+}
+
+/** MIDI note of a scale degree, wrapping into higher octaves. */
+function degreeToMidi(theme: ThemeDef, degree: number): number {
+	const n = theme.scale.length;
+	return theme.root + theme.scale[((degree % n) + n) % n] + 12 * Math.floor(degree / n);
+}
+
+function midiToFrequency(midi: number): number {
+	return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+/**
+ * Plays one theme on a loop.
+ *
+ * Notes are scheduled a little ahead of the audio clock from `schedule()`,
+ * which the engine calls every frame — the clock keeps the time, the frame
+ * rate only has to keep the queue topped up.
+ */
+export class ThemePlayer {
+	private readonly gain: GainNode;
+	private readonly stepSeconds: number;
+	private nextStepTime: number;
+	private step = 0;
+	/** Context time the theme is silent and stops scheduling */
+	private stopAt = Infinity;
+
+	constructor(
+		private readonly ctx: AudioContext,
+		out: AudioNode,
+		private readonly noise: AudioBuffer,
+		private readonly theme: ThemeDef
+	) {
+		this.stepSeconds = 60 / theme.tempo / 2;
+		this.nextStepTime = ctx.currentTime + 0.05;
+
+		this.gain = ctx.createGain();
+		this.gain.gain.setValueAtTime(0, ctx.currentTime);
+		this.gain.gain.linearRampToValueAtTime(THEME_VOLUME, ctx.currentTime + FADE_IN);
+		this.gain.connect(out);
+	}
+
+	/** True once the theme has faded out and its last notes have rung. */
+	get finished(): boolean {
+		return this.ctx.currentTime > this.stopAt + 1;
+	}
+
+	/** Schedule every step that starts before the look-ahead horizon. */
+	schedule(): void {
+		const horizon = this.ctx.currentTime + SCHEDULE_AHEAD;
+		// After a stall (background tab) pick up from now rather than play the backlog at once
+		if (this.nextStepTime < this.ctx.currentTime) this.nextStepTime = this.ctx.currentTime;
+		while (this.nextStepTime < horizon && this.nextStepTime < this.stopAt) {
+			this.playStep(this.step % THEME_STEPS, this.nextStepTime);
+			this.nextStepTime += this.stepSeconds;
+			this.step++;
+		}
+	}
+
+	/** Fade the theme out over `fadeSeconds`. */
+	stop(fadeSeconds: number): void {
+		if (this.stopAt !== Infinity) return;
+		const now = this.ctx.currentTime;
+		this.gain.gain.cancelScheduledValues(now);
+		this.gain.gain.setValueAtTime(this.gain.gain.value, now);
+		this.gain.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+		this.stopAt = now + fadeSeconds;
+	}
+
+	dispose(): void {
+		this.gain.disconnect();
+	}
+
+	private playStep(step: number, when: number): void {
+		const target: VoiceTarget = { ctx: this.ctx, out: this.gain, when, pitch: 1, noise: this.noise };
+
+		const bass = this.theme.bass[step];
+		if (bass !== null && bass !== undefined) {
+			const freq = midiToFrequency(degreeToMidi(this.theme, bass));
+			playNote(target, this.theme.bassWave, freq, BASS_GAIN, this.stepSeconds * 0.9);
+		}
+
+		const lead = this.theme.lead[step];
+		if (lead !== null && lead !== undefined) {
+			const freq = midiToFrequency(degreeToMidi(this.theme, lead) + 12);
+			playNote(target, this.theme.leadWave, freq, LEAD_GAIN, this.stepSeconds * 1.6);
+		}
+
+		const drum = DRUMS[this.theme.drums[step]];
+		if (drum) drum(target);
+	}
+}
+
+export { THEME_STEPS, SCHEDULE_AHEAD };
@@ -0,0 +1,190 @@
+import type { MatchState, MatchLogEntry } from '../match/engine/MatchState';
+import type { MoveLibrary } from '../combat/MovePackLoader';
+import { impactSoundId, type AudioCue } from './AudioEngine';
+import { MovePackLoader } from '../combat/MovePackLoader';
+import { CORE_MOVE_PACK } from '../data/moves';
+import { clamp } from '../utils/math';
+
+/**
+ * Ticks a log entry stays worth a sound. Older entries (a replay seek, a
+ * mapper created mid-match) are skipped rather than played all at once.
+ */
+const STALE_TICKS = 30;
+
+/**
+ * Half-width of the arena (out to the barricade) across the stereo field.
+ * A fighter at the barricade is hard left or right; one mid-ring is centered.
+ */
+const PAN_HALF_WIDTH = 5.0;
+
+/** Core move library, built on first use (move categories when none is passed in). */
+let coreMoveLibrary: MoveLibrary | null = null;
+
+function coreMoves(): MoveLibrary {
+	coreMoveLibrary ??= MovePackLoader.load([CORE_MOVE_PACK]);
+	return coreMoveLibrary;
+}
+
+/**
+ * MatchAudioCues
+ *
+ * Reads new MatchState.log entries each tick (read-only) and turns them
+ * into AudioCues for the AudioEngine to play.
+ *
+ * Sound mapping:
+ *   - move_hit         -> Impact by damage tier (slams for grapple moves)
+ *   - move_miss        -> Whoosh
+ *   - knockdown, thrown to the floor, elimination -> Slam
+ *   - finisher_impact  -> Big impact + crowd roar
+ *   - pin_count        -> Referee hand slap (crowd gasp at two)
+ *   - pin_kickout      -> Crowd pop on a near fall
+ *   - submission_start -> Struggle
+ *   - barricade/cage   -> Steel
+ *   - crowd_pop/chant  -> Crowd reaction (lower and darker for boos) / chant
+ *   - bell             -> Match start, sudden death and match end
+ *
+ * Panning follows the positionX of the fighter on the receiving end; crowd,
+ * referee and bell stay centered.
+ */
+export class MatchAudioCues {
+	private readonly moveLibrary: MoveLibrary;
+	/** Log entries already turned into cues */
+	private logCursor = 0;
+	private bellRung = false;
+
+	constructor(moves: MoveLibrary | null = null) {
+		this.moveLibrary = moves ?? coreMoves();
+	}
+
+	/**
+	 * Cues for everything logged since the last call.
+	 * @param timeDilation The director's slow motion — lowers the pitch
+	 */
+	update(state: MatchState, timeDilation = 1.0): AudioCue[] {
+		const cues: AudioCue[] = [];
+
+		// Opening bell, unless we're joining a match already under way
+		if (!this.bellRung && state.running) {
+			this.bellRung = true;
+			if (state.tick <= STALE_TICKS) cues.push(centered('sfx_bell', 0.8, 9));
+		}
+
+		if (this.logCursor > state.log.length) this.logCursor = 0;
+		for (let i = this.logCursor; i < state.log.length; i++) {
+			const entry = state.log[i];
+			if (entry.tick < state.tick - STALE_TICKS) continue;
+			this.entryCues(state, entry, cues);
+		}
+		this.logCursor = state.log.length;
+
+		if (timeDilation < 1.0) {
+			// Lower pitch during slow-motion for dramatic effect
+			for (const cue of cues) cue.pitch *= Math.max(0.5, timeDilation);
+		}
+		return cues;
+	}
+
+	private entryCues(state: MatchState, entry: MatchLogEntry, cues: AudioCue[]): void {
+		const data = entry.data;
+		const panOf = (key: string) => agentPan(state, data[key]);
+
+		switch (entry.type) {
+			case 'move_hit': {
+				const damage = Number(data.damage ?? 0);
+				const damageScale = Math.min(damage / 30, 1.0);
+				const move = this.moveLibrary.moves.get(String(data.moveId));
+				cues.push({
+					soundId: move?.category === 'grapple' ? 'sfx_slam' : impactSoundId(damage),
+					volume: 0.5 + damageScale * 0.5,
+					pitch: 0.9 + Math.random() * 0.2, // Slight pitch variation
+					pan: panOf('defenderId'),
+					priority: 5
+				});
+				break;
+			}
+
+			case 'move_miss':
+				cues.push({ soundId: 'sfx_whoosh', volume: 0.3, pitch: 1.0, pan: panOf('attackerId'), priority: 2 });
+				break;
+
+			case 'knockdown':
+				cues.push({ soundId: 'sfx_slam', volume: 0.7, pitch: 0.95 + Math.random() * 0.1, pan: panOf('agentId'), priority: 4 });
+				break;
+
+			case 'ringside_exit':
+				if (data.how === 'thrown') {
+					cues.push({ soundId: 'sfx_slam', volume: 0.8, pitch: 0.85, pan: panOf('agentId'), priority: 5 });
+				}
+				break;
+
+			case 'elimination':
+				cues.push({ soundId: 'sfx_slam', volume: 0.8, pitch: 0.85, pan: panOf('agentId'), priority: 6 });
+				break;
+
+			case 'barricade_slam':
+			case 'cage_slam':
+				cues.push({ soundId: 'sfx_steel', volume: 0.9, pitch: 0.9 + Math.random() * 0.2, pan: panOf('agentId'), priority: 6 });
+				break;
+
+			case 'finisher_impact':
+				cues.push({ soundId: 'sfx_finisher_impact', volume: 1.0, pitch: 0.8, pan: panOf('defenderId'), priority: 10 });
+				cues.push(centered('crowd_roar', 1.0, 8));
+				break;
+
+			case 'pin_count': {
+				const count = Number(data.count ?? 1);
+				cues.push({
+					soundId: 'sfx_ref_slap',
+					volume: 0.8,
+					pitch: 1.0 + (count - 1) * 0.05, // Slightly higher pitch for later counts
+					pan: 0,
+					priority: 7
+				});
+				if (count === 2) cues.push(centered('crowd_gasp', 0.7, 6));
+				break;
+			}
+
+			case 'pin_kickout':
+				if (data.nearFall) cues.push(centered('crowd_pop', 0.9, 8));
+				break;
+
+			case 'submission_start':
+				cues.push({ soundId: 'sfx_struggle', volume: 0.5, pitch: 1.0, pan: panOf('defenderId'), priority: 3 });
+				break;
+
+			case 'crowd_pop': {
+				const boo = data.reaction === 'boo';
+				cues.push({
+					soundId: 'crowd_reaction',
+					volume: Math.max(0.3, Math.min(Number(data.pop ?? 0) / 25, 1.0)),
+					pitch: boo ? 0.8 : 1.0,
+					pan: 0,
+					priority: 4
+				});
+				break;
+			}
+
+			case 'crowd_chant':
+				cues.push(centered('crowd_chant', 0.6, 3));
+				break;
+
+			case 'sudden_death':
+			case 'match_end':
+				cues.push(centered('sfx_bell', 0.9, 9));
+				break;
+		}
+	}
+}
+
+/** A centered cue at normal pitch (crowd, referee, bell). */
+function centered(soundId: string, volume: number, priority: number): AudioCue {
+	return { soundId, volume, pitch: 1.0, pan: 0, priority };
+}
+
+/** Stereo pan of the agent an entry names (centered when it names nobody). */
+function agentPan(state: MatchState, agentId: unknown): number {
+	const agent = state.agents.find((a) => a.id === agentId);
+	return agent ? clamp(agent.positionX / PAN_HALF_WIDTH, -1, 1) : 0;
+}
+
+export { STALE_TICKS, PAN_HALF_WIDTH };
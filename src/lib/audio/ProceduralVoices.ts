@@ -0,0 +1,244 @@
+/**
+ * Procedural sound voices.
+ *
+ * Every sound in the match is synthesized on the fly from oscillators and
+ * filtered noise, so the game ships without audio assets. A voice schedules
+ * its nodes on the context at `when`, routes them into `out` and returns how
+ * long it rings (seconds), so the engine knows when the voice is done.
+ *
+ * Voice ids match the AudioCue sound ids written by MatchAudioCues.
+ */
+
+/** Where and how one voice plays. */
+export interface VoiceTarget {
+	ctx: AudioContext;
+	/** Node the voice connects to (the cue's panner) */
+	out: AudioNode;
+	/** Context time the voice starts at */
+	when: number;
+	/** Playback rate from the cue: scales every frequency in the voice */
+	pitch: number;
+	/** Shared white-noise buffer (see createNoiseBuffer) */
+	noise: AudioBuffer;
+}
+
+/** Schedules one sound and returns its length in seconds. */
+export type Voice = (target: VoiceTarget) => number;
+
+/** Length of the shared noise buffer in seconds (looped by long voices). */
+const NOISE_SECONDS = 2;
+
+/** Gain an exponential envelope decays to before the node is stopped. */
+const SILENCE = 0.0001;
+
+interface ToneOptions {
+	wave: OscillatorType;
+	/** Start frequency in Hz (before pitch) */
+	freq: number;
+	/** Frequency the tone glides to over its decay */
+	freqEnd?: number;
+	gain: number;
+	attack: number;
+	decay: number;
+	/** Seconds after `when` the tone starts */
+	delay?: number;
+}
+
+interface NoiseOptions {
+	filter: BiquadFilterType;
+	/** Filter frequency in Hz (before pitch) */
+	freq: number;
+	/** Filter frequency the burst sweeps to over its decay */
+	freqEnd?: number;
+	q?: number;
+	gain: number;
+	attack: number;
+	decay: number;
+	/** Seconds the burst holds its peak before decaying */
+	hold?: number;
+	delay?: number;
+}
+
+/**
+ * One buffer of white noise, shared by every noise voice on a context.
+ */
+export function createNoiseBuffer(ctx: BaseAudioContext): AudioBuffer {
+	const length = Math.floor(ctx.sampleRate * NOISE_SECONDS);
+	const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+	const data = buffer.getChannelData(0);
+	for (let i = 0; i < length; i++) {
+		data[i] = Math.random() * 2 - 1;
+	}
+	return buffer;
+}
+
+/** Attack → (hold) → exponential decay on a gain param. */
+function envelope(param: AudioParam, start: number, peak: number, attack: number, hold: number, decay: number): void {
+	param.setValueAtTime(0, start);
+	param.linearRampToValueAtTime(peak, start + attack);
+	param.setValueAtTime(peak, start + attack + hold);
+	param.exponentialRampToValueAtTime(SILENCE, start + attack + hold + decay);
+}
+
+/** An enveloped oscillator. Returns the seconds from `when` until it's silent. */
+function tone(t: VoiceTarget, o: ToneOptions): number {
+	const start = t.when + (o.delay ?? 0);
+	const end = start + o.attack + o.decay;
+
+	const osc = t.ctx.createOscillator();
+	osc.type = o.wave;
+	osc.frequency.setValueAtTime(o.freq * t.pitch, start);
+	if (o.freqEnd !== undefined) {
+		osc.frequency.exponentialRampToValueAtTime(o.freqEnd * t.pitch, end);
+	}
+
+	const gain = t.ctx.createGain();
+	envelope(gain.gain, start, o.gain, o.attack, 0, o.decay);
+
+	osc.connect(gain).connect(t.out);
+	osc.start(start);
+	osc.stop(end + 0.02);
+	return end - t.when;
+}
+
+/** An enveloped, filtered burst of noise. Returns the seconds from `when` until it's silent. */
+function noise(t: VoiceTarget, o: NoiseOptions): number {
+	const start = t.when + (o.delay ?? 0);
+	const hold = o.hold ?? 0;
+	const end = start + o.attack + hold + o.decay;
+
+	const src = t.ctx.createBufferSource();
+	src.buffer = t.noise;
+	src.loop = true;
+
+	const filter = t.ctx.createBiquadFilter();
+	filter.type = o.filter;
+	filter.Q.value = o.q ?? 1;
+	filter.frequency.setValueAtTime(o.freq * t.pitch, start);
+	if (o.freqEnd !== undefined) {
+		filter.frequency.exponentialRampToValueAtTime(o.freqEnd * t.pitch, end);
+	}
+
+	const gain = t.ctx.createGain();
+	envelope(gain.gain, start, o.gain, o.attack, hold, o.decay);
+
+	src.connect(filter).connect(gain).connect(t.out);
+	// Start somewhere random in the buffer so back-to-back bursts don't sound identical
+	src.start(start, Math.random() * NOISE_SECONDS);
+	src.stop(end + 0.02);
+	return end - t.when;
+}
+
+/** A body hit: a low thump under a slap of noise, both bigger with the tier. */
+function impact(thumpHz: number, slapHz: number, size: number): Voice {
+	return (t) => Math.max(
+		tone(t, { wave: 'sine', freq: thumpHz, freqEnd: thumpHz * 0.45, gain: 0.9 * size, attack: 0.003, decay: 0.08 + 0.14 * size }),
+		noise(t, { filter: 'bandpass', freq: slapHz, q: 0.8, gain: 0.7 * size, attack: 0.002, decay: 0.04 + 0.08 * size })
+	);
+}
+
+/** The crowd: bandpassed noise in the vocal range, with an octave layer for the shouting. */
+function crowd(center: number, gain: number, attack: number, hold: number, decay: number): Voice {
+	return (t) => Math.max(
+		noise(t, { filter: 'bandpass', freq: center, q: 0.7, gain, attack, hold, decay }),
+		noise(t, { filter: 'bandpass', freq: center * 2.3, q: 1.2, gain: gain * 0.5, attack: attack * 1.3, hold, decay: decay * 0.8 })
+	);
+}
+
+/** Cue sound id → voice. */
+export const VOICES: Record<string, Voice> = {
+	sfx_impact_soft: impact(110, 1800, 0.35),
+	sfx_impact_light: impact(95, 1500, 0.55),
+	sfx_impact_medium: impact(80, 1200, 0.75),
+	sfx_impact_heavy: impact(65, 900, 1.0),
+
+	// Back hitting the canvas: a deep thud, the boom of the ring and the ropes rattling
+	sfx_slam: (t) => Math.max(
+		tone(t, { wave: 'sine', freq: 70, freqEnd: 38, gain: 1.0, attack: 0.004, decay: 0.35 }),
+		noise(t, { filter: 'lowpass', freq: 500, freqEnd: 120, gain: 0.8, attack: 0.003, decay: 0.25 }),
+		noise(t, { filter: 'bandpass', freq: 3200, q: 4, gain: 0.15, attack: 0.01, decay: 0.3, delay: 0.03 })
+	),
+
+	sfx_finisher_impact: (t) => Math.max(
+		tone(t, { wave: 'sine', freq: 60, freqEnd: 28, gain: 1.0, attack: 0.004, decay: 0.7 }),
+		tone(t, { wave: 'triangle', freq: 120, freqEnd: 50, gain: 0.5, attack: 0.004, decay: 0.4 }),
+		noise(t, { filter: 'lowpass', freq: 1400, freqEnd: 150, gain: 1.0, attack: 0.002, decay: 0.5 })
+	),
+
+	// Steel steps, barricades and cage walls: inharmonic partials that ring out
+	sfx_steel: (t) => Math.max(
+		noise(t, { filter: 'highpass', freq: 2500, gain: 0.6, attack: 0.002, decay: 0.12 }),
+		tone(t, { wave: 'square', freq: 347, gain: 0.12, attack: 0.002, decay: 0.6 }),
+		tone(t, { wave: 'sine', freq: 871, gain: 0.2, attack: 0.002, decay: 0.9 }),
+		tone(t, { wave: 'sine', freq: 1433, gain: 0.12, attack: 0.002, decay: 0.7 })
+	),
+
+	sfx_ref_slap: (t) => Math.max(
+		noise(t, { filter: 'bandpass', freq: 2200, q: 1.5, gain: 0.9, attack: 0.001, decay: 0.06 }),
+		tone(t, { wave: 'sine', freq: 140, freqEnd: 70, gain: 0.5, attack: 0.002, decay: 0.1 })
+	),
+
+	sfx_whoosh: (t) => noise(t, { filter: 'bandpass', freq: 400, freqEnd: 2400, q: 2, gain: 0.5, attack: 0.06, decay: 0.14 }),
+
+	// Strained grunting: a few slow pulses of low, nasal noise
+	sfx_struggle: (t) => {
+		let length = 0;
+		for (let i = 0; i < 3; i++) {
+			length = noise(t, {
+				filter: 'bandpass', freq: 260 + i * 30, q: 5, gain: 0.5,
+				attack: 0.08, hold: 0.1, decay: 0.2, delay: i * 0.45
+			});
+		}
+		return length;
+	},
+
+	// The timekeeper's bell, rung three times
+	sfx_bell: (t) => {
+		let length = 0;
+		for (let i = 0; i < 3; i++) {
+			const delay = i * 0.32;
+			length = Math.max(
+				tone(t, { wave: 'sine', freq: 1180, gain: 0.35, attack: 0.002, decay: 1.2, delay }),
+				tone(t, { wave: 'sine', freq: 2950, gain: 0.15, attack: 0.002, decay: 0.6, delay }),
+				tone(t, { wave: 'sine', freq: 4420, gain: 0.08, attack: 0.002, decay: 0.3, delay })
+			);
+		}
+		return length;
+	},
+
+	crowd_reaction: crowd(700, 0.5, 0.15, 0.3, 0.9),
+	crowd_pop: crowd(800, 0.8, 0.06, 0.5, 1.4),
+	crowd_roar: crowd(750, 1.0, 0.1, 1.2, 2.2),
+	crowd_gasp: (t) => noise(t, { filter: 'bandpass', freq: 1100, freqEnd: 1600, q: 1.5, gain: 0.5, attack: 0.05, decay: 0.35 }),
+
+	// Two-beat chant ("LET'S GO! LET'S GO!"): four swells of crowd noise in rhythm
+	crowd_chant: (t) => {
+		let length = 0;
+		for (let i = 0; i < 4; i++) {
+			length = noise(t, {
+				filter: 'bandpass', freq: i % 2 === 0 ? 650 : 560, q: 2.5, gain: 0.55,
+				attack: 0.05, hold: 0.12, decay: 0.18, delay: i * 0.4
+			});
+		}
+		return length;
+	}
+};
+
+// ─── Theme instruments ──────────────────────────────────────────────
+
+/** Drum kit for entrance themes, by the step letter used in ThemeDef.drums. */
+export const DRUMS: Record<string, Voice> = {
+	k: (t) => tone(t, { wave: 'sine', freq: 150, freqEnd: 45, gain: 0.9, attack: 0.002, decay: 0.22 }),
+	s: (t) => Math.max(
+		noise(t, { filter: 'highpass', freq: 1200, gain: 0.5, attack: 0.001, decay: 0.14 }),
+		tone(t, { wave: 'triangle', freq: 200, freqEnd: 150, gain: 0.35, attack: 0.001, decay: 0.08 })
+	),
+	h: (t) => noise(t, { filter: 'highpass', freq: 7000, gain: 0.2, attack: 0.001, decay: 0.04 })
+};
+
+/** A pitched note for themes. `t.pitch` is ignored in favour of `freq`. */
+export function playNote(t: VoiceTarget, wave: OscillatorType, freq: number, gain: number, length: number): number {
+	return tone({ ...t, pitch: 1 }, { wave, freq, gain, attack: 0.01, decay: length });
+}
+
+export { NOISE_SECONDS };
@@ -44,269 +44,101 @@ export interface GrapplePositionData {
 }
 
 /**
- * Full grapple chain definitions.
- * Maps each GrapplePosition to its available moves and transitions.
+ * Grapple chain definitions: each GrapplePosition's available moves and
+ * transitions, built from validated move packs (see MovePackLoader).
  */
-const GRAPPLE_CHAINS: Record<GrapplePosition, GrapplePositionData> = {
-	neutral: {
-		position: 'neutral',
-		moves: [
-			{ moveId: 'jab', name: 'Collar Elbow Strike', staminaCost: 3, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'kick', name: 'Knee Strike', staminaCost: 4, endsGrapple: true, momentumRequired: 0 }
-		],
-		transitions: [
-			{
-				targetPosition: 'front_facelock',
-				name: 'Transition to Front Facelock',
-				staminaCost: 4,
-				transitionFrames: 8,
-				canBeReversed: true
-			},
-			{
-				targetPosition: 'side_headlock',
-				name: 'Transition to Side Headlock',
-				staminaCost: 3,
-				transitionFrames: 6,
-				canBeReversed: true
-			},
-			{
-				targetPosition: 'rear_waistlock',
-				name: 'Go Behind',
-				staminaCost: 5,
-				transitionFrames: 10,
-				canBeReversed: true
-			}
-		]
-	},
+export class GrappleChainTable {
+	private positions: Map<GrapplePosition, GrapplePositionData> = new Map();
 
-	front_facelock: {
-		position: 'front_facelock',
-		moves: [
-			{ moveId: 'ddt', name: 'DDT', staminaCost: 8, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'snap_suplex', name: 'Snap Suplex', staminaCost: 8, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'neckbreaker', name: 'Neckbreaker', staminaCost: 7, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'vertical_suplex', name: 'Vertical Suplex', staminaCost: 10, endsGrapple: true, momentumRequired: 10 },
-			{ moveId: 'piledriver', name: 'Piledriver', staminaCost: 14, endsGrapple: true, momentumRequired: 30 },
-			{ moveId: 'tombstone_piledriver', name: 'Tombstone Piledriver', staminaCost: 16, endsGrapple: true, momentumRequired: 40 },
-			{ moveId: 'jawbreaker', name: 'Jawbreaker', staminaCost: 7, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'swinging_neckbreaker', name: 'Swinging Neckbreaker', staminaCost: 8, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'cutter', name: 'Cutter', staminaCost: 9, endsGrapple: true, momentumRequired: 15 },
-			{ moveId: 'double_underhook_facebuster', name: 'Double Underhook Facebuster', staminaCost: 11, endsGrapple: true, momentumRequired: 20 },
-			{ moveId: 'sleeper_hold', name: 'Sleeper Hold', staminaCost: 4, endsGrapple: false, momentumRequired: 0 },
-			{ moveId: 'stf', name: 'STF', staminaCost: 8, endsGrapple: false, momentumRequired: 15 },
-			{ moveId: 'triangle_choke', name: 'Triangle Choke', staminaCost: 8, endsGrapple: false, momentumRequired: 15 }
-		],
-		transitions: [
-			{
-				targetPosition: 'rear_waistlock',
-				name: 'Spin Behind',
-				staminaCost: 4,
-				transitionFrames: 8,
-				canBeReversed: true
-			},
-			{
-				targetPosition: 'side_headlock',
-				name: 'Transition to Side Headlock',
-				staminaCost: 3,
-				transitionFrames: 6,
-				canBeReversed: true
-			},
-			{
-				targetPosition: 'corner',
-				name: 'Push to Corner',
-				staminaCost: 5,
-				transitionFrames: 12,
-				canBeReversed: true
-			}
-		]
-	},
-
-	rear_waistlock: {
-		position: 'rear_waistlock',
-		moves: [
-			{ moveId: 'german_suplex', name: 'German Suplex', staminaCost: 12, endsGrapple: true, momentumRequired: 10 },
-			{ moveId: 'backbreaker', name: 'Backbreaker', staminaCost: 8, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'body_slam', name: 'Back Body Drop', staminaCost: 8, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'powerbomb', name: 'Powerbomb', staminaCost: 14, endsGrapple: true, momentumRequired: 30 },
-			{ moveId: 'samoan_drop', name: 'Samoan Drop', staminaCost: 10, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'belly_to_belly_suplex', name: 'Belly-to-Belly Suplex', staminaCost: 9, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'gutwrench_powerbomb', name: 'Gutwrench Powerbomb', staminaCost: 14, endsGrapple: true, momentumRequired: 25 },
-			{ moveId: 'spinning_fireman_carry', name: 'Spinning Fireman Carry', staminaCost: 14, endsGrapple: true, momentumRequired: 30 },
-			{ moveId: 'fireman_carry_slam', name: "Fireman's Carry Slam", staminaCost: 12, endsGrapple: true, momentumRequired: 15 },
-			{ moveId: 'coquina_clutch', name: 'Coquina Clutch', staminaCost: 6, endsGrapple: false, momentumRequired: 10 }
-		],
-		transitions: [
-			{
-				targetPosition: 'front_facelock',
-				name: 'Turn Around',
-				staminaCost: 5,
-				transitionFrames: 10,
-				canBeReversed: true
-			},
-			{
-				targetPosition: 'side_headlock',
-				name: 'Side Control',
-				staminaCost: 4,
-				transitionFrames: 8,
-				canBeReversed: true
-			}
-		]
-	},
+	constructor(initialPositions: GrapplePositionData[]) {
+		for (const data of initialPositions) {
+			this.register(data);
+		}
+	}
 
-	side_headlock: {
-		position: 'side_headlock',
-		moves: [
-			{ moveId: 'headlock_takeover', name: 'Headlock Takeover', staminaCost: 6, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'neckbreaker', name: 'Side Neckbreaker', staminaCost: 7, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'ddt', name: 'Side DDT', staminaCost: 8, endsGrapple: true, momentumRequired: 10 },
-			{ moveId: 'side_slam', name: 'Side Slam', staminaCost: 8, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'uranage', name: 'Uranage Slam', staminaCost: 8, endsGrapple: true, momentumRequired: 10 },
-			{ moveId: 'facelock_neckbreaker', name: 'Facelock Neckbreaker', staminaCost: 9, endsGrapple: true, momentumRequired: 10 },
-			{ moveId: 'crossface', name: 'Crossface', staminaCost: 7, endsGrapple: false, momentumRequired: 0 },
-			{ moveId: 'kimura_lock', name: 'Kimura Lock', staminaCost: 7, endsGrapple: false, momentumRequired: 10 },
-			{ moveId: 'camel_clutch', name: 'Camel Clutch', staminaCost: 8, endsGrapple: false, momentumRequired: 10 }
-		],
-		transitions: [
-			{
-				targetPosition: 'front_facelock',
-				name: 'Front Facelock',
-				staminaCost: 3,
-				transitionFrames: 6,
-				canBeReversed: true
-			},
-			{
-				targetPosition: 'rear_waistlock',
-				name: 'Go Behind',
-				staminaCost: 5,
-				transitionFrames: 10,
-				canBeReversed: true
-			}
-		]
-	},
+	/**
+	 * Register a position's moves and transitions.
+	 * Overwrites any existing data for the same position.
+	 */
+	register(data: GrapplePositionData): void {
+		this.positions.set(data.position, data);
+	}
 
-	corner: {
-		position: 'corner',
-		moves: [
-			{ moveId: 'chop', name: 'Corner Chop', staminaCost: 4, endsGrapple: false, momentumRequired: 0 },
-			{ moveId: 'forearm_smash', name: 'Corner Forearm', staminaCost: 5, endsGrapple: false, momentumRequired: 0 },
-			{ moveId: 'clothesline', name: 'Corner Clothesline', staminaCost: 6, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'superkick', name: 'Corner Superkick', staminaCost: 10, endsGrapple: true, momentumRequired: 20 },
-			{ moveId: 'spear', name: 'Corner Spear', staminaCost: 12, endsGrapple: true, momentumRequired: 25 },
-			{ moveId: 'running_knee', name: 'Corner Running Knee', staminaCost: 10, endsGrapple: true, momentumRequired: 20 },
-			{ moveId: 'spinebuster', name: 'Corner Spinebuster', staminaCost: 10, endsGrapple: true, momentumRequired: 15 },
-			{ moveId: 'chokeslam', name: 'Corner Chokeslam', staminaCost: 12, endsGrapple: true, momentumRequired: 25 }
-		],
-		transitions: [
-			{
-				targetPosition: 'top_rope',
-				name: 'Climb Turnbuckle',
-				staminaCost: 6,
-				transitionFrames: 18,
-				canBeReversed: true
-			},
-			{
-				targetPosition: 'front_facelock',
-				name: 'Pull from Corner',
-				staminaCost: 4,
-				transitionFrames: 8,
-				canBeReversed: true
-			}
-		]
-	},
+	/**
+	 * Get all moves available from a specific grapple position.
+	 *
+	 * @param position - The current grapple position.
+	 * @returns Array of GrappleMoveDef available from this position.
+	 */
+	getAvailableMoves(position: GrapplePosition): GrappleMoveDef[] {
+		return this.positions.get(position)?.moves ?? [];
+	}
 
-	top_rope: {
-		position: 'top_rope',
-		moves: [
-			{ moveId: 'diving_crossbody', name: 'Diving Crossbody', staminaCost: 12, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'missile_dropkick', name: 'Missile Dropkick', staminaCost: 14, endsGrapple: true, momentumRequired: 10 },
-			{ moveId: 'moonsault', name: 'Moonsault', staminaCost: 16, endsGrapple: true, momentumRequired: 20 },
-			{ moveId: 'frog_splash', name: 'Frog Splash', staminaCost: 14, endsGrapple: true, momentumRequired: 15 },
-			{ moveId: 'elbow_drop_top', name: 'Top Rope Elbow Drop', staminaCost: 10, endsGrapple: true, momentumRequired: 0 },
-			{ moveId: 'swanton_bomb', name: 'Swanton Bomb', staminaCost: 16, endsGrapple: true, momentumRequired: 20 },
-			{ moveId: 'senton_630', name: '630 Senton', staminaCost: 20, endsGrapple: true, momentumRequired: 40 },
-			{ moveId: 'diving_foot_stomp', name: 'Diving Double Foot Stomp', staminaCost: 14, endsGrapple: true, momentumRequired: 15 },
-			{ moveId: 'shooting_star_press', name: 'Shooting Star Press', staminaCost: 18, endsGrapple: true, momentumRequired: 30 },
-			{ moveId: 'phoenix_splash_aerial', name: 'Phoenix Splash', staminaCost: 18, endsGrapple: true, momentumRequired: 30 },
-			{ moveId: 'diving_leg_drop', name: 'Diving Leg Drop', staminaCost: 12, endsGrapple: true, momentumRequired: 10 },
-			{ moveId: 'senton_bomb', name: 'Senton Bomb', staminaCost: 12, endsGrapple: true, momentumRequired: 10 }
-		],
-		transitions: [
-			{
-				targetPosition: 'corner',
-				name: 'Climb Down',
-				staminaCost: 2,
-				transitionFrames: 10,
-				canBeReversed: false
-			}
-		]
+	/**
+	 * Get all transitions available from a specific grapple position.
+	 *
+	 * @param position - The current grapple position.
+	 * @returns Array of GrappleTransition from this position.
+	 */
+	getTransitions(position: GrapplePosition): GrappleTransition[] {
+		return this.positions.get(position)?.transitions ?? [];
 	}
-};
 
-/**
- * Get all moves available from a specific grapple position.
- *
- * @param position - The current grapple position.
- * @returns Array of GrappleMoveDef available from this position.
- */
-export function getAvailableMoves(position: GrapplePosition): GrappleMoveDef[] {
-	return GRAPPLE_CHAINS[position]?.moves ?? [];
-}
+	/**
+	 * Get the full position data (moves + transitions).
+	 *
+	 * @param position - The grapple position to query.
+	 * @returns GrapplePositionData or undefined if the position has no data.
+	 */
+	getPositionData(position: GrapplePosition): GrapplePositionData | undefined {
+		return this.positions.get(position);
+	}
 
-/**
- * Get all transitions available from a specific grapple position.
- *
- * @param position - The current grapple position.
- * @returns Array of GrappleTransition from this position.
- */
-export function getTransitions(position: GrapplePosition): GrappleTransition[] {
-	return GRAPPLE_CHAINS[position]?.transitions ?? [];
-}
+	/**
+	 * Get moves available from a position, filtered by minimum stamina and momentum.
+	 *
+	 * @param position - The current grapple position.
+	 * @param currentStamina - The grappler's current stamina.
+	 * @param currentMomentum - The grappler's current momentum.
+	 * @returns Filtered array of moves the grappler can actually execute.
+	 */
+	getAffordableMoves(
+		position: GrapplePosition,
+		currentStamina: number,
+		currentMomentum: number
+	): GrappleMoveDef[] {
+		return this.getAvailableMoves(position).filter(
+			(m) => m.staminaCost <= currentStamina && m.momentumRequired <= currentMomentum
+		);
+	}
 
-/**
- * Get the full position data (moves + transitions).
- *
- * @param position - The grapple position to query.
- * @returns GrapplePositionData or undefined if position is invalid.
- */
-export function getPositionData(position: GrapplePosition): GrapplePositionData | undefined {
-	return GRAPPLE_CHAINS[position];
-}
+	/**
+	 * Get transitions available from a position, filtered by stamina.
+	 *
+	 * @param position - The current grapple position.
+	 * @param currentStamina - The grappler's current stamina.
+	 * @returns Filtered array of transitions the grappler can afford.
+	 */
+	getAffordableTransitions(
+		position: GrapplePosition,
+		currentStamina: number
+	): GrappleTransition[] {
+		return this.getTransitions(position).filter((t) => t.staminaCost <= currentStamina);
+	}
 
-/**
- * Get moves available from a position, filtered by minimum stamina and momentum.
- *
- * @param position - The current grapple position.
- * @param currentStamina - The grappler's current stamina.
- * @param currentMomentum - The grappler's current momentum.
- * @returns Filtered array of moves the grappler can actually execute.
- */
-export function getAffordableMoves(
-	position: GrapplePosition,
-	currentStamina: number,
-	currentMomentum: number
-): GrappleMoveDef[] {
-	return getAvailableMoves(position).filter(
-		(m) => m.staminaCost <= currentStamina && m.momentumRequired <= currentMomentum
-	);
-}
+	/**
+	 * Get all grapple positions with registered data.
+	 */
+	getAllPositions(): GrapplePosition[] {
+		return Array.from(this.positions.keys());
+	}
 
-/**
- * Get transitions available from a position, filtered by stamina.
- *
- * @param position - The current grapple position.
- * @param currentStamina - The grappler's current stamina.
- * @returns Filtered array of transitions the grappler can afford.
- */
-export function getAffordableTransitions(
-	position: GrapplePosition,
-	currentStamina: number
-): GrappleTransition[] {
-	return getTransitions(position).filter((t) => t.staminaCost <= currentStamina);
-}
+	/** Check if a position has registered data. */
+	has(position: GrapplePosition): boolean {
+		return this.positions.has(position);
+	}
 
-/**
- * Get all valid grapple positions.
- */
-export function getAllPositions(): GrapplePosition[] {
-	return Object.keys(GRAPPLE_CHAINS) as GrapplePosition[];
+	get size(): number {
+		return this.positions.size;
+	}
 }
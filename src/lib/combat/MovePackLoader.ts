@@ -0,0 +1,626 @@
+import type { MoveCategory, BodyRegion, MovePosition } from '../utils/types';
+import type { GrapplePosition } from '../components/combat/GrappleState';
+import { MoveRegistry, type MoveDef, type MoveHitbox } from './MoveRegistry';
+import { FinisherTable, type MovesetEntry, type SpecialMoveDef } from './FinisherTable';
+import { ComboRegistry, type ComboDefinition, type ComboStep } from './ComboRegistry';
+import {
+	GrappleChainTable,
+	type GrapplePositionData,
+	type GrappleMoveDef,
+	type GrappleTransition
+} from './GrappleChains';
+
+/**
+ * MovePackLoader — builds the move, moveset, combo and grapple chain
+ * registries from JSON move packs (see data/moves/schema.ts).
+ *
+ * Packs are layered in order: a later pack replaces any move, moveset,
+ * combo or grapple position with the same id and appends new ones. The
+ * merged result is validated as a whole before anything is registered, so a
+ * custom pack's combo can chain moves from the core pack.
+ *
+ * VALIDATION:
+ *   - Shape: every field present with the right type, no unknown fields
+ *   - Frame data: whole frames, at least one active frame, and a reversal
+ *     window that fits around the end of the windup (see MoveResolver)
+ *   - Enums: category, region, ring position, combo style, grapple position
+ *   - Ids: snake_case and unique within a pack; signatures and finishers
+ *     don't shadow base moves or appear in two movesets
+ *   - Cross references: combo steps and grapple moves name a base move,
+ *     grapple transitions lead to a position the packs define
+ *
+ * Every problem is reported with the pack and path it came from:
+ *   core › combos[3] (strike_rush).steps[1].moveId: unknown move 'jabb'
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** One validation problem, located by pack id and path inside the pack. */
+export interface MovePackIssue {
+	pack: string;
+	path: string;
+	message: string;
+}
+
+/** Registries built from a set of move packs — everything a match needs. */
+export interface MoveLibrary {
+	moves: MoveRegistry;
+	finishers: FinisherTable;
+	combos: ComboRegistry;
+	grappleChains: GrappleChainTable;
+}
+
+type JsonObject = Record<string, unknown>;
+
+/** A pack entry that survived merging, with where it came from. */
+interface SourcedEntry<T> {
+	/** The entry as written, for cross-reference checks */
+	value: JsonObject;
+	/** The entry as built by its check, or null if any field was unusable */
+	built: T | null;
+	pack: string;
+	path: string;
+}
+
+interface MergedPacks {
+	moves: Map<string, SourcedEntry<MoveDef>>;
+	movesets: Map<string, SourcedEntry<MovesetEntry>>;
+	combos: Map<string, SourcedEntry<ComboDefinition>>;
+	grappleChains: Map<string, SourcedEntry<GrapplePositionData>>;
+}
+
+// ─── Schema ─────────────────────────────────────────────────────────
+
+const MOVE_CATEGORIES: readonly MoveCategory[] = [
+	'strike', 'grapple', 'aerial', 'submission', 'signature', 'finisher'
+];
+const BODY_REGIONS: readonly BodyRegion[] = ['head', 'body', 'legs'];
+const MOVE_POSITIONS: readonly MovePosition[] = ['top_rope', 'running', 'corner', 'ropes', 'outside'];
+const COMBO_STYLES: readonly ComboDefinition['style'][] = [
+	'powerhouse', 'highflyer', 'technician', 'brawler', 'universal'
+];
+const GRAPPLE_POSITIONS: readonly GrapplePosition[] = [
+	'neutral', 'front_facelock', 'rear_waistlock', 'side_headlock', 'corner', 'top_rope'
+];
+
+/** Ids are lowercase snake_case so they read the same in packs, logs and replays. */
+const ID_PATTERN = /^[a-z0-9_]+$/;
+
+const PACK_FIELDS = ['id', 'name', 'moves', 'movesets', 'combos', 'grappleChains'];
+const MOVE_FIELDS = [
+	'id', 'name', 'category', 'windupFrames', 'activeFrames', 'recoveryFrames', 'baseDamage',
+	'staminaCost', 'region', 'momentumGain', 'hitbox', 'canBeReversed', 'reversalWindow', 'position'
+];
+const SPECIAL_MOVE_FIELDS = [...MOVE_FIELDS, 'setupDescription'];
+const HITBOX_FIELDS = ['range', 'angle'];
+const MOVESET_FIELDS = ['movesetId', 'wrestlerName', 'signatures', 'finishers'];
+const COMBO_FIELDS = [
+	'id', 'name', 'style', 'momentumThreshold', 'finisherUnlock', 'cooldownFrames', 'steps',
+	'damageScaling', 'staminaScaling', 'momentumBonus'
+];
+const COMBO_STEP_FIELDS = ['moveId', 'windowFrames'];
+const COMBO_CURVES = ['damageScaling', 'staminaScaling', 'momentumBonus'] as const;
+const GRAPPLE_POSITION_FIELDS = ['position', 'moves', 'transitions'];
+const GRAPPLE_MOVE_FIELDS = ['moveId', 'name', 'staminaCost', 'endsGrapple', 'momentumRequired'];
+const GRAPPLE_TRANSITION_FIELDS = ['targetPosition', 'name', 'staminaCost', 'transitionFrames', 'canBeReversed'];
+
+/** Momentum meter range (matches the Momentum component). */
+const MAX_MOMENTUM = 100;
+
+// ─── Field Checks ───────────────────────────────────────────────────
+
+/**
+ * Collects issues for one pack at a time. Each check reports at most one
+ * problem per field and returns the value only when it is usable.
+ */
+class PackChecker {
+	readonly issues: MovePackIssue[] = [];
+	pack = '';
+
+	report(path: string, message: string, pack = this.pack): void {
+		this.issues.push({ pack, path, message });
+	}
+
+	object(value: unknown, path: string): value is JsonObject {
+		if (typeof value === 'object' && value !== null && !Array.isArray(value)) return true;
+		this.report(path, 'must be an object');
+		return false;
+	}
+
+	fields(obj: JsonObject, path: string, allowed: readonly string[]): void {
+		for (const key of Object.keys(obj)) {
+			if (!allowed.includes(key)) this.report(fieldPath(path, key), 'unknown field');
+		}
+	}
+
+	string(obj: JsonObject, key: string, path: string, pattern?: RegExp): string | null {
+		const value = obj[key];
+		if (typeof value !== 'string' || value.length === 0) {
+			this.report(fieldPath(path, key), 'must be a non-empty string');
+			return null;
+		}
+		if (pattern && !pattern.test(value)) {
+			this.report(fieldPath(path, key), `'${value}' must be lowercase snake_case`);
+			return null;
+		}
+		return value;
+	}
+
+	number(obj: JsonObject, key: string, path: string, min: number, max = Infinity): number | null {
+		const value = obj[key];
+		if (typeof value !== 'number' || !Number.isFinite(value)) {
+			this.report(fieldPath(path, key), 'must be a number');
+			return null;
+		}
+		if (value < min || value > max) {
+			this.report(fieldPath(path, key), `${value} is out of range (${rangeText(min, max)})`);
+			return null;
+		}
+		return value;
+	}
+
+	/** Frame counts and other whole numbers. */
+	integer(obj: JsonObject, key: string, path: string, min: number, max = Infinity): number | null {
+		const value = this.number(obj, key, path, min, max);
+		if (value !== null && !Number.isInteger(value)) {
+			this.report(fieldPath(path, key), `${value} must be a whole number`);
+			return null;
+		}
+		return value;
+	}
+
+	boolean(obj: JsonObject, key: string, path: string): boolean | null {
+		const value = obj[key];
+		if (typeof value !== 'boolean') {
+			this.report(fieldPath(path, key), 'must be true or false');
+			return null;
+		}
+		return value;
+	}
+
+	oneOf<T extends string>(obj: JsonObject, key: string, path: string, values: readonly T[]): T | null {
+		const value = obj[key];
+		if (typeof value !== 'string' || !values.includes(value as T)) {
+			this.report(fieldPath(path, key), `must be one of ${values.join(', ')}`);
+			return null;
+		}
+		return value as T;
+	}
+
+	array(obj: JsonObject, key: string, path: string): unknown[] | null {
+		const value = obj[key];
+		if (!Array.isArray(value)) {
+			this.report(fieldPath(path, key), 'must be an array');
+			return null;
+		}
+		return value;
+	}
+}
+
+/** `path.key`, or just `key` for top-level pack fields. */
+function fieldPath(path: string, key: string): string {
+	return path ? `${path}.${key}` : key;
+}
+
+function rangeText(min: number, max: number): string {
+	return max === Infinity ? `must be at least ${min}` : `must be ${min}-${max}`;
+}
+
+/** The list when every entry was usable, otherwise null. */
+function allUsable<T>(items: (T | null)[]): T[] | null {
+	return items.every((item): item is T => item !== null) ? items : null;
+}
+
+/** `moves[4] (jab)` — index plus id when the entry has one. */
+function entryPath(section: string, index: number, value: unknown, idKey = 'id'): string {
+	const id = typeof value === 'object' && value !== null ? (value as JsonObject)[idKey] : undefined;
+	return typeof id === 'string' ? `${section}[${index}] (${id})` : `${section}[${index}]`;
+}
+
+// ─── Entry Checks ───────────────────────────────────────────────────
+//
+// Each check reports every problem in its entry and builds the typed
+// definition from the fields it checked — null when any field is unusable,
+// so an entry with no issues always builds.
+
+function checkHitbox(c: PackChecker, value: unknown, path: string): MoveHitbox | null {
+	if (!c.object(value, path)) return null;
+	c.fields(value, path, HITBOX_FIELDS);
+	let range = c.number(value, 'range', path, 0);
+	if (range === 0) {
+		c.report(`${path}.range`, 'must be greater than 0');
+		range = null;
+	}
+	let angle = c.number(value, 'angle', path, 0, 360);
+	if (angle === 0) {
+		c.report(`${path}.angle`, 'must be greater than 0');
+		angle = null;
+	}
+	if (range === null || angle === null) return null;
+	return { range, angle };
+}
+
+/** The reversal window, checked against canBeReversed and the move's frame data. */
+function checkReversalWindow(
+	c: PackChecker,
+	move: JsonObject,
+	path: string,
+	reversible: boolean | null,
+	windup: number | null,
+	active: number | null
+): number | null {
+	const window = c.integer(move, 'reversalWindow', path, 0);
+	if (reversible === null || window === null) return window;
+	if (!reversible && window > 0) {
+		c.report(`${path}.reversalWindow`, 'must be 0 when canBeReversed is false');
+		return null;
+	}
+	if (reversible && window === 0) {
+		c.report(`${path}.reversalWindow`, 'must be at least 1 when canBeReversed is true');
+		return null;
+	}
+	if (window > 0 && windup !== null && active !== null) {
+		// The window is centred on the windup → active boundary
+		const maxWindow = Math.min(windup * 2 + 1, active * 2);
+		if (window > maxWindow) {
+			c.report(
+				`${path}.reversalWindow`,
+				`${window} frames doesn't fit around the end of a ${windup}-frame windup with ${active} active frames (max ${maxWindow})`
+			);
+			return null;
+		}
+	}
+	return window;
+}
+
+function checkMove(c: PackChecker, move: JsonObject, path: string, allowed = MOVE_FIELDS): MoveDef | null {
+	c.fields(move, path, allowed);
+	const id = c.string(move, 'id', path, ID_PATTERN);
+	const name = c.string(move, 'name', path);
+	const category = c.oneOf(move, 'category', path, MOVE_CATEGORIES);
+	const windupFrames = c.integer(move, 'windupFrames', path, 0);
+	const activeFrames = c.integer(move, 'activeFrames', path, 1);
+	const recoveryFrames = c.integer(move, 'recoveryFrames', path, 0);
+	const baseDamage = c.number(move, 'baseDamage', path, 0);
+	const staminaCost = c.number(move, 'staminaCost', path, 0);
+	const region = c.oneOf(move, 'region', path, BODY_REGIONS);
+	const momentumGain = c.number(move, 'momentumGain', path, 0, MAX_MOMENTUM);
+	const hitbox = checkHitbox(c, move.hitbox, `${path}.hitbox`);
+	const position = move.position === undefined ? undefined : c.oneOf(move, 'position', path, MOVE_POSITIONS);
+	const canBeReversed = c.boolean(move, 'canBeReversed', path);
+	const reversalWindow = checkReversalWindow(c, move, path, canBeReversed, windupFrames, activeFrames);
+
+	if (
+		id === null || name === null || category === null || windupFrames === null || activeFrames === null ||
+		recoveryFrames === null || baseDamage === null || staminaCost === null || region === null ||
+		momentumGain === null || hitbox === null || position === null || canBeReversed === null ||
+		reversalWindow === null
+	) {
+		return null;
+	}
+	return {
+		id, name, category, windupFrames, activeFrames, recoveryFrames, baseDamage, staminaCost, region,
+		momentumGain, hitbox, canBeReversed, reversalWindow,
+		...(position !== undefined ? { position } : {})
+	};
+}
+
+function checkMoveset(c: PackChecker, moveset: JsonObject, path: string): MovesetEntry | null {
+	c.fields(moveset, path, MOVESET_FIELDS);
+	const movesetId = c.string(moveset, 'movesetId', path, ID_PATTERN);
+	const wrestlerName = c.string(moveset, 'wrestlerName', path);
+
+	const checkSpecials = (list: 'signatures' | 'finishers'): SpecialMoveDef[] | null => {
+		const specials = c.array(moveset, list, path);
+		if (!specials) return null;
+		if (list === 'finishers' && specials.length === 0) {
+			c.report(`${path}.finishers`, 'a moveset needs at least one finisher');
+			return null;
+		}
+		const specialType = list === 'signatures' ? 'signature' : 'finisher';
+		return allUsable(specials.map((special, i): SpecialMoveDef | null => {
+			const specialPath = `${path}.${entryPath(list, i, special)}`;
+			if (!c.object(special, specialPath)) return null;
+			const move = checkMove(c, special, specialPath, SPECIAL_MOVE_FIELDS);
+			const setupDescription = c.string(special, 'setupDescription', specialPath);
+			if (move === null || setupDescription === null || movesetId === null) return null;
+			return { ...move, setupDescription, movesetId, specialType };
+		}));
+	};
+	const signatures = checkSpecials('signatures');
+	const finishers = checkSpecials('finishers');
+
+	if (movesetId === null || wrestlerName === null || signatures === null || finishers === null) return null;
+	return { movesetId, wrestlerName, signatures, finishers };
+}
+
+function checkCombo(c: PackChecker, combo: JsonObject, path: string): ComboDefinition | null {
+	c.fields(combo, path, COMBO_FIELDS);
+	const id = c.string(combo, 'id', path, ID_PATTERN);
+	const name = c.string(combo, 'name', path);
+	const style = c.oneOf(combo, 'style', path, COMBO_STYLES);
+	const momentumThreshold = c.number(combo, 'momentumThreshold', path, 0, MAX_MOMENTUM);
+	const finisherUnlock = c.boolean(combo, 'finisherUnlock', path);
+	const cooldownFrames = c.integer(combo, 'cooldownFrames', path, 0);
+
+	const stepValues = c.array(combo, 'steps', path);
+	let steps: ComboStep[] | null = null;
+	if (stepValues) {
+		if (stepValues.length < 2) c.report(`${path}.steps`, 'a combo needs at least 2 steps');
+		steps = allUsable(stepValues.map((step, i): ComboStep | null => {
+			const stepPath = `${path}.steps[${i}]`;
+			if (!c.object(step, stepPath)) return null;
+			c.fields(step, stepPath, COMBO_STEP_FIELDS);
+			const moveId = c.string(step, 'moveId', stepPath);
+			const windowFrames = c.integer(step, 'windowFrames', stepPath, 0);
+			if (moveId === null || windowFrames === null) return null;
+			return { moveId, windowFrames };
+		}));
+		if (stepValues.length < 2) steps = null;
+	}
+
+	const curves: Partial<Record<(typeof COMBO_CURVES)[number], number[]>> = {};
+	let curvesUsable = true;
+	for (const curve of COMBO_CURVES) {
+		if (combo[curve] === undefined) continue;
+		const values = c.array(combo, curve, path);
+		if (!values) {
+			curvesUsable = false;
+			continue;
+		}
+		if (stepValues && values.length !== stepValues.length) {
+			c.report(`${path}.${curve}`, `has ${values.length} entries for ${stepValues.length} steps`);
+			curvesUsable = false;
+		}
+		const numbers = allUsable(values.map((value, i) => {
+			if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return value;
+			c.report(`${path}.${curve}[${i}]`, 'must be a number of at least 0');
+			return null;
+		}));
+		if (numbers) curves[curve] = numbers;
+		else curvesUsable = false;
+	}
+
+	if (
+		id === null || name === null || style === null || momentumThreshold === null ||
+		finisherUnlock === null || cooldownFrames === null || steps === null || !curvesUsable
+	) {
+		return null;
+	}
+	return { id, name, steps, style, momentumThreshold, finisherUnlock, cooldownFrames, ...curves };
+}
+
+function checkGrapplePosition(c: PackChecker, data: JsonObject, path: string): GrapplePositionData | null {
+	c.fields(data, path, GRAPPLE_POSITION_FIELDS);
+	const position = c.oneOf(data, 'position', path, GRAPPLE_POSITIONS);
+
+	const moveValues = c.array(data, 'moves', path);
+	const moves = moveValues && allUsable(moveValues.map((move, i): GrappleMoveDef | null => {
+		const movePath = `${path}.${entryPath('moves', i, move, 'moveId')}`;
+		if (!c.object(move, movePath)) return null;
+		c.fields(move, movePath, GRAPPLE_MOVE_FIELDS);
+		const moveId = c.string(move, 'moveId', movePath);
+		const name = c.string(move, 'name', movePath);
+		const staminaCost = c.number(move, 'staminaCost', movePath, 0);
+		const endsGrapple = c.boolean(move, 'endsGrapple', movePath);
+		const momentumRequired = c.number(move, 'momentumRequired', movePath, 0, MAX_MOMENTUM);
+		if (
+			moveId === null || name === null || staminaCost === null || endsGrapple === null ||
+			momentumRequired === null
+		) {
+			return null;
+		}
+		return { moveId, name, staminaCost, endsGrapple, momentumRequired };
+	}));
+
+	const transitionValues = c.array(data, 'transitions', path);
+	const transitions = transitionValues && allUsable(transitionValues.map((transition, i): GrappleTransition | null => {
+		const transitionPath = `${path}.${entryPath('transitions', i, transition, 'targetPosition')}`;
+		if (!c.object(transition, transitionPath)) return null;
+		c.fields(transition, transitionPath, GRAPPLE_TRANSITION_FIELDS);
+		let targetPosition = c.oneOf(transition, 'targetPosition', transitionPath, GRAPPLE_POSITIONS);
+		if (targetPosition !== null && targetPosition === data.position) {
+			c.report(`${transitionPath}.targetPosition`, 'a transition must lead to another position');
+			targetPosition = null;
+		}
+		const name = c.string(transition, 'name', transitionPath);
+		const staminaCost = c.number(transition, 'staminaCost', transitionPath, 0);
+		const transitionFrames = c.integer(transition, 'transitionFrames', transitionPath, 1);
+		const canBeReversed = c.boolean(transition, 'canBeReversed', transitionPath);
+		if (
+			targetPosition === null || name === null || staminaCost === null || transitionFrames === null ||
+			canBeReversed === null
+		) {
+			return null;
+		}
+		return { targetPosition, name, staminaCost, transitionFrames, canBeReversed };
+	}));
+
+	if (position === null || moves === null || transitions === null) return null;
+	return { position, moves, transitions };
+}
+
+// ─── Merging ────────────────────────────────────────────────────────
+
+/**
+ * Check one pack section and layer its entries over the merged set.
+ * Entries with a usable id are merged even when other fields are broken,
+ * so one typo doesn't cascade into "unknown move" reports elsewhere.
+ */
+function mergeSection<T>(
+	c: PackChecker,
+	pack: JsonObject,
+	section: string,
+	idKey: string,
+	merged: Map<string, SourcedEntry<T>>,
+	check: (c: PackChecker, entry: JsonObject, path: string) => T | null
+): void {
+	if (pack[section] === undefined) return;
+	const entries = c.array(pack, section, '');
+	if (!entries) return;
+	const seen = new Map<string, string>();
+	entries.forEach((entry, i) => {
+		const path = entryPath(section, i, entry, idKey);
+		if (!c.object(entry, path)) return;
+		const built = check(c, entry, path);
+		const id = entry[idKey];
+		if (typeof id !== 'string') return;
+		const earlier = seen.get(id);
+		if (earlier) {
+			c.report(`${path}.${idKey}`, `duplicate '${id}' (already defined at ${earlier})`);
+			return;
+		}
+		seen.set(id, path);
+		merged.set(id, { value: entry, built, pack: c.pack, path });
+	});
+}
+
+function mergePacks(packs: unknown[]): { merged: MergedPacks; issues: MovePackIssue[] } {
+	const c = new PackChecker();
+	const merged: MergedPacks = {
+		moves: new Map(),
+		movesets: new Map(),
+		combos: new Map(),
+		grappleChains: new Map()
+	};
+	const packIds = new Set<string>();
+
+	packs.forEach((pack, p) => {
+		c.pack = `pack[${p}]`;
+		if (!c.object(pack, '')) return;
+		const id = c.string(pack, 'id', '', ID_PATTERN);
+		if (id !== null) {
+			if (packIds.has(id)) c.report('id', `duplicate pack id '${id}'`);
+			packIds.add(id);
+			c.pack = id;
+		}
+		c.fields(pack, '', PACK_FIELDS);
+		c.string(pack, 'name', '');
+
+		mergeSection(c, pack, 'moves', 'id', merged.moves, (c, e, path) => checkMove(c, e, path));
+		mergeSection(c, pack, 'movesets', 'movesetId', merged.movesets, checkMoveset);
+		mergeSection(c, pack, 'combos', 'id', merged.combos, checkCombo);
+		mergeSection(c, pack, 'grappleChains', 'position', merged.grappleChains, checkGrapplePosition);
+	});
+
+	checkReferences(c, merged);
+	return { merged, issues: c.issues };
+}
+
+/** Cross-reference checks over the merged packs (overridden entries are gone by now). */
+function checkReferences(c: PackChecker, merged: MergedPacks): void {
+	const specialOwners = new Map<string, string>();
+	for (const [movesetId, { value, pack, path }] of merged.movesets) {
+		for (const list of ['signatures', 'finishers']) {
+			const specials = value[list];
+			if (!Array.isArray(specials)) continue;
+			specials.forEach((special, i) => {
+				const id = (special as JsonObject | null)?.id;
+				if (typeof id !== 'string') return;
+				const idPath = `${path}.${entryPath(list, i, special)}.id`;
+				const base = merged.moves.get(id);
+				if (base) {
+					c.report(idPath, `'${id}' shadows the base move at ${base.pack} › ${base.path}`, pack);
+				}
+				const owner = specialOwners.get(id);
+				if (owner !== undefined && owner !== movesetId) {
+					c.report(idPath, `'${id}' is already a special move of moveset '${owner}'`, pack);
+				}
+				specialOwners.set(id, movesetId);
+			});
+		}
+	}
+
+	for (const { value, pack, path } of merged.combos.values()) {
+		const steps = value.steps;
+		if (!Array.isArray(steps)) continue;
+		steps.forEach((step, i) => {
+			const moveId = (step as JsonObject | null)?.moveId;
+			if (typeof moveId === 'string' && !merged.moves.has(moveId)) {
+				c.report(`${path}.steps[${i}].moveId`, `unknown move '${moveId}'`, pack);
+			}
+		});
+	}
+
+	for (const { value, pack, path } of merged.grappleChains.values()) {
+		if (Array.isArray(value.moves)) {
+			value.moves.forEach((move, i) => {
+				const moveId = (move as JsonObject | null)?.moveId;
+				if (typeof moveId === 'string' && !merged.moves.has(moveId)) {
+					c.report(`${path}.${entryPath('moves', i, move, 'moveId')}.moveId`, `unknown move '${moveId}'`, pack);
+				}
+			});
+		}
+		if (Array.isArray(value.transitions)) {
+			value.transitions.forEach((transition, i) => {
+				const target = (transition as JsonObject | null)?.targetPosition;
+				if (typeof target === 'string' && GRAPPLE_POSITIONS.includes(target as GrapplePosition)
+					&& !merged.grappleChains.has(target)) {
+					c.report(
+						`${path}.${entryPath('transitions', i, transition, 'targetPosition')}.targetPosition`,
+						`no pack defines grapple position '${target}'`,
+						pack
+					);
+				}
+			});
+		}
+	}
+}
+
+/** The built entries of a merged section (all of them, once the packs have no issues). */
+function builtEntries<T>(entries: Map<string, SourcedEntry<T>>): T[] {
+	return [...entries.values()].flatMap((entry) => (entry.built === null ? [] : [entry.built]));
+}
+
+// ─── Loader ─────────────────────────────────────────────────────────
+
+/**
+ * The packs load() last merged, and what they merged to. Packs are JSON
+ * data nothing edits, so loading the same ones again (every MatchLoop loads
+ * the core pack) goes straight to building registries.
+ */
+let lastLoad: { packs: unknown[]; merged: MergedPacks } | null = null;
+
+export class MovePackLoader {
+	/**
+	 * Validate packs as they would be loaded (layered in order).
+	 * Returns every problem found; an empty array means load() will succeed.
+	 */
+	static validate(packs: unknown[]): MovePackIssue[] {
+		return mergePacks(packs).issues;
+	}
+
+	/**
+	 * Build fresh registries from packs layered in order.
+	 * Throws a single error listing every problem if any pack is invalid.
+	 */
+	static load(packs: unknown[]): MoveLibrary {
+		let merged: MergedPacks;
+		if (lastLoad && lastLoad.packs.length === packs.length && lastLoad.packs.every((pack, i) => pack === packs[i])) {
+			merged = lastLoad.merged;
+		} else {
+			const result = mergePacks(packs);
+			if (result.issues.length > 0) {
+				const lines = result.issues.map((issue) => `  ${MovePackLoader.formatIssue(issue)}`);
+				throw new Error(
+					`MovePackLoader: ${result.issues.length} problem${result.issues.length === 1 ? '' : 's'} in move packs\n${lines.join('\n')}`
+				);
+			}
+			merged = result.merged;
+			lastLoad = { packs: [...packs], merged };
+		}
+		return {
+			moves: new MoveRegistry(builtEntries(merged.moves)),
+			finishers: new FinisherTable(builtEntries(merged.movesets)),
+			combos: new ComboRegistry(builtEntries(merged.combos)),
+			grappleChains: new GrappleChainTable(builtEntries(merged.grappleChains))
+		};
+	}
+
+	/** `pack › path: message`, one line per issue. */
+	static formatIssue(issue: MovePackIssue): string {
+		return issue.path
+			? `${issue.pack} › ${issue.path}: ${issue.message}`
+			: `${issue.pack}: ${issue.message}`;
+	}
+}
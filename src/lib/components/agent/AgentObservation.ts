@@ -11,6 +11,11 @@ export interface AgentObservation extends ComponentData {
 	vector: number[];
 	/** Human-readable labels for debugging. */
 	labels: string[];
+	/**
+	 * Legal actions, one entry per ActionSpace id (1 = executable now).
+	 * Absent when the source can't tell; strategies then treat every action as legal.
+	 */
+	actionMask?: number[];
 }
 
 export function createAgentObservation(): AgentObservation {
@@ -0,0 +1,24 @@
+import type { MovePack } from './schema';
+import strikes from './strikes.json';
+import grapples from './grapples.json';
+import aerials from './aerials.json';
+import submissions from './submissions.json';
+import specials from './specials.json';
+import movesets from './movesets.json';
+import combos from './combos.json';
+import grappleChains from './grappleChains.json';
+
+export type { MovePack, PackMoveset, PackSpecialMove } from './schema';
+
+/**
+ * The built-in move pack every match loads first.
+ * Move order matters: agent brains take their move pools in registry order.
+ */
+export const CORE_MOVE_PACK = {
+	id: 'core',
+	name: 'Core Moves',
+	moves: [...strikes, ...grapples, ...aerials, ...submissions, ...specials],
+	movesets,
+	combos,
+	grappleChains
+} as MovePack;
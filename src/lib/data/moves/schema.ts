@@ -1,34 +1,34 @@
-import type { MoveCategory, BodyRegion } from '../../utils/types';
+import type { MoveDef } from '../../combat/MoveRegistry';
+import type { ComboDefinition } from '../../combat/ComboRegistry';
+import type { GrapplePositionData } from '../../combat/GrappleChains';
 
-export interface MoveDef {
+/**
+ * A signature or finisher as written in a pack. The loader fills in
+ * movesetId and specialType from the moveset and list it sits in.
+ */
+export interface PackSpecialMove extends MoveDef {
+	/** Setup description for commentary/animation. */
+	setupDescription: string;
+}
+
+export interface PackMoveset {
+	movesetId: string;
+	wrestlerName: string;
+	signatures: PackSpecialMove[];
+	finishers: PackSpecialMove[];
+}
+
+/**
+ * A move pack: moves, movesets, combos and grapple chains shipped together
+ * as JSON. Every section is optional; packs are layered over the core pack
+ * by MovePackLoader.
+ */
+export interface MovePack {
+	/** Short id used in validation messages (e.g. 'core'). */
 	id: string;
 	name: string;
-	category: MoveCategory;
-	/** Frames before the hit is active (wind-up). */
-	windupFrames: number;
-	/** Frames the hitbox is active. */
-	activeFrames: number;
-	/** Frames of recovery after the move. */
-	recoveryFrames: number;
-	baseDamage: number;
-	staminaCost: number;
-	/** Body region targeted. */
-	region: BodyRegion;
-	/** Momentum gained on successful hit. */
-	momentumGain: number;
-	hitbox: {
-		range: number; // meters
-		angle: number; // degrees (180 = full front arc)
-	};
-	canBeReversed: boolean;
-	/** Frame window where the move can be reversed (counted from windup start). */
-	reversalWindow: number;
-	/** Required grapple position (null = standalone move). */
-	requiresGrapple: string | null;
-	/** Animation clip IDs. */
-	animations: {
-		windup: string;
-		active: string;
-		recovery: string;
-	};
+	moves?: MoveDef[];
+	movesets?: PackMoveset[];
+	combos?: ComboDefinition[];
+	grappleChains?: GrapplePositionData[];
 }
@@ -0,0 +1,174 @@
+import type { WrestlerDef } from './schema';
+import type { Alignment } from '../../utils/types';
+import type { FinisherTable } from '../../combat/FinisherTable';
+import { MovePackLoader } from '../../combat/MovePackLoader';
+import { CORE_MOVE_PACK } from '../moves';
+import { ARCHETYPE_PERSONALITIES } from './wrestlerInput';
+import { PSYCH_PROFILES } from '../../match/engine';
+
+type StatKey = keyof WrestlerDef['stats'];
+
+/** Editor ranges for each stat (the built-in roster sits well inside them). */
+export const STAT_LIMITS: Record<StatKey, { min: number; max: number }> = {
+	health: { min: 150, max: 400 },
+	stamina: { min: 50, max: 150 },
+	strength: { min: 1, max: 100 },
+	speed: { min: 1, max: 100 },
+	technique: { min: 1, max: 100 },
+	charisma: { min: 1, max: 100 }
+};
+
+/** Meters */
+export const HEIGHT_LIMITS = { min: 1.6, max: 2.2 };
+/** Kilograms */
+export const WEIGHT_LIMITS = { min: 60, max: 200 };
+
+export const NAME_MAX_LENGTH = 32;
+
+export const ALIGNMENTS: readonly Alignment[] = ['face', 'heel', 'tweener'];
+export const BUILDS: readonly WrestlerDef['appearance']['build'][] = ['light', 'medium', 'heavy', 'super_heavy'];
+export const ENTRANCE_STYLES: readonly WrestlerDef['entrance']['style'][] = ['walk', 'run', 'dramatic', 'pyro'];
+
+/** Custom wrestler ids start with this, so they never clash with the shipped roster. */
+export const CUSTOM_ID_PREFIX = 'custom_';
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+const ID_PATTERN = /^[a-z0-9_]+$/;
+
+/** Core FinisherTable, built on first use (the editor's signature/finisher picks). */
+let finisherTable: FinisherTable | null = null;
+
+export function coreFinisherTable(): FinisherTable {
+	finisherTable ??= MovePackLoader.load([CORE_MOVE_PACK]).finishers;
+	return finisherTable;
+}
+
+/** A fresh wrestler for the editor, with every field filled in. */
+export function createCustomWrestler(id: string): WrestlerDef {
+	const movesetId = 'allrounder_a';
+	const table = coreFinisherTable();
+	return {
+		id,
+		name: 'New Wrestler',
+		nickname: 'The Rookie',
+		alignment: 'face',
+		stats: { health: 270, stamina: 100, strength: 70, speed: 70, technique: 70, charisma: 70 },
+		movesetId,
+		personalityId: 'balanced',
+		psychArchetype: 'balanced',
+		signatureId: table.getSignature(movesetId)?.id,
+		finisherId: table.getFinisher(movesetId)?.id,
+		appearance: { height: 1.85, weight: 100, build: 'medium', primaryColor: '#c0392b', secondaryColor: '#f5f5f5' },
+		entrance: { musicId: 'custom_theme', style: 'walk' }
+	};
+}
+
+/** `custom_<name>`, numbered if that id is taken. */
+export function customWrestlerId(name: string, takenIds: Iterable<string>): string {
+	const taken = new Set(takenIds);
+	const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'wrestler';
+	const base = `${CUSTOM_ID_PREFIX}${slug}`;
+	let id = base;
+	for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+	return id;
+}
+
+/**
+ * Fill in missing signature/finisher picks from the wrestler's moveset
+ * (rosters exported before the picks existed, or written by hand).
+ */
+export function withMovesetPicks(def: WrestlerDef): WrestlerDef {
+	const table = coreFinisherTable();
+	return {
+		...def,
+		signatureId: def.signatureId ?? table.getSignature(def.movesetId)?.id,
+		finisherId: def.finisherId ?? table.getFinisher(def.movesetId)?.id
+	};
+}
+
+/**
+ * Check a custom wrestler (from the editor or an imported roster file).
+ * Returns one message per problem, prefixed with the field path; empty when valid.
+ */
+export function validateWrestlerDef(value: unknown): string[] {
+	const problems: string[] = [];
+	if (!isObject(value)) return ['must be an object'];
+	const def = value;
+	const table = coreFinisherTable();
+
+	if (typeof def.id !== 'string' || !ID_PATTERN.test(def.id)) {
+		problems.push('id: must be lowercase snake_case');
+	}
+	if (typeof def.name !== 'string' || def.name.trim().length === 0) {
+		problems.push('name: required');
+	} else if (def.name.length > NAME_MAX_LENGTH) {
+		problems.push(`name: at most ${NAME_MAX_LENGTH} characters`);
+	}
+	if (typeof def.nickname !== 'string') problems.push('nickname: must be a string');
+	if (!ALIGNMENTS.includes(def.alignment as Alignment)) {
+		problems.push(`alignment: must be one of ${ALIGNMENTS.join(', ')}`);
+	}
+
+	if (!isObject(def.stats)) {
+		problems.push('stats: must be an object');
+	} else {
+		for (const [stat, { min, max }] of Object.entries(STAT_LIMITS)) {
+			checkRange(problems, `stats.${stat}`, def.stats[stat], min, max);
+		}
+	}
+
+	if (typeof def.movesetId !== 'string' || !table.has(def.movesetId)) {
+		problems.push(`movesetId: unknown moveset '${String(def.movesetId)}'`);
+	}
+	if (typeof def.personalityId !== 'string' || !(def.personalityId in ARCHETYPE_PERSONALITIES)) {
+		problems.push(`personalityId: must be one of ${Object.keys(ARCHETYPE_PERSONALITIES).join(', ')}`);
+	}
+	if (def.psychArchetype !== undefined
+		&& (typeof def.psychArchetype !== 'string' || !(def.psychArchetype in PSYCH_PROFILES))) {
+		problems.push(`psychArchetype: must be one of ${Object.keys(PSYCH_PROFILES).join(', ')}`);
+	}
+	for (const [key, specialType] of [['signatureId', 'signature'], ['finisherId', 'finisher']] as const) {
+		const id = def[key];
+		if (id !== undefined && (typeof id !== 'string' || table.findSpecial(id)?.specialType !== specialType)) {
+			problems.push(`${key}: unknown ${specialType} '${String(id)}'`);
+		}
+	}
+
+	if (!isObject(def.appearance)) {
+		problems.push('appearance: must be an object');
+	} else {
+		const { appearance } = def;
+		checkRange(problems, 'appearance.height', appearance.height, HEIGHT_LIMITS.min, HEIGHT_LIMITS.max);
+		checkRange(problems, 'appearance.weight', appearance.weight, WEIGHT_LIMITS.min, WEIGHT_LIMITS.max);
+		if (!BUILDS.includes(appearance.build as WrestlerDef['appearance']['build'])) {
+			problems.push(`appearance.build: must be one of ${BUILDS.join(', ')}`);
+		}
+		for (const key of ['primaryColor', 'secondaryColor']) {
+			if (typeof appearance[key] !== 'string' || !COLOR_PATTERN.test(appearance[key] as string)) {
+				problems.push(`appearance.${key}: must be a #rrggbb color`);
+			}
+		}
+	}
+
+	if (!isObject(def.entrance)) {
+		problems.push('entrance: must be an object');
+	} else {
+		if (typeof def.entrance.musicId !== 'string') problems.push('entrance.musicId: must be a string');
+		if (!ENTRANCE_STYLES.includes(def.entrance.style as WrestlerDef['entrance']['style'])) {
+			problems.push(`entrance.style: must be one of ${ENTRANCE_STYLES.join(', ')}`);
+		}
+	}
+	return problems;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkRange(problems: string[], path: string, value: unknown, min: number, max: number): void {
+	if (typeof value !== 'number' || !Number.isFinite(value)) {
+		problems.push(`${path}: must be a number`);
+	} else if (value < min || value > max) {
+		problems.push(`${path}: ${value} is out of range (${min}-${max})`);
+	}
+}
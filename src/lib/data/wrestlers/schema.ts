@@ -15,6 +15,12 @@ export interface WrestlerDef {
 	};
 	movesetId: string;
 	personalityId: string;
+	/** Psychology profile key (PSYCH_PROFILES). Defaults to personalityId. */
+	psychArchetype?: string;
+	/** Signature picked from any FinisherTable moveset (custom wrestlers). */
+	signatureId?: string;
+	/** Finisher picked from any FinisherTable moveset (custom wrestlers). */
+	finisherId?: string;
 	appearance: {
 		height: number; // meters
 		weight: number; // kg
@@ -0,0 +1,43 @@
+import type { WrestlerDef } from './schema';
+import type { WrestlerInput, AgentPersonality } from '../../match/engine';
+
+/**
+ * Combat personality for each roster archetype (personalityId).
+ */
+export const ARCHETYPE_PERSONALITIES: Record<string, AgentPersonality> = {
+	powerhouse:   { strikePreference: 0.3, aggression: 0.7, riskTolerance: 0.2, reversalSkill: 0.3 },
+	highflyer:    { strikePreference: 0.6, aggression: 0.6, riskTolerance: 0.9, reversalSkill: 0.5 },
+	technician:   { strikePreference: 0.4, aggression: 0.3, riskTolerance: 0.3, reversalSkill: 0.9 },
+	brawler:      { strikePreference: 0.8, aggression: 0.9, riskTolerance: 0.5, reversalSkill: 0.2 },
+	psychologist: { strikePreference: 0.5, aggression: 0.4, riskTolerance: 0.4, reversalSkill: 0.7 },
+	balanced:     { strikePreference: 0.5, aggression: 0.5, riskTolerance: 0.6, reversalSkill: 0.5 }
+};
+
+/**
+ * Engine build class for a roster build (super heavyweights fight as heavies).
+ */
+export function engineBuild(build: string): WrestlerInput['build'] {
+	if (build === 'super_heavy') return 'heavy';
+	if (build === 'light' || build === 'medium' || build === 'heavy') return build;
+	return 'medium';
+}
+
+/**
+ * Match engine input for a roster wrestler (AI-controlled, default brain).
+ */
+export function toWrestlerInput(def: WrestlerDef): WrestlerInput {
+	return {
+		id: def.id,
+		name: def.name,
+		health: def.stats.health,
+		stamina: def.stats.stamina,
+		personality: ARCHETYPE_PERSONALITIES[def.personalityId] ?? ARCHETYPE_PERSONALITIES.balanced,
+		psychArchetype: def.psychArchetype ?? def.personalityId ?? 'balanced',
+		alignment: def.alignment,
+		signatureId: def.signatureId,
+		finisherId: def.finisherId,
+		color: def.appearance.primaryColor,
+		height: def.appearance.height,
+		build: engineBuild(def.appearance.build)
+	};
+}
@@ -1,30 +1,53 @@
-import type { MatchConfig } from './MatchFactory';
+import type { Seed } from '../utils/types';
+import { deriveSeed } from '../utils/random';
+import { getMatchType } from './MatchTypes';
 
 /**
  * A match card is an ordered list of matches for a "show" / event.
  * The main event is always last. Matches can have stipulations.
  */
 
+/** Who wrestles and under which rules — enough to start a MatchLoop. */
+export interface CardMatchConfig {
+	/** Roster ids in entrance order (tag teams: picks 1 & 3 vs 2 & 4) */
+	wrestlerIds: string[];
+	matchType: string;
+	seed: Seed;
+}
+
+/** How a card match went. */
+export interface CardMatchResult {
+	winner: string;
+	method: string;
+	rating: number;
+	/** Seconds */
+	duration: number;
+	/** Played out on screen rather than simulated headlessly */
+	watched: boolean;
+}
+
 export interface CardMatch {
 	id: string;
-	matchConfig: MatchConfig;
+	matchConfig: CardMatchConfig;
 	isMainEvent: boolean;
 	title: string;
 	stipulation: string;
 	order: number;
-	result: { winner: string; method: string; rating: number } | null;
+	result: CardMatchResult | null;
 }
 
 export interface ShowCard {
 	name: string;
 	matches: CardMatch[];
 	venue: string;
+	seed: Seed;
 }
 
 export class CardBuilder {
 	private matches: CardMatch[] = [];
 	private showName = 'Live Event';
 	private venue = 'Default Arena';
+	private seed: Seed = 0;
 
 	setShowName(name: string): this {
 		this.showName = name;
@@ -36,15 +59,33 @@ export class CardBuilder {
 		return this;
 	}
 
+	/** Show seed; each match's engine seed is derived from it and the match's place on the card. */
+	setSeed(seed: Seed): this {
+		this.seed = seed;
+		return this;
+	}
+
 	addMatch(
 		title: string,
-		config: MatchConfig,
+		wrestlerIds: string[],
+		matchType: string,
 		stipulation = '',
 		isMainEvent = false
 	): this {
+		const rules = getMatchType(matchType);
+		if (!rules) throw new Error(`CardBuilder: unknown match type '${matchType}'`);
+		if (wrestlerIds.length < rules.minParticipants || wrestlerIds.length > rules.maxParticipants) {
+			const needs = rules.minParticipants === rules.maxParticipants
+				? `${rules.minParticipants}`
+				: `${rules.minParticipants}-${rules.maxParticipants}`;
+			throw new Error(`CardBuilder: ${rules.name} needs ${needs} wrestlers, got ${wrestlerIds.length}`);
+		}
+		if (new Set(wrestlerIds).size !== wrestlerIds.length) {
+			throw new Error(`CardBuilder: '${title}' books the same wrestler twice`);
+		}
 		this.matches.push({
 			id: `card_match_${this.matches.length}`,
-			matchConfig: config,
+			matchConfig: { wrestlerIds: [...wrestlerIds], matchType, seed: 0 },
 			isMainEvent,
 			title,
 			stipulation,
@@ -55,6 +96,11 @@ export class CardBuilder {
 	}
 
 	build(): ShowCard {
+		if (this.matches.length === 0) throw new Error('CardBuilder: a show needs at least one match');
+		if (this.matches.filter((m) => m.isMainEvent).length > 1) {
+			throw new Error('CardBuilder: a show can only have one main event');
+		}
+
 		// Ensure main event is last
 		const sorted = [...this.matches].sort((a, b) => {
 			if (a.isMainEvent && !b.isMainEvent) return 1;
@@ -62,13 +108,20 @@ export class CardBuilder {
 			return a.order - b.order;
 		});
 
-		// Reassign order
-		sorted.forEach((m, i) => (m.order = i));
+		// No main event booked: the last match closes the show
+		if (!sorted.some((m) => m.isMainEvent)) sorted[sorted.length - 1].isMainEvent = true;
+
+		// Reassign order (and seeds, which follow the order)
+		sorted.forEach((m, i) => {
+			m.order = i;
+			m.matchConfig.seed = deriveSeed(this.seed, i);
+		});
 
 		return {
 			name: this.showName,
 			matches: sorted,
-			venue: this.venue
+			venue: this.venue,
+			seed: this.seed
 		};
 	}
 }
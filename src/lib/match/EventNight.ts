@@ -0,0 +1,86 @@
+import type { CardMatch, CardMatchResult, ShowCard } from './CardBuilder';
+
+/** Plain-data copy of an event, for saving and resuming. */
+export interface EventSnapshot {
+	card: ShowCard;
+}
+
+/** How much more the main event counts toward the show rating than an undercard match. */
+const MAIN_EVENT_WEIGHT = 2;
+
+/**
+ * EventNight — runs a ShowCard top to bottom.
+ *
+ * Matches are played strictly in card order (opener first, main event
+ * last). The show rating is the weighted average of the match ratings so
+ * far, with the main event counting MAIN_EVENT_WEIGHT times — a great
+ * main event can carry a weak undercard, and a bad one sinks the night.
+ */
+export class EventNight {
+	readonly card: ShowCard;
+
+	constructor(card: ShowCard) {
+		if (card.matches.length === 0) throw new Error('EventNight: the card has no matches');
+		this.card = card;
+	}
+
+	/** Rebuild an event from a snapshot (resume a saved show). */
+	static restore(snapshot: EventSnapshot): EventNight {
+		return new EventNight(snapshot.card);
+	}
+
+	/** Plain-data copy of the current state (JSON-safe). */
+	snapshot(): EventSnapshot {
+		return {
+			card: {
+				...this.card,
+				matches: this.card.matches.map((m) => ({ ...m, matchConfig: { ...m.matchConfig, wrestlerIds: [...m.matchConfig.wrestlerIds] } }))
+			}
+		};
+	}
+
+	/** The next match on the card (undefined once the show is over). */
+	getNextMatch(): CardMatch | undefined {
+		return this.card.matches.find((m) => m.result === null);
+	}
+
+	/** Record the next match's result. Matches must be played in card order. */
+	recordResult(matchId: string, result: CardMatchResult): void {
+		const match = this.card.matches.find((m) => m.id === matchId);
+		if (!match) throw new Error(`EventNight: unknown match '${matchId}'`);
+		if (match.result) throw new Error(`EventNight: match '${matchId}' has already been played`);
+		if (match !== this.getNextMatch()) {
+			throw new Error(`EventNight: '${match.title}' is out of order — '${this.getNextMatch()?.title}' is next`);
+		}
+		if (!match.matchConfig.wrestlerIds.includes(result.winner)) {
+			throw new Error(`EventNight: '${result.winner}' is not in match '${matchId}'`);
+		}
+		match.result = result;
+	}
+
+	get complete(): boolean {
+		return this.getNextMatch() === undefined;
+	}
+
+	/** Show rating so far (0 before the first match). */
+	get showRating(): number {
+		return rateShow(this.card);
+	}
+}
+
+/**
+ * Weighted average of a card's played match ratings (main event ×MAIN_EVENT_WEIGHT).
+ */
+export function rateShow(card: ShowCard): number {
+	let total = 0;
+	let weight = 0;
+	for (const match of card.matches) {
+		if (!match.result) continue;
+		const w = match.isMainEvent ? MAIN_EVENT_WEIGHT : 1;
+		total += match.result.rating * w;
+		weight += w;
+	}
+	return weight > 0 ? total / weight : 0;
+}
+
+export { MAIN_EVENT_WEIGHT };
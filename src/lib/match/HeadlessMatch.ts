@@ -0,0 +1,46 @@
+import { MatchLoop, type MatchLoopConfig } from './engine';
+import type { MatchState } from './engine/MatchState';
+
+/** Ticks run between clock checks. */
+const SLICE_TICKS = 120;
+
+/**
+ * Milliseconds of simulation per slice before handing the thread back to
+ * the page — short enough that the tab keeps repainting and taking input.
+ */
+const SLICE_MS = 12;
+
+/**
+ * Let the browser paint and handle input before carrying on.
+ * (A timeout rather than requestAnimationFrame, so a simulation keeps going
+ * in a background tab.)
+ */
+export function yieldToPage(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Run a match headlessly without freezing the page: the match is simulated
+ * in slices of about SLICE_MS, yielding to the browser between slices. Same
+ * config, same result as `new MatchLoop(config).runToEnd()`.
+ *
+ * @param onProgress Called after each slice with the match seconds played so far
+ */
+export async function simulateMatch(
+	config: MatchLoopConfig,
+	onProgress?: (elapsed: number) => void
+): Promise<MatchState> {
+	const loop = new MatchLoop(config);
+	let running = true;
+	while (running) {
+		const sliceStart = performance.now();
+		do {
+			running = loop.runTicks(SLICE_TICKS);
+		} while (running && performance.now() - sliceStart < SLICE_MS);
+		onProgress?.(loop.state.elapsed);
+		if (running) await yieldToPage();
+	}
+	return loop.state;
+}
+
+export { SLICE_TICKS, SLICE_MS };
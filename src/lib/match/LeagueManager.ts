@@ -1,13 +1,30 @@
 import type { Seed } from '../utils/types';
-import { SeededRandom } from '../utils/random';
+import { SeededRandom, deriveSeed } from '../utils/random';
 
 export interface LeagueConfig {
 	id: string;
 	name: string;
 	participants: Array<{ id: string; name: string }>;
-	matchesPerParticipant: number;
+	/**
+	 * Regular-season weeks. Each week is one round of the round robin, so
+	 * everyone meets everyone before anyone meets twice (with an odd field,
+	 * one wrestler rests each week).
+	 */
+	weeks: number;
 	seed: Seed;
 	matchType: string;
+	/**
+	 * Regular-season time limit in seconds (a TV time limit: a match that
+	 * reaches it is a draw). Defaults to REGULAR_SEASON_TIME_LIMITS for the
+	 * match type; playoff matches always use the match type's own limit.
+	 */
+	timeLimit?: number;
+	/**
+	 * How many of the regular season's best go to the playoffs (rounded down
+	 * to a power of two, at most the field). 0 = the table decides the
+	 * champion. Defaults to DEFAULT_PLAYOFF_SIZE.
+	 */
+	playoffSize?: number;
 }
 
 export interface LeagueStanding {
@@ -21,25 +38,88 @@ export interface LeagueStanding {
 	streak: number; // positive = win streak, negative = loss streak
 }
 
+export type LeagueStage = 'regular' | 'playoff';
+
+export type LeaguePhase = 'regular_season' | 'playoffs' | 'complete';
+
 export interface ScheduledMatch {
 	id: string;
 	week: number;
+	stage: LeagueStage;
+	/** Playoff round (0 = first); null in the regular season */
+	playoffRound: number | null;
 	participantA: string;
 	participantB: string;
+	/** Null until played, and for a draw */
 	winner: string | null;
 	matchRating: number;
 	status: 'scheduled' | 'complete';
 }
 
+/** Plain-data copy of a league, for saving, resuming and exporting. */
+export interface LeagueSnapshot {
+	config: LeagueConfig;
+	schedule: ScheduledMatch[];
+	standings: LeagueStanding[];
+	phase: LeaguePhase;
+	playoffSize: number;
+	champion: string | null;
+}
+
+/** League points for a win and for a draw. */
+const WIN_POINTS = 3;
+const DRAW_POINTS = 1;
+
+/** Playoff size when the config doesn't say. */
+const DEFAULT_PLAYOFF_SIZE = 4;
+
+/**
+ * Regular-season TV time limits (seconds) by match type, at the long end of
+ * a typical match so the close ones go the distance. Match types without one
+ * (Iron Man, where the clock is the format) keep their own limit.
+ */
+const REGULAR_SEASON_TIME_LIMITS: Record<string, number> = {
+	singles: 70,
+	no_dq: 70,
+	cage: 75,
+	two_out_of_three_falls: 140
+};
+
+/**
+ * LeagueManager — a season of weekly shows.
+ *
+ * Regular season: a seeded round-robin schedule (circle method), one round
+ * per week, cycling with sides swapped if the season runs longer than one
+ * round robin. A win is worth WIN_POINTS, a draw (a match that goes the
+ * regular-season time limit, see matchTimeLimit) DRAW_POINTS each.
+ *
+ * Standings tiebreakers, in order: points, head-to-head points between the
+ * tied wrestlers, wins, average match rating, then entry order.
+ *
+ * Playoffs: once every regular-season match is in, the top playoffSize
+ * meet in single elimination, reseeded each round (best remaining seed vs
+ * worst). Playoff matches can't be drawn. The final's winner — or the
+ * table leader when there are no playoffs — is crowned champion.
+ */
 export class LeagueManager {
 	private standings: Map<string, LeagueStanding> = new Map();
 	private schedule: ScheduledMatch[] = [];
 	private random: SeededRandom;
+	private _phase: LeaguePhase = 'regular_season';
+	private _champion: string | null = null;
 	readonly config: LeagueConfig;
+	readonly playoffSize: number;
 
 	constructor(config: LeagueConfig) {
+		if (config.participants.length < 2) {
+			throw new Error(`LeagueManager: needs at least 2 participants, got ${config.participants.length}`);
+		}
+		if (!Number.isInteger(config.weeks) || config.weeks < 1) {
+			throw new Error(`LeagueManager: weeks must be a positive integer, got ${config.weeks}`);
+		}
 		this.config = config;
 		this.random = new SeededRandom(config.seed);
+		this.playoffSize = effectivePlayoffSize(config.playoffSize ?? DEFAULT_PLAYOFF_SIZE, config.participants.length);
 
 		// Initialize standings
 		for (const p of config.participants) {
@@ -58,57 +138,129 @@ export class LeagueManager {
 		this.generateSchedule();
 	}
 
+	/** Rebuild a league from a snapshot (resume a saved season). */
+	static restore(snapshot: LeagueSnapshot): LeagueManager {
+		const manager = new LeagueManager(snapshot.config);
+		manager.schedule = snapshot.schedule.map((m) => ({ ...m }));
+		manager.standings = new Map(snapshot.standings.map((s) => [s.participantId, { ...s }]));
+		manager._phase = snapshot.phase;
+		manager._champion = snapshot.champion;
+		return manager;
+	}
+
+	/** Plain-data copy of the current state (JSON-safe). */
+	snapshot(): LeagueSnapshot {
+		return {
+			config: this.config,
+			schedule: this.schedule.map((m) => ({ ...m })),
+			standings: [...this.standings.values()].map((s) => ({ ...s })),
+			phase: this._phase,
+			playoffSize: this.playoffSize,
+			champion: this._champion
+		};
+	}
+
+	/**
+	 * Round robin by the circle method: one wrestler stays put while the
+	 * rest rotate, so every week pairs everyone off without repeats until
+	 * the round robin is done. An odd field gets a rest slot.
+	 */
 	private generateSchedule(): void {
-		const participants = this.config.participants;
-		let matchId = 0;
-		let week = 0;
-
-		// Round-robin scheduling
-		for (let round = 0; round < this.config.matchesPerParticipant; round++) {
-			const shuffled = [...participants];
-			this.random.shuffle(shuffled);
-
-			for (let i = 0; i < shuffled.length - 1; i += 2) {
-				this.schedule.push({
-					id: `league_match_${matchId++}`,
-					week: week,
-					participantA: shuffled[i].id,
-					participantB: shuffled[i + 1].id,
-					winner: null,
-					matchRating: 0,
-					status: 'scheduled'
-				});
+		const ids: Array<string | null> = this.config.participants.map((p) => p.id);
+		this.random.shuffle(ids);
+		if (ids.length % 2 === 1) ids.push(null);
+
+		const size = ids.length;
+		const roundsPerCycle = size - 1;
+		const rest = ids.slice(1);
+
+		for (let week = 0; week < this.config.weeks; week++) {
+			const shift = week % roundsPerCycle;
+			// Second time through, the sides swap
+			const swapSides = Math.floor(week / roundsPerCycle) % 2 === 1;
+			const rotated = [ids[0], ...rest.slice(rest.length - shift), ...rest.slice(0, rest.length - shift)];
+
+			for (let i = 0; i < size / 2; i++) {
+				const a = rotated[i];
+				const b = rotated[size - 1 - i];
+				if (!a || !b) continue;
+				this.addMatch(week, 'regular', null, swapSides ? b : a, swapSides ? a : b);
 			}
-			week++;
 		}
 	}
 
-	recordResult(matchId: string, winnerId: string, matchRating: number): void {
+	private addMatch(week: number, stage: LeagueStage, playoffRound: number | null, a: string, b: string): ScheduledMatch {
+		const match: ScheduledMatch = {
+			id: `league_match_${this.schedule.length}`,
+			week,
+			stage,
+			playoffRound,
+			participantA: a,
+			participantB: b,
+			winner: null,
+			matchRating: 0,
+			status: 'scheduled'
+		};
+		this.schedule.push(match);
+		return match;
+	}
+
+	/**
+	 * Record a played match. winnerId null = a draw (regular season only).
+	 */
+	recordResult(matchId: string, winnerId: string | null, matchRating: number): void {
 		const match = this.schedule.find((m) => m.id === matchId);
-		if (!match) return;
+		if (!match) throw new Error(`LeagueManager: unknown match '${matchId}'`);
+		if (match.status === 'complete') throw new Error(`LeagueManager: match '${matchId}' has already been played`);
+		if (winnerId !== null && winnerId !== match.participantA && winnerId !== match.participantB) {
+			throw new Error(`LeagueManager: '${winnerId}' is not in match '${matchId}'`);
+		}
+		if (winnerId === null && match.stage === 'playoff') {
+			throw new Error(`LeagueManager: playoff match '${matchId}' can't end in a draw`);
+		}
 
 		match.winner = winnerId;
 		match.matchRating = matchRating;
 		match.status = 'complete';
 
-		const loserId = match.participantA === winnerId ? match.participantB : match.participantA;
-
-		// Update winner
-		const winner = this.standings.get(winnerId);
-		if (winner) {
-			winner.wins++;
-			winner.points += 3;
-			winner.streak = winner.streak >= 0 ? winner.streak + 1 : 1;
-			this.updateAvgRating(winner, matchRating);
+		if (match.stage === 'regular') {
+			if (winnerId === null) {
+				this.recordDraw(match.participantA, matchRating);
+				this.recordDraw(match.participantB, matchRating);
+			} else {
+				const loserId = match.participantA === winnerId ? match.participantB : match.participantA;
+				this.recordWin(winnerId, matchRating);
+				this.recordLoss(loserId, matchRating);
+			}
 		}
 
-		// Update loser
-		const loser = this.standings.get(loserId);
-		if (loser) {
-			loser.losses++;
-			loser.streak = loser.streak <= 0 ? loser.streak - 1 : -1;
-			this.updateAvgRating(loser, matchRating);
-		}
+		this.advance();
+	}
+
+	private recordWin(id: string, matchRating: number): void {
+		const standing = this.standings.get(id);
+		if (!standing) return;
+		standing.wins++;
+		standing.points += WIN_POINTS;
+		standing.streak = standing.streak >= 0 ? standing.streak + 1 : 1;
+		this.updateAvgRating(standing, matchRating);
+	}
+
+	private recordLoss(id: string, matchRating: number): void {
+		const standing = this.standings.get(id);
+		if (!standing) return;
+		standing.losses++;
+		standing.streak = standing.streak <= 0 ? standing.streak - 1 : -1;
+		this.updateAvgRating(standing, matchRating);
+	}
+
+	private recordDraw(id: string, matchRating: number): void {
+		const standing = this.standings.get(id);
+		if (!standing) return;
+		standing.draws++;
+		standing.points += DRAW_POINTS;
+		standing.streak = 0;
+		this.updateAvgRating(standing, matchRating);
 	}
 
 	private updateAvgRating(standing: LeagueStanding, rating: number): void {
@@ -117,18 +269,112 @@ export class LeagueManager {
 			(standing.matchRatingAvg * (totalMatches - 1) + rating) / totalMatches;
 	}
 
+	/** Move the season on once the current stage (or playoff round) is done. */
+	private advance(): void {
+		if (this._phase === 'regular_season') {
+			if (this.schedule.some((m) => m.stage === 'regular' && m.status !== 'complete')) return;
+			if (this.playoffSize === 0) {
+				this._champion = this.getRankings()[0].participantId;
+				this._phase = 'complete';
+				return;
+			}
+			this._phase = 'playoffs';
+			this.schedulePlayoffRound(0, this.getRankings().slice(0, this.playoffSize).map((s) => s.participantId));
+			return;
+		}
+
+		if (this._phase === 'playoffs') {
+			const round = Math.max(...this.schedule.filter((m) => m.stage === 'playoff').map((m) => m.playoffRound ?? 0));
+			const matches = this.schedule.filter((m) => m.stage === 'playoff' && m.playoffRound === round);
+			if (matches.some((m) => m.status !== 'complete')) return;
+
+			const winners = matches.map((m) => m.winner!);
+			if (winners.length === 1) {
+				this._champion = winners[0];
+				this._phase = 'complete';
+				return;
+			}
+			// Reseed: keep the regular-season order among the survivors
+			const seedOrder = this.getRankings().map((s) => s.participantId);
+			winners.sort((a, b) => seedOrder.indexOf(a) - seedOrder.indexOf(b));
+			this.schedulePlayoffRound(round + 1, winners);
+		}
+	}
+
+	/** Pair the seeds best vs worst, the week after the last one scheduled. */
+	private schedulePlayoffRound(round: number, seeds: string[]): void {
+		const week = Math.max(...this.schedule.map((m) => m.week)) + 1;
+		for (let i = 0; i < seeds.length / 2; i++) {
+			this.addMatch(week, 'playoff', round, seeds[i], seeds[seeds.length - 1 - i]);
+		}
+	}
+
 	getNextMatch(): ScheduledMatch | undefined {
 		return this.schedule.find((m) => m.status === 'scheduled');
 	}
 
+	/**
+	 * Time limit override for a scheduled match (seconds): the TV time limit in
+	 * the regular season, null (the match type's own) in the playoffs.
+	 */
+	matchTimeLimit(matchId: string): number | null {
+		const match = this.schedule.find((m) => m.id === matchId);
+		if (!match || match.stage !== 'regular') return null;
+		return this.config.timeLimit ?? REGULAR_SEASON_TIME_LIMITS[this.config.matchType] ?? null;
+	}
+
+	/**
+	 * Engine seed for a scheduled match — fixed by the league seed, so a
+	 * resumed season replays the same matches.
+	 */
+	matchSeed(matchId: string): Seed {
+		const index = this.schedule.findIndex((m) => m.id === matchId);
+		return deriveSeed(this.config.seed, index);
+	}
+
+	/**
+	 * Regular-season table, best first (see the class comment for tiebreakers).
+	 */
 	getRankings(): LeagueStanding[] {
+		const entryOrder = new Map(this.config.participants.map((p, i) => [p.id, i]));
+		const byPoints = new Map<number, string[]>();
+		for (const s of this.standings.values()) {
+			byPoints.set(s.points, [...(byPoints.get(s.points) ?? []), s.participantId]);
+		}
+		// Head-to-head points within each group tied on points
+		const headToHead = new Map<string, number>();
+		for (const tied of byPoints.values()) {
+			if (tied.length < 2) continue;
+			for (const [id, points] of this.headToHeadPoints(tied)) headToHead.set(id, points);
+		}
+
 		return [...this.standings.values()].sort((a, b) => {
 			if (b.points !== a.points) return b.points - a.points;
+			const h2h = (headToHead.get(b.participantId) ?? 0) - (headToHead.get(a.participantId) ?? 0);
+			if (h2h !== 0) return h2h;
 			if (b.wins !== a.wins) return b.wins - a.wins;
-			return b.matchRatingAvg - a.matchRatingAvg;
+			if (b.matchRatingAvg !== a.matchRatingAvg) return b.matchRatingAvg - a.matchRatingAvg;
+			return (entryOrder.get(a.participantId) ?? 0) - (entryOrder.get(b.participantId) ?? 0);
 		});
 	}
 
+	/** Points each wrestler took from regular-season matches among the group. */
+	private headToHeadPoints(group: string[]): Map<string, number> {
+		const members = new Set(group);
+		const points = new Map(group.map((id) => [id, 0]));
+		for (const m of this.schedule) {
+			if (m.stage !== 'regular' || m.status !== 'complete') continue;
+			if (!members.has(m.participantA) || !members.has(m.participantB)) continue;
+			if (m.winner === null) {
+				points.set(m.participantA, points.get(m.participantA)! + DRAW_POINTS);
+				points.set(m.participantB, points.get(m.participantB)! + DRAW_POINTS);
+			} else {
+				points.set(m.winner, points.get(m.winner)! + WIN_POINTS);
+			}
+		}
+		return points;
+	}
+
 	getSchedule(): readonly ScheduledMatch[] {
 		return this.schedule;
 	}
@@ -136,4 +382,26 @@ export class LeagueManager {
 	getStanding(participantId: string): LeagueStanding | undefined {
 		return this.standings.get(participantId);
 	}
+
+	get phase(): LeaguePhase {
+		return this._phase;
+	}
+
+	get champion(): string | null {
+		return this._champion;
+	}
+
+	/** Week of the next match to play (the last week once the season is over). */
+	get currentWeek(): number {
+		return this.getNextMatch()?.week ?? Math.max(0, ...this.schedule.map((m) => m.week));
+	}
 }
+
+/** Largest power of two ≤ both the requested size and the field (0 or 1 = no playoffs). */
+function effectivePlayoffSize(requested: number, participants: number): number {
+	const size = Math.min(requested, participants);
+	if (size < 2) return 0;
+	return Math.pow(2, Math.floor(Math.log2(size)));
+}
+
+export { WIN_POINTS, DRAW_POINTS, DEFAULT_PLAYOFF_SIZE };
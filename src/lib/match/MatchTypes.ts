@@ -62,7 +62,7 @@ export const MATCH_TYPES: Record<string, MatchTypeRules> = {
 	royal_rumble: {
 		id: 'royal_rumble',
 		name: 'Royal Rumble',
-		minParticipants: 10,
+		minParticipants: 6, // a full ring; the shipped roster has 7
 		maxParticipants: 30,
 		winConditions: ['elimination'],
 		countOut: false,
@@ -98,6 +98,32 @@ export const MATCH_TYPES: Record<string, MatchTypeRules> = {
 		timeLimit: 0,
 		specialRules: []
 	},
+	fatal_four_way: {
+		id: 'fatal_four_way',
+		name: 'Fatal 4-Way Match',
+		minParticipants: 4,
+		maxParticipants: 4,
+		winConditions: ['pinfall', 'submission'],
+		countOut: false,
+		dq: false,
+		ropeBreak: true,
+		falls: 1,
+		timeLimit: 0,
+		specialRules: []
+	},
+	two_out_of_three_falls: {
+		id: 'two_out_of_three_falls',
+		name: '2 Out of 3 Falls Match',
+		minParticipants: 2,
+		maxParticipants: 2,
+		winConditions: ['pinfall', 'submission', 'knockout'],
+		countOut: true,
+		dq: true,
+		ropeBreak: true,
+		falls: 2,
+		timeLimit: 3600,
+		specialRules: []
+	},
 	iron_man: {
 		id: 'iron_man',
 		name: 'Iron Man Match',
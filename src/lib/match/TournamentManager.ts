@@ -1,5 +1,5 @@
-import type { EntityId, Seed } from '../utils/types';
-import { SeededRandom } from '../utils/random';
+import type { Seed } from '../utils/types';
+import { SeededRandom, deriveSeed } from '../utils/random';
 
 export interface TournamentConfig {
 	id: string;
@@ -17,15 +17,38 @@ export interface TournamentParticipant {
 	seed: number;
 }
 
+/**
+ * Which part of the bracket a match belongs to. Only double elimination
+ * uses 'losers' and 'grand_final'; everything else is 'main'.
+ */
+export type BracketSection = 'main' | 'losers' | 'grand_final';
+
+/** A participant slot in a later match. */
+export interface BracketSlotRef {
+	matchId: string;
+	slot: 'A' | 'B';
+}
+
 export interface BracketMatch {
 	id: string;
 	round: number;
 	position: number;
+	section: BracketSection;
 	participantA: string | null;
 	participantB: string | null;
 	winner: string | null;
 	loser: string | null;
 	status: 'pending' | 'ready' | 'in_progress' | 'complete';
+	/** Where the winner advances to (elimination formats) */
+	winnerTo: BracketSlotRef | null;
+	/** Where the loser drops to (double elimination) */
+	loserTo: BracketSlotRef | null;
+}
+
+export interface TournamentStanding {
+	wins: number;
+	losses: number;
+	points: number;
 }
 
 export interface TournamentState {
@@ -33,14 +56,45 @@ export interface TournamentState {
 	bracket: BracketMatch[];
 	currentRound: number;
 	champion: string | null;
-	standings: Map<string, { wins: number; losses: number; points: number }>;
+	standings: Map<string, TournamentStanding>;
+}
+
+/** Plain-data copy of a tournament, for saving and resuming. */
+export interface TournamentSnapshot {
+	config: TournamentConfig;
+	bracket: BracketMatch[];
+	currentRound: number;
+	champion: string | null;
+	standings: Array<[string, TournamentStanding]>;
 }
 
+/** Points for a win (and for a Swiss bye). */
+const WIN_POINTS = 3;
+
+/**
+ * TournamentManager — brackets, results and standings.
+ *
+ * Formats:
+ *   - single_elimination: seeded bracket padded to a power of two; byes walk over
+ *   - double_elimination: winners bracket, losers bracket fed by the winners
+ *     bracket's losers, and a single grand final (no bracket reset)
+ *   - round_robin: everyone meets everyone once, scheduled in rounds
+ *     (circle method); the champion tops the standings
+ *   - swiss: ceil(log2(n)) rounds, each paired by points without rematches
+ *     where possible; an odd wrestler out gets a bye worth a win
+ *
+ * Elimination matches link forward through winnerTo / loserTo, so results
+ * advance without any knowledge of bracket shape. A match whose feeders are
+ * all decided but which has only one participant is a walkover.
+ */
 export class TournamentManager {
 	private state: TournamentState;
 	private random: SeededRandom;
 
 	constructor(config: TournamentConfig) {
+		if (config.participants.length < 2) {
+			throw new Error(`TournamentManager: needs at least 2 participants, got ${config.participants.length}`);
+		}
 		this.random = new SeededRandom(config.seed);
 		this.state = {
 			config,
@@ -58,20 +112,56 @@ export class TournamentManager {
 		this.generateBracket();
 	}
 
+	/** Rebuild a tournament from a snapshot (resume a saved tournament). */
+	static restore(snapshot: TournamentSnapshot): TournamentManager {
+		const manager = new TournamentManager(snapshot.config);
+		manager.state = {
+			config: snapshot.config,
+			bracket: snapshot.bracket.map((m) => ({ ...m })),
+			currentRound: snapshot.currentRound,
+			champion: snapshot.champion,
+			standings: new Map(snapshot.standings.map(([id, s]) => [id, { ...s }]))
+		};
+		return manager;
+	}
+
+	/** Plain-data copy of the current state (JSON-safe). */
+	snapshot(): TournamentSnapshot {
+		return {
+			config: this.state.config,
+			bracket: this.state.bracket.map((m) => ({ ...m })),
+			currentRound: this.state.currentRound,
+			champion: this.state.champion,
+			standings: [...this.state.standings].map(([id, s]) => [id, { ...s }])
+		};
+	}
+
 	private generateBracket(): void {
 		switch (this.state.config.format) {
 			case 'single_elimination':
 				this.generateSingleElimination();
 				break;
+			case 'double_elimination':
+				this.generateDoubleElimination();
+				break;
 			case 'round_robin':
 				this.generateRoundRobin();
 				break;
+			case 'swiss':
+				this.generateSwissRound(0);
+				break;
 			default:
 				this.generateSingleElimination();
 		}
 	}
 
-	private generateSingleElimination(): void {
+	// ─── Elimination ────────────────────────────────────────────────
+
+	/**
+	 * Seeded first round (best vs worst) plus empty later rounds, linked forward.
+	 * Returns the matches by round.
+	 */
+	private buildEliminationRounds(): BracketMatch[][] {
 		const participants = [...this.state.config.participants];
 		// Sort by seed, then shuffle within same seed
 		participants.sort((a, b) => a.seed - b.seed);
@@ -80,107 +170,245 @@ export class TournamentManager {
 		const size = Math.pow(2, Math.ceil(Math.log2(participants.length)));
 		const totalRounds = Math.log2(size);
 
-		let matchId = 0;
+		const rounds: BracketMatch[][] = [];
 		// First round
-		for (let i = 0; i < size / 2; i++) {
-			const a = participants[i] ?? null;
-			const b = participants[size - 1 - i] ?? null;
-			const match: BracketMatch = {
-				id: `match_${matchId++}`,
-				round: 0,
-				position: i,
-				participantA: a?.id ?? null,
-				participantB: b?.id ?? null,
-				winner: null,
-				loser: null,
-				status: a && b ? 'ready' : 'pending'
-			};
-
-			// Bye: auto-advance
-			if (a && !b) {
-				match.winner = a.id;
-				match.status = 'complete';
-			} else if (!a && b) {
-				match.winner = b.id;
-				match.status = 'complete';
-			}
-
-			this.state.bracket.push(match);
-		}
+		rounds.push(Array.from({ length: size / 2 }, (_, i) => this.addMatch('main', 0, i,
+			participants[i]?.id ?? null,
+			participants[size - 1 - i]?.id ?? null
+		)));
 
 		// Subsequent rounds (empty slots)
 		for (let round = 1; round < totalRounds; round++) {
 			const matchesInRound = size / Math.pow(2, round + 1);
-			for (let i = 0; i < matchesInRound; i++) {
-				this.state.bracket.push({
-					id: `match_${matchId++}`,
-					round,
-					position: i,
-					participantA: null,
-					participantB: null,
-					winner: null,
-					loser: null,
-					status: 'pending'
-				});
+			rounds.push(Array.from({ length: matchesInRound }, (_, i) => this.addMatch('main', round, i, null, null)));
+		}
+
+		// Winners advance to the next round
+		for (let round = 0; round < totalRounds - 1; round++) {
+			for (const match of rounds[round]) {
+				match.winnerTo = slotRef(rounds[round + 1][Math.floor(match.position / 2)], match.position);
 			}
 		}
+		return rounds;
+	}
 
-		// Advance byes
-		this.advanceByes();
+	private generateSingleElimination(): void {
+		this.buildEliminationRounds();
+		this.resolveWalkovers();
 	}
 
-	private generateRoundRobin(): void {
-		const participants = this.state.config.participants;
-		let matchId = 0;
-		let round = 0;
-
-		for (let i = 0; i < participants.length; i++) {
-			for (let j = i + 1; j < participants.length; j++) {
-				this.state.bracket.push({
-					id: `match_${matchId++}`,
-					round: round++,
-					position: 0,
-					participantA: participants[i].id,
-					participantB: participants[j].id,
-					winner: null,
-					loser: null,
-					status: 'ready'
+	/**
+	 * Winners bracket as in single elimination. Its first-round losers pair off
+	 * in the losers bracket; every later winners-bracket loser drops in against
+	 * a losers-bracket survivor (mirrored, to put off rematches). The losers
+	 * bracket winner meets the winners bracket winner in the grand final.
+	 */
+	private generateDoubleElimination(): void {
+		const winners = this.buildEliminationRounds();
+		const totalRounds = winners.length;
+		const winnersFinal = winners[totalRounds - 1][0];
+		const grandFinal = this.addMatch('grand_final', 0, 0, null, null);
+		winnersFinal.winnerTo = { matchId: grandFinal.id, slot: 'A' };
+
+		if (totalRounds === 1) {
+			// Two entrants: the loser gets a second chance straight away
+			winnersFinal.loserTo = { matchId: grandFinal.id, slot: 'B' };
+			this.resolveWalkovers();
+			return;
+		}
+
+		let lbRound = 0;
+		// Losers bracket round 0: first-round losers pair off
+		let survivors = Array.from({ length: winners[0].length / 2 }, (_, i) => {
+			const match = this.addMatch('losers', lbRound, i, null, null);
+			winners[0][2 * i].loserTo = { matchId: match.id, slot: 'A' };
+			winners[0][2 * i + 1].loserTo = { matchId: match.id, slot: 'B' };
+			return match;
+		});
+
+		for (let wbRound = 1; wbRound < totalRounds; wbRound++) {
+			// Drop-in round: survivors meet this round's winners-bracket losers
+			lbRound++;
+			const dropping = winners[wbRound];
+			const prev = survivors;
+			survivors = prev.map((from, i) => {
+				const match = this.addMatch('losers', lbRound, i, null, null);
+				from.winnerTo = { matchId: match.id, slot: 'A' };
+				dropping[dropping.length - 1 - i].loserTo = { matchId: match.id, slot: 'B' };
+				return match;
+			});
+
+			// Consolidation round: survivors pair off (not after the last drop-in)
+			if (wbRound < totalRounds - 1) {
+				lbRound++;
+				const prevDrop = survivors;
+				survivors = Array.from({ length: prevDrop.length / 2 }, (_, i) => {
+					const match = this.addMatch('losers', lbRound, i, null, null);
+					prevDrop[2 * i].winnerTo = { matchId: match.id, slot: 'A' };
+					prevDrop[2 * i + 1].winnerTo = { matchId: match.id, slot: 'B' };
+					return match;
 				});
 			}
 		}
+
+		survivors[0].winnerTo = { matchId: grandFinal.id, slot: 'B' };
+		this.resolveWalkovers();
 	}
 
-	private advanceByes(): void {
-		for (const match of this.state.bracket) {
-			if (match.status === 'complete' && match.winner) {
-				this.advanceWinner(match);
+	private addMatch(
+		section: BracketSection,
+		round: number,
+		position: number,
+		participantA: string | null,
+		participantB: string | null
+	): BracketMatch {
+		const match: BracketMatch = {
+			id: `match_${this.state.bracket.length}`,
+			round,
+			position,
+			section,
+			participantA,
+			participantB,
+			winner: null,
+			loser: null,
+			status: participantA && participantB ? 'ready' : 'pending',
+			winnerTo: null,
+			loserTo: null
+		};
+		this.state.bracket.push(match);
+		return match;
+	}
+
+	/** Put a participant into a later match's slot. */
+	private deliver(ref: BracketSlotRef | null, participantId: string | null): void {
+		if (!ref || !participantId) return;
+		const match = this.state.bracket.find((m) => m.id === ref.matchId);
+		if (!match) return;
+		if (ref.slot === 'A') {
+			match.participantA = participantId;
+		} else {
+			match.participantB = participantId;
+		}
+		if (match.participantA && match.participantB) {
+			match.status = 'ready';
+		}
+	}
+
+	/**
+	 * Settle matches that can't be played: once every match feeding a pending
+	 * match is decided, a lone participant walks over (a bye) and an empty
+	 * match is skipped. Repeats until nothing changes, since walkovers feed on.
+	 */
+	private resolveWalkovers(): void {
+		let changed = true;
+		while (changed) {
+			changed = false;
+			for (const match of this.state.bracket) {
+				if (match.status !== 'pending') continue;
+				const feeders = this.state.bracket.filter(
+					(m) => m.winnerTo?.matchId === match.id || m.loserTo?.matchId === match.id
+				);
+				if (feeders.some((m) => m.status !== 'complete')) continue;
+
+				match.winner = match.participantA ?? match.participantB;
+				match.loser = null;
+				match.status = 'complete';
+				this.deliver(match.winnerTo, match.winner);
+				changed = true;
 			}
 		}
 	}
 
-	private advanceWinner(completedMatch: BracketMatch): void {
-		const nextRound = completedMatch.round + 1;
-		const nextPosition = Math.floor(completedMatch.position / 2);
-		const nextMatch = this.state.bracket.find(
-			(m) => m.round === nextRound && m.position === nextPosition
-		);
+	// ─── Round Robin ────────────────────────────────────────────────
 
-		if (nextMatch && completedMatch.winner) {
-			if (completedMatch.position % 2 === 0) {
-				nextMatch.participantA = completedMatch.winner;
-			} else {
-				nextMatch.participantB = completedMatch.winner;
+	/**
+	 * Circle method: one wrestler stays put while the rest rotate, so every
+	 * round everyone fights once (or sits out, with an odd count).
+	 */
+	private generateRoundRobin(): void {
+		const ids: (string | null)[] = this.state.config.participants.map((p) => p.id);
+		if (ids.length % 2 === 1) ids.push(null);
+		const n = ids.length;
+
+		for (let round = 0; round < n - 1; round++) {
+			let position = 0;
+			for (let i = 0; i < n / 2; i++) {
+				const a = ids[i];
+				const b = ids[n - 1 - i];
+				if (a && b) this.addMatch('main', round, position++, a, b);
 			}
-			if (nextMatch.participantA && nextMatch.participantB) {
-				nextMatch.status = 'ready';
+			// Rotate everyone but the first
+			ids.splice(1, 0, ids.pop()!);
+		}
+	}
+
+	// ─── Swiss ──────────────────────────────────────────────────────
+
+	/** Number of Swiss rounds for the field size. */
+	private get swissRounds(): number {
+		return Math.max(1, Math.ceil(Math.log2(this.state.config.participants.length)));
+	}
+
+	/**
+	 * Pair the next Swiss round: by ranking, each wrestler against the
+	 * highest-ranked one they haven't met yet, backtracking when that leaves
+	 * someone further down with only rematches. With an odd field the
+	 * lowest-ranked wrestler who hasn't had a bye sits out for a win (or the
+	 * next one up, if that's what it takes to avoid a rematch).
+	 */
+	private generateSwissRound(round: number): void {
+		const ranked = this.rankings().map((r) => r.id);
+		const played = (a: string, b: string) => this.state.bracket.some(
+			(m) => (m.participantA === a && m.participantB === b) || (m.participantA === b && m.participantB === a)
+		);
+
+		let byeId: string | null = null;
+		let pairs: [string, string][] | null;
+		if (ranked.length % 2 === 1) {
+			// Lowest-ranked first, and anyone who's had a bye only after everyone who hasn't
+			const hadBye = (id: string) => this.state.bracket.some((m) => m.participantA === id && m.participantB === null);
+			const candidates = [...ranked].reverse();
+			candidates.sort((x, y) => Number(hadBye(x)) - Number(hadBye(y)));
+			pairs = null;
+			for (const candidate of candidates) {
+				pairs = pairSwiss(ranked.filter((id) => id !== candidate), played);
+				if (pairs) {
+					byeId = candidate;
+					break;
+				}
 			}
+		} else {
+			pairs = pairSwiss(ranked, played);
+		}
+		if (!pairs) {
+			throw new Error(`TournamentManager: Swiss round ${round + 1} can't be paired without a rematch`);
 		}
+
+		let position = 0;
+		if (byeId) {
+			const bye = this.addMatch('main', round, position++, byeId, null);
+			bye.winner = byeId;
+			bye.status = 'complete';
+			const standing = this.state.standings.get(byeId)!;
+			standing.wins++;
+			standing.points += WIN_POINTS;
+		}
+		for (const [a, b] of pairs) this.addMatch('main', round, position++, a, b);
+		this.state.currentRound = round;
 	}
 
+	// ─── Results ────────────────────────────────────────────────────
+
 	/** Record a match result and advance the bracket. */
 	recordResult(matchId: string, winnerId: string): void {
 		const match = this.state.bracket.find((m) => m.id === matchId);
 		if (!match) return;
+		if (match.status === 'complete') {
+			throw new Error(`TournamentManager: match '${matchId}' is already decided`);
+		}
+		if (winnerId !== match.participantA && winnerId !== match.participantB) {
+			throw new Error(`TournamentManager: '${winnerId}' is not in match '${matchId}'`);
+		}
 
 		const loserId = match.participantA === winnerId ? match.participantB : match.participantA;
 		match.winner = winnerId;
@@ -191,7 +419,7 @@ export class TournamentManager {
 		const winnerStanding = this.state.standings.get(winnerId);
 		if (winnerStanding) {
 			winnerStanding.wins++;
-			winnerStanding.points += 3;
+			winnerStanding.points += WIN_POINTS;
 		}
 		if (loserId) {
 			const loserStanding = this.state.standings.get(loserId);
@@ -200,15 +428,31 @@ export class TournamentManager {
 			}
 		}
 
-		// Advance winner in elimination brackets
-		if (this.state.config.format === 'single_elimination') {
-			this.advanceWinner(match);
+		// Advance winner (and drop the loser) in elimination brackets
+		this.deliver(match.winnerTo, winnerId);
+		this.deliver(match.loserTo, loserId);
+		this.resolveWalkovers();
+
+		// Next Swiss round once this one is done
+		const format = this.state.config.format;
+		if (format === 'swiss') {
+			const roundDone = this.state.bracket.every((m) => m.round !== match.round || m.status === 'complete');
+			if (roundDone && match.round + 1 < this.swissRounds) {
+				this.generateSwissRound(match.round + 1);
+			}
 		}
 
+		this.state.currentRound = this.getNextMatch()?.round ?? this.state.currentRound;
+
 		// Check for champion
-		const finalMatch = this.state.bracket[this.state.bracket.length - 1];
-		if (finalMatch.status === 'complete' && finalMatch.winner) {
-			this.state.champion = finalMatch.winner;
+		if (this.state.bracket.every((m) => m.status === 'complete')) {
+			if (format === 'round_robin' || format === 'swiss') {
+				this.state.champion = this.rankings()[0].id;
+			} else {
+				// The final is the one match nobody advances from
+				const finalMatch = this.state.bracket.find((m) => m.winnerTo === null && m.section !== 'losers');
+				this.state.champion = finalMatch?.winner ?? null;
+			}
 		}
 	}
 
@@ -217,15 +461,65 @@ export class TournamentManager {
 		return this.state.bracket.find((m) => m.status === 'ready');
 	}
 
+	/**
+	 * Engine seed for a bracket match — fixed by the tournament seed, so a
+	 * resumed tournament replays the same matches.
+	 */
+	matchSeed(matchId: string): Seed {
+		const index = this.state.bracket.findIndex((m) => m.id === matchId);
+		return deriveSeed(this.state.config.seed, index);
+	}
+
+	/**
+	 * Standings best first: points, then wins, then tournament seed.
+	 */
+	rankings(): Array<{ id: string } & TournamentStanding> {
+		const seedOf = new Map(this.state.config.participants.map((p) => [p.id, p.seed]));
+		return [...this.state.standings]
+			.map(([id, s]) => ({ id, ...s }))
+			.sort((a, b) => b.points - a.points || b.wins - a.wins || (seedOf.get(a.id) ?? 0) - (seedOf.get(b.id) ?? 0));
+	}
+
+	get config(): TournamentConfig {
+		return this.state.config;
+	}
+
 	get bracket(): readonly BracketMatch[] {
 		return this.state.bracket;
 	}
 
+	get currentRound(): number {
+		return this.state.currentRound;
+	}
+
 	get champion(): string | null {
 		return this.state.champion;
 	}
 
-	get standings(): ReadonlyMap<string, { wins: number; losses: number; points: number }> {
+	get standings(): ReadonlyMap<string, TournamentStanding> {
 		return this.state.standings;
 	}
 }
+
+/** Slot in the next round for a match at a bracket position (even = A, odd = B). */
+function slotRef(next: BracketMatch, position: number): BracketSlotRef {
+	return { matchId: next.id, slot: position % 2 === 0 ? 'A' : 'B' };
+}
+
+/**
+ * Pair an even field, in ranking order, with no rematches: the top unpaired
+ * wrestler takes the highest-ranked opponent that still lets the rest pair
+ * up. Null when there's no such pairing.
+ */
+function pairSwiss(ranked: string[], played: (a: string, b: string) => boolean): [string, string][] | null {
+	if (ranked.length === 0) return [];
+	const [a, ...rest] = ranked;
+	for (let i = 0; i < rest.length; i++) {
+		if (played(a, rest[i])) continue;
+		const pairs = pairSwiss(rest.filter((_, j) => j !== i), played);
+		if (pairs) return [[a, rest[i]], ...pairs];
+	}
+	return null;
+}
+
+export { WIN_POINTS };
@@ -0,0 +1,274 @@
+import type { CommentaryGrammar, CommentarySlots } from './types';
+import { SeededRandom } from '../../utils/random';
+
+/**
+ * Deepest `#rule#` nesting an expansion follows before giving up on it.
+ * Guards against a rule that (indirectly) expands itself.
+ */
+const MAX_EXPANSION_DEPTH = 6;
+
+/**
+ * The commentary team's template grammar.
+ *
+ * Each rule lists interchangeable ways of making the same call; the
+ * engine picks one with its seeded RNG, so the same match always gets the
+ * same commentary. `#rule#` pulls in another rule (the shared exclamations
+ * and asides at the top), `{slot}` is filled by the engine: wrestler names
+ * ({attacker}, {defender}, {agent}, {partner}, {winner}, {loser}) are
+ * already resolved to a name or nickname, {move} to the move's display name.
+ *
+ * Rule names match the calls the engine makes:
+ *   - play-by-play: the log entry type, with a suffix for variants
+ *   - color:        'emotion_<state>', 'momentum_peak', 'near_finish', 'lull_*'
+ *   - callbacks:    'callback_*'
+ *   - crowd:        'chant_<kind>', 'crowd_*'
+ */
+export const COMMENTARY_GRAMMAR: CommentaryGrammar = {
+	// ── Shared asides ──────────────────────────────────────────────
+	exclaim: ['Oh my!', 'Wow!', 'Good grief!', 'Are you kidding me?!', 'Unbelievable!', 'Goodness gracious!'],
+	tension: ['This could be it!', 'Look out!', 'The fans are on their feet!', 'Brace yourselves!'],
+	after_impact: ['That should do it!', 'Cover, cover!', 'Is that the end?', 'How can anyone get up from that?'],
+	outrage: ['That\'s cheating!', 'Come on, ref!', 'Shameful!', 'The referee is missing it!'],
+	crowd_alive: ['The crowd is behind them!', 'Listen to this crowd!', 'The place is coming unglued!'],
+	tap_tension: ['Will {defender} tap?', '{defender} has to find the ropes!', 'Nowhere to go!'],
+
+	// ── Strikes and moves ──────────────────────────────────────────
+	move_hit: [
+		'{attacker} with a {move}.',
+		'{move} from {attacker}.',
+		'{attacker} connects with the {move}.',
+		'Nice {move} by {attacker}.',
+		'{attacker} lands a {move} on {defender}.'
+	],
+	move_hit_heavy: [
+		'#exclaim# {attacker} nearly took {defender}\'s head off with that {move}!',
+		'What a {move} from {attacker}!',
+		'{attacker} drills {defender} with a {move}! #exclaim#',
+		'That {move} shook the whole ring!'
+	],
+	move_hit_signature: [
+		'There\'s the signature {move}!',
+		'{attacker} hits the {move} — that\'s their bread and butter!',
+		'The {move}! {attacker} has been waiting for that one.'
+	],
+	move_hit_signature_generic: [
+		'There\'s the signature move from {attacker}!',
+		'{attacker} hits their signature move on {defender}!'
+	],
+	move_hit_finisher_generic: [
+		'{attacker} hits the finisher! #after_impact#',
+		'{attacker} plants {defender} with their finisher! #exclaim#'
+	],
+	reversal: [
+		'{defender} saw that coming and reverses!',
+		'Reversed! {defender} turns the {move} around!',
+		'#exclaim# {defender} reads the {move} perfectly!',
+		'{attacker} goes for the {move} — no, reversed by {defender}!'
+	],
+	mistake: [
+		'{agent} botches the {move}!',
+		'{agent} went for the {move} and it all went wrong!',
+		'Miscommunication there — {agent} slips on that {move}.'
+	],
+	knockdown: ['{agent} goes down!', '{agent} is down on the mat!', 'Down goes {agent}!'],
+	knockdown_repeat: [
+		'{agent} is down for the {count} time!',
+		'That\'s the {count} time {agent} has hit the mat!'
+	],
+	combo_complete: [
+		'{agent} strings together {hits} shots!',
+		'What a flurry from {agent} — {hits} in a row!',
+		'{agent} with the {combo}! {hits} unanswered strikes!'
+	],
+	combo_complete_unlock: [
+		'{agent} with {hits} straight — and that sets up the finisher!',
+		'The {combo} lands! {agent} is ready to end this!'
+	],
+	combo_break: [
+		'{agent}\'s flurry is cut off after {hits}.',
+		'{agent} had a head of steam, but that combination is over.'
+	],
+	taunt_face: ['{agent} plays to the crowd!', '{agent} soaks in the cheers.', '{agent} fires up the fans!'],
+	taunt_heel: ['{agent} mocks the fans!', '{agent} is rubbing it in — what a disgrace.', 'Listen to the boos — {agent} loves it.'],
+	taunt: ['{agent} takes a moment to pose.', '{agent} stops to play to the cameras.'],
+	comeback: ['{agent} is firing up!', 'Here comes {agent}! #crowd_alive#', '{agent} is feeding off this crowd!'],
+
+	// ── Finishers ──────────────────────────────────────────────────
+	finisher_start: [
+		'{attacker} is setting up the {move}! #tension#',
+		'Here it comes — the {move}!',
+		'{attacker} signals for the {move}! #tension#'
+	],
+	finisher_impact: [
+		'{move}! {move}! #exclaim#',
+		'{attacker} hits the {move}! #after_impact#',
+		'Right on the money with the {move}! #after_impact#'
+	],
+	finisher_counter: [
+		'No! {defender} counters the {move}!',
+		'{defender} escapes the {move}! #exclaim#',
+		'{attacker} went for the {move}, but {defender} wasn\'t having it!'
+	],
+
+	// ── Pins and submissions ───────────────────────────────────────
+	pin_start: ['Cover!', '{attacker} hooks the leg!', '{attacker} with the cover on {defender}!'],
+	pin_start_leverage: [
+		'{attacker} has the feet on the ropes! #outrage#',
+		'A handful of rope from {attacker}! #outrage#'
+	],
+	pin_kickout: ['{defender} kicks out at one.', 'Not even close — {defender} is out.', '{defender} kicks out early.'],
+	near_fall: [
+		'Two! {defender} kicked out at two and nine-tenths!',
+		'#exclaim# {defender} got the shoulder up!',
+		'So close! Kickout by {defender}!',
+		'How did {defender} kick out of that?!'
+	],
+	near_fall_finisher: [
+		'{defender} kicked out of the {move}! #exclaim#',
+		'They took the {move} and {defender} still kicked out!',
+		'I can\'t believe it! {defender} survives the {move}!'
+	],
+	submission_start: [
+		'{attacker} locks in the {move}!',
+		'{attacker} cinches in the {move}! #tap_tension#',
+		'The {move} is locked in — {defender} is in trouble!'
+	],
+	rope_break: ['{defender} gets to the ropes! The hold has to be broken!', 'Rope break! {defender} survives!'],
+	submission_escape: ['{defender} fights out of the hold!', '{defender} powers out of it!'],
+	hold_break_up: ['{agent} makes the save!', 'In comes {agent} to break it up!'],
+
+	// ── Ring movement and ringside ─────────────────────────────────
+	irish_whip: ['{attacker} whips {defender} into the {into}.', '{attacker} sends {defender} into the {into}.'],
+	climb: ['{agent} is going up top!', '{agent} heads to the top rope!', '{agent} is climbing — high-risk time!'],
+	knocked_off_top: ['{agent} gets knocked off the top!', '{agent} crashes down off the top rope!'],
+	roll_out: ['{agent} rolls out to the floor to regroup.', '{agent} needs a breather and bails to the outside.'],
+	throw_out: ['{attacker} tosses {agent} out to the floor!', 'Over the ropes goes {agent}!'],
+	dive: ['{agent} flies to the outside! #exclaim#', '{agent} takes to the air — over the top rope!', '{agent} launches to the floor!'],
+	ringside_entry: ['{agent} beats the count at {count}!', '{agent} slides back in at {count}!'],
+	outside_count: ['The count is at {count}!', '{count}! They need to get back in!'],
+	barricade_slam: ['{agent} goes crashing into the barricade!', 'Right into the steel barricade!'],
+	cage_slam: ['{agent} gets rammed into the steel!', 'Face first into the cage!'],
+	escape_climb: ['{agent} is climbing the cage!', '{agent} is trying to go up and over!'],
+	escape_door: ['{agent} is going for the door!', '{agent} crawls for the cage door!'],
+	escape_interrupted: ['{agent} is pulled back down!', 'Not so fast — {agent} won\'t get out that easy!'],
+
+	// ── Tags and the Rumble ────────────────────────────────────────
+	double_team: [
+		'{attacker} and {partner} with a double team {move}!',
+		'Teamwork! {attacker} and {partner} hit the {move} on {defender}!'
+	],
+	tag: ['{agent} tags in {partner}!', 'Here comes {partner} with the tag!'],
+	rumble_entry: ['Number {count} is {agent}!', 'Here comes entrant number {count} — it\'s {agent}!'],
+	elimination: ['{agent} is gone! {attacker} sends them over the top!', '{attacker} eliminates {agent}! {remaining} left!'],
+	skin_the_cat: ['{agent} hangs on! Skins the cat!', '#exclaim# {agent} is still in this!'],
+
+	// ── Falls and the finish ───────────────────────────────────────
+	fall: ['{winner} takes the fall by {method}! That\'s {score}.', '{winner} wins the fall! It\'s {score}.'],
+	sudden_death: ['We\'re going to sudden death! The next fall wins it all!'],
+	win_pinfall: ['One! Two! Three! {winner} wins it!', '{winner} gets the three count! It\'s over!'],
+	win_submission: ['{loser} taps! {winner} wins by submission!', 'It\'s over — {loser} had no choice but to tap!'],
+	win_knockout: ['{loser} can\'t answer! {winner} wins by knockout!', 'Lights out for {loser}! {winner} wins!'],
+	win_tko: ['The referee has seen enough! {winner} wins!', 'They\'re stopping it! {winner} wins by TKO!'],
+	win_countout: ['{loser} can\'t beat the count! {winner} wins by count-out!'],
+	win_dq: ['That\'s a disqualification! {winner} wins, but not the way anyone wanted.'],
+	win_timeout: ['There\'s the bell on the time limit — {winner} gets the decision!'],
+	win_falls: ['Time\'s up! {winner} takes it on falls!'],
+	win_elimination: ['{winner} is the last one standing! {winner} wins the Rumble!'],
+	win_escape: ['{winner} is out of the cage! {winner} wins!'],
+
+	// ── Color commentary ───────────────────────────────────────────
+	emotion_calm: ['{agent} has settled down.', '{agent} looks composed again.'],
+	emotion_dominating: ['{agent} is in complete control right now.', '{agent} is dictating the pace of this whole match.'],
+	emotion_frustrated: ['{agent} is getting frustrated — you can see it.', 'Nothing is going right for {agent}, and they know it.'],
+	emotion_panicking: ['{agent} looks rattled.', 'There\'s panic in {agent}\'s eyes.'],
+	emotion_desperate: ['{agent} is desperate now — anything goes.', '{agent} is running out of answers.'],
+	emotion_overconfident: ['{agent} is getting cocky. That could cost them.', 'Look at {agent} — celebrating already. Too soon.'],
+	emotion_clutch: ['This is when {agent} is at their best.', '{agent} has that look — big-match mode.'],
+	momentum_peak: ['{agent} has all the momentum.', 'Everything is going {agent}\'s way.'],
+	near_finish: ['{agent} is running on fumes!', '{agent} is hanging on by a thread!'],
+	lull_leader: ['{agent} has the upper hand so far.', '{agent} has had the better of the exchanges.'],
+	lull_even: ['Neither one has been able to pull away.', 'This one is dead even.', 'What a back-and-forth contest this has been.'],
+	lull_long: ['We\'re {minutes} minutes in and nobody is giving an inch.', '{minutes} minutes gone — the conditioning is showing.'],
+
+	// ── Callbacks ──────────────────────────────────────────────────
+	callback_finisher_kickouts: [
+		'That\'s {count} finishers {defender} has survived tonight!',
+		'{defender} has now kicked out of {count} finishers. Incredible heart.'
+	],
+	callback_near_falls: [
+		'That\'s near fall number {count} for {defender}. How much more can they take?',
+		'{count} near falls now, and {defender} keeps finding a way.'
+	],
+	callback_revenge: [
+		'{attacker} gives {defender} a taste of their own {move}!',
+		'Remember that {move} {defender} hit {ago}? {attacker} returns the favor!'
+	],
+	callback_reversal_repeat: [
+		'{defender} reversed the {move} again! They\'ve scouted it.',
+		'That\'s twice now {defender} has read the {move}!'
+	],
+	callback_comeback_again: [
+		'{agent} fights back again! They just won\'t stay down!',
+		'Another comeback from {agent}! Where does that come from?'
+	],
+	callback_dive_again: [
+		'{agent} to the floor again! They did it {ago} and they\'re doing it again!',
+		'{agent} goes to the air once more!'
+	],
+	callback_win_setup: [
+		'You have to think that {move} {ago} set all of this up.',
+		'{loser} never recovered from that {move} {ago}.'
+	],
+
+	// ── Crowd ──────────────────────────────────────────────────────
+	chant_this_is_awesome: ['Listen to them — "This is awesome!"', 'The fans are chanting "This is awesome," and who can argue?'],
+	chant_fight_forever: ['"Fight forever!" They never want this to end.', 'The crowd wants these two to fight forever!'],
+	chant_lets_go: ['"Let\'s go, {agent}!" The crowd is firmly behind them.', 'You can hear it — the fans are chanting for {agent}!'],
+	chant_you_suck: ['The fans let {agent} hear it!', '"You suck!" — I don\'t think {agent} cares one bit.'],
+	crowd_boo: ['The crowd is letting {agent} have it!', 'Boos raining down on {agent}!'],
+	crowd_hot: ['This crowd is on fire tonight!', 'The atmosphere in here is electric!'],
+	crowd_quiet: ['The crowd is waiting for something to happen.', 'It\'s gone a little quiet in here.']
+};
+
+/**
+ * Expand a rule into a line: pick an alternative, expand its `#rule#`
+ * references, fill its `{slot}`s and capitalize the result.
+ *
+ * With `lastPicks`, a rule never picks the same alternative twice in a
+ * row (the map remembers each rule's last pick between calls).
+ *
+ * Unknown rules and slots are left in the text as-is, so a gap in the
+ * grammar shows up in the commentary instead of silently vanishing.
+ */
+export function expandRule(
+	grammar: CommentaryGrammar,
+	rule: string,
+	slots: CommentarySlots,
+	rng: SeededRandom,
+	lastPicks?: Map<string, number>
+): string {
+	const text = expandSymbol(grammar, rule, rng, 0, lastPicks)
+		.replace(/\{(\w+)\}/g, (match, slot: string) => (slot in slots ? String(slots[slot]) : match));
+	// Nicknames come in lower-case mid-sentence ("the Steel Curtain"); every sentence starts with a capital
+	return text.replace(/(^|[.!?]\s+)([a-z])/g, (_match, lead: string, letter: string) => lead + letter.toUpperCase());
+}
+
+function expandSymbol(
+	grammar: CommentaryGrammar,
+	rule: string,
+	rng: SeededRandom,
+	depth: number,
+	lastPicks?: Map<string, number>
+): string {
+	const alternatives = grammar[rule];
+	if (!alternatives || alternatives.length === 0 || depth > MAX_EXPANSION_DEPTH) return `#${rule}#`;
+	let index = rng.int(0, alternatives.length - 1);
+	const last = lastPicks?.get(rule);
+	if (index === last && alternatives.length > 1) index = (index + 1 + rng.int(0, alternatives.length - 2)) % alternatives.length;
+	lastPicks?.set(rule, index);
+	return alternatives[index].replace(/#(\w+)#/g, (_match, inner: string) =>
+		expandSymbol(grammar, inner, rng, depth + 1, lastPicks)
+	);
+}
+
+export { MAX_EXPANSION_DEPTH };
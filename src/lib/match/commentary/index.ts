@@ -0,0 +1,673 @@
+import type { MatchState, MatchLogEntry } from '../engine/MatchState';
+import type { DramaSnapshot } from '../director/types';
+import type { MoveDef } from '../../combat/MoveRegistry';
+import type { MoveLibrary } from '../../combat/MovePackLoader';
+import type {
+	CommentaryConfig,
+	CommentaryKind,
+	CommentaryLine,
+	CommentaryPriority,
+	CommentarySlots
+} from './types';
+import { DEFAULT_COMMENTARY_CONFIG } from './types';
+import { COMMENTARY_GRAMMAR, expandRule } from './grammar';
+import { MovePackLoader } from '../../combat/MovePackLoader';
+import { CORE_MOVE_PACK } from '../../data/moves';
+import { SeededRandom } from '../../utils/random';
+
+/**
+ * Damage at which a regular hit gets the big call (the drama scorer's
+ * big hits always do).
+ */
+const HEAVY_HIT_DAMAGE = 12;
+
+/**
+ * Gap before a line, as a multiple of minGapTicks, by priority.
+ * Filler waits longest; can't-miss calls only wait urgentGapTicks.
+ */
+const GAP_SCALE: Record<CommentaryPriority, number> = { 0: 1.6, 1: 1, 2: 0.5, 3: 0 };
+
+/**
+ * Id prefix of the stand-in signature and finisher every wrestler without
+ * their own can use. They get calls that don't name the move.
+ */
+const GENERIC_MOVE_PREFIX = 'generic_';
+
+/**
+ * Window for repeat damping: a call loses a priority level for every line
+ * from the same source spoken in the last this-many ticks, so a run of
+ * finisher attempts or saves doesn't take over the broadcast.
+ */
+const REPEAT_WINDOW_TICKS = 600;
+
+/** Chance a wrestler is called by their nickname instead of their name. */
+const NICKNAME_CHANCE = 0.3;
+
+/** A kickout this soon after eating a finisher is a kickout from the finisher. */
+const FINISHER_KICKOUT_WINDOW_TICKS = 600;
+
+/** A finisher at least this old when the match ends gets the "set it all up" callback. */
+const WIN_SETUP_MIN_AGE_TICKS = 1800;
+
+/** Near falls on the same wrestler before the analyst starts counting them. */
+const NEAR_FALL_CALLBACK_COUNT = 3;
+
+/** The same wrestler's momentum gets a color line at most this often. */
+const MOMENTUM_CALL_INTERVAL_TICKS = 1800;
+
+/** Momentum lead over everyone else before "everything is going their way". */
+const MOMENTUM_CALL_LEAD = 20;
+
+/** Outside count from which the count and the roll back in get called. */
+const CALLED_COUNT = 6;
+
+/** Crowd pop above which a lull gets "this crowd is on fire", and below which "it's gone quiet". */
+const HOT_CROWD_POP = 70;
+const QUIET_CROWD_POP = 30;
+
+/** Health lead (fraction of max) for a lull to name who's ahead. */
+const LULL_LEAD_MARGIN = 0.2;
+
+/** Match time (seconds) after which a lull can remark on how long it's gone. */
+const LONG_MATCH_SECONDS = 480;
+
+const NUMBER_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'];
+const ORDINAL_WORDS = ['zeroth', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+/** Something worth saying, waiting for its turn on the air. */
+interface CommentaryCall {
+	rule: string;
+	kind: CommentaryKind;
+	priority: CommentaryPriority;
+	source: string;
+	/** When it happened (pacing and staleness are measured from here) */
+	tick: number;
+	/** Slots holding agent ids, resolved to a name or nickname when the line is spoken */
+	agents: Record<string, string>;
+	/** Every other slot */
+	slots: CommentarySlots;
+	/** A callback the analyst adds once this call has been made */
+	followUp?: CommentaryCall;
+}
+
+/** A finisher someone took, for callbacks. */
+interface FinisherMemory {
+	moveId: string;
+	tick: number;
+	/** Already kicked out of (only the first kickout after a finisher counts) */
+	survived: boolean;
+}
+
+/** Builds a call stamped with the log entry it came from. */
+type CallFactory = (
+	rule: string,
+	kind: CommentaryKind,
+	priority: CommentaryPriority,
+	agents?: Record<string, string>,
+	slots?: CommentarySlots
+) => CommentaryCall;
+
+/** Core move library, built on first use (move names when the config brings none). */
+let coreMoveLibrary: MoveLibrary | null = null;
+
+function coreMoves(): MoveLibrary {
+	coreMoveLibrary ??= MovePackLoader.load([CORE_MOVE_PACK]);
+	return coreMoveLibrary;
+}
+
+/**
+ * CommentaryEngine — the two-person commentary team.
+ *
+ * Reads new MatchState.log entries (and the director's drama events) every
+ * tick and turns them into lines from the template grammar:
+ *   - Play-by-play for moves, pins, submissions, ringside and the finish
+ *   - Color commentary on emotion changes, momentum, near-finishes and lulls
+ *   - Callbacks to earlier moments: finishers survived, near falls piling
+ *     up, a move returned to its owner, the finisher that set up the win
+ *   - Crowd calls for chants and boos
+ *
+ * Pacing keeps it listenable. At most one line is waiting at a time and
+ * a bigger call bumps a smaller one; each line waits minGapTicks (scaled
+ * by GAP_SCALE) after the last, and a call that waits longer than
+ * staleTicks is dropped. Calls of a kind that's just been made lose
+ * priority (REPEAT_WINDOW_TICKS). Hits inside a combo aren't called one
+ * by one; the combo gets one call when it completes or breaks.
+ *
+ * Template picks and nickname use come from a SeededRandom, so the same
+ * match gets the same commentary. Like the director, it never modifies
+ * MatchState.
+ */
+export class CommentaryEngine {
+	private readonly config: CommentaryConfig;
+	private readonly rng: SeededRandom;
+	private readonly moveLibrary: MoveLibrary;
+	private readonly history: CommentaryLine[] = [];
+	/** Each grammar rule's last pick, so no call comes out the same twice running */
+	private readonly lastPicks = new Map<string, number>();
+	private logCursor = 0;
+	private pending: CommentaryCall | null = null;
+	private lastLineTick = 0;
+
+	// ── Match memory ──
+	private readonly activeCombos = new Set<string>();
+	/** Finishers each wrestler has taken */
+	private readonly finishersTaken = new Map<string, FinisherMemory[]>();
+	/** The finisher each wrestler last went for */
+	private readonly finisherAttempts = new Map<string, string>();
+	private readonly finisherKickouts = new Map<string, number>();
+	private readonly nearFalls = new Map<string, number>();
+	private readonly comebacks = new Map<string, number>();
+	/** When each wrestler last dove to the floor */
+	private readonly dives = new Map<string, number>();
+	/** Big moves by `attacker|defender|move`, for turning one back on its owner */
+	private readonly bigMoves = new Map<string, number>();
+	/** Reversal counts by `reverser|move` */
+	private readonly reversals = new Map<string, number>();
+	private readonly nearFinishCalled = new Set<string>();
+	private readonly momentumCalls = new Map<string, number>();
+
+	constructor(config: Partial<CommentaryConfig> = {}) {
+		this.config = { ...DEFAULT_COMMENTARY_CONFIG, ...config };
+		this.rng = new SeededRandom(this.config.seed);
+		this.moveLibrary = this.config.moves ?? coreMoves();
+	}
+
+	/** Lines spoken so far, oldest first (the last historySize). */
+	get lines(): readonly CommentaryLine[] {
+		return this.history;
+	}
+
+	/**
+	 * Called once per simulation tick, after the director. Returns the
+	 * lines spoken this tick — usually none, at most one while the match
+	 * is on, and whatever is still waiting once it's over.
+	 * MUST NOT mutate the state parameter.
+	 */
+	update(state: MatchState, drama: DramaSnapshot | null = null): CommentaryLine[] {
+		const bigHits = new Set<string>();
+		if (drama) this.readDrama(state, drama, bigHits);
+
+		for (let i = this.logCursor; i < state.log.length; i++) {
+			const entry = state.log[i];
+			const call = this.readEntry(state, entry, bigHits);
+			// Entries from before a seek only feed the memory
+			if (call && entry.tick >= state.tick - this.config.staleTicks) this.offer(call);
+		}
+		this.logCursor = state.log.length;
+
+		const spoken: CommentaryLine[] = [];
+
+		// The match is over: nobody's waiting for a gap any more
+		if (state.result) {
+			while (this.pending) spoken.push(this.speak(state, this.pending));
+			return spoken;
+		}
+
+		if (this.pending && state.tick - this.pending.tick > this.config.staleTicks) this.pending = null;
+		if (!this.pending && state.tick - this.lastLineTick >= this.config.lullTicks) this.fillLull(state);
+
+		if (this.pending && state.tick - this.lastLineTick >= this.gapFor(this.pending.priority)) {
+			spoken.push(this.speak(state, this.pending));
+		}
+		return spoken;
+	}
+
+	dispose(): void {
+		this.pending = null;
+		this.history.length = 0;
+	}
+
+	// ─── Pacing ─────────────────────────────────────────────────────
+
+	/** Queue a call if it's at least as big as the one already waiting (the newer one wins ties). */
+	private offer(call: CommentaryCall): void {
+		const repeats = this.history.filter((l) => l.source === call.source && l.tick >= call.tick - REPEAT_WINDOW_TICKS).length;
+		const damped = { ...call, priority: Math.max(0, call.priority - repeats) as CommentaryPriority };
+		if (!this.pending || damped.priority >= this.pending.priority) this.pending = damped;
+	}
+
+	private gapFor(priority: CommentaryPriority): number {
+		return Math.max(this.config.urgentGapTicks, this.config.minGapTicks * GAP_SCALE[priority]);
+	}
+
+	/** Say the waiting call; its callback, if any, waits next in line. */
+	private speak(state: MatchState, call: CommentaryCall): CommentaryLine {
+		const slots: CommentarySlots = { ...call.slots };
+		for (const [slot, agentId] of Object.entries(call.agents)) slots[slot] = this.nameOf(state, agentId);
+		const line: CommentaryLine = {
+			tick: state.tick,
+			elapsed: state.elapsed,
+			kind: call.kind,
+			priority: call.priority,
+			text: expandRule(COMMENTARY_GRAMMAR, call.rule, slots, this.rng, this.lastPicks),
+			source: call.source
+		};
+		this.history.push(line);
+		if (this.history.length > this.config.historySize) this.history.shift();
+		this.lastLineTick = state.tick;
+		this.pending = call.followUp ? { ...call.followUp, tick: state.tick } : null;
+		return line;
+	}
+
+	/** Nothing's happened in a while: the analyst talks about the match as a whole. */
+	private fillLull(state: MatchState): void {
+		if (state.hold || state.escape) return;
+		const options: CommentaryCall[] = [];
+		const source = 'lull';
+		if (state.agents.length === 2) {
+			const [a, b] = state.agents;
+			const lead = a.health / a.maxHealth - b.health / b.maxHealth;
+			if (Math.abs(lead) >= LULL_LEAD_MARGIN) {
+				options.push(this.call('lull_leader', 'color', 0, source, state.tick, { agent: lead > 0 ? a.id : b.id }));
+			} else {
+				options.push(this.call('lull_even', 'color', 0, source, state.tick));
+			}
+		}
+		if (state.elapsed >= LONG_MATCH_SECONDS) {
+			options.push(this.call('lull_long', 'color', 0, source, state.tick, {}, { minutes: Math.floor(state.elapsed / 60) }));
+		}
+		if (state.crowd.pop >= HOT_CROWD_POP) options.push(this.call('crowd_hot', 'crowd', 0, source, state.tick));
+		if (state.crowd.pop <= QUIET_CROWD_POP) options.push(this.call('crowd_quiet', 'crowd', 0, source, state.tick));
+		if (options.length > 0) this.pending = this.rng.pick(options);
+	}
+
+	// ─── Reading the match ──────────────────────────────────────────
+
+	/** Drama events the log alone doesn't give: big hits, near-finishes, momentum peaks. */
+	private readDrama(state: MatchState, drama: DramaSnapshot, bigHits: Set<string>): void {
+		for (const event of drama.events) {
+			switch (event.type) {
+				case 'big_hit':
+					bigHits.add(`${event.agentId}|${event.moveId}`);
+					break;
+				case 'near_finish':
+					// Scored every tick while it holds: called once a fall
+					if (this.nearFinishCalled.has(event.agentId)) break;
+					this.nearFinishCalled.add(event.agentId);
+					this.offer(this.call('near_finish', 'color', 1, event.type, drama.tick, { agent: event.agentId }));
+					break;
+				case 'momentum_peak': {
+					// Both riding high isn't anyone's momentum
+					const lead = state.agents.every((a) => a.id === event.agentId || event.momentum - a.momentum >= MOMENTUM_CALL_LEAD);
+					const last = this.momentumCalls.get(event.agentId);
+					if (!lead || (last !== undefined && drama.tick - last < MOMENTUM_CALL_INTERVAL_TICKS)) break;
+					this.momentumCalls.set(event.agentId, drama.tick);
+					this.offer(this.call('momentum_peak', 'color', 1, event.type, drama.tick, { agent: event.agentId }));
+					break;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Remember what a log entry means for later callbacks and work out
+	 * what, if anything, the team says about it.
+	 */
+	private readEntry(state: MatchState, entry: MatchLogEntry, bigHits: Set<string>): CommentaryCall | null {
+		const d = entry.data;
+		const id = (key: string): string => (typeof d[key] === 'string' ? d[key] as string : '');
+		const num = (key: string): number => (typeof d[key] === 'number' ? d[key] as number : 0);
+		const call: CallFactory = (rule, kind, priority, agents = {}, slots = {}) =>
+			this.call(rule, kind, priority, entry.type, entry.tick, agents, slots);
+
+		switch (entry.type) {
+			case 'move_hit': {
+				const attackerId = id('attackerId');
+				const defenderId = id('defenderId');
+				const moveId = id('moveId');
+				const move = this.moveDef(moveId);
+				const generic = moveId.startsWith(GENERIC_MOVE_PREFIX);
+				// Named finishers get their call from finisher_impact
+				if (move?.category === 'finisher' && !generic) return null;
+				const special = move?.category === 'signature' || move?.category === 'finisher';
+				const heavy = bigHits.has(`${attackerId}|${moveId}`) || num('damage') >= HEAVY_HIT_DAMAGE;
+				const fighters = { attacker: attackerId, defender: defenderId };
+				const slots = { move: this.moveName(moveId) };
+				if ((special || heavy) && !generic) {
+					const owned = `${defenderId}|${attackerId}|${moveId}`;
+					const returned = this.bigMoves.get(owned);
+					if (returned !== undefined) {
+						this.bigMoves.delete(owned);
+						return call('callback_revenge', 'callback', 2, fighters, { ...slots, ago: this.ago(entry.tick - returned) });
+					}
+					this.bigMoves.set(`${attackerId}|${defenderId}|${moveId}`, entry.tick);
+				}
+				// Combo hits wait for the combo's call
+				if (this.activeCombos.has(attackerId)) return null;
+				if (generic && special) {
+					const rule = move?.category === 'finisher' ? 'move_hit_finisher_generic' : 'move_hit_signature_generic';
+					return call(rule, 'play_by_play', 2, fighters);
+				}
+				if (special) return call('move_hit_signature', 'play_by_play', 2, fighters, slots);
+				if (heavy) return call('move_hit_heavy', 'play_by_play', 2, fighters, slots);
+				return call('move_hit', 'play_by_play', 0, fighters, slots);
+			}
+
+			case 'reversal': {
+				const reverserId = id('defenderId');
+				const moveId = id('moveId');
+				const key = `${reverserId}|${moveId}`;
+				const fighters = { attacker: id('attackerId'), defender: reverserId };
+				const slots = { move: this.moveName(moveId) };
+				const count = (this.reversals.get(key) ?? 0) + 1;
+				this.reversals.set(key, count);
+				return count === 2
+					? call('callback_reversal_repeat', 'callback', 2, fighters, slots)
+					: call('reversal', 'play_by_play', 1, fighters, slots);
+			}
+
+			case 'mistake':
+				return call('mistake', 'play_by_play', 1, { agent: id('agentId') }, { move: this.moveName(id('moveId')) });
+
+			case 'knockdown': {
+				const count = num('knockdownCount');
+				return count >= 3
+					? call('knockdown_repeat', 'play_by_play', 1, { agent: id('agentId') }, { count: this.ordinal(count) })
+					: call('knockdown', 'play_by_play', 1, { agent: id('agentId') });
+			}
+
+			case 'combo_start':
+				this.activeCombos.add(id('agentId'));
+				return null;
+
+			case 'combo_complete': {
+				const agentId = id('agentId');
+				this.activeCombos.delete(agentId);
+				const combo = this.moveLibrary.combos.get(id('comboId'))?.name ?? this.humanize(id('comboId'));
+				return call(d.finisherUnlocked ? 'combo_complete_unlock' : 'combo_complete', 'play_by_play', 2,
+					{ agent: agentId }, { hits: this.numberWord(num('totalHits')), combo });
+			}
+
+			case 'combo_break': {
+				const agentId = id('agentId');
+				this.activeCombos.delete(agentId);
+				const hits = num('hitsLanded');
+				return hits >= 2 ? call('combo_break', 'play_by_play', 1, { agent: agentId }, { hits: this.numberWord(hits) }) : null;
+			}
+
+			case 'taunt': {
+				const agentId = id('agentId');
+				const alignment = state.agents.find((a) => a.id === agentId)?.alignment;
+				const rule = alignment === 'face' ? 'taunt_face' : alignment === 'heel' ? 'taunt_heel' : 'taunt';
+				return call(rule, 'color', 0, { agent: agentId });
+			}
+
+			case 'comeback': {
+				const agentId = id('agentId');
+				const count = (this.comebacks.get(agentId) ?? 0) + 1;
+				this.comebacks.set(agentId, count);
+				return count >= 2
+					? call('callback_comeback_again', 'callback', 2, { agent: agentId })
+					: call('comeback', 'play_by_play', 2, { agent: agentId });
+			}
+
+			case 'emotion_change':
+				return call(`emotion_${id('to')}`, 'color', id('to') === 'calm' ? 0 : 1, { agent: id('agentId') });
+
+			// ── Finishers ──
+			case 'finisher_start':
+				this.finisherAttempts.set(id('attackerId'), id('moveId'));
+				return call('finisher_start', 'play_by_play', 3,
+					{ attacker: id('attackerId'), defender: id('defenderId') },
+					{ move: typeof d.moveName === 'string' ? d.moveName : this.moveName(id('moveId')) });
+
+			case 'finisher_impact': {
+				const defenderId = id('defenderId');
+				const taken = this.finishersTaken.get(defenderId) ?? [];
+				this.finishersTaken.set(defenderId, [...taken, { moveId: id('moveId'), tick: entry.tick, survived: false }]);
+				return call('finisher_impact', 'play_by_play', 3,
+					{ attacker: id('attackerId'), defender: defenderId }, { move: this.moveName(id('moveId')) });
+			}
+
+			case 'finisher_counter': {
+				const attackerId = id('attackerId');
+				const moveId = id('moveId') || (this.finisherAttempts.get(attackerId) ?? '');
+				return call('finisher_counter', 'play_by_play', 3,
+					{ attacker: attackerId, defender: id('defenderId') }, { move: this.moveName(moveId) });
+			}
+
+			// ── Pins and submissions ──
+			case 'pin_start':
+				return d.leverage
+					? call('pin_start_leverage', 'play_by_play', 2, { attacker: id('attackerId'), defender: id('defenderId') })
+					: call('pin_start', 'play_by_play', 1, { attacker: id('attackerId'), defender: id('defenderId') });
+
+			case 'pin_kickout':
+				return this.readKickout(entry, id('defenderId'), num('count'), d.nearFall === true, call);
+
+			case 'submission_start':
+				return call('submission_start', 'play_by_play', 2,
+					{ attacker: id('attackerId'), defender: id('defenderId') }, { move: this.moveName(id('moveId')) });
+
+			case 'rope_break':
+			case 'submission_escape':
+				return call(entry.type, 'play_by_play', 1, { attacker: id('attackerId'), defender: id('defenderId') });
+
+			case 'hold_break_up':
+				return call('hold_break_up', 'play_by_play', 2, { agent: id('breakerId') });
+
+			// ── Ring movement and ringside ──
+			case 'irish_whip':
+				return call('irish_whip', 'play_by_play', 0,
+					{ attacker: id('attackerId'), defender: id('defenderId') }, { into: id('into') });
+
+			case 'climb':
+				return call('climb', 'play_by_play', 1, { agent: id('agentId') });
+
+			case 'knocked_off_top':
+				return call('knocked_off_top', 'play_by_play', 2, { agent: id('agentId') });
+
+			case 'ringside_exit': {
+				const agentId = id('agentId');
+				if (d.how === 'thrown') return call('throw_out', 'play_by_play', 1, { agent: agentId, attacker: id('byId') });
+				if (d.how !== 'dive') return call('roll_out', 'play_by_play', 0, { agent: agentId });
+				const lastDive = this.dives.get(agentId);
+				this.dives.set(agentId, entry.tick);
+				return lastDive !== undefined
+					? call('callback_dive_again', 'callback', 2, { agent: agentId }, { ago: this.ago(entry.tick - lastDive) })
+					: call('dive', 'play_by_play', 2, { agent: agentId });
+			}
+
+			case 'ringside_entry':
+				return num('count') >= CALLED_COUNT
+					? call('ringside_entry', 'play_by_play', 1, { agent: id('agentId') }, { count: this.numberWord(num('count')) })
+					: null;
+
+			case 'outside_count':
+				return num('count') >= CALLED_COUNT
+					? call('outside_count', 'play_by_play', 1, {}, { count: this.numberWord(num('count')) })
+					: null;
+
+			case 'barricade_slam':
+			case 'cage_slam':
+				return call(entry.type, 'play_by_play', 1, { agent: id('agentId') });
+
+			case 'escape_start':
+				return call(d.method === 'climb' ? 'escape_climb' : 'escape_door', 'play_by_play', 2, { agent: id('agentId') });
+
+			case 'escape_interrupted':
+				return call('escape_interrupted', 'play_by_play', 2, { agent: id('agentId') });
+
+			// ── Tags and the Rumble ──
+			case 'double_team': {
+				const attackerIds = Array.isArray(d.attackerIds) ? d.attackerIds as string[] : [];
+				if (attackerIds.length < 2) return null;
+				return call('double_team', 'play_by_play', 2,
+					{ attacker: attackerIds[0], partner: attackerIds[1], defender: id('defenderId') },
+					{ move: this.moveName(id('moveId')) });
+			}
+
+			case 'tag':
+				return call('tag', 'play_by_play', 1, { agent: id('fromId'), partner: id('toId') });
+
+			case 'rumble_entry':
+				return call('rumble_entry', 'play_by_play', 2, { agent: id('agentId') }, { count: num('entryNumber') });
+
+			case 'elimination':
+				return call('elimination', 'play_by_play', 2,
+					{ agent: id('agentId'), attacker: id('eliminatorId') }, { remaining: this.numberWord(num('remaining')) });
+
+			case 'skin_the_cat':
+				return call('skin_the_cat', 'play_by_play', 2, { agent: id('agentId') });
+
+			// ── Falls and the finish ──
+			case 'fall': {
+				const falls = (d.falls ?? {}) as Record<string, number>;
+				const score = state.agents.map((a) => falls[a.id] ?? 0).join('-');
+				return call('fall', 'play_by_play', 2,
+					{ winner: id('winnerId'), loser: id('loserId') }, { method: id('method'), score });
+			}
+
+			case 'next_fall':
+				this.nearFinishCalled.clear();
+				return null;
+
+			case 'sudden_death':
+				return call('sudden_death', 'play_by_play', 3);
+
+			case 'match_end': {
+				const loserId = id('loserId');
+				const fighters = { winner: id('winnerId'), loser: loserId };
+				const win = call(`win_${id('method')}`, 'play_by_play', 3, fighters);
+				const setup = this.finishersTaken.get(loserId)?.[0];
+				if (setup && entry.tick - setup.tick >= WIN_SETUP_MIN_AGE_TICKS) {
+					win.followUp = call('callback_win_setup', 'callback', 2, fighters,
+						{ move: this.moveName(setup.moveId), ago: this.ago(entry.tick - setup.tick) });
+				}
+				return win;
+			}
+
+			// ── Crowd ──
+			case 'crowd_chant':
+				return call(`chant_${id('kind')}`, 'crowd', 1, d.agentId ? { agent: id('agentId') } : {});
+
+			case 'crowd_pop':
+				// Cheers ride along with the call of the move; boos are for cheating
+				return d.reaction === 'boo' && d.agentId ? call('crowd_boo', 'crowd', 1, { agent: id('agentId') }) : null;
+
+			default:
+				return null;
+		}
+	}
+
+	/** A kickout: from a finisher, a near fall, or barely worth a mention. */
+	private readKickout(
+		entry: MatchLogEntry,
+		defenderId: string,
+		count: number,
+		nearFall: boolean,
+		call: CallFactory
+	): CommentaryCall | null {
+		const taken = this.finishersTaken.get(defenderId) ?? [];
+		const lastFinisher = taken[taken.length - 1];
+		const fighters = { attacker: String(entry.data.attackerId ?? ''), defender: defenderId };
+
+		if (lastFinisher && !lastFinisher.survived && entry.tick - lastFinisher.tick <= FINISHER_KICKOUT_WINDOW_TICKS) {
+			const kickouts = (this.finisherKickouts.get(defenderId) ?? 0) + 1;
+			this.finisherKickouts.set(defenderId, kickouts);
+			lastFinisher.survived = true;
+			const kickout = call('near_fall_finisher', 'play_by_play', 3, fighters, { move: this.moveName(lastFinisher.moveId) });
+			if (kickouts >= 2) {
+				kickout.followUp = call('callback_finisher_kickouts', 'callback', 2, fighters, { count: this.numberWord(kickouts) });
+			}
+			return kickout;
+		}
+
+		if (nearFall) {
+			const nearFalls = (this.nearFalls.get(defenderId) ?? 0) + 1;
+			this.nearFalls.set(defenderId, nearFalls);
+			const kickout = call('near_fall', 'play_by_play', 2, fighters);
+			if (nearFalls >= NEAR_FALL_CALLBACK_COUNT) {
+				kickout.followUp = call('callback_near_falls', 'callback', 2, fighters, { count: this.numberWord(nearFalls) });
+			}
+			return kickout;
+		}
+
+		return count <= 1 ? call('pin_kickout', 'play_by_play', 0, fighters) : null;
+	}
+
+	// ─── Words ──────────────────────────────────────────────────────
+
+	private call(
+		rule: string,
+		kind: CommentaryKind,
+		priority: CommentaryPriority,
+		source: string,
+		tick: number,
+		agents: Record<string, string> = {},
+		slots: CommentarySlots = {}
+	): CommentaryCall {
+		return { rule, kind, priority, source, tick, agents, slots };
+	}
+
+	/** A wrestler's name, or now and then their nickname ("the" lower-cased for mid-sentence). */
+	private nameOf(state: MatchState, agentId: string): string {
+		const name = state.agents.find((a) => a.id === agentId)?.name ?? agentId;
+		const nickname = this.config.nicknames[agentId];
+		if (!nickname || !this.rng.chance(NICKNAME_CHANCE)) return name;
+		return nickname.replace(/^The /, 'the ');
+	}
+
+	private moveDef(moveId: string): MoveDef | undefined {
+		return this.moveLibrary.moves.get(moveId) ?? this.moveLibrary.finishers.findSpecial(moveId);
+	}
+
+	/** A move's display name; the generic specials are just "signature move" and "finisher". */
+	private moveName(moveId: string): string {
+		const name = this.moveDef(moveId)?.name;
+		if (!name) return this.humanize(moveId);
+		return moveId.startsWith(GENERIC_MOVE_PREFIX) ? name.toLowerCase() : name;
+	}
+
+	/** 'flying_elbow' → 'Flying Elbow', for moves outside the library. */
+	private humanize(id: string): string {
+		return id.split('_').filter(Boolean).map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+	}
+
+	private numberWord(n: number): string {
+		return NUMBER_WORDS[n] ?? String(n);
+	}
+
+	private ordinal(n: number): string {
+		return ORDINAL_WORDS[n] ?? `${n}th`;
+	}
+
+	/** How long ago something was, the way a commentator says it. */
+	private ago(ticks: number): string {
+		const seconds = ticks / 60;
+		if (seconds < 60) return 'moments ago';
+		if (seconds < 120) return 'a minute ago';
+		return `${Math.round(seconds / 60)} minutes ago`;
+	}
+}
+
+// ─── Re-exports ──────────────────────────────────────────────────────
+
+export { COMMENTARY_GRAMMAR, expandRule } from './grammar';
+export { DEFAULT_COMMENTARY_CONFIG } from './types';
+export type {
+	CommentaryConfig,
+	CommentaryKind,
+	CommentaryLine,
+	CommentaryPriority,
+	CommentaryGrammar,
+	CommentarySlots
+} from './types';
+
+export {
+	HEAVY_HIT_DAMAGE,
+	GAP_SCALE,
+	GENERIC_MOVE_PREFIX,
+	REPEAT_WINDOW_TICKS,
+	NICKNAME_CHANCE,
+	FINISHER_KICKOUT_WINDOW_TICKS,
+	WIN_SETUP_MIN_AGE_TICKS,
+	NEAR_FALL_CALLBACK_COUNT,
+	MOMENTUM_CALL_INTERVAL_TICKS,
+	MOMENTUM_CALL_LEAD,
+	CALLED_COUNT,
+	HOT_CROWD_POP,
+	QUIET_CROWD_POP,
+	LULL_LEAD_MARGIN,
+	LONG_MATCH_SECONDS
+};
@@ -0,0 +1,80 @@
+/**
+ * Match Commentary — Type Definitions
+ *
+ * The commentary engine reads MatchState.log and the director's drama
+ * events (read-only) and turns them into CommentaryLine objects for the
+ * commentary overlay. Like the director, it never touches the state.
+ */
+
+import type { MoveLibrary } from '../../combat/MovePackLoader';
+
+// ─── Configuration ──────────────────────────────────────────────────
+
+export interface CommentaryConfig {
+	/** SeededRandom seed for deterministic template choices */
+	seed: number;
+	/** Wrestler nicknames by agent id (from roster.json). Wrestlers without one go by name. */
+	nicknames: Record<string, string>;
+	/** Move names come from here; the core move pack is loaded when it's left out */
+	moves: MoveLibrary | null;
+	/** Minimum ticks between two lines */
+	minGapTicks: number;
+	/** Minimum ticks between two lines when the second one can't wait (finishers, falls) */
+	urgentGapTicks: number;
+	/** Ticks a call can wait for its turn before it's stale and dropped */
+	staleTicks: number;
+	/** Ticks of silence after which the color commentator fills in */
+	lullTicks: number;
+	/** Lines kept in history */
+	historySize: number;
+}
+
+export const DEFAULT_COMMENTARY_CONFIG: CommentaryConfig = {
+	seed: 12345,
+	nicknames: {},
+	moves: null,
+	minGapTicks: 150,
+	urgentGapTicks: 30,
+	staleTicks: 45,
+	lullTicks: 420,
+	historySize: 40
+};
+
+// ─── Lines ──────────────────────────────────────────────────────────
+
+/**
+ * Who is talking and why:
+ *   - 'play_by_play': the call of what just happened
+ *   - 'color':        the analyst on emotions, momentum and the story
+ *   - 'callback':     the analyst tying a moment to something earlier in the match
+ *   - 'crowd':        the call of a crowd reaction or chant
+ */
+export type CommentaryKind = 'play_by_play' | 'color' | 'callback' | 'crowd';
+
+/**
+ * How badly a call wants the air:
+ *   0 = filler, 1 = routine, 2 = big moment, 3 = can't be missed
+ */
+export type CommentaryPriority = 0 | 1 | 2 | 3;
+
+export interface CommentaryLine {
+	tick: number;
+	/** Match time in seconds */
+	elapsed: number;
+	kind: CommentaryKind;
+	priority: CommentaryPriority;
+	text: string;
+	/** The log entry or drama event type the line came from */
+	source: string;
+}
+
+// ─── Grammar ────────────────────────────────────────────────────────
+
+/**
+ * A template grammar: rule name → alternatives.
+ * `#rule#` expands another rule; `{slot}` is filled from the call's slots.
+ */
+export type CommentaryGrammar = Record<string, string[]>;
+
+/** Slot values for one expansion ({attacker}, {move}, ...). */
+export type CommentarySlots = Record<string, string | number>;
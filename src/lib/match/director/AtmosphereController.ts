@@ -14,6 +14,10 @@ const RING_HEIGHT = 1.2;
 /** Ticks between atmosphere updates (don't spam every tick). */
 const ATMOSPHERE_UPDATE_INTERVAL = 30;
 
+/** Crowd pop range that lifts the titantron from its resting glow to full. */
+const CROWD_POP_QUIET = 35;
+const CROWD_POP_LOUD = 100;
+
 /**
  * AtmosphereController — generates lighting and VFX cues from tension.
  *
@@ -24,6 +28,8 @@ const ATMOSPHERE_UPDATE_INTERVAL = 30;
  *   Tension 0.8–1.0: Peak (exposure 1.8, spots narrow, fog thins)
  *   Comeback:         Red burst (exposure 2.0 for 30 ticks)
  *   Match end:        Flash white (exposure 3.0 for 5 ticks)
+ *   Crowd:            A loud crowd keeps the titantron up whatever the
+ *                     tension; a chant pulses it to full
  *
  * VFX EVENTS:
  *   big_hit      → impact + flash at contact point
@@ -38,6 +44,8 @@ export class AtmosphereController {
 	private targetFogDensity = 0.025;
 	private ticksSinceAtmosphereUpdate = 0;
 	private flashCooldown = 0;
+	/** Last crowd chant pulsed (so each chant pulses once). */
+	private lastChantTick = -1;
 
 	/**
 	 * Called every tick with the current drama snapshot.
@@ -94,6 +102,18 @@ export class AtmosphereController {
 			}
 		}
 
+		// The crowd breaking into a chant pulses the titantron
+		const chantStarted = state.crowd.lastChantTick > this.lastChantTick;
+		this.lastChantTick = state.crowd.lastChantTick;
+		if (!atmosphereOverride && chantStarted && this.flashCooldown <= 0) {
+			atmosphereOverride = {
+				type: 'atmosphere',
+				titantronIntensity: 1.0,
+				transitionTicks: 20
+			};
+			this.targetTitantronIntensity = 1.0;
+		}
+
 		if (atmosphereOverride) {
 			this.ticksSinceAtmosphereUpdate = 0;
 			return { atmosphere: atmosphereOverride, vfx };
@@ -105,13 +125,13 @@ export class AtmosphereController {
 		}
 
 		this.ticksSinceAtmosphereUpdate = 0;
-		const atmosphere = this.computeAtmosphereForTension(drama.tension);
+		const atmosphere = this.computeAtmosphereForTension(drama.tension, state.crowd.pop);
 		return { atmosphere, vfx };
 	}
 
 	// ─── Tension → Atmosphere ────────────────────────────────────────
 
-	private computeAtmosphereForTension(tension: number): AtmosphereCue {
+	private computeAtmosphereForTension(tension: number, crowdPop: number): AtmosphereCue {
 		let exposure: number;
 		let spotIntensity: number;
 		let titantronIntensity: number;
@@ -143,10 +163,17 @@ export class AtmosphereController {
 			fogDensity = lerp(0.018, 0.012, remap(tension, 0.8, 1.0, 0, 1));
 		}
 
+		// A loud crowd lights up the titantron even in a lull
+		titantronIntensity = Math.max(
+			titantronIntensity,
+			remap(crowdPop, CROWD_POP_QUIET, CROWD_POP_LOUD, 0.4, 1.0)
+		);
+
 		// Only emit if values changed significantly
 		const changed =
 			Math.abs(exposure - this.targetExposure) > 0.05 ||
-			Math.abs(spotIntensity - this.targetSpotIntensity) > 0.05;
+			Math.abs(spotIntensity - this.targetSpotIntensity) > 0.05 ||
+			Math.abs(titantronIntensity - this.targetTitantronIntensity) > 0.05;
 
 		if (!changed) return {
 			type: 'atmosphere',
@@ -177,10 +204,10 @@ export class AtmosphereController {
 			switch (event.type) {
 				case 'big_hit': {
 					const target = this.getAgentPosition(event.agentId, state);
-					// Impact at the defender's position (opponent)
-					const opponent = state.agents.find((a) => a.id !== event.agentId);
+					// Impact at the defender's position
+					const opponent = state.agents.find((a) => a.id === event.defenderId);
 					const defenderPos: [number, number, number] = opponent
-						? [opponent.positionX, RING_HEIGHT + opponent.height * 0.5, 0]
+						? [opponent.positionX, RING_HEIGHT + opponent.height * 0.5, opponent.positionZ]
 						: target;
 
 					vfx.push({
@@ -262,10 +289,9 @@ export class AtmosphereController {
 
 				case 'finisher_impact': {
 					// Max intensity impact + flash + dust + sparks
-					const attackerId = event.attackerId;
-					const opponent = state.agents.find((a) => a.id !== attackerId);
+					const opponent = state.agents.find((a) => a.id === event.defenderId);
 					const impactPos: [number, number, number] = opponent
-						? [opponent.positionX, RING_HEIGHT + opponent.height * 0.5, 0]
+						? [opponent.positionX, RING_HEIGHT + opponent.height * 0.5, opponent.positionZ]
 						: [0, RING_HEIGHT + 0.8, 0];
 
 					vfx.push({
@@ -321,6 +347,6 @@ export class AtmosphereController {
 	private getAgentPosition(agentId: string, state: MatchState): [number, number, number] {
 		const agent = state.agents.find((a) => a.id === agentId);
 		if (!agent) return [0, RING_HEIGHT + 0.8, 0];
-		return [agent.positionX, RING_HEIGHT + agent.height * 0.5, 0];
+		return [agent.positionX, RING_HEIGHT + agent.height * 0.5, agent.positionZ];
 	}
 }
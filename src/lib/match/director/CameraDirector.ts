@@ -1,4 +1,4 @@
-import type { MatchState } from '../engine/MatchState';
+import type { AgentState, MatchState } from '../engine/MatchState';
 import type {
 	DramaSnapshot,
 	DramaEvent,
@@ -11,6 +11,17 @@ import { clamp } from '../../utils/math';
 /** Ring height constant for focal point calculations. */
 const RING_HEIGHT = 0.3;
 
+/**
+ * Fighters the camera frames: whoever is in the ring, or the brawl on the
+ * floor when nobody is (tag partners on the apron are left out).
+ */
+function framedAgents(state: MatchState): AgentState[] {
+	const inRing = state.agents.filter((a) => a.location === 'ring');
+	if (inRing.length > 0) return inRing;
+	const onFloor = state.agents.filter((a) => a.location === 'floor');
+	return onFloor.length > 0 ? onFloor : state.agents;
+}
+
 /**
  * CameraDirector — converts drama snapshots and events into camera cues.
  *
@@ -264,12 +275,10 @@ export class CameraDirector {
 
 			case 'closeup':
 			case 'over_shoulder': {
-				// Focus on the more dramatic agent (lower health or higher momentum)
-				const [a, b] = state.agents;
-				const dramaA = (1 - a.health / a.maxHealth) + a.momentum / 100;
-				const dramaB = (1 - b.health / b.maxHealth) + b.momentum / 100;
-				const agent = dramaA >= dramaB ? a : b;
-				return [agent.positionX, RING_HEIGHT + agent.height * 0.7, 0];
+				// Focus on the most dramatic agent (lower health or higher momentum)
+				const drama = (a: AgentState) => (1 - a.health / a.maxHealth) + a.momentum / 100;
+				const agent = framedAgents(state).reduce((best, a) => (drama(a) > drama(best) ? a : best));
+				return [agent.positionX, RING_HEIGHT + agent.height * 0.7, agent.positionZ];
 			}
 		}
 	}
@@ -277,12 +286,14 @@ export class CameraDirector {
 	private getAgentTarget(agentId: string, state: MatchState): [number, number, number] {
 		const agent = state.agents.find((a) => a.id === agentId);
 		if (!agent) return this.getMidpoint(state);
-		return [agent.positionX, RING_HEIGHT + 0.35, 0];
+		return [agent.positionX, RING_HEIGHT + 0.35, agent.positionZ];
 	}
 
 	private getMidpoint(state: MatchState): [number, number, number] {
-		const [a, b] = state.agents;
-		return [(a.positionX + b.positionX) / 2, RING_HEIGHT + 0.35, 0];
+		const agents = framedAgents(state);
+		const sumX = agents.reduce((sum, a) => sum + a.positionX, 0);
+		const sumZ = agents.reduce((sum, a) => sum + a.positionZ, 0);
+		return [sumX / agents.length, RING_HEIGHT + 0.35, sumZ / agents.length];
 	}
 
 	// ─── Internal ────────────────────────────────────────────────────
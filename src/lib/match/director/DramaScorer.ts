@@ -48,14 +48,15 @@ export function scoreDrama(
 	state: MatchState,
 	prevState: MatchState | null
 ): DramaSnapshot {
-	const [a, b] = state.agents;
+	// Only fighters in the ring drive the drama (not apron partners or Rumble entrants backstage)
+	const agents = state.agents.filter((a) => a.location === 'ring');
 
 	const factors: DramaFactors = {
-		healthDifferential: scoreHealthDifferential(a, b),
+		healthDifferential: scoreHealthDifferential(agents),
 		momentumSwing: scoreMomentumSwing(state, prevState),
-		streakIntensity: scoreStreakIntensity(a, b),
+		streakIntensity: scoreStreakIntensity(agents),
 		emotionalVolatility: scoreEmotionalVolatility(state, prevState),
-		comebackIntensity: scoreComebackIntensity(a, b),
+		comebackIntensity: scoreComebackIntensity(agents),
 		lateMatchUrgency: scoreLateMatchUrgency(state.elapsed, state.timeLimit)
 	};
 
@@ -78,18 +79,18 @@ export function scoreDrama(
 // ─── Factor Scorers ─────────────────────────────────────────────────
 
 /**
- * Close health = high tension. Both low = maximum.
+ * Close health = high tension. Everyone low = maximum.
  * Blowout (one side dominating) = low tension.
+ * With more than two fighters, the healthiest and most hurt are compared.
  */
-function scoreHealthDifferential(a: AgentState, b: AgentState): number {
-	const pctA = a.health / a.maxHealth;
-	const pctB = b.health / b.maxHealth;
+function scoreHealthDifferential(agents: readonly AgentState[]): number {
+	const pcts = agents.map((a) => a.health / a.maxHealth);
 
-	// Closeness factor: 1.0 when equal, 0.0 when one is full and other is empty
-	const closeness = 1.0 - Math.abs(pctA - pctB);
+	// Closeness factor: 1.0 when equal, 0.0 when one is full and another is empty
+	const closeness = 1.0 - (Math.max(...pcts) - Math.min(...pcts));
 
-	// Danger factor: both being low is more dramatic
-	const avgHealth = (pctA + pctB) / 2;
+	// Danger factor: everyone being low is more dramatic
+	const avgHealth = pcts.reduce((sum, p) => sum + p, 0) / pcts.length;
 	const dangerBonus = clamp(remap(avgHealth, 0.5, 0.1, 0, 0.5), 0, 0.5);
 
 	return clamp(closeness * 0.7 + dangerBonus + (1 - avgHealth) * 0.3, 0, 1);
@@ -102,14 +103,13 @@ function scoreHealthDifferential(a: AgentState, b: AgentState): number {
 function scoreMomentumSwing(state: MatchState, prevState: MatchState | null): number {
 	if (!prevState) return 0;
 
-	const [currA, currB] = state.agents;
-	const [prevA, prevB] = prevState.agents;
+	const deltas = state.agents.map((curr) => {
+		const prev = prevState.agents.find((p) => p.id === curr.id);
+		return prev ? curr.momentum - prev.momentum : 0;
+	});
 
-	const deltaA = currA.momentum - prevA.momentum;
-	const deltaB = currB.momentum - prevB.momentum;
-
-	// Swing is the difference in momentum changes
-	const swingMagnitude = Math.abs(deltaA - deltaB);
+	// Swing is the spread between the biggest gain and the biggest loss
+	const swingMagnitude = Math.max(...deltas) - Math.min(...deltas);
 
 	// Normalize: a 20-point swing in one tick is extremely dramatic
 	return clamp(swingMagnitude / 20, 0, 1);
@@ -119,10 +119,8 @@ function scoreMomentumSwing(state: MatchState, prevState: MatchState | null): nu
  * Long hit/taken streaks are dramatic.
  * A streak breaking (reversal after 4+ taken) is peak drama.
  */
-function scoreStreakIntensity(a: AgentState, b: AgentState): number {
-	const maxHitStreak = Math.max(a.psych.hitStreak, b.psych.hitStreak);
-	const maxTakenStreak = Math.max(a.psych.takenStreak, b.psych.takenStreak);
-	const bestStreak = Math.max(maxHitStreak, maxTakenStreak);
+function scoreStreakIntensity(agents: readonly AgentState[]): number {
+	const bestStreak = Math.max(...agents.map((a) => Math.max(a.psych.hitStreak, a.psych.takenStreak)));
 
 	// 6+ streak is extremely dramatic
 	return clamp(bestStreak / 6, 0, 1);
@@ -133,11 +131,9 @@ function scoreStreakIntensity(a: AgentState, b: AgentState): number {
  * get a multiplier. Calm is boring.
  */
 function scoreEmotionalVolatility(state: MatchState, prevState: MatchState | null): number {
-	const [a, b] = state.agents;
-
 	// Base score from current emotional states
 	let score = 0;
-	for (const agent of [a, b]) {
+	for (const agent of state.agents) {
 		switch (agent.psych.emotion) {
 			case 'clutch': score += 0.5; break;
 			case 'desperate': score += 0.4; break;
@@ -164,12 +160,12 @@ function scoreEmotionalVolatility(state: MatchState, prevState: MatchState | nul
  * Active comeback = instant high drama.
  * Approaching conditions = building tension.
  */
-function scoreComebackIntensity(a: AgentState, b: AgentState): number {
-	if (a.comebackActive || b.comebackActive) return 1.0;
+function scoreComebackIntensity(agents: readonly AgentState[]): number {
+	if (agents.some((a) => a.comebackActive)) return 1.0;
 
 	// Check if conditions are approaching comeback trigger
 	let approaching = 0;
-	for (const agent of [a, b]) {
+	for (const agent of agents) {
 		const healthPct = agent.health / agent.maxHealth;
 		if (healthPct < 0.35) {
 			approaching += clamp(remap(healthPct, 0.35, 0.15, 0, 0.5), 0, 0.5);
@@ -206,6 +202,7 @@ function extractDramaEvents(state: MatchState, prevTick: number): DramaEvent[] {
 					events.push({
 						type: 'big_hit',
 						agentId: entry.data.attackerId as string,
+						defenderId: entry.data.defenderId as string,
 						damage,
 						moveId: entry.data.moveId as string
 					});
@@ -274,6 +271,7 @@ function extractDramaEvents(state: MatchState, prevTick: number): DramaEvent[] {
 				events.push({
 					type: 'finisher_impact',
 					attackerId: entry.data.attackerId as string,
+					defenderId: entry.data.defenderId as string,
 					damage: (entry.data.damage as number) ?? 0,
 					knockdownForced: (entry.data.knockdownForced as boolean) ?? false
 				});
@@ -327,7 +327,7 @@ export class FinisherSequencer {
 	private getAgentTarget(agentId: string, state: MatchState): [number, number, number] {
 		const agent = state.agents.find((a) => a.id === agentId);
 		if (!agent) return [0, RING_HEIGHT + 0.8, 0];
-		return [agent.positionX, RING_HEIGHT + agent.height * 0.7, 0];
+		return [agent.positionX, RING_HEIGHT + agent.height * 0.7, agent.positionZ];
 	}
 
 	private getMidpoint(
@@ -341,7 +341,7 @@ export class FinisherSequencer {
 		return [
 			(attacker.positionX + defender.positionX) / 2,
 			RING_HEIGHT + 0.5,
-			0
+			(attacker.positionZ + defender.positionZ) / 2
 		];
 	}
 }
@@ -75,6 +75,7 @@ export class ReplayManager {
 				id: a.id,
 				name: a.name,
 				positionX: a.positionX,
+				positionZ: a.positionZ,
 				phase: a.phase,
 				health: a.health,
 				maxHealth: a.maxHealth,
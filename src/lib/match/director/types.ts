@@ -73,7 +73,7 @@ export interface DramaFactors {
 }
 
 export type DramaEvent =
-	| { type: 'big_hit'; agentId: string; damage: number; moveId: string }
+	| { type: 'big_hit'; agentId: string; defenderId: string; damage: number; moveId: string }
 	| { type: 'reversal'; agentId: string; moveId: string }
 	| { type: 'knockdown'; agentId: string; knockdownCount: number }
 	| { type: 'comeback_start'; agentId: string }
@@ -84,7 +84,7 @@ export type DramaEvent =
 	| { type: 'mistake'; agentId: string }
 	| { type: 'match_end'; winnerId: string; method: string }
 	| { type: 'finisher_trigger'; attackerId: string; defenderId: string; moveId: string; moveName: string }
-	| { type: 'finisher_impact'; attackerId: string; damage: number; knockdownForced: boolean }
+	| { type: 'finisher_impact'; attackerId: string; defenderId: string; damage: number; knockdownForced: boolean }
 	| { type: 'counter_finisher'; defenderId: string; attackerId: string };
 
 // ─── Cinematic Cues ─────────────────────────────────────────────────
@@ -165,6 +165,7 @@ export interface MatchSnapshot {
 		id: string;
 		name: string;
 		positionX: number;
+		positionZ: number;
 		phase: string;
 		health: number;
 		maxHealth: number;
@@ -0,0 +1,207 @@
+import type { AgentState } from './MatchState';
+import type { MoveDef } from '../../combat/MoveRegistry';
+import type { MoveCategory } from '../../utils/types';
+import type { FighterStateMachine } from './fsm';
+import type { MovementController } from './movement';
+import { ACTION_LIST, type ActionName } from '../../ai/rl/ActionSpace';
+import { PIN_RANGE } from './PinSystem';
+import { cornerAt, cornerPosition, nearestCorner, ringZone } from './movement';
+
+/** Base damage at or above which a strike counts as a heavy strike. */
+const HEAVY_STRIKE_DAMAGE = 12;
+
+/** Momentum required before signature moves can be used. */
+const SIGNATURE_MOMENTUM = 50;
+
+/** Momentum required before finisher-category moves can be used. */
+const FINISHER_MOMENTUM = 80;
+
+/** Extra reach tolerance when checking if a move is in range. */
+const RANGE_TOLERANCE = 0.2;
+
+/** How close the opponent must be to be whipped into the ropes or a corner. */
+const WHIP_RANGE = 1.4;
+
+/** Stamina an Irish whip costs. */
+const WHIP_STAMINA_COST = 5;
+
+/**
+ * Which moves satisfy a discrete strategy action.
+ * Actions not listed here (idle, block, dodge, taunt, run_ropes, irish_whip,
+ * pin_attempt) map directly to non-attack AgentActions.
+ */
+const ACTION_MOVE_FILTERS: Partial<Record<ActionName, (move: MoveDef) => boolean>> = {
+	light_strike: (m) => m.category === 'strike' && m.baseDamage < HEAVY_STRIKE_DAMAGE,
+	heavy_strike: (m) => m.category === 'strike' && m.baseDamage >= HEAVY_STRIKE_DAMAGE,
+	grapple_initiate: (m) => m.category === 'grapple',
+	front_grapple_move: (m) => m.category === 'grapple',
+	rear_grapple_move: (m) => m.category === 'grapple',
+	aerial_move: (m) => m.category === 'aerial',
+	submission: (m) => m.category === 'submission',
+	signature_move: (m) => m.category === 'signature',
+	finisher: (m) => m.category === 'finisher'
+};
+
+/** Opponent phases a lock-up can start against (a stunned opponent is grabbed outright). */
+const LOCK_UP_TARGET_PHASES: ReadonlySet<AgentState['phase']> = new Set(['idle', 'moving', 'blocking', 'stun']);
+
+/** Opponent phases worth climbing the turnbuckle for. */
+const CLIMB_TARGET_PHASES: ReadonlySet<AgentState['phase']> = new Set(['stun', 'knockdown', 'getting_up']);
+
+/** What the match loop knows about a fighter when it asks what they can do. */
+export interface LegalityInput {
+	self: AgentState;
+	opponent: AgentState;
+	fsm: FighterStateMachine;
+	mover?: MovementController;
+	distance: number;
+	/** Every move the fighter knows */
+	moves: readonly MoveDef[];
+	/** Pinfalls count in this match and no pin or submission is under way */
+	pinAllowed: boolean;
+	/** No grapple, pin or submission is under way, so a lock-up can start */
+	lockUpAllowed: boolean;
+	/** Moves the fighter's grapple position offers, when they control a grapple */
+	grappleMoveIds?: readonly string[];
+}
+
+/** What a fighter can execute right now. */
+export interface ActionLegality {
+	/** One entry per ActionSpace id: 1 = executable now, 0 = the engine would refuse it */
+	mask: number[];
+	/** Moves the fighter can start this tick */
+	moveIds: ReadonlySet<string>;
+}
+
+/** Whether the fighter has the stamina and momentum a move needs. */
+export function canAfford(move: MoveDef, self: AgentState): boolean {
+	return move.staminaCost <= self.stamina && meetsMomentumGate(move.category, self.momentum);
+}
+
+/** Whether a move reaches an opponent at this distance. */
+export function inMoveRange(move: MoveDef, distance: number): boolean {
+	return distance <= move.hitbox.range + RANGE_TOLERANCE;
+}
+
+/** Whether both fighters are inside the ropes (holds, grapples and ring positions need the ring). */
+export function inRingTogether(self: AgentState, opponent: AgentState): boolean {
+	return self.location === 'ring' && opponent.location === 'ring';
+}
+
+/**
+ * Whether a move reaches the opponent from where the fighters stand,
+ * counting the ring position it needs (MoveDef.position):
+ *   - 'top_rope': perched up top with the opponent in range, or free to
+ *     climb at an opponent who is down or stunned and in range of the
+ *     nearest turnbuckle
+ *   - 'running': coming off the ropes
+ *   - 'corner': the opponent is in a corner
+ *   - 'ropes': the opponent is on the ropes or in a corner
+ *   - 'outside': in the ring, diving at an opponent on the floor
+ * Across the ropes only 'outside' moves reach; on the floor, only moves
+ * that need no ring position.
+ */
+export function inMoveReach(move: MoveDef, self: AgentState, opponent: AgentState, distance: number): boolean {
+	if (self.location !== opponent.location) {
+		return move.position === 'outside' && self.location === 'ring' && opponent.location === 'floor'
+			&& inMoveRange(move, distance);
+	}
+	if (self.location !== 'ring' && move.position) return false;
+	switch (move.position) {
+		case 'top_rope': {
+			if (self.phase === 'perched') return inMoveRange(move, distance);
+			if (!CLIMB_TARGET_PHASES.has(opponent.phase)) return false;
+			const spot = cornerPosition(nearestCorner(self.positionX, self.positionZ));
+			return inMoveRange(move, Math.hypot(opponent.positionX - spot.x, opponent.positionZ - spot.z));
+		}
+		case 'running':
+			return self.running && inMoveRange(move, distance);
+		case 'corner':
+			return cornerAt(opponent.positionX, opponent.positionZ) !== null && inMoveRange(move, distance);
+		case 'ropes':
+			return ringZone(opponent.positionX, opponent.positionZ) !== 'center' && inMoveRange(move, distance);
+		case 'outside':
+			return false;
+		default:
+			return inMoveRange(move, distance);
+	}
+}
+
+/** Whether the fighter can whip the opponent into the ropes, a corner or the barricade. */
+export function canWhip(self: AgentState, opponent: AgentState, distance: number): boolean {
+	return self.location === opponent.location && LOCK_UP_TARGET_PHASES.has(opponent.phase)
+		&& distance <= WHIP_RANGE && self.stamina >= WHIP_STAMINA_COST;
+}
+
+/** Special moves stay locked until momentum is high enough. */
+export function meetsMomentumGate(category: MoveCategory, momentum: number): boolean {
+	if (category === 'finisher') return momentum >= FINISHER_MOMENTUM;
+	if (category === 'signature') return momentum >= SIGNATURE_MOMENTUM;
+	return true;
+}
+
+/** The moves that carry out a discrete action (empty for non-attack actions). */
+export function movesForAction(action: string, moves: readonly MoveDef[]): MoveDef[] {
+	const filter = ACTION_MOVE_FILTERS[action as ActionName];
+	return filter ? moves.filter(filter) : [];
+}
+
+/**
+ * Work out which actions and moves a fighter can execute this tick,
+ * mirroring the checks the match loop and FSM make before carrying
+ * out a decision:
+ *   - The FSM only takes decisions in IDLE and MOVING; anything else
+ *     (mid-attack, stunned, knocked down, held) leaves only 'idle'
+ *   - Attacks need the attack cooldown expired, the stamina and momentum
+ *     for at least one matching move, and that move in reach from the
+ *     ring position it needs (inMoveReach)
+ *   - Grapple moves and Irish whips need a lock-up to be possible
+ *   - A pin needs a downed opponent within PIN_RANGE
+ *   - Running the ropes needs room to close
+ *   - Pins, grapples, submissions and rope runs need both fighters in
+ *     the ring; fighters on the floor strike and whip into the barricade
+ *
+ * Inside a grapple, the grapple system picks transitions, so only 'idle'
+ * is legal; the controller's move ids are the ones the position offers.
+ */
+export function computeLegality(input: LegalityInput): ActionLegality {
+	const { self, opponent, fsm, mover, distance } = input;
+	const legal = new Set<ActionName>(['idle']);
+	const moveIds = new Set<string>();
+
+	if (fsm.inGrapple) {
+		for (const id of input.grappleMoveIds ?? []) moveIds.add(id);
+		return { mask: toMask(legal), moveIds };
+	}
+	if (!fsm.acceptsInput) return { mask: toMask(legal), moveIds };
+
+	legal.add('block');
+	legal.add('dodge');
+	legal.add('taunt');
+	const inRing = inRingTogether(self, opponent);
+	if (mover && self.location === 'ring' && distance > mover.range && !self.running) legal.add('run_ropes');
+
+	const opponentDown = opponent.phase === 'knockdown' || opponent.phase === 'getting_up';
+	if (input.pinAllowed && inRing && opponentDown && distance <= PIN_RANGE) legal.add('pin_attempt');
+
+	if (fsm.canAttack) {
+		const lockUp = input.lockUpAllowed && inRing && LOCK_UP_TARGET_PHASES.has(opponent.phase);
+		for (const move of input.moves) {
+			if (move.category === 'grapple' && !lockUp) continue;
+			if (move.category === 'submission' && !inRing) continue;
+			if (canAfford(move, self) && inMoveReach(move, self, opponent, distance)) moveIds.add(move.id);
+		}
+		if (input.lockUpAllowed && canWhip(self, opponent, distance)) legal.add('irish_whip');
+		for (const [action, filter] of Object.entries(ACTION_MOVE_FILTERS)) {
+			if (input.moves.some((m) => moveIds.has(m.id) && filter(m))) legal.add(action as ActionName);
+		}
+	}
+
+	return { mask: toMask(legal), moveIds };
+}
+
+function toMask(legal: ReadonlySet<ActionName>): number[] {
+	return ACTION_LIST.map((action) => (legal.has(action) ? 1 : 0));
+}
+
+export { HEAVY_STRIKE_DAMAGE, SIGNATURE_MOMENTUM, FINISHER_MOMENTUM, RANGE_TOLERANCE, WHIP_RANGE, WHIP_STAMINA_COST };
@@ -2,14 +2,23 @@ import type { AgentState, AgentPersonality } from './MatchState';
 import type { MoveDef } from '../../combat/MoveRegistry';
 import type { EffectiveModifiers } from './TraitFormulas';
 import type { ComboRegistry } from '../../combat/ComboRegistry';
+import { inMoveReach, type ActionLegality } from './ActionLegality';
 import { SeededRandom } from '../../utils/random';
+import { PIN_RANGE } from './PinSystem';
+import { isActionAllowed, type ActionName } from '../../ai/rl/ActionSpace';
 
 /**
  * Available actions an agent can choose from each decision tick.
  */
 export interface AgentAction {
-	type: 'attack' | 'block' | 'idle' | 'mistake' | 'move' | 'taunt';
+	type:
+		| 'attack' | 'block' | 'idle' | 'mistake' | 'move' | 'taunt' | 'finisher' | 'pin' | 'tag' | 'climb' | 'door'
+		| 'run_ropes' | 'whip' | 'ringside';
 	moveId?: string;
+	/** Explicit movement target for 'move' (defaults to approaching the opponent). */
+	targetX?: number;
+	/** Z of the explicit movement target (defaults to the fighter's current Z). */
+	targetZ?: number;
 }
 
 /**
@@ -17,10 +26,45 @@ export interface AgentAction {
  * Contains spatial information needed for range-aware decisions.
  */
 export interface DecisionContext {
-	/** Absolute distance to the opponent on X axis. */
+	/** Straight-line distance to the opponent on the mat. */
 	distance: number;
 	/** The agent's preferred attack range (from MovementController). */
 	attackRange: number;
+	/** Whether the FSM would accept an attack right now (attack cooldown expired). */
+	canAttack: boolean;
+	/** What the fighter can execute right now (absent outside the normal decision phase). */
+	legality?: ActionLegality;
+	/** How loud the crowd is (0-100, MatchState.crowd.pop; absent outside the normal decision phase). */
+	crowdPop?: number;
+}
+
+/**
+ * FighterBrain — anything that can pick a fighter's next action.
+ * Implemented by the built-in Agent and by StrategyAdapter, which lets
+ * the pluggable ECS strategies drive a MatchLoop fighter.
+ */
+export interface FighterBrain {
+	/**
+	 * Manually controlled brains (human players) opt out of automatic
+	 * finisher triggers and are polled every tick instead of on a cooldown.
+	 */
+	readonly manual?: boolean;
+
+	decide(
+		self: AgentState,
+		opponent: AgentState,
+		ctx: DecisionContext,
+		mods?: EffectiveModifiers
+	): AgentAction;
+
+	/** Called once per tick before any decision (e.g. to poll input devices). */
+	onTick?(tick: number): void;
+
+	/**
+	 * Called during a COMBO_WINDOW. Return false to let the window lapse.
+	 * Brains without this hook always chain.
+	 */
+	requestComboChain?(): boolean;
 }
 
 /**
@@ -41,12 +85,14 @@ interface WeightedOption {
  *   - Psychology modifiers (emotion-driven aggression, defense, special moves)
  *   - Current health/stamina ratio (conserve when exhausted)
  *   - Opponent state (attack stunned opponents, block when pressured)
+ *   - Ring position (rope runs, whips, corner and top-rope moves when set up)
  *   - Momentum level (use signature/finisher when meter is high)
  *   - Comeback state (increased aggression during comeback)
+ *   - Action legality (never picks a pin, taunt or move the engine would refuse)
  *
  * Decisions are deterministic for a given seed — same seed, same fight.
  */
-export class Agent {
+export class Agent implements FighterBrain {
 	/** Set of move IDs that can start at least one combo for this fighter's style. */
 	private comboOpenerIds: Set<string> = new Set();
 
@@ -72,13 +118,15 @@ export class Agent {
 	 * Called only when FSM accepts input and cooldown is 0.
 	 *
 	 * Decision priority:
+	 *   0. Pin a downed opponent (approach first if out of pin range)
 	 *   1. Mistake check (psychology whiff)
-	 *   2. Out-of-range → move toward opponent
+	 *   2. Out-of-range → climb for a dive, dive to the floor, run the ropes or move toward opponent
 	 *   3. Block check (react to opponent attacks, low health)
 	 *   4. Idle check (rest when exhausted)
 	 *   5. Taunt check (high momentum, opponent stunned)
-	 *   6. Pick an attack (in-range moves only)
-	 *   7. Fallback → move (if no affordable in-range move exists)
+	 *   6. Irish whip into the ropes or a corner
+	 *   7. Pick an attack (in-range moves only)
+	 *   8. Fallback → move (if no affordable in-range move exists)
 	 *
 	 * @param self - This agent's state
 	 * @param opponent - The opponent's state
@@ -94,12 +142,36 @@ export class Agent {
 		const p = self.personality;
 		const healthPct = self.health / self.maxHealth;
 		const staminaPct = self.stamina / self.maxStamina;
+		const oppDown = opponent.phase === 'knockdown' || opponent.phase === 'getting_up';
+
+		// ── 0. Pin check: go for the cover on a downed opponent ──
+		// The weaker the opponent, the more likely we cover instead of
+		// wasting time on more offense. Killer instinct (finisherBoost) helps.
+		if (oppDown) {
+			const oppHealthPct = opponent.health / opponent.maxHealth;
+			const finisherBoost = mods ? mods.finisherBoost : 0;
+			const pinChance = Math.min(0.95, 0.15 + (1 - oppHealthPct) * 0.7 + finisherBoost * 0.2);
+			if (this.rng.chance(pinChance)) {
+				if (ctx.distance > PIN_RANGE) return { type: 'move' };
+				if (this.allows(ctx, 'pin_attempt')) return { type: 'pin' };
+			}
+		}
 
 		// ── 1. Range check FIRST: if too far, approach (ALWAYS) ──
 		// This MUST come before mistake check — fighters must close distance
 		// or they'll stand still making whiffed attacks at range.
 		const closestMoveRange = this.getClosestMoveRange(self);
 		if (ctx.distance > closestMoveRange + 0.3) {
+			// Risk takers head up top when the opponent is down within reach of a turnbuckle,
+			// or fly over the ropes at an opponent on the floor
+			if (this.rng.chance(p.riskTolerance * 0.3)) {
+				const dive = this.selectMove(self, opponent, ctx, mods);
+				if (dive?.position === 'top_rope' || dive?.position === 'outside') return { type: 'attack', moveId: dive.id };
+			}
+			// Aggressive fighters come in off the ropes
+			if (!self.running && this.allows(ctx, 'run_ropes') && this.rng.chance(p.aggression * 0.15)) {
+				return { type: 'run_ropes' };
+			}
 			// Too far — move toward opponent. No point choosing attack.
 			return { type: 'move' };
 		}
@@ -110,7 +182,8 @@ export class Agent {
 		if (mods && mods.mistakeChance > 0 && this.rng.chance(mods.mistakeChance * 0.5)) {
 			const randomMove = this.availableMoves[this.rng.int(0, this.availableMoves.length - 1)];
 			if (randomMove && randomMove.staminaCost <= self.stamina
-				&& ctx.distance <= randomMove.hitbox.range + 0.2) {
+				&& ctx.distance <= randomMove.hitbox.range + 0.2
+				&& this.allowsMove(ctx, randomMove.id)) {
 				return { type: 'mistake', moveId: randomMove.id };
 			}
 		}
@@ -154,21 +227,35 @@ export class Agent {
 
 		// ── 5. Taunt check ──
 		// Taunt when momentum is high and opponent is down (showmanship)
-		const oppDown = opponent.phase === 'knockdown' || opponent.phase === 'getting_up';
-		if (oppDown && self.momentum > 60 && staminaPct > 0.3 && this.rng.chance(0.2)) {
+		if (oppDown && self.momentum > 60 && staminaPct > 0.3 && this.allows(ctx, 'taunt') && this.rng.chance(0.2)) {
 			return { type: 'taunt' };
 		}
 
-		// ── 6. Pick an in-range attack ──
+		// ── 6. Irish whip: send them into the ropes or a corner to set up a move ──
+		if (ctx.legality && this.allows(ctx, 'irish_whip') && this.rng.chance(0.05 + (1 - p.strikePreference) * 0.08)) {
+			return { type: 'whip' };
+		}
+
+		// ── 7. Pick an in-range attack ──
 		const move = this.selectMove(self, opponent, ctx, mods);
 		if (move) {
 			return { type: 'attack', moveId: move.id };
 		}
 
-		// ── 7. Fallback: no affordable in-range move → approach ──
+		// ── 8. Fallback: no affordable in-range move → approach ──
 		return { type: 'move' };
 	}
 
+	/** Whether the legality mask (if any) allows an action. */
+	private allows(ctx: DecisionContext, action: ActionName): boolean {
+		return isActionAllowed(ctx.legality?.mask, action);
+	}
+
+	/** Whether the legality check (if any) lets the fighter start a move. */
+	private allowsMove(ctx: DecisionContext, moveId: string): boolean {
+		return !ctx.legality || ctx.legality.moveIds.has(moveId);
+	}
+
 	/**
 	 * Get the practical engagement range for this fighter.
 	 * Uses the median range of standard moves (strikes + grapples) rather than
@@ -181,8 +268,10 @@ export class Agent {
 		for (const move of this.availableMoves) {
 			if (move.staminaCost <= self.stamina) {
 				// Only count standard combat moves for engagement range
-				// Aerial/finisher/signature are special-case, not engagement range
-				if (move.category === 'strike' || move.category === 'grapple' || move.category === 'submission') {
+				// Aerial/finisher/signature are special-case, not engagement range,
+				// and neither are moves that need a ring position set up first
+				if (!move.position
+					&& (move.category === 'strike' || move.category === 'grapple' || move.category === 'submission')) {
 					ranges.push(move.hitbox.range);
 				}
 			}
@@ -196,7 +285,8 @@ export class Agent {
 
 	/**
 	 * Select a move using weighted random selection.
-	 * Only considers moves whose hitbox range covers the current distance.
+	 * Only considers moves whose hitbox range covers the current distance
+	 * from the ring position they need (inMoveReach).
 	 *
 	 * Weights are influenced by personality, psychology modifiers, and context.
 	 */
@@ -224,12 +314,15 @@ export class Agent {
 			if (move.staminaCost > self.stamina) continue;
 
 			// Out of range — this is the KEY fix for the spam bug
-			if (ctx.distance > move.hitbox.range + 0.2) continue;
+			if (!inMoveReach(move, self, opponent, ctx.distance)) continue;
 
 			// Momentum gates for special moves
 			if (move.category === 'finisher' && self.momentum < 80) continue;
 			if (move.category === 'signature' && self.momentum < 50) continue;
 
+			// Refused right now (attack cooldown, no lock-up possible)
+			if (!this.allowsMove(ctx, move.id)) continue;
+
 			// ── Weight calculation ──
 			let weight = 1.0;
 
@@ -292,6 +385,9 @@ export class Agent {
 			const rangeFit = 1.0 - Math.abs(ctx.distance - move.hitbox.range * 0.7) / move.hitbox.range;
 			weight *= Math.max(0.3, rangeFit);
 
+			// ── Setup bonus — the ring position the move needs is in place ──
+			if (move.position) weight *= 2.5;
+
 			// ── Combo opener bonus — prefer moves that can start combos ──
 			if (this.comboOpenerIds.has(move.id)) {
 				// Combo openers get a moderate weight boost when we have stamina to follow through
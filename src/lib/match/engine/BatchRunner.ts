@@ -0,0 +1,467 @@
+import type { AgentStats, MatchResult, MatchState } from './MatchState';
+import { MatchLoop, type MatchLoopConfig, type WrestlerInput } from './MatchLoop';
+import { DeterminismVerifier, describeDesync } from './DeterminismVerifier';
+import { getMatchType } from '../MatchTypes';
+import type { Seed } from '../../utils/types';
+
+/**
+ * Every way a match can end, in report column order.
+ */
+const FINISH_METHODS: readonly MatchResult['method'][] = [
+	'pinfall', 'submission', 'knockout', 'tko', 'countout', 'dq',
+	'escape', 'elimination', 'falls', 'timeout'
+];
+
+/** Simulation rate for batch matches (same as the live game). */
+const BATCH_TICK_RATE = 60;
+
+export interface BatchConfig {
+	/** Everyone who can appear in a line-up */
+	wrestlers: readonly WrestlerInput[];
+	/** Line-ups by wrestler id, in ring order — each is fought once per match type per seed */
+	matchups: readonly (readonly string[])[];
+	/** Match type ids (keys into MATCH_TYPES) */
+	matchTypes: readonly string[];
+	seeds: readonly Seed[];
+	/**
+	 * Run every match twice and compare them tick by tick (DeterminismVerifier).
+	 * A match that doesn't reproduce makes the whole report meaningless, so
+	 * run() throws on the first desync. Doubles the run time.
+	 */
+	verify?: boolean;
+	/** Called after every match (progress reporting) */
+	onMatch?: (record: MatchRecord, done: number, total: number) => void;
+}
+
+/** One simulated match. */
+export interface MatchRecord {
+	matchType: string;
+	seed: Seed;
+	wrestlerIds: string[];
+	/** Everyone credited with the win (the whole team in tag matches) */
+	winnerIds: string[];
+	method: MatchResult['method'];
+	/** Seconds */
+	duration: number;
+	rating: number;
+	stats: Record<string, AgentStats>;
+}
+
+export interface WrestlerSummary {
+	id: string;
+	name: string;
+	matches: number;
+	wins: number;
+	losses: number;
+	winRate: number;
+	/** Seconds */
+	avgDuration: number;
+	winsByMethod: Record<string, number>;
+	lossesByMethod: Record<string, number>;
+	avgDamageDealt: number;
+	avgDamageTaken: number;
+	/** Landed / (landed + missed) */
+	hitRate: number;
+	reversalsPerMatch: number;
+	knockdownsPerMatch: number;
+	finishersAttempted: number;
+	finishersLanded: number;
+	/** Landed / attempted (0 when never attempted) */
+	finisherSuccessRate: number;
+	comebacks: number;
+	comebacksPerMatch: number;
+	/** Matches won after making a comeback */
+	comebackWins: number;
+}
+
+export interface MoveSummary {
+	moveId: string;
+	/** Hits + misses + reversals */
+	uses: number;
+	hits: number;
+	misses: number;
+	reversed: number;
+	damage: number;
+	/** Damage per hit */
+	avgDamage: number;
+	hitRate: number;
+	reversalRate: number;
+}
+
+export interface MatchTypeSummary {
+	matchType: string;
+	matches: number;
+	/** Seconds */
+	avgDuration: number;
+	avgRating: number;
+	methods: Record<string, number>;
+}
+
+export interface BatchReport {
+	matchTypes: string[];
+	seeds: number;
+	matchups: string[][];
+	totalMatches: number;
+	wrestlers: WrestlerSummary[];
+	moves: MoveSummary[];
+	byMatchType: MatchTypeSummary[];
+	matches: MatchRecord[];
+}
+
+/** The report as CSV tables. */
+export interface BatchCSV {
+	wrestlers: string;
+	moves: string;
+	matchTypes: string;
+	matches: string;
+}
+
+interface WrestlerTally {
+	matches: number;
+	wins: number;
+	duration: number;
+	winsByMethod: Record<string, number>;
+	lossesByMethod: Record<string, number>;
+	damageDealt: number;
+	damageTaken: number;
+	movesHit: number;
+	movesMissed: number;
+	reversals: number;
+	knockdowns: number;
+	finishersAttempted: number;
+	finishersLanded: number;
+	comebacks: number;
+	comebackWins: number;
+}
+
+interface MoveTally {
+	hits: number;
+	misses: number;
+	reversed: number;
+	damage: number;
+}
+
+/**
+ * BatchRunner — headless balance testing.
+ *
+ * Runs every line-up × match type × seed through MatchLoop.runToEnd() and
+ * aggregates the results per wrestler, per move and per match type. Matches
+ * are deterministic, so the same config always produces the same report.
+ *
+ * With `verify` set, every match is also checked for determinism.
+ *
+ * Only the per-match record is kept; each match's full state (and log) is
+ * dropped once tallied, so thousands of matches run in flat memory.
+ */
+export class BatchRunner {
+	private readonly wrestlers: Map<string, WrestlerInput>;
+
+	constructor(private readonly config: BatchConfig) {
+		this.wrestlers = new Map(config.wrestlers.map((w) => [w.id, w]));
+
+		for (const lineup of config.matchups) {
+			for (const id of lineup) {
+				if (!this.wrestlers.has(id)) throw new Error(`BatchRunner: unknown wrestler '${id}'`);
+			}
+		}
+		for (const type of config.matchTypes) {
+			const rules = getMatchType(type);
+			if (!rules) throw new Error(`BatchRunner: unknown match type '${type}'`);
+			const misfit = config.matchups.find(
+				(l) => l.length < rules.minParticipants || l.length > rules.maxParticipants
+			);
+			if (misfit) {
+				throw new Error(
+					`BatchRunner: match type '${type}' takes ${rules.minParticipants}-${rules.maxParticipants} wrestlers, got [${misfit.join(', ')}]`
+				);
+			}
+		}
+	}
+
+	/** Total matches run() will simulate. */
+	get totalMatches(): number {
+		return this.config.matchups.length * this.config.matchTypes.length * this.config.seeds.length;
+	}
+
+	run(): BatchReport {
+		const total = this.totalMatches;
+		const records: MatchRecord[] = [];
+		const wrestlerTallies = new Map<string, WrestlerTally>();
+		const moveTallies = new Map<string, MoveTally>();
+
+		for (const matchType of this.config.matchTypes) {
+			for (const lineup of this.config.matchups) {
+				for (const seed of this.config.seeds) {
+					const state = this.simulate(lineup, matchType, seed);
+					const record = toRecord(state, seed);
+					tallyWrestlers(wrestlerTallies, state, record);
+					tallyMoves(moveTallies, state);
+					records.push(record);
+					this.config.onMatch?.(record, records.length, total);
+				}
+			}
+		}
+
+		return {
+			matchTypes: [...this.config.matchTypes],
+			seeds: this.config.seeds.length,
+			matchups: this.config.matchups.map((l) => [...l]),
+			totalMatches: records.length,
+			wrestlers: [...wrestlerTallies].map(([id, t]) => summarizeWrestler(id, this.wrestlers.get(id)!.name, t)),
+			moves: [...moveTallies].map(([id, t]) => summarizeMove(id, t)).sort((a, b) => b.uses - a.uses),
+			byMatchType: this.config.matchTypes.map((type) => summarizeMatchType(type, records)),
+			matches: records
+		};
+	}
+
+	private simulate(lineup: readonly string[], matchType: string, seed: Seed): MatchState {
+		const config = (): MatchLoopConfig => ({
+			seed,
+			matchType,
+			tickRate: BATCH_TICK_RATE,
+			wrestlers: lineup.map((id) => this.wrestlers.get(id)!)
+		});
+		if (!this.config.verify) return new MatchLoop(config()).runToEnd();
+
+		const check = DeterminismVerifier.selfCheck(config);
+		if (check.desync) {
+			throw new Error(
+				`BatchRunner: ${matchType} seed ${seed} [${lineup.join(', ')}] is not deterministic — ${describeDesync(check.desync)}`
+			);
+		}
+		return check.final;
+	}
+}
+
+/**
+ * Every pairing of the given wrestlers, once each way round (ring order
+ * matters: the first wrestler starts on the left).
+ */
+export function roundRobin(ids: readonly string[]): string[][] {
+	const pairs: string[][] = [];
+	for (const a of ids) {
+		for (const b of ids) {
+			if (a !== b) pairs.push([a, b]);
+		}
+	}
+	return pairs;
+}
+
+/**
+ * Flatten a report into CSV tables (wrestlers, moves, match types, matches).
+ */
+export function batchReportToCSV(report: BatchReport): BatchCSV {
+	const methodCols = (prefix: string) => FINISH_METHODS.map((m) => `${prefix}_${m}`);
+
+	const wrestlers = toCSV(
+		['id', 'name', 'matches', 'wins', 'losses', 'win_rate', 'avg_duration',
+			'avg_damage_dealt', 'avg_damage_taken', 'hit_rate', 'reversals_per_match', 'knockdowns_per_match',
+			'finishers_attempted', 'finishers_landed', 'finisher_success_rate',
+			'comebacks', 'comebacks_per_match', 'comeback_wins',
+			...methodCols('wins'), ...methodCols('losses')],
+		report.wrestlers.map((w) => [
+			w.id, w.name, w.matches, w.wins, w.losses, w.winRate, w.avgDuration,
+			w.avgDamageDealt, w.avgDamageTaken, w.hitRate, w.reversalsPerMatch, w.knockdownsPerMatch,
+			w.finishersAttempted, w.finishersLanded, w.finisherSuccessRate,
+			w.comebacks, w.comebacksPerMatch, w.comebackWins,
+			...FINISH_METHODS.map((m) => w.winsByMethod[m] ?? 0),
+			...FINISH_METHODS.map((m) => w.lossesByMethod[m] ?? 0)
+		])
+	);
+
+	const moves = toCSV(
+		['move_id', 'uses', 'hits', 'misses', 'reversed', 'damage', 'avg_damage', 'hit_rate', 'reversal_rate'],
+		report.moves.map((m) => [m.moveId, m.uses, m.hits, m.misses, m.reversed, m.damage, m.avgDamage, m.hitRate, m.reversalRate])
+	);
+
+	const matchTypes = toCSV(
+		['match_type', 'matches', 'avg_duration', 'avg_rating', ...FINISH_METHODS],
+		report.byMatchType.map((t) => [
+			t.matchType, t.matches, t.avgDuration, t.avgRating, ...FINISH_METHODS.map((m) => t.methods[m] ?? 0)
+		])
+	);
+
+	const matches = toCSV(
+		['match_type', 'seed', 'wrestlers', 'winners', 'method', 'duration', 'rating'],
+		report.matches.map((r) => [
+			r.matchType, r.seed, r.wrestlerIds.join(' '), r.winnerIds.join(' '), r.method, r.duration, r.rating
+		])
+	);
+
+	return { wrestlers, moves, matchTypes, matches };
+}
+
+// ─── Tallying ───────────────────────────────────────────────────────
+
+function toRecord(state: MatchState, seed: Seed): MatchRecord {
+	const result = state.result;
+	if (!result) throw new Error(`BatchRunner: match ${state.matchType} seed ${seed} ended without a result`);
+
+	const winner = state.agents.find((a) => a.id === result.winnerId);
+	const winnerIds = state.agents
+		.filter((a) => a.id === result.winnerId || (winner?.teamId != null && a.teamId === winner.teamId))
+		.map((a) => a.id);
+
+	return {
+		matchType: state.matchType,
+		seed,
+		wrestlerIds: state.agents.map((a) => a.id),
+		winnerIds,
+		method: result.method,
+		duration: result.duration,
+		rating: result.rating,
+		stats: Object.fromEntries(state.agents.map((a) => [a.id, a.stats]))
+	};
+}
+
+function tallyWrestlers(tallies: Map<string, WrestlerTally>, state: MatchState, record: MatchRecord): void {
+	const comebacks = countBy(state, 'comeback', 'agentId');
+	const finisherAttempts = countBy(state, 'finisher_start', 'attackerId');
+
+	for (const agent of state.agents) {
+		let t = tallies.get(agent.id);
+		if (!t) {
+			t = {
+				matches: 0, wins: 0, duration: 0, winsByMethod: {}, lossesByMethod: {},
+				damageDealt: 0, damageTaken: 0, movesHit: 0, movesMissed: 0, reversals: 0, knockdowns: 0,
+				finishersAttempted: 0, finishersLanded: 0, comebacks: 0, comebackWins: 0
+			};
+			tallies.set(agent.id, t);
+		}
+
+		const won = record.winnerIds.includes(agent.id);
+		const byMethod = won ? t.winsByMethod : t.lossesByMethod;
+		byMethod[record.method] = (byMethod[record.method] ?? 0) + 1;
+
+		const madeComeback = (comebacks.get(agent.id) ?? 0) > 0;
+		t.matches++;
+		if (won) t.wins++;
+		t.duration += record.duration;
+		t.damageDealt += agent.stats.damageDealt;
+		t.damageTaken += agent.stats.damageTaken;
+		t.movesHit += agent.stats.movesHit;
+		t.movesMissed += agent.stats.movesMissed;
+		t.reversals += agent.stats.reversals;
+		t.knockdowns += agent.stats.knockdowns;
+		t.finishersAttempted += finisherAttempts.get(agent.id) ?? 0;
+		t.finishersLanded += agent.stats.finishersLanded;
+		t.comebacks += comebacks.get(agent.id) ?? 0;
+		if (won && madeComeback) t.comebackWins++;
+	}
+}
+
+function tallyMoves(tallies: Map<string, MoveTally>, state: MatchState): void {
+	const tally = (moveId: unknown): MoveTally | null => {
+		if (typeof moveId !== 'string') return null;
+		let t = tallies.get(moveId);
+		if (!t) {
+			t = { hits: 0, misses: 0, reversed: 0, damage: 0 };
+			tallies.set(moveId, t);
+		}
+		return t;
+	};
+
+	for (const entry of state.log) {
+		switch (entry.type) {
+			case 'move_hit':
+			case 'finisher_impact': {
+				const t = tally(entry.data.moveId);
+				if (!t) break;
+				t.hits++;
+				t.damage += Number(entry.data.damage) || 0;
+				break;
+			}
+			case 'move_miss': {
+				const t = tally(entry.data.moveId);
+				if (t) t.misses++;
+				break;
+			}
+			case 'reversal': {
+				const t = tally(entry.data.moveId);
+				if (t) t.reversed++;
+				break;
+			}
+		}
+	}
+}
+
+/** Log entries of a type, counted by the agent id in one of their data fields. */
+function countBy(state: MatchState, type: string, field: string): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const entry of state.log) {
+		if (entry.type !== type) continue;
+		const id = entry.data[field];
+		if (typeof id === 'string') counts.set(id, (counts.get(id) ?? 0) + 1);
+	}
+	return counts;
+}
+
+// ─── Summaries ──────────────────────────────────────────────────────
+
+function summarizeWrestler(id: string, name: string, t: WrestlerTally): WrestlerSummary {
+	return {
+		id,
+		name,
+		matches: t.matches,
+		wins: t.wins,
+		losses: t.matches - t.wins,
+		winRate: ratio(t.wins, t.matches),
+		avgDuration: ratio(t.duration, t.matches),
+		winsByMethod: t.winsByMethod,
+		lossesByMethod: t.lossesByMethod,
+		avgDamageDealt: ratio(t.damageDealt, t.matches),
+		avgDamageTaken: ratio(t.damageTaken, t.matches),
+		hitRate: ratio(t.movesHit, t.movesHit + t.movesMissed),
+		reversalsPerMatch: ratio(t.reversals, t.matches),
+		knockdownsPerMatch: ratio(t.knockdowns, t.matches),
+		finishersAttempted: t.finishersAttempted,
+		finishersLanded: t.finishersLanded,
+		finisherSuccessRate: ratio(t.finishersLanded, t.finishersAttempted),
+		comebacks: t.comebacks,
+		comebacksPerMatch: ratio(t.comebacks, t.matches),
+		comebackWins: t.comebackWins
+	};
+}
+
+function summarizeMove(moveId: string, t: MoveTally): MoveSummary {
+	const uses = t.hits + t.misses + t.reversed;
+	return {
+		moveId,
+		uses,
+		hits: t.hits,
+		misses: t.misses,
+		reversed: t.reversed,
+		damage: t.damage,
+		avgDamage: ratio(t.damage, t.hits),
+		hitRate: ratio(t.hits, uses),
+		reversalRate: ratio(t.reversed, uses)
+	};
+}
+
+function summarizeMatchType(matchType: string, records: readonly MatchRecord[]): MatchTypeSummary {
+	const ofType = records.filter((r) => r.matchType === matchType);
+	const methods: Record<string, number> = {};
+	for (const r of ofType) methods[r.method] = (methods[r.method] ?? 0) + 1;
+	return {
+		matchType,
+		matches: ofType.length,
+		avgDuration: ratio(ofType.reduce((sum, r) => sum + r.duration, 0), ofType.length),
+		avgRating: ratio(ofType.reduce((sum, r) => sum + r.rating, 0), ofType.length),
+		methods
+	};
+}
+
+/** a / b, rounded to 4 places (0 when b is 0). */
+function ratio(a: number, b: number): number {
+	return b > 0 ? Math.round((a / b) * 10000) / 10000 : 0;
+}
+
+function toCSV(header: readonly string[], rows: readonly (readonly (string | number)[])[]): string {
+	const cell = (v: string | number) => {
+		const s = String(v);
+		return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+	};
+	return [header, ...rows].map((row) => row.map(cell).join(',')).join('\n') + '\n';
+}
+
+export { FINISH_METHODS };
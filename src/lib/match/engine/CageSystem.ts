@@ -0,0 +1,333 @@
+import type { AgentState } from './MatchState';
+import type { FighterStateMachine } from './fsm';
+import { SeededRandom } from '../../utils/random';
+import { clamp } from '../../utils/math';
+import { RING_HALF_X, CAGE_IMPACT_MIN_SPEED, MAX_MOVE_SPEED, DEFAULT_ATTACK_RANGE, ringDistance } from './movement';
+import { opponentOf } from './TargetingSystem';
+import { PIN_RANGE } from './PinSystem';
+import { matchReducer } from './MatchReducer';
+import { DECISION_INTERVAL, MOVE_DECISION_INTERVAL, type MatchContext } from './MatchContext';
+
+/**
+ * Which wall has the cage door (+1 = right, -1 = left).
+ */
+const CAGE_DOOR_SIDE = 1;
+
+/**
+ * How close (X units) a wrestler must be to the wall or door to start escaping.
+ */
+const ESCAPE_REACH = 0.35;
+
+/**
+ * Base ticks to climb over the wall (3 seconds at full strength).
+ */
+const CLIMB_TICKS = 180;
+
+/**
+ * Base ticks to get out the door (3.5 seconds). The referee has to unlock it,
+ * so build and stamina matter less than for a climb.
+ */
+const DOOR_TICKS = 210;
+
+/**
+ * Stamina spent per tick while climbing (~4.8 per second) or crawling (~1.8 per second).
+ */
+const CLIMB_STAMINA_PER_TICK = 0.08;
+const DOOR_STAMINA_PER_TICK = 0.03;
+
+/**
+ * A wrestler pulled off the wall past this much climb progress falls from
+ * the top and is knocked down, not just stunned.
+ */
+const CLIMB_FALL_PROGRESS = 0.5;
+
+/** Stun on a wrestler dragged off the cage wall or back from the door. */
+const PULL_DOWN_STUN_FRAMES = 30;
+
+/** Knockdown for falling from the top of the cage. */
+const CAGE_FALL_KNOCKDOWN_FRAMES = 150;
+
+/** FSM safety cap on an escape attempt (update() normally ends it first). */
+const ESCAPE_SAFETY_FRAMES = 1200;
+
+/** An AI wrestler gives up walking to the cage exit after this long (4 seconds). */
+const ESCAPE_INTENT_TIMEOUT = 240;
+
+/**
+ * How close the opponent must get to drag an escaping wrestler back in
+ * (just past the default approach range, so walking up is enough).
+ */
+const PULL_DOWN_RANGE = DEFAULT_ATTACK_RANGE + 0.2;
+
+/**
+ * Damage for a cage slam at the minimum impact speed, and per unit of speed above it.
+ */
+const CAGE_SLAM_BASE_DAMAGE = 3;
+const CAGE_SLAM_DAMAGE_PER_SPEED = 0.75;
+
+/**
+ * An escape attempt the wrestler is walking toward.
+ */
+export interface EscapeExit {
+	method: 'climb' | 'door';
+	/** Where the wrestler has to stand to start (X) */
+	x: number;
+}
+
+/**
+ * CageSystem — steel cage escapes and cage slams.
+ *
+ * Escapes are multi-tick: the wrestler walks to the wall (climb) or the
+ * door, then ESCAPE_START begins an attempt whose progress rate depends on
+ * stamina, health and — for climbs — build. Any hit drags them back in;
+ * past CLIMB_FALL_PROGRESS they fall from the top.
+ *
+ * AI wrestlers go for the exit when a worn-down opponent is down or
+ * stunned, or now and then when they're losing the fight; brawlers would
+ * rather keep fighting.
+ * The exit is whichever gets them out soonest, counting the walk.
+ *
+ * The match loop walks wrestlers to their exit and bounces them off the
+ * walls; starting, advancing and interrupting escapes happens here.
+ */
+export class CageSystem {
+	/** Wrestlers walking to a cage exit, with the tick they set off. */
+	private readonly escapeIntents: Map<string, EscapeExit & { sinceTick: number }> = new Map();
+
+	constructor(
+		private readonly rng: SeededRandom,
+		private readonly match: MatchContext
+	) {}
+
+	/** The exit a wrestler is walking to, if any. */
+	escapeIntent(agentId: string): (EscapeExit & { sinceTick: number }) | undefined {
+		return this.escapeIntents.get(agentId);
+	}
+
+	/** Stop walking to the exit (the player moved somewhere else). */
+	cancelEscapeIntent(agentId: string): void {
+		this.escapeIntents.delete(agentId);
+	}
+
+	/**
+	 * AI cage logic, run before the brain decides.
+	 * With the opponent escaping, rush over and drag them back in.
+	 * Otherwise keep walking to a chosen exit, or roll whether to go for one
+	 * (a downed opponent within PIN_RANGE gets covered instead).
+	 *
+	 * @returns true if the cage logic took this decision
+	 */
+	runDecision(
+		agent: AgentState,
+		opponent: AgentState,
+		fsm: FighterStateMachine,
+		distance: number
+	): boolean {
+		const escape = this.match.state.escape;
+		if (escape && escape.agentId !== agent.id) {
+			this.match.decisionTimers.set(agent.id, MOVE_DECISION_INTERVAL);
+			const escaper = this.match.state.agents.find((a) => a.id === escape.agentId);
+			if (!escaper) return false;
+			const escaperDistance = ringDistance(agent, escaper);
+			if (escaperDistance > PULL_DOWN_RANGE) {
+				this.match.movers.get(agent.id)?.moveTowardOpponent(escaper.positionX, escaper.positionZ);
+				fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: escaper.positionX });
+			} else if (this.rollPullDown(agent, escaper)) {
+				this.match.movers.get(agent.id)?.stopMovement();
+				this.match.lastHitBy.set(escaper.id, agent.id);
+				this.match.fsms.get(escaper.id)?.pushEvent({ type: 'HIT_RECEIVED', stunFrames: PULL_DOWN_STUN_FRAMES, damage: 0 });
+			} else {
+				// Missed the grab — try again shortly
+				this.match.decisionTimers.set(agent.id, DECISION_INTERVAL);
+			}
+			return true;
+		}
+
+		const intent = this.escapeIntents.get(agent.id);
+		if (intent) {
+			if (this.match.state.tick - intent.sinceTick < ESCAPE_INTENT_TIMEOUT) return true;
+			this.escapeIntents.delete(agent.id);
+			return false;
+		}
+
+		if (escape || !this.match.allows('escape')) return false;
+		const opponentState = this.match.fsms.get(opponent.id)?.stateId;
+		const opponentDown = opponentState === 'KNOCKED_DOWN' || opponentState === 'GETTING_UP';
+		// A downed opponent within reach is better covered than run from
+		if (opponentDown && distance <= PIN_RANGE && this.match.allows('pinfall')) return false;
+		if (!this.wantsEscape(agent, opponent, opponentDown, opponentState === 'STUNNED')) {
+			return false;
+		}
+		this.setEscapeIntent(agent, this.pickExit(agent).method);
+		return true;
+	}
+
+	/** Head for the cage door, or the nearest wall to climb. */
+	setEscapeIntent(agent: AgentState, method: EscapeExit['method']): void {
+		if (this.match.state.escape || !this.match.allows('escape')) return;
+		this.escapeIntents.set(agent.id, { method, x: exitX(method, agent.positionX), sinceTick: this.match.state.tick });
+	}
+
+	/** Start climbing the wall or going out the door. */
+	startEscape(agent: AgentState, method: EscapeExit['method']): void {
+		this.escapeIntents.delete(agent.id);
+		if (this.match.state.escape) return;
+
+		this.match.movers.get(agent.id)?.stopMovement();
+		this.match.fsms.get(agent.id)?.pushEvent({ type: 'REQUEST_ESCAPE', maxFrames: ESCAPE_SAFETY_FRAMES });
+		this.match.state = matchReducer(this.match.state, { type: 'ESCAPE_START', agentId: agent.id, method });
+	}
+
+	/**
+	 * Advance the escape in progress by one tick.
+	 * A wrestler who left ESCAPING (hit, pulled down, or gave up) is back
+	 * in the fight; one pulled off high on the wall falls from the top.
+	 * Reaching full progress wins the match by escape.
+	 */
+	update(): void {
+		const escape = this.match.state.escape;
+		if (!escape || !this.match.state.running) return;
+
+		const escaper = this.match.state.agents.find((a) => a.id === escape.agentId)!;
+		const fsm = this.match.fsms.get(escaper.id);
+		if (fsm?.stateId !== 'ESCAPING') {
+			const interrupted = fsm?.stateId === 'STUNNED' || fsm?.stateId === 'KNOCKED_DOWN';
+			const fell = interrupted && escape.method === 'climb' && escape.progress >= CLIMB_FALL_PROGRESS;
+			if (fell && fsm?.stateId === 'STUNNED') {
+				fsm.pushEvent({ type: 'KNOCKDOWN', durationFrames: CAGE_FALL_KNOCKDOWN_FRAMES });
+			}
+			this.match.state = matchReducer(this.match.state, {
+				type: 'ESCAPE_INTERRUPTED',
+				byId: interrupted ? this.match.lastHitBy.get(escaper.id) ?? null : null,
+				fell
+			});
+			return;
+		}
+
+		const progress = Math.min(1, escape.progress + this.escapeRate(escaper, escape.method));
+		this.match.state = matchReducer(this.match.state, {
+			type: 'ESCAPE_PROGRESS',
+			progress,
+			staminaDrain: this.escapeStaminaCost(escape.method)
+		});
+		if (progress >= 1) {
+			this.match.awardFall(escaper.id, opponentOf(this.match.state, escaper).id, 'escape');
+		}
+	}
+
+	/** Damage (and a hit flash) for a wrestler knocked hard into the cage. */
+	slam(agent: AgentState, opponent: AgentState, impactSpeed: number): void {
+		const damage = this.slamDamage(impactSpeed);
+		this.match.state = matchReducer(this.match.state, {
+			type: 'CAGE_SLAM',
+			agentId: agent.id,
+			attackerId: opponent.id,
+			damage
+		});
+		this.match.emitHit({
+			positionX: agent.positionX,
+			positionZ: agent.positionZ,
+			attackerId: opponent.id,
+			defenderId: agent.id,
+			damage,
+			critical: false,
+			reversed: false,
+			blocked: false,
+			intensity: clamp(damage / 12, 0.2, 1.0)
+		});
+	}
+
+	/**
+	 * Escape progress per tick (1 = out of the cage).
+	 */
+	private escapeRate(
+agent: AgentState, method: EscapeExit['method']): number {
+		const staminaPct = agent.stamina / agent.maxStamina;
+		const healthPct = agent.health / agent.maxHealth;
+		if (method === 'door') {
+			return (0.8 + staminaPct * 0.1 + healthPct * 0.1) / DOOR_TICKS;
+		}
+		const buildFactor = agent.build === 'light' ? 1.2 : agent.build === 'heavy' ? 0.8 : 1.0;
+		return ((0.5 + staminaPct * 0.3 + healthPct * 0.2) * buildFactor) / CLIMB_TICKS;
+	}
+
+	/** Stamina an escape attempt costs per tick. */
+	private escapeStaminaCost(method: EscapeExit['method']): number {
+		return method === 'climb' ? CLIMB_STAMINA_PER_TICK : DOOR_STAMINA_PER_TICK;
+	}
+
+	/**
+	 * The quickest way out from a position: the door, or climbing the nearest wall.
+	 */
+	private pickExit(agent: AgentState): EscapeExit {
+		const climbX = exitX('climb', agent.positionX);
+		const doorX = exitX('door', agent.positionX);
+
+		const walkTicks = (x: number) => (Math.abs(x - agent.positionX) / MAX_MOVE_SPEED) * 60;
+		const climbTicks = walkTicks(climbX) + 1 / this.escapeRate(agent, 'climb');
+		const doorTicks = walkTicks(doorX) + 1 / this.escapeRate(agent, 'door');
+
+		return doorTicks <= climbTicks
+			? { method: 'door', x: doorX }
+			: { method: 'climb', x: climbX };
+	}
+
+	/**
+	 * Whether an AI wrestler makes a break for it on this decision.
+	 */
+	private wantsEscape(agent: AgentState, opponent: AgentState, opponentDown: boolean, opponentStunned: boolean): boolean {
+		const healthPct = agent.health / agent.maxHealth;
+		const opponentHealthPct = opponent.health / opponent.maxHealth;
+
+		// A fresh opponent catches you on the wall — wear them down first.
+		// One who can barely stand is as good as down.
+		const opponentSpent = opponentHealthPct < 0.1;
+		let chance = opponentDown ? 0.6 : opponentStunned ? 0.05 : opponentSpent ? 0.1 : 0;
+		chance *= clamp((1 - opponentHealthPct) * 2.5, 0, 1);
+		// Losing the fight: get out while you still can
+		if (healthPct < opponentHealthPct - 0.25) chance += 0.02;
+		chance *= clamp(1.3 - agent.personality.aggression * 0.6, 0.5, 1.3);
+
+		return this.rng.chance(clamp(chance, 0, 0.5));
+	}
+
+	/**
+	 * Whether the opponent manages to drag an escaping wrestler back in on this try.
+	 * A battered, tired puller often can't.
+	 */
+	private rollPullDown(puller: AgentState, escaper: AgentState): boolean {
+		const pullerHealth = puller.health / puller.maxHealth;
+		const pullerStamina = puller.stamina / puller.maxStamina;
+		const escaperStamina = escaper.stamina / escaper.maxStamina;
+		const chance = 0.05 + pullerHealth * 0.15 + pullerStamina * 0.1
+			+ (1 - escaperStamina) * 0.1 + puller.personality.aggression * 0.1;
+		return this.rng.chance(clamp(chance, 0.05, 0.35));
+	}
+
+	/** Damage for hitting the cage wall at a given speed. */
+	private slamDamage(impactSpeed: number): number {
+		return CAGE_SLAM_BASE_DAMAGE + Math.max(0, impactSpeed - CAGE_IMPACT_MIN_SPEED) * CAGE_SLAM_DAMAGE_PER_SPEED;
+	}
+}
+
+/**
+ * Where a wrestler at a position has to stand to escape: at the door, or
+ * against the nearest wall to climb.
+ */
+export function exitX(method: EscapeExit['method'], positionX: number): number {
+	if (method === 'door') return CAGE_DOOR_SIDE * RING_HALF_X;
+	return (positionX >= 0 ? 1 : -1) * RING_HALF_X;
+}
+
+export {
+	CAGE_DOOR_SIDE,
+	ESCAPE_REACH,
+	CLIMB_TICKS,
+	DOOR_TICKS,
+	CLIMB_STAMINA_PER_TICK,
+	DOOR_STAMINA_PER_TICK,
+	CLIMB_FALL_PROGRESS,
+	PULL_DOWN_RANGE,
+	CAGE_SLAM_BASE_DAMAGE,
+	CAGE_SLAM_DAMAGE_PER_SPEED
+};
@@ -3,6 +3,7 @@ import type { MoveDef } from '../../combat/MoveRegistry';
 import type { EffectiveModifiers } from './TraitFormulas';
 import { SeededRandom } from '../../utils/random';
 import { clamp } from '../../utils/math';
+import { ringDistance } from './movement';
 
 /**
  * Result of resolving a combat exchange between two agents.
@@ -65,10 +66,11 @@ export class CombatResolver {
 		defenderMods?: EffectiveModifiers
 	): CombatResult {
 		// ── Distance check ──
-		const distance = Math.abs(attacker.positionX - defender.positionX);
+		// The ropes are in the way of anyone who isn't where the defender is
+		const distance = ringDistance(attacker, defender);
 		const effectiveRange = move.hitbox.range;
 
-		if (distance > effectiveRange) {
+		if (distance > effectiveRange || attacker.location !== defender.location) {
 			return {
 				hit: false,
 				damage: 0,
@@ -105,8 +107,10 @@ export class CombatResolver {
 		}
 
 		// ── Reversal check ──
-		// Idle or moving defenders can attempt reversals (requires readiness)
-		if (move.canBeReversed && (defender.phase === 'idle' || defender.phase === 'moving')) {
+		// Idle or moving defenders can attempt reversals (requires readiness),
+		// and so can a grappled defender countering a move out of the hold
+		const canReverse = defender.phase === 'idle' || defender.phase === 'moving' || defender.phase === 'grappled';
+		if (move.canBeReversed && canReverse) {
 			const baseReversalChance = 0.12;
 			const skillBonus = defender.personality.reversalSkill * 0.18;
 			const windowBonus = (move.reversalWindow / 10) * 0.08;
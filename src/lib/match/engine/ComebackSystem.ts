@@ -2,6 +2,7 @@ import type { AgentState, MatchState } from './MatchState';
 import type { AgentPsychState } from './PsychologyTypes';
 import { SeededRandom } from '../../utils/random';
 import { clamp } from '../../utils/math';
+import { opponentOf } from './TargetingSystem';
 
 /**
  * Comeback duration in ticks (5 seconds at 60fps).
@@ -37,6 +38,7 @@ const COMEBACK_DEFICIT_THRESHOLD = 0.25;
  *   - Desperate emotional state: +100% bonus (nothing to lose)
  *   - Frustrated emotional state: −50% penalty (too unfocused)
  *   - Positive crowd heat × crowd sensitivity: bonus (crowd willing them back)
+ *   - A loud crowd behind a face: bonus (the building rallies them)
  *   - Near-knockdown survival count: small bonus per event (narrative tension)
  *   - High confidence: small penalty (less need for dramatic comeback)
  *
@@ -60,11 +62,12 @@ export class ComebackSystem {
 
 		for (const agent of state.agents) {
 			if (agent.comebackActive) return null; // only one at a time
+			if (agent.location !== 'ring') continue;
 
 			const healthPct = agent.health / agent.maxHealth;
 			if (healthPct > COMEBACK_HEALTH_THRESHOLD) continue;
 
-			const opponent = state.agents.find((a) => a.id !== agent.id)!;
+			const opponent = opponentOf(state, agent);
 			const oppHealthPct = opponent.health / opponent.maxHealth;
 			const deficit = oppHealthPct - healthPct;
 
@@ -75,7 +78,8 @@ export class ComebackSystem {
 			const baseChance = 0.0020; // per tick, works out to ~12% over a second
 			const deficitBonus = clamp((deficit - 0.25) * 0.003, 0, 0.0025);
 			// Late match bonus: comebacks are more likely as time runs out
-			const timeBonus = (state.elapsed / state.timeLimit) * 0.001;
+			// (untimed matches get no late-match bonus)
+			const timeBonus = state.timeLimit > 0 ? (state.elapsed / state.timeLimit) * 0.001 : 0;
 
 			// ── Psychology-aware comeback modifiers ──
 			const psych: AgentPsychState = agent.psych;
@@ -95,6 +99,11 @@ export class ComebackSystem {
 				? psych.crowdHeat * agent.psychProfile.crowdSensitivity * 0.002
 				: 0;
 
+			// A hot crowd rallies a face — nobody rallies behind a heel
+			const popBonus = agent.alignment === 'face'
+				? (state.crowd.pop / 100) * agent.psychProfile.crowdSensitivity * 0.0015
+				: 0;
+
 			// Near-knockdown survival builds narrative tension (more near-falls = audience invested)
 			const knockdownBonus = psych.nearKnockdowns * 0.0005;
 
@@ -103,7 +112,7 @@ export class ComebackSystem {
 
 			const chance = baseChance + deficitBonus + timeBonus
 				+ clutchBonus + desperateBonus + frustratedPenalty
-				+ crowdBonus + knockdownBonus + confidencePenalty;
+				+ crowdBonus + popBonus + knockdownBonus + confidencePenalty;
 
 			if (this.rng.chance(chance)) {
 				return agent.id;
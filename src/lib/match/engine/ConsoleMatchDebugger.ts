@@ -1,5 +1,7 @@
 import type { MatchDebugger, DebugPhase } from './MatchLoop';
 import type { MatchState } from './MatchState';
+import { opponentOf } from './TargetingSystem';
+import { ringDistance } from './movement';
 
 /**
  * ConsoleMatchDebugger — diagnostic trace logger for the match loop.
@@ -53,12 +55,13 @@ export class ConsoleMatchDebugger implements MatchDebugger {
 		// ── Log distance once per second ──
 		if (phase === 'movement' && state.tick - this.lastDistanceLogTick >= this.distanceLogInterval) {
 			this.lastDistanceLogTick = state.tick;
-			const [a, b] = state.agents;
-			const distance = Math.abs(a.positionX - b.positionX).toFixed(2);
+			const a = state.agents[0];
+			const b = opponentOf(state, a);
+			const distance = ringDistance(a, b).toFixed(2);
 			console.log(
 				`[DIST] tick=${state.tick} distance=${distance} ` +
-				`| ${a.name}: x=${a.positionX.toFixed(2)} phase=${a.phase} hp=${a.health}/${a.maxHealth} stam=${a.stamina.toFixed(0)} ` +
-				`| ${b.name}: x=${b.positionX.toFixed(2)} phase=${b.phase} hp=${b.health}/${b.maxHealth} stam=${b.stamina.toFixed(0)}`
+				`| ${a.name}: x=${a.positionX.toFixed(2)} z=${a.positionZ.toFixed(2)} phase=${a.phase} hp=${a.health}/${a.maxHealth} stam=${a.stamina.toFixed(0)} ` +
+				`| ${b.name}: x=${b.positionX.toFixed(2)} z=${b.positionZ.toFixed(2)} phase=${b.phase} hp=${b.health}/${b.maxHealth} stam=${b.stamina.toFixed(0)}`
 			);
 		}
 
@@ -68,8 +71,8 @@ export class ConsoleMatchDebugger implements MatchDebugger {
 				const prev = this.prevPhase.get(agent.id) ?? agent.phase;
 				// Detect when agent transitions to a new action-phase from idle/moving
 				if ((prev === 'idle' || prev === 'moving') && agent.phase !== prev) {
-					const opponent = state.agents.find((a) => a.id !== agent.id)!;
-					const dist = Math.abs(agent.positionX - opponent.positionX).toFixed(2);
+					const opponent = opponentOf(state, agent);
+					const dist = ringDistance(agent, opponent).toFixed(2);
 					console.log(
 						`[DECIDE] ${agent.name}: ${prev} → ${agent.phase} dist=${dist}`
 					);
@@ -0,0 +1,493 @@
+import type {
+	AgentState,
+	CrowdState,
+	CrowdChantKind,
+	MatchLogEntry,
+	MatchState
+} from './MatchState';
+import type { Alignment } from '../../utils/types';
+import { SeededRandom } from '../../utils/random';
+import { clamp } from '../../utils/math';
+import { isTeammate } from './TargetingSystem';
+import { matchReducer } from './MatchReducer';
+import type { MatchContext } from './MatchContext';
+
+/**
+ * Where the crowd's pop settles when nothing is happening.
+ */
+const BASELINE_POP = 35;
+
+/**
+ * How much the resting pop rises per minute as the crowd gets into the match,
+ * and the most it can rise.
+ */
+const BASELINE_POP_PER_MINUTE = 3;
+const BASELINE_POP_MAX_RISE = 20;
+
+/**
+ * Fraction of the gap back to the resting pop closed each tick (~4 second half-life).
+ */
+const POP_DECAY = 0.003;
+
+/**
+ * Fraction of the gap back to a wrestler's starting heat closed each tick
+ * (~40 second half-life). The crowd's opinion outlasts its volume.
+ */
+const HEAT_DECAY = 0.0003;
+
+/**
+ * Heat each alignment walks out with.
+ */
+const STARTING_HEAT: Record<Alignment, number> = { face: 40, heel: -40, tweener: 0 };
+
+/**
+ * Pop for each logged event the crowd reacts to.
+ */
+const POP_VALUES: Record<string, number> = {
+	move_hit: 0.5,
+	reversal: 5,
+	combo_complete: 5,
+	knockdown: 4,
+	taunt: 2,
+	finisher_start: 6,
+	finisher_impact: 20,
+	finisher_counter: 18,
+	pin_start: 3,
+	pin_kickout: 3,
+	near_fall: 25,
+	submission_start: 4,
+	rope_break: 8,
+	submission_escape: 12,
+	hold_break_up: 10,
+	double_team: 6,
+	comeback: 18,
+	climb: 5,
+	knocked_off_top: 8,
+	dive: 15,
+	throw_out: 4,
+	barricade_slam: 6,
+	cage_slam: 6,
+	escape_start: 6,
+	escape_interrupted: 8,
+	rumble_entry: 10,
+	elimination: 15,
+	skin_the_cat: 15,
+	fall: 30,
+	dq: 15
+};
+
+/**
+ * How each alignment's heat moves, per point of heat, when the crowd sees them:
+ *   - CHEER:     pull off something impressive (heels get booed for it)
+ *   - SYMPATHY:  take a beating (nobody feels sorry for a heel)
+ *   - TAUNT:     play to the crowd
+ *   - COMEBACK:  fight back from the brink
+ * Cheating costs everyone heat, faces included.
+ */
+const CHEER: Record<Alignment, number> = { face: 1, tweener: 0.5, heel: -0.5 };
+const SYMPATHY: Record<Alignment, number> = { face: 0.5, tweener: 0.25, heel: 0 };
+const TAUNT: Record<Alignment, number> = { face: 1, tweener: 0.5, heel: -1.5 };
+const COMEBACK: Record<Alignment, number> = { face: 1, tweener: 0.6, heel: 0.2 };
+
+/**
+ * Pop at or above which a reaction is called out in the match log.
+ * Boos for cheating are always called out.
+ */
+const LOUD_POP = 15;
+
+/**
+ * Chants: the crowd checks for one every CHANT_CHECK_INTERVAL ticks, at
+ * least CHANT_COOLDOWN_TICKS after the last one started, and each lasts
+ * CHANT_DURATION_TICKS.
+ */
+const CHANT_CHECK_INTERVAL = 60;
+const CHANT_COOLDOWN_TICKS = 900;
+const CHANT_DURATION_TICKS = 300;
+
+/**
+ * Pop a hot crowd needs to chant "This is awesome!".
+ */
+const AWESOME_POP = 75;
+
+/**
+ * Heat a face needs for "Let's go!", and a heel needs (at most) for "You suck!".
+ */
+const LETS_GO_HEAT = 50;
+const YOU_SUCK_HEAT = -55;
+
+/**
+ * How long (seconds) an untimed match runs before a close one gets "Fight forever!".
+ */
+const FIGHT_FOREVER_SECONDS = 480;
+
+/**
+ * A crowd reaction to be called out in the match log (dispatched as CROWD_POP).
+ */
+export interface CrowdCall {
+	/** Log entry type (or pop key) the crowd reacted to */
+	trigger: string;
+	/** Wrestler the crowd reacted to (null for the match itself) */
+	agentId: string | null;
+	reaction: 'cheer' | 'boo';
+	pop: number;
+}
+
+/**
+ * The crowd after a tick: settled toward rest, then moved by what happened.
+ */
+export interface CrowdUpdate {
+	pop: number;
+	heat: Record<string, number>;
+	calls: CrowdCall[];
+}
+
+/**
+ * A chant the crowd breaks into (dispatched as CROWD_CHANT).
+ */
+export interface CrowdChantCall {
+	kind: CrowdChantKind;
+	agentId: string | null;
+	durationTicks: number;
+}
+
+/**
+ * CrowdSystem — the live crowd in the building.
+ *
+ * The crowd has one pop (how loud it is, 0-100) and a heat per wrestler
+ * (-100 to 100). Faces walk out cheered and heels booed (STARTING_HEAT).
+ *
+ * Every tick the crowd reads the new match log entries:
+ *   - Big spots pop it: finishers, near-falls, dives, comebacks (POP_VALUES)
+ *   - Heat moves with alignment: a face's offense is cheered and a heel's
+ *     booed, a face taking a beating draws sympathy, faces are cheered
+ *     for comebacks and heels booed for taunting
+ *   - Cheating — a heel's hand on the ropes during a cover, double-teams
+ *     behind the referee's back, a DQ — draws boos whoever does it
+ * Pop settles back toward a resting level that rises as the match goes
+ * on; heat drifts back toward where the wrestler started.
+ *
+ * Chants break out now and then:
+ *   - "This is awesome!" when the crowd is hot
+ *   - "Fight forever!" for a close match running long
+ *   - "Let's go!" for a beloved wrestler who is losing
+ *   - "You suck!" at a heel with the whole building against them
+ *
+ * The crowd feeds back into the match through psychHeat (each wrestler's
+ * AgentPsychState.crowdHeat, which drives EmotionMachine, PinSystem and
+ * ComebackSystem) and the match rating.
+ *
+ * The match loop calls update once a tick, after everything else has been logged.
+ */
+export class CrowdSystem {
+	/** Index of the first match log entry the crowd hasn't reacted to yet. */
+	private logIndex = 0;
+
+	constructor(
+		private readonly rng: SeededRandom,
+		private readonly match: MatchContext
+	) {}
+
+	/**
+	 * Settle the crowd and let it react to the new match log entries.
+	 * Loud reactions and chants go into the log themselves (the crowd
+	 * doesn't react to its own noise).
+	 */
+	update(): void {
+		const entries = this.match.state.log.slice(this.logIndex);
+		const update = this.settle(this.match.state, entries);
+		this.match.state = matchReducer(this.match.state, { type: 'CROWD_UPDATE', pop: update.pop, heat: update.heat });
+		for (const call of update.calls) {
+			this.match.state = matchReducer(this.match.state, { type: 'CROWD_POP', ...call });
+		}
+
+		const chant = this.rollChant(this.match.state);
+		if (chant) this.match.state = matchReducer(this.match.state, { type: 'CROWD_CHANT', ...chant });
+		this.logIndex = this.match.state.log.length;
+	}
+
+	/**
+	 * Settle the crowd for one tick, then react to new log entries.
+	 *
+	 * @param entries - Log entries added since the last update
+	 */
+	private settle(state: MatchState, entries: MatchLogEntry[]): CrowdUpdate {
+		const crowd = state.crowd;
+		const restingPop = BASELINE_POP
+			+ Math.min(BASELINE_POP_MAX_RISE, (state.elapsed / 60) * BASELINE_POP_PER_MINUTE);
+		let pop = crowd.pop + (restingPop - crowd.pop) * POP_DECAY;
+
+		const heat: Record<string, number> = {};
+		for (const agent of state.agents) {
+			const current = crowd.heat[agent.id] ?? STARTING_HEAT[agent.alignment];
+			heat[agent.id] = current + (STARTING_HEAT[agent.alignment] - current) * HEAT_DECAY;
+		}
+
+		const calls: CrowdCall[] = [];
+		for (const entry of entries) {
+			const reaction = this.react(state, entry);
+			if (!reaction) continue;
+			pop = clamp(pop + reaction.pop, 0, 100);
+			for (const [id, delta] of Object.entries(reaction.heat)) {
+				if (heat[id] !== undefined) heat[id] = clamp(heat[id] + delta, -100, 100);
+			}
+			if (reaction.pop >= LOUD_POP || reaction.cheating) {
+				calls.push({
+					trigger: reaction.trigger,
+					agentId: reaction.agentId,
+					reaction: reaction.agentId && (reaction.heat[reaction.agentId] ?? 0) < 0 ? 'boo' : 'cheer',
+					pop: reaction.pop
+				});
+			}
+		}
+
+		return { pop, heat, calls };
+	}
+
+	/**
+	 * Whether the crowd breaks into a chant this tick (null if not).
+	 * Never during a pin count, never over another chant.
+	 */
+	private rollChant(state: MatchState): CrowdChantCall | null {
+		const crowd = state.crowd;
+		if (state.tick % CHANT_CHECK_INTERVAL !== 0 || crowd.chant) return null;
+		// The first chant waits as long after the bell as the next waits after it
+		const sinceLastChant = crowd.lastChantTick < 0 ? state.tick : state.tick - crowd.lastChantTick;
+		if (sinceLastChant < CHANT_COOLDOWN_TICKS) return null;
+		if (state.hold?.type === 'pin') return null;
+
+		const chant = (kind: CrowdChantKind, agentId: string | null): CrowdChantCall =>
+			({ kind, agentId, durationTicks: CHANT_DURATION_TICKS });
+
+		if (crowd.pop >= AWESOME_POP && this.rng.chance(0.3)) return chant('this_is_awesome', null);
+
+		const fighters = state.agents.filter((a) => a.location !== 'backstage' && a.legal);
+		if (this.runningLong(state) && this.isClose(fighters) && this.rng.chance(0.2)) {
+			return chant('fight_forever', null);
+		}
+
+		for (const agent of fighters) {
+			const heat = crowd.heat[agent.id] ?? 0;
+			if (agent.alignment === 'face' && heat >= LETS_GO_HEAT && this.isLosing(agent, fighters)
+				&& this.rng.chance(0.15)) {
+				return chant('lets_go', agent.id);
+			}
+			if (agent.alignment === 'heel' && heat <= YOU_SUCK_HEAT && this.rng.chance(0.1)) {
+				return chant('you_suck', agent.id);
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * The crowd as a wrestler feels it (AgentPsychState.crowdHeat, -1 to 1).
+	 * A quiet crowd matters less than a loud one, and heels shrug off half
+	 * of the boos — they came out for them.
+	 */
+	psychHeat(agent: AgentState, crowd: CrowdState): number {
+		const heat = (crowd.heat[agent.id] ?? 0) / 100;
+		const volume = 0.5 + crowd.pop / 100;
+		const heelDamping = agent.alignment === 'heel' && heat < 0 ? 0.5 : 1;
+		return clamp(heat * volume * heelDamping, -1, 1);
+	}
+
+	/** What the crowd makes of one log entry (null if it doesn't care). */
+	private react(state: MatchState, entry: MatchLogEntry): Reaction | null {
+		const d = entry.data;
+		const id = (key: string): string | null => (typeof d[key] === 'string' ? d[key] as string : null);
+		const r = new ReactionBuilder(state, entry.type);
+
+		switch (entry.type) {
+			case 'move_hit': {
+				const damage = typeof d.damage === 'number' ? d.damage : 0;
+				return r.pop(POP_VALUES.move_hit + Math.min(1.5, damage * 0.05))
+					.heat(id('attackerId'), CHEER, 0.4).heat(id('defenderId'), SYMPATHY, 0.3).done();
+			}
+			case 'reversal':
+				return r.pop(POP_VALUES.reversal).heat(id('defenderId'), CHEER, 2).done();
+			case 'combo_complete':
+				return r.pop(POP_VALUES.combo_complete).heat(id('agentId'), CHEER, 2).done();
+			case 'knockdown':
+				return r.pop(POP_VALUES.knockdown).heat(id('agentId'), SYMPATHY, 1.5).done();
+			case 'taunt':
+				return r.pop(POP_VALUES.taunt).heat(id('agentId'), TAUNT, 2).done();
+			case 'finisher_start':
+				return r.pop(POP_VALUES.finisher_start).done();
+			case 'finisher_impact':
+				return r.pop(POP_VALUES.finisher_impact)
+					.heat(id('attackerId'), CHEER, 5).heat(id('defenderId'), SYMPATHY, 2).done();
+			case 'finisher_counter':
+				return r.pop(POP_VALUES.finisher_counter).heat(id('defenderId'), CHEER, 6).done();
+			case 'pin_start':
+				return d.leverage
+					? r.pop(POP_VALUES.pin_start).cheat(id('attackerId'), 10).done()
+					: r.pop(POP_VALUES.pin_start).done();
+			case 'pin_kickout':
+				return d.nearFall
+					? r.trigger('near_fall').pop(POP_VALUES.near_fall).heat(id('defenderId'), CHEER, 6).done()
+					: r.pop(POP_VALUES.pin_kickout).done();
+			case 'submission_start':
+				return r.pop(POP_VALUES.submission_start).done();
+			case 'rope_break':
+				return r.pop(POP_VALUES.rope_break).heat(id('defenderId'), CHEER, 2).done();
+			case 'submission_escape':
+				return r.pop(POP_VALUES.submission_escape).heat(id('defenderId'), CHEER, 4).done();
+			case 'hold_break_up':
+				return r.pop(POP_VALUES.hold_break_up).heat(id('breakerId'), CHEER, 4).done();
+			case 'double_team': {
+				// Two on one behind the referee's back: heels cheat, faces get away with it
+				r.pop(POP_VALUES.double_team);
+				const attackerIds = Array.isArray(d.attackerIds) ? d.attackerIds as string[] : [];
+				for (const attackerId of attackerIds) {
+					if (this.alignmentOf(state, attackerId) === 'heel') r.cheat(attackerId, 6);
+					else r.heat(attackerId, CHEER, 2);
+				}
+				return r.done();
+			}
+			case 'comeback':
+				return r.pop(POP_VALUES.comeback).heat(id('agentId'), COMEBACK, 10).done();
+			case 'climb':
+				return r.pop(POP_VALUES.climb).done();
+			case 'knocked_off_top':
+				return r.pop(POP_VALUES.knocked_off_top).heat(id('agentId'), SYMPATHY, 1).done();
+			case 'ringside_exit':
+				if (d.how === 'dive') return r.trigger('dive').pop(POP_VALUES.dive).heat(id('agentId'), CHEER, 4).done();
+				if (d.how === 'thrown') return r.pop(POP_VALUES.throw_out).heat(id('byId'), CHEER, 1).done();
+				return null;
+			case 'barricade_slam':
+				return r.pop(POP_VALUES.barricade_slam).heat(id('agentId'), SYMPATHY, 1).done();
+			case 'cage_slam':
+				return r.pop(POP_VALUES.cage_slam).heat(id('agentId'), SYMPATHY, 1).done();
+			case 'escape_start':
+				return r.pop(POP_VALUES.escape_start).done();
+			case 'escape_interrupted':
+				return r.pop(POP_VALUES.escape_interrupted).done();
+			case 'rumble_entry':
+				return r.pop(POP_VALUES.rumble_entry).heat(id('agentId'), CHEER, 2).done();
+			case 'elimination':
+				return r.pop(POP_VALUES.elimination).heat(id('eliminatorId'), CHEER, 4).done();
+			case 'skin_the_cat':
+				return r.pop(POP_VALUES.skin_the_cat).heat(id('agentId'), CHEER, 5).done();
+			case 'fall':
+				return d.method === 'dq'
+					? r.trigger('dq').pop(POP_VALUES.dq).cheat(id('loserId'), 25).done()
+					: r.pop(POP_VALUES.fall).heat(id('winnerId'), CHEER, 8).done();
+			default:
+				return null;
+		}
+	}
+
+	private alignmentOf(state: MatchState, agentId: string): Alignment | null {
+		return state.agents.find((a) => a.id === agentId)?.alignment ?? null;
+	}
+
+	/** Past FIGHT_FOREVER_SECONDS, or 60% through the time limit. */
+	private runningLong(state: MatchState): boolean {
+		return state.timeLimit > 0
+			? state.elapsed >= state.timeLimit * 0.6
+			: state.elapsed >= FIGHT_FOREVER_SECONDS;
+	}
+
+	/** Everyone still fighting is worn down and within 15% health of each other. */
+	private isClose(fighters: AgentState[]): boolean {
+		if (fighters.length < 2) return false;
+		const health = fighters.map((a) => a.health / a.maxHealth);
+		return Math.max(...health) < 0.5 && Math.max(...health) - Math.min(...health) <= 0.15;
+	}
+
+	/** At least 20% health behind the best-off opponent. */
+	private isLosing(agent: AgentState, fighters: AgentState[]): boolean {
+		const healthPct = agent.health / agent.maxHealth;
+		return fighters.some((a) => a.id !== agent.id && !isTeammate(a, agent)
+			&& a.health / a.maxHealth >= healthPct + 0.2);
+	}
+}
+
+/** The crowd before the bell. */
+export function createCrowdState(agents: AgentState[]): CrowdState {
+	return {
+		pop: BASELINE_POP,
+		heat: Object.fromEntries(agents.map((a) => [a.id, STARTING_HEAT[a.alignment]])),
+		chant: null,
+		lastChantTick: -1,
+		meanPop: BASELINE_POP,
+		chants: 0
+	};
+}
+
+/** What the crowd makes of one log entry. */
+interface Reaction {
+	trigger: string;
+	/** Wrestler the crowd reacted to most */
+	agentId: string | null;
+	pop: number;
+	heat: Record<string, number>;
+	cheating: boolean;
+}
+
+/**
+ * Builds a Reaction. The first wrestler given heat is the one the crowd
+ * reacted to.
+ */
+class ReactionBuilder {
+	private readonly reaction: Reaction;
+
+	constructor(private readonly state: MatchState, trigger: string) {
+		this.reaction = { trigger, agentId: null, pop: 0, heat: {}, cheating: false };
+	}
+
+	trigger(trigger: string): this {
+		this.reaction.trigger = trigger;
+		return this;
+	}
+
+	pop(amount: number): this {
+		this.reaction.pop += amount;
+		return this;
+	}
+
+	/** Move a wrestler's heat by amount, scaled for their alignment. */
+	heat(agentId: string | null, scale: Record<Alignment, number>, amount: number): this {
+		const agent = agentId ? this.state.agents.find((a) => a.id === agentId) : undefined;
+		if (!agent) return this;
+		return this.addHeat(agent.id, scale[agent.alignment] * amount);
+	}
+
+	/** The crowd caught a wrestler cheating. */
+	cheat(agentId: string | null, amount: number): this {
+		if (!agentId) return this;
+		this.reaction.cheating = true;
+		return this.addHeat(agentId, -amount);
+	}
+
+	done(): Reaction {
+		return this.reaction;
+	}
+
+	private addHeat(agentId: string, delta: number): this {
+		this.reaction.heat[agentId] = (this.reaction.heat[agentId] ?? 0) + delta;
+		this.reaction.agentId ??= agentId;
+		return this;
+	}
+}
+
+export {
+	BASELINE_POP,
+	BASELINE_POP_PER_MINUTE,
+	BASELINE_POP_MAX_RISE,
+	POP_DECAY,
+	HEAT_DECAY,
+	STARTING_HEAT,
+	POP_VALUES,
+	CHEER,
+	SYMPATHY,
+	TAUNT,
+	COMEBACK,
+	LOUD_POP,
+	CHANT_CHECK_INTERVAL,
+	CHANT_COOLDOWN_TICKS,
+	CHANT_DURATION_TICKS,
+	AWESOME_POP,
+	LETS_GO_HEAT,
+	YOU_SUCK_HEAT,
+	FIGHT_FOREVER_SECONDS
+};
@@ -0,0 +1,239 @@
+import type { AgentState, MatchState } from './MatchState';
+import { MatchLoop, type MatchDebugger, type MatchLoopConfig } from './MatchLoop';
+import { hashMatchState } from './StateHash';
+
+/**
+ * A recorded run of a match: its state hash every `interval` ticks.
+ */
+export interface DeterminismTrace {
+	/** Ticks between recorded hashes (1 = every tick) */
+	interval: number;
+	/** hashes[i] is the state hash after tick (i + 1) × interval */
+	hashes: number[];
+	/** Agent states at the same ticks, when recorded with keepAgents (needed for field diffs) */
+	agents: AgentState[][] | null;
+	/** Ticks the match ran for */
+	ticks: number;
+	/** Hash of the final state */
+	finalHash: number;
+}
+
+/** One AgentState field that differs between two runs. */
+export interface AgentFieldDiff {
+	agentId: string;
+	/** Dotted path into AgentState, e.g. 'psych.confidence' ('' = the whole agent) */
+	path: string;
+	expected: unknown;
+	actual: unknown;
+}
+
+/** Where a re-run first stopped matching its recording. */
+export interface DesyncReport {
+	/**
+	 * First recorded tick whose state differs. With an interval above 1 the
+	 * run went wrong somewhere after the previous recorded tick.
+	 */
+	tick: number;
+	expectedHash: number;
+	actualHash: number;
+	/** Differing AgentState fields (null when the recording kept no agent states) */
+	agentDiffs: AgentFieldDiff[] | null;
+}
+
+export interface DeterminismResult {
+	deterministic: boolean;
+	/** Ticks the re-run lasted */
+	ticks: number;
+	/** First divergence (null when deterministic) */
+	desync: DesyncReport | null;
+	/** The re-run's final state */
+	final: MatchState;
+}
+
+export interface StateHashRecorderOptions {
+	/** Record every Nth tick (default 1) */
+	interval?: number;
+	/** Also keep every recorded tick's agent states, so desyncs can be diffed (default false) */
+	keepAgents?: boolean;
+}
+
+/**
+ * StateHashRecorder — MatchDebugger that records a DeterminismTrace.
+ *
+ * USAGE:
+ *   const recorder = new StateHashRecorder({ interval: 10 });
+ *   matchLoop.setDebugger(recorder);
+ *   const final = matchLoop.runToEnd();
+ *   const trace = recorder.trace(final);
+ */
+export class StateHashRecorder implements MatchDebugger {
+	private readonly interval: number;
+	private readonly hashes: number[] = [];
+	private readonly agents: AgentState[][] | null;
+
+	constructor(options: StateHashRecorderOptions = {}) {
+		this.interval = options.interval ?? 1;
+		if (!Number.isInteger(this.interval) || this.interval < 1) {
+			throw new Error(`StateHashRecorder: interval must be a positive integer, got ${this.interval}`);
+		}
+		this.agents = options.keepAgents ? [] : null;
+	}
+
+	onTickStart(): void {}
+
+	onPhase(): void {}
+
+	onTickEnd(state: MatchState): void {
+		if (state.tick % this.interval !== 0) return;
+		this.hashes.push(hashMatchState(state));
+		// States are immutable, so keeping references is enough
+		this.agents?.push(state.agents);
+	}
+
+	/**
+	 * The trace so far. Pass the final state (runToEnd() can end a runaway
+	 * match outside a tick, which only the final state shows).
+	 */
+	trace(final: MatchState): DeterminismTrace {
+		return {
+			interval: this.interval,
+			hashes: [...this.hashes],
+			agents: this.agents ? [...this.agents] : null,
+			ticks: final.tick,
+			finalHash: hashMatchState(final)
+		};
+	}
+}
+
+/**
+ * MatchDebugger that re-checks a run against a trace and keeps the first desync.
+ */
+class TraceChecker implements MatchDebugger {
+	desync: DesyncReport | null = null;
+
+	constructor(private readonly reference: DeterminismTrace) {}
+
+	onTickStart(): void {}
+
+	onPhase(): void {}
+
+	onTickEnd(state: MatchState): void {
+		if (this.desync || state.tick % this.reference.interval !== 0) return;
+		const index = state.tick / this.reference.interval - 1;
+		const actualHash = hashMatchState(state);
+		const expectedHash = this.reference.hashes[index];
+		if (expectedHash === actualHash) return;
+
+		const expectedAgents = this.reference.agents?.[index];
+		this.desync = {
+			tick: state.tick,
+			// Past the end of the recording — the reference match was already over
+			expectedHash: expectedHash ?? this.reference.finalHash,
+			actualHash,
+			agentDiffs: expectedAgents ? diffAgentStates(expectedAgents, state.agents) : null
+		};
+	}
+}
+
+/**
+ * DeterminismVerifier — checks that MatchLoop keeps its promise:
+ * same seed + same inputs = identical outcome.
+ *
+ * record() runs a match and keeps its per-tick state hashes; verify()
+ * re-runs it and reports the first tick that differs, with a field-level
+ * diff of the agents when the recording kept them. selfCheck() does both
+ * in one go, catching anything in the engine that doesn't come from the
+ * seed (Math.random, wall-clock time, state shared between matches).
+ *
+ * Input sources are stateful, so each run needs a fresh config — e.g.
+ * from replayLoopConfig() for a recorded match.
+ */
+export class DeterminismVerifier {
+	/** Run a match to the end and record its trace. */
+	static record(config: MatchLoopConfig, options: StateHashRecorderOptions = {}): DeterminismTrace {
+		const loop = new MatchLoop(config);
+		const recorder = new StateHashRecorder(options);
+		loop.setDebugger(recorder);
+		return recorder.trace(loop.runToEnd());
+	}
+
+	/** Re-run a match and compare it against a trace. */
+	static verify(config: MatchLoopConfig, reference: DeterminismTrace): DeterminismResult {
+		const loop = new MatchLoop(config);
+		const checker = new TraceChecker(reference);
+		loop.setDebugger(checker);
+		const final = loop.runToEnd();
+
+		let desync = checker.desync;
+		const finalHash = hashMatchState(final);
+		if (!desync && (final.tick !== reference.ticks || finalHash !== reference.finalHash)) {
+			// Matched every recorded tick but ended differently (ended early,
+			// or diverged after the last recorded tick)
+			desync = {
+				tick: Math.min(final.tick, reference.ticks),
+				expectedHash: reference.finalHash,
+				actualHash: finalHash,
+				agentDiffs: null
+			};
+		}
+		return { deterministic: desync === null, ticks: final.tick, desync, final };
+	}
+
+	/** Run the same match twice and compare, tick by tick. */
+	static selfCheck(makeConfig: () => MatchLoopConfig): DeterminismResult {
+		const reference = DeterminismVerifier.record(makeConfig(), { keepAgents: true });
+		return DeterminismVerifier.verify(makeConfig(), reference);
+	}
+}
+
+/**
+ * Field-level differences between two runs' agents (matched by id).
+ */
+export function diffAgentStates(expected: readonly AgentState[], actual: readonly AgentState[]): AgentFieldDiff[] {
+	const diffs: AgentFieldDiff[] = [];
+	const actualById = new Map(actual.map((a) => [a.id, a]));
+	for (const agent of expected) {
+		const other = actualById.get(agent.id);
+		if (!other) {
+			diffs.push({ agentId: agent.id, path: '', expected: agent, actual: undefined });
+			continue;
+		}
+		diffValue(agent.id, '', agent, other, diffs);
+		actualById.delete(agent.id);
+	}
+	for (const extra of actualById.values()) {
+		diffs.push({ agentId: extra.id, path: '', expected: undefined, actual: extra });
+	}
+	return diffs;
+}
+
+/** One-line summary of a desync, for logs and error messages. */
+export function describeDesync(desync: DesyncReport): string {
+	const head = `desync at tick ${desync.tick} (hash ${hex(desync.expectedHash)} → ${hex(desync.actualHash)})`;
+	if (!desync.agentDiffs) return head;
+	if (desync.agentDiffs.length === 0) return `${head}; agents match, the difference is elsewhere in MatchState`;
+	const fields = desync.agentDiffs.map(
+		(d) => `${d.agentId}${d.path ? '.' + d.path : ''}: ${JSON.stringify(d.expected)} → ${JSON.stringify(d.actual)}`
+	);
+	return `${head}; ${fields.join(', ')}`;
+}
+
+function diffValue(agentId: string, path: string, expected: unknown, actual: unknown, out: AgentFieldDiff[]): void {
+	if (Object.is(expected, actual)) return;
+	if (isRecord(expected) && isRecord(actual) && Array.isArray(expected) === Array.isArray(actual)) {
+		const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+		for (const key of keys) {
+			diffValue(agentId, path ? `${path}.${key}` : key, expected[key], actual[key], out);
+		}
+		return;
+	}
+	out.push({ agentId, path, expected, actual });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null;
+}
+
+function hex(hash: number): string {
+	return hash.toString(16).padStart(8, '0');
+}
@@ -60,6 +60,8 @@ export class EmotionMachine {
 	 *
 	 * @param matchElapsed — seconds elapsed in match (for time-based transitions)
 	 * @param matchTimeLimit — total match time limit in seconds
+	 * @param crowdHeat — how the live crowd feels about the agent (-1 to 1, from CrowdSystem).
+	 *                    Without a crowd, heat is estimated from the flow of the match.
 	 */
 	evaluate(
 		agent: AgentState,
@@ -67,7 +69,8 @@ export class EmotionMachine {
 		psych: AgentPsychState,
 		profile: PsychProfile,
 		matchElapsed?: number,
-		matchTimeLimit?: number
+		matchTimeLimit?: number,
+		crowdHeat?: number
 	): AgentPsychState {
 		let newPsych = { ...psych, emotionDuration: psych.emotionDuration + 1 };
 
@@ -75,7 +78,7 @@ export class EmotionMachine {
 		newPsych.confidence = this.updateConfidence(agent, opponent, psych, profile);
 
 		// Update crowd heat
-		newPsych.crowdHeat = this.updateCrowdHeat(agent, opponent, psych);
+		newPsych.crowdHeat = crowdHeat ?? this.updateCrowdHeat(agent, opponent, psych);
 
 		// Update momentum trend
 		newPsych.momentumTrend = this.computeMomentumTrend(agent, psych);
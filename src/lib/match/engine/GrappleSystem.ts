@@ -0,0 +1,535 @@
+import type { AgentState, GrappleState } from './MatchState';
+import type { MoveDef, MoveRegistry } from '../../combat/MoveRegistry';
+import type { GrappleChainTable, GrappleMoveDef, GrappleTransition } from '../../combat/GrappleChains';
+import type { EffectiveModifiers } from './TraitFormulas';
+import type { FighterStateMachine, FighterStateId } from './fsm';
+import type { FighterBrain } from './Agent';
+import { SeededRandom } from '../../utils/random';
+import { clamp } from '../../utils/math';
+import { inRingTogether } from './ActionLegality';
+import { matchReducer } from './MatchReducer';
+import type { MatchContext } from './MatchContext';
+
+/**
+ * Distance the fighters settle at while tied up (inside grapple move range,
+ * just outside the minimum separation).
+ */
+const CLINCH_DISTANCE = 0.65;
+
+/**
+ * Ticks the fighters strain against each other before the lock-up is decided.
+ */
+const LOCK_UP_FRAMES = 30;
+
+/**
+ * Stamina the initiator spends going for the lock-up.
+ */
+const LOCK_UP_STAMINA = 4;
+
+/**
+ * Ticks between the controller's choices (a transition or a move).
+ */
+const GRAPPLE_DECISION_INTERVAL = 18;
+
+/**
+ * Safety cap on a grapple (10 seconds). The controller lets go.
+ */
+const GRAPPLE_MAX_FRAMES = 600;
+
+/**
+ * Safety cap on the LOCK_UP/GRAPPLE_CONTROL/GRAPPLED FSM timers.
+ * FSM timers advance on both FSM passes of a match tick, so this
+ * outlasts GRAPPLE_MAX_FRAMES.
+ */
+const GRAPPLE_SAFETY_FRAMES = GRAPPLE_MAX_FRAMES * 2 + 60;
+
+/**
+ * Stun on a controller whose opponent fights free.
+ */
+const GRAPPLE_ESCAPE_STUN_FRAMES = 20;
+
+/**
+ * Base rate of fighting out of a grapple per tick (~2 seconds for an even matchup).
+ */
+const ESCAPE_BASE_RATE = 0.01;
+
+/**
+ * Chance the controller goes straight for a move from neutral, and from
+ * any other position when first reached. Rises the longer the hold is kept.
+ */
+const NEUTRAL_MOVE_CHANCE = 0.3;
+const POSITION_MOVE_CHANCE = 0.55;
+
+/**
+ * States the controller passes through while hitting a move out of a
+ * grapple position (the grapple survives until the move resolves).
+ */
+const GRAPPLE_MOVE_STATES: ReadonlySet<FighterStateId> = new Set([
+	'ATTACK_WINDUP',
+	'ATTACK_ACTIVE',
+	'ATTACK_RECOVERY',
+	'COMBO_WINDOW',
+	'IDLE'
+]);
+
+/** What the fighter in control does next. */
+export type GrappleAction =
+	| { type: 'move'; move: GrappleMoveDef }
+	| { type: 'transition'; transition: GrappleTransition }
+	| { type: 'release' };
+
+/**
+ * GrappleSystem — lock-ups, grapple positions and the struggle inside them.
+ *
+ * A grapple runs in stages:
+ *   - Lock-up: both fighters tie up; after LOCK_UP_FRAMES a power roll
+ *     (stamina, health, momentum, aggression, fighting spirit) decides who
+ *     takes control at 'neutral'
+ *   - Control: the controller works through the GrappleChainTable —
+ *     transitions to other positions (which the held fighter may reverse)
+ *     or a move that position allows
+ *   - The held fighter struggles the whole time; filling the escape meter
+ *     breaks the grapple and leaves the controller stunned
+ *
+ * Moves are drawn only from positions, so a powerbomb needs a rear
+ * waistlock and a moonsault needs the top rope.
+ */
+export class GrappleSystem {
+	/** Tick the fighter in control of the grapple may next pick a transition or move. */
+	private grappleReadyTick = 0;
+
+	constructor(
+		private readonly rng: SeededRandom,
+		private readonly chains: GrappleChainTable,
+		private readonly moves: MoveRegistry,
+		private readonly match: MatchContext
+	) {}
+
+	/**
+	 * Go for a lock-up with a grapple-category attack.
+	 * A stunned opponent is grabbed outright; one who is standing
+	 * (idle, moving or blocking) ties up and the lock-up is decided in
+	 * update(). Only one grapple or hold can be in progress, and only
+	 * in the ring.
+	 *
+	 * @returns true if the lock-up (or grab) started
+	 */
+	tryLockUp(attacker: AgentState, defender: AgentState, attackerFSM: FighterStateMachine): boolean {
+		if (this.match.state.grapple || this.match.state.hold) return false;
+		if (!inRingTogether(attacker, defender)) return false;
+
+		const defenderFSM = this.match.fsms.get(defender.id);
+		if (!defenderFSM) return false;
+
+		const defenderState = defenderFSM.stateId;
+		if (defenderState === 'STUNNED') {
+			attackerFSM.pushEvent({ type: 'GRAPPLE_CONTROL', targetId: defender.id, maxFrames: GRAPPLE_SAFETY_FRAMES });
+			defenderFSM.pushEvent({ type: 'GRAPPLE_HELD', attackerId: attacker.id, maxFrames: GRAPPLE_SAFETY_FRAMES });
+			this.match.state = matchReducer(this.match.state, {
+				type: 'GRAPPLE_CONTROL',
+				attackerId: attacker.id,
+				defenderId: defender.id,
+				position: 'neutral',
+				lockUpWon: false
+			});
+			this.grappleReadyTick = this.match.state.tick + GRAPPLE_DECISION_INTERVAL;
+		} else if (defenderState === 'IDLE' || defenderState === 'MOVING' || defenderState === 'BLOCKING') {
+			attackerFSM.pushEvent({ type: 'LOCK_UP', opponentId: defender.id, maxFrames: GRAPPLE_SAFETY_FRAMES });
+			defenderFSM.pushEvent({ type: 'LOCK_UP', opponentId: attacker.id, maxFrames: GRAPPLE_SAFETY_FRAMES });
+			this.match.state = matchReducer(this.match.state, {
+				type: 'LOCK_UP_START',
+				attackerId: attacker.id,
+				defenderId: defender.id,
+				staminaCost: LOCK_UP_STAMINA
+			});
+		} else {
+			return false;
+		}
+
+		this.match.movers.get(defender.id)?.stopMovement();
+		return true;
+	}
+
+	/** Whether a fighter is either side of the grapple in progress. */
+	isInGrapple(agentId: string): boolean {
+		const grapple = this.match.state.grapple;
+		return !!grapple && (grapple.attackerId === agentId || grapple.defenderId === agentId);
+	}
+
+	/**
+	 * The controller's next choice once the position has settled.
+	 * AI fighters pick from the chain table; manual fighters steer it with
+	 * their normal inputs — an attack picks a move from the position,
+	 * moving toward the opponent changes position, moving away or
+	 * blocking lets go.
+	 */
+	runDecision(
+		agent: AgentState,
+		opponent: AgentState,
+		brain: FighterBrain,
+		distance: number
+	): void {
+		const grapple = this.match.state.grapple;
+		if (!grapple || grapple.attackerId !== agent.id) return;
+		if (grapple.transition || grapple.moveId || this.match.state.tick < this.grappleReadyTick) return;
+
+		const mods = this.match.effectiveMods.get(agent.id);
+		let action: GrappleAction | undefined;
+		if (!brain.manual) {
+			action = this.chooseAction(agent, grapple, this.match.state.tick - grapple.positionTick, mods);
+		} else {
+			const input = brain.decide(agent, opponent, {
+				distance,
+				attackRange: this.match.movers.get(agent.id)?.range ?? 1.5,
+				canAttack: true
+			}, mods);
+			if (input.type === 'attack' && input.moveId) {
+				const move = this.findMove(agent, grapple, input.moveId);
+				if (move) action = { type: 'move', move };
+			} else if (input.type === 'move') {
+				// Toward the opponent on either axis (no explicit target = toward)
+				const dx = (input.targetX ?? opponent.positionX) - agent.positionX;
+				const dz = (input.targetZ ?? opponent.positionZ) - agent.positionZ;
+				const toward = dx * (opponent.positionX - agent.positionX) + dz * (opponent.positionZ - agent.positionZ) > 0;
+				const transition = toward ? this.findTransition(agent, grapple) : undefined;
+				action = transition ? { type: 'transition', transition } : { type: 'release' };
+			} else if (input.type === 'block') {
+				action = { type: 'release' };
+			}
+		}
+		if (!action) return;
+
+		switch (action.type) {
+			case 'move':
+				this.startMove(agent, action.move);
+				break;
+			case 'transition':
+				this.startTransition(grapple, action.transition);
+				break;
+			case 'release':
+				this.end('release', 0);
+				break;
+		}
+	}
+
+	/**
+	 * Hit a move out of the current position. The controller leaves
+	 * GRAPPLE_CONTROL for the move's windup; the held fighter stays GRAPPLED
+	 * until the combat phase resolves it.
+	 */
+	private startMove(agent: AgentState, grappleMove: GrappleMoveDef): void {
+		const move = this.moves.get(grappleMove.moveId);
+		const fsm = this.match.fsms.get(agent.id);
+		if (!move || !fsm) return;
+
+		this.match.state = matchReducer(this.match.state, {
+			type: 'GRAPPLE_MOVE',
+			moveId: move.id,
+			moveName: grappleMove.name,
+			staminaCost: grappleMove.staminaCost
+		});
+		fsm.pushEvent({
+			type: 'REQUEST_ATTACK',
+			moveId: move.id,
+			windupFrames: move.windupFrames,
+			activeFrames: move.activeFrames,
+			recoveryFrames: move.recoveryFrames
+		});
+	}
+
+	/**
+	 * Start moving to another position. The held fighter's reversal is
+	 * rolled now and takes effect when the transition completes.
+	 */
+	private startTransition(grapple: GrappleState, transition: GrappleTransition): void {
+		const defender = this.match.state.agents.find((a) => a.id === grapple.defenderId);
+		if (!defender) return;
+
+		const reversed = this.rollTransitionReversal(
+			defender, transition, this.match.effectiveMods.get(defender.id)
+		);
+		this.match.state = matchReducer(this.match.state, {
+			type: 'GRAPPLE_TRANSITION_START',
+			name: transition.name,
+			targetPosition: transition.targetPosition,
+			staminaCost: transition.staminaCost,
+			completeTick: this.match.state.tick + transition.transitionFrames,
+			reversed
+		});
+	}
+
+	/**
+	 * Drop the grapple in progress. Fighters still in a grapple state are
+	 * released (the controller stunned for controllerStunFrames); a fighter
+	 * already mid-move or reacting to a hit is left alone.
+	 */
+	end(reason: 'move' | 'escape' | 'release' | 'broken', controllerStunFrames: number): void {
+		const grapple = this.match.state.grapple;
+		if (!grapple) return;
+
+		const attackerFSM = this.match.fsms.get(grapple.attackerId);
+		const defenderFSM = this.match.fsms.get(grapple.defenderId);
+		if (attackerFSM?.inGrapple) attackerFSM.pushEvent({ type: 'GRAPPLE_RELEASE', stunFrames: controllerStunFrames });
+		if (defenderFSM?.inGrapple) defenderFSM.pushEvent({ type: 'GRAPPLE_RELEASE', stunFrames: 0 });
+
+		this.match.state = matchReducer(this.match.state, { type: 'GRAPPLE_END', reason });
+	}
+
+	/**
+	 * Advance the grapple in progress by one tick.
+	 *
+	 * Lock-up: after LOCK_UP_FRAMES GrappleSystem decides who takes control.
+	 *
+	 * Control: a move out of the position hands control back once the
+	 * controller recovers (if the move kept the grapple); a transition
+	 * completes after its frames, swapping the fighters if it was reversed.
+	 * Between those the held fighter struggles, and fighting free stuns
+	 * the controller. After GRAPPLE_MAX_FRAMES the controller lets go.
+	 *
+	 * If either fighter is no longer in its grapple state (a knockdown, or
+	 * an FSM rejected the lock-up), the grapple is dropped.
+	 */
+	update(): void {
+		const grapple = this.match.state.grapple;
+		if (!grapple || !this.match.state.running) return;
+
+		const attackerFSM = this.match.fsms.get(grapple.attackerId);
+		const defenderFSM = this.match.fsms.get(grapple.defenderId);
+		if (!attackerFSM || !defenderFSM) return;
+
+		const attackerState = attackerFSM.stateId;
+		const intact = grapple.stage === 'lock_up'
+			? attackerState === 'LOCK_UP' && defenderFSM.stateId === 'LOCK_UP'
+			: defenderFSM.stateId === 'GRAPPLED' && (attackerState === 'GRAPPLE_CONTROL'
+				|| (grapple.moveId !== null && GRAPPLE_MOVE_STATES.has(attackerState)));
+		if (!intact) {
+			this.end('broken', 0);
+			return;
+		}
+
+		const attacker = this.match.state.agents.find((a) => a.id === grapple.attackerId)!;
+		const defender = this.match.state.agents.find((a) => a.id === grapple.defenderId)!;
+
+		// ── Lock-up: decide who comes out on top ──
+		if (grapple.stage === 'lock_up') {
+			if (this.match.state.tick - grapple.startTick < LOCK_UP_FRAMES) return;
+			const winner = this.resolveLockUp(
+				attacker, defender, this.match.effectiveMods.get(attacker.id), this.match.effectiveMods.get(defender.id)
+			);
+			const loser = winner.id === attacker.id ? defender : attacker;
+			this.match.fsms.get(winner.id)?.pushEvent({ type: 'GRAPPLE_CONTROL', targetId: loser.id, maxFrames: GRAPPLE_SAFETY_FRAMES });
+			this.match.fsms.get(loser.id)?.pushEvent({ type: 'GRAPPLE_HELD', attackerId: winner.id, maxFrames: GRAPPLE_SAFETY_FRAMES });
+			this.match.state = matchReducer(this.match.state, {
+				type: 'GRAPPLE_CONTROL',
+				attackerId: winner.id,
+				defenderId: loser.id,
+				position: 'neutral',
+				lockUpWon: true
+			});
+			this.grappleReadyTick = this.match.state.tick + GRAPPLE_DECISION_INTERVAL;
+			return;
+		}
+
+		// ── A move that kept the grapple: take control again once recovered ──
+		if (grapple.moveId) {
+			if (attackerState === 'IDLE') {
+				attackerFSM.pushEvent({ type: 'GRAPPLE_CONTROL', targetId: defender.id, maxFrames: GRAPPLE_SAFETY_FRAMES });
+				this.match.state = matchReducer(this.match.state, { type: 'GRAPPLE_MOVE_END' });
+				this.grappleReadyTick = this.match.state.tick + GRAPPLE_DECISION_INTERVAL;
+			}
+			return;
+		}
+
+		// ── Transition in progress ──
+		if (grapple.transition) {
+			if (this.match.state.tick < grapple.transition.completeTick) return;
+			if (grapple.transition.reversed) {
+				attackerFSM.pushEvent({ type: 'GRAPPLE_HELD', attackerId: defender.id, maxFrames: GRAPPLE_SAFETY_FRAMES });
+				defenderFSM.pushEvent({ type: 'GRAPPLE_CONTROL', targetId: attacker.id, maxFrames: GRAPPLE_SAFETY_FRAMES });
+			}
+			this.match.state = matchReducer(this.match.state, { type: 'GRAPPLE_TRANSITION_END' });
+			this.grappleReadyTick = this.match.state.tick + GRAPPLE_DECISION_INTERVAL;
+			return;
+		}
+
+		// ── Settled: the held fighter struggles ──
+		const escapeProgress = this.struggle(
+			grapple, attacker, defender, this.match.effectiveMods.get(defender.id)
+		);
+		this.match.state = matchReducer(this.match.state, { type: 'GRAPPLE_STRUGGLE', escapeProgress });
+		if (escapeProgress >= 1) {
+			this.end('escape', GRAPPLE_ESCAPE_STUN_FRAMES);
+			return;
+		}
+
+		if (this.match.state.tick - grapple.startTick >= GRAPPLE_MAX_FRAMES) {
+			this.end('release', 0);
+		}
+	}
+
+	/**
+	 * Decide a lock-up. The initiator gets a small edge for striking first.
+	 *
+	 * @returns The fighter who takes control
+	 */
+	private resolveLockUp(
+		initiator: AgentState,
+		receiver: AgentState,
+		initiatorMods?: EffectiveModifiers,
+		receiverMods?: EffectiveModifiers
+	): AgentState {
+		const initiatorPower = this.power(initiator, initiatorMods) * 1.1;
+		const receiverPower = this.power(receiver, receiverMods);
+		const roll = this.rng.next() * (initiatorPower + receiverPower);
+		return roll < initiatorPower ? initiator : receiver;
+	}
+
+	/**
+	 * Pick the controller's next action from the current position.
+	 * Exhausted controllers with nothing affordable let go.
+	 *
+	 * @param elapsed - Ticks since the position was reached
+	 */
+	private chooseAction(
+		controller: AgentState,
+		grapple: GrappleState,
+		elapsed: number,
+		mods?: EffectiveModifiers
+	): GrappleAction {
+		const moves = this.affordableMoves(grapple, controller);
+		const transitions = this.chains.getAffordableTransitions(grapple.position, controller.stamina);
+		if (moves.length === 0 && transitions.length === 0) return { type: 'release' };
+		if (moves.length === 0) return { type: 'transition', transition: this.rng.pick(transitions) };
+		if (transitions.length === 0) return { type: 'move', move: this.pickMove(moves, controller) };
+
+		const base = grapple.position === 'neutral' ? NEUTRAL_MOVE_CHANCE : POSITION_MOVE_CHANCE;
+		const aggression = mods ? mods.aggression : 1.0;
+		const moveChance = clamp((base + elapsed / 120 * 0.3) * (0.7 + aggression * 0.3), 0.1, 0.9);
+		return this.rng.chance(moveChance)
+			? { type: 'move', move: this.pickMove(moves, controller) }
+			: { type: 'transition', transition: this.rng.pick(transitions) };
+	}
+
+	/**
+	 * A move a manual fighter asked for: the exact move if the position allows
+	 * it, otherwise any affordable move from the position (undefined if none).
+	 */
+	private findMove(controller: AgentState, grapple: GrappleState, moveId: string): GrappleMoveDef | undefined {
+		const moves = this.affordableMoves(grapple, controller);
+		if (moves.length === 0) return undefined;
+		return moves.find((m) => m.moveId === moveId) ?? this.rng.pick(moves);
+	}
+
+	/** Any affordable transition out of the current position (undefined if none). */
+	private findTransition(controller: AgentState, grapple: GrappleState): GrappleTransition | undefined {
+		const transitions = this.chains.getAffordableTransitions(grapple.position, controller.stamina);
+		return transitions.length > 0 ? this.rng.pick(transitions) : undefined;
+	}
+
+	/** Position moves the controller can pay for and the move library knows. */
+	affordableMoves(grapple: GrappleState, controller: AgentState): GrappleMoveDef[] {
+		return this.chains
+			.getAffordableMoves(grapple.position, controller.stamina, controller.momentum)
+			.filter((m) => this.moves.has(m.moveId));
+	}
+
+	/**
+	 * Whether a move that just landed leaves the grapple in place (chops in
+	 * the corner and the like). Submissions lock in a hold instead.
+	 */
+	keepsGrapple(grapple: GrappleState, move: MoveDef): boolean {
+		if (move.category === 'submission') return false;
+		const def = this.chains.getAvailableMoves(grapple.position).find((m) => m.moveId === move.id);
+		return !!def && !def.endsGrapple;
+	}
+
+	/**
+	 * Roll whether the held fighter turns a transition around.
+	 * Skilled, fresh and fired-up fighters catch it more often.
+	 */
+	private rollTransitionReversal(
+		defender: AgentState,
+		transition: GrappleTransition,
+		defenderMods?: EffectiveModifiers
+	): boolean {
+		if (!transition.canBeReversed) return false;
+		const staminaPct = defender.stamina / defender.maxStamina;
+		const reversalMul = defenderMods ? defenderMods.reversal : 1.0;
+		const chance = (0.06 + defender.personality.reversalSkill * 0.15 + staminaPct * 0.05)
+			* reversalMul
+			* this.spirit(defender);
+		return this.rng.chance(clamp(chance, 0.05, 0.35));
+	}
+
+	/**
+	 * Advance the held fighter's struggle by one tick.
+	 * A fresh controller is harder to fight off.
+	 *
+	 * @returns The new escape progress (1 = free)
+	 */
+	private struggle(
+		grapple: GrappleState,
+		controller: AgentState,
+		defender: AgentState,
+		defenderMods?: EffectiveModifiers
+	): number {
+		const staminaPct = defender.stamina / defender.maxStamina;
+		const controllerStaminaPct = controller.stamina / controller.maxStamina;
+		const reversalMul = defenderMods ? defenderMods.reversal : 1.0;
+		const escape = ESCAPE_BASE_RATE
+			* (0.3 + staminaPct)
+			* (0.5 + defender.personality.reversalSkill)
+			* reversalMul
+			* this.spirit(defender)
+			/ (0.5 + controllerStaminaPct);
+		return clamp(grapple.escapeProgress + escape, 0, 1);
+	}
+
+	/** Weighted toward the bigger moves the fighter has built momentum for. */
+	private pickMove(moves: GrappleMoveDef[], controller: AgentState): GrappleMoveDef {
+		const weights = moves.map((m) => {
+			const damage = this.moves.get(m.moveId)?.baseDamage ?? 1;
+			return damage * (m.momentumRequired > 0 ? 1 + controller.personality.riskTolerance : 1);
+		});
+		let roll = this.rng.next() * weights.reduce((sum, w) => sum + w, 0);
+		for (let i = 0; i < moves.length; i++) {
+			roll -= weights[i];
+			if (roll <= 0) return moves[i];
+		}
+		return moves[moves.length - 1];
+	}
+
+	/** Lock-up strength: fresh, healthy, fired-up aggressors win tie-ups. */
+	private power(agent: AgentState, mods?: EffectiveModifiers): number {
+		const staminaPct = agent.stamina / agent.maxStamina;
+		const healthPct = agent.health / agent.maxHealth;
+		const damageMul = mods ? mods.damage : 1.0;
+		return (0.4 + staminaPct)
+			* (0.6 + healthPct * 0.4)
+			* (1 + agent.momentum / 200)
+			* (0.8 + agent.personality.aggression * 0.4)
+			* damageMul
+			* this.spirit(agent);
+	}
+
+	/** Clutch and desperate fighters dig deeper; panicking ones fold. */
+	private spirit(agent: AgentState): number {
+		let spirit = 1.0;
+		const emotion = agent.psych.emotion;
+		if (emotion === 'clutch') spirit = 1.3;
+		else if (emotion === 'desperate') spirit = 1.2;
+		else if (emotion === 'panicking') spirit = 0.8;
+		if (agent.comebackActive) spirit *= 1.3;
+		return spirit;
+	}
+}
+
+export {
+	CLINCH_DISTANCE,
+	LOCK_UP_FRAMES,
+	LOCK_UP_STAMINA,
+	GRAPPLE_DECISION_INTERVAL,
+	GRAPPLE_MAX_FRAMES,
+	GRAPPLE_SAFETY_FRAMES,
+	GRAPPLE_ESCAPE_STUN_FRAMES
+};
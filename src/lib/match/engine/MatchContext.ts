@@ -0,0 +1,92 @@
+import type { AgentState, MatchState, MatchResult } from './MatchState';
+import type { MatchTypeRules, WinCondition } from '../MatchTypes';
+import type { HitImpactEvent } from './MatchLoop';
+import type { EffectiveModifiers } from './TraitFormulas';
+import type { FighterStateMachine } from './fsm';
+import type { MovementController } from './movement';
+
+/** Decision cooldown in ticks between AI combat actions (attack/block/taunt). */
+export const DECISION_INTERVAL = 42; // ~1.4 decisions per second — slow, cinematic pacing
+
+/** Decision cooldown for movement re-evaluation (faster — keeps fighters engaged). */
+export const MOVE_DECISION_INTERVAL = 6; // ~10 re-evaluations per second — responsive movement
+
+/** Distance from the ring centre to the outermost starting positions (fighters spread evenly between). */
+export const START_POSITION_X = 2;
+
+/** How far from the target a dive (off the top rope or to the outside) lands. */
+export const DIVE_LANDING_DISTANCE = 0.8;
+
+/**
+ * MatchContext — the running match as the per-feature systems see it.
+ *
+ * MatchLoop owns everything here and builds one context per match. The
+ * systems (tag teams, Rumbles, cages, ...) run their part of each tick
+ * through it the same way the loop's own phases do: replace `state`
+ * (usually via matchReducer), push events into the fighters' FSMs, steer
+ * their movers and set their decision timers.
+ */
+export interface MatchContext {
+	/** Current match state. Replaced, never mutated. */
+	state: MatchState;
+
+	/** The match type's rules. */
+	readonly rules: MatchTypeRules;
+
+	/** Fighter state machines, one per agent. */
+	readonly fsms: Map<string, FighterStateMachine>;
+
+	/** Movement controllers, one per agent. */
+	readonly movers: Map<string, MovementController>;
+
+	/** Ticks until each agent decides again. */
+	readonly decisionTimers: Map<string, number>;
+
+	/** Who last hit each wrestler (credited when a hit interrupts them). */
+	readonly lastHitBy: Map<string, string>;
+
+	/** Each agent's psychology modifiers, recomputed every psychology eval. */
+	readonly effectiveMods: Map<string, EffectiveModifiers>;
+
+	/** Whether the match type counts this kind of finish. */
+	allows(condition: WinCondition): boolean;
+
+	/** Give the fall to the winner: ends the match, or starts the next fall. */
+	awardFall(winnerId: string, loserId: string, method: MatchResult['method']): void;
+
+	/**
+	 * Fighters still in the match, best-first: most falls, then health
+	 * (near-ties broken by damage dealt).
+	 */
+	rankFighters(): AgentState[];
+
+	/** Queue a hit flash for the renderer. */
+	emitHit(event: HitImpactEvent): void;
+
+	/** Whether a fighter is the attacker or defender of the pin or submission in progress. */
+	isInHold(agentId: string): boolean;
+
+	/** Whether a fighter may break up the hold in progress (not the holder's partner). */
+	canSave(agent: AgentState): boolean;
+
+	/** Earliest tick the fighter can make the save on the current hold. */
+	saveReadyTick(agent: AgentState): number;
+
+	/**
+	 * Break up the pin or submission in progress if the fighter is close enough.
+	 * @returns true if the hold was broken up
+	 */
+	tryBreakUpHold(agent: AgentState, distance: number): boolean;
+
+	/** Forget any walk to a turnbuckle, rope run or roll under the ropes. */
+	clearRingPlans(agentId: string): void;
+
+	/**
+	 * Take a fighter out of the action for good (a Rumble elimination):
+	 * fresh FSM, no ring plans, combo, pending attack, last hitter or comeback.
+	 */
+	retire(agentId: string): void;
+
+	/** End the match outright. */
+	endMatch(winnerId: string, loserId: string, method: MatchResult['method']): void;
+}
@@ -16,6 +16,7 @@ interface AgentSnapshot {
 	momentum: number;
 	phase: string;
 	positionX: number;
+	positionZ: number;
 	activeMove: string | null;
 }
 
@@ -131,6 +132,7 @@ export class ConsoleMatchDebugger implements MatchDebugger {
 				momentum: agent.momentum,
 				phase: agent.phase,
 				positionX: agent.positionX,
+				positionZ: agent.positionZ,
 				activeMove: agent.activeMove
 			});
 		}
@@ -231,9 +233,12 @@ export class ConsoleMatchDebugger implements MatchDebugger {
 			const prev = this.prevSnapshots.get(agent.id);
 			if (!prev) continue;
 
-			const dx = Math.abs(agent.positionX - prev.positionX);
-			if (dx > 0.01) {
-				this.tickLog.push(`  [MOVE] ${agent.name}: x=${prev.positionX.toFixed(2)} → ${agent.positionX.toFixed(2)} (Δ${dx.toFixed(3)})`);
+			const moved = Math.hypot(agent.positionX - prev.positionX, agent.positionZ - prev.positionZ);
+			if (moved > 0.01) {
+				this.tickLog.push(
+					`  [MOVE] ${agent.name}: (${prev.positionX.toFixed(2)}, ${prev.positionZ.toFixed(2)}) → ` +
+					`(${agent.positionX.toFixed(2)}, ${agent.positionZ.toFixed(2)}) (Δ${moved.toFixed(3)})`
+				);
 			}
 		}
 	}
@@ -290,7 +295,7 @@ export class BufferMatchDebugger implements MatchDebugger {
 	readonly entries: Array<{
 		tick: number;
 		phase: DebugPhase;
-		agents: Array<{ id: string; phase: string; health: number; positionX: number }>;
+		agents: Array<{ id: string; phase: string; health: number; positionX: number; positionZ: number }>;
 	}> = [];
 
 	onTickStart(_tick: number): void {}
@@ -303,7 +308,8 @@ export class BufferMatchDebugger implements MatchDebugger {
 				id: a.id,
 				phase: a.phase,
 				health: a.health,
-				positionX: a.positionX
+				positionX: a.positionX,
+				positionZ: a.positionZ
 			}))
 		});
 	}
@@ -0,0 +1,362 @@
+import type { AgentState, MatchResult, MatchState } from './MatchState';
+import type { Strategy, ActionResult } from '../../ai/Strategy';
+import type { Seed } from '../../utils/types';
+import { MatchLoop, type MatchLoopConfig } from './MatchLoop';
+import { observeAgent } from './StrategyAdapter';
+import { opponentOf, isTeammate } from './TargetingSystem';
+import { ringDistance } from './movement';
+import { ACTION_COUNT, idToAction, isValidAction, type ActionName } from '../../ai/rl/ActionSpace';
+import { OBSERVATION_SIZE } from '../../ai/rl/ObservationSpace';
+import {
+	computeReward,
+	DEFAULT_REWARD_WEIGHTS,
+	type RewardContext,
+	type RewardWeights
+} from '../../ai/rl/RewardFunction';
+
+/**
+ * Match ticks per env step (1/30 second). Fighters decide every 4-30 ticks,
+ * so many steps end before the controlled fighter gets to act again.
+ *
+ * Step cost is almost all MatchLoop ticks: a Node process on one core runs
+ * a singles match at roughly 6,000-8,000 ticks/s, so this default gives
+ * about 3,000 steps/s, train-server's socket included. Longer steps cover
+ * more match per step but run fewer of them: about 1,700 steps/s at 4
+ * ticks and 750 at 10. For more, run one env batch per core.
+ */
+const DEFAULT_TICKS_PER_STEP = 2;
+
+/** Episodes with no result are cut off after this many ticks (30 minutes of match time). */
+const DEFAULT_MAX_TICKS = 60 * 60 * 30;
+
+/** An action from the RL action space: its id or its name. */
+export type EnvAction = number | ActionName;
+
+export interface MatchEnvConfig {
+	/**
+	 * The match to play; reset() supplies the seed. Fighters the env doesn't
+	 * control keep their own strategy (any strategy id, Strategy instance
+	 * or the built-in Agent).
+	 */
+	match: Omit<MatchLoopConfig, 'seed'>;
+	/** Match ticks each step() advances (default DEFAULT_TICKS_PER_STEP) */
+	ticksPerStep?: number;
+	/** Episodes still running after this many ticks end as truncated (default 30 minutes) */
+	maxTicks?: number;
+	/** Reward shaping (default DEFAULT_REWARD_WEIGHTS) */
+	rewardWeights?: RewardWeights;
+}
+
+export interface EnvStepInfo {
+	/** Match tick the step ended on */
+	tick: number;
+	/** Whether the fighter reached a decision point during the step and took the action */
+	actionApplied: boolean;
+	/** The episode hit maxTicks without a result */
+	truncated: boolean;
+	/** The match result once done (null while running or when truncated) */
+	result: MatchResult | null;
+}
+
+/** What step() returns for one controlled fighter. */
+export interface EnvStep {
+	/** Observation after the step (ObservationSpace layout) */
+	obs: number[];
+	/** Actions the fighter can execute now: 1 per legal action id, 0 otherwise */
+	mask: number[];
+	/** Reward accumulated over the step's ticks (RewardFunction) */
+	reward: number;
+	done: boolean;
+	info: EnvStepInfo;
+}
+
+/**
+ * Strategy slot the env fills in: hands the pending step action to the
+ * match the first time the fighter decides, then idles until the next step.
+ */
+class EnvStrategy implements Strategy {
+	readonly id = 'env';
+	pending: ActionName | null = null;
+	applied = false;
+
+	decide(): ActionResult {
+		const action = this.pending ?? 'idle';
+		if (this.pending) {
+			this.pending = null;
+			this.applied = true;
+		}
+		return { action, target: null, confidence: 1, reasoning: 'env' };
+	}
+}
+
+/**
+ * Shared episode bookkeeping for MatchEnv and SelfPlayEnv: runs the
+ * MatchLoop headless, feeds each controlled fighter's action through its
+ * EnvStrategy, and turns each tick's state changes into RewardContexts.
+ */
+class EnvCore {
+	private loop: MatchLoop | null = null;
+	private readonly strategies: EnvStrategy[];
+	private readonly ticksPerStep: number;
+	private readonly maxTicks: number;
+	private readonly weights: RewardWeights;
+	/** First log entry not yet scanned for reward events */
+	private logCursor = 0;
+	private truncated = false;
+
+	constructor(
+		private readonly config: MatchEnvConfig,
+		private readonly controlledIds: readonly string[]
+	) {
+		for (const id of controlledIds) {
+			if (!config.match.wrestlers.some((w) => w.id === id)) {
+				throw new Error(`MatchEnv: no wrestler '${id}' in the match`);
+			}
+		}
+		this.ticksPerStep = config.ticksPerStep ?? DEFAULT_TICKS_PER_STEP;
+		if (!Number.isInteger(this.ticksPerStep) || this.ticksPerStep < 1) {
+			throw new Error(`MatchEnv: ticksPerStep must be a positive integer, got ${this.ticksPerStep}`);
+		}
+		this.maxTicks = config.maxTicks ?? DEFAULT_MAX_TICKS;
+		this.weights = config.rewardWeights ?? DEFAULT_REWARD_WEIGHTS;
+		this.strategies = controlledIds.map(() => new EnvStrategy());
+	}
+
+	get state(): MatchState | null {
+		return this.loop?.state ?? null;
+	}
+
+	get done(): boolean {
+		return !this.loop || !this.loop.state.running || this.truncated;
+	}
+
+	reset(seed: Seed): number[][] {
+		const wrestlers = this.config.match.wrestlers.map((w) => {
+			const index = this.controlledIds.indexOf(w.id);
+			if (index < 0) return w;
+			const strategy = this.strategies[index];
+			strategy.pending = null;
+			return { ...w, strategy, input: undefined };
+		});
+		this.loop = new MatchLoop({ ...this.config.match, seed, wrestlers });
+		this.logCursor = this.loop.state.log.length;
+		this.truncated = false;
+		return this.controlledIds.map((id) => this.observe(id));
+	}
+
+	step(actions: readonly EnvAction[]): EnvStep[] {
+		const loop = this.loop;
+		if (!loop) throw new Error('MatchEnv: call reset() before step()');
+		if (this.done) throw new Error('MatchEnv: the episode is over, call reset()');
+		if (actions.length !== this.controlledIds.length) {
+			throw new Error(`MatchEnv: expected ${this.controlledIds.length} action(s), got ${actions.length}`);
+		}
+
+		actions.forEach((action, i) => {
+			this.strategies[i].pending = toActionName(action);
+			this.strategies[i].applied = false;
+		});
+
+		const rewards = this.controlledIds.map(() => 0);
+		for (let t = 0; t < this.ticksPerStep && loop.state.running; t++) {
+			const before = loop.state;
+			loop.step();
+			this.controlledIds.forEach((id, i) => {
+				rewards[i] += computeReward(this.rewardContext(id, before, loop.state), this.weights);
+			});
+			this.logCursor = loop.state.log.length;
+		}
+		if (loop.state.running && loop.state.tick >= this.maxTicks) this.truncated = true;
+
+		// A fighter who never got to decide drops the action
+		for (const strategy of this.strategies) strategy.pending = null;
+
+		const done = this.done;
+		return this.controlledIds.map((id, i) => ({
+			obs: this.observe(id),
+			mask: this.mask(id),
+			reward: rewards[i],
+			done,
+			info: {
+				tick: loop.state.tick,
+				actionApplied: this.strategies[i].applied,
+				truncated: this.truncated,
+				result: loop.state.result
+			}
+		}));
+	}
+
+	/** The fighter's view of the match, against its current target. */
+	private observe(id: string): number[] {
+		const state = this.loop!.state;
+		const self = findAgent(state, id);
+		const opponent = opponentOf(state, self);
+		return observeAgent(self, opponent, ringDistance(self, opponent), state.crowd.pop).vector;
+	}
+
+	/** Legal actions for the fighter (ActionLegality mask). */
+	mask(id: string): number[] {
+		return this.loop!.getLegality(id).mask;
+	}
+
+	/** What happened to one fighter between two consecutive ticks. */
+	private rewardContext(id: string, before: MatchState, after: MatchState): RewardContext {
+		const prev = findAgent(before, id);
+		const self = findAgent(after, id);
+
+		let nearFallOccurred = false;
+		let signatureConnected = false;
+		for (let i = this.logCursor; i < after.log.length; i++) {
+			const { type, data } = after.log[i];
+			if (type === 'pin_kickout' && data.nearFall && (data.attackerId === id || data.defenderId === id)) {
+				nearFallOccurred = true;
+			} else if (type === 'move_hit' && data.attackerId === id && self.moveCategory === 'signature') {
+				signatureConnected = true;
+			}
+		}
+
+		const rating = after.result?.rating ?? 0;
+		return {
+			damageDealt: self.stats.damageDealt - prev.stats.damageDealt,
+			damageTaken: self.stats.damageTaken - prev.stats.damageTaken,
+			crowdPopDelta: after.crowd.pop - before.crowd.pop,
+			matchRatingDelta: rating - (before.result?.rating ?? 0),
+			nearFallOccurred,
+			finisherConnected: self.stats.finishersLanded > prev.stats.finishersLanded,
+			signatureConnected,
+			reversalPerformed: self.stats.reversals > prev.stats.reversals,
+			matchOutcome: outcome(after, self),
+			agentMomentum: self.momentum,
+			currentMatchRating: rating
+		};
+	}
+}
+
+/**
+ * MatchEnv — Gym-style reinforcement learning environment over MatchLoop.
+ *
+ * The env controls one fighter; everyone else uses the strategy in their
+ * WrestlerInput. Each step() advances `ticksPerStep` match ticks. The
+ * action is taken the first time the fighter reaches a decision point
+ * during the step (the same cadence an RLStrategy gets in a real match);
+ * a fighter who can't act that long (stunned, knocked down) drops it.
+ *
+ * Runs headless with no rendering; see DEFAULT_TICKS_PER_STEP for what
+ * throughput to expect. All randomness comes from the seed given to reset().
+ *
+ * USAGE:
+ *   const env = new MatchEnv({ match: { matchType: 'singles', tickRate: 60, wrestlers } });
+ *   let obs = env.reset(42);
+ *   for (let done = false; !done;) {
+ *     const step = env.step(policy(obs));
+ *     obs = step.obs;
+ *     done = step.done;
+ *   }
+ */
+export class MatchEnv {
+	readonly observationSize = OBSERVATION_SIZE;
+	readonly actionCount = ACTION_COUNT;
+	private readonly core: EnvCore;
+
+	/**
+	 * @param agentId - The fighter to control (defaults to the first wrestler)
+	 */
+	constructor(config: MatchEnvConfig, readonly agentId: string = config.match.wrestlers[0]?.id) {
+		this.core = new EnvCore(config, [agentId]);
+	}
+
+	/** Start a new episode and return the first observation. */
+	reset(seed: Seed): number[] {
+		return this.core.reset(seed)[0];
+	}
+
+	step(action: EnvAction): EnvStep {
+		return this.core.step([action])[0];
+	}
+
+	/** Legal actions right now (same as the last step's mask). */
+	actionMask(): number[] {
+		if (!this.core.state) throw new Error('MatchEnv: call reset() first');
+		return this.core.mask(this.agentId);
+	}
+
+	/** The running match (null before the first reset). */
+	get state(): MatchState | null {
+		return this.core.state;
+	}
+
+	get done(): boolean {
+		return this.core.done;
+	}
+}
+
+/**
+ * SelfPlayEnv — MatchEnv for two controlled fighters (the first two
+ * wrestlers unless given). Both act on the same ticks; observations and
+ * rewards are per fighter, in the order of `agentIds`.
+ */
+export class SelfPlayEnv {
+	readonly observationSize = OBSERVATION_SIZE;
+	readonly actionCount = ACTION_COUNT;
+	readonly agentIds: readonly [string, string];
+	private readonly core: EnvCore;
+
+	constructor(config: MatchEnvConfig, agentIds?: readonly [string, string]) {
+		const [first, second] = config.match.wrestlers;
+		this.agentIds = agentIds ?? [first?.id, second?.id];
+		if (this.agentIds[0] === this.agentIds[1]) {
+			throw new Error(`SelfPlayEnv: both sides are '${this.agentIds[0]}'`);
+		}
+		this.core = new EnvCore(config, this.agentIds);
+	}
+
+	reset(seed: Seed): [number[], number[]] {
+		const [a, b] = this.core.reset(seed);
+		return [a, b];
+	}
+
+	step(actions: readonly [EnvAction, EnvAction]): [EnvStep, EnvStep] {
+		const [a, b] = this.core.step(actions);
+		return [a, b];
+	}
+
+	actionMasks(): [number[], number[]] {
+		if (!this.core.state) throw new Error('SelfPlayEnv: call reset() first');
+		return [this.core.mask(this.agentIds[0]), this.core.mask(this.agentIds[1])];
+	}
+
+	get state(): MatchState | null {
+		return this.core.state;
+	}
+
+	get done(): boolean {
+		return this.core.done;
+	}
+}
+
+function toActionName(action: EnvAction): ActionName {
+	if (typeof action === 'number') {
+		if (!Number.isInteger(action) || action < 0 || action >= ACTION_COUNT) {
+			throw new Error(`MatchEnv: action id ${action} is out of range (0-${ACTION_COUNT - 1})`);
+		}
+		return idToAction(action);
+	}
+	if (!isValidAction(action)) throw new Error(`MatchEnv: unknown action '${action}'`);
+	return action;
+}
+
+function findAgent(state: MatchState, id: string): AgentState {
+	const agent = state.agents.find((a) => a.id === id);
+	if (!agent) throw new Error(`MatchEnv: no fighter '${id}'`);
+	return agent;
+}
+
+/** Win, loss or draw once the match is over (teams share the result). */
+function outcome(state: MatchState, self: AgentState): RewardContext['matchOutcome'] {
+	if (!state.result) return null;
+	const winner = state.agents.find((a) => a.id === state.result!.winnerId);
+	if (!winner) return 'draw';
+	return winner.id === self.id || isTeammate(winner, self) ? 'win' : 'loss';
+}
+
+export { DEFAULT_TICKS_PER_STEP, DEFAULT_MAX_TICKS };
@@ -1,31 +1,97 @@
-import type { MatchState, AgentState, AgentPhase, MatchResult, AgentPersonality } from './MatchState';
-import type { MoveDef } from '../../combat/MoveRegistry';
+import type {
+	MatchState,
+	AgentState,
+	AgentPhase,
+	MatchResult,
+	AgentPersonality,
+	AgentLocation,
+	RumbleState
+} from './MatchState';
+import type { MoveDef, MoveRegistry } from '../../combat/MoveRegistry';
 import type { PsychProfile, AgentPsychState } from './PsychologyTypes';
 import type { EffectiveModifiers } from './TraitFormulas';
 import type { FighterStateId, FSMAction } from './fsm';
-import { MoveRegistry } from '../../combat/MoveRegistry';
 import { SeededRandom } from '../../utils/random';
 import { clamp } from '../../utils/math';
-import { Agent, type DecisionContext } from './Agent';
+import { Agent, type DecisionContext, type FighterBrain } from './Agent';
+import { StrategyAdapter, createStrategy } from './StrategyAdapter';
+import {
+	computeLegality,
+	canAfford,
+	canWhip,
+	inMoveRange,
+	inMoveReach,
+	inRingTogether,
+	WHIP_STAMINA_COST,
+	type ActionLegality
+} from './ActionLegality';
 import { CombatResolver } from './CombatResolver';
 import { ComebackSystem } from './ComebackSystem';
+import { PinSystem, PIN_COUNT_FRAMES, KICKOUT_LEAD_FRAMES, PIN_SAFETY_FRAMES, PIN_RANGE } from './PinSystem';
+import { SubmissionSystem, SUBMISSION_SAFETY_FRAMES } from './SubmissionSystem';
+import { GrappleSystem, CLINCH_DISTANCE } from './GrappleSystem';
+import { TargetingSystem, opponentOf, isTeammate, TARGET_EVAL_INTERVAL, type TargetingPolicy } from './TargetingSystem';
+import {
+	TagTeamSystem,
+	apronX,
+	TAG_REACH,
+	DOUBLE_TEAM_MOVES
+} from './TagTeamSystem';
+import {
+	RumbleSystem,
+	buildRumbleSummary,
+	RUMBLE_RING_LIMIT,
+	OVER_THE_TOP_MOVE
+} from './RumbleSystem';
+import { CageSystem, ESCAPE_REACH } from './CageSystem';
+import {
+	RingsideSystem,
+	THROW_OUT_MOVE
+} from './RingsideSystem';
+import { CrowdSystem, createCrowdState, BASELINE_POP } from './CrowdSystem';
 import { EmotionMachine } from './EmotionMachine';
 import { FighterStateMachine } from './fsm';
-import { MovementController } from './movement';
+import {
+	MovementController,
+	RING_HALF_X,
+	RING_HALF_Z,
+	KNOCKBACK_DECAY,
+	ringDistance,
+	directionBetween,
+	nearestCorner,
+	cornerPosition,
+	ropePointAlong,
+	RINGSIDE_OUTER,
+	type RingCorner
+} from './movement';
 import { computeEffectiveModifiers } from './TraitFormulas';
 import { createDefaultPsychState, PSYCHOLOGY_EVAL_INTERVAL } from './PsychologyTypes';
 import { PSYCH_PROFILES } from './BalanceConfig';
 import { matchReducer } from './MatchReducer';
+import {
+	DECISION_INTERVAL,
+	MOVE_DECISION_INTERVAL,
+	START_POSITION_X,
+	DIVE_LANDING_DISTANCE,
+	type MatchContext
+} from './MatchContext';
 import { ComboTracker, type ComboBreakReason } from './ComboTracker';
-import { ComboRegistry } from '../../combat/ComboRegistry';
-import { FinisherTable } from '../../combat/FinisherTable';
-import type { Seed } from '../../utils/types';
+import type { ComboRegistry } from '../../combat/ComboRegistry';
+import type { FinisherTable } from '../../combat/FinisherTable';
+import { MovePackLoader } from '../../combat/MovePackLoader';
+import { CORE_MOVE_PACK, type MovePack } from '../../data/moves';
+import type { Seed, Alignment } from '../../utils/types';
+import type { Strategy } from '../../ai/Strategy';
+import { getPresetProfile } from '../../ai/personality/profiles';
+import { HumanController, type InputSource } from './input';
+import { getMatchType, type MatchTypeRules, type WinCondition } from '../MatchTypes';
 
 // ─── Hit Impact Event (consumed by rendering layer) ─────────────────
 
 export interface HitImpactEvent {
 	/** Position of impact (midpoint between attacker and defender) */
 	positionX: number;
+	positionZ: number;
 	/** The attacker's id */
 	attackerId: string;
 	/** The defender's id */
@@ -72,10 +138,21 @@ export interface MatchDebugger {
 
 export interface MatchLoopConfig {
 	seed: Seed;
-	timeLimit: number;
+	/**
+	 * Match type id (key into MATCH_TYPES) — decides win conditions, rope breaks,
+	 * DQs, falls and the time limit. Defaults to 'singles'.
+	 */
+	matchType?: string;
+	/** Overrides the match type's time limit (seconds, 0 = unlimited). */
+	timeLimit?: number;
 	tickRate: number;
-	wrestler1: WrestlerInput;
-	wrestler2: WrestlerInput;
+	/** Every fighter in the match, in ring order (count must fit the match type). */
+	wrestlers: WrestlerInput[];
+	/**
+	 * Move packs layered over the core pack, in order — later packs replace
+	 * moves, movesets and combos with the same id. Validated by MovePackLoader.
+	 */
+	movePacks?: MovePack[];
 }
 
 export interface WrestlerInput {
@@ -91,13 +168,36 @@ export interface WrestlerInput {
 	color: string;
 	height: number;
 	build: 'light' | 'medium' | 'heavy';
+	/** How the crowd takes this fighter (cheered faces, booed heels). Defaults to 'tweener'. */
+	alignment?: Alignment;
+	/**
+	 * Decision-making brain. Either a strategy id ('behavior_tree', 'utility_ai',
+	 * 'rl', 'hybrid') or a ready-made Strategy instance. Omitted or 'agent'
+	 * uses the built-in range-aware Agent.
+	 */
+	strategy?: string | Strategy;
+	/** When set, this fighter is human-controlled by the given input source (overrides strategy). */
+	input?: InputSource;
+	/** How this fighter picks an opponent in multi-fighter matches. Defaults to 'nearest'. */
+	targeting?: TargetingPolicy;
+	/**
+	 * Tag team this fighter belongs to. Tag matches default to alternating
+	 * teams in wrestler order (1st & 3rd vs 2nd & 4th).
+	 */
+	teamId?: string;
+	/**
+	 * FinisherTable moveset for this fighter's signatures and finishers.
+	 * Defaults to the moveset matching psychArchetype.
+	 */
+	movesetId?: string;
+	/** Signature picked from any FinisherTable moveset (replaces the moveset's own). */
+	signatureId?: string;
+	/** Finisher picked from any FinisherTable moveset (replaces the moveset's own). */
+	finisherId?: string;
 }
 
-/** Decision cooldown in ticks between AI combat actions (attack/block/taunt). */
-const DECISION_INTERVAL = 42; // ~1.4 decisions per second — slow, cinematic pacing
-
-/** Decision cooldown for movement re-evaluation (faster — keeps fighters engaged). */
-const MOVE_DECISION_INTERVAL = 6; // ~10 re-evaluations per second — responsive movement
+/** Decision cooldown for manually controlled fighters (poll every tick). */
+const MANUAL_DECISION_INTERVAL = 1;
 
 /** Health threshold for knockdown check */
 const KNOCKDOWN_HEALTH_THRESHOLD = 0.12;
@@ -111,6 +211,76 @@ const KNOCKDOWN_COOLDOWN = 300; // 5 seconds between knockdowns — dramatic spa
 /** Base knockback speed applied to defender on hit (units/second). */
 const KNOCKBACK_BASE_SPEED = 8.0;
 
+/** Frames to climb a turnbuckle, and the longest a fighter waits up top for the dive. */
+const CLIMB_FRAMES = 30;
+const PERCH_FRAMES = 90;
+
+/** A fighter this close to the turnbuckle spot starts climbing. */
+const TURNBUCKLE_REACH = 0.15;
+
+/** An AI wrestler gives up walking to the turnbuckle after this long (3 seconds). */
+const CLIMB_INTENT_TIMEOUT = 180;
+
+/** A run off the ropes is over this long after the rebound (running moves close). */
+const ROPE_RUN_TIMEOUT = 90;
+
+/** An opponent within this distance of a turnbuckle is whipped into that corner, not the ropes. */
+const WHIP_CORNER_REACH = 2.2;
+
+/** Knockback speed left when a whipped opponent hits the ropes (they come back off them). */
+const WHIP_REBOUND_SPEED = 12;
+
+/** Stun on a whipped opponent — long enough to follow them in. */
+const WHIP_STUN_FRAMES = 50;
+
+/** Stun on the pinning fighter when the opponent kicks out (longer after a near-fall). */
+const KICKOUT_STUN_FRAMES = 12;
+const NEAR_FALL_STUN_FRAMES = 24;
+
+/** Stun on the holding fighter when the opponent fights out of a submission. */
+const SUBMISSION_ESCAPE_STUN_FRAMES = 24;
+
+/** Stun on the holding fighter when a third fighter breaks up the pin or submission. */
+const HOLD_BREAK_UP_STUN_FRAMES = 30;
+
+/**
+ * How long an uninvolved fighter takes to react to a pin or submission
+ * before a save is possible: at least SAVE_REACTION_MIN_FRAMES, plus a random
+ * share of SAVE_REACTION_SPREAD_FRAMES that shrinks with aggression. Slow
+ * reactions let some three-counts through.
+ */
+const SAVE_REACTION_MIN_FRAMES = 30;
+const SAVE_REACTION_SPREAD_FRAMES = 150;
+
+/** Extra reaction per unit of distance from the holder — the far side of the ring is a long way. */
+const SAVE_FRAMES_PER_UNIT = 25;
+
+/**
+ * Extra reaction for a worn-down saver: up to this many frames at no
+ * health and stamina left. A beaten-up fighter is slow to peel themselves
+ * off the mat and often can't get there in time.
+ */
+const SAVE_HURT_FRAMES = 180;
+
+/** Ticks both wrestlers rest in their corners before the next fall starts. */
+const FALL_RESET_PAUSE = 180;
+
+/** Number of Rumble entrants in the ring when the bell rings. */
+const RUMBLE_OPENING_ENTRANTS = 2;
+
+/** runToEnd() safety net: stop a match this long past its time limit (or an hour when untimed). */
+const SAFETY_OVERTIME_SECONDS = 600;
+
+/** Excitement (calculateRating's bonuses added up) of a 2.5-star match. */
+const RATING_MIDPOINT = 4.8;
+
+/**
+ * Width of the star curve around RATING_MIDPOINT: smaller pushes ratings
+ * out towards 0 and 5. Tuned so a typical batch spreads from about 1 to
+ * 4.5 stars, with only the wildest matches near 5.
+ */
+const RATING_SPREAD = 1.4;
+
 /** Fixed delta time for 60Hz simulation (seconds). */
 const DT = 1 / 60;
 
@@ -130,11 +300,79 @@ const DT = 1 / 60;
  * │ PHASE 5: MOVEMENT       — Kinematic position update, knockback decay    │
  * │ PHASE 6: COMBAT         — Resolve active-phase attacks (once per move)  │
  * │ PHASE 7: REACTION       — Process combat events (HIT/REVERSAL/KNOCKDOWN)│
- * │ PHASE 8: WIN CHECK      — KO, TKO, timeout, comeback triggers          │
+ * │                           + pin counts, submission holds and grapples   │
+ * │ PHASE 8: WIN CHECK      — KO, TKO, timeout per the match type rules     │
  * └──────────────────────────────────────────────────────────────────────────┘
  *
+ * Match type rules (MatchTypeRules, from MATCH_TYPES):
+ *   - winConditions gate which finishes count (pinfall, submission, knockout/TKO)
+ *   - ropeBreak lets a held fighter escape a submission at the ropes;
+ *     with dq, a holder who refuses to break is disqualified
+ *   - falls > 1 restarts the match after each fall until someone reaches the
+ *     tally; 'most_falls_wins' (Iron Man) runs to the time limit instead
+ *   - timeLimit 0 means no time limit
+ *
+ * Grapples (GrappleSystem + the move library's GrappleChainTable):
+ *   - A grapple-category attack starts a lock-up instead of a move from range
+ *     (a stunned opponent is grabbed outright); after LOCK_UP_FRAMES the
+ *     winner takes control at 'neutral'
+ *   - The controller chains position transitions (reversible by the held
+ *     fighter) and finishes with a move the current position allows; chops
+ *     and other moves that keep the grapple hand control straight back
+ *   - The held fighter struggles every settled tick; breaking free stuns the controller
+ *   - MatchState.grapple tracks the position, the FSMs only the three grapple states
+ *
+ * Multi-fighter matches (triple threat, fatal four-way):
+ *   - Each fighter fights its AgentState.targetId, chosen by TargetingSystem
+ *     under its TargetingPolicy (nearest / weakest / most threatening)
+ *   - Fighters outside a pin or submission rush in to break it up
+ *   - Separation is enforced only between a fighter and its target
+ *
+ * Ring positions (RingGeometry — a square X/Z mat with ropes and corners):
+ *   - Knockback hard into the ropes rebounds the fighter
+ *   - A rope run sprints to the ropes behind the fighter and back off them
+ *     at the opponent; running moves are open until the run ends
+ *   - An Irish whip stuns the opponent and sends them into a nearby corner
+ *     (corner moves open) or into the ropes to come back off them
+ *   - Top-rope moves walk to the nearest turnbuckle, climb (CLIMBING) and
+ *     dive from PERCHED once the target is in range; a hit up top knocks
+ *     the fighter off
+ *
+ * Ringside (RingsideSystem; everywhere but cages and Rumbles):
+ *   - Fighters leave the ring by rolling under the ropes (ROLLING), being
+ *     thrown out (THROW_OUT_MOVE) or diving at an opponent on the floor
+ *     ('outside' moves); they come back in with a roll of their own
+ *   - On the floor only strikes and whips connect; a whip or hard
+ *     knockback into the barricade is a barricade slam
+ *   - With a count-out rule the referee counts anyone legal on the floor;
+ *     at COUNT_OUT_LIMIT they lose the fall by 'countout'
+ *
+ * Crowd (CrowdSystem):
+ *   - Every tick the crowd reacts to the new log entries: pop for big
+ *     spots, heat per wrestler depending on alignment (faces cheered,
+ *     heels booed, cheating booed whoever does it), and now and then a chant
+ *   - Heels covering near the ropes may cheat with leverage (PinSystem)
+ *   - Each wrestler's heat is their psych crowdHeat (EmotionMachine,
+ *     PinSystem, ComebackSystem); pop and chants feed the match rating
+ *
+ * Royal Rumble ('timed_entry' + 'over_top_rope'; RumbleSystem runs it through the MatchContext):
+ *   - Entrants come in on a seeded timer, up to RUMBLE_RING_LIMIT
+ *     in the ring; the rest wait backstage
+ *   - Eliminations come from OVER_THE_TOP_MOVE throws near the ropes, with a
+ *     "skin the cat" roll to survive; the last one left once everyone has
+ *     entered wins, and the result carries the full entry/elimination timeline
+ *
+ * Steel cage ('cage_walls' + 'cage_door'):
+ *   - Cage walls at the ring boundary bounce fighters back; a hard knockback
+ *     into the steel is a cage slam (CAGE_SLAM damage)
+ *   - Escapes (CageSystem) are multi-tick: walk to the wall or door, then
+ *     ESCAPING until progress reaches 1 — a win by 'escape'
+ *   - Any hit drags the escaper back in (a fall from the top past
+ *     CLIMB_FALL_PROGRESS); the opponent rushes over to pull them down
+ *
  * Invariants:
- *   - Same seed + same inputs = identical outcome (deterministic via SeededRandom)
+ *   - Same seed + same inputs = identical outcome (deterministic via SeededRandom;
+ *     checked tick by tick with DeterminismVerifier)
  *   - FSM is the sole authority for phase/phaseFrames/activeMove transitions
  *   - Position is written exactly once per tick (in Phase 5)
  *   - Each attack resolves exactly once (tracked by resolvedAttacks set)
@@ -152,13 +390,74 @@ export class MatchLoop {
 
 	private readonly rng: SeededRandom;
 	private readonly moveRegistry: MoveRegistry;
+	/** Every move in the registry (fixed once the move packs are loaded) */
+	private readonly allMoves: MoveDef[];
 	private readonly combatResolver: CombatResolver;
 	private readonly comebackSystem: ComebackSystem;
+	private readonly pinSystem: PinSystem;
+	private readonly submissionSystem: SubmissionSystem;
+	private readonly grappleSystem: GrappleSystem;
 	private readonly emotionMachine: EmotionMachine;
-	private readonly agents: Map<string, Agent>;
+	private readonly agents: Map<string, FighterBrain>;
 	private readonly decisionTimers: Map<string, number>;
 	private readonly comebackStartTicks: Map<string, number>;
 
+	/** Rules of the match type being contested. */
+	private readonly rules: MatchTypeRules;
+
+	/** Iron Man tie at the time limit: the next fall wins. */
+	private suddenDeath = false;
+
+	/** Picks each fighter's opponent in multi-fighter matches. */
+	private readonly targeting: TargetingSystem;
+
+	/** Targeting policy per agent. */
+	private readonly targetingPolicies: Map<string, TargetingPolicy>;
+
+	/** Last fighter to land a hit on each agent — credited with a knockout. */
+	private readonly lastHitBy: Map<string, string> = new Map();
+
+	/** Tick from which each uninvolved fighter can break up the current hold. */
+	private readonly saveReadyTick: Map<string, number> = new Map();
+	/** startTick of the hold saveReadyTick was rolled for. */
+	private saveHoldStartTick = -1;
+
+	/** Tag team rules are in force (legal man, apron partners, tags). */
+	private readonly tagMatch: boolean;
+
+	/** Runs tags, saves and double-team moves in tag matches. */
+	private readonly tagTeam: TagTeamSystem;
+
+	/** Royal Rumble rules are in force (timed entries, over-the-top eliminations). */
+	private readonly rumbleMatch: boolean;
+
+	/** Runs entries and eliminations in Royal Rumbles. */
+	private readonly rumbleSystem: RumbleSystem;
+
+	/** Steel cage rules are in force (cage walls, escapes). */
+	private readonly cageMatch: boolean;
+
+	/** Runs escapes, pull-downs and cage slams in cage matches. */
+	private readonly cageSystem: CageSystem;
+
+	/** Fighting outside the ring is on (everywhere but cages and Rumbles). */
+	private readonly ringside: boolean;
+
+	/** Runs roll-outs, throw-outs, re-entries, barricade slams and the count-out. */
+	private readonly ringsideSystem: RingsideSystem;
+
+	/** Runs crowd pops, heat and chants. */
+	private readonly crowdSystem: CrowdSystem;
+
+	/** Wrestlers heading up a turnbuckle for a top-rope move, with the tick they set off. */
+	private readonly climbIntents: Map<string, { moveId: string; corner: RingCorner; sinceTick: number }> = new Map();
+
+	/**
+	 * Wrestlers running the ropes: the tick they set off for the ropes,
+	 * then the tick they came back off them (AgentState.running).
+	 */
+	private readonly ropeRuns: Map<string, number> = new Map();
+
 	/** Cached effective modifiers per agent, recomputed each psychology eval */
 	private readonly effectiveMods: Map<string, EffectiveModifiers>;
 
@@ -168,6 +467,9 @@ export class MatchLoop {
 	/** Movement controllers — one per agent. Handles approach, knockback, facing. */
 	private readonly movers: Map<string, MovementController>;
 
+	/** This match as the per-feature systems see it. */
+	private readonly match: MatchContext;
+
 	/** Combo registry — shared set of combo definitions. */
 	private readonly comboRegistry: ComboRegistry;
 
@@ -196,46 +498,94 @@ export class MatchLoop {
 	/** Tracks last knockdown tick per agent (cooldown between knockdowns). */
 	private readonly lastKnockdownTick: Map<string, number> = new Map();
 
+	/** Tracks the last tick each agent was hit by a finisher (pins right after are hard to escape). */
+	private readonly lastFinisherHitTick: Map<string, number> = new Map();
+
 	/** Optional debug logger — attached via setDebugger(). */
 	private _debugger: MatchDebugger | null = null;
 
 	constructor(config: MatchLoopConfig) {
+		const matchType = config.matchType ?? 'singles';
+		const rules = getMatchType(matchType);
+		if (!rules) {
+			throw new Error(`MatchLoop: unknown match type '${matchType}'`);
+		}
+		const count = config.wrestlers.length;
+		if (count < rules.minParticipants || count > rules.maxParticipants) {
+			throw new Error(
+				`MatchLoop: match type '${matchType}' takes ${rules.minParticipants}-${rules.maxParticipants} wrestlers, got ${count}`
+			);
+		}
+		this.rules = rules;
+		this.tagMatch = rules.specialRules.includes('tag_required');
+		this.rumbleMatch = rules.specialRules.includes('timed_entry');
+		this.cageMatch = rules.specialRules.includes('cage_walls');
+		this.ringside = !this.cageMatch && !this.rumbleMatch;
+
+		const library = MovePackLoader.load([CORE_MOVE_PACK, ...(config.movePacks ?? [])]);
+		for (const input of config.wrestlers) {
+			if (input.movesetId !== undefined && !library.finishers.has(input.movesetId)) {
+				throw new Error(`MatchLoop: unknown moveset '${input.movesetId}' for '${input.id}'`);
+			}
+			for (const [specialId, specialType] of [[input.signatureId, 'signature'], [input.finisherId, 'finisher']] as const) {
+				if (specialId !== undefined && library.finishers.findSpecial(specialId)?.specialType !== specialType) {
+					throw new Error(`MatchLoop: unknown ${specialType} '${specialId}' for '${input.id}'`);
+				}
+			}
+		}
+
 		this.rng = new SeededRandom(config.seed);
-		this.moveRegistry = new MoveRegistry();
+		this.moveRegistry = library.moves;
 		this.combatResolver = new CombatResolver(this.rng);
 		this.comebackSystem = new ComebackSystem(this.rng);
+		this.pinSystem = new PinSystem(this.rng);
+		this.submissionSystem = new SubmissionSystem(this.rng, rules.ropeBreak);
 		this.emotionMachine = new EmotionMachine(this.rng);
+		this.targeting = new TargetingSystem();
+		this.targetingPolicies = new Map();
 		this.agents = new Map();
 		this.decisionTimers = new Map();
 		this.comebackStartTicks = new Map();
 		this.effectiveMods = new Map();
 		this.fsms = new Map();
 		this.movers = new Map();
-		this.comboRegistry = new ComboRegistry();
+		this.match = this.createContext();
+		this.grappleSystem = new GrappleSystem(this.rng, library.grappleChains, this.moveRegistry, this.match);
+		this.tagTeam = new TagTeamSystem(this.rng, this.match);
+		this.rumbleSystem = new RumbleSystem(this.rng, this.match);
+		this.cageSystem = new CageSystem(this.rng, this.match);
+		this.ringsideSystem = new RingsideSystem(this.rng, this.match);
+		this.crowdSystem = new CrowdSystem(this.rng, this.match);
+		this.comboRegistry = library.combos;
 		this.comboTrackers = new Map();
-		this.finisherTable = new FinisherTable();
+		this.finisherTable = library.finishers;
 		this.agentMovesetIds = new Map();
 
 		// Create initial state
-		this.state = createInitialState(config);
+		this.state = createInitialState(config, rules);
 
 		// Create agent brains, FSMs, movement controllers, and initial psychology modifiers
 		const allMoves = this.moveRegistry.getAll();
+		this.allMoves = allMoves;
 		for (let i = 0; i < this.state.agents.length; i++) {
 			const agent = this.state.agents[i];
+			const input = config.wrestlers[i];
 
 			// Map psych archetype to combo style
-			const comboStyle = resolveComboStyle(config[i === 0 ? 'wrestler1' : 'wrestler2']);
+			const comboStyle = resolveComboStyle(input);
 
-			// Create agent brain (combo-aware: knows which moves can start combos)
-			this.agents.set(agent.id, new Agent(this.rng, allMoves, this.comboRegistry, comboStyle));
+			// Create agent brain (built-in Agent is combo-aware; strategies are adapted)
+			this.agents.set(agent.id, createBrain(
+				input, this.rng, allMoves, this.comboRegistry, comboStyle
+			));
+			this.targetingPolicies.set(agent.id, input.targeting ?? 'nearest');
 			this.decisionTimers.set(agent.id, 0);
 
 			// Create FSM for this fighter
 			this.fsms.set(agent.id, new FighterStateMachine(agent.id, agent.positionX));
 
 			// Create movement controller and teleport to initial position
-			const mover = new MovementController();
+			const mover = new MovementController({ cageWalls: this.cageMatch });
 			mover.teleport(agent.positionX);
 			this.movers.set(agent.id, mover);
 
@@ -243,16 +593,49 @@ export class MatchLoop {
 			this.comboTrackers.set(agent.id, new ComboTracker(this.comboRegistry, comboStyle));
 
 			// Map agent to their moveset ID for finisher lookup
-			const movesetId = resolveMovesetId(config[i === 0 ? 'wrestler1' : 'wrestler2']);
+			let movesetId = input.movesetId ?? resolveMovesetId(input);
+			if (input.signatureId !== undefined || input.finisherId !== undefined) {
+				movesetId = this.registerPickedSpecials(agent.id, movesetId, input);
+			}
 			this.agentMovesetIds.set(agent.id, movesetId);
 
 			// Compute initial effective modifiers
-			const opponent = this.state.agents[1 - i];
+			const opponent = opponentOf(this.state, agent);
 			const mods = computeEffectiveModifiers(
 				agent, opponent, agent.psych, agent.psychProfile
 			);
 			this.effectiveMods.set(agent.id, mods);
 		}
+
+		if (this.tagMatch) {
+			const teamSides = resolveTeamSides(this.state.agents);
+			const teamSizes = [...teamSides.keys()].map(
+				(teamId) => this.state.agents.filter((a) => a.teamId === teamId).length
+			);
+			if (teamSizes.length !== 2 || teamSizes[0] !== teamSizes[1]) {
+				throw new Error(`MatchLoop: tag team matches need two equal teams, got [${teamSizes.join(', ')}]`);
+			}
+			// Double-team moves are only started by the tag team logic, so they
+			// are registered after the brains have taken their move pools
+			for (const move of DOUBLE_TEAM_MOVES) this.moveRegistry.register(move);
+			this.tagTeam.start(teamSides);
+		}
+
+		if (this.rumbleMatch && this.state.rumble) {
+			// Like double-team moves, the throw stays out of the brains' move pools
+			this.moveRegistry.register(OVER_THE_TOP_MOVE);
+			this.state = {
+				...this.state,
+				rumble: { ...this.state.rumble, nextEntryTick: this.rumbleSystem.rollEntryInterval() }
+			};
+		}
+
+		if (this.ringside) {
+			// The throw to the floor is only started by the ringside logic too
+			this.moveRegistry.register(THROW_OUT_MOVE);
+		}
+
+		this.updateTargets();
 	}
 
 	// ─── Public API ──────────────────────────────────────────────
@@ -276,6 +659,19 @@ export class MatchLoop {
 		return events;
 	}
 
+	/**
+	 * What a fighter can execute right now: an ActionSpace mask and the
+	 * moves they could start (see ActionLegality). Used by RL envs to mask
+	 * actions; brains get the same answer in their DecisionContext.
+	 */
+	getLegality(agentId: string): ActionLegality {
+		const agent = this.state.agents.find((a) => a.id === agentId);
+		const fsm = this.fsms.get(agentId);
+		if (!agent || !fsm) throw new Error(`MatchLoop: no fighter '${agentId}'`);
+		const opponent = opponentOf(this.state, agent);
+		return this.legalityFor(agent, opponent, fsm, ringDistance(agent, opponent));
+	}
+
 	/**
 	 * Attach a debug logger. Pass null to detach.
 	 * When attached, each phase of step() emits trace data.
@@ -307,7 +703,7 @@ export class MatchLoop {
 	 *  ├─ Phase 5: MOVEMENT ──────────── kinematic position update
 	 *  │                                 → knockback decay
 	 *  │                                 → ring boundary + separation enforcement
-	 *  │                                 → write positionX (ONCE per tick)
+	 *  │                                 → write positionX/Z (ONCE per tick)
 	 *  │
 	 *  ├─ Phase 6: COMBAT ────────────── resolve ATTACK_ACTIVE moves (once each)
 	 *  │                                 → CombatResolver.resolve()
@@ -318,9 +714,12 @@ export class MatchLoop {
 	 *  ├─ Phase 7: REACTION ──────────── second FSM pass (same-tick reactions)
 	 *  │                                 → defender → STUNNED immediately
 	 *  │                                 → knockdown detection + FSM push
+	 *  │                                 → pin count / submission hold advance
 	 *  │                                 → comeback trigger/expiry
+	 *  │                                 → crowd reactions and chants
 	 *  │
-	 *  └─ Phase 8: WIN CHECK ─────────── KO (health=0), TKO (3 knockdowns), timeout
+	 *  └─ Phase 8: WIN CHECK ─────────── KO (health=0), TKO (4 knockdowns), count-out, timeout
+	 *                                    (pinfall/submission/DQ end the fall in Phase 7)
 	 */
 	step(): boolean {
 		if (!this.state.running) return false;
@@ -376,7 +775,7 @@ export class MatchLoop {
 		this._debugger?.onPhase('reaction', this.state);
 
 		// ╔═══════════════════════════════════════════════════════════╗
-		// ║  PHASE 8: WIN CHECK — KO, TKO, timeout                   ║
+		// ║  PHASE 8: WIN CHECK — KO, TKO, timeout (match type rules)║
 		// ╚═══════════════════════════════════════════════════════════╝
 		this.checkWinConditions();
 		this._debugger?.onPhase('win_check', this.state);
@@ -390,14 +789,93 @@ export class MatchLoop {
 	 * Run the entire match to completion and return the final state.
 	 */
 	runToEnd(): MatchState {
-		while (this.step()) {
-			// Safety: max 1 hour of game time
-			if (this.state.tick > 60 * 60 * 60) {
+		this.runTicks(Infinity);
+		return this.state;
+	}
+
+	/**
+	 * Run up to `maxTicks` ticks, with runToEnd()'s safety net. Lets a caller
+	 * spread a headless match over several frames instead of blocking on it.
+	 *
+	 * @returns true while the match is still running
+	 */
+	runTicks(maxTicks: number): boolean {
+		const maxSeconds = (this.state.timeLimit > 0 ? this.state.timeLimit : 60 * 60) + SAFETY_OVERTIME_SECONDS;
+		for (let i = 0; i < maxTicks && this.step(); i++) {
+			// Safety: untimed and sudden-death matches can't run forever
+			if (this.state.elapsed > maxSeconds) {
 				this.forceTimeout();
 				break;
 			}
 		}
-		return this.state;
+		return this.state.running;
+	}
+
+	/**
+	 * Give a fighter with picked signature/finisher moves a moveset of their
+	 * own: the picks replace the base moveset's specials, the rest is kept.
+	 * Returns the new moveset ID.
+	 */
+	private registerPickedSpecials(agentId: string, baseMovesetId: string, input: WrestlerInput): string {
+		const base = this.finisherTable.getMoveset(baseMovesetId);
+		const signature = input.signatureId !== undefined ? this.finisherTable.findSpecial(input.signatureId) : undefined;
+		const finisher = input.finisherId !== undefined ? this.finisherTable.findSpecial(input.finisherId) : undefined;
+		const movesetId = `${baseMovesetId}:${agentId}`;
+		this.finisherTable.register({
+			movesetId,
+			wrestlerName: input.name,
+			signatures: signature ? [signature] : base?.signatures ?? [],
+			finishers: finisher ? [finisher] : base?.finishers ?? []
+		});
+		return movesetId;
+	}
+
+	// ─── Match Context ──────────────────────────────────────────────
+
+	/** The view of this match handed to the per-feature systems. */
+	private createContext(): MatchContext {
+		const loop = this;
+		return {
+			get state() {
+				return loop.state;
+			},
+			set state(state: MatchState) {
+				loop.state = state;
+			},
+			rules: this.rules,
+			fsms: this.fsms,
+			movers: this.movers,
+			decisionTimers: this.decisionTimers,
+			lastHitBy: this.lastHitBy,
+			effectiveMods: this.effectiveMods,
+			allows: (condition) => this.allows(condition),
+			awardFall: (winnerId, loserId, method) => this.awardFall(winnerId, loserId, method),
+			rankFighters: () => this.rankFighters(),
+			emitHit: (event) => this._pendingHitEvents.push(event),
+			isInHold: (agentId) => this.isInHold(agentId),
+			canSave: (agent) => this.canSave(agent),
+			saveReadyTick: (agent) => this.getSaveReadyTick(agent),
+			tryBreakUpHold: (agent, distance) => this.tryBreakUpHold(agent, distance),
+			clearRingPlans: (agentId) => this.clearRingPlans(agentId),
+			retire: (agentId) => this.retire(agentId),
+			endMatch: (winnerId, loserId, method) => this.endMatch(winnerId, loserId, method)
+		};
+	}
+
+	/**
+	 * Take a fighter out of the action for good: fresh FSM where they stand,
+	 * no ring plans, combo, pending attack, last hitter or comeback.
+	 */
+	private retire(agentId: string): void {
+		const agent = this.state.agents.find((a) => a.id === agentId);
+		if (!agent) return;
+		this.movers.get(agentId)?.reset();
+		this.fsms.set(agentId, new FighterStateMachine(agentId, agent.positionX));
+		this.clearRingPlans(agentId);
+		this.comboTrackers.get(agentId)?.onComboBreak('window_expired');
+		this.resolvedAttacks.delete(agentId);
+		this.lastHitBy.delete(agentId);
+		this.comebackStartTicks.delete(agentId);
 	}
 
 	// ─── Phase Implementations ──────────────────────────────────────
@@ -409,16 +887,18 @@ export class MatchLoop {
 	private runPsychologyPhase(): void {
 		for (let i = 0; i < this.state.agents.length; i++) {
 			const agent = this.state.agents[i];
-			const opponent = this.state.agents[1 - i];
+			if (agent.location === 'backstage') continue;
+			const opponent = opponentOf(this.state, agent);
 			const profile = agent.psychProfile;
 			const prevPsych = agent.psych;
 
 			// Evaluate the emotional state machine (time-aware)
 			const matchElapsed = this.state.elapsed;
-			const matchTimeLimit = this.state.timeLimit;
+			const matchTimeLimit = this.state.timeLimit > 0 ? this.state.timeLimit : undefined;
 			const newPsych = this.emotionMachine.evaluate(
 				agent, opponent, prevPsych, profile,
-				matchElapsed, matchTimeLimit
+				matchElapsed, matchTimeLimit,
+				this.crowdSystem.psychHeat(agent, this.state.crowd)
 			);
 
 			// Check if emotion changed — log it
@@ -437,7 +917,7 @@ export class MatchLoop {
 				agents: this.state.agents.map((a) => {
 					if (a.id !== agent.id) return a;
 					return { ...a, psych: newPsych };
-				}) as [AgentState, AgentState]
+				})
 			};
 
 			// Recompute effective modifiers with updated state
@@ -450,9 +930,15 @@ export class MatchLoop {
 	}
 
 	private runDecisionPhase(): void {
+		if (this.tagMatch) this.tagTeam.update();
+		if (this.rumbleMatch) this.rumbleSystem.updateEntries();
+		this.updateTargets();
+
 		for (let i = 0; i < this.state.agents.length; i++) {
 			const agentState = this.state.agents[i];
-			const opponent = this.state.agents[1 - i];
+			// Rumble entrants backstage (not in yet, or eliminated) take no part
+			if (agentState.location === 'backstage') continue;
+			const opponent = opponentOf(this.state, agentState);
 
 			// Decrement decision timer
 			const timer = (this.decisionTimers.get(agentState.id) ?? 0) - 1;
@@ -460,33 +946,107 @@ export class MatchLoop {
 
 			const fsm = this.fsms.get(agentState.id);
 			const mover = this.movers.get(agentState.id);
-			const distance = Math.abs(agentState.positionX - opponent.positionX);
+			const brain = this.agents.get(agentState.id);
+			const distance = ringDistance(agentState, opponent);
+
+			// Let the brain sample per-tick input (human controllers poll devices here)
+			brain?.onTick?.(this.state.tick);
+
+			// ── TAG TEAM: partners who aren't legal only come in for saves ──
+			// Once done they head back to the apron (see runMovementPhase).
+			if (!agentState.legal) {
+				this.tagTeam.runPartnerDecision(agentState, opponent, distance);
+				continue;
+			}
+
+			// ── GRAPPLE: tied-up fighters act through the grapple, not a fresh decision ──
+			if (this.grappleSystem.isInGrapple(agentState.id)) {
+				if (fsm?.hasGrappleControl && brain) {
+					this.grappleSystem.runDecision(agentState, opponent, brain, distance);
+				}
+				continue;
+			}
 
 			// ── COMBO WINDOW: auto-chain the next combo move ──
 			// When the FSM is in COMBO_WINDOW, the combo tracker knows the next move.
 			// Push it as REQUEST_COMBO_ATTACK to chain into the next windup immediately.
+			// Brains with a requestComboChain hook (human players) decide whether to chain.
 			if (fsm && fsm.inComboWindow) {
-				this.tryComboChain(agentState, opponent, fsm, distance);
+				if (brain?.requestComboChain?.() ?? true) {
+					this.tryComboChain(agentState, opponent, fsm, distance);
+				}
+				continue;
+			}
+
+			// ── TOP ROPE: walking to the turnbuckle, climbing, or perched for the dive ──
+			if (fsm && this.updateClimb(agentState, fsm, distance)) {
+				continue;
+			}
+
+			// ── RINGSIDE: walking to the ropes or rolling under them ──
+			if (fsm && this.ringsideSystem.updateRoll(agentState, fsm)) {
 				continue;
 			}
 
 			// Only decide when FSM accepts input and timer expired
 			if (!fsm || !fsm.acceptsInput || timer > 0) continue;
+			if (!brain) continue;
+
+			// ── TAG OUT: head to the corner and tag the partner in ──
+			if (this.tagMatch && !brain.manual && agentState.location === 'ring' && this.tagTeam.tryTagOut(agentState, fsm)) {
+				continue;
+			}
+
+			// ── SAVE: rush in to break up someone else's pin or submission ──
+			// Targeting already points fighters who can save at the holder;
+			// the holder's own partner waits.
+			if (!brain.manual && this.state.hold && !this.isInHold(agentState.id)) {
+				this.decisionTimers.set(agentState.id, MOVE_DECISION_INTERVAL);
+				if (agentState.location === 'floor') {
+					// Holds only happen in the ring — get back in first
+					if (this.canSave(agentState)) this.ringsideSystem.startRollIntent(agentState, 'ring');
+				} else if (this.canSave(agentState) && !this.tryBreakUpHold(agentState, distance) && mover) {
+					mover.moveTowardOpponent(opponent.positionX, opponent.positionZ);
+					fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: opponent.positionX });
+				}
+				continue;
+			}
+
+			// ── CAGE: stop the opponent's escape, or make a break for it ──
+			if (this.cageMatch && !brain.manual && this.cageSystem.runDecision(agentState, opponent, fsm, distance)) {
+				continue;
+			}
+
+			// ── RINGSIDE: roll out, throw the opponent out, follow them, or get back in ──
+			if (this.ringside && !brain.manual && this.ringsideSystem.runDecision(agentState, opponent, fsm, distance)) {
+				continue;
+			}
+
+			// ── DOUBLE TEAM: both partners legal and in range ──
+			if (this.tagMatch && !brain.manual && this.tagTeam.tryDoubleTeam(agentState, opponent, fsm)) {
+				continue;
+			}
+
+			// ── OVER THE TOP: try to throw the target out of the Rumble ──
+			if (this.rumbleMatch && !brain.manual && this.rumbleSystem.tryEliminationThrow(agentState, opponent, fsm, distance)) {
+				continue;
+			}
 
 			// ── FINISHER CHECK: attempt finisher before normal attack ──
-			if (this.tryFinisherTrigger(agentState, opponent, fsm, i)) {
+			// Manual brains request finishers explicitly instead.
+			if (!brain.manual && this.tryFinisherTrigger(agentState, opponent, fsm, i)) {
 				continue; // finisher triggered — skip normal decision
 			}
 
-			const brain = this.agents.get(agentState.id);
-			if (!brain) continue;
-
 			const mods = this.effectiveMods.get(agentState.id);
 
 			// Build spatial context for range-aware decisions
 			const ctx: DecisionContext = {
 				distance,
-				attackRange: mover?.range ?? 1.5
+				attackRange: mover?.range ?? 1.5,
+				canAttack: fsm.canAttack,
+				legality: this.legalityFor(agentState, opponent, fsm, distance),
+				crowdPop: this.state.crowd.pop
 			};
 
 			const action = brain.decide(agentState, opponent, ctx, mods);
@@ -494,23 +1054,84 @@ export class MatchLoop {
 			// Reset decision timer based on action type
 			// Movement uses a shorter interval so fighters re-evaluate quickly while
 			// closing distance. Combat actions use the full interval.
+			// Manual brains are polled every tick — the FSM gates what they can do.
 			const speedMod = mods ? mods.speed : 1.0;
-			const baseInterval = (action.type === 'move' || action.type === 'idle')
+			const baseInterval = (action.type === 'move' || action.type === 'idle' || action.type === 'whip')
 				? MOVE_DECISION_INTERVAL
 				: DECISION_INTERVAL;
 			const adjustedInterval = Math.round(baseInterval / speedMod);
-			this.decisionTimers.set(agentState.id, clamp(adjustedInterval, 4, 30));
+			this.decisionTimers.set(
+				agentState.id,
+				brain.manual ? MANUAL_DECISION_INTERVAL : clamp(adjustedInterval, 4, 30)
+			);
 
 			switch (action.type) {
 				case 'move': {
-					// AI chose to approach — move toward opponent
-					if (mover) {
-						mover.moveTowardOpponent(opponent.positionX);
+					// Player movement overrides a walk to the cage exit
+					this.cageSystem.cancelEscapeIntent(agentState.id);
+					if (!mover) break;
+					if (action.targetX !== undefined) {
+						// Explicit target (player-directed movement)
+						mover.moveToward(action.targetX, action.targetZ);
+						fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: action.targetX });
+					} else if (!mover.isRunning) {
+						// AI chose to approach — move toward opponent (a rope run keeps going)
+						mover.moveTowardOpponent(opponent.positionX, opponent.positionZ);
 						fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: opponent.positionX });
 					}
 					break;
 				}
 
+				case 'run_ropes': {
+					if (!mover || agentState.location !== 'ring' || agentState.running || this.ropeRuns.has(agentState.id)) break;
+					// Off to the ropes behind, away from the opponent
+					const away = directionBetween(opponent, agentState);
+					const rope = ropePointAlong(agentState.positionX, agentState.positionZ, away.x, away.z);
+					mover.run(rope.x, rope.z);
+					fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: rope.x });
+					this.ropeRuns.set(agentState.id, this.state.tick);
+					break;
+				}
+
+				case 'whip':
+					if (!fsm.canAttack || this.state.grapple || this.state.hold) break;
+					if (!canWhip(agentState, opponent, distance)) break;
+					this.irishWhip(agentState, opponent);
+					break;
+
+				case 'finisher':
+					// Explicit finisher request — still gated by momentum, stamina and range
+					this.tryFinisherTrigger(agentState, opponent, fsm, i, true);
+					break;
+
+				case 'tag':
+					// Manual tags only connect within reach of the corner
+					if (this.tagMatch && agentState.location === 'ring') this.tagTeam.tryManualTag(agentState);
+					break;
+
+				case 'ringside':
+					// Throw the opponent out, roll out, or roll back in, depending on where everyone is
+					if (this.ringside) this.ringsideSystem.runManual(agentState, opponent, fsm, distance);
+					break;
+
+				case 'climb':
+				case 'door':
+					// Walk to the wall or door; the escape starts on arrival
+					if (this.cageMatch) this.cageSystem.setEscapeIntent(agentState, action.type);
+					break;
+
+				case 'pin':
+					// With someone else's hold in progress, the pin button makes the save;
+					// in a Rumble (no pinfalls) it goes for the over-the-top throw
+					if (this.rumbleMatch) {
+						this.rumbleSystem.tryEliminationThrow(agentState, opponent, fsm, distance, true);
+					} else if (this.state.hold && !this.isInHold(agentState.id)) {
+						this.tryBreakUpHold(agentState, distance);
+					} else {
+						this.tryPin(agentState, opponent, fsm, distance);
+					}
+					break;
+
 				case 'mistake': {
 					// Psychology-driven mistake: agent commits to a bad move
 					if (!action.moveId) break;
@@ -534,7 +1155,7 @@ export class MatchLoop {
 								stamina: clamp(a.stamina - move.staminaCost * 0.4, 0, a.maxStamina),
 								stats: { ...a.stats, movesMissed: a.stats.movesMissed + 1 }
 							};
-						}) as [AgentState, AgentState]
+						})
 					};
 
 					// Push as a REQUEST_ATTACK into FSM — the move will be resolved as
@@ -561,9 +1182,26 @@ export class MatchLoop {
 					if (move.staminaCost > agentState.stamina) break;
 					if (!fsm.canAttack) break;
 
+					// Top-rope moves start with the walk to the turnbuckle
+					if (move.position === 'top_rope') {
+						if (inMoveReach(move, agentState, opponent, distance)) this.startClimbIntent(agentState, move);
+						break;
+					}
+
 					// Safety net: reject attack if out of move's hitbox range
 					if (distance > move.hitbox.range + 0.3) break;
 
+					// Corner, rope and running moves need the ring position set up,
+					// and across the ropes only dives to the outside reach
+					if ((move.position || agentState.location !== opponent.location)
+						&& !inMoveReach(move, agentState, opponent, distance)) break;
+
+					// Grapple moves come out of a grapple position, not from range
+					if (move.category === 'grapple') {
+						this.grappleSystem.tryLockUp(agentState, opponent, fsm);
+						break;
+					}
+
 					// Deduct stamina
 					this.state = {
 						...this.state,
@@ -573,7 +1211,7 @@ export class MatchLoop {
 								...a,
 								stamina: clamp(a.stamina - move.staminaCost, 0, a.maxStamina)
 							};
-						}) as [AgentState, AgentState]
+						})
 					};
 
 					// Stop movement on attack commit
@@ -601,9 +1239,10 @@ export class MatchLoop {
 					break;
 
 				case 'idle':
-					// When idle, continue approaching if out of range
-					if (mover && distance > mover.range + 0.1) {
-						mover.moveTowardOpponent(opponent.positionX);
+					// When idle, continue approaching if out of range (AI only); a rope run keeps going
+					if (mover?.isRunning) break;
+					if (mover && !brain.manual && distance > mover.range + 0.1) {
+						mover.moveTowardOpponent(opponent.positionX, opponent.positionZ);
 						fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: opponent.positionX });
 					} else if (mover) {
 						mover.stopMovement();
@@ -647,6 +1286,7 @@ export class MatchLoop {
 		// Range check — allow a generous range for combo chains
 		// (fighters are typically close during combos)
 		if (distance > move.hitbox.range + 0.6) return;
+		if ((move.position || agent.location !== opponent.location) && !inMoveReach(move, agent, opponent, distance)) return;
 
 		// Deduct stamina (scaled)
 		this.state = {
@@ -657,7 +1297,7 @@ export class MatchLoop {
 					...a,
 					stamina: clamp(a.stamina - scaledCost, 0, a.maxStamina)
 				};
-			}) as [AgentState, AgentState]
+			})
 		};
 
 		// Stop movement during combo
@@ -686,13 +1326,17 @@ export class MatchLoop {
 	 * 6. Opponent not in finisher sequence already
 	 * 7. Weighted random check passes (finisherBoost from psychology)
 	 *
+	 * Requested finishers (human players) skip conditions 3 and 7 — the
+	 * player decides when the moment is right, momentum still has to allow it.
+	 *
 	 * @returns true if a finisher was triggered (caller should skip normal decision)
 	 */
 	private tryFinisherTrigger(
 		attacker: AgentState,
 		defender: AgentState,
 		attackerFSM: FighterStateMachine,
-		_attackerIndex: number
+		_attackerIndex: number,
+		requested = false
 	): boolean {
 		// 1. Momentum gate
 		if (!this.finisherTable.canAttemptFinisher(attacker.momentum)) return false;
@@ -701,7 +1345,7 @@ export class MatchLoop {
 		const defenderHealthPct = defender.health / defender.maxHealth;
 		const attackerMods = this.effectiveMods.get(attacker.id);
 		const isClutch = attackerMods && attackerMods.emotion === 'clutch';
-		if (defenderHealthPct >= 0.45 && !isClutch) return false;
+		if (!requested && defenderHealthPct >= 0.45 && !isClutch) return false;
 
 		// 3. Get finisher move from table
 		const movesetId = this.agentMovesetIds.get(attacker.id);
@@ -719,16 +1363,17 @@ export class MatchLoop {
 		// Also check if attacker isn't already in a finisher
 		if (attackerFSM.inFinisher) return false;
 
-		// 6. Range check (generous — finishers have cinematic close-up)
-		const distance = Math.abs(attacker.positionX - defender.positionX);
+		// 6. Range check (generous — finishers have cinematic close-up), in the ring
+		const distance = ringDistance(attacker, defender);
 		if (distance > finisherMove.hitbox.range + 0.5) return false;
+		if (!inRingTogether(attacker, defender)) return false;
 
 		// 7. Weighted random check
 		const finisherBoost = attackerMods ? attackerMods.finisherBoost : 0;
 		const comebackBonus = attacker.comebackActive ? 0.25 : 0;
 		const clutchBonus = isClutch ? 0.3 : 0;
 		const triggerChance = 0.15 + finisherBoost * 0.4 + comebackBonus + clutchBonus;
-		if (!this.rng.chance(triggerChance)) return false;
+		if (!requested && !this.rng.chance(triggerChance)) return false;
 
 		// ── TRIGGER FINISHER ──
 
@@ -741,7 +1386,7 @@ export class MatchLoop {
 					...a,
 					stamina: clamp(a.stamina - finisherMove.staminaCost, 0, a.maxStamina)
 				};
-			}) as [AgentState, AgentState]
+			})
 		};
 
 		// Stop movement
@@ -859,7 +1504,7 @@ export class MatchLoop {
 			const fsm = this.fsms.get(agent.id);
 			if (!fsm || fsm.stateId !== 'FINISHER_SETUP') continue;
 
-			const opponent = this.state.agents[1 - i];
+			const opponent = opponentOf(this.state, agent);
 			const opponentFSM = this.fsms.get(opponent.id);
 			if (!opponentFSM) continue;
 
@@ -882,19 +1527,9 @@ export class MatchLoop {
 				this.processFSMAction(agentState.id, action);
 			}
 
-			// Sync FSM state back into MatchState
-			const fsmPhase = mapFSMStateToPhase(fsm.stateId);
-			this.state = matchReducer(this.state, {
-				type: 'FSM_SYNC',
-				agentId: agentState.id,
-				phase: fsmPhase,
-				phaseFrames: fsm.stateTimer,
-				activeMove: fsm.activeMoveId,
-				positionX: fsm.positionX
-			});
-
-			// ── Populate render-facing animation fields ──
+			// ── Render-facing animation fields ──
 			// These are read-only by the rendering layer for move-specific animations.
+			const fsmPhase = mapFSMStateToPhase(fsm.stateId);
 			const activeMoveId = fsm.activeMoveId;
 			const moveDef = activeMoveId ? this.moveRegistry.get(activeMoveId) : null;
 			const comboTracker = this.comboTrackers.get(agentState.id);
@@ -919,20 +1554,20 @@ export class MatchLoop {
 				phaseTotalFrames = fsm.stateTimer;
 			}
 
-			this.state = {
-				...this.state,
-				agents: this.state.agents.map((a) => {
-					if (a.id !== agentState.id) return a;
-					return {
-						...a,
-						moveCategory: moveDef?.category ?? null,
-						targetRegion: moveDef?.region ?? null,
-						phaseTotalFrames,
-						comboStep,
-						comboTotalSteps
-					};
-				}) as [AgentState, AgentState]
-			};
+			// Sync FSM state back into MatchState (one agent copy per tick)
+			this.state = matchReducer(this.state, {
+				type: 'FSM_SYNC',
+				agentId: agentState.id,
+				phase: fsmPhase,
+				phaseFrames: fsm.stateTimer,
+				activeMove: activeMoveId,
+				positionX: fsm.positionX,
+				moveCategory: moveDef?.category ?? null,
+				targetRegion: moveDef?.region ?? null,
+				phaseTotalFrames,
+				comboStep,
+				comboTotalSteps
+			});
 		}
 	}
 
@@ -943,48 +1578,153 @@ export class MatchLoop {
 	 * Computes kinematic movement, applies knockback decay,
 	 * enforces ring boundaries and minimum separation.
 	 * Writes the resulting position back into MatchState.
+	 *
+	 * Each fighter tracks and separates from its own target only; in
+	 * multi-fighter matches everyone else can be walked through.
+	 *
+	 * Only wrestlers in the ring or on the ringside floor move, and they
+	 * only separate from a target on the same side of the ropes. Tag
+	 * matches: wrestlers tagging out walk to their corner, and illegal
+	 * wrestlers in the ring walk back to the apron (without separation —
+	 * they slip past the legal men). Climbers walk to their turnbuckle,
+	 * wrestlers leaving or coming back walk to the ropes and roll under
+	 * them, and rope runners sprint without tracking.
 	 */
 	private runMovementPhase(): void {
 		for (let i = 0; i < this.state.agents.length; i++) {
 			const agent = this.state.agents[i];
-			const opponent = this.state.agents[1 - i];
+			const opponent = opponentOf(this.state, agent);
 			const mover = this.movers.get(agent.id);
 			const fsm = this.fsms.get(agent.id);
 			if (!mover || !fsm) continue;
+			if (agent.location !== 'ring' && agent.location !== 'floor') continue;
+
+			const returning = !agent.legal && !(this.state.hold && this.canSave(agent));
+			const escapeIntent = this.cageSystem.escapeIntent(agent.id);
+			const climbIntent = this.climbIntents.get(agent.id);
+			const rollIntent = this.ringsideSystem.rollIntent(agent.id);
+			const walkTarget = returning || this.tagTeam.isHeadingToTag(agent.id)
+				? { x: this.tagTeam.cornerPostX(agent), z: 0 }
+				: rollIntent && !rollIntent.landing
+					? this.ringsideSystem.rollStartSpot(agent, rollIntent.to)
+					: escapeIntent
+						? { x: escapeIntent.x, z: agent.positionZ }
+						: climbIntent && !agent.perch
+							? cornerPosition(climbIntent.corner)
+							: null;
 
 			// Update facing direction (always face opponent)
-			mover.updateFacing(opponent.positionX);
+			mover.updateFacing(walkTarget?.x ?? opponent.positionX);
 
 			// Auto-approach: fighters in IDLE/MOVING should always be closing distance.
 			// Continuously refresh the movement target so fighters track the opponent
 			// and don't stall at a static position when the opponent moves.
+			// Human-controlled fighters go where the stick points instead.
 			const fsmState = fsm.stateId;
-			if (fsmState === 'IDLE' || fsmState === 'MOVING') {
-				const distance = Math.abs(agent.positionX - opponent.positionX);
+			const manual = this.agents.get(agent.id)?.manual ?? false;
+			if (walkTarget !== null && (fsmState === 'IDLE' || fsmState === 'MOVING')) {
+				mover.moveToward(walkTarget.x, walkTarget.z);
+				if (fsmState === 'IDLE') {
+					fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: walkTarget.x });
+				}
+			} else if (fsmState === 'LOCK_UP' || fsmState === 'GRAPPLE_CONTROL') {
+				// Walk into the clinch (the held fighter is frozen in GRAPPLED)
+				const dir = directionBetween(opponent, agent);
+				mover.moveToward(opponent.positionX + dir.x * CLINCH_DISTANCE, opponent.positionZ + dir.z * CLINCH_DISTANCE);
+			} else if ((fsmState === 'IDLE' || fsmState === 'MOVING') && !mover.isRunning && !manual) {
+				const distance = ringDistance(agent, opponent);
 				if (distance > mover.range * 0.7) {
 					// Always refresh target toward opponent (track their movement)
-					mover.moveTowardOpponent(opponent.positionX);
+					mover.moveTowardOpponent(opponent.positionX, opponent.positionZ);
 					if (fsmState === 'IDLE') {
 						fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: opponent.positionX });
 					}
 				}
 			}
 
-			// Run kinematic movement update
-			mover.updateMovement(DT, fsm.stateId, opponent.positionX);
+			// Run kinematic movement update (nobody to separate from across the ropes)
+			const apart = returning || rollIntent?.landing || agent.location !== opponent.location;
+			mover.updateMovement(DT, fsm.stateId, apart ? Infinity : opponent.positionX, opponent.positionZ);
 
 			// Sync position from movement controller back into FSM and MatchState
 			const newX = mover.positionX;
+			const newZ = mover.positionZ;
 			fsm.setPositionX(newX);
 
-			// Write position into MatchState
-			this.state = {
-				...this.state,
-				agents: this.state.agents.map((a) => {
-					if (a.id !== agent.id) return a;
-					return { ...a, positionX: newX };
-				}) as [AgentState, AgentState]
-			};
+			// Write position into MatchState (standing still changes nothing)
+			const current = this.state.agents[i];
+			if (current.positionX !== newX || current.positionZ !== newZ) {
+				this.state = {
+					...this.state,
+					agents: this.state.agents.map((a) => {
+						if (a.id !== agent.id) return a;
+						return { ...a, positionX: newX, positionZ: newZ };
+					})
+				};
+			}
+
+			this.updateRopeRun(agent, opponent, mover, fsm);
+
+			// Out from under the ropes: on the floor, or back in the ring
+			if (rollIntent?.landing && fsm.stateId !== 'ROLLING') {
+				this.ringsideSystem.finishRoll(agent, rollIntent.to, rollIntent.landing);
+			}
+
+			// Whipped or knocked hard into the barricade
+			if (agent.location === 'floor' && mover.wallImpact > 0) {
+				this.ringsideSystem.barricadeSlam(agent, opponent, mover.wallImpact);
+			}
+
+			// Back at the corner: climb out onto the apron
+			if (returning && walkTarget !== null && Math.hypot(newX - walkTarget.x, newZ - walkTarget.z) <= TAG_REACH) {
+				this.tagTeam.moveToApron(agent);
+			}
+
+			if (this.cageMatch) {
+				// Knocked hard into the steel
+				if (mover.wallImpact > 0) this.cageSystem.slam(agent, opponent, mover.wallImpact);
+
+				// At the wall or door: start the escape
+				if (escapeIntent && Math.abs(newX - escapeIntent.x) <= ESCAPE_REACH && fsm.acceptsInput) {
+					this.cageSystem.startEscape(agent, escapeIntent.method);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Carry a rope run along: a run that reaches the ropes comes back off
+	 * them at a sprint toward the opponent (ROPE_REBOUND), and the run ends
+	 * once the fighter does anything but run, or ROPE_RUN_TIMEOUT after the
+	 * rebound.
+	 */
+	private updateRopeRun(
+		agent: AgentState,
+		opponent: AgentState,
+		mover: MovementController,
+		fsm: FighterStateMachine
+	): void {
+		const since = this.ropeRuns.get(agent.id);
+		if (since === undefined) return;
+
+		const running = fsm.stateId === 'IDLE' || fsm.stateId === 'MOVING';
+		if (!agent.running) {
+			if (running && mover.ropeRebound) {
+				this.state = matchReducer(this.state, { type: 'ROPE_REBOUND', agentId: agent.id });
+				mover.runAtOpponent(opponent.positionX, opponent.positionZ);
+				this.ropeRuns.set(agent.id, this.state.tick);
+				// Decide again as soon as the opponent is in range
+				this.decisionTimers.set(agent.id, 0);
+			} else if (!running || !mover.isRunning) {
+				// Cut off on the way to the ropes
+				this.ropeRuns.delete(agent.id);
+			}
+			return;
+		}
+
+		if (!running || this.state.tick - since > ROPE_RUN_TIMEOUT) {
+			this.ropeRuns.delete(agent.id);
+			this.state = matchReducer(this.state, { type: 'RUN_END', agentId: agent.id });
 		}
 	}
 
@@ -1003,7 +1743,7 @@ export class MatchLoop {
 							...a,
 							momentum: clamp(a.momentum + action.momentumGain, 0, 100)
 						};
-					}) as [AgentState, AgentState]
+					})
 				};
 				break;
 
@@ -1081,7 +1821,7 @@ export class MatchLoop {
 			const finisherMove = movesetId ? this.finisherTable.getFinisher(movesetId) : undefined;
 			if (!finisherMove) continue;
 
-			const defender = this.state.agents.find((a) => a.id !== attacker.id)!;
+			const defender = opponentOf(this.state, attacker);
 			const defenderFSM = this.fsms.get(defender.id);
 			const attackerMods = this.effectiveMods.get(attacker.id);
 
@@ -1100,6 +1840,9 @@ export class MatchLoop {
 				knockdownForced: result.knockdownForced
 			});
 
+			this.lastFinisherHitTick.set(defender.id, this.state.tick);
+			this.lastHitBy.set(defender.id, attacker.id);
+
 			// Push FINISHER_IMPACT_RECEIVED to defender FSM
 			const stunFrames = result.knockdownForced ? 40 : 24;
 			defenderFSM?.pushEvent({
@@ -1112,6 +1855,7 @@ export class MatchLoop {
 			// Emit max-intensity HitImpactEvent for VFX
 			this._pendingHitEvents.push({
 				positionX: (attacker.positionX + defender.positionX) / 2,
+				positionZ: (attacker.positionZ + defender.positionZ) / 2,
 				attackerId: attacker.id,
 				defenderId: defender.id,
 				damage: result.damage,
@@ -1124,12 +1868,21 @@ export class MatchLoop {
 			// Apply knockback to defender
 			const defenderMover = this.movers.get(defender.id);
 			if (defenderMover) {
-				const dir = defender.positionX > attacker.positionX ? 1 : -1;
-				defenderMover.applyKnockback(dir * KNOCKBACK_BASE_SPEED * 2.0);
+				const dir = directionBetween(attacker, defender);
+				const speed = KNOCKBACK_BASE_SPEED * 2.0;
+				defenderMover.applyKnockback(dir.x * speed, dir.z * speed);
 			}
 		}
 
 		// ── Resolve attacks — ONCE per active phase (prevents duplicate hits) ──
+		// ── Dives off the top rope and over the ropes come down beside the target first ──
+		for (const diver of this.state.agents) {
+			if (diver.phase !== 'active' || !diver.activeMove || this.resolvedAttacks.has(diver.id)) continue;
+			const position = this.moveRegistry.get(diver.activeMove)?.position;
+			if (position === 'top_rope') this.landDive(diver, opponentOf(this.state, diver));
+			else if (position === 'outside') this.ringsideSystem.landOutsideDive(diver, opponentOf(this.state, diver));
+		}
+
 		for (const attacker of this.state.agents) {
 			if (attacker.phase !== 'active' || !attacker.activeMove) continue;
 
@@ -1142,7 +1895,9 @@ export class MatchLoop {
 			const move = this.moveRegistry.get(attacker.activeMove);
 			if (!move) continue;
 
-			const defender = this.state.agents.find((a) => a.id !== attacker.id)!;
+			const defender = opponentOf(this.state, attacker);
+			// The target was eliminated earlier this tick — the move whiffs on air
+			if (defender.location === 'backstage') continue;
 			const attackerFSM = this.fsms.get(attacker.id);
 			const defenderFSM = this.fsms.get(defender.id);
 			const attackerMover = this.movers.get(attacker.id);
@@ -1155,6 +1910,11 @@ export class MatchLoop {
 			// Apply damage reduction if defender is blocking
 			const isBlocking = defender.phase === 'blocking';
 
+			// A move out of a grapple position (the defender is held)
+			const grapple = this.state.grapple?.moveId && this.state.grapple.attackerId === attacker.id
+				? this.state.grapple
+				: null;
+
 			// Resolve the combat with psychology modifiers
 			const result = this.combatResolver.resolve(
 				attacker, defender, move, attackerMods, defenderMods
@@ -1198,15 +1958,20 @@ export class MatchLoop {
 					stunFrames
 				});
 
+				// Reversing a grapple move frees the held fighter
+				if (grapple) this.grappleSystem.end('broken', 0);
+
 				// Knockback: push attacker away on reversal
 				if (attackerMover) {
-					const dir = attacker.positionX > defender.positionX ? 1 : -1;
-					attackerMover.applyKnockback(dir * KNOCKBACK_BASE_SPEED * 0.6);
+					const dir = directionBetween(defender, attacker);
+					const speed = KNOCKBACK_BASE_SPEED * 0.6;
+					attackerMover.applyKnockback(dir.x * speed, dir.z * speed);
 				}
 
 				// Emit hit impact event for VFX
 				this._pendingHitEvents.push({
 					positionX: (attacker.positionX + defender.positionX) / 2,
+					positionZ: (attacker.positionZ + defender.positionZ) / 2,
 					attackerId: attacker.id,
 					defenderId: defender.id,
 					damage: result.reversalDamage,
@@ -1240,6 +2005,7 @@ export class MatchLoop {
 					damage: actualDamage,
 					reversed: false
 				});
+				this.lastHitBy.set(defender.id, attacker.id);
 
 				// ── Update combo psychology tracking ──
 				if (comboResult && comboTracker) {
@@ -1257,7 +2023,7 @@ export class MatchLoop {
 									return { ...a, psych: { ...a.psych, worstComboReceived: currentHits } };
 								}
 								return a;
-							}) as [AgentState, AgentState]
+							})
 						};
 					}
 				}
@@ -1313,31 +2079,42 @@ export class MatchLoop {
 				}
 
 				// ── Set up combo window if the hit was part of an active combo ──
-				if (comboResult && comboResult.windowFrames > 0 && !comboResult.comboCompleted) {
+				// (grapple moves chain through the position instead)
+				if (comboResult && comboResult.windowFrames > 0 && !comboResult.comboCompleted && !grapple) {
 					attackerFSM?.setComboWindow(comboResult.windowFrames);
 				}
 
+				// Chops in the corner and the like leave the defender held
+				const keepsGrapple = !!grapple && this.grappleSystem.keepsGrapple(grapple, move);
+
 				// Push HIT_RECEIVED into defender's FSM
-				defenderFSM?.pushEvent({
-					type: 'HIT_RECEIVED',
-					stunFrames,
-					damage: actualDamage
-				});
+				if (!keepsGrapple) {
+					defenderFSM?.pushEvent({
+						type: 'HIT_RECEIVED',
+						stunFrames,
+						damage: actualDamage
+					});
+				}
+				if (grapple && !keepsGrapple) this.grappleSystem.end('move', 0);
+
+				// Submission moves that connect clean lock in a hold
+				const holdApplied = move.category === 'submission' && !isBlocking
+					&& this.tryApplySubmission(attacker, defender, move);
 
-				// Knockback: push defender away from attacker
-				if (defenderMover) {
-					const dir = defender.positionX > attacker.positionX ? 1 : -1;
+				// Knockback: push defender away from attacker (not while held)
+				if (defenderMover && !holdApplied && !keepsGrapple) {
+					const dir = directionBetween(attacker, defender);
 					const knockbackScale = isBlocking ? 0.3 : 1.0;
 					const critScale = result.critical ? 1.5 : 1.0;
-					defenderMover.applyKnockback(
-						dir * KNOCKBACK_BASE_SPEED * knockbackScale * critScale
-					);
+					const speed = KNOCKBACK_BASE_SPEED * knockbackScale * critScale;
+					defenderMover.applyKnockback(dir.x * speed, dir.z * speed);
 				}
 
 				// Emit hit impact event for VFX (with combo intensity boost)
 				const comboIntensityBoost = comboResult ? comboResult.step * 0.1 : 0;
 				this._pendingHitEvents.push({
 					positionX: (attacker.positionX + defender.positionX) / 2,
+					positionZ: (attacker.positionZ + defender.positionZ) / 2,
 					attackerId: attacker.id,
 					defenderId: defender.id,
 					damage: actualDamage,
@@ -1357,8 +2134,18 @@ export class MatchLoop {
 							...a,
 							momentum: clamp(a.momentum + totalMomentum, 0, 100)
 						};
-					}) as [AgentState, AgentState]
+					})
 				};
+
+				// A clean over-the-top throw can eliminate from the Rumble
+				if (this.rumbleMatch && move.id === OVER_THE_TOP_MOVE.id && !isBlocking) {
+					this.rumbleSystem.resolveOverTheTop(attacker.id, defender.id);
+				}
+
+				// A clean throw to the floor sends the defender out of the ring
+				if (this.ringside && move.id === THROW_OUT_MOVE.id && !isBlocking) {
+					this.ringsideSystem.resolveThrowOut(attacker.id, defender.id);
+				}
 			} else {
 				// ── Miss — log it and break any active combo ──
 				if (comboTracker?.isInCombo) {
@@ -1388,7 +2175,7 @@ export class MatchLoop {
 							...a,
 							stats: { ...a.stats, movesMissed: a.stats.movesMissed + 1 }
 						};
-					}) as [AgentState, AgentState]
+					})
 				};
 			}
 		}
@@ -1401,8 +2188,9 @@ export class MatchLoop {
 	 * into defender/attacker FSMs, this phase immediately processes them so
 	 * the defender transitions to STUNNED within the SAME tick (not 1 frame late).
 	 *
-	 * Then checks for knockdowns (health threshold → KNOCKED_DOWN) and
-	 * comeback trigger/expiry. A final FSM sync ensures all transitions
+	 * Then checks for knockdowns (health threshold → KNOCKED_DOWN), advances
+	 * any pin or submission hold, grapple and cage escape, handles
+	 * comeback trigger/expiry, and lets the crowd react. A final FSM sync ensures all transitions
 	 * are reflected in MatchState before Phase 8 (Win Check).
 	 */
 	private runReactionPhase(): void {
@@ -1412,8 +2200,20 @@ export class MatchLoop {
 		// 7b. Knockdown detection
 		this.checkKnockdowns();
 
-		// 7c. Comeback triggers and expiry
+		// 7c. Pin count / submission hold
+		this.updateHold();
+
+		// 7d. Lock-up, grapple positions and the held fighter's struggle
+		this.grappleSystem.update();
+
+		// 7e. Cage escape progress
+		if (this.cageMatch) this.cageSystem.update();
+
+		// 7f. Comeback triggers and expiry
 		this.checkComebacks();
+
+		// 7g. The crowd reacts to everything logged since last tick
+		this.crowdSystem.update();
 	}
 
 	private checkKnockdowns(): void {
@@ -1449,7 +2249,7 @@ export class MatchLoop {
 							};
 						}
 						return a;
-					}) as [AgentState, AgentState]
+					})
 				};
 
 				// Chance-based knockdown: lower health = higher knockdown chance
@@ -1502,29 +2302,572 @@ export class MatchLoop {
 		}
 	}
 
-	private checkWinConditions(): void {
+	// ─── Ring Positions ─────────────────────────────────────────────
+
+	/**
+	 * Commit to a top-rope move: walk to the nearest turnbuckle first.
+	 * The climb and the dive follow in updateClimb.
+	 */
+	private startClimbIntent(agent: AgentState, move: MoveDef): void {
+		const corner = nearestCorner(agent.positionX, agent.positionZ);
+		this.climbIntents.set(agent.id, { moveId: move.id, corner, sinceTick: this.state.tick });
+		this.decisionTimers.set(agent.id, MOVE_DECISION_INTERVAL);
+	}
+
+	/**
+	 * Carry a top-rope move along, run before the normal decision:
+	 *   - On the mat: walk to the turnbuckle (see runMovementPhase) and
+	 *     climb on arrival; give up if the fighter is interrupted or
+	 *     CLIMB_INTENT_TIMEOUT passes (a target who gets up meanwhile can
+	 *     still be dived on once they come back in range)
+	 *   - CLIMBING: nothing to decide
+	 *   - PERCHED: dive as soon as the target is in range
+	 *   - Off the turnbuckle without diving: the perch timed out, or a hit
+	 *     knocked them off
+	 *
+	 * @returns true if the climb took this decision
+	 */
+	private updateClimb(agent: AgentState, fsm: FighterStateMachine, distance: number): boolean {
+		const intent = this.climbIntents.get(agent.id);
+		if (!intent) return false;
+		const move = this.moveRegistry.get(intent.moveId);
+
+		if (fsm.stateId === 'CLIMBING') return true;
+		if (fsm.stateId === 'PERCHED') {
+			if (move && canAfford(move, agent) && inMoveRange(move, distance)) this.launchDive(agent, fsm, move);
+			return true;
+		}
+
+		if (agent.perch) {
+			this.climbIntents.delete(agent.id);
+			this.state = matchReducer(this.state, {
+				type: 'PERCH_END',
+				agentId: agent.id,
+				reason: fsm.acceptsInput ? 'climb_down' : 'knocked_off'
+			});
+			return false;
+		}
+
+		if (!move || !fsm.acceptsInput || this.state.tick - intent.sinceTick > CLIMB_INTENT_TIMEOUT) {
+			this.climbIntents.delete(agent.id);
+			return false;
+		}
+
+		const spot = cornerPosition(intent.corner);
+		if (Math.hypot(agent.positionX - spot.x, agent.positionZ - spot.z) <= TURNBUCKLE_REACH) {
+			this.movers.get(agent.id)?.stopMovement();
+			fsm.pushEvent({ type: 'REQUEST_CLIMB', climbFrames: CLIMB_FRAMES, perchFrames: PERCH_FRAMES });
+			this.state = matchReducer(this.state, { type: 'CLIMB_START', agentId: agent.id, corner: intent.corner });
+		}
+		return true;
+	}
+
+	/** Leave the top rope with the move the fighter climbed for. */
+	private launchDive(agent: AgentState, fsm: FighterStateMachine, move: MoveDef): void {
+		this.climbIntents.delete(agent.id);
+		this.state = {
+			...this.state,
+			agents: this.state.agents.map((a) => {
+				if (a.id !== agent.id) return a;
+				return { ...a, stamina: clamp(a.stamina - move.staminaCost, 0, a.maxStamina) };
+			})
+		};
+		this.state = matchReducer(this.state, { type: 'PERCH_END', agentId: agent.id, reason: 'dive' });
+		fsm.pushEvent({
+			type: 'REQUEST_ATTACK',
+			moveId: move.id,
+			windupFrames: move.windupFrames,
+			activeFrames: move.activeFrames,
+			recoveryFrames: move.recoveryFrames
+		});
+		this.decisionTimers.set(agent.id, DECISION_INTERVAL);
+	}
+
+	/**
+	 * A dive off the top rope comes down DIVE_LANDING_DISTANCE from the
+	 * target, on the side it came from.
+	 */
+	private landDive(diver: AgentState, target: AgentState): void {
+		const dir = directionBetween(target, diver);
+		const x = clamp(target.positionX + dir.x * DIVE_LANDING_DISTANCE, -RING_HALF_X, RING_HALF_X);
+		const z = clamp(target.positionZ + dir.z * DIVE_LANDING_DISTANCE, -RING_HALF_Z, RING_HALF_Z);
+		this.movers.get(diver.id)?.teleport(x, z);
+		this.fsms.get(diver.id)?.setPositionX(x);
+		this.state = {
+			...this.state,
+			agents: this.state.agents.map((a) => (a.id === diver.id ? { ...a, positionX: x, positionZ: z } : a))
+		};
+	}
+
+	/**
+	 * Irish whip: the opponent is stunned and sent flying into the nearest
+	 * corner when one is within WHIP_CORNER_REACH (left there for corner
+	 * moves), otherwise into the ropes away from the attacker with enough
+	 * speed left to come back off them. The knockback is sized so it
+	 * decays to a stop right at the corner. On the floor the opponent goes
+	 * straight out from the ring into the barricade, hard enough to slam.
+	 */
+	private irishWhip(attacker: AgentState, defender: AgentState): void {
+		const defenderFSM = this.fsms.get(defender.id);
+		const defenderMover = this.movers.get(defender.id);
+		if (!defenderFSM || !defenderMover) return;
+
+		const spot = cornerPosition(nearestCorner(defender.positionX, defender.positionZ));
+		const cornerDistance = Math.hypot(spot.x - defender.positionX, spot.z - defender.positionZ);
+		const into = defender.location === 'floor'
+			? 'barricade'
+			: cornerDistance <= WHIP_CORNER_REACH ? 'corner' : 'ropes';
+
+		let dir: { x: number; z: number };
+		let speed: number;
+		if (into === 'barricade') {
+			const outX = Math.abs(defender.positionX) >= Math.abs(defender.positionZ);
+			dir = outX
+				? { x: defender.positionX >= 0 ? 1 : -1, z: 0 }
+				: { x: 0, z: defender.positionZ >= 0 ? 1 : -1 };
+			const barricadeDistance = RINGSIDE_OUTER - Math.abs(outX ? defender.positionX : defender.positionZ);
+			speed = barricadeDistance * KNOCKBACK_DECAY + WHIP_REBOUND_SPEED;
+		} else if (into === 'corner') {
+			dir = directionBetween(defender, { positionX: spot.x, positionZ: spot.z });
+			speed = cornerDistance * KNOCKBACK_DECAY;
+		} else {
+			dir = directionBetween(attacker, defender);
+			const rope = ropePointAlong(defender.positionX, defender.positionZ, dir.x, dir.z);
+			const ropeDistance = Math.hypot(rope.x - defender.positionX, rope.z - defender.positionZ);
+			speed = ropeDistance * KNOCKBACK_DECAY + WHIP_REBOUND_SPEED;
+		}
+
+		this.movers.get(attacker.id)?.stopMovement();
+		defenderMover.stopMovement();
+		defenderMover.applyKnockback(dir.x * speed, dir.z * speed);
+		defenderFSM.pushEvent({ type: 'HIT_RECEIVED', stunFrames: WHIP_STUN_FRAMES, damage: 0 });
+
+		this.state = matchReducer(this.state, {
+			type: 'IRISH_WHIP',
+			attackerId: attacker.id,
+			defenderId: defender.id,
+			into,
+			staminaCost: WHIP_STAMINA_COST
+		});
+	}
+
+	/** Forget any walk to a turnbuckle, rope run or roll under the ropes (the fighter left the ring or was reset). */
+	private clearRingPlans(agentId: string): void {
+		this.climbIntents.delete(agentId);
+		this.ropeRuns.delete(agentId);
+		this.ringsideSystem.cancelRoll(agentId);
+	}
+
+	// ─── Targeting ──────────────────────────────────────────────────
+
+	/**
+	 * Point every fighter at who it should be fighting.
+	 *
+	 * While a pin or submission is in progress, everyone who can make the
+	 * save targets the attacker so they can rush in. Otherwise fighters that
+	 * are free to act re-evaluate every TARGET_EVAL_INTERVAL ticks under their
+	 * TargetingPolicy — fighters mid-move keep their target so an attack
+	 * isn't redirected halfway through.
+	 */
+	private updateTargets(): void {
+		const hold = this.state.hold;
+		const grapple = this.state.grapple;
+		const reevaluate = this.state.tick % TARGET_EVAL_INTERVAL === 0;
+
 		for (const agent of this.state.agents) {
-			// KO: health reaches 0
-			if (agent.health <= 0) {
-				const winner = this.state.agents.find((a) => a.id !== agent.id)!;
-				this.endMatch(winner.id, agent.id, 'knockout');
-				return;
+			if (agent.location === 'backstage') continue;
+			let targetId: string | null;
+			if (grapple && this.grappleSystem.isInGrapple(agent.id)) {
+				// Tied-up fighters only have eyes for each other
+				targetId = grapple.attackerId === agent.id ? grapple.defenderId : grapple.attackerId;
+			} else if (hold && this.canSave(agent)) {
+				targetId = hold.attackerId;
+			} else {
+				// Only legal opponents can be fought (everyone outside tag matches)
+				const candidates = this.state.agents.filter(
+					(a) => a.id !== agent.id && a.legal && !isTeammate(a, agent)
+				);
+				const current = candidates.find((a) => a.id === agent.targetId);
+				const canSwitch = reevaluate && (this.fsms.get(agent.id)?.acceptsInput ?? true);
+				if (current && !canSwitch) continue;
+				targetId = this.targeting.select(
+					agent,
+					candidates,
+					this.targetingPolicies.get(agent.id) ?? 'nearest'
+				);
+			}
+
+			if (targetId && targetId !== agent.targetId) {
+				this.state = matchReducer(this.state, { type: 'TARGET_CHANGE', agentId: agent.id, targetId });
 			}
+		}
+	}
+
+	// ─── Pins & Submissions ─────────────────────────────────────────
+
+	/**
+	 * Cover a downed opponent for the referee's count.
+	 * Only one hold can be in progress, the opponent must be on the mat
+	 * (KNOCKED_DOWN or GETTING_UP) and within PIN_RANGE, both fighters must
+	 * be in the ring, and the match type must count pinfalls.
+	 *
+	 * @returns true if the pin started
+	 */
+	private tryPin(
+		attacker: AgentState,
+		defender: AgentState,
+		attackerFSM: FighterStateMachine,
+		distance: number
+	): boolean {
+		if (this.state.hold || !this.allows('pinfall')) return false;
+		if (distance > PIN_RANGE || !inRingTogether(attacker, defender)) return false;
+
+		const defenderFSM = this.fsms.get(defender.id);
+		if (!defenderFSM) return false;
+		if (defenderFSM.stateId !== 'KNOCKED_DOWN' && defenderFSM.stateId !== 'GETTING_UP') return false;
+
+		this.movers.get(attacker.id)?.stopMovement();
+		this.movers.get(defender.id)?.stopMovement();
+
+		attackerFSM.pushEvent({ type: 'REQUEST_PIN', targetId: defender.id, maxFrames: PIN_SAFETY_FRAMES });
+		defenderFSM.pushEvent({ type: 'PIN_LOCK', attackerId: attacker.id, maxFrames: PIN_SAFETY_FRAMES });
+
+		this.state = matchReducer(this.state, {
+			type: 'PIN_START',
+			attackerId: attacker.id,
+			defenderId: defender.id,
+			leverage: this.pinSystem.wantsLeverage(attacker, defender)
+		});
+		return true;
+	}
+
+	/**
+	 * Lock in a submission hold after a submission move connects.
+	 * Called from the combat phase, after HIT_RECEIVED was pushed, so the
+	 * defender passes through STUNNED before SUBMISSION_LOCK is processed.
+	 * Matches that don't count submissions, and fights on the floor, treat
+	 * the move as a plain hit.
+	 *
+	 * @returns true if the hold was applied
+	 */
+	private tryApplySubmission(attacker: AgentState, defender: AgentState, move: MoveDef): boolean {
+		if (this.state.hold || !this.allows('submission')) return false;
+		if (!inRingTogether(attacker, defender)) return false;
+
+		const attackerFSM = this.fsms.get(attacker.id);
+		const defenderFSM = this.fsms.get(defender.id);
+		if (!attackerFSM || !defenderFSM) return false;
+
+		// The hold ends any combo chain — there is no follow-up from a submission
+		attackerFSM.clearComboWindow();
+		this.comboTrackers.get(attacker.id)?.onComboBreak('window_expired');
+
+		attackerFSM.pushEvent({ type: 'APPLY_SUBMISSION', targetId: defender.id, maxFrames: SUBMISSION_SAFETY_FRAMES });
+		defenderFSM.pushEvent({ type: 'SUBMISSION_LOCK', attackerId: attacker.id, maxFrames: SUBMISSION_SAFETY_FRAMES });
+
+		this.state = matchReducer(this.state, {
+			type: 'SUBMISSION_START',
+			attackerId: attacker.id,
+			defenderId: defender.id,
+			moveId: move.id,
+			moveName: move.name,
+			ropeProgress: this.submissionSystem.initialRopeProgress(defender.positionX, defender.positionZ)
+		});
+		return true;
+	}
+
+	/** Whether a fighter is the attacker or defender of the hold in progress. */
+	private isInHold(agentId: string): boolean {
+		const hold = this.state.hold;
+		return !!hold && (hold.attackerId === agentId || hold.defenderId === agentId);
+	}
+
+	/**
+	 * Whether a fighter may break up the hold in progress: anyone outside
+	 * it, except the holder's own tag partner.
+	 */
+	private canSave(agent: AgentState): boolean {
+		const hold = this.state.hold;
+		if (!hold || this.isInHold(agent.id)) return false;
+		const attacker = this.state.agents.find((a) => a.id === hold.attackerId);
+		return !attacker || !isTeammate(agent, attacker);
+	}
+
+	/**
+	 * Break up someone else's pin or submission hold (a "save").
+	 * The breaker must be within PIN_RANGE of the holder; the holder is
+	 * knocked off and briefly stunned, the defender is freed immediately.
+	 *
+	 * @returns true if the hold was broken up
+	 */
+	private tryBreakUpHold(breaker: AgentState, distance: number): boolean {
+		const hold = this.state.hold;
+		if (!hold || !this.canSave(breaker)) return false;
+		if (this.state.tick < this.getSaveReadyTick(breaker)) return false;
+		if (distance > PIN_RANGE) return false;
 
-			// TKO: 3 knockdowns
-			if (agent.knockdowns >= TKO_KNOCKDOWN_LIMIT) {
-				const winner = this.state.agents.find((a) => a.id !== agent.id)!;
-				this.endMatch(winner.id, agent.id, 'tko');
+		this.movers.get(breaker.id)?.stopMovement();
+		this.fsms.get(hold.attackerId)?.pushEvent({ type: 'HOLD_RELEASE', stunFrames: HOLD_BREAK_UP_STUN_FRAMES });
+		this.fsms.get(hold.defenderId)?.pushEvent({ type: 'HOLD_RELEASE', stunFrames: 0 });
+
+		this.state = matchReducer(this.state, { type: 'HOLD_BREAK_UP', breakerId: breaker.id });
+		return true;
+	}
+
+	/**
+	 * When a fighter can first make the save on the current hold.
+	 * Rolled once per fighter per hold: reaction time, plus the distance to
+	 * the holder and how worn down the saver is.
+	 */
+	private getSaveReadyTick(breaker: AgentState): number {
+		const hold = this.state.hold!;
+		if (hold.startTick !== this.saveHoldStartTick) {
+			this.saveReadyTick.clear();
+			this.saveHoldStartTick = hold.startTick;
+		}
+
+		let ready = this.saveReadyTick.get(breaker.id);
+		if (ready === undefined) {
+			const slowness = clamp(1.5 - breaker.personality.aggression, 0.5, 1.5);
+			const holder = this.state.agents.find((a) => a.id === hold.attackerId);
+			const distance = holder
+				? Math.hypot(breaker.positionX - holder.positionX, breaker.positionZ - holder.positionZ)
+				: 0;
+			const wear = 1 - (breaker.health / breaker.maxHealth + breaker.stamina / breaker.maxStamina) / 2;
+			ready = hold.startTick + SAVE_REACTION_MIN_FRAMES
+				+ Math.round(this.rng.next() * SAVE_REACTION_SPREAD_FRAMES * slowness)
+				+ Math.round(Math.max(0, distance - PIN_RANGE) * SAVE_FRAMES_PER_UNIT)
+				+ Math.round(clamp(wear, 0, 1) * SAVE_HURT_FRAMES);
+			this.saveReadyTick.set(breaker.id, ready);
+		}
+		return ready;
+	}
+
+	/**
+	 * Advance the pin or submission in progress by one tick.
+	 *
+	 * Pins: a kick-out roll is made KICKOUT_LEAD_FRAMES before each count;
+	 * if the defender stays down for three counts the fall goes to the attacker.
+	 *
+	 * Submissions: SubmissionSystem applies damage and advances the rope
+	 * crawl and escape meters; a tap-out wins the fall by submission.
+	 * Under DQ rules a holder who refuses a rope break is disqualified.
+	 *
+	 * If either fighter is no longer in its hold state (e.g. an FSM rejected
+	 * the lock), the hold is dropped so nobody is left frozen.
+	 */
+	private updateHold(): void {
+		const hold = this.state.hold;
+		if (!hold || !this.state.running) return;
+
+		const attackerFSM = this.fsms.get(hold.attackerId);
+		const defenderFSM = this.fsms.get(hold.defenderId);
+		if (!attackerFSM?.isHolding || !defenderFSM?.isHeld) {
+			if (attackerFSM?.isHolding) attackerFSM.pushEvent({ type: 'HOLD_RELEASE', stunFrames: 0 });
+			if (defenderFSM?.isHeld) defenderFSM.pushEvent({ type: 'HOLD_RELEASE', stunFrames: 0 });
+			this.state = matchReducer(this.state, { type: 'HOLD_BROKEN' });
+			return;
+		}
+
+		const attacker = this.state.agents.find((a) => a.id === hold.attackerId)!;
+		const defender = this.state.agents.find((a) => a.id === hold.defenderId)!;
+		const elapsed = this.state.tick - hold.startTick;
+
+		if (hold.type === 'pin') {
+			const nextCount = hold.count + 1;
+
+			// Kick-out attempt just before the hand comes down
+			if (elapsed === nextCount * PIN_COUNT_FRAMES - KICKOUT_LEAD_FRAMES) {
+				const lastFinisher = this.lastFinisherHitTick.get(defender.id);
+				const ticksSinceFinisher = lastFinisher === undefined ? Infinity : this.state.tick - lastFinisher;
+				const kickedOut = this.pinSystem.rollKickout(
+					defender, attacker, nextCount, ticksSinceFinisher, this.effectiveMods.get(defender.id), hold.leverage
+				);
+				if (kickedOut) {
+					const stunFrames = hold.count >= 2 ? NEAR_FALL_STUN_FRAMES : KICKOUT_STUN_FRAMES;
+					attackerFSM.pushEvent({ type: 'HOLD_RELEASE', stunFrames });
+					defenderFSM.pushEvent({ type: 'HOLD_RELEASE', stunFrames: 0 });
+					this.state = matchReducer(this.state, { type: 'PIN_KICKOUT', count: hold.count });
+				}
 				return;
 			}
+
+			if (elapsed === nextCount * PIN_COUNT_FRAMES) {
+				this.state = matchReducer(this.state, { type: 'PIN_COUNT', count: nextCount });
+				if (nextCount >= 3) {
+					this.awardFall(attacker.id, defender.id, 'pinfall');
+				}
+			}
+			return;
+		}
+
+		// ── Submission ──
+		const move = hold.moveId ? this.moveRegistry.get(hold.moveId) : undefined;
+		if (!move) return;
+
+		const result = this.submissionSystem.update(
+			hold, elapsed, attacker, defender, move,
+			this.effectiveMods.get(attacker.id), this.effectiveMods.get(defender.id)
+		);
+		this.state = matchReducer(this.state, {
+			type: 'SUBMISSION_TICK',
+			damage: result.damage,
+			staminaDrain: result.staminaDrain,
+			ropeProgress: result.ropeProgress,
+			escapeProgress: result.escapeProgress
+		});
+
+		switch (result.outcome) {
+			case 'tap':
+				this.awardFall(attacker.id, defender.id, 'submission');
+				break;
+
+			case 'rope_break':
+			case 'escape':
+				// Holding on past the rope break is a disqualification
+				if (result.outcome === 'rope_break' && this.rules.dq
+					&& this.submissionSystem.rollRefuseBreak(attacker)) {
+					this.awardFall(defender.id, attacker.id, 'dq');
+					break;
+				}
+				attackerFSM.pushEvent({
+					type: 'HOLD_RELEASE',
+					stunFrames: result.outcome === 'escape' ? SUBMISSION_ESCAPE_STUN_FRAMES : 0
+				});
+				defenderFSM.pushEvent({ type: 'HOLD_RELEASE', stunFrames: 0 });
+				this.state = matchReducer(this.state, { type: 'SUBMISSION_RELEASE', reason: result.outcome });
+				break;
+		}
+	}
+
+	// ─── Legality ───────────────────────────────────────────────────
+
+	/** Build the legality input for a fighter from the match's current situation. */
+	private legalityFor(
+		agent: AgentState,
+		opponent: AgentState,
+		fsm: FighterStateMachine,
+		distance: number
+	): ActionLegality {
+		const grapple = this.state.grapple;
+		const controlling = grapple && grapple.attackerId === agent.id && fsm.hasGrappleControl;
+		return computeLegality({
+			self: agent,
+			opponent,
+			fsm,
+			mover: this.movers.get(agent.id),
+			distance,
+			moves: this.allMoves,
+			// In a Rumble the pin button goes for the over-the-top throw instead
+			pinAllowed: this.rumbleMatch || (!this.state.hold && this.allows('pinfall')),
+			lockUpAllowed: !grapple && !this.state.hold,
+			grappleMoveIds: controlling
+				? this.grappleSystem.affordableMoves(grapple, agent).map((m) => m.moveId)
+				: undefined
+		});
+	}
+
+	// ─── Win Conditions ─────────────────────────────────────────────
+
+	private checkWinConditions(): void {
+		// Pinfall / submission / DQ may already have ended the match this tick
+		if (!this.state.running) return;
+
+		// KO and TKO both count as 'knockout' finishes
+		if (this.allows('knockout')) {
+			for (const agent of this.state.agents) {
+				// KO: health reaches 0 — credited to whoever hit them last
+				if (agent.health <= 0) {
+					this.awardFall(this.knockoutWinner(agent), agent.id, 'knockout');
+					return;
+				}
+
+				// TKO: too many knockdowns in one fall
+				if (agent.knockdowns >= TKO_KNOCKDOWN_LIMIT) {
+					this.awardFall(this.knockoutWinner(agent), agent.id, 'tko');
+					return;
+				}
+			}
 		}
 
-		// Timeout
-		if (this.state.elapsed >= this.state.timeLimit) {
+		// Count-out: the referee counts anyone legal on the floor
+		if (this.ringside && this.rules.countOut && this.ringsideSystem.updateCountOut()) return;
+
+		// Royal Rumble: last one standing once everyone has entered
+		if (this.rumbleMatch && this.rumbleSystem.checkWinner()) return;
+
+		// Time limit (0 = unlimited)
+		if (this.state.timeLimit > 0 && this.state.elapsed >= this.state.timeLimit && !this.suddenDeath) {
+			const [first, second] = this.rankFighters();
+			if (this.rules.specialRules.includes('most_falls_wins')
+				&& this.state.falls[first.id] === this.state.falls[second.id]) {
+				this.suddenDeath = true;
+				this.state = matchReducer(this.state, { type: 'SUDDEN_DEATH' });
+				return;
+			}
 			this.forceTimeout();
 		}
 	}
 
+	/** Whether the match type counts the given finish. */
+	private allows(condition: WinCondition): boolean {
+		return this.rules.winConditions.includes(condition);
+	}
+
+	/** The fighter credited with knocking an agent out: its last attacker, else its opponent. */
+	private knockoutWinner(loser: AgentState): string {
+		return this.lastHitBy.get(loser.id) ?? opponentOf(this.state, loser).id;
+	}
+
+	/**
+	 * Record a fall and either end the match or restart for the next fall.
+	 * The match ends once the winner reaches the match type's falls tally;
+	 * Iron Man matches ('most_falls_wins') only end on time or in sudden death.
+	 */
+	private awardFall(winnerId: string, loserId: string, method: MatchResult['method']): void {
+		this.state = matchReducer(this.state, { type: 'FALL', winnerId, loserId, method });
+
+		const fallsToWin = Math.max(1, this.rules.falls);
+		const decided = this.suddenDeath || (
+			!this.rules.specialRules.includes('most_falls_wins')
+			&& this.state.falls[winnerId] >= fallsToWin
+		);
+		if (decided) {
+			this.endMatch(winnerId, loserId, method);
+		} else {
+			this.startNextFall();
+		}
+	}
+
+	/**
+	 * Send both wrestlers back to their corners for the next fall.
+	 * Fighter state machines and movement are reset, health and stamina are
+	 * restored (see NEXT_FALL), and nobody acts until FALL_RESET_PAUSE has passed.
+	 */
+	private startNextFall(): void {
+		const positions: Record<string, number> = {};
+		for (let i = 0; i < this.state.agents.length; i++) {
+			const agent = this.state.agents[i];
+			const x = startPositionX(i, this.state.agents.length);
+			positions[agent.id] = x;
+
+			this.fsms.set(agent.id, new FighterStateMachine(agent.id, x));
+			const mover = this.movers.get(agent.id);
+			mover?.reset();
+			mover?.teleport(x);
+			this.decisionTimers.set(agent.id, FALL_RESET_PAUSE);
+			this.resolvedAttacks.delete(agent.id);
+			this.clearRingPlans(agent.id);
+		}
+		this.lastKnockdownTick.clear();
+		this.ringsideSystem.reset();
+		this.lastFinisherHitTick.clear();
+		this.lastHitBy.clear();
+		this.comebackStartTicks.clear();
+
+		this.state = matchReducer(this.state, { type: 'NEXT_FALL', positions });
+	}
+
 	private endMatch(winnerId: string, loserId: string, method: MatchResult['method']): void {
 		const rating = this.calculateRating();
 		this.state = matchReducer(this.state, {
@@ -1534,135 +2877,269 @@ export class MatchLoop {
 				loserId,
 				method,
 				duration: this.state.elapsed,
-				rating
+				rating,
+				...(this.state.rumble ? { rumble: buildRumbleSummary(this.state) } : {})
 			}
 		});
 	}
 
+	/**
+	 * Decide a match that ran out of time: whoever won the most falls wins
+	 * by 'falls', otherwise the healthiest wrestler wins by 'timeout'.
+	 * The lowest-ranked wrestler takes the loss.
+	 */
 	private forceTimeout(): void {
-		const [a, b] = this.state.agents;
-		const aHealthPct = a.health / a.maxHealth;
-		const bHealthPct = b.health / b.maxHealth;
-
-		let winnerId: string;
-		let loserId: string;
+		const ranked = this.rankFighters();
+		const winner = ranked[0];
+		const loser = ranked[ranked.length - 1];
+		const wonOnFalls = (this.state.falls[winner.id] ?? 0) > (this.state.falls[ranked[1].id] ?? 0);
 
-		if (Math.abs(aHealthPct - bHealthPct) < 0.02) {
-			// Near-tie: winner by total damage dealt
-			winnerId = a.stats.damageDealt >= b.stats.damageDealt ? a.id : b.id;
-		} else {
-			winnerId = aHealthPct > bHealthPct ? a.id : b.id;
-		}
-		loserId = this.state.agents.find((x) => x.id !== winnerId)!.id;
+		this.endMatch(winner.id, loser.id, wonOnFalls ? 'falls' : 'timeout');
+	}
 
-		this.endMatch(winnerId, loserId, 'timeout');
+	/**
+	 * Rank fighters best-first for a decision: most falls, then health
+	 * percentage, with near-ties (within 2%) broken by damage dealt.
+	 * Rumble entrants backstage (eliminated or never entered) are left out.
+	 */
+	private rankFighters(): AgentState[] {
+		return this.state.agents.filter((a) => a.location !== 'backstage').sort((a, b) => {
+			const fallDiff = (this.state.falls[b.id] ?? 0) - (this.state.falls[a.id] ?? 0);
+			if (fallDiff !== 0) return fallDiff;
+			const healthDiff = b.health / b.maxHealth - a.health / a.maxHealth;
+			if (Math.abs(healthDiff) >= 0.02) return healthDiff;
+			return b.stats.damageDealt - a.stats.damageDealt;
+		});
 	}
 
 	/**
 	 * Calculate a 0-5 star match rating based on action quality.
-	 * Psychology adds drama bonuses for emotional swings.
+	 * Psychology adds drama bonuses for emotional swings, and a hot crowd
+	 * is the sign of a good match. The bonuses add up to an excitement score
+	 * that an S-curve turns into stars, so the busiest match still can't
+	 * reach 5 on volume alone.
 	 */
 	private calculateRating(): number {
-		const [a, b] = this.state.agents;
-		let rating = 2.0;
+		const agents = this.state.agents;
+		const total = (stat: keyof AgentState['stats']) =>
+			agents.reduce((sum, a) => sum + a.stats[stat], 0);
+		let excitement = 0;
 
 		// Total moves hit bonus (more action = better)
-		const totalMoves = a.stats.movesHit + b.stats.movesHit;
-		rating += clamp(totalMoves * 0.04, 0, 0.8);
+		excitement += clamp(total('movesHit') * 0.04, 0, 0.8);
 
 		// Reversals are exciting
-		const totalReversals = a.stats.reversals + b.stats.reversals;
-		rating += clamp(totalReversals * 0.15, 0, 0.5);
+		excitement += clamp(total('reversals') * 0.15, 0, 0.5);
 
 		// Knockdowns add drama
-		const totalKnockdowns = a.stats.knockdowns + b.stats.knockdowns;
-		rating += clamp(totalKnockdowns * 0.2, 0, 0.6);
+		excitement += clamp(total('knockdowns') * 0.2, 0, 0.6);
+
+		// Saves (breaking up a pin or hold) are crowd-pleasers
+		excitement += clamp(total('saves') * 0.2, 0, 0.4);
+
+		// Tags keep a tag match moving
+		excitement += clamp(total('tags') * 0.1, 0, 0.3);
+
+		// Rumble eliminations, and even more so the near-misses
+		excitement += clamp(total('eliminations') * 0.05, 0, 0.5);
+		const skinTheCats = this.state.log.filter((l) => l.type === 'skin_the_cat').length;
+		excitement += clamp(skinTheCats * 0.2, 0, 0.4);
+
+		// Cage escapes that get stopped are near-finishes; cage slams hurt to watch
+		const stoppedEscapes = this.state.log.filter((l) => l.type === 'escape_interrupted' && l.data.byId).length;
+		excitement += clamp(stoppedEscapes * 0.2, 0, 0.4);
+		const cageSlams = this.state.log.filter((l) => l.type === 'cage_slam').length;
+		excitement += clamp(cageSlams * 0.05, 0, 0.3);
+
+		// A crowd that stayed loud, and broke into chants, saw a good match
+		excitement += clamp((this.state.crowd.meanPop - BASELINE_POP) * 0.02, 0, 0.5);
+		excitement += clamp(this.state.crowd.chants * 0.15, 0, 0.45);
 
 		// Close health differential = competitive match
-		const healthDiff = Math.abs((a.health / a.maxHealth) - (b.health / b.maxHealth));
-		if (healthDiff < 0.2) rating += 0.4;
+		const healthPcts = agents.map((a) => a.health / a.maxHealth);
+		const healthDiff = Math.max(...healthPcts) - Math.min(...healthPcts);
+		if (healthDiff < 0.2) excitement += 0.4;
 
 		// Duration sweet spot (40-55 seconds of a 60-second match is ideal)
 		if (this.state.elapsed >= 40 && this.state.elapsed <= 58) {
-			rating += 0.3;
+			excitement += 0.3;
 		}
 
 		// Comebacks in the log are a big bonus
 		const comebackCount = this.state.log.filter((l) => l.type === 'comeback').length;
-		rating += comebackCount * 0.4;
+		excitement += clamp(comebackCount * 0.4, 0, 0.8);
 
 		// Psychology drama bonus: emotional variety during the match
 		const emotionChanges = this.state.log.filter((l) => l.type === 'emotion_change').length;
-		rating += clamp(emotionChanges * 0.05, 0, 0.4);
+		excitement += clamp(emotionChanges * 0.05, 0, 0.4);
 
 		// Clutch moments are the best — bonus if anyone reached clutch state
 		const clutchMoments = this.state.log.filter(
 			(l) => l.type === 'emotion_change' && l.data.to === 'clutch'
 		).length;
-		rating += clutchMoments * 0.3;
+		excitement += clamp(clutchMoments * 0.3, 0, 0.6);
 
 		// Mistakes add unpredictability
 		const mistakes = this.state.log.filter((l) => l.type === 'mistake').length;
-		rating += clamp(mistakes * 0.08, 0, 0.3);
+		excitement += clamp(mistakes * 0.08, 0, 0.3);
 
 		// Frustrated moments add drama (wrestler "losing their cool")
 		const frustratedMoments = this.state.log.filter(
 			(l) => l.type === 'emotion_change' && l.data.to === 'frustrated'
 		).length;
-		rating += clamp(frustratedMoments * 0.1, 0, 0.3);
+		excitement += clamp(frustratedMoments * 0.1, 0, 0.3);
 
 		// Desperate comebacks are thrilling
 		const desperateMoments = this.state.log.filter(
 			(l) => l.type === 'emotion_change' && l.data.to === 'desperate'
 		).length;
-		rating += clamp(desperateMoments * 0.15, 0, 0.3);
+		excitement += clamp(desperateMoments * 0.15, 0, 0.3);
 
 		// Combo chains are exciting — completed combos boost rating significantly
-		const combosCompleted = a.stats.combosCompleted + b.stats.combosCompleted;
-		rating += clamp(combosCompleted * 0.25, 0, 0.6);
+		const combosCompleted = total('combosCompleted');
+		excitement += clamp(combosCompleted * 0.25, 0, 0.6);
 
 		// Long combos are spectacular
-		const longestCombo = Math.max(a.stats.longestCombo, b.stats.longestCombo);
-		if (longestCombo >= 3) rating += 0.2;
-		if (longestCombo >= 5) rating += 0.3;
+		const longestCombo = Math.max(...agents.map((a) => a.stats.longestCombo));
+		if (longestCombo >= 3) excitement += 0.2;
+		if (longestCombo >= 5) excitement += 0.3;
 
 		// Finisher completions are spectacular
-		const finishersLanded = a.stats.finishersLanded + b.stats.finishersLanded;
-		rating += clamp(finishersLanded * 0.4, 0, 0.8);
+		const finishersLanded = total('finishersLanded');
+		excitement += clamp(finishersLanded * 0.4, 0, 0.8);
 
 		// Counter-finishers are peak drama
-		const finishersCaught = a.stats.finishersCaught + b.stats.finishersCaught;
-		rating += clamp(finishersCaught * 0.5, 0, 0.5);
+		const finishersCaught = total('finishersCaught');
+		excitement += clamp(finishersCaught * 0.5, 0, 0.5);
 
-		return clamp(Math.round(rating * 10) / 10, 0, 5);
+		// Near-falls are the best false finishes in wrestling
+		const nearFalls = total('nearFalls');
+		excitement += clamp(nearFalls * 0.3, 0, 0.6);
+
+		// Rope breaks sell the danger of a submission
+		const ropeBreaks = total('ropeBreaks');
+		excitement += clamp(ropeBreaks * 0.15, 0, 0.3);
+
+		const stars = 5 / (1 + Math.exp((RATING_MIDPOINT - excitement) / RATING_SPREAD));
+		return clamp(Math.round(stars * 10) / 10, 0, 5);
 	}
 }
 
 // ─── Initial State Factory ──────────────────────────────────────────
 
-function createInitialState(config: MatchLoopConfig): MatchState {
+function createInitialState(config: MatchLoopConfig, rules: MatchTypeRules): MatchState {
+	const timeLimit = config.timeLimit ?? rules.timeLimit;
+	const count = config.wrestlers.length;
+	const agents = rules.specialRules.includes('tag_required')
+		? createTagTeamAgents(config.wrestlers)
+		: rules.specialRules.includes('timed_entry')
+			? createRumbleAgents(config.wrestlers)
+			: config.wrestlers.map((w, i) => createAgentState(w, startPositionX(i, count), null, true, 'ring'));
 	return {
 		seed: config.seed,
 		tick: 0,
 		elapsed: 0,
-		timeLimit: config.timeLimit,
+		timeLimit,
+		matchType: rules.id,
+		falls: Object.fromEntries(config.wrestlers.map((w) => [w.id, 0])),
 		running: true,
 		result: null,
 		comebackCooldown: 0,
+		hold: null,
+		rumble: rules.specialRules.includes('timed_entry') ? createRumbleState(config.wrestlers) : null,
+		escape: null,
+		grapple: null,
+		countOut: null,
 		log: [{
 			tick: 0,
 			elapsed: 0,
 			type: 'match_start',
-			detail: `${config.wrestler1.name} vs ${config.wrestler2.name}`,
-			data: { seed: config.seed, timeLimit: config.timeLimit }
+			detail: `${config.wrestlers.map((w) => w.name).join(' vs ')} — ${rules.name}`,
+			data: { seed: config.seed, timeLimit, matchType: rules.id }
 		}],
-		agents: [
-			createAgentState(config.wrestler1, -2),
-			createAgentState(config.wrestler2, 2)
-		]
+		agents,
+		crowd: createCrowdState(agents)
 	};
 }
 
+/**
+ * Rumble line-up: entrants #1 and #2 (the first two wrestlers listed)
+ * start the match, everyone else waits backstage for their number.
+ */
+function createRumbleAgents(wrestlers: WrestlerInput[]): AgentState[] {
+	return wrestlers.map((w, i) => {
+		if (i >= RUMBLE_OPENING_ENTRANTS) return createAgentState(w, 0, null, false, 'backstage');
+		const side = i === 0 ? -1 : 1;
+		return createAgentState(w, side * START_POSITION_X, null, true, 'ring');
+	});
+}
+
+/** Entry numbers follow the wrestler order; the loop rolls the first entry timer. */
+function createRumbleState(wrestlers: WrestlerInput[]): RumbleState {
+	return {
+		entries: wrestlers.map((w, i) => ({
+			agentId: w.id,
+			entryNumber: i + 1,
+			enteredTick: i < RUMBLE_OPENING_ENTRANTS ? 0 : null,
+			eliminatedTick: null,
+			eliminatedBy: null
+		})),
+		nextEntryTick: 0,
+		ringLimit: RUMBLE_RING_LIMIT,
+		eliminationOrder: [],
+		timeline: wrestlers.slice(0, RUMBLE_OPENING_ENTRANTS).map((w) => ({
+			tick: 0,
+			elapsed: 0,
+			type: 'entry' as const,
+			agentId: w.id,
+			byId: null
+		}))
+	};
+}
+
+/**
+ * Tag team line-up: the first wrestler listed for each team starts as the
+ * legal man in the ring, partners wait on the apron by their team's corner.
+ */
+function createTagTeamAgents(wrestlers: WrestlerInput[]): AgentState[] {
+	const teamIds = wrestlers.map((w, i) => w.teamId ?? `team${(i % 2) + 1}`);
+	const sides = new Map<string, number>();
+	for (const teamId of teamIds) {
+		if (!sides.has(teamId)) sides.set(teamId, sides.size === 0 ? -1 : 1);
+	}
+	const seen = new Set<string>();
+	return wrestlers.map((w, i) => {
+		const teamId = teamIds[i];
+		const side = sides.get(teamId) ?? -1;
+		const legal = !seen.has(teamId);
+		seen.add(teamId);
+		return legal
+			? createAgentState(w, side * START_POSITION_X, teamId, true, 'ring')
+			: createAgentState(w, apronX(side, RING_HALF_X), teamId, false, 'apron');
+	});
+}
+
+/**
+ * Side of the ring each team's corner is on, in the order teams first
+ * appear (first team left, second team right).
+ */
+function resolveTeamSides(agents: AgentState[]): Map<string, number> {
+	const sides = new Map<string, number>();
+	for (const agent of agents) {
+		if (agent.teamId && !sides.has(agent.teamId)) sides.set(agent.teamId, sides.size === 0 ? -1 : 1);
+	}
+	return sides;
+}
+
+/**
+ * Starting X position for the i-th of `count` fighters, spread evenly
+ * across the ring (singles: -2 and 2).
+ */
+function startPositionX(index: number, count: number): number {
+	if (count <= 1) return 0;
+	return -START_POSITION_X + (2 * START_POSITION_X * index) / (count - 1);
+}
+
 function resolvePsychProfile(input: WrestlerInput): PsychProfile {
 	// Direct override takes precedence
 	if (input.psychProfile) return input.psychProfile;
@@ -1674,7 +3151,13 @@ function resolvePsychProfile(input: WrestlerInput): PsychProfile {
 	return PSYCH_PROFILES.balanced;
 }
 
-function createAgentState(input: WrestlerInput, positionX: number): AgentState {
+function createAgentState(
+	input: WrestlerInput,
+	positionX: number,
+	teamId: string | null,
+	legal: boolean,
+	location: AgentLocation
+): AgentState {
 	const psychProfile = resolvePsychProfile(input);
 	return {
 		id: input.id,
@@ -1690,8 +3173,15 @@ function createAgentState(input: WrestlerInput, positionX: number): AgentState {
 		activeMove: null,
 		targetId: null,
 		positionX,
+		positionZ: 0,
+		perch: null,
+		running: false,
+		teamId,
+		legal,
+		location,
 		knockdowns: 0,
 		comebackActive: false,
+		alignment: input.alignment ?? 'tweener',
 		color: input.color,
 		height: input.height,
 		build: input.build,
@@ -1707,7 +3197,18 @@ function createAgentState(input: WrestlerInput, positionX: number): AgentState {
 			comboHits: 0,
 			longestCombo: 0,
 			finishersLanded: 0,
-			finishersCaught: 0
+			finishersCaught: 0,
+			pinAttempts: 0,
+			nearFalls: 0,
+			submissionAttempts: 0,
+			ropeBreaks: 0,
+			saves: 0,
+			tags: 0,
+			eliminations: 0,
+			escapeAttempts: 0,
+			lockUpsWon: 0,
+			grappleEscapes: 0,
+			throwOuts: 0
 		},
 		personality: input.personality,
 		psychProfile,
@@ -1745,6 +3246,17 @@ function mapFSMStateToPhase(stateId: FighterStateId): AgentPhase {
 		case 'FINISHER_SETUP':    return 'finisher_setup';
 		case 'FINISHER_IMPACT':   return 'finisher_impact';
 		case 'FINISHER_LOCKED':   return 'finisher_locked';
+		case 'PINNING':           return 'pinning';
+		case 'PINNED':            return 'pinned';
+		case 'SUBMISSION_HOLD':   return 'submission_hold';
+		case 'SUBMISSION_LOCKED': return 'submission_locked';
+		case 'ESCAPING':          return 'escaping';
+		case 'LOCK_UP':           return 'lock_up';
+		case 'GRAPPLE_CONTROL':   return 'grapple_control';
+		case 'GRAPPLED':          return 'grappled';
+		case 'CLIMBING':          return 'climbing';
+		case 'PERCHED':           return 'perched';
+		case 'ROLLING':           return 'rolling';
 		default:                  return 'idle';
 	}
 }
@@ -1783,3 +3295,25 @@ function resolveComboStyle(input: WrestlerInput): string {
 		default:           return 'universal';
 	}
 }
+
+/**
+ * Create the decision-making brain for a wrestler.
+ * A human input source takes precedence over any strategy. Strategy ids are instantiated with the preset personality weights matching
+ * the psych archetype; unknown ids and 'agent' fall back to the built-in Agent.
+ */
+function createBrain(
+	input: WrestlerInput,
+	rng: SeededRandom,
+	allMoves: MoveDef[],
+	comboRegistry: ComboRegistry,
+	comboStyle: string
+): FighterBrain {
+	if (input.input) return new HumanController(input.input, rng, allMoves);
+
+	const strategy = typeof input.strategy === 'string'
+		? createStrategy(input.strategy, getPresetProfile(input.psychArchetype ?? 'balanced').weights)
+		: input.strategy ?? null;
+
+	if (strategy) return new StrategyAdapter(strategy, rng, allMoves);
+	return new Agent(rng, allMoves, comboRegistry, comboStyle);
+}
@@ -1,6 +1,46 @@
-import type { MatchState, MatchAction, AgentState, MatchLogEntry, MatchResult, AgentPhase } from './MatchState';
+import type {
+	MatchState,
+	MatchAction,
+	AgentState,
+	MatchLogEntry,
+	MatchResult,
+	AgentPhase,
+	RumbleState,
+	RumbleTimelineEvent
+} from './MatchState';
+import type { GrapplePosition } from '../../components/combat/GrappleState';
 import { clamp } from '../../utils/math';
 
+/** Health a tag partner recovers per tick while resting on the apron (~1.2 per second). */
+const APRON_HEALTH_REGEN = 0.02;
+
+/** Momentum the fresh partner brings in on a tag. */
+const TAG_IN_MOMENTUM = 15;
+
+/** Momentum for throwing someone over the top rope. */
+const ELIMINATION_MOMENTUM = 20;
+
+/** Momentum for skinning the cat — the crowd loves a near-elimination. */
+const SKIN_THE_CAT_MOMENTUM = 15;
+
+/** Momentum for dragging an escaping opponent back into the cage. */
+const ESCAPE_STOPPED_MOMENTUM = 12;
+
+/** Momentum for throwing an opponent out to the floor. */
+const THROW_OUT_MOMENTUM = 6;
+
+/** Momentum for winning a lock-up, reversing a grapple, or fighting out of one. */
+const LOCK_UP_MOMENTUM = 4;
+const GRAPPLE_REVERSAL_MOMENTUM = 8;
+const GRAPPLE_ESCAPE_MOMENTUM = 6;
+
+/**
+ * Share of their worked-over body parts a wrestler carries into the next
+ * fall. Health and stamina are restored in full, so every fall has to be
+ * won from scratch.
+ */
+const NEXT_FALL_REGION_DAMAGE_CARRY = 0.5;
+
 /**
  * Pure reducer: (state, action) → newState
  *
@@ -65,13 +105,7 @@ export function matchReducer(state: MatchState, action: MatchAction): MatchState
 			}));
 
 		case 'FSM_SYNC':
-			return updateAgent(state, action.agentId, (a) => ({
-				...a,
-				phase: action.phase,
-				phaseFrames: action.phaseFrames,
-				activeMove: action.activeMove,
-				positionX: action.positionX
-			}));
+			return fsmSyncReducer(state, action);
 
 		case 'COMEBACK_TRIGGER':
 			return comebackTriggerReducer(state, action.agentId);
@@ -154,6 +188,261 @@ export function matchReducer(state: MatchState, action: MatchAction): MatchState
 		case 'FINISHER_COUNTER':
 			return finisherCounterReducer(state, action);
 
+		case 'PIN_START':
+			return pinStartReducer(state, action);
+
+		case 'PIN_COUNT':
+			if (!state.hold) return state;
+			return addLog(
+				{ ...state, hold: { ...state.hold, count: action.count } },
+				'pin_count',
+				`${action.count}!`,
+				{ attackerId: state.hold.attackerId, defenderId: state.hold.defenderId, count: action.count }
+			);
+
+		case 'PIN_KICKOUT':
+			return pinKickoutReducer(state, action);
+
+		case 'SUBMISSION_START':
+			return submissionStartReducer(state, action);
+
+		case 'SUBMISSION_TICK':
+			return submissionTickReducer(state, action);
+
+		case 'SUBMISSION_RELEASE':
+			return submissionReleaseReducer(state, action);
+
+		case 'HOLD_BROKEN':
+			return { ...state, hold: null };
+
+		case 'HOLD_BREAK_UP':
+			return holdBreakUpReducer(state, action);
+
+		case 'TARGET_CHANGE':
+			return updateAgent(state, action.agentId, (a) => ({ ...a, targetId: action.targetId }));
+
+		case 'TAG':
+			return tagReducer(state, action);
+
+		case 'STEP_OUT':
+			return updateAgent(state, action.agentId, (a) => ({ ...a, legal: false }));
+
+		case 'LOCATION_CHANGE':
+			return updateAgent(state, action.agentId, (a) => ({
+				...a,
+				location: action.location,
+				positionX: action.positionX,
+				positionZ: 0,
+				perch: null,
+				running: false
+			}));
+
+		case 'DOUBLE_TEAM':
+			return addLog(state, 'double_team',
+				`${action.attackerIds.map((id) => getAgentName(state, id)).join(' and ')} hit a ${action.moveName} on ${getAgentName(state, action.defenderId)}!`,
+				{ attackerIds: action.attackerIds, defenderId: action.defenderId, moveId: action.moveId }
+			);
+
+		case 'RUMBLE_ENTRY':
+			return rumbleEntryReducer(state, action);
+
+		case 'ELIMINATION':
+			return eliminationReducer(state, action);
+
+		case 'SKIN_THE_CAT': {
+			const s = updateRumble(
+				updateAgent(state, action.agentId, (a) => ({
+					...a,
+					momentum: clamp(a.momentum + SKIN_THE_CAT_MOMENTUM, 0, 100)
+				})),
+				(r) => ({ ...r, timeline: [...r.timeline, timelineEvent(state, 'skin_the_cat', action.agentId, action.attackerId)] })
+			);
+			return addLog(s, 'skin_the_cat',
+				`${getAgentName(s, action.attackerId)} dumps ${getAgentName(s, action.agentId)} over the top — but they hang on and skin the cat!`,
+				{ agentId: action.agentId, attackerId: action.attackerId }
+			);
+		}
+
+		case 'ESCAPE_START':
+			return escapeStartReducer(state, action);
+
+		case 'ESCAPE_PROGRESS':
+			if (!state.escape) return state;
+			return updateAgent(
+				{ ...state, escape: { ...state.escape, progress: action.progress } },
+				state.escape.agentId,
+				(a) => ({ ...a, stamina: clamp(a.stamina - action.staminaDrain, 0, a.maxStamina) })
+			);
+
+		case 'ESCAPE_INTERRUPTED':
+			return escapeInterruptedReducer(state, action);
+
+		case 'CAGE_SLAM': {
+			let s = updateAgent(state, action.agentId, (a) => ({
+				...a,
+				health: clamp(a.health - action.damage, 0, a.maxHealth),
+				stats: { ...a.stats, damageTaken: a.stats.damageTaken + action.damage }
+			}));
+			if (action.attackerId) {
+				s = updateAgent(s, action.attackerId, (a) => ({
+					...a,
+					stats: { ...a.stats, damageDealt: a.stats.damageDealt + action.damage }
+				}));
+			}
+			return addLog(s, 'cage_slam',
+				`${getAgentName(s, action.agentId)} crashes into the steel!`,
+				{ agentId: action.agentId, attackerId: action.attackerId, damage: action.damage }
+			);
+		}
+
+		case 'CLIMB_START':
+			return addLog(updateAgent(state, action.agentId, (a) => ({ ...a, perch: action.corner, running: false })),
+				'climb',
+				`${getAgentName(state, action.agentId)} heads up to the top rope!`,
+				{ agentId: action.agentId, corner: action.corner }
+			);
+
+		case 'PERCH_END': {
+			const s = updateAgent(state, action.agentId, (a) => ({ ...a, perch: null }));
+			if (action.reason !== 'knocked_off') return s;
+			return addLog(s, 'knocked_off_top',
+				`${getAgentName(s, action.agentId)} is knocked off the top rope!`,
+				{ agentId: action.agentId }
+			);
+		}
+
+		case 'ROPE_REBOUND':
+			return addLog(updateAgent(state, action.agentId, (a) => ({ ...a, running: true })),
+				'rope_run',
+				`${getAgentName(state, action.agentId)} comes off the ropes!`,
+				{ agentId: action.agentId }
+			);
+
+		case 'RUN_END':
+			return updateAgent(state, action.agentId, (a) => ({ ...a, running: false }));
+
+		case 'IRISH_WHIP': {
+			const s = updateAgent(state, action.attackerId, (a) => ({
+				...a,
+				stamina: clamp(a.stamina - action.staminaCost, 0, a.maxStamina),
+				running: false
+			}));
+			return addLog(s, 'irish_whip',
+				`${getAgentName(s, action.attackerId)} whips ${getAgentName(s, action.defenderId)} into the ${action.into}!`,
+				{ attackerId: action.attackerId, defenderId: action.defenderId, into: action.into }
+			);
+		}
+
+		case 'RINGSIDE_EXIT':
+			return ringsideExitReducer(state, action);
+
+		case 'RINGSIDE_ENTRY':
+			return addLog(
+				updateAgent(state, action.agentId, (a) => ({ ...a, location: 'ring', running: false })),
+				'ringside_entry',
+				`${getAgentName(state, action.agentId)} rolls back into the ring${state.countOut ? ` at ${state.countOut.count}` : ''}.`,
+				{ agentId: action.agentId, count: state.countOut?.count ?? 0 }
+			);
+
+		case 'OUTSIDE_COUNT':
+			return addLog(
+				{
+					...state,
+					countOut: {
+						count: action.count,
+						startTick: state.countOut?.startTick ?? state.tick,
+						nextCountTick: action.nextCountTick
+					}
+				},
+				'outside_count',
+				`The referee's count: ${action.count}!`,
+				{ count: action.count }
+			);
+
+		case 'OUTSIDE_COUNT_END':
+			return { ...state, countOut: null };
+
+		case 'BARRICADE_SLAM': {
+			let s = updateAgent(state, action.agentId, (a) => ({
+				...a,
+				health: clamp(a.health - action.damage, 0, a.maxHealth),
+				stats: { ...a.stats, damageTaken: a.stats.damageTaken + action.damage }
+			}));
+			if (action.attackerId) {
+				s = updateAgent(s, action.attackerId, (a) => ({
+					...a,
+					stats: { ...a.stats, damageDealt: a.stats.damageDealt + action.damage }
+				}));
+			}
+			return addLog(s, 'barricade_slam',
+				`${getAgentName(s, action.agentId)} crashes into the barricade!`,
+				{ agentId: action.agentId, attackerId: action.attackerId, damage: action.damage }
+			);
+		}
+
+		case 'LOCK_UP_START':
+			return lockUpStartReducer(state, action);
+
+		case 'GRAPPLE_CONTROL':
+			return grappleControlReducer(state, action);
+
+		case 'GRAPPLE_TRANSITION_START':
+			return grappleTransitionStartReducer(state, action);
+
+		case 'GRAPPLE_TRANSITION_END':
+			return grappleTransitionEndReducer(state);
+
+		case 'GRAPPLE_STRUGGLE':
+			if (!state.grapple) return state;
+			return { ...state, grapple: { ...state.grapple, escapeProgress: action.escapeProgress } };
+
+		case 'GRAPPLE_MOVE': {
+			const grapple = state.grapple;
+			if (!grapple) return state;
+			const s = updateAgent(
+				{ ...state, grapple: { ...grapple, moveId: action.moveId } },
+				grapple.attackerId,
+				(a) => ({ ...a, stamina: clamp(a.stamina - action.staminaCost, 0, a.maxStamina) })
+			);
+			return addLog(s, 'grapple_move',
+				`${getAgentName(s, grapple.attackerId)} goes for a ${action.moveName} out of the ${positionName(grapple.position)}`,
+				{ attackerId: grapple.attackerId, defenderId: grapple.defenderId, moveId: action.moveId, position: grapple.position }
+			);
+		}
+
+		case 'GRAPPLE_MOVE_END':
+			if (!state.grapple) return state;
+			return { ...state, grapple: { ...state.grapple, moveId: null } };
+
+		case 'GRAPPLE_END':
+			return grappleEndReducer(state, action);
+
+		case 'CROWD_UPDATE':
+			return crowdUpdateReducer(state, action);
+
+		case 'CROWD_POP':
+			return addLog(state, 'crowd_pop',
+				action.reaction === 'boo'
+					? `The crowd boos${action.agentId ? ` ${getAgentName(state, action.agentId)}` : ''}!`
+					: `The crowd erupts${action.agentId ? ` for ${getAgentName(state, action.agentId)}` : ''}!`,
+				{ trigger: action.trigger, agentId: action.agentId, reaction: action.reaction, pop: action.pop }
+			);
+
+		case 'CROWD_CHANT':
+			return crowdChantReducer(state, action);
+
+		case 'FALL':
+			return fallReducer(state, action);
+
+		case 'NEXT_FALL':
+			return nextFallReducer(state, action);
+
+		case 'SUDDEN_DEATH':
+			return addLog(state, 'sudden_death',
+				'Time has expired with the falls even — SUDDEN DEATH! The next fall wins.',
+				{ falls: { ...state.falls } }
+			);
+
 		case 'MATCH_END':
 			return {
 				...state,
@@ -202,6 +491,16 @@ function tickReducer(state: MatchState): MatchState {
 				case 'finisher_setup': regenRate = 0; break; // no regen during finisher
 				case 'finisher_impact': regenRate = 0; break;// no regen during finisher
 				case 'finisher_locked': regenRate = 0; break;// no regen while locked
+				case 'pinning': regenRate = 0.1; break;      // ~6 per second (lying on top)
+				case 'pinned': regenRate = 0; break;         // no regen while pinned
+				case 'submission_hold': regenRate = 0; break;// holding costs as much as it rests
+				case 'submission_locked': regenRate = 0; break; // drained by SUBMISSION_TICK instead
+				case 'escaping': regenRate = 0; break;       // drained by ESCAPE_PROGRESS instead
+				case 'lock_up': regenRate = 0; break;        // straining for control
+				case 'grapple_control': regenRate = 0.05; break; // ~3 per second (leaning on the opponent)
+				case 'grappled': regenRate = 0; break;       // fighting the hold
+				case 'climbing': regenRate = 0; break;       // hauling up the turnbuckle
+				case 'perched': regenRate = 0.05; break;     // ~3 per second (balancing up top)
 				default: regenRate = 0; break;               // no regen during attack
 			}
 			// Comeback: 3× regen rate
@@ -209,13 +508,18 @@ function tickReducer(state: MatchState): MatchState {
 
 			agent.stamina = clamp(agent.stamina + regenRate, 0, agent.maxStamina);
 
+			// ── Apron rest: tag partners slowly get their wind back ──
+			if (agent.location === 'apron') {
+				agent.health = clamp(agent.health + APRON_HEALTH_REGEN, 0, agent.maxHealth);
+			}
+
 			// ── Momentum natural decay (0.05 per tick when idle/moving) ──
 			if ((agent.phase === 'idle' || agent.phase === 'moving') && agent.momentum > 0) {
 				agent.momentum = clamp(agent.momentum - 0.05, 0, 100);
 			}
 
 			return agent;
-		}) as [AgentState, AgentState]
+		})
 	};
 
 	// Decrement comeback cooldown
@@ -226,13 +530,45 @@ function tickReducer(state: MatchState): MatchState {
 	return s;
 }
 
+/**
+ * Write the FSM's view of an agent back. On ticks where none of it changed
+ * (about a quarter of them: held in a hold, waiting out a timer) the state
+ * is returned as is rather than copied.
+ */
+function fsmSyncReducer(state: MatchState, action: Extract<MatchAction, { type: 'FSM_SYNC' }>): MatchState {
+	const agent = getAgent(state, action.agentId);
+	if (
+		!agent || (
+			agent.phase === action.phase && agent.phaseFrames === action.phaseFrames &&
+			agent.activeMove === action.activeMove && agent.positionX === action.positionX &&
+			agent.moveCategory === action.moveCategory && agent.targetRegion === action.targetRegion &&
+			agent.phaseTotalFrames === action.phaseTotalFrames && agent.comboStep === action.comboStep &&
+			agent.comboTotalSteps === action.comboTotalSteps
+		)
+	) {
+		return state;
+	}
+	return updateAgent(state, action.agentId, (a) => ({
+		...a,
+		phase: action.phase,
+		phaseFrames: action.phaseFrames,
+		activeMove: action.activeMove,
+		positionX: action.positionX,
+		moveCategory: action.moveCategory,
+		targetRegion: action.targetRegion,
+		phaseTotalFrames: action.phaseTotalFrames,
+		comboStep: action.comboStep,
+		comboTotalSteps: action.comboTotalSteps
+	}));
+}
+
 function agentAttackReducer(state: MatchState, agentId: string, moveId: string): MatchState {
 	return updateAgent(state, agentId, (a) => ({
 		...a,
 		phase: 'windup' as AgentPhase,
 		phaseFrames: 10, // will be overridden by the match loop with actual move data
 		activeMove: moveId,
-		targetId: state.agents.find((o) => o.id !== agentId)?.id ?? null
+		targetId: a.targetId ?? state.agents.find((o) => o.id !== agentId)?.id ?? null
 	}));
 }
 
@@ -260,6 +596,7 @@ function moveHitReducer(state: MatchState, action: Extract<MatchAction, { type:
 		s = addLog(s, 'reversal', `${getAgentName(s, action.defenderId)} reversed the ${action.moveId}!`, {
 			attackerId: action.attackerId,
 			defenderId: action.defenderId,
+			moveId: action.moveId,
 			reversalDamage: action.damage
 		});
 	} else {
@@ -384,6 +721,585 @@ function finisherCounterReducer(
 	return s;
 }
 
+function pinStartReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'PIN_START' }>
+): MatchState {
+	let s: MatchState = {
+		...state,
+		hold: {
+			type: 'pin',
+			attackerId: action.attackerId,
+			defenderId: action.defenderId,
+			moveId: null,
+			startTick: state.tick,
+			count: 0,
+			ropeProgress: 0,
+			escapeProgress: 0,
+			leverage: action.leverage
+		}
+	};
+	s = updateAgent(s, action.attackerId, (a) => ({
+		...a,
+		stats: { ...a.stats, pinAttempts: a.stats.pinAttempts + 1 }
+	}));
+	s = addLog(s, 'pin_start',
+		action.leverage
+			? `${getAgentName(s, action.attackerId)} covers ${getAgentName(s, action.defenderId)} — with a hand on the ropes for leverage!`
+			: `${getAgentName(s, action.attackerId)} covers ${getAgentName(s, action.defenderId)}!`,
+		{ attackerId: action.attackerId, defenderId: action.defenderId, leverage: action.leverage }
+	);
+	return s;
+}
+
+function pinKickoutReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'PIN_KICKOUT' }>
+): MatchState {
+	const hold = state.hold;
+	if (!hold) return state;
+	const nearFall = action.count >= 2;
+
+	// Surviving a pin fires up the defender — more so the closer it was to three
+	let s: MatchState = { ...state, hold: null };
+	s = updateAgent(s, hold.defenderId, (a) => ({
+		...a,
+		momentum: clamp(a.momentum + (nearFall ? 15 : 5), 0, 100),
+		stats: { ...a.stats, nearFalls: a.stats.nearFalls + (nearFall ? 1 : 0) },
+		psych: { ...a.psych, nearKnockdowns: a.psych.nearKnockdowns + (nearFall ? 1 : 0) }
+	}));
+	s = addLog(s, 'pin_kickout',
+		nearFall
+			? `${getAgentName(s, hold.defenderId)} kicks out at two! NEAR FALL!`
+			: action.count === 0
+				? `${getAgentName(s, hold.defenderId)} kicks out immediately`
+				: `${getAgentName(s, hold.defenderId)} kicks out at one`,
+		{ attackerId: hold.attackerId, defenderId: hold.defenderId, count: action.count, nearFall }
+	);
+	return s;
+}
+
+function submissionStartReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'SUBMISSION_START' }>
+): MatchState {
+	let s: MatchState = {
+		...state,
+		hold: {
+			type: 'submission',
+			attackerId: action.attackerId,
+			defenderId: action.defenderId,
+			moveId: action.moveId,
+			startTick: state.tick,
+			count: 0,
+			ropeProgress: action.ropeProgress,
+			escapeProgress: 0,
+			leverage: false
+		}
+	};
+	s = updateAgent(s, action.attackerId, (a) => ({
+		...a,
+		stats: { ...a.stats, submissionAttempts: a.stats.submissionAttempts + 1 }
+	}));
+	s = addLog(s, 'submission_start',
+		`${getAgentName(s, action.attackerId)} locks in the ${action.moveName}!`,
+		{ attackerId: action.attackerId, defenderId: action.defenderId, moveId: action.moveId }
+	);
+	return s;
+}
+
+function submissionTickReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'SUBMISSION_TICK' }>
+): MatchState {
+	const hold = state.hold;
+	if (!hold) return state;
+	let s: MatchState = {
+		...state,
+		hold: {
+			...hold,
+			ropeProgress: action.ropeProgress,
+			escapeProgress: action.escapeProgress
+		}
+	};
+	if (action.damage > 0 || action.staminaDrain > 0) {
+		s = updateAgent(s, hold.defenderId, (a) => ({
+			...a,
+			health: clamp(a.health - action.damage, 0, a.maxHealth),
+			stamina: clamp(a.stamina - action.staminaDrain, 0, a.maxStamina),
+			stats: { ...a.stats, damageTaken: a.stats.damageTaken + action.damage }
+		}));
+		s = updateAgent(s, hold.attackerId, (a) => ({
+			...a,
+			stats: { ...a.stats, damageDealt: a.stats.damageDealt + action.damage }
+		}));
+	}
+	return s;
+}
+
+function submissionReleaseReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'SUBMISSION_RELEASE' }>
+): MatchState {
+	const hold = state.hold;
+	if (!hold) return state;
+	const ropeBreak = action.reason === 'rope_break';
+
+	let s: MatchState = { ...state, hold: null };
+	s = updateAgent(s, hold.defenderId, (a) => ({
+		...a,
+		momentum: clamp(a.momentum + (ropeBreak ? 5 : 12), 0, 100),
+		stats: { ...a.stats, ropeBreaks: a.stats.ropeBreaks + (ropeBreak ? 1 : 0) }
+	}));
+	s = addLog(s, ropeBreak ? 'rope_break' : 'submission_escape',
+		ropeBreak
+			? `${getAgentName(s, hold.defenderId)} reaches the ropes! The hold is broken.`
+			: `${getAgentName(s, hold.defenderId)} fights out of the hold!`,
+		{ attackerId: hold.attackerId, defenderId: hold.defenderId, moveId: hold.moveId, reason: action.reason }
+	);
+	return s;
+}
+
+function holdBreakUpReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'HOLD_BREAK_UP' }>
+): MatchState {
+	const hold = state.hold;
+	if (!hold) return state;
+
+	// A save pops the crowd and fires up the fighter who made it
+	let s: MatchState = { ...state, hold: null };
+	s = updateAgent(s, action.breakerId, (a) => ({
+		...a,
+		momentum: clamp(a.momentum + 10, 0, 100),
+		stats: { ...a.stats, saves: a.stats.saves + 1 }
+	}));
+	s = addLog(s, 'hold_break_up',
+		hold.type === 'pin'
+			? `${getAgentName(s, action.breakerId)} breaks up the pin at ${hold.count}!`
+			: `${getAgentName(s, action.breakerId)} breaks up the submission hold!`,
+		{
+			breakerId: action.breakerId,
+			attackerId: hold.attackerId,
+			defenderId: hold.defenderId,
+			holdType: hold.type,
+			count: hold.count
+		}
+	);
+	return s;
+}
+
+function tagReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'TAG' }>
+): MatchState {
+	// The outgoing wrestler stays legal until the loop sends them out (STEP_OUT)
+	let s = updateAgent(state, action.fromId, (a) => ({
+		...a,
+		stats: { ...a.stats, tags: a.stats.tags + 1 }
+	}));
+	s = updateAgent(s, action.toId, (a) => ({
+		...a,
+		legal: true,
+		location: 'ring',
+		positionX: action.positionX,
+		positionZ: 0,
+		momentum: clamp(a.momentum + TAG_IN_MOMENTUM, 0, 100)
+	}));
+	return addLog(s, 'tag',
+		`${getAgentName(s, action.fromId)} tags in ${getAgentName(s, action.toId)}!`,
+		{ fromId: action.fromId, toId: action.toId }
+	);
+}
+
+function rumbleEntryReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'RUMBLE_ENTRY' }>
+): MatchState {
+	let s = updateAgent(state, action.agentId, (a) => ({
+		...a,
+		legal: true,
+		location: 'ring',
+		positionX: action.positionX,
+		positionZ: 0
+	}));
+	s = updateRumble(s, (r) => ({
+		...r,
+		nextEntryTick: action.nextEntryTick,
+		entries: r.entries.map((e) => (e.agentId === action.agentId ? { ...e, enteredTick: state.tick } : e)),
+		timeline: [...r.timeline, timelineEvent(state, 'entry', action.agentId, null)]
+	}));
+	const entryNumber = s.rumble?.entries.find((e) => e.agentId === action.agentId)?.entryNumber ?? 0;
+	return addLog(s, 'rumble_entry',
+		`Entrant #${entryNumber}: ${getAgentName(s, action.agentId)} hits the ring!`,
+		{ agentId: action.agentId, entryNumber }
+	);
+}
+
+function eliminationReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'ELIMINATION' }>
+): MatchState {
+	let s = updateAgent(state, action.agentId, (a) => ({
+		...a,
+		legal: false,
+		location: 'backstage',
+		phase: 'idle' as AgentPhase,
+		phaseFrames: 0,
+		activeMove: null,
+		comebackActive: false
+	}));
+	s = updateAgent(s, action.eliminatorId, (a) => ({
+		...a,
+		momentum: clamp(a.momentum + ELIMINATION_MOMENTUM, 0, 100),
+		stats: { ...a.stats, eliminations: a.stats.eliminations + 1 }
+	}));
+	s = updateRumble(s, (r) => ({
+		...r,
+		entries: r.entries.map((e) => (e.agentId === action.agentId
+			? { ...e, eliminatedTick: state.tick, eliminatedBy: action.eliminatorId }
+			: e)),
+		eliminationOrder: [...r.eliminationOrder, action.agentId],
+		timeline: [...r.timeline, timelineEvent(state, 'elimination', action.agentId, action.eliminatorId)]
+	}));
+	const remaining = s.rumble?.entries.filter((e) => e.eliminatedTick === null).length ?? 0;
+	return addLog(s, 'elimination',
+		`${getAgentName(s, action.eliminatorId)} throws ${getAgentName(s, action.agentId)} over the top rope! (${remaining} remaining)`,
+		{ agentId: action.agentId, eliminatorId: action.eliminatorId, remaining }
+	);
+}
+
+function escapeStartReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'ESCAPE_START' }>
+): MatchState {
+	let s: MatchState = {
+		...state,
+		escape: { agentId: action.agentId, method: action.method, startTick: state.tick, progress: 0 }
+	};
+	s = updateAgent(s, action.agentId, (a) => ({
+		...a,
+		stats: { ...a.stats, escapeAttempts: a.stats.escapeAttempts + 1 }
+	}));
+	return addLog(s, 'escape_start',
+		action.method === 'climb'
+			? `${getAgentName(s, action.agentId)} starts climbing the cage!`
+			: `${getAgentName(s, action.agentId)} crawls for the cage door!`,
+		{ agentId: action.agentId, method: action.method }
+	);
+}
+
+function escapeInterruptedReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'ESCAPE_INTERRUPTED' }>
+): MatchState {
+	const escape = state.escape;
+	if (!escape) return state;
+
+	let s: MatchState = { ...state, escape: null };
+	if (action.byId) {
+		s = updateAgent(s, action.byId, (a) => ({
+			...a,
+			momentum: clamp(a.momentum + ESCAPE_STOPPED_MOMENTUM, 0, 100)
+		}));
+	}
+	const name = getAgentName(s, escape.agentId);
+	const detail = action.byId
+		? action.fell
+			? `${getAgentName(s, action.byId)} pulls ${name} off the top of the cage!`
+			: `${getAgentName(s, action.byId)} drags ${name} back in!`
+		: `${name} can't make it out`;
+	return addLog(s, 'escape_interrupted', detail, {
+		agentId: escape.agentId,
+		byId: action.byId,
+		method: escape.method,
+		progress: escape.progress,
+		fell: action.fell
+	});
+}
+
+function lockUpStartReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'LOCK_UP_START' }>
+): MatchState {
+	let s: MatchState = {
+		...state,
+		grapple: {
+			attackerId: action.attackerId,
+			defenderId: action.defenderId,
+			stage: 'lock_up',
+			position: 'neutral',
+			startTick: state.tick,
+			positionTick: state.tick,
+			escapeProgress: 0,
+			transition: null,
+			moveId: null
+		}
+	};
+	s = updateAgent(s, action.attackerId, (a) => ({
+		...a,
+		stamina: clamp(a.stamina - action.staminaCost, 0, a.maxStamina)
+	}));
+	return addLog(s, 'lock_up',
+		`${getAgentName(s, action.attackerId)} and ${getAgentName(s, action.defenderId)} lock up!`,
+		{ attackerId: action.attackerId, defenderId: action.defenderId }
+	);
+}
+
+function grappleControlReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'GRAPPLE_CONTROL' }>
+): MatchState {
+	// Either the end of a lock-up or a stunned opponent grabbed outright
+	let s: MatchState = {
+		...state,
+		grapple: {
+			attackerId: action.attackerId,
+			defenderId: action.defenderId,
+			stage: 'control',
+			position: action.position,
+			startTick: state.grapple?.startTick ?? state.tick,
+			positionTick: state.tick,
+			escapeProgress: 0,
+			transition: null,
+			moveId: null
+		}
+	};
+	if (action.lockUpWon) {
+		s = updateAgent(s, action.attackerId, (a) => ({
+			...a,
+			momentum: clamp(a.momentum + LOCK_UP_MOMENTUM, 0, 100),
+			stats: { ...a.stats, lockUpsWon: a.stats.lockUpsWon + 1 }
+		}));
+	}
+	return addLog(s, 'grapple_control',
+		action.lockUpWon
+			? `${getAgentName(s, action.attackerId)} wins the lock-up`
+			: `${getAgentName(s, action.attackerId)} grabs ${getAgentName(s, action.defenderId)}`,
+		{ attackerId: action.attackerId, defenderId: action.defenderId, position: action.position, lockUpWon: action.lockUpWon }
+	);
+}
+
+function grappleTransitionStartReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'GRAPPLE_TRANSITION_START' }>
+): MatchState {
+	const grapple = state.grapple;
+	if (!grapple) return state;
+	const s = updateAgent(
+		{
+			...state,
+			grapple: {
+				...grapple,
+				transition: {
+					targetPosition: action.targetPosition,
+					name: action.name,
+					completeTick: action.completeTick,
+					reversed: action.reversed
+				}
+			}
+		},
+		grapple.attackerId,
+		(a) => ({ ...a, stamina: clamp(a.stamina - action.staminaCost, 0, a.maxStamina) })
+	);
+	return addLog(s, 'grapple_transition',
+		`${getAgentName(s, grapple.attackerId)} goes for a ${action.name}`,
+		{ attackerId: grapple.attackerId, from: grapple.position, to: action.targetPosition }
+	);
+}
+
+function grappleTransitionEndReducer(state: MatchState): MatchState {
+	const grapple = state.grapple;
+	if (!grapple?.transition) return state;
+	const { targetPosition, reversed } = grapple.transition;
+
+	if (!reversed) {
+		// A new hold gives the defender less to work with
+		return {
+			...state,
+			grapple: {
+				...grapple,
+				position: targetPosition,
+				positionTick: state.tick,
+				escapeProgress: grapple.escapeProgress * 0.5,
+				transition: null
+			}
+		};
+	}
+
+	// The defender turns it around and takes the position for themselves
+	let s: MatchState = {
+		...state,
+		grapple: {
+			...grapple,
+			attackerId: grapple.defenderId,
+			defenderId: grapple.attackerId,
+			position: targetPosition,
+			positionTick: state.tick,
+			escapeProgress: 0,
+			transition: null
+		}
+	};
+	s = updateAgent(s, grapple.defenderId, (a) => ({
+		...a,
+		momentum: clamp(a.momentum + GRAPPLE_REVERSAL_MOMENTUM, 0, 100),
+		stats: { ...a.stats, reversals: a.stats.reversals + 1 }
+	}));
+	return addLog(s, 'grapple_reversal',
+		`${getAgentName(s, grapple.defenderId)} reverses the ${grapple.transition.name} and takes the ${positionName(targetPosition)}!`,
+		{ attackerId: grapple.defenderId, defenderId: grapple.attackerId, position: targetPosition }
+	);
+}
+
+function grappleEndReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'GRAPPLE_END' }>
+): MatchState {
+	const grapple = state.grapple;
+	if (!grapple) return state;
+
+	let s: MatchState = { ...state, grapple: null };
+	if (action.reason === 'escape') {
+		s = updateAgent(s, grapple.defenderId, (a) => ({
+			...a,
+			momentum: clamp(a.momentum + GRAPPLE_ESCAPE_MOMENTUM, 0, 100),
+			stats: { ...a.stats, grappleEscapes: a.stats.grappleEscapes + 1 }
+		}));
+		return addLog(s, 'grapple_escape',
+			`${getAgentName(s, grapple.defenderId)} fights out of the ${positionName(grapple.position)}!`,
+			{ attackerId: grapple.attackerId, defenderId: grapple.defenderId, position: grapple.position }
+		);
+	}
+	if (action.reason === 'release') {
+		return addLog(s, 'grapple_release',
+			`${getAgentName(s, grapple.attackerId)} lets go of ${getAgentName(s, grapple.defenderId)}`,
+			{ attackerId: grapple.attackerId, defenderId: grapple.defenderId, position: grapple.position }
+		);
+	}
+	// 'move' and 'broken' are already in the log as the hit or interruption
+	return s;
+}
+
+function ringsideExitReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'RINGSIDE_EXIT' }>
+): MatchState {
+	let s = updateAgent(state, action.agentId, (a) => ({ ...a, location: 'floor', perch: null, running: false }));
+	if (action.how === 'thrown' && action.byId) {
+		s = updateAgent(s, action.byId, (a) => ({
+			...a,
+			momentum: clamp(a.momentum + THROW_OUT_MOMENTUM, 0, 100),
+			stats: { ...a.stats, throwOuts: a.stats.throwOuts + 1 }
+		}));
+	}
+	const name = getAgentName(s, action.agentId);
+	const detail = action.how === 'thrown' && action.byId
+		? `${getAgentName(s, action.byId)} throws ${name} out to the floor!`
+		: action.how === 'dive'
+			? `${name} flies to the floor outside!`
+			: `${name} rolls out of the ring to the floor.`;
+	return addLog(s, 'ringside_exit', detail, { agentId: action.agentId, how: action.how, byId: action.byId });
+}
+
+function crowdUpdateReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'CROWD_UPDATE' }>
+): MatchState {
+	const crowd = state.crowd;
+	const samples = Math.max(1, state.tick);
+	return {
+		...state,
+		crowd: {
+			...crowd,
+			pop: action.pop,
+			heat: action.heat,
+			// The chant dies down on its own
+			chant: crowd.chant && state.tick >= crowd.chant.endTick ? null : crowd.chant,
+			meanPop: crowd.meanPop + (action.pop - crowd.meanPop) / samples
+		}
+	};
+}
+
+function crowdChantReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'CROWD_CHANT' }>
+): MatchState {
+	const name = action.agentId ? getAgentName(state, action.agentId) : '';
+	let chant: string;
+	switch (action.kind) {
+		case 'this_is_awesome': chant = '"This is awesome!"'; break;
+		case 'fight_forever': chant = '"Fight forever!"'; break;
+		case 'lets_go': chant = `"Let's go, ${name}!"`; break;
+		case 'you_suck': chant = `"You suck!" at ${name}`; break;
+	}
+	const s: MatchState = {
+		...state,
+		crowd: {
+			...state.crowd,
+			chant: { kind: action.kind, agentId: action.agentId, startTick: state.tick, endTick: state.tick + action.durationTicks },
+			lastChantTick: state.tick,
+			chants: state.crowd.chants + 1
+		}
+	};
+	return addLog(s, 'crowd_chant', `The crowd chants ${chant}`, { kind: action.kind, agentId: action.agentId });
+}
+
+function fallReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'FALL' }>
+): MatchState {
+	const falls = { ...state.falls, [action.winnerId]: (state.falls[action.winnerId] ?? 0) + 1 };
+	const score = state.agents.map((a) => falls[a.id] ?? 0).join('-');
+	return addLog({ ...state, falls }, 'fall',
+		`${getAgentName(state, action.winnerId)} wins the fall by ${action.method}! (${score})`,
+		{ winnerId: action.winnerId, loserId: action.loserId, method: action.method, falls }
+	);
+}
+
+function nextFallReducer(
+	state: MatchState,
+	action: Extract<MatchAction, { type: 'NEXT_FALL' }>
+): MatchState {
+	const fallNumber = Object.values(state.falls).reduce((sum, n) => sum + n, 0) + 1;
+
+	// Both wrestlers get a real breather in their corners — back to full health
+	// and wind, with only some of the damage to their body parts carried over
+	let s: MatchState = {
+		...state,
+		hold: null,
+		escape: null,
+		grapple: null,
+		countOut: null,
+		agents: state.agents.map((a) => ({
+			...a,
+			health: a.maxHealth,
+			stamina: a.maxStamina,
+			regionDamage: {
+				head: a.regionDamage.head * NEXT_FALL_REGION_DAMAGE_CARRY,
+				body: a.regionDamage.body * NEXT_FALL_REGION_DAMAGE_CARRY,
+				legs: a.regionDamage.legs * NEXT_FALL_REGION_DAMAGE_CARRY
+			},
+			momentum: a.momentum * 0.5,
+			phase: 'idle' as AgentPhase,
+			phaseFrames: 0,
+			activeMove: null,
+			targetId: null,
+			positionX: action.positions[a.id] ?? a.positionX,
+			positionZ: action.positions[a.id] !== undefined ? 0 : a.positionZ,
+			location: a.location === 'floor' ? 'ring' : a.location,
+			perch: null,
+			running: false,
+			knockdowns: 0,
+			comebackActive: false
+		}))
+	};
+	s = addLog(s, 'next_fall', `The referee restarts the match for fall number ${fallNumber}.`, {
+		fall: fallNumber,
+		falls: { ...state.falls }
+	});
+	return s;
+}
+
 // ─── Helper Functions ───────────────────────────────────────────────
 
 function updateAgent(
@@ -395,10 +1311,23 @@ function updateAgent(
 		...state,
 		agents: state.agents.map((a) =>
 			a.id === agentId ? updater(a) : a
-		) as [AgentState, AgentState]
+		)
 	};
 }
 
+function updateRumble(state: MatchState, updater: (rumble: RumbleState) => RumbleState): MatchState {
+	return state.rumble ? { ...state, rumble: updater(state.rumble) } : state;
+}
+
+function timelineEvent(
+	state: MatchState,
+	type: RumbleTimelineEvent['type'],
+	agentId: string,
+	byId: string | null
+): RumbleTimelineEvent {
+	return { tick: state.tick, elapsed: state.elapsed, type, agentId, byId };
+}
+
 function getAgent(state: MatchState, agentId: string): AgentState | undefined {
 	return state.agents.find((a) => a.id === agentId);
 }
@@ -407,6 +1336,11 @@ function getAgentName(state: MatchState, agentId: string): string {
 	return getAgent(state, agentId)?.name ?? agentId;
 }
 
+/** 'front_facelock' → 'front facelock' */
+function positionName(position: GrapplePosition): string {
+	return position.replace(/_/g, ' ');
+}
+
 function addLog(
 	state: MatchState,
 	type: string,
@@ -1,5 +1,7 @@
-import type { Seed, MoveCategory, BodyRegion } from '../../utils/types';
+import type { Seed, MoveCategory, BodyRegion, Alignment } from '../../utils/types';
 import type { PsychProfile, AgentPsychState, EmotionalState } from './PsychologyTypes';
+import type { GrapplePosition } from '../../components/combat/GrappleState';
+import type { RingCorner } from './movement';
 
 // ─── Core State Types ───────────────────────────────────────────────
 
@@ -19,14 +21,28 @@ export interface AgentState {
 	phaseFrames: number;
 	/** Active move being executed (null when idle) */
 	activeMove: string | null;
-	/** Target of the current move */
+	/** Opponent this agent is fighting (chosen by TargetingSystem in multi-fighter matches) */
 	targetId: string | null;
-	/** Position on the ring mat (-3 to 3 on X axis) */
+	/** Position on the ring mat (-2.8 to 2.8 on X axis; out to ±4.7 on the ringside floor) */
 	positionX: number;
+	/** Position on the ring mat (-2.8 to 2.8 on Z axis; out to ±4.7 on the ringside floor) */
+	positionZ: number;
+	/** Turnbuckle this agent is climbing or perched on (null on the mat) */
+	perch: RingCorner | null;
+	/** Coming back off the ropes at a sprint (running moves are open) */
+	running: boolean;
+	/** Tag team this agent belongs to (null outside team matches) */
+	teamId: string | null;
+	/** Whether this agent may fight right now (always true outside tag matches) */
+	legal: boolean;
+	/** Where this agent is standing */
+	location: AgentLocation;
 	/** Whether this agent is knocked down (health reached 0 at some point) */
 	knockdowns: number;
 	/** Stats accumulated during the match */
 	stats: AgentStats;
+	/** Face, heel or tweener — how the crowd takes what this agent does */
+	alignment: Alignment;
 	/** Personality-driven weight biases */
 	personality: AgentPersonality;
 	/** Psychology profile (static traits, set at match start) */
@@ -55,6 +71,13 @@ export interface AgentState {
 	comboTotalSteps: number;
 }
 
+/**
+ * 'apron' = a tag partner waiting outside the ropes in their corner.
+ * 'floor' = out of the ring on the ringside floor (rolled out, thrown out, or dove out).
+ * 'backstage' = a Royal Rumble entrant who hasn't entered yet or has been eliminated.
+ */
+export type AgentLocation = 'ring' | 'apron' | 'floor' | 'backstage';
+
 export type AgentPhase =
 	| 'idle'
 	| 'moving'
@@ -69,7 +92,18 @@ export type AgentPhase =
 	| 'taunting'
 	| 'finisher_setup'
 	| 'finisher_impact'
-	| 'finisher_locked';
+	| 'finisher_locked'
+	| 'pinning'
+	| 'pinned'
+	| 'submission_hold'
+	| 'submission_locked'
+	| 'escaping'
+	| 'lock_up'
+	| 'grapple_control'
+	| 'grappled'
+	| 'climbing'
+	| 'perched'
+	| 'rolling';
 
 export interface AgentStats {
 	movesHit: number;
@@ -90,6 +124,28 @@ export interface AgentStats {
 	finishersLanded: number;
 	/** Total finishers caught (counter-finishers). */
 	finishersCaught: number;
+	/** Pin attempts made on the opponent. */
+	pinAttempts: number;
+	/** Pins kicked out of at two (near-falls survived). */
+	nearFalls: number;
+	/** Submission holds applied to the opponent. */
+	submissionAttempts: number;
+	/** Submission holds escaped by reaching the ropes. */
+	ropeBreaks: number;
+	/** Pins and submissions broken up on other fighters (multi-fighter matches). */
+	saves: number;
+	/** Tags made to a partner (tag team matches). */
+	tags: number;
+	/** Opponents thrown over the top rope (Royal Rumble). */
+	eliminations: number;
+	/** Climbs and door crawls started (steel cage). */
+	escapeAttempts: number;
+	/** Collar-and-elbow tie-ups won (took control of the grapple). */
+	lockUpsWon: number;
+	/** Grapples fought out of before the opponent hit a move. */
+	grappleEscapes: number;
+	/** Opponents thrown out of the ring to the floor. */
+	throwOuts: number;
 }
 
 export interface AgentPersonality {
@@ -110,10 +166,14 @@ export interface MatchState {
 	tick: number;
 	/** Match duration in seconds (tick / 60) */
 	elapsed: number;
-	/** Max match duration in seconds */
+	/** Max match duration in seconds (0 = unlimited) */
 	timeLimit: number;
-	/** The two agents fighting */
-	agents: [AgentState, AgentState];
+	/** Match type id (key into MATCH_TYPES) whose rules govern the match */
+	matchType: string;
+	/** Falls won per agent id — multi-fall and Iron Man matches keep score here */
+	falls: Record<string, number>;
+	/** Every fighter in the match (two for singles, more for triple threats etc.) */
+	agents: AgentState[];
 	/** Is the match currently running? */
 	running: boolean;
 	/** Match result (null until finished) */
@@ -122,14 +182,216 @@ export interface MatchState {
 	log: MatchLogEntry[];
 	/** Comeback cooldown (ticks until another comeback can trigger) */
 	comebackCooldown: number;
+	/** Pin or submission currently in progress (null when none) */
+	hold: HoldState | null;
+	/** Royal Rumble entry/elimination bookkeeping (null outside rumbles) */
+	rumble: RumbleState | null;
+	/** Cage escape in progress (null when nobody is climbing or at the door) */
+	escape: EscapeState | null;
+	/** Lock-up or grapple in progress (null when nobody is tied up) */
+	grapple: GrappleState | null;
+	/** Referee's count while a fighter is out on the floor (null when nobody is counted) */
+	countOut: CountOutState | null;
+	/** The live crowd: how loud it is, who it loves and hates, and what it's chanting */
+	crowd: CrowdState;
+}
+
+/**
+ * A pin or submission hold in progress.
+ * Created by PIN_START / SUBMISSION_START, cleared when the hold resolves.
+ */
+export interface HoldState {
+	type: 'pin' | 'submission';
+	attackerId: string;
+	defenderId: string;
+	/** Submission move being applied (null for pins) */
+	moveId: string | null;
+	/** Tick the hold started on */
+	startTick: number;
+	/** Referee count for pins (0-3) */
+	count: number;
+	/** Submission: crawl progress toward the ropes (0-1, 1 = rope break) */
+	ropeProgress: number;
+	/** Submission: progress toward fighting out of the hold (0-1) */
+	escapeProgress: number;
+	/** Pin: the attacker has a hand on the ropes for leverage behind the referee's back */
+	leverage: boolean;
+}
+
+/**
+ * A steel cage escape in progress.
+ * Created by ESCAPE_START, cleared when the escaper is pulled back in
+ * (ESCAPE_INTERRUPTED) or the match ends.
+ */
+export interface EscapeState {
+	agentId: string;
+	/** Over the top of the wall, or out through the cage door */
+	method: 'climb' | 'door';
+	/** Tick the escape started on */
+	startTick: number;
+	/** Progress toward getting out (0-1, 1 = feet on the floor) */
+	progress: number;
+}
+
+/**
+ * A lock-up or grapple in progress.
+ * Created by LOCK_UP_START (both fighters tie up) or GRAPPLE_CONTROL (a
+ * stunned opponent is grabbed outright), cleared by GRAPPLE_END.
+ */
+export interface GrappleState {
+	/** Fighter in control (the initiator until the lock-up is resolved) */
+	attackerId: string;
+	defenderId: string;
+	/** Tying up, or one fighter has taken control */
+	stage: 'lock_up' | 'control';
+	position: GrapplePosition;
+	/** Tick the grapple started on */
+	startTick: number;
+	/** Tick the current position (or the lock-up) was reached */
+	positionTick: number;
+	/** Defender's progress toward fighting out of the grapple (0-1) */
+	escapeProgress: number;
+	/** Position change under way (null when settled) */
+	transition: {
+		targetPosition: GrapplePosition;
+		name: string;
+		/** Tick the transition lands on */
+		completeTick: number;
+		/** The defender turns it around and takes control at the target position */
+		reversed: boolean;
+	} | null;
+	/** Grapple move being executed from the position (null between moves) */
+	moveId: string | null;
+}
+
+/**
+ * The referee's outside count.
+ * Created by the first OUTSIDE_COUNT when a legal fighter is on the floor,
+ * cleared by OUTSIDE_COUNT_END once everyone is back in the ring (or the
+ * count reaches ten and the match ends).
+ */
+export interface CountOutState {
+	/** Referee count so far (0-10) */
+	count: number;
+	/** Tick the count started on */
+	startTick: number;
+	/** Tick the referee calls the next number */
+	nextCountTick: number;
+}
+
+/**
+ * The live crowd, driven by CrowdSystem.
+ * Pop is how loud the building is; heat is how the crowd feels about each
+ * wrestler. Faces start cheered and heels start booed.
+ */
+export interface CrowdState {
+	/** How loud and invested the crowd is (0-100) */
+	pop: number;
+	/** Per-agent heat: -100 (booed out of the building) to 100 (cheered to the rafters) */
+	heat: Record<string, number>;
+	/** Chant going on right now (null when the crowd isn't chanting) */
+	chant: CrowdChant | null;
+	/** Tick the last chant started (-1 = none yet) */
+	lastChantTick: number;
+	/** Average pop over the match so far (feeds the match rating) */
+	meanPop: number;
+	/** Chants started over the match */
+	chants: number;
+}
+
+/**
+ * 'this_is_awesome' = a hot crowd; 'fight_forever' = a close match running long;
+ * 'lets_go' = rallying behind a beloved wrestler who is losing;
+ * 'you_suck' = a heel with the whole building against them.
+ */
+export type CrowdChantKind = 'this_is_awesome' | 'fight_forever' | 'lets_go' | 'you_suck';
+
+export interface CrowdChant {
+	kind: CrowdChantKind;
+	/** Wrestler the chant is for (or against); null for chants about the match */
+	agentId: string | null;
+	startTick: number;
+	/** Tick the chant dies down */
+	endTick: number;
+}
+
+/**
+ * Royal Rumble bookkeeping. Entrants come in one at a time on a seeded
+ * timer, in entry-number order, while the ring has room.
+ */
+export interface RumbleState {
+	/** One entry per wrestler, in entry-number order */
+	entries: RumbleEntry[];
+	/** Tick the next entrant is due (they wait if the ring is full) */
+	nextEntryTick: number;
+	/** Most wrestlers allowed in the ring at once */
+	ringLimit: number;
+	/** Eliminated agent ids, first elimination first */
+	eliminationOrder: string[];
+	/** Every entry, elimination and near-miss, in order */
+	timeline: RumbleTimelineEvent[];
+}
+
+export interface RumbleEntry {
+	agentId: string;
+	/** 1-based entry number */
+	entryNumber: number;
+	/** Tick the entrant hit the ring (null = still backstage) */
+	enteredTick: number | null;
+	/** Tick they went over the top rope (null = not eliminated) */
+	eliminatedTick: number | null;
+	/** Who threw them out */
+	eliminatedBy: string | null;
+}
+
+export interface RumbleTimelineEvent {
+	tick: number;
+	elapsed: number;
+	/** 'skin_the_cat' = thrown over the top but saved themselves on the apron */
+	type: 'entry' | 'elimination' | 'skin_the_cat';
+	agentId: string;
+	/** Attacker for eliminations and near-misses */
+	byId: string | null;
+}
+
+/** Final Royal Rumble standings, attached to the MatchResult. */
+export interface RumbleSummary {
+	/** Per-entrant results, in entry-number order */
+	entrants: RumbleEntrantSummary[];
+	/** Eliminated agent ids, first elimination first */
+	eliminationOrder: string[];
+	/** Longest time in the ring (the "iron man" of the Rumble) */
+	ironManId: string;
+	/** Most eliminations (earliest entrant wins ties) */
+	mostEliminationsId: string;
+	timeline: RumbleTimelineEvent[];
+}
+
+export interface RumbleEntrantSummary {
+	agentId: string;
+	entryNumber: number;
+	/** Seconds into the match they entered (null = never entered) */
+	enteredAt: number | null;
+	/** Seconds into the match they were eliminated (null = survived or never entered) */
+	eliminatedAt: number | null;
+	eliminatedBy: string | null;
+	eliminations: number;
+	/** Seconds spent in the ring */
+	timeInRing: number;
 }
 
 export interface MatchResult {
 	winnerId: string;
 	loserId: string;
-	method: 'knockout' | 'tko' | 'timeout' | 'pinfall';
+	/**
+	 * 'falls' = more falls won when the time limit expired; 'elimination' = last one in a Rumble;
+	 * 'escape' = out of the steel cage first
+	 */
+	method: 'knockout' | 'tko' | 'timeout' | 'pinfall' | 'submission' | 'countout' | 'dq' | 'falls' | 'elimination' | 'escape';
 	duration: number;
 	rating: number;
+	/** Royal Rumble entry/elimination record (rumbles only) */
+	rumble?: RumbleSummary;
 }
 
 // ─── Actions (Events that drive state transitions) ──────────────────
@@ -145,7 +407,10 @@ export type MatchAction =
 	| { type: 'MOVE_MISS'; attackerId: string; moveId: string }
 	| { type: 'KNOCKDOWN'; agentId: string }
 	| { type: 'RECOVERY'; agentId: string }
-	| { type: 'FSM_SYNC'; agentId: string; phase: AgentPhase; phaseFrames: number; activeMove: string | null; positionX: number }
+	| {
+		type: 'FSM_SYNC'; agentId: string; phase: AgentPhase; phaseFrames: number; activeMove: string | null; positionX: number;
+		moveCategory: MoveCategory | null; targetRegion: BodyRegion | null; phaseTotalFrames: number; comboStep: number; comboTotalSteps: number;
+	}
 	| { type: 'COMEBACK_TRIGGER'; agentId: string }
 	| { type: 'COMEBACK_END'; agentId: string }
 	| { type: 'EMOTION_CHANGE'; agentId: string; from: EmotionalState; to: EmotionalState }
@@ -157,6 +422,50 @@ export type MatchAction =
 	| { type: 'FINISHER_START'; attackerId: string; defenderId: string; moveId: string; moveName: string }
 	| { type: 'FINISHER_IMPACT'; attackerId: string; defenderId: string; moveId: string; damage: number; knockdownForced: boolean }
 	| { type: 'FINISHER_COUNTER'; attackerId: string; defenderId: string; moveId: string }
+	| { type: 'PIN_START'; attackerId: string; defenderId: string; leverage: boolean }
+	| { type: 'PIN_COUNT'; count: number }
+	| { type: 'PIN_KICKOUT'; count: number }
+	| { type: 'SUBMISSION_START'; attackerId: string; defenderId: string; moveId: string; moveName: string; ropeProgress: number }
+	| { type: 'SUBMISSION_TICK'; damage: number; staminaDrain: number; ropeProgress: number; escapeProgress: number }
+	| { type: 'SUBMISSION_RELEASE'; reason: 'rope_break' | 'escape' }
+	| { type: 'HOLD_BROKEN' }
+	| { type: 'HOLD_BREAK_UP'; breakerId: string }
+	| { type: 'TARGET_CHANGE'; agentId: string; targetId: string }
+	| { type: 'TAG'; fromId: string; toId: string; positionX: number }
+	| { type: 'STEP_OUT'; agentId: string }
+	| { type: 'LOCATION_CHANGE'; agentId: string; location: AgentLocation; positionX: number }
+	| { type: 'DOUBLE_TEAM'; attackerIds: string[]; defenderId: string; moveId: string; moveName: string }
+	| { type: 'RUMBLE_ENTRY'; agentId: string; positionX: number; nextEntryTick: number }
+	| { type: 'ELIMINATION'; agentId: string; eliminatorId: string }
+	| { type: 'SKIN_THE_CAT'; agentId: string; attackerId: string }
+	| { type: 'ESCAPE_START'; agentId: string; method: EscapeState['method'] }
+	| { type: 'ESCAPE_PROGRESS'; progress: number; staminaDrain: number }
+	| { type: 'ESCAPE_INTERRUPTED'; byId: string | null; fell: boolean }
+	| { type: 'CAGE_SLAM'; agentId: string; attackerId: string | null; damage: number }
+	| { type: 'CLIMB_START'; agentId: string; corner: RingCorner }
+	| { type: 'PERCH_END'; agentId: string; reason: 'dive' | 'climb_down' | 'knocked_off' }
+	| { type: 'ROPE_REBOUND'; agentId: string }
+	| { type: 'RUN_END'; agentId: string }
+	| { type: 'IRISH_WHIP'; attackerId: string; defenderId: string; into: 'ropes' | 'corner' | 'barricade'; staminaCost: number }
+	| { type: 'RINGSIDE_EXIT'; agentId: string; how: 'roll' | 'thrown' | 'dive'; byId: string | null }
+	| { type: 'RINGSIDE_ENTRY'; agentId: string }
+	| { type: 'OUTSIDE_COUNT'; count: number; nextCountTick: number }
+	| { type: 'OUTSIDE_COUNT_END' }
+	| { type: 'BARRICADE_SLAM'; agentId: string; attackerId: string | null; damage: number }
+	| { type: 'LOCK_UP_START'; attackerId: string; defenderId: string; staminaCost: number }
+	| { type: 'GRAPPLE_CONTROL'; attackerId: string; defenderId: string; position: GrapplePosition; lockUpWon: boolean }
+	| { type: 'GRAPPLE_TRANSITION_START'; name: string; targetPosition: GrapplePosition; staminaCost: number; completeTick: number; reversed: boolean }
+	| { type: 'GRAPPLE_TRANSITION_END' }
+	| { type: 'GRAPPLE_STRUGGLE'; escapeProgress: number }
+	| { type: 'GRAPPLE_MOVE'; moveId: string; moveName: string; staminaCost: number }
+	| { type: 'GRAPPLE_MOVE_END' }
+	| { type: 'GRAPPLE_END'; reason: 'move' | 'escape' | 'release' | 'broken' }
+	| { type: 'CROWD_UPDATE'; pop: number; heat: Record<string, number> }
+	| { type: 'CROWD_POP'; trigger: string; agentId: string | null; reaction: 'cheer' | 'boo'; pop: number }
+	| { type: 'CROWD_CHANT'; kind: CrowdChantKind; agentId: string | null; durationTicks: number }
+	| { type: 'FALL'; winnerId: string; loserId: string; method: MatchResult['method'] }
+	| { type: 'NEXT_FALL'; positions: Record<string, number> }
+	| { type: 'SUDDEN_DEATH' }
 	| { type: 'MATCH_END'; result: MatchResult };
 
 // ─── Log Schema ─────────────────────────────────────────────────────
@@ -0,0 +1,159 @@
+import type { AgentState } from './MatchState';
+import type { EffectiveModifiers } from './TraitFormulas';
+import { SeededRandom } from '../../utils/random';
+import { clamp } from '../../utils/math';
+import { ropeDistance } from './movement';
+
+/**
+ * Ticks between referee counts (1 second per count at 60fps).
+ */
+const PIN_COUNT_FRAMES = 60;
+
+/**
+ * A kick-out lands this many ticks before the referee's hand hits the mat.
+ * This is what makes a "2.9" kick-out look like a 2.9.
+ */
+const KICKOUT_LEAD_FRAMES = 8;
+
+/**
+ * Safety cap on the PINNING/PINNED FSM timers. FSM timers advance on both
+ * FSM passes of a match tick, so this covers three full counts plus slack.
+ */
+const PIN_SAFETY_FRAMES = PIN_COUNT_FRAMES * 3 * 2 + 60;
+
+/**
+ * Max distance at which a fighter can cover a downed opponent.
+ */
+const PIN_RANGE = 1.4;
+
+/**
+ * Ticks after eating a finisher during which a fighter is too dazed to kick out well.
+ */
+const FINISHER_DAZE_TICKS = 300;
+
+/**
+ * How likely a kick-out is at each count, relative to the defender's resistance.
+ * Count 3 is weighted up — kick-outs at the last possible moment are the drama.
+ */
+const COUNT_KICKOUT_WEIGHT: Record<number, number> = { 1: 0.45, 2: 0.3, 3: 0.5 };
+
+/**
+ * How close to the ropes a cover must be for the pinning fighter to reach them for leverage.
+ */
+const LEVERAGE_ROPE_REACH = 0.8;
+
+/**
+ * How often a heel covering near the ropes grabs them for leverage.
+ */
+const LEVERAGE_CHANCE = 0.6;
+
+/**
+ * Kick-out resistance lost to a pin with leverage from the ropes.
+ */
+const LEVERAGE_KICKOUT_PENALTY = 0.2;
+
+/**
+ * PinSystem — the referee's 1-2-3 and the defender's fight to kick out.
+ *
+ * Kick-out resistance (0–1) is driven by:
+ *   - Health: the dominant factor (a fresh wrestler always kicks out)
+ *   - Stamina and momentum: fighters with something left in the tank
+ *   - Psychology: clutch and desperate fighters dig deep; panicking ones don't
+ *   - Comeback: a fighter mid-comeback almost never stays down
+ *   - Crowd heat × crowd sensitivity: the crowd willing them up
+ *   - Accumulated knockdowns: each one makes the next pin harder to escape
+ *   - A recent finisher: the classic "cover after the finisher" is hard to survive
+ *   - The pinning fighter's momentum: a dominant opponent pins harder
+ *   - Leverage: a heel covering near the ropes may put a hand (or feet) on
+ *     them behind the referee's back
+ *
+ * Before each count lands, one kick-out roll is made (resistance × count weight).
+ * The match loop owns timing and FSM events; this class only decides.
+ */
+export class PinSystem {
+	constructor(private readonly rng: SeededRandom) {}
+
+	/**
+	 * Defender's overall resistance to being pinned (0.02–0.95).
+	 *
+	 * @param ticksSinceFinisher - Ticks since the defender was hit by a finisher (Infinity if never)
+	 */
+	kickoutResistance(
+		defender: AgentState,
+		attacker: AgentState,
+		ticksSinceFinisher: number,
+		defenderMods?: EffectiveModifiers
+	): number {
+		const healthPct = defender.health / defender.maxHealth;
+		const staminaPct = defender.stamina / defender.maxStamina;
+		const psych = defender.psych;
+
+		let resistance = healthPct * 1.2
+			+ staminaPct * 0.1
+			+ (defender.momentum / 100) * 0.25;
+
+		switch (psych.emotion) {
+			case 'clutch': resistance += 0.2; break;
+			case 'desperate': resistance += 0.12; break;
+			case 'panicking': resistance -= 0.05; break;
+			case 'frustrated': resistance -= 0.03; break;
+		}
+
+		if (defender.comebackActive) resistance += 0.2;
+
+		if (psych.crowdHeat > 0) {
+			resistance += psych.crowdHeat * defender.psychProfile.crowdSensitivity * 0.1;
+		}
+
+		// Mental toughness from psychology (confidence steadies the fighter)
+		if (defenderMods) resistance += (defenderMods.confidence - 0.5) * 0.1;
+
+		resistance -= defender.knockdowns * 0.04;
+
+		if (ticksSinceFinisher < FINISHER_DAZE_TICKS) resistance -= 0.25;
+
+		resistance -= (attacker.momentum / 100) * 0.1;
+
+		return clamp(resistance, 0.02, 0.95);
+	}
+
+	/**
+	 * Whether the pinning fighter cheats with a hand on the ropes.
+	 * Only heels do, and only when the cover is close enough to reach them.
+	 */
+	wantsLeverage(attacker: AgentState, defender: AgentState): boolean {
+		if (attacker.alignment !== 'heel') return false;
+		if (ropeDistance(defender.positionX, defender.positionZ) > LEVERAGE_ROPE_REACH) return false;
+		return this.rng.chance(LEVERAGE_CHANCE);
+	}
+
+	/**
+	 * Roll whether the defender kicks out just before the given count lands.
+	 *
+	 * @param count - The count the referee is about to make (1, 2 or 3)
+	 * @param leverage - The attacker has the ropes for leverage
+	 */
+	rollKickout(
+		defender: AgentState,
+		attacker: AgentState,
+		count: number,
+		ticksSinceFinisher: number,
+		defenderMods?: EffectiveModifiers,
+		leverage = false
+	): boolean {
+		let resistance = this.kickoutResistance(defender, attacker, ticksSinceFinisher, defenderMods);
+		if (leverage) resistance = Math.max(0.02, resistance - LEVERAGE_KICKOUT_PENALTY);
+		const weight = COUNT_KICKOUT_WEIGHT[count] ?? 0;
+		return this.rng.chance(resistance * weight);
+	}
+}
+
+export {
+	PIN_COUNT_FRAMES,
+	KICKOUT_LEAD_FRAMES,
+	PIN_SAFETY_FRAMES,
+	PIN_RANGE,
+	LEVERAGE_ROPE_REACH,
+	LEVERAGE_CHANCE,
+	LEVERAGE_KICKOUT_PENALTY
+};
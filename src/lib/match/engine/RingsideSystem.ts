@@ -0,0 +1,478 @@
+import type { AgentState } from './MatchState';
+import type { MoveDef } from '../../combat/MoveRegistry';
+import type { FighterStateMachine } from './fsm';
+import { SeededRandom } from '../../utils/random';
+import { clamp } from '../../utils/math';
+import {
+	ropeDistance,
+	ringsideSpot,
+	ringEntrySpot,
+	clampToRingside,
+	directionBetween,
+	BARRICADE_IMPACT_MIN_SPEED
+} from './movement';
+import { isTeammate } from './TargetingSystem';
+import { inRingTogether } from './ActionLegality';
+import { matchReducer } from './MatchReducer';
+import { DECISION_INTERVAL, MOVE_DECISION_INTERVAL, DIVE_LANDING_DISTANCE, type MatchContext } from './MatchContext';
+
+/**
+ * Ticks between the referee's counts (one a second).
+ */
+const COUNT_INTERVAL_TICKS = 60;
+
+/**
+ * The count that ends the match for anyone still outside.
+ */
+const COUNT_OUT_LIMIT = 10;
+
+/**
+ * The count by which an AI wrestler is always heading back in. Beating
+ * the ten is on them; the roll in takes under a second.
+ */
+const REENTRY_COUNT = 8;
+
+/**
+ * Without a count (no count-out rule), how long before an AI wrestler on
+ * the floor always heads back in (10 seconds).
+ */
+const OUTSIDE_TIME_LIMIT_TICKS = 600;
+
+/**
+ * Frames a roll under the bottom rope takes, in or out.
+ */
+const ROLL_FRAMES = 36;
+
+/**
+ * How close (units) a wrestler must be to their rolling spot to start the roll.
+ */
+const ROLL_REACH = 0.3;
+
+/**
+ * An AI wrestler gives up walking to the ropes to roll under them after this long (3 seconds).
+ */
+const ROLL_INTENT_TIMEOUT = 180;
+
+/**
+ * How far from the ropes the opponent can be to be thrown out to the floor.
+ */
+const THROW_OUT_ROPE_REACH = 1.0;
+
+/**
+ * Stun after landing on the floor from a throw-out.
+ */
+const THROW_OUT_STUN_FRAMES = 60;
+
+/**
+ * Damage for a barricade slam at the minimum impact speed, and per unit of speed above it.
+ * The barricade gives a little more than the steel does.
+ */
+const BARRICADE_SLAM_BASE_DAMAGE = 2;
+const BARRICADE_SLAM_DAMAGE_PER_SPEED = 0.6;
+
+/**
+ * The throw to the floor. Not part of the regular move pool — only the
+ * ringside logic starts it.
+ */
+const THROW_OUT_MOVE: MoveDef = {
+	id: 'throw_to_floor',
+	name: 'Throw to the Floor',
+	category: 'grapple',
+	windupFrames: 18,
+	activeFrames: 10,
+	recoveryFrames: 24,
+	baseDamage: 5,
+	staminaCost: 7,
+	region: 'body',
+	momentumGain: 5,
+	hitbox: { range: 1.3, angle: 90 },
+	canBeReversed: true,
+	reversalWindow: 5
+};
+
+/**
+ * A wrestler heading under the ropes, out to the floor or back in: the
+ * tick they set off, then where the roll comes up once it has started.
+ */
+export interface RollIntent {
+	to: 'floor' | 'ring';
+	sinceTick: number;
+	landing: { x: number; z: number } | null;
+}
+
+/**
+ * RingsideSystem — fighting outside the ring and the referee's count.
+ *
+ * Wrestlers leave the ring three ways:
+ *   - Rolling out under the bottom rope: a hurt wrestler regrouping, or
+ *     one following the opponent out to brawl
+ *   - Thrown out with THROW_OUT_MOVE: an opponent near the ropes, most
+ *     often a stunned one
+ *   - Diving at an opponent on the floor (moves with position 'outside')
+ *
+ * On the floor wrestlers only strike and whip each other into the barricade.
+ * They roll back in under the count — by REENTRY_COUNT at the latest —
+ * or, without a count-out rule, once they've been out a while. A clearly
+ * healthier wrestler is happy to stay in and let the count run.
+ *
+ * The match loop walks wrestlers to the ropes and lands their rolls; rolls,
+ * throw-outs, barricade slams and the count itself are run from here.
+ */
+export class RingsideSystem {
+	/** Wrestlers heading under the ropes, or rolling under them. */
+	private readonly rollIntents: Map<string, RollIntent> = new Map();
+
+	/** Tick each wrestler on the floor got there. */
+	private readonly outsideSinceTick: Map<string, number> = new Map();
+
+	constructor(
+		private readonly rng: SeededRandom,
+		private readonly match: MatchContext
+	) {}
+
+	/** A new fall: everyone starts back in the ring. */
+	reset(): void {
+		this.outsideSinceTick.clear();
+	}
+
+	/** The roll a wrestler is heading for or in the middle of, if any. */
+	rollIntent(agentId: string): RollIntent | undefined {
+		return this.rollIntents.get(agentId);
+	}
+
+	/** Forget a planned roll (the fighter left the ring or was reset). */
+	cancelRoll(agentId: string): void {
+		this.rollIntents.delete(agentId);
+	}
+
+	/**
+	 * AI ringside logic, run before the brain decides.
+	 *   - On the floor: head back in under the count (or once they've been
+	 *     out a while)
+	 *   - In the ring with the opponent on the floor: maybe follow them out;
+	 *     otherwise the brain decides (a dive to the outside is one option)
+	 *   - Both in the ring: throw a stunned opponent near the ropes out, or
+	 *     roll out to regroup when hurt
+	 *
+	 * @returns true if the ringside logic took this decision
+	 */
+	runDecision(
+		agent: AgentState,
+		opponent: AgentState,
+		fsm: FighterStateMachine,
+		distance: number
+	): boolean {
+		if (agent.location === 'floor') {
+			const count = this.match.rules.countOut ? this.match.state.countOut?.count ?? 0 : null;
+			const ticksOutside = this.match.state.tick - (this.outsideSinceTick.get(agent.id) ?? this.match.state.tick);
+			if (!this.wantsReEnter(agent, count, ticksOutside, opponent.location === 'floor')) return false;
+			this.startRollIntent(agent, 'ring');
+			return true;
+		}
+
+		if (agent.location !== 'ring') return false;
+		if (opponent.location === 'floor') {
+			if (!this.wantsFollow(agent, opponent, this.match.rules.countOut)) return false;
+			this.startRollIntent(agent, 'floor');
+			return true;
+		}
+
+		if (opponent.location !== 'ring') return false;
+		if (this.tryThrowOut(agent, opponent, fsm, distance)) return true;
+		if (!this.wantsRollOut(agent, opponent)) return false;
+		this.startRollIntent(agent, 'floor');
+		return true;
+	}
+
+	/**
+	 * The player's ringside button: roll back in from the floor, throw an
+	 * opponent near the ropes out, or roll out of the ring.
+	 */
+	runManual(agent: AgentState, opponent: AgentState, fsm: FighterStateMachine, distance: number): void {
+		if (agent.location === 'floor') {
+			this.startRollIntent(agent, 'ring');
+		} else if (agent.location === 'ring' && !this.tryThrowOut(agent, opponent, fsm, distance, true)) {
+			this.startRollIntent(agent, 'floor');
+		}
+	}
+
+	/** Head for the ropes to roll under them; the roll follows in updateRoll. */
+	startRollIntent(agent: AgentState, to: 'floor' | 'ring'): void {
+		this.rollIntents.set(agent.id, { to, sinceTick: this.match.state.tick, landing: null });
+		this.match.decisionTimers.set(agent.id, MOVE_DECISION_INTERVAL);
+	}
+
+	/** Where a fighter starts rolling from: just inside the ropes going out, beside the apron coming in. */
+	rollStartSpot(agent: AgentState, to: 'floor' | 'ring'): { x: number; z: number } {
+		return to === 'floor'
+			? ringEntrySpot(agent.positionX, agent.positionZ)
+			: ringsideSpot(agent.positionX, agent.positionZ);
+	}
+
+	/**
+	 * Carry a roll under the ropes along, run before the normal decision:
+	 *   - Walking to the ropes (see runMovementPhase): roll on arrival;
+	 *     give up if the fighter is interrupted or ROLL_INTENT_TIMEOUT passes
+	 *   - ROLLING: nothing to decide (runMovementPhase lands the roll)
+	 *
+	 * @returns true if the roll took this decision
+	 */
+	updateRoll(agent: AgentState, fsm: FighterStateMachine): boolean {
+		const intent = this.rollIntents.get(agent.id);
+		if (!intent) return false;
+		if (intent.landing) return true;
+
+		if (!fsm.acceptsInput || this.match.state.tick - intent.sinceTick > ROLL_INTENT_TIMEOUT) {
+			this.rollIntents.delete(agent.id);
+			return false;
+		}
+
+		const spot = this.rollStartSpot(agent, intent.to);
+		if (Math.hypot(agent.positionX - spot.x, agent.positionZ - spot.z) <= ROLL_REACH) {
+			const landing = intent.to === 'floor'
+				? ringsideSpot(agent.positionX, agent.positionZ)
+				: ringEntrySpot(agent.positionX, agent.positionZ);
+			const mover = this.match.movers.get(agent.id);
+			mover?.stopMovement();
+			mover?.setArea('crossing');
+			mover?.moveToward(landing.x, landing.z);
+			fsm.pushEvent({ type: 'REQUEST_ROLL', frames: ROLL_FRAMES });
+			this.rollIntents.set(agent.id, { ...intent, landing });
+		}
+		return true;
+	}
+
+	/** The roll is over: the fighter comes up on the floor, or back in the ring. */
+	finishRoll(agent: AgentState, to: 'floor' | 'ring', landing: { x: number; z: number }): void {
+		this.rollIntents.delete(agent.id);
+		this.placeAt(agent.id, to, landing.x, landing.z);
+		if (to === 'floor') {
+			this.enterFloor(agent.id, 'roll', null);
+		} else {
+			this.outsideSinceTick.delete(agent.id);
+			this.match.state = matchReducer(this.match.state, { type: 'RINGSIDE_ENTRY', agentId: agent.id });
+		}
+	}
+
+	/**
+	 * Go for the throw to the floor. AI wrestlers roll for it (likelier
+	 * against a stunned or hurt opponent); `forced` skips the roll for
+	 * players. Either way the opponent must be in the ring within
+	 * THROW_OUT_ROPE_REACH of the ropes and on their feet.
+	 *
+	 * @returns true if the throw started
+	 */
+	private tryThrowOut(
+		agent: AgentState,
+		opponent: AgentState,
+		fsm: FighterStateMachine,
+		distance: number,
+		forced = false
+	): boolean {
+		const move = THROW_OUT_MOVE;
+		if (!fsm.canAttack || agent.stamina < move.staminaCost) return false;
+		if (!inRingTogether(agent, opponent) || distance > move.hitbox.range + 0.3) return false;
+		if (ropeDistance(opponent.positionX, opponent.positionZ) > THROW_OUT_ROPE_REACH) return false;
+		const opponentState = this.match.fsms.get(opponent.id)?.stateId;
+		if (opponentState === 'KNOCKED_DOWN') return false;
+		if (!forced && !this.wantsThrowOut(agent, opponent, opponentState === 'STUNNED')) return false;
+
+		this.match.state = {
+			...this.match.state,
+			agents: this.match.state.agents.map((a) => {
+				if (a.id !== agent.id) return a;
+				return { ...a, stamina: clamp(a.stamina - move.staminaCost, 0, a.maxStamina) };
+			})
+		};
+		this.match.movers.get(agent.id)?.stopMovement();
+		fsm.pushEvent({
+			type: 'REQUEST_ATTACK',
+			moveId: move.id,
+			windupFrames: move.windupFrames,
+			activeFrames: move.activeFrames,
+			recoveryFrames: move.recoveryFrames
+		});
+		this.match.decisionTimers.set(agent.id, DECISION_INTERVAL);
+		return true;
+	}
+
+	/** The throw to the floor connected: the defender lands beside the apron, stunned. */
+	resolveThrowOut(attackerId: string, defenderId: string): void {
+		const defender = this.match.state.agents.find((a) => a.id === defenderId);
+		if (!defender || defender.location !== 'ring') return;
+
+		const spot = ringsideSpot(defender.positionX, defender.positionZ);
+		this.placeAt(defender.id, 'floor', spot.x, spot.z);
+		this.match.fsms.get(defender.id)?.pushEvent({ type: 'HIT_RECEIVED', stunFrames: THROW_OUT_STUN_FRAMES, damage: 0 });
+		this.enterFloor(defender.id, 'thrown', attackerId);
+	}
+
+	/**
+	 * A dive to the outside comes down DIVE_LANDING_DISTANCE from the
+	 * target on the floor, on the ring side. The diver stays out there.
+	 */
+	landOutsideDive(diver: AgentState, target: AgentState): void {
+		if (diver.location !== 'ring' || target.location !== 'floor') return;
+		const dir = directionBetween(target, diver);
+		const spot = clampToRingside(
+			target.positionX + dir.x * DIVE_LANDING_DISTANCE,
+			target.positionZ + dir.z * DIVE_LANDING_DISTANCE
+		);
+		this.placeAt(diver.id, 'floor', spot.x, spot.z);
+		this.enterFloor(diver.id, 'dive', null);
+	}
+
+	/** Move a fighter across the ropes: confine their movement to the new area and put them on the spot. */
+	private placeAt(agentId: string, area: 'floor' | 'ring', x: number, z: number): void {
+		const mover = this.match.movers.get(agentId);
+		mover?.setArea(area);
+		mover?.teleport(x, z);
+		this.match.fsms.get(agentId)?.setPositionX(x);
+		this.match.state = {
+			...this.match.state,
+			agents: this.match.state.agents.map((a) => (a.id === agentId ? { ...a, positionX: x, positionZ: z } : a))
+		};
+	}
+
+	/** A fighter is out on the floor: drop their ring plans and start their time outside. */
+	private enterFloor(agentId: string, how: 'roll' | 'thrown' | 'dive', byId: string | null): void {
+		this.match.clearRingPlans(agentId);
+		this.outsideSinceTick.set(agentId, this.match.state.tick);
+		this.match.state = matchReducer(this.match.state, { type: 'RINGSIDE_EXIT', agentId, how, byId });
+	}
+
+	/** Damage (and a hit flash) for a wrestler knocked hard into the barricade. */
+	barricadeSlam(agent: AgentState, opponent: AgentState, impactSpeed: number): void {
+		const damage = this.slamDamage(impactSpeed);
+		this.match.state = matchReducer(this.match.state, {
+			type: 'BARRICADE_SLAM',
+			agentId: agent.id,
+			attackerId: opponent.id,
+			damage
+		});
+		this.match.emitHit({
+			positionX: agent.positionX,
+			positionZ: agent.positionZ,
+			attackerId: opponent.id,
+			defenderId: agent.id,
+			damage,
+			critical: false,
+			reversed: false,
+			blocked: false,
+			intensity: clamp(damage / 12, 0.2, 1.0)
+		});
+	}
+
+	/**
+	 * The referee's count while anyone legal is out on the floor: it starts
+	 * at one, goes up every COUNT_INTERVAL_TICKS and stops once everyone is
+	 * back in. At COUNT_OUT_LIMIT the lowest-ranked fighter still outside
+	 * loses the fall — the engine has no draws, so a double count-out goes
+	 * to whoever rankFighters puts ahead. The winner is the best-ranked
+	 * opponent in the ring, else the best-ranked opponent anywhere.
+	 *
+	 * @returns true if the count ended the fall
+	 */
+	updateCountOut(): boolean {
+		const outside = this.match.state.agents.filter((a) => a.legal && a.location === 'floor');
+		const countOut = this.match.state.countOut;
+		if (outside.length === 0) {
+			if (countOut) this.match.state = matchReducer(this.match.state, { type: 'OUTSIDE_COUNT_END' });
+			return false;
+		}
+		if (countOut && this.match.state.tick < countOut.nextCountTick) return false;
+
+		const count = (countOut?.count ?? 0) + 1;
+		this.match.state = matchReducer(this.match.state, {
+			type: 'OUTSIDE_COUNT',
+			count,
+			nextCountTick: this.match.state.tick + COUNT_INTERVAL_TICKS
+		});
+		if (count < COUNT_OUT_LIMIT) return false;
+
+		const ranked = this.match.rankFighters();
+		const loser = [...ranked].reverse().find((a) => a.legal && a.location === 'floor');
+		if (!loser) return false;
+		const opponents = ranked.filter((a) => a.id !== loser.id && !isTeammate(a, loser));
+		const winner = opponents.find((a) => a.location === 'ring') ?? opponents[0];
+		if (!winner) return false;
+		this.match.awardFall(winner.id, loser.id, 'countout');
+		return true;
+	}
+
+	/**
+	 * Whether an AI wrestler rolls out to the floor to regroup on this decision.
+	 * Only when hurt and losing; brawlers would rather stay and fight.
+	 */
+	private wantsRollOut(agent: AgentState, opponent: AgentState): boolean {
+		const healthPct = agent.health / agent.maxHealth;
+		const opponentHealthPct = opponent.health / opponent.maxHealth;
+		if (healthPct >= 0.5 || opponentHealthPct <= healthPct + 0.1) return false;
+		const chance = (0.5 - healthPct) * 0.04 * clamp(1.3 - agent.personality.aggression * 0.6, 0.5, 1.3);
+		return this.rng.chance(clamp(chance, 0, 0.02));
+	}
+
+	/**
+	 * Whether an AI wrestler throws an opponent near the ropes out to the floor.
+	 * A stunned opponent can't fight it; one on their feet usually does.
+	 */
+	private wantsThrowOut(attacker: AgentState, defender: AgentState, defenderStunned: boolean): boolean {
+		if (ropeDistance(defender.positionX, defender.positionZ) > THROW_OUT_ROPE_REACH) return false;
+		const weakness = 1 - defender.health / defender.maxHealth;
+		let chance = 0.04 + attacker.personality.aggression * 0.08 + weakness * 0.06;
+		if (!defenderStunned) chance *= 0.5;
+		return this.rng.chance(clamp(chance, 0, 0.15));
+	}
+
+	/**
+	 * Whether an AI wrestler follows the opponent out to the floor.
+	 * With a count-out rule, a wrestler who is ahead would rather stay in
+	 * and let the referee count.
+	 */
+	private wantsFollow(agent: AgentState, opponent: AgentState, countOut: boolean): boolean {
+		let chance = 0.02 + agent.personality.aggression * 0.05;
+		if (countOut && this.aheadOf(agent, opponent)) chance *= 0.1;
+		return this.rng.chance(clamp(chance, 0, 0.08));
+	}
+
+	/**
+	 * Whether an AI wrestler on the floor heads back into the ring.
+	 *
+	 * @param count - The referee's count (null without a count-out rule)
+	 * @param ticksOutside - How long the wrestler has been on the floor
+	 * @param opponentOutside - The opponent is out on the floor too (still brawling)
+	 */
+	private wantsReEnter(agent: AgentState, count: number | null, ticksOutside: number, opponentOutside: boolean): boolean {
+		const pressure = count !== null ? count / REENTRY_COUNT : ticksOutside / OUTSIDE_TIME_LIMIT_TICKS;
+		if (pressure >= 1) return true;
+		// Fresher wrestlers don't need the rest the floor gives them
+		const healthPct = agent.health / agent.maxHealth;
+		let chance = pressure * pressure * 0.25 * (0.5 + healthPct);
+		if (opponentOutside) chance *= 0.5;
+		return this.rng.chance(clamp(chance, 0, 0.5));
+	}
+
+	/** Damage for hitting the barricade at a given speed. */
+	private slamDamage(impactSpeed: number): number {
+		return BARRICADE_SLAM_BASE_DAMAGE + Math.max(0, impactSpeed - BARRICADE_IMPACT_MIN_SPEED) * BARRICADE_SLAM_DAMAGE_PER_SPEED;
+	}
+
+	/** Healthier than the opponent by a clear margin. */
+	private aheadOf(agent: AgentState, opponent: AgentState): boolean {
+		return agent.health / agent.maxHealth > opponent.health / opponent.maxHealth + 0.15;
+	}
+}
+
+export {
+	COUNT_INTERVAL_TICKS,
+	COUNT_OUT_LIMIT,
+	REENTRY_COUNT,
+	OUTSIDE_TIME_LIMIT_TICKS,
+	ROLL_FRAMES,
+	ROLL_REACH,
+	THROW_OUT_ROPE_REACH,
+	THROW_OUT_STUN_FRAMES,
+	BARRICADE_SLAM_BASE_DAMAGE,
+	BARRICADE_SLAM_DAMAGE_PER_SPEED,
+	THROW_OUT_MOVE
+};
@@ -0,0 +1,287 @@
+import type { AgentState, MatchState, RumbleSummary, RumbleEntrantSummary } from './MatchState';
+import type { MoveDef } from '../../combat/MoveRegistry';
+import { SeededRandom } from '../../utils/random';
+import { clamp } from '../../utils/math';
+import { FighterStateMachine } from './fsm';
+import { ropeDistance, ropePointAlong } from './movement';
+import { matchReducer } from './MatchReducer';
+import { DECISION_INTERVAL, START_POSITION_X, type MatchContext } from './MatchContext';
+
+/**
+ * Most wrestlers allowed in the ring at once. A due entrant waits at the
+ * entrance until someone is eliminated.
+ */
+const RUMBLE_RING_LIMIT = 6;
+
+/**
+ * Shortest gap between entrants (15 seconds).
+ */
+const ENTRY_INTERVAL_MIN_TICKS = 900;
+
+/**
+ * Random extra gap on top of the minimum (up to 15 more seconds).
+ */
+const ENTRY_INTERVAL_SPREAD_TICKS = 900;
+
+/**
+ * How far from the ropes (X units) a wrestler can be thrown over the top.
+ * Throws from further inside only connect as regular grapples.
+ */
+const ROPE_ZONE = 1.2;
+
+/**
+ * Ticks without an elimination (2 minutes) for over-the-top throws to reach
+ * their full STALL_BONUS.
+ */
+const STALL_RAMP_TICKS = 7200;
+
+/**
+ * Extra chance for a connecting over-the-top throw after a long spell
+ * without an elimination.
+ */
+const STALL_BONUS = 0.5;
+
+/**
+ * The throw every Rumble entrant can go for. Not part of the regular move
+ * pool — only the rumble logic starts it.
+ */
+const OVER_THE_TOP_MOVE: MoveDef = {
+	id: 'over_the_top_rope',
+	name: 'Over the Top Rope',
+	category: 'grapple',
+	windupFrames: 20,
+	activeFrames: 10,
+	recoveryFrames: 24,
+	baseDamage: 4,
+	staminaCost: 8,
+	region: 'body',
+	momentumGain: 6,
+	hitbox: { range: 1.3, angle: 90 },
+	canBeReversed: true,
+	reversalWindow: 5
+};
+
+/**
+ * RumbleSystem — entry timing and over-the-top-rope eliminations.
+ *
+ * Entrants arrive every 15–30 seconds (seeded), while the ring has room.
+ *
+ * Eliminations go through OVER_THE_TOP_MOVE:
+ *   - AI wrestlers go for it more when the target is near the ropes and hurt
+ *   - A connecting throw sends the target over depending on rope proximity,
+ *     the thrower's momentum and how long since the last elimination
+ *   - A wrestler sent over can still "skin the cat" — hang on and climb
+ *     back in — with stamina, reversal skill and a light build
+ *
+ * The last one left once everyone has entered wins.
+ */
+export class RumbleSystem {
+	constructor(
+		private readonly rng: SeededRandom,
+		private readonly match: MatchContext
+	) {}
+
+	/** Ticks until the next entrant is due. */
+	rollEntryInterval(): number {
+		return ENTRY_INTERVAL_MIN_TICKS + this.rng.int(0, ENTRY_INTERVAL_SPREAD_TICKS);
+	}
+
+	/**
+	 * Bring in the next entrant once their timer is up and the ring has
+	 * room. Entrants hit the ring from alternating sides.
+	 */
+	updateEntries(): void {
+		const rumble = this.match.state.rumble;
+		if (!rumble || this.match.state.tick < rumble.nextEntryTick) return;
+
+		const next = rumble.entries.find((e) => e.enteredTick === null);
+		if (!next) return;
+		const inRing = this.match.state.agents.filter((a) => a.location === 'ring').length;
+		if (inRing >= rumble.ringLimit) return;
+
+		const side = next.entryNumber % 2 === 1 ? -1 : 1;
+		const x = side * START_POSITION_X;
+		const mover = this.match.movers.get(next.agentId);
+		mover?.reset();
+		mover?.teleport(x);
+		this.match.fsms.set(next.agentId, new FighterStateMachine(next.agentId, x));
+		this.match.decisionTimers.set(next.agentId, 0);
+
+		this.match.state = matchReducer(this.match.state, {
+			type: 'RUMBLE_ENTRY',
+			agentId: next.agentId,
+			positionX: x,
+			nextEntryTick: this.match.state.tick + this.rollEntryInterval()
+		});
+	}
+
+	/**
+	 * Go for an over-the-top-rope throw. AI wrestlers roll for it (more
+	 * likely near the ropes against a hurt target); `forced` skips the roll
+	 * for players. The target can't be lying on the mat.
+	 *
+	 * @returns true if the throw started
+	 */
+	tryEliminationThrow(
+		agent: AgentState,
+		opponent: AgentState,
+		fsm: FighterStateMachine,
+		distance: number,
+		forced = false
+	): boolean {
+		const move = OVER_THE_TOP_MOVE;
+		if (!fsm.canAttack || agent.stamina < move.staminaCost) return false;
+		if (opponent.location !== 'ring' || distance > move.hitbox.range + 0.3) return false;
+		if (this.match.fsms.get(opponent.id)?.stateId === 'KNOCKED_DOWN') return false;
+		if (!forced && !this.wantsElimination(agent, opponent)) return false;
+
+		this.match.state = {
+			...this.match.state,
+			agents: this.match.state.agents.map((a) => {
+				if (a.id !== agent.id) return a;
+				return { ...a, stamina: clamp(a.stamina - move.staminaCost, 0, a.maxStamina) };
+			})
+		};
+		this.match.movers.get(agent.id)?.stopMovement();
+		fsm.pushEvent({
+			type: 'REQUEST_ATTACK',
+			moveId: move.id,
+			windupFrames: move.windupFrames,
+			activeFrames: move.activeFrames,
+			recoveryFrames: move.recoveryFrames
+		});
+		this.match.decisionTimers.set(agent.id, DECISION_INTERVAL);
+		return true;
+	}
+
+	/**
+	 * An over-the-top throw connected: the defender either stays in (not
+	 * close enough to the ropes), skins the cat and climbs back in at the
+	 * ropes, or is eliminated.
+	 */
+	resolveOverTheTop(attackerId: string, defenderId: string): void {
+		const attacker = this.match.state.agents.find((a) => a.id === attackerId);
+		const defender = this.match.state.agents.find((a) => a.id === defenderId);
+		if (!attacker || !defender || defender.location !== 'ring') return;
+		const lastElimination = Math.max(0, ...(this.match.state.rumble?.entries.map((e) => e.eliminatedTick ?? 0) ?? []));
+		if (!this.rollOverTheTop(attacker, defender, this.match.state.tick - lastElimination)) return;
+
+		if (this.rollSkinTheCat(defender)) {
+			// Back in over the top rope, right at the ropes
+			const rope = ropePointAlong(defender.positionX, defender.positionZ, defender.positionX, defender.positionZ);
+			this.match.movers.get(defender.id)?.teleport(rope.x, rope.z);
+			this.match.fsms.get(defender.id)?.setPositionX(rope.x);
+			this.match.state = matchReducer(this.match.state, { type: 'SKIN_THE_CAT', agentId: defender.id, attackerId });
+			return;
+		}
+
+		this.match.retire(defender.id);
+		this.match.state = matchReducer(this.match.state, { type: 'ELIMINATION', agentId: defender.id, eliminatorId: attackerId });
+	}
+
+	/**
+	 * End the Rumble once every entrant is in and one wrestler is left.
+	 * The loser of record is the last wrestler eliminated.
+	 *
+	 * @returns true if the match ended
+	 */
+	checkWinner(): boolean {
+		const rumble = this.match.state.rumble;
+		if (!rumble || rumble.entries.some((e) => e.enteredTick === null)) return false;
+
+		const remaining = this.match.state.agents.filter((a) => a.location === 'ring');
+		if (remaining.length !== 1) return false;
+
+		const loserId = rumble.eliminationOrder[rumble.eliminationOrder.length - 1] ?? remaining[0].id;
+		this.match.endMatch(remaining[0].id, loserId, 'elimination');
+		return true;
+	}
+
+	/**
+	 * Whether an AI wrestler goes for an over-the-top throw on this decision.
+	 */
+	private wantsElimination(attacker: AgentState, defender: AgentState): boolean {
+		const weakness = 1 - defender.health / defender.maxHealth;
+		const chance = 0.02
+			+ ropeProximity(defender.positionX, defender.positionZ) * 0.15
+			+ weakness * 0.2
+			+ attacker.personality.aggression * 0.05;
+		return this.rng.chance(clamp(chance, 0, 0.4));
+	}
+
+	/**
+	 * Whether a connecting throw sends the defender over the top rope.
+	 * Damage already makes a wrestler the one thrown at; it doesn't also make
+	 * the throw land, or the early entrants (hurt the longest) never last.
+	 * The longer nobody has gone over (`quietTicks`), the likelier the next
+	 * throw is to finish the job, so a worn-out final few can't stall the match.
+	 */
+	private rollOverTheTop(attacker: AgentState, defender: AgentState, quietTicks: number): boolean {
+		const proximity = ropeProximity(defender.positionX, defender.positionZ);
+		if (proximity <= 0) return false;
+		const stall = clamp(quietTicks / STALL_RAMP_TICKS, 0, 1) * STALL_BONUS;
+		const chance = proximity * 0.2 + (attacker.momentum / 100) * 0.07 + stall;
+		return this.rng.chance(clamp(chance, 0, 0.9));
+	}
+
+	/**
+	 * Whether a wrestler sent over the top saves themselves ("skin the cat").
+	 */
+	private rollSkinTheCat(defender: AgentState): boolean {
+		const staminaPct = defender.stamina / defender.maxStamina;
+		const buildBonus = defender.build === 'light' ? 0.1 : defender.build === 'heavy' ? -0.05 : 0;
+		const chance = 0.1 + staminaPct * 0.1 + defender.personality.reversalSkill * 0.2 + buildBonus;
+		return this.rng.chance(clamp(chance, 0.05, 0.6));
+	}
+}
+
+/**
+ * How close a position is to the nearest ropes: 0 outside ROPE_ZONE, 1 on the ropes.
+ */
+export function ropeProximity(positionX: number, positionZ: number): number {
+	return clamp((ROPE_ZONE - ropeDistance(positionX, positionZ)) / ROPE_ZONE, 0, 1);
+}
+
+/**
+ * Final standings for a finished (or timed-out) Rumble: per-entrant ring
+ * time and eliminations, the iron man and the top eliminator.
+ */
+export function buildRumbleSummary(state: MatchState): RumbleSummary | undefined {
+	const rumble = state.rumble;
+	if (!rumble) return undefined;
+
+	const toSeconds = (tick: number) => tick / 60;
+	const entrants: RumbleEntrantSummary[] = rumble.entries.map((e) => {
+		const agent = state.agents.find((a) => a.id === e.agentId);
+		const exitTick = e.eliminatedTick ?? state.tick;
+		return {
+			agentId: e.agentId,
+			entryNumber: e.entryNumber,
+			enteredAt: e.enteredTick === null ? null : toSeconds(e.enteredTick),
+			eliminatedAt: e.eliminatedTick === null ? null : toSeconds(e.eliminatedTick),
+			eliminatedBy: e.eliminatedBy,
+			eliminations: agent?.stats.eliminations ?? 0,
+			timeInRing: e.enteredTick === null ? 0 : toSeconds(exitTick - e.enteredTick)
+		};
+	});
+
+	// reduce keeps the first (earliest entrant) on ties
+	const ironMan = entrants.reduce((best, e) => (e.timeInRing > best.timeInRing ? e : best));
+	const topEliminator = entrants.reduce((best, e) => (e.eliminations > best.eliminations ? e : best));
+
+	return {
+		entrants,
+		eliminationOrder: [...rumble.eliminationOrder],
+		ironManId: ironMan.agentId,
+		mostEliminationsId: topEliminator.agentId,
+		timeline: [...rumble.timeline]
+	};
+}
+
+export {
+	RUMBLE_RING_LIMIT,
+	ENTRY_INTERVAL_MIN_TICKS,
+	ENTRY_INTERVAL_SPREAD_TICKS,
+	ROPE_ZONE,
+	OVER_THE_TOP_MOVE
+};
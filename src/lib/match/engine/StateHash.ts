@@ -0,0 +1,97 @@
+import type { MatchState } from './MatchState';
+
+/** FNV-1a 32-bit offset basis and prime. */
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/** Type tags mixed in before each value, so e.g. 1 and '1' hash differently. */
+const TAG_NULL = 1;
+const TAG_FALSE = 2;
+const TAG_TRUE = 3;
+const TAG_NUMBER = 4;
+const TAG_STRING = 5;
+const TAG_ARRAY = 6;
+const TAG_OBJECT = 7;
+
+// Numbers are hashed by their exact bit pattern
+const float64 = new Float64Array(1);
+const float64Words = new Uint32Array(float64.buffer);
+
+/**
+ * Hash of everything in a MatchState that the simulation decides.
+ *
+ * Two runs with the same seed and inputs must produce the same hash after
+ * every tick — any difference is a desync. Object keys are visited in
+ * sorted order and numbers by their exact bits, so the hash only depends
+ * on values, not on how the state objects were built.
+ *
+ * The log only grows, so just its length and this tick's new entries are
+ * hashed (hashing the whole log every tick would be quadratic).
+ */
+export function hashMatchState(state: MatchState): number {
+	let h = FNV_OFFSET;
+	for (const key of Object.keys(state).sort()) {
+		if (key === 'log') continue;
+		h = hashString(h, key);
+		h = hashValue(h, state[key as keyof MatchState]);
+	}
+	h = hashNumber(h, state.log.length);
+	for (let i = state.log.length - 1; i >= 0 && state.log[i].tick === state.tick; i--) {
+		h = hashValue(h, state.log[i]);
+	}
+	return h >>> 0;
+}
+
+function hashValue(h: number, value: unknown): number {
+	if (value === null || value === undefined) return mix(h, TAG_NULL);
+	switch (typeof value) {
+		case 'boolean':
+			return mix(h, value ? TAG_TRUE : TAG_FALSE);
+		case 'number':
+			return hashNumber(mix(h, TAG_NUMBER), value);
+		case 'string':
+			return hashString(mix(h, TAG_STRING), value);
+		case 'object': {
+			if (Array.isArray(value)) {
+				h = hashNumber(mix(h, TAG_ARRAY), value.length);
+				for (const item of value) h = hashValue(h, item);
+				return h;
+			}
+			const record = value as Record<string, unknown>;
+			h = mix(h, TAG_OBJECT);
+			for (const key of Object.keys(record).sort()) {
+				// Absent and undefined fields are the same state
+				if (record[key] === undefined) continue;
+				h = hashString(h, key);
+				h = hashValue(h, record[key]);
+			}
+			return h;
+		}
+		default:
+			throw new Error(`hashMatchState: can't hash a ${typeof value}`);
+	}
+}
+
+function hashNumber(h: number, n: number): number {
+	float64[0] = n;
+	h = mixWord(h, float64Words[0]);
+	return mixWord(h, float64Words[1]);
+}
+
+function hashString(h: number, s: string): number {
+	h = mixWord(h, s.length);
+	for (let i = 0; i < s.length; i++) h = mix(h, s.charCodeAt(i));
+	return h;
+}
+
+/** Fold a 32-bit word in, one byte at a time. */
+function mixWord(h: number, word: number): number {
+	h = mix(h, word & 0xff);
+	h = mix(h, (word >>> 8) & 0xff);
+	h = mix(h, (word >>> 16) & 0xff);
+	return mix(h, word >>> 24);
+}
+
+function mix(h: number, byte: number): number {
+	return Math.imul(h ^ byte, FNV_PRIME);
+}
@@ -0,0 +1,218 @@
+import type { AgentState } from './MatchState';
+import type { AgentAction, DecisionContext, FighterBrain } from './Agent';
+import type { EffectiveModifiers } from './TraitFormulas';
+import type { MoveDef } from '../../combat/MoveRegistry';
+import type { Strategy, ActionResult } from '../../ai/Strategy';
+import type { AgentObservation } from '../../components/agent/AgentObservation';
+import type { PersonalityWeights } from '../../ai/personality/PersonalityProfile';
+import { SeededRandom } from '../../utils/random';
+import { buildObservationVector, OBSERVATION_LABELS } from '../../ai/rl/ObservationSpace';
+import { BehaviorTreeStrategy } from '../../ai/strategies/BehaviorTreeStrategy';
+import { UtilityAIStrategy } from '../../ai/strategies/UtilityAIStrategy';
+import { RLStrategy } from '../../ai/strategies/RLStrategy';
+import { HybridStrategy } from '../../ai/strategies/HybridStrategy';
+import { PIN_RANGE } from './PinSystem';
+import { WHIP_RANGE, canAfford, inMoveReach, movesForAction } from './ActionLegality';
+
+// ─── Strategy IDs ───────────────────────────────────────────────────
+
+/**
+ * Strategy ids that can be constructed from a string in a WrestlerInput.
+ * 'agent' selects the engine's built-in Agent brain (the default).
+ * ScriptedStrategy needs an explicit sequence, so pass it as an instance.
+ */
+export type StrategyId = 'agent' | 'behavior_tree' | 'utility_ai' | 'rl' | 'hybrid';
+
+/** All string-constructible strategy ids, in display order. */
+export const STRATEGY_IDS: readonly StrategyId[] = [
+	'agent',
+	'behavior_tree',
+	'utility_ai',
+	'rl',
+	'hybrid'
+];
+
+/**
+ * Build a Strategy instance from its id.
+ * Personality weights bias the utility-based strategies toward the wrestler's style.
+ * Returns null for 'agent' (the built-in brain is not a Strategy) and for unknown ids.
+ */
+export function createStrategy(id: string, personality?: PersonalityWeights): Strategy | null {
+	switch (id) {
+		case 'behavior_tree':
+			return new BehaviorTreeStrategy();
+		case 'utility_ai':
+			return new UtilityAIStrategy(personality);
+		case 'rl':
+			return new RLStrategy();
+		case 'hybrid':
+			return new HybridStrategy(personality);
+		default:
+			return null;
+	}
+}
+
+// ─── Action Mapping ─────────────────────────────────────────────────
+
+/**
+ * Map an engine AgentPhase to the coarse combat phase the observation space encodes.
+ */
+function toCombatPhase(phase: AgentState['phase']): string {
+	switch (phase) {
+		case 'windup':
+		case 'active':
+		case 'recovery':
+		case 'stun':
+			return phase;
+		case 'knockdown':
+		case 'getting_up':
+		case 'pinned':
+		case 'submission_locked':
+			return 'grounded';
+		default:
+			return 'idle';
+	}
+}
+
+function isGrapplePhase(phase: AgentState['phase']): boolean {
+	return phase === 'lock_up' || phase === 'grapple_control' || phase === 'grappled';
+}
+
+/**
+ * Build the normalized observation the Strategy interface expects from an
+ * engine fighter and its opponent (also the observation MatchEnv returns).
+ *
+ * @param crowdPop - How loud the crowd is (0-100, MatchState.crowd.pop)
+ */
+export function observeAgent(
+	self: AgentState,
+	opponent: AgentState,
+	distance: number,
+	crowdPop?: number
+): AgentObservation {
+	const vector = buildObservationVector({
+		selfHealth: self.health,
+		selfHealthMax: self.maxHealth,
+		selfStamina: self.stamina,
+		selfStaminaMax: self.maxStamina,
+		selfMomentum: self.momentum,
+		selfMomentumMax: 100,
+		selfPositionX: self.positionX,
+		selfBlocking: self.phase === 'blocking',
+		selfInGrapple: isGrapplePhase(self.phase),
+		selfCombatPhase: toCombatPhase(self.phase),
+		selfHeadDamage: self.regionDamage.head,
+		selfBodyDamage: self.regionDamage.body,
+		selfLegsDamage: self.regionDamage.legs,
+
+		opponentHealth: opponent.health,
+		opponentHealthMax: opponent.maxHealth,
+		opponentStamina: opponent.stamina,
+		opponentStaminaMax: opponent.maxStamina,
+		opponentMomentum: opponent.momentum,
+		opponentMomentumMax: 100,
+		opponentPositionX: opponent.positionX,
+		opponentBlocking: opponent.phase === 'blocking',
+		opponentInGrapple: isGrapplePhase(opponent.phase),
+		opponentCombatPhase: toCombatPhase(opponent.phase),
+		opponentHeadDamage: opponent.regionDamage.head,
+		opponentBodyDamage: opponent.regionDamage.body,
+		opponentLegsDamage: opponent.regionDamage.legs,
+
+		distanceToOpponent: distance,
+		crowdPop,
+		crowdHeat: self.psych.crowdHeat * 100,
+		comebackEligible: self.comebackActive
+	});
+
+	return { _type: 'AgentObservation', vector, labels: OBSERVATION_LABELS };
+}
+
+// ─── Strategy Adapter ───────────────────────────────────────────────
+
+/**
+ * StrategyAdapter — lets any ECS-side Strategy drive a MatchLoop fighter.
+ *
+ * Each decision:
+ *   1. Builds an AgentObservation from the engine's AgentState pair
+ *   2. Asks the wrapped Strategy for a discrete ActionResult
+ *   3. Maps that action onto an AgentAction the MatchLoop already knows
+ *      how to turn into FSM events (REQUEST_ATTACK / REQUEST_MOVE / ...)
+ *
+ * Strategies reason in abstract actions ("heavy_strike"), so the adapter
+ * resolves them into a concrete, affordable, in-range move. If the chosen
+ * kind of move exists but nothing is in range (or the ring position it needs
+ * isn't set up), the fighter closes distance.
+ * The observation carries the match loop's action mask (ActionLegality),
+ * so strategies can leave out actions the engine would refuse.
+ *
+ * All randomness flows through the match's SeededRandom — deterministic.
+ */
+export class StrategyAdapter implements FighterBrain {
+	/** Last raw decision from the strategy — exposed for debugging/overlays. */
+	lastResult: ActionResult | null = null;
+
+	constructor(
+		readonly strategy: Strategy,
+		private readonly rng: SeededRandom,
+		private readonly availableMoves: MoveDef[]
+	) {}
+
+	/**
+	 * Choose an action for this tick by delegating to the wrapped strategy.
+	 * Psychology modifiers are not consumed here — strategies see the
+	 * resulting emotion indirectly through crowd heat and momentum.
+	 */
+	decide(
+		self: AgentState,
+		opponent: AgentState,
+		ctx: DecisionContext,
+		_mods?: EffectiveModifiers
+	): AgentAction {
+		const observation = observeAgent(self, opponent, ctx.distance, ctx.crowdPop);
+		if (ctx.legality) observation.actionMask = ctx.legality.mask;
+		const result = this.strategy.decide(observation, this.rng);
+		this.lastResult = result;
+		return this.toAgentAction(result.action, self, opponent, ctx);
+	}
+
+	/**
+	 * Translate a discrete strategy action into an engine AgentAction.
+	 */
+	private toAgentAction(
+		action: string,
+		self: AgentState,
+		opponent: AgentState,
+		ctx: DecisionContext
+	): AgentAction {
+		switch (action) {
+			case 'block':
+			case 'dodge':
+				return { type: 'block' };
+			case 'taunt':
+				return { type: 'taunt' };
+			case 'run_ropes':
+				return { type: 'run_ropes' };
+			case 'irish_whip':
+				return ctx.distance > WHIP_RANGE ? { type: 'move' } : { type: 'whip' };
+			case 'idle':
+				return { type: 'idle' };
+			case 'pin_attempt':
+				// Only a downed opponent can be covered
+				if (opponent.phase !== 'knockdown' && opponent.phase !== 'getting_up') return { type: 'idle' };
+				return ctx.distance > PIN_RANGE ? { type: 'move' } : { type: 'pin' };
+		}
+
+		const candidates = movesForAction(action, this.availableMoves).filter((m) => canAfford(m, self));
+		if (candidates.length === 0) return { type: 'idle' };
+
+		const inRange = candidates.filter((m) => inMoveReach(m, self, opponent, ctx.distance));
+		if (inRange.length === 0) return { type: 'move' };
+
+		// In range but refused right now (attack cooldown, no lock-up possible) — wait
+		const legal = ctx.legality ? inRange.filter((m) => ctx.legality!.moveIds.has(m.id)) : inRange;
+		if (legal.length === 0) return { type: 'idle' };
+
+		return { type: 'attack', moveId: this.rng.pick(legal).id };
+	}
+}
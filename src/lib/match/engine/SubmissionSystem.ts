@@ -0,0 +1,213 @@
+import type { AgentState, HoldState } from './MatchState';
+import type { MoveDef } from '../../combat/MoveRegistry';
+import type { EffectiveModifiers } from './TraitFormulas';
+import { SeededRandom } from '../../utils/random';
+import { clamp } from '../../utils/math';
+import { RING_HALF_X, ropeDistance } from './movement';
+
+/**
+ * Safety cap on a submission hold (15 seconds). The hold is released as an escape.
+ */
+const SUBMISSION_MAX_FRAMES = 900;
+
+/**
+ * Safety cap on the SUBMISSION_HOLD/SUBMISSION_LOCKED FSM timers.
+ * FSM timers advance on both FSM passes of a match tick, so this
+ * outlasts SUBMISSION_MAX_FRAMES.
+ */
+const SUBMISSION_SAFETY_FRAMES = SUBMISSION_MAX_FRAMES * 2 + 60;
+
+/**
+ * Ticks between tap-out checks (two per second).
+ */
+const TAP_CHECK_INTERVAL = 30;
+
+/**
+ * Health ratio above which a fighter never considers tapping.
+ */
+const TAP_HEALTH_THRESHOLD = 0.5;
+
+/**
+ * Fraction of the move's base damage dealt per tick while the hold is applied.
+ */
+const HOLD_DAMAGE_PER_TICK = 0.008;
+
+/**
+ * Stamina drained from the held fighter per tick (~15 per second).
+ */
+const HOLD_STAMINA_DRAIN = 0.25;
+
+/**
+ * Base crawl rate toward the ropes per tick.
+ */
+const ROPE_CRAWL_BASE_RATE = 0.003;
+
+/**
+ * Base rate of fighting out of the hold per tick.
+ */
+const ESCAPE_BASE_RATE = 0.0025;
+
+/**
+ * Base chance a holder ignores a rope break and is disqualified.
+ */
+const REFUSE_BREAK_BASE_CHANCE = 0.01;
+
+/** Outcome of one tick of a submission hold. */
+export type SubmissionOutcome = 'tap' | 'rope_break' | 'escape';
+
+/** Result of advancing a submission hold by one tick. */
+export interface SubmissionTickResult {
+	damage: number;
+	staminaDrain: number;
+	ropeProgress: number;
+	escapeProgress: number;
+	/** Null while the hold continues. */
+	outcome: SubmissionOutcome | null;
+}
+
+/**
+ * SubmissionSystem — models a submission hold from lock-in to resolution.
+ *
+ * While a hold is applied, each tick:
+ *   - The held fighter takes chip damage (scaled by the move and prior region damage)
+ *     and loses stamina
+ *   - They crawl toward the nearest ropes (faster with stamina and fighting spirit)
+ *   - They try to fight out of the hold (stamina, health, reversal skill)
+ *
+ * The hold resolves when:
+ *   - The held fighter reaches the ropes → rope break (clean release)
+ *   - The escape meter fills → escape (holder is left stunned)
+ *   - A tap-out check succeeds (below 50% health, every half second) → submission win
+ *   - The hold would deal the final point of damage → submission win
+ *
+ * Holds applied near the ropes start with crawl progress, so
+ * smart wrestlers apply submissions in the middle of the ring.
+ * In matches without rope breaks (ropeBreaks = false) the ropes
+ * offer no escape and the crawl meter stays at 0.
+ */
+export class SubmissionSystem {
+	constructor(
+		private readonly rng: SeededRandom,
+		private readonly ropeBreaks: boolean = true
+	) {}
+
+	/**
+	 * Initial crawl progress for a hold applied at the given position.
+	 * 0 in the centre of the ring, up to 0.6 right next to the ropes.
+	 */
+	initialRopeProgress(positionX: number, positionZ: number): number {
+		if (!this.ropeBreaks) return 0;
+		return clamp(1 - ropeDistance(positionX, positionZ) / RING_HALF_X, 0, 1) * 0.6;
+	}
+
+	/**
+	 * Advance a submission hold by one tick.
+	 *
+	 * @param hold - The hold in progress
+	 * @param elapsed - Ticks since the hold was applied
+	 */
+	update(
+		hold: HoldState,
+		elapsed: number,
+		attacker: AgentState,
+		defender: AgentState,
+		move: MoveDef,
+		attackerMods?: EffectiveModifiers,
+		defenderMods?: EffectiveModifiers
+	): SubmissionTickResult {
+		const healthPct = defender.health / defender.maxHealth;
+		const staminaPct = defender.stamina / defender.maxStamina;
+		const regionDamage = defender.regionDamage[move.region as keyof typeof defender.regionDamage] ?? 0;
+		const emotion = defender.psych.emotion;
+
+		// ── Damage and stamina drain ──
+		const damageMul = attackerMods ? attackerMods.damage : 1.0;
+		const damage = move.baseDamage * HOLD_DAMAGE_PER_TICK * damageMul * (1 + regionDamage / 200);
+		const staminaDrain = HOLD_STAMINA_DRAIN;
+
+		// ── Fighting spirit: clutch/desperate fighters crawl and struggle harder ──
+		let spirit = 1.0;
+		if (emotion === 'clutch') spirit = 1.3;
+		else if (emotion === 'desperate') spirit = 1.2;
+		else if (emotion === 'panicking') spirit = 0.8;
+		if (defender.comebackActive) spirit *= 1.3;
+
+		// ── Crawl toward the ropes ──
+		const crawl = ROPE_CRAWL_BASE_RATE
+			* (0.4 + staminaPct)
+			* (0.6 + healthPct * 0.6)
+			* spirit;
+		const ropeProgress = this.ropeBreaks ? clamp(hold.ropeProgress + crawl, 0, 1) : 0;
+
+		// ── Fight out of the hold ──
+		const reversalMul = defenderMods ? defenderMods.reversal : 1.0;
+		const escape = ESCAPE_BASE_RATE
+			* (0.3 + staminaPct)
+			* (0.3 + healthPct)
+			* (0.5 + defender.personality.reversalSkill)
+			* reversalMul
+			* spirit;
+		const escapeProgress = clamp(hold.escapeProgress + escape, 0, 1);
+
+		const result: SubmissionTickResult = { damage, staminaDrain, ropeProgress, escapeProgress, outcome: null };
+
+		// ── Resolution (most decisive first) ──
+		if (defender.health - damage <= 0) {
+			result.outcome = 'tap';
+		} else if (ropeProgress >= 1) {
+			result.outcome = 'rope_break';
+		} else if (escapeProgress >= 1 || elapsed >= SUBMISSION_MAX_FRAMES) {
+			result.outcome = 'escape';
+		} else if (elapsed > 0 && elapsed % TAP_CHECK_INTERVAL === 0 && healthPct < TAP_HEALTH_THRESHOLD) {
+			if (this.rng.chance(this.tapChance(defender, attacker, healthPct, staminaPct, regionDamage))) {
+				result.outcome = 'tap';
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Roll whether the holder ignores a rope break past the referee's five count.
+	 * Frustrated and desperate fighters lose their heads; aggression makes it worse.
+	 */
+	rollRefuseBreak(attacker: AgentState): boolean {
+		let chance = REFUSE_BREAK_BASE_CHANCE;
+		switch (attacker.psych.emotion) {
+			case 'frustrated': chance += 0.08; break;
+			case 'desperate': chance += 0.05; break;
+			case 'overconfident': chance += 0.03; break;
+		}
+		chance *= 0.5 + attacker.personality.aggression;
+		return this.rng.chance(chance);
+	}
+
+	/**
+	 * Chance of tapping out at one check.
+	 * Rises with missing health, a worked-over body part and exhaustion;
+	 * clutch and desperate fighters refuse to quit, panicking ones give up sooner.
+	 */
+	private tapChance(
+		defender: AgentState,
+		attacker: AgentState,
+		healthPct: number,
+		staminaPct: number,
+		regionDamage: number
+	): number {
+		let chance = (TAP_HEALTH_THRESHOLD - healthPct) * 0.35
+			+ (regionDamage / 100) * 0.1
+			+ (staminaPct < 0.15 ? 0.05 : 0)
+			+ (attacker.momentum / 100) * 0.03;
+
+		switch (defender.psych.emotion) {
+			case 'clutch': chance *= 0.4; break;
+			case 'desperate': chance *= 0.7; break;
+			case 'panicking': chance *= 1.5; break;
+		}
+		if (defender.comebackActive) chance *= 0.5;
+
+		return clamp(chance, 0, 0.5);
+	}
+}
+
+export { SUBMISSION_MAX_FRAMES, SUBMISSION_SAFETY_FRAMES };
@@ -0,0 +1,412 @@
+import type { AgentState } from './MatchState';
+import type { MoveDef } from '../../combat/MoveRegistry';
+import type { FighterStateMachine } from './fsm';
+import { SeededRandom } from '../../utils/random';
+import { clamp } from '../../utils/math';
+import { RING_HALF_X, ringDistance } from './movement';
+import { isTeammate } from './TargetingSystem';
+import { matchReducer } from './MatchReducer';
+import { DECISION_INTERVAL, MOVE_DECISION_INTERVAL, type MatchContext } from './MatchContext';
+
+/**
+ * How close (X units) the legal wrestler must be to their own corner post
+ * to reach the partner's outstretched hand.
+ */
+const TAG_REACH = 0.5;
+
+/**
+ * How far outside the ropes apron partners stand.
+ */
+const APRON_OFFSET = 0.5;
+
+/** How far inside the corner post a tagged-in (or saving) partner enters the ring. */
+const RING_ENTRY_INSET = 0.3;
+
+/**
+ * Ticks a freshly tagged-in wrestler fights before considering tagging out (5 seconds).
+ */
+const TAG_COOLDOWN_TICKS = 300;
+
+/**
+ * The referee's five count: after a tag both wrestlers stay legal this long,
+ * which is the window for double-team moves.
+ */
+const DOUBLE_TEAM_WINDOW_TICKS = 300;
+
+/**
+ * Both partners must be this close to the opponent to hit a double-team move.
+ */
+const DOUBLE_TEAM_RANGE = 1.6;
+
+/**
+ * Base chance per decision that a team with both members legal goes for a
+ * double-team move (before momentum).
+ */
+const DOUBLE_TEAM_BASE_CHANCE = 0.2;
+
+/**
+ * Moves two partners hit together. Each partner resolves the move against the
+ * same opponent, so damage and frame data are per wrestler. These are not part
+ * of the regular move pool — only the tag team logic can start them.
+ */
+const DOUBLE_TEAM_MOVES: readonly MoveDef[] = [
+	{
+		id: 'double_suplex',
+		name: 'Double Suplex',
+		category: 'grapple',
+		windupFrames: 24,
+		activeFrames: 12,
+		recoveryFrames: 30,
+		baseDamage: 10,
+		staminaCost: 6,
+		region: 'body',
+		momentumGain: 8,
+		hitbox: { range: DOUBLE_TEAM_RANGE, angle: 90 },
+		canBeReversed: false,
+		reversalWindow: 0
+	},
+	{
+		id: 'double_clothesline',
+		name: 'Double Clothesline',
+		category: 'strike',
+		windupFrames: 18,
+		activeFrames: 9,
+		recoveryFrames: 24,
+		baseDamage: 8,
+		staminaCost: 5,
+		region: 'head',
+		momentumGain: 7,
+		hitbox: { range: DOUBLE_TEAM_RANGE, angle: 90 },
+		canBeReversed: false,
+		reversalWindow: 0
+	},
+	{
+		id: 'double_flapjack',
+		name: 'Double Flapjack',
+		category: 'grapple',
+		windupFrames: 24,
+		activeFrames: 12,
+		recoveryFrames: 30,
+		baseDamage: 11,
+		staminaCost: 7,
+		region: 'body',
+		momentumGain: 9,
+		hitbox: { range: DOUBLE_TEAM_RANGE, angle: 90 },
+		canBeReversed: false,
+		reversalWindow: 0
+	}
+];
+
+/**
+ * TagTeamSystem — when to tag out and when to double-team.
+ *
+ * Tagging out is personality-driven: each wrestler has a stamina and a
+ * health threshold below which they look for their corner.
+ *   - Aggressive wrestlers run on empty longer (lower stamina threshold)
+ *   - Risk-takers fight through damage (lower health threshold)
+ * A tag is only worth it if the partner is clearly fresher.
+ *
+ * Double-team moves fire during the five-count window after a tag, while
+ * both partners are legal; the chance grows with the team's momentum.
+ *
+ * Tags, saves from the apron and illegal men heading back to their corner
+ * all run through the MatchContext; legality itself lives in MatchState.
+ */
+export class TagTeamSystem {
+	/** Side of the ring each team's corner is on (-1 = left, +1 = right). */
+	private readonly teamSides: Map<string, number> = new Map();
+
+	/** Legal wrestlers heading to their corner to tag out. */
+	private readonly tagIntents: Set<string> = new Set();
+
+	/** Tick each wrestler last became legal (tag cooldown). */
+	private readonly legalSinceTick: Map<string, number> = new Map();
+
+	/** Wrestlers just tagged out, still legal until the tick their five count ends. */
+	private readonly stepOutTick: Map<string, number> = new Map();
+
+	constructor(
+		private readonly rng: SeededRandom,
+		private readonly match: MatchContext
+	) {}
+
+	/** Set the teams' corners; whoever starts legal starts the tag cooldown now. */
+	start(teamSides: Map<string, number>): void {
+		for (const [teamId, side] of teamSides) this.teamSides.set(teamId, side);
+		for (const agent of this.match.state.agents) {
+			if (agent.legal) this.legalSinceTick.set(agent.id, 0);
+		}
+	}
+
+	/** Whether a legal wrestler is on the way to their corner to tag out. */
+	isHeadingToTag(agentId: string): boolean {
+		return this.tagIntents.has(agentId);
+	}
+
+	/**
+	 * Per-tick tag bookkeeping: wrestlers who tagged out become illegal when
+	 * the referee's five count runs out (never in the middle of a hold), and
+	 * tag intents are dropped once there is nobody left on the apron.
+	 */
+	update(): void {
+		for (const [agentId, tick] of this.stepOutTick) {
+			if (this.match.state.tick < tick || this.match.isInHold(agentId)) continue;
+			this.stepOutTick.delete(agentId);
+			this.tagIntents.delete(agentId);
+			this.match.state = matchReducer(this.match.state, { type: 'STEP_OUT', agentId });
+		}
+		for (const agentId of this.tagIntents) {
+			const agent = this.match.state.agents.find((a) => a.id === agentId);
+			if (!agent || !this.apronPartner(agent)) this.tagIntents.delete(agentId);
+		}
+	}
+
+	/**
+	 * Decision for a wrestler who isn't legal: an apron partner steps through
+	 * the ropes when a save is needed, and an illegal man in the ring goes
+	 * after the holder. Otherwise they stay out of the action.
+	 */
+	runPartnerDecision(agent: AgentState, opponent: AgentState, distance: number): void {
+		const fsm = this.match.fsms.get(agent.id);
+		if (!fsm || !this.match.canSave(agent)) return;
+		if (this.match.state.tick < this.match.saveReadyTick(agent)) return;
+
+		if (agent.location === 'apron') {
+			this.enterRing(agent);
+			return;
+		}
+
+		if (!fsm.acceptsInput) return;
+		if (!this.match.tryBreakUpHold(agent, distance)) {
+			const mover = this.match.movers.get(agent.id);
+			mover?.moveTowardOpponent(opponent.positionX, opponent.positionZ);
+			fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: opponent.positionX });
+		}
+	}
+
+	/**
+	 * AI tag-out: once the legal wrestler is spent (TagTeamSystem thresholds)
+	 * and has been in for TAG_COOLDOWN_TICKS, they commit to reaching their
+	 * corner and tag as soon as they get there. Movement toward the corner
+	 * is driven from runMovementPhase.
+	 *
+	 * @returns true if the wrestler is busy tagging (skip the normal decision)
+	 */
+	tryTagOut(agent: AgentState, fsm: FighterStateMachine): boolean {
+		const partner = this.apronPartner(agent);
+		if (!partner || this.match.state.hold) return false;
+
+		if (!this.tagIntents.has(agent.id)) {
+			const since = this.legalSinceTick.get(agent.id) ?? 0;
+			if (this.match.state.tick - since < TAG_COOLDOWN_TICKS) return false;
+			if (!this.wantsTag(agent, partner)) return false;
+			this.tagIntents.add(agent.id);
+		}
+
+		this.match.decisionTimers.set(agent.id, MOVE_DECISION_INTERVAL);
+		if (this.inTagReach(agent)) {
+			this.performTag(agent, partner);
+		} else {
+			const corner = this.cornerPostX(agent);
+			this.match.movers.get(agent.id)?.moveToward(corner, 0);
+			fsm.pushEvent({ type: 'REQUEST_MOVE', targetX: corner });
+		}
+		return true;
+	}
+
+	/** Player-requested tag: connects only if the partner's hand is in reach. */
+	tryManualTag(agent: AgentState): void {
+		const partner = this.apronPartner(agent);
+		if (partner && !this.match.state.hold && this.inTagReach(agent)) {
+			this.performTag(agent, partner);
+		}
+	}
+
+	/**
+	 * Tag the partner in. The partner enters at the corner as the new legal
+	 * wrestler; the one tagging out stays legal for the five count
+	 * (DOUBLE_TEAM_WINDOW_TICKS) and then has to leave.
+	 */
+	private performTag(agent: AgentState, partner: AgentState): void {
+		const x = this.cornerPostX(agent) - this.teamSide(agent) * RING_ENTRY_INSET;
+		this.match.movers.get(agent.id)?.stopMovement();
+		this.match.movers.get(partner.id)?.teleport(x);
+		this.match.fsms.get(partner.id)?.setPositionX(x);
+
+		this.match.state = matchReducer(this.match.state, { type: 'TAG', fromId: agent.id, toId: partner.id, positionX: x });
+
+		this.tagIntents.delete(agent.id);
+		this.legalSinceTick.set(partner.id, this.match.state.tick);
+		this.stepOutTick.set(agent.id, this.match.state.tick + DOUBLE_TEAM_WINDOW_TICKS);
+		this.match.decisionTimers.set(partner.id, 0);
+	}
+
+	/**
+	 * Hit a double-team move: both partners are legal (the five count after
+	 * a tag), free to act and in range of the same opponent. Each partner
+	 * performs the move, so it lands (or gets blocked) twice. Only one per
+	 * tag: the wrestler tagging out leaves right after.
+	 *
+	 * @returns true if the double-team move started
+	 */
+	tryDoubleTeam(agent: AgentState, opponent: AgentState, fsm: FighterStateMachine): boolean {
+		const partner = this.match.state.agents.find(
+			(a) => a.id !== agent.id && isTeammate(a, agent) && a.legal && a.location === 'ring'
+		);
+		if (!partner || !opponent.legal || isTeammate(opponent, agent)) return false;
+
+		const partnerFSM = this.match.fsms.get(partner.id);
+		const opponentFSM = this.match.fsms.get(opponent.id);
+		if (!partnerFSM || !opponentFSM) return false;
+		if (!fsm.canAttack || !partnerFSM.canAttack || !partnerFSM.acceptsInput) return false;
+		if (opponentFSM.stateId === 'KNOCKED_DOWN' || opponentFSM.stateId === 'GETTING_UP') return false;
+		if (opponentFSM.isFinisherLocked || opponentFSM.inFinisher) return false;
+
+		for (const a of [agent, partner]) {
+			if (ringDistance(a, opponent) > DOUBLE_TEAM_RANGE) return false;
+		}
+		if (!this.rollDoubleTeam(agent, partner)) return false;
+
+		const move = this.pickDoubleTeamMove();
+		if (agent.stamina < move.staminaCost || partner.stamina < move.staminaCost) return false;
+
+		if (partner.targetId !== opponent.id) {
+			this.match.state = matchReducer(this.match.state, { type: 'TARGET_CHANGE', agentId: partner.id, targetId: opponent.id });
+		}
+
+		for (const [attacker, attackerFSM] of [[agent, fsm], [partner, partnerFSM]] as const) {
+			this.match.state = {
+				...this.match.state,
+				agents: this.match.state.agents.map((a) => {
+					if (a.id !== attacker.id) return a;
+					return { ...a, stamina: clamp(a.stamina - move.staminaCost, 0, a.maxStamina) };
+				})
+			};
+			this.match.movers.get(attacker.id)?.stopMovement();
+			attackerFSM.pushEvent({
+				type: 'REQUEST_ATTACK',
+				moveId: move.id,
+				windupFrames: move.windupFrames,
+				activeFrames: move.activeFrames,
+				recoveryFrames: move.recoveryFrames
+			});
+			this.match.decisionTimers.set(attacker.id, DECISION_INTERVAL);
+		}
+
+		this.match.state = matchReducer(this.match.state, {
+			type: 'DOUBLE_TEAM',
+			attackerIds: [agent.id, partner.id],
+			defenderId: opponent.id,
+			moveId: move.id,
+			moveName: move.name
+		});
+
+		// One double-team per tag: whoever is on their way out leaves after it
+		for (const id of [agent.id, partner.id]) {
+			if (this.stepOutTick.has(id)) this.stepOutTick.set(id, this.match.state.tick);
+		}
+		return true;
+	}
+
+	/** Apron partner step through the ropes at their corner (to make a save). */
+	private enterRing(agent: AgentState): void {
+		const x = this.cornerPostX(agent) - this.teamSide(agent) * RING_ENTRY_INSET;
+		this.match.movers.get(agent.id)?.teleport(x);
+		this.match.fsms.get(agent.id)?.setPositionX(x);
+		this.match.state = matchReducer(this.match.state, { type: 'LOCATION_CHANGE', agentId: agent.id, location: 'ring', positionX: x });
+	}
+
+	/** An illegal wrestler back in their corner climbs out onto the apron. */
+	moveToApron(agent: AgentState): void {
+		const x = apronX(this.teamSide(agent), RING_HALF_X);
+		const mover = this.match.movers.get(agent.id);
+		mover?.stopMovement();
+		mover?.teleport(x);
+		this.match.fsms.get(agent.id)?.setPositionX(x);
+		this.match.clearRingPlans(agent.id);
+		this.match.state = matchReducer(this.match.state, { type: 'LOCATION_CHANGE', agentId: agent.id, location: 'apron', positionX: x });
+	}
+
+	/** The agent's tag partner waiting on the apron, if any. */
+	private apronPartner(agent: AgentState): AgentState | undefined {
+		return this.match.state.agents.find((a) => isTeammate(a, agent) && a.location === 'apron');
+	}
+
+	/** Whether the agent is close enough to their corner to make a tag. */
+	private inTagReach(agent: AgentState): boolean {
+		return Math.hypot(agent.positionX - this.cornerPostX(agent), agent.positionZ) <= TAG_REACH;
+	}
+
+	/** Side of the ring the agent's team corner is on (-1 = left, +1 = right). */
+	private teamSide(agent: AgentState): number {
+		return (agent.teamId && this.teamSides.get(agent.teamId)) || -1;
+	}
+
+	/** X position of the agent's own corner post. */
+	cornerPostX(agent: AgentState): number {
+		return cornerX(this.teamSide(agent), RING_HALF_X);
+	}
+
+	/**
+	 * Stamina and health fractions below which a wrestler wants to tag out.
+	 */
+	private tagThresholds(agent: AgentState): { stamina: number; health: number } {
+		const p = agent.personality;
+		return {
+			stamina: 0.2 + (1 - p.aggression) * 0.25,
+			health: 0.25 + (1 - p.riskTolerance) * 0.25
+		};
+	}
+
+	/**
+	 * Whether the legal wrestler should head to the corner and tag their partner.
+	 */
+	private wantsTag(agent: AgentState, partner: AgentState): boolean {
+		const healthPct = agent.health / agent.maxHealth;
+		const staminaPct = agent.stamina / agent.maxStamina;
+		const thresholds = this.tagThresholds(agent);
+
+		const spent = healthPct < thresholds.health || staminaPct < thresholds.stamina;
+		if (!spent) return false;
+
+		const partnerHealthPct = partner.health / partner.maxHealth;
+		const partnerStaminaPct = partner.stamina / partner.maxStamina;
+		return partnerHealthPct > healthPct + 0.15 || partnerStaminaPct > staminaPct + 0.3;
+	}
+
+	/**
+	 * Roll whether two legal partners go for a double-team move on this decision.
+	 */
+	private rollDoubleTeam(a: AgentState, b: AgentState): boolean {
+		const teamMomentum = (a.momentum + b.momentum) / 200;
+		return this.rng.chance(clamp(DOUBLE_TEAM_BASE_CHANCE + teamMomentum * 0.3, 0, 0.6));
+	}
+
+	/** Pick which double-team move the partners hit. */
+	private pickDoubleTeamMove(): MoveDef {
+		return this.rng.pick([...DOUBLE_TEAM_MOVES]);
+	}
+}
+
+/**
+ * X position of a team's corner post (side -1 = left corner, +1 = right corner).
+ */
+export function cornerX(side: number, ringHalfX: number): number {
+	return side * ringHalfX;
+}
+
+/**
+ * Where a team's apron partner stands, just outside their corner.
+ */
+export function apronX(side: number, ringHalfX: number): number {
+	return side * (ringHalfX + APRON_OFFSET);
+}
+
+export {
+	TAG_REACH,
+	APRON_OFFSET,
+	TAG_COOLDOWN_TICKS,
+	DOUBLE_TEAM_WINDOW_TICKS,
+	DOUBLE_TEAM_RANGE,
+	DOUBLE_TEAM_MOVES
+};
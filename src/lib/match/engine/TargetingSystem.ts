@@ -0,0 +1,107 @@
+import type { AgentState, MatchState } from './MatchState';
+import { ringDistance } from './movement';
+
+/**
+ * How a fighter picks who to fight when there is more than one opponent.
+ *   - nearest:          whoever is closest
+ *   - weakest:          whoever has the least health left (the easiest pin)
+ *   - most_threatening: whoever is most dangerous right now (health, momentum,
+ *                       comeback, and whether they are coming after us)
+ */
+export type TargetingPolicy = 'nearest' | 'weakest' | 'most_threatening';
+
+/**
+ * Ticks between target re-evaluations (twice per second).
+ */
+const TARGET_EVAL_INTERVAL = 30;
+
+/**
+ * A new target must score this much better than the current one before a fighter
+ * switches — stops fighters flip-flopping between two near-equal opponents.
+ */
+const TARGET_SWITCH_MARGIN = 0.15;
+
+/**
+ * TargetingSystem — chooses each fighter's opponent in multi-fighter matches.
+ *
+ * Scores every other fighter under the fighter's TargetingPolicy and keeps
+ * the current target unless a clearly better one appears. Scoring is fully
+ * deterministic (no RNG), so a singles match — where the only candidate is
+ * the opponent — plays exactly as it did before targeting existed.
+ *
+ * Overrides (like rushing in to break up a pin) are handled by the match
+ * loop; this class only ranks candidates.
+ */
+export class TargetingSystem {
+	/**
+	 * Pick the target for a fighter.
+	 *
+	 * @param agent - The fighter choosing a target
+	 * @param candidates - Every fighter it may attack (never includes itself)
+	 * @param policy - The fighter's targeting policy
+	 * @returns The chosen target's id, or null if there are no candidates
+	 */
+	select(agent: AgentState, candidates: readonly AgentState[], policy: TargetingPolicy): string | null {
+		if (candidates.length === 0) return null;
+		if (candidates.length === 1) return candidates[0].id;
+
+		const current = candidates.find((c) => c.id === agent.targetId);
+		let best = candidates[0];
+		let bestScore = -Infinity;
+		for (const candidate of candidates) {
+			const score = this.score(agent, candidate, policy);
+			if (score > bestScore) {
+				best = candidate;
+				bestScore = score;
+			}
+		}
+
+		if (current && current.id !== best.id
+			&& bestScore - this.score(agent, current, policy) < TARGET_SWITCH_MARGIN) {
+			return current.id;
+		}
+		return best.id;
+	}
+
+	/**
+	 * How attractive a candidate is as a target (higher = better).
+	 * Distance is a light tiebreak in every policy — nobody crosses the ring
+	 * for a marginally better target.
+	 */
+	score(agent: AgentState, candidate: AgentState, policy: TargetingPolicy): number {
+		const distance = ringDistance(agent, candidate);
+		const healthPct = candidate.health / candidate.maxHealth;
+
+		switch (policy) {
+			case 'nearest':
+				return -distance;
+
+			case 'weakest':
+				return (1 - healthPct) * 2 - distance * 0.1;
+
+			case 'most_threatening': {
+				let threat = healthPct * 0.5 + candidate.momentum / 100;
+				if (candidate.comebackActive) threat += 0.3;
+				if (candidate.targetId === agent.id) threat += 0.3;
+				return threat - distance * 0.1;
+			}
+		}
+	}
+}
+
+/**
+ * The fighter an agent is currently fighting: its target if set,
+ * otherwise the first other fighter in the match who isn't a teammate.
+ */
+export function opponentOf(state: MatchState, agent: AgentState): AgentState {
+	return state.agents.find((a) => a.id === agent.targetId && a.id !== agent.id)
+		?? state.agents.find((a) => a.id !== agent.id && !isTeammate(a, agent))
+		?? state.agents.find((a) => a.id !== agent.id)!;
+}
+
+/** Whether two agents are on the same tag team. */
+export function isTeammate(a: AgentState, b: AgentState): boolean {
+	return a.teamId !== null && a.teamId === b.teamId;
+}
+
+export { TARGET_EVAL_INTERVAL, TARGET_SWITCH_MARGIN };
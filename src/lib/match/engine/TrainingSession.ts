@@ -0,0 +1,156 @@
+import { MatchEnv, DEFAULT_TICKS_PER_STEP, type MatchEnvConfig } from './MatchEnv';
+import {
+	PROTOCOL_VERSION,
+	buildConfig,
+	parseTrainerMessage,
+	type ConfigPayload,
+	type SimMessage,
+	type StepInfo,
+	type TrainerMessage
+} from '../../ai/rl/TrainingProtocol';
+
+export interface TrainingSessionConfig {
+	/** Headless envs the trainer steps as one batch */
+	numEnvs: number;
+	/** Match and step settings shared by every env */
+	env: MatchEnvConfig;
+	/** The fighter the trainer controls in each env (defaults to the first wrestler) */
+	agentId?: string;
+}
+
+/**
+ * TrainingSession — the sim side of one trainer connection in server mode.
+ *
+ * Owns a batch of MatchEnvs and answers the trainer's protocol messages
+ * (TrainingProtocol). Transport-free: the server feeds it raw message
+ * strings and sends back whatever it returns, so the same session runs
+ * behind a WebSocket, a pipe or a test harness.
+ *
+ * Protocol mistakes (stepping before the handshake, stepping a finished
+ * env, bad env ids) are answered with an `error` message; the session
+ * stays usable. A version mismatch closes it.
+ */
+export class TrainingSession {
+	readonly config: ConfigPayload;
+	private readonly envs: MatchEnv[];
+	private ready = false;
+	private closed = false;
+
+	constructor(config: TrainingSessionConfig) {
+		if (!Number.isInteger(config.numEnvs) || config.numEnvs < 1) {
+			throw new Error(`TrainingSession: numEnvs must be a positive integer, got ${config.numEnvs}`);
+		}
+		this.envs = Array.from({ length: config.numEnvs }, () => new MatchEnv(config.env, config.agentId));
+		this.config = buildConfig('server', config.numEnvs, config.env.ticksPerStep ?? DEFAULT_TICKS_PER_STEP);
+	}
+
+	/** The message to send as soon as a trainer connects. */
+	greeting(): SimMessage {
+		return { type: 'config', payload: this.config };
+	}
+
+	/** Whether the connection should be dropped (version mismatch or trainer close). */
+	get isClosed(): boolean {
+		return this.closed;
+	}
+
+	/**
+	 * Answer one raw message from the trainer.
+	 *
+	 * @returns The reply to send, or null if there is none
+	 */
+	handle(raw: string): SimMessage | null {
+		if (this.closed) return null;
+		try {
+			return this.dispatch(parseTrainerMessage(raw));
+		} catch (err) {
+			return { type: 'error', payload: { message: (err as Error).message } };
+		}
+	}
+
+	private dispatch(message: TrainerMessage): SimMessage | null {
+		if (message.type === 'close') {
+			this.closed = true;
+			return null;
+		}
+		if (message.type === 'ready') {
+			if (message.payload.version !== PROTOCOL_VERSION) {
+				this.closed = true;
+				throw new Error(`TrainingSession: trainer speaks protocol v${message.payload.version}, sim speaks v${PROTOCOL_VERSION}`);
+			}
+			this.ready = true;
+			return null;
+		}
+		if (!this.ready) throw new Error(`TrainingSession: '${message.type}' before the handshake`);
+
+		switch (message.type) {
+			case 'reset':
+				return this.reset(message.payload.seeds, message.payload.envIds);
+			case 'step':
+				return this.step(message.payload.actions, message.payload.envIds);
+			default:
+				throw new Error(`TrainingSession: '${message.type}' is a bridge-mode message`);
+		}
+	}
+
+	private reset(seeds: number[], envIds = this.allEnvIds()): SimMessage {
+		if (seeds.length !== envIds.length) {
+			throw new Error(`TrainingSession: ${seeds.length} seed(s) for ${envIds.length} env(s)`);
+		}
+		const envs = this.envBatch(envIds);
+		const obs = envs.map((env, i) => env.reset(seeds[i]));
+		return {
+			type: 'reset_result',
+			payload: { envIds, obs, masks: envs.map((env) => env.actionMask()) }
+		};
+	}
+
+	private step(actions: number[], envIds = this.allEnvIds()): SimMessage {
+		if (actions.length !== envIds.length) {
+			throw new Error(`TrainingSession: ${actions.length} action(s) for ${envIds.length} env(s)`);
+		}
+		// Check the whole batch before stepping any of it
+		const envs = this.envBatch(envIds);
+		envs.forEach((env, i) => {
+			const id = envIds[i];
+			if (!env.state) throw new Error(`TrainingSession: env ${id} has not been reset`);
+			if (env.done) throw new Error(`TrainingSession: env ${id} is done, reset it first`);
+			if (actions[i] < 0 || actions[i] >= this.config.actionCount) {
+				throw new Error(`TrainingSession: action ${actions[i]} for env ${id} is out of range`);
+			}
+		});
+		const steps = envs.map((env, i) => env.step(actions[i]));
+		return {
+			type: 'step_result',
+			payload: {
+				envIds,
+				obs: steps.map((s) => s.obs),
+				masks: steps.map((s) => s.mask),
+				rewards: steps.map((s) => s.reward),
+				dones: steps.map((s) => s.done),
+				infos: steps.map((s): StepInfo => ({
+					tick: s.info.tick,
+					actionApplied: s.info.actionApplied,
+					truncated: s.info.truncated,
+					winnerId: s.info.result?.winnerId ?? null,
+					method: s.info.result?.method ?? null
+				}))
+			}
+		};
+	}
+
+	private envBatch(envIds: number[]): MatchEnv[] {
+		if (new Set(envIds).size !== envIds.length) throw new Error('TrainingSession: an env id appears twice');
+		return envIds.map((id) => this.env(id));
+	}
+
+	private env(id: number): MatchEnv {
+		const env = this.envs[id];
+		if (!env) throw new Error(`TrainingSession: no env ${id} (0-${this.envs.length - 1})`);
+		return env;
+	}
+
+	private allEnvIds(): number[] {
+		return this.envs.map((_, i) => i);
+	}
+}
@@ -76,8 +76,7 @@ export function runDemo(options?: {
 		seed,
 		timeLimit,
 		tickRate: 60,
-		wrestler1,
-		wrestler2
+		wrestlers: [wrestler1, wrestler2]
 	});
 
 	// Attach debug logger
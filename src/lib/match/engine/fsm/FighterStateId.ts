@@ -1,7 +1,7 @@
 /**
  * Fighter State Machine — State Identifiers & Shared Context
  *
- * 14 discrete states. Only one active at a time per fighter.
+ * 25 discrete states. Only one active at a time per fighter.
  * All transitions are deterministic (driven by timers + game events, never Math.random).
  *
  * STATE DIAGRAM (text format):
@@ -55,6 +55,14 @@
  *   - FINISHER_SETUP has super armor (immune to stun, can be knocked down or countered)
  *   - FINISHER_IMPACT is fully immune (cannot be interrupted)
  *   - FINISHER_LOCKED is fully immune (cannot be interrupted, waits for impact)
+ *   - PINNING / PINNED / SUBMISSION_HOLD / SUBMISSION_LOCKED are fully immune
+ *     (the match loop ends the hold with HOLD_RELEASE)
+ *   - ESCAPING can be interrupted by STUNNED or KNOCKED_DOWN (dragged off the cage)
+ *   - LOCK_UP / GRAPPLE_CONTROL / GRAPPLED can be interrupted by STUNNED or
+ *     KNOCKED_DOWN (a third fighter breaking it up)
+ *   - CLIMBING can be interrupted by STUNNED (pulled down) or KNOCKED_DOWN
+ *   - PERCHED is knocked off the top by any hit (→ KNOCKED_DOWN)
+ *   - ROLLING is fully immune (under the ropes, out of reach)
  *
  * FINISHER SEQUENCE:
  *   - IDLE + REQUEST_FINISHER → FINISHER_SETUP (attacker side)
@@ -64,6 +72,42 @@
  *   - Counter-finisher: COUNTER_FINISHER during FINISHER_SETUP → STUNNED (attacker)
  *                       FINISHER_COUNTER_SUCCESS → IDLE (defender)
  *
+ * PINS & SUBMISSIONS:
+ *   - IDLE/MOVING + REQUEST_PIN → PINNING (attacker side)
+ *   - Downed opponent receives PIN_LOCK → PINNED (KNOCKED_DOWN / GETTING_UP only)
+ *   - ATTACK_ACTIVE + APPLY_SUBMISSION → SUBMISSION_HOLD (submission move connected)
+ *   - Opponent receives SUBMISSION_LOCK → SUBMISSION_LOCKED
+ *   - HOLD_RELEASE ends either hold: holder → STUNNED (stunFrames > 0) or IDLE,
+ *     held fighter → GETTING_UP
+ *   - Kick-outs, rope breaks and escapes are decided by the match loop, not the FSM
+ *
+ * CAGE ESCAPES:
+ *   - IDLE/MOVING + REQUEST_ESCAPE → ESCAPING (climbing the wall or going out the door)
+ *   - The match loop advances the escape; a hit or knockdown drops the fighter back in
+ *
+ * GRAPPLES:
+ *   - IDLE/MOVING/BLOCKING + LOCK_UP → LOCK_UP (both fighters tie up)
+ *   - The match loop resolves the lock-up: winner gets GRAPPLE_CONTROL → GRAPPLE_CONTROL,
+ *     loser gets GRAPPLE_HELD → GRAPPLED
+ *   - A STUNNED opponent is grabbed outright (IDLE/MOVING + GRAPPLE_CONTROL, STUNNED + GRAPPLE_HELD)
+ *   - GRAPPLE_CONTROL + REQUEST_ATTACK → ATTACK_WINDUP (a move from the position, no cooldown);
+ *     moves that keep the grapple hand control back with GRAPPLE_CONTROL from IDLE
+ *   - Reversed transitions swap the two: GRAPPLED ↔ GRAPPLE_CONTROL
+ *   - GRAPPLE_RELEASE ends it: STUNNED (stunFrames > 0) or IDLE
+ *   - Positions, transitions and escapes live in MatchState.grapple, not the FSM
+ *
+ * TOP ROPE:
+ *   - IDLE/MOVING + REQUEST_CLIMB → CLIMBING (at a turnbuckle, see RingGeometry)
+ *   - CLIMBING timer expires → PERCHED (perchFrames from REQUEST_CLIMB)
+ *   - PERCHED + REQUEST_ATTACK → ATTACK_WINDUP (the dive; no cooldown gate)
+ *   - PERCHED timer expires → IDLE (climbed back down)
+ *   - The corner and the move climbed for live in the match loop, not the FSM
+ *
+ * RINGSIDE:
+ *   - IDLE/MOVING + REQUEST_ROLL → ROLLING (under the bottom rope, out or back in)
+ *   - ROLLING timer expires → IDLE
+ *   - Which side of the ropes the fighter is on lives in AgentState.location, not the FSM
+ *
  * ANTI-SPAM:
  *   - IDLE enforces a minimum cooldown before allowing the next attack
  *   - Transition to ATTACK_WINDUP requires cooldown to be 0
@@ -77,7 +121,7 @@
  *   - Getting hit or knocked down during window → combo broken
  */
 
-/** The 14 discrete combat states. */
+/** The 25 discrete combat states. */
 export type FighterStateId =
 	| 'IDLE'
 	| 'MOVING'
@@ -92,7 +136,18 @@ export type FighterStateId =
 	| 'TAUNTING'
 	| 'FINISHER_SETUP'
 	| 'FINISHER_IMPACT'
-	| 'FINISHER_LOCKED';
+	| 'FINISHER_LOCKED'
+	| 'PINNING'
+	| 'PINNED'
+	| 'SUBMISSION_HOLD'
+	| 'SUBMISSION_LOCKED'
+	| 'ESCAPING'
+	| 'LOCK_UP'
+	| 'GRAPPLE_CONTROL'
+	| 'GRAPPLED'
+	| 'CLIMBING'
+	| 'PERCHED'
+	| 'ROLLING';
 
 /**
  * Shared context that every state can read/write.
@@ -146,6 +201,10 @@ export interface FighterContext {
 	/** ID of the opponent executing the finisher (set when locked). */
 	finisherAttackerId: string | null;
 
+	// ─── Holds (pins, submissions & grapples) ───────────────────
+	/** ID of the opponent holding this fighter in a pin, submission or grapple (set when locked). */
+	holdAttackerId: string | null;
+
 	// ─── Output Actions ─────────────────────────────────────────
 	/**
 	 * Actions to emit at the end of this tick.
@@ -177,7 +236,10 @@ export type FSMAction =
 	| { type: 'FINISHER_IMPACT_START'; moveId: string }
 	| { type: 'FINISHER_LOCKED' }
 	| { type: 'FINISHER_COUNTERED'; attackerId: string }
-	| { type: 'FINISHER_COMPLETED'; moveId: string };
+	| { type: 'FINISHER_COMPLETED'; moveId: string }
+	| { type: 'HOLD_STARTED'; hold: 'pin' | 'submission' }
+	| { type: 'HOLD_RELEASED' }
+	| { type: 'ESCAPE_START' };
 
 /**
  * External events that the match loop sends INTO the FSM.
@@ -197,4 +259,16 @@ export type FSMEvent =
 	| { type: 'FINISHER_LOCK'; lockFrames: number; attackerId: string }
 	| { type: 'FINISHER_IMPACT_RECEIVED'; stunFrames: number; damage: number; knockdownForced: boolean }
 	| { type: 'COUNTER_FINISHER'; stunFrames: number }
-	| { type: 'FINISHER_COUNTER_SUCCESS' };
+	| { type: 'FINISHER_COUNTER_SUCCESS' }
+	| { type: 'REQUEST_PIN'; targetId: string; maxFrames: number }
+	| { type: 'PIN_LOCK'; attackerId: string; maxFrames: number }
+	| { type: 'APPLY_SUBMISSION'; targetId: string; maxFrames: number }
+	| { type: 'SUBMISSION_LOCK'; attackerId: string; maxFrames: number }
+	| { type: 'HOLD_RELEASE'; stunFrames: number }
+	| { type: 'REQUEST_ESCAPE'; maxFrames: number }
+	| { type: 'REQUEST_CLIMB'; climbFrames: number; perchFrames: number }
+	| { type: 'REQUEST_ROLL'; frames: number }
+	| { type: 'LOCK_UP'; opponentId: string; maxFrames: number }
+	| { type: 'GRAPPLE_CONTROL'; targetId: string; maxFrames: number }
+	| { type: 'GRAPPLE_HELD'; attackerId: string; maxFrames: number }
+	| { type: 'GRAPPLE_RELEASE'; stunFrames: number };
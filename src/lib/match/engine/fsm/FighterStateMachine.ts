@@ -14,12 +14,23 @@ import { ComboWindowState } from './states/ComboWindowState';
 import { FinisherSetupState } from './states/FinisherSetupState';
 import { FinisherImpactState } from './states/FinisherImpactState';
 import { FinisherLockedState } from './states/FinisherLockedState';
+import { PinningState } from './states/PinningState';
+import { PinnedState } from './states/PinnedState';
+import { SubmissionHoldState } from './states/SubmissionHoldState';
+import { SubmissionLockedState } from './states/SubmissionLockedState';
+import { EscapingState } from './states/EscapingState';
+import { LockUpState } from './states/LockUpState';
+import { GrappleControlState } from './states/GrappleControlState';
+import { GrappledState } from './states/GrappledState';
+import { ClimbingState } from './states/ClimbingState';
+import { PerchedState } from './states/PerchedState';
+import { RollingState } from './states/RollingState';
 
 /**
  * FighterStateMachine — the core FSM controller for one fighter.
  *
  * Owns:
- *   - The state registry (all 14 states, created once)
+ *   - The state registry (all 25 states, created once)
  *   - The current state pointer
  *   - The shared FighterContext
  *   - The pending event queue
@@ -55,8 +66,11 @@ export class FighterStateMachine {
 	private pendingImpactFrames = 0;
 	private pendingFinisherRecoveryFrames = 0;
 
+	/** Cached time allowed up top for a climb. */
+	private pendingPerchFrames = 0;
+
 	constructor(fighterId: string, positionX: number) {
-		// Create all 14 states
+		// Create all 25 states
 		this.states = new Map<FighterStateId, FighterState>([
 			['IDLE', new IdleState()],
 			['MOVING', new MovingState()],
@@ -71,7 +85,18 @@ export class FighterStateMachine {
 			['TAUNTING', new TauntingState()],
 			['FINISHER_SETUP', new FinisherSetupState()],
 			['FINISHER_IMPACT', new FinisherImpactState()],
-			['FINISHER_LOCKED', new FinisherLockedState()]
+			['FINISHER_LOCKED', new FinisherLockedState()],
+			['PINNING', new PinningState()],
+			['PINNED', new PinnedState()],
+			['SUBMISSION_HOLD', new SubmissionHoldState()],
+			['SUBMISSION_LOCKED', new SubmissionLockedState()],
+			['ESCAPING', new EscapingState()],
+			['LOCK_UP', new LockUpState()],
+			['GRAPPLE_CONTROL', new GrappleControlState()],
+			['GRAPPLED', new GrappledState()],
+			['CLIMBING', new ClimbingState()],
+			['PERCHED', new PerchedState()],
+			['ROLLING', new RollingState()]
 		]);
 
 		// Create shared context
@@ -91,6 +116,7 @@ export class FighterStateMachine {
 			finisherActive: false,
 			finisherLocked: false,
 			finisherAttackerId: null,
+			holdAttackerId: null,
 			pendingActions: []
 		};
 
@@ -156,6 +182,32 @@ export class FighterStateMachine {
 		return this.ctx.finisherLocked;
 	}
 
+	/** Whether this fighter is applying a pin or submission hold. */
+	get isHolding(): boolean {
+		return this.currentState.id === 'PINNING' || this.currentState.id === 'SUBMISSION_HOLD';
+	}
+
+	/** Whether this fighter is trapped in an opponent's pin or submission hold. */
+	get isHeld(): boolean {
+		return this.currentState.id === 'PINNED' || this.currentState.id === 'SUBMISSION_LOCKED';
+	}
+
+	/** Whether this fighter is tied up in a lock-up or grapple (either side). */
+	get inGrapple(): boolean {
+		const id = this.currentState.id;
+		return id === 'LOCK_UP' || id === 'GRAPPLE_CONTROL' || id === 'GRAPPLED';
+	}
+
+	/** Whether this fighter is climbing a turnbuckle or standing on top of one. */
+	get isUpTop(): boolean {
+		return this.currentState.id === 'CLIMBING' || this.currentState.id === 'PERCHED';
+	}
+
+	/** Whether this fighter controls a grapple and can pick a move or transition. */
+	get hasGrappleControl(): boolean {
+		return this.currentState.id === 'GRAPPLE_CONTROL';
+	}
+
 	// ─── Event Queue ─────────────────────────────────────────────
 
 	/**
@@ -173,6 +225,10 @@ export class FighterStateMachine {
 			this.pendingImpactFrames = event.impactFrames;
 			this.pendingFinisherRecoveryFrames = event.recoveryFrames;
 		}
+		// Cache the time allowed up top for the CLIMBING → PERCHED transition
+		if (event.type === 'REQUEST_CLIMB') {
+			this.pendingPerchFrames = event.perchFrames;
+		}
 		// Cache the attacker ID when locked by a finisher
 		if (event.type === 'FINISHER_LOCK') {
 			this.ctx.finisherAttackerId = event.attackerId;
@@ -315,6 +371,12 @@ export class FighterStateMachine {
 			this.ctx.stateTimer = this.pendingFinisherRecoveryFrames;
 		}
 
+		// ── Top rope timer ──
+		// CLIMBING → PERCHED: apply the time allowed up top
+		if (prevId === 'CLIMBING' && nextId === 'PERCHED') {
+			this.ctx.stateTimer = this.pendingPerchFrames;
+		}
+
 		// Enter new state
 		this.currentState.enter(this.ctx);
 	}
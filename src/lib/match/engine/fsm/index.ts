@@ -1,7 +1,7 @@
 /**
  * Fighter State Machine — Barrel Export
  *
- * 14-state deterministic FSM for combat control (includes COMBO_WINDOW and FINISHER states).
+ * 25-state deterministic FSM for combat control (includes COMBO_WINDOW, FINISHER, hold, cage escape, grapple, top rope and ringside states).
  * Each fighter gets one FighterStateMachine instance.
  *
  * Usage:
@@ -41,3 +41,14 @@ export { ComboWindowState } from './states/ComboWindowState';
 export { FinisherSetupState } from './states/FinisherSetupState';
 export { FinisherImpactState } from './states/FinisherImpactState';
 export { FinisherLockedState } from './states/FinisherLockedState';
+export { PinningState } from './states/PinningState';
+export { PinnedState } from './states/PinnedState';
+export { SubmissionHoldState } from './states/SubmissionHoldState';
+export { SubmissionLockedState } from './states/SubmissionLockedState';
+export { EscapingState } from './states/EscapingState';
+export { LockUpState } from './states/LockUpState';
+export { GrappleControlState } from './states/GrappleControlState';
+export { GrappledState } from './states/GrappledState';
+export { ClimbingState } from './states/ClimbingState';
+export { PerchedState } from './states/PerchedState';
+export { RollingState } from './states/RollingState';
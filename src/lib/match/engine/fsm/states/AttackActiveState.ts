@@ -17,6 +17,7 @@ import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId
  *   - REVERSAL_RECEIVED     → STUNNED (defender reversed the move!)
  *   - KNOCKDOWN             → KNOCKED_DOWN
  *   - HIT_RECEIVED          → STUNNED (trading blows — rare)
+ *   - APPLY_SUBMISSION      → SUBMISSION_HOLD (submission move connected)
  */
 export class AttackActiveState extends FighterState {
 	readonly id: FighterStateId = 'ATTACK_ACTIVE';
@@ -61,6 +62,12 @@ export class AttackActiveState extends FighterState {
 				ctx.stateTimer = event.durationFrames;
 				return 'KNOCKED_DOWN';
 
+			case 'APPLY_SUBMISSION':
+				// Submission connected — keep activeMoveId for the hold
+				ctx.targetId = event.targetId;
+				ctx.stateTimer = event.maxFrames;
+				return 'SUBMISSION_HOLD';
+
 			default:
 				return null;
 		}
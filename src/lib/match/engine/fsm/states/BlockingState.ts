@@ -13,6 +13,7 @@ import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId
  *   - REQUEST_IDLE     → IDLE (voluntary release)
  *   - HIT_RECEIVED     → STUNNED (guard broken by heavy hit)
  *   - KNOCKDOWN        → KNOCKED_DOWN
+ *   - LOCK_UP          → LOCK_UP (a guard doesn't stop a tie-up)
  *
  * The match loop applies damage reduction externally when the defender
  * is in BLOCKING state. The FSM itself doesn't modify health.
@@ -72,6 +73,11 @@ export class BlockingState extends FighterState {
 				ctx.stateTimer = event.lockFrames;
 				return 'FINISHER_LOCKED';
 
+			case 'LOCK_UP':
+				ctx.targetId = event.opponentId;
+				ctx.stateTimer = event.maxFrames;
+				return 'LOCK_UP';
+
 			default:
 				return null;
 		}
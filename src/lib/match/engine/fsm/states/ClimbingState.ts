@@ -0,0 +1,59 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+
+/**
+ * CLIMBING — the fighter is climbing a turnbuckle to go up top.
+ *
+ * Which corner, and which move they're going up for, is tracked by the
+ * match loop (AgentState.perch), not the FSM. Climbing is slow and
+ * leaves the fighter open: a hit pulls them back down to the mat.
+ *
+ * Duration: climbFrames from the REQUEST_CLIMB event.
+ *
+ * Transitions OUT:
+ *   - Timer expires     → PERCHED (made it to the top)
+ *   - HIT_RECEIVED      → STUNNED (pulled down)
+ *   - KNOCKDOWN         → KNOCKED_DOWN
+ *   - REVERSAL_RECEIVED → STUNNED
+ *   - FINISHER_LOCK     → FINISHER_LOCKED
+ */
+export class ClimbingState extends FighterState {
+	readonly id: FighterStateId = 'CLIMBING';
+
+	enter(_ctx: FighterContext): void {
+		// stateTimer set by the REQUEST_CLIMB event
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) return 'PERCHED';
+		return null;
+	}
+
+	exit(_ctx: FighterContext): void {
+		// The match loop notices the fighter left CLIMBING
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'HIT_RECEIVED':
+				ctx.stateTimer = event.stunFrames;
+				return 'STUNNED';
+
+			case 'KNOCKDOWN':
+				ctx.stateTimer = event.durationFrames;
+				return 'KNOCKED_DOWN';
+
+			case 'REVERSAL_RECEIVED':
+				ctx.stateTimer = event.stunFrames;
+				return 'STUNNED';
+
+			case 'FINISHER_LOCK':
+				ctx.stateTimer = event.lockFrames;
+				return 'FINISHER_LOCKED';
+
+			default:
+				return null;
+		}
+	}
+}
@@ -0,0 +1,60 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+
+/**
+ * ESCAPING — the fighter is climbing the cage wall or crawling out the door.
+ *
+ * Escape progress is tracked by the match loop (CageSystem rates), not the FSM.
+ * This state only holds the fighter in place until the escape completes
+ * (the match ends) or the opponent drags them back down.
+ *
+ * Duration is a safety cap set by the triggering event.
+ *
+ * Transitions OUT:
+ *   - Timer expires     → IDLE (gave up)
+ *   - HIT_RECEIVED      → STUNNED (pulled off the wall)
+ *   - KNOCKDOWN         → KNOCKED_DOWN (fell from the top)
+ *   - REVERSAL_RECEIVED → STUNNED
+ *   - FINISHER_LOCK     → FINISHER_LOCKED
+ */
+export class EscapingState extends FighterState {
+	readonly id: FighterStateId = 'ESCAPING';
+
+	enter(ctx: FighterContext): void {
+		// stateTimer set by the event that triggered the escape
+		ctx.pendingActions.push({ type: 'ESCAPE_START' });
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) return 'IDLE';
+		return null;
+	}
+
+	exit(_ctx: FighterContext): void {
+		// The match loop notices the fighter left ESCAPING and drops the attempt
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'HIT_RECEIVED':
+				ctx.stateTimer = event.stunFrames;
+				return 'STUNNED';
+
+			case 'KNOCKDOWN':
+				ctx.stateTimer = event.durationFrames;
+				return 'KNOCKED_DOWN';
+
+			case 'REVERSAL_RECEIVED':
+				ctx.stateTimer = event.stunFrames;
+				return 'STUNNED';
+
+			case 'FINISHER_LOCK':
+				ctx.stateTimer = event.lockFrames;
+				return 'FINISHER_LOCKED';
+
+			default:
+				return null;
+		}
+	}
+}
@@ -18,6 +18,8 @@ import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId
  * Transitions OUT:
  *   - Timer expires   → IDLE (fully recovered)
  *   - HIT_RECEIVED    → STUNNED (caught while getting up!)
+ *   - PIN_LOCK        → PINNED (covered before fully rising)
+ *   - SUBMISSION_LOCK → SUBMISSION_LOCKED
  */
 export class GettingUpState extends FighterState {
 	readonly id: FighterStateId = 'GETTING_UP';
@@ -52,6 +54,16 @@ export class GettingUpState extends FighterState {
 			case 'KNOCKDOWN':
 				return null;
 
+			case 'PIN_LOCK':
+				ctx.holdAttackerId = event.attackerId;
+				ctx.stateTimer = event.maxFrames;
+				return 'PINNED';
+
+			case 'SUBMISSION_LOCK':
+				ctx.holdAttackerId = event.attackerId;
+				ctx.stateTimer = event.maxFrames;
+				return 'SUBMISSION_LOCKED';
+
 			default:
 				return null;
 		}
@@ -0,0 +1,86 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+
+/**
+ * GRAPPLE_CONTROL — the fighter has the opponent tied up in a grapple position.
+ *
+ * Entered via GRAPPLE_CONTROL from LOCK_UP (won the tie-up), IDLE/MOVING
+ * (grabbed a stunned opponent, or back in control after a move that keeps
+ * the grapple) or GRAPPLED (reversed a position change). The match loop
+ * picks position transitions and moves; the position itself lives in
+ * MatchState.grapple, not the FSM.
+ *
+ * Duration: safety cap set by the GRAPPLE_CONTROL event (maxFrames).
+ *
+ * Transitions OUT:
+ *   - REQUEST_ATTACK    → ATTACK_WINDUP (a move from the position; no cooldown gate)
+ *   - GRAPPLE_HELD      → GRAPPLED (the opponent reversed a transition)
+ *   - GRAPPLE_RELEASE   → STUNNED (stunFrames > 0, opponent fought free) or IDLE
+ *   - HIT_RECEIVED      → STUNNED (a third fighter broke it up)
+ *   - KNOCKDOWN         → KNOCKED_DOWN
+ *   - REVERSAL_RECEIVED → STUNNED
+ *   - FINISHER_LOCK     → FINISHER_LOCKED
+ *   - Timer expires (fallback safety) → IDLE
+ */
+export class GrappleControlState extends FighterState {
+	readonly id: FighterStateId = 'GRAPPLE_CONTROL';
+
+	enter(ctx: FighterContext): void {
+		// stateTimer and targetId set by the GRAPPLE_CONTROL event
+		ctx.activeMoveId = null;
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) {
+			// Fallback safety: the match loop never ended the grapple
+			return 'IDLE';
+		}
+		return null;
+	}
+
+	exit(_ctx: FighterContext): void {
+		// The match loop notices the fighter left the grapple states
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'REQUEST_ATTACK':
+				// The grapple is the setup — no anti-spam gate
+				ctx.activeMoveId = event.moveId;
+				ctx.stateTimer = event.windupFrames;
+				return 'ATTACK_WINDUP';
+
+			case 'GRAPPLE_HELD':
+				ctx.holdAttackerId = event.attackerId;
+				ctx.stateTimer = event.maxFrames;
+				return 'GRAPPLED';
+
+			case 'GRAPPLE_RELEASE':
+				if (event.stunFrames > 0) {
+					ctx.stateTimer = event.stunFrames;
+					return 'STUNNED';
+				}
+				return 'IDLE';
+
+			case 'HIT_RECEIVED':
+				ctx.stateTimer = event.stunFrames;
+				return 'STUNNED';
+
+			case 'KNOCKDOWN':
+				ctx.stateTimer = event.durationFrames;
+				return 'KNOCKED_DOWN';
+
+			case 'REVERSAL_RECEIVED':
+				ctx.stateTimer = event.stunFrames;
+				return 'STUNNED';
+
+			case 'FINISHER_LOCK':
+				ctx.stateTimer = event.lockFrames;
+				return 'FINISHER_LOCKED';
+
+			default:
+				return null;
+		}
+	}
+}
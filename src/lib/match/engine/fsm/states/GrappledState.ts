@@ -0,0 +1,77 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+
+/**
+ * GRAPPLED — the fighter is tied up in the opponent's grapple position.
+ *
+ * Entered via GRAPPLE_HELD from LOCK_UP (lost the tie-up), STUNNED (grabbed
+ * while reeling) or GRAPPLE_CONTROL (the opponent reversed a transition).
+ * The fighter cannot act; the match loop advances their struggle to break
+ * free and their chance to reverse position changes.
+ *
+ * Moves that keep the grapple (chops in the corner, strikes from a headlock)
+ * land without a HIT_RECEIVED, so the fighter stays here between them.
+ *
+ * Duration: safety cap set by the GRAPPLE_HELD event (maxFrames).
+ *
+ * Transitions OUT:
+ *   - GRAPPLE_CONTROL   → GRAPPLE_CONTROL (reversed a transition)
+ *   - GRAPPLE_RELEASE   → STUNNED (stunFrames > 0) or IDLE (fought free / let go)
+ *   - HIT_RECEIVED      → STUNNED (a move that ends the grapple landed)
+ *   - KNOCKDOWN         → KNOCKED_DOWN
+ *   - FINISHER_LOCK     → FINISHER_LOCKED
+ *   - Timer expires (fallback safety) → IDLE
+ */
+export class GrappledState extends FighterState {
+	readonly id: FighterStateId = 'GRAPPLED';
+
+	enter(ctx: FighterContext): void {
+		// stateTimer and holdAttackerId set by the GRAPPLE_HELD event
+		ctx.activeMoveId = null;
+		ctx.targetId = null;
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) {
+			// Fallback safety: the match loop never ended the grapple
+			return 'IDLE';
+		}
+		return null;
+	}
+
+	exit(ctx: FighterContext): void {
+		ctx.holdAttackerId = null;
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'GRAPPLE_CONTROL':
+				ctx.targetId = event.targetId;
+				ctx.stateTimer = event.maxFrames;
+				return 'GRAPPLE_CONTROL';
+
+			case 'GRAPPLE_RELEASE':
+				if (event.stunFrames > 0) {
+					ctx.stateTimer = event.stunFrames;
+					return 'STUNNED';
+				}
+				return 'IDLE';
+
+			case 'HIT_RECEIVED':
+				ctx.stateTimer = event.stunFrames;
+				return 'STUNNED';
+
+			case 'KNOCKDOWN':
+				ctx.stateTimer = event.durationFrames;
+				return 'KNOCKED_DOWN';
+
+			case 'FINISHER_LOCK':
+				ctx.stateTimer = event.lockFrames;
+				return 'FINISHER_LOCKED';
+
+			default:
+				return null;
+		}
+	}
+}
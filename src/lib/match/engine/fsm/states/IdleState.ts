@@ -14,6 +14,13 @@ import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId
  *   - REQUEST_TAUNT  → TAUNTING
  *   - HIT_RECEIVED   → STUNNED
  *   - KNOCKDOWN      → KNOCKED_DOWN
+ *   - REQUEST_PIN    → PINNING
+ *   - REQUEST_ESCAPE → ESCAPING
+ *   - REQUEST_CLIMB  → CLIMBING
+ *   - REQUEST_ROLL   → ROLLING
+ *   - LOCK_UP        → LOCK_UP
+ *   - GRAPPLE_CONTROL → GRAPPLE_CONTROL (grabbed a stunned opponent, or
+ *                      back in control after a move that keeps the grapple)
  *
  * Anti-spam: attackCooldown counts down each frame. Attack requests
  * are rejected until cooldown reaches 0.
@@ -89,6 +96,37 @@ export class IdleState extends FighterState {
 				ctx.stateTimer = event.lockFrames;
 				return 'FINISHER_LOCKED';
 
+			case 'REQUEST_PIN':
+				// Cover a downed opponent for the referee's count
+				ctx.targetId = event.targetId;
+				ctx.stateTimer = event.maxFrames;
+				return 'PINNING';
+
+			case 'REQUEST_ESCAPE':
+				// Climb the cage or crawl for the door
+				ctx.stateTimer = event.maxFrames;
+				return 'ESCAPING';
+
+			case 'REQUEST_CLIMB':
+				// Up the turnbuckle for a top-rope move
+				ctx.stateTimer = event.climbFrames;
+				return 'CLIMBING';
+
+			case 'REQUEST_ROLL':
+				// Under the bottom rope, out to the floor or back in
+				ctx.stateTimer = event.frames;
+				return 'ROLLING';
+
+			case 'LOCK_UP':
+				ctx.targetId = event.opponentId;
+				ctx.stateTimer = event.maxFrames;
+				return 'LOCK_UP';
+
+			case 'GRAPPLE_CONTROL':
+				ctx.targetId = event.targetId;
+				ctx.stateTimer = event.maxFrames;
+				return 'GRAPPLE_CONTROL';
+
 			default:
 				return null;
 		}
@@ -11,7 +11,9 @@ import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId
  * adds a GETTING_UP intermediate state for the rising vulnerability window.
  *
  * Transitions OUT:
- *   - Timer expires → GETTING_UP (not directly to IDLE)
+ *   - Timer expires   → GETTING_UP (not directly to IDLE)
+ *   - PIN_LOCK        → PINNED (opponent covers for the count)
+ *   - SUBMISSION_LOCK → SUBMISSION_LOCKED (opponent applies a hold on the mat)
  *
  * Immune to all interrupts. Cannot be stunned or knocked down again
  * while already on the mat.
@@ -52,10 +54,23 @@ export class KnockedDownState extends FighterState {
 
 	/**
 	 * KNOCKED_DOWN is fully immune to interrupts.
-	 * All events are ignored while on the mat.
+	 * Only pins and submission holds can take a downed fighter out of this state.
 	 */
-	handleEvent(_ctx: FighterContext, _event: FSMEvent): FighterStateId | null {
-		return null;
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'PIN_LOCK':
+				ctx.holdAttackerId = event.attackerId;
+				ctx.stateTimer = event.maxFrames;
+				return 'PINNED';
+
+			case 'SUBMISSION_LOCK':
+				ctx.holdAttackerId = event.attackerId;
+				ctx.stateTimer = event.maxFrames;
+				return 'SUBMISSION_LOCKED';
+
+			default:
+				return null;
+		}
 	}
 
 	get interruptibleByStun(): boolean {
@@ -0,0 +1,83 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+
+/**
+ * LOCK_UP — both fighters are tied up collar-and-elbow, fighting for control.
+ *
+ * Entered from IDLE, MOVING or BLOCKING via LOCK_UP (one fighter went for a
+ * grapple and the other met it). The match loop walks both fighters into
+ * the clinch and decides who wins the tie-up.
+ *
+ * Duration: safety cap set by the LOCK_UP event (maxFrames).
+ *
+ * Transitions OUT:
+ *   - GRAPPLE_CONTROL   → GRAPPLE_CONTROL (won the lock-up)
+ *   - GRAPPLE_HELD      → GRAPPLED (lost the lock-up)
+ *   - GRAPPLE_RELEASE   → STUNNED (stunFrames > 0) or IDLE
+ *   - HIT_RECEIVED      → STUNNED (a third fighter broke it up)
+ *   - KNOCKDOWN         → KNOCKED_DOWN
+ *   - REVERSAL_RECEIVED → STUNNED
+ *   - FINISHER_LOCK     → FINISHER_LOCKED
+ *   - Timer expires (fallback safety) → IDLE
+ */
+export class LockUpState extends FighterState {
+	readonly id: FighterStateId = 'LOCK_UP';
+
+	enter(ctx: FighterContext): void {
+		// stateTimer and targetId set by the LOCK_UP event
+		ctx.activeMoveId = null;
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) {
+			// Fallback safety: the match loop never resolved the lock-up
+			return 'IDLE';
+		}
+		return null;
+	}
+
+	exit(_ctx: FighterContext): void {
+		// targetId is kept — the grapple states that follow need it
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'GRAPPLE_CONTROL':
+				ctx.targetId = event.targetId;
+				ctx.stateTimer = event.maxFrames;
+				return 'GRAPPLE_CONTROL';
+
+			case 'GRAPPLE_HELD':
+				ctx.holdAttackerId = event.attackerId;
+				ctx.stateTimer = event.maxFrames;
+				return 'GRAPPLED';
+
+			case 'GRAPPLE_RELEASE':
+				if (event.stunFrames > 0) {
+					ctx.stateTimer = event.stunFrames;
+					return 'STUNNED';
+				}
+				return 'IDLE';
+
+			case 'HIT_RECEIVED':
+				ctx.stateTimer = event.stunFrames;
+				return 'STUNNED';
+
+			case 'KNOCKDOWN':
+				ctx.stateTimer = event.durationFrames;
+				return 'KNOCKED_DOWN';
+
+			case 'REVERSAL_RECEIVED':
+				ctx.stateTimer = event.stunFrames;
+				return 'STUNNED';
+
+			case 'FINISHER_LOCK':
+				ctx.stateTimer = event.lockFrames;
+				return 'FINISHER_LOCKED';
+
+			default:
+				return null;
+		}
+	}
+}
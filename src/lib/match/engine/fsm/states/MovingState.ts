@@ -16,6 +16,12 @@ import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId
  *   - KNOCKDOWN            → KNOCKED_DOWN (interruptible)
  *   - REQUEST_ATTACK       → ATTACK_WINDUP (cancel movement to attack)
  *   - REQUEST_BLOCK        → BLOCKING (cancel movement to block)
+ *   - REQUEST_PIN          → PINNING (cancel movement to cover)
+ *   - REQUEST_ESCAPE       → ESCAPING (cancel movement to escape the cage)
+ *   - REQUEST_CLIMB        → CLIMBING (at a turnbuckle, going up top)
+ *   - REQUEST_ROLL         → ROLLING (at the ropes, rolling out or back in)
+ *   - LOCK_UP              → LOCK_UP (tied up on the way in)
+ *   - GRAPPLE_CONTROL      → GRAPPLE_CONTROL (grabbed a stunned opponent)
  *
  * The MovementController is the sole authority for positionX writes.
  */
@@ -94,6 +100,37 @@ export class MovingState extends FighterState {
 				ctx.stateTimer = event.setupFrames;
 				return 'FINISHER_SETUP';
 
+			case 'REQUEST_PIN':
+				// Cover a downed opponent for the referee's count
+				ctx.targetId = event.targetId;
+				ctx.stateTimer = event.maxFrames;
+				return 'PINNING';
+
+			case 'REQUEST_ESCAPE':
+				// Climb the cage or crawl for the door
+				ctx.stateTimer = event.maxFrames;
+				return 'ESCAPING';
+
+			case 'REQUEST_CLIMB':
+				// Up the turnbuckle for a top-rope move
+				ctx.stateTimer = event.climbFrames;
+				return 'CLIMBING';
+
+			case 'REQUEST_ROLL':
+				// Under the bottom rope, out to the floor or back in
+				ctx.stateTimer = event.frames;
+				return 'ROLLING';
+
+			case 'LOCK_UP':
+				ctx.targetId = event.opponentId;
+				ctx.stateTimer = event.maxFrames;
+				return 'LOCK_UP';
+
+			case 'GRAPPLE_CONTROL':
+				ctx.targetId = event.targetId;
+				ctx.stateTimer = event.maxFrames;
+				return 'GRAPPLE_CONTROL';
+
 			default:
 				return null;
 		}
@@ -0,0 +1,65 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+import { DEFAULT_KNOCKDOWN_FRAMES } from './KnockedDownState';
+
+/**
+ * PERCHED — the fighter is standing on the top turnbuckle.
+ *
+ * Entered from CLIMBING. The match loop launches the top-rope move the
+ * fighter climbed for once the opponent is within reach; waiting too
+ * long and the fighter climbs back down.
+ *
+ * Duration: perchFrames from the REQUEST_CLIMB event.
+ *
+ * Transitions OUT:
+ *   - REQUEST_ATTACK    → ATTACK_WINDUP (the dive; no cooldown gate)
+ *   - Timer expires     → IDLE (climbed back down)
+ *   - HIT_RECEIVED      → KNOCKED_DOWN (knocked off the top)
+ *   - KNOCKDOWN         → KNOCKED_DOWN
+ *   - REVERSAL_RECEIVED → KNOCKED_DOWN (knocked off the top)
+ *   - FINISHER_LOCK     → FINISHER_LOCKED
+ */
+export class PerchedState extends FighterState {
+	readonly id: FighterStateId = 'PERCHED';
+
+	enter(_ctx: FighterContext): void {
+		// stateTimer set from REQUEST_CLIMB's perchFrames on the way in
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) return 'IDLE';
+		return null;
+	}
+
+	exit(_ctx: FighterContext): void {
+		// The match loop clears AgentState.perch once the fighter is down
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'REQUEST_ATTACK':
+				// Climbing up was the setup — no anti-spam gate
+				ctx.activeMoveId = event.moveId;
+				ctx.stateTimer = event.windupFrames;
+				return 'ATTACK_WINDUP';
+
+			case 'HIT_RECEIVED':
+			case 'REVERSAL_RECEIVED':
+				// A fall from up top puts the fighter down
+				ctx.stateTimer = DEFAULT_KNOCKDOWN_FRAMES;
+				return 'KNOCKED_DOWN';
+
+			case 'KNOCKDOWN':
+				ctx.stateTimer = event.durationFrames;
+				return 'KNOCKED_DOWN';
+
+			case 'FINISHER_LOCK':
+				ctx.stateTimer = event.lockFrames;
+				return 'FINISHER_LOCKED';
+
+			default:
+				return null;
+		}
+	}
+}
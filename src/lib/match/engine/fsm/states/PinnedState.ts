@@ -0,0 +1,59 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+import { GETTING_UP_FRAMES } from './KnockedDownState';
+
+/**
+ * PINNED — the fighter is on the mat with the opponent covering them.
+ *
+ * Entered from KNOCKED_DOWN or GETTING_UP via PIN_LOCK.
+ * Whether (and when) the fighter kicks out is decided by the match loop.
+ *
+ * Duration: safety cap set by the PIN_LOCK event (maxFrames).
+ *
+ * Transitions OUT:
+ *   - HOLD_RELEASE                    → GETTING_UP (kicked out, rising)
+ *   - Timer expires (fallback safety) → GETTING_UP
+ *
+ * All other events are ignored while pinned.
+ */
+export class PinnedState extends FighterState {
+	readonly id: FighterStateId = 'PINNED';
+
+	enter(ctx: FighterContext): void {
+		// stateTimer and holdAttackerId set by the PIN_LOCK event
+		ctx.activeMoveId = null;
+		ctx.targetId = null;
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) {
+			ctx.stateTimer = GETTING_UP_FRAMES;
+			return 'GETTING_UP';
+		}
+		return null;
+	}
+
+	exit(ctx: FighterContext): void {
+		ctx.holdAttackerId = null;
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'HOLD_RELEASE':
+				ctx.stateTimer = GETTING_UP_FRAMES;
+				return 'GETTING_UP';
+
+			default:
+				return null;
+		}
+	}
+
+	get interruptibleByStun(): boolean {
+		return false;
+	}
+
+	get interruptibleByKnockdown(): boolean {
+		return false;
+	}
+}
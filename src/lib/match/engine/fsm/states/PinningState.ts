@@ -0,0 +1,63 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+
+/**
+ * PINNING — the fighter is covering a downed opponent for the referee's count.
+ *
+ * Entered from IDLE/MOVING via REQUEST_PIN. The match loop runs the
+ * 1-2-3 count and decides kick-outs; this state only holds position.
+ *
+ * Duration: safety cap set by the REQUEST_PIN event (maxFrames).
+ *
+ * Transitions OUT:
+ *   - HOLD_RELEASE (stunFrames > 0) → STUNNED (thrown off by the kick-out)
+ *   - HOLD_RELEASE (stunFrames = 0) → IDLE
+ *   - Timer expires (fallback safety) → IDLE
+ *
+ * All other events are ignored while pinning.
+ */
+export class PinningState extends FighterState {
+	readonly id: FighterStateId = 'PINNING';
+
+	enter(ctx: FighterContext): void {
+		// stateTimer and targetId set by the REQUEST_PIN event
+		ctx.activeMoveId = null;
+		ctx.pendingActions.push({ type: 'HOLD_STARTED', hold: 'pin' });
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) {
+			// Fallback safety: the match loop never resolved the pin
+			return 'IDLE';
+		}
+		return null;
+	}
+
+	exit(ctx: FighterContext): void {
+		ctx.targetId = null;
+		ctx.pendingActions.push({ type: 'HOLD_RELEASED' });
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'HOLD_RELEASE':
+				if (event.stunFrames > 0) {
+					ctx.stateTimer = event.stunFrames;
+					return 'STUNNED';
+				}
+				return 'IDLE';
+
+			default:
+				return null;
+		}
+	}
+
+	get interruptibleByStun(): boolean {
+		return false;
+	}
+
+	get interruptibleByKnockdown(): boolean {
+		return false;
+	}
+}
@@ -0,0 +1,37 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+
+/**
+ * ROLLING — the fighter is rolling under the bottom rope, out to the
+ * ringside floor or back into the ring.
+ *
+ * Where they roll to is up to the match loop (the MovementController
+ * carries them across the apron). Under the ropes the fighter is out of
+ * everyone's reach, so nothing interrupts the roll.
+ *
+ * Duration: frames from the REQUEST_ROLL event.
+ *
+ * Transitions OUT:
+ *   - Timer expires → IDLE (on the other side of the ropes)
+ */
+export class RollingState extends FighterState {
+	readonly id: FighterStateId = 'ROLLING';
+
+	enter(_ctx: FighterContext): void {
+		// stateTimer set by the REQUEST_ROLL event
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) return 'IDLE';
+		return null;
+	}
+
+	exit(_ctx: FighterContext): void {
+		// The match loop notices the roll finished and moves the fighter's location
+	}
+
+	handleEvent(_ctx: FighterContext, _event: FSMEvent): FighterStateId | null {
+		return null;
+	}
+}
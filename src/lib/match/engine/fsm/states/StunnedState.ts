@@ -14,6 +14,8 @@ import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId
  *   - Timer expires    → IDLE (recovered from stun)
  *   - KNOCKDOWN        → KNOCKED_DOWN (escalation — hit again while stunned)
  *   - HIT_RECEIVED     → STUNNED (refresh stun timer — stun chain)
+ *   - SUBMISSION_LOCK  → SUBMISSION_LOCKED (caught in a hold)
+ *   - GRAPPLE_HELD     → GRAPPLED (grabbed while reeling)
  *
  * Can be interrupted by KNOCKDOWN (but NOT by voluntary actions).
  */
@@ -55,6 +57,16 @@ export class StunnedState extends FighterState {
 				ctx.stateTimer = event.lockFrames;
 				return 'FINISHER_LOCKED';
 
+			case 'SUBMISSION_LOCK':
+				ctx.holdAttackerId = event.attackerId;
+				ctx.stateTimer = event.maxFrames;
+				return 'SUBMISSION_LOCKED';
+
+			case 'GRAPPLE_HELD':
+				ctx.holdAttackerId = event.attackerId;
+				ctx.stateTimer = event.maxFrames;
+				return 'GRAPPLED';
+
 			default:
 				// Ignore voluntary actions while stunned
 				return null;
@@ -0,0 +1,65 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+
+/**
+ * SUBMISSION_HOLD — the fighter has locked in a submission move.
+ *
+ * Entered from ATTACK_ACTIVE via APPLY_SUBMISSION when a submission-category
+ * move connects. The hold keeps activeMoveId so the renderer can pose it.
+ * Damage, rope breaks, escapes and tap-outs are driven by the match loop.
+ *
+ * Duration: safety cap set by the APPLY_SUBMISSION event (maxFrames).
+ *
+ * Transitions OUT:
+ *   - HOLD_RELEASE (stunFrames > 0) → STUNNED (opponent fought out of it)
+ *   - HOLD_RELEASE (stunFrames = 0) → IDLE (rope break — clean release)
+ *   - Timer expires (fallback safety) → IDLE
+ *
+ * All other events are ignored while holding.
+ */
+export class SubmissionHoldState extends FighterState {
+	readonly id: FighterStateId = 'SUBMISSION_HOLD';
+
+	enter(ctx: FighterContext): void {
+		// stateTimer and targetId set by the APPLY_SUBMISSION event;
+		// activeMoveId is kept from the attack that applied the hold
+		ctx.pendingActions.push({ type: 'HOLD_STARTED', hold: 'submission' });
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) {
+			// Fallback safety: the match loop never resolved the hold
+			return 'IDLE';
+		}
+		return null;
+	}
+
+	exit(ctx: FighterContext): void {
+		ctx.activeMoveId = null;
+		ctx.targetId = null;
+		ctx.pendingActions.push({ type: 'HOLD_RELEASED' });
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'HOLD_RELEASE':
+				if (event.stunFrames > 0) {
+					ctx.stateTimer = event.stunFrames;
+					return 'STUNNED';
+				}
+				return 'IDLE';
+
+			default:
+				return null;
+		}
+	}
+
+	get interruptibleByStun(): boolean {
+		return false;
+	}
+
+	get interruptibleByKnockdown(): boolean {
+		return false;
+	}
+}
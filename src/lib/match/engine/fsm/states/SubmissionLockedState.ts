@@ -0,0 +1,61 @@
+import { FighterState } from '../FighterState';
+import type { FighterStateId, FighterContext, FSMEvent } from '../FighterStateId';
+import { GETTING_UP_FRAMES } from './KnockedDownState';
+
+/**
+ * SUBMISSION_LOCKED — the fighter is trapped in an opponent's submission hold.
+ *
+ * Entered via SUBMISSION_LOCK from STUNNED (the hold's HIT_RECEIVED is
+ * processed first), KNOCKED_DOWN or GETTING_UP. The fighter cannot act;
+ * the match loop advances the crawl to the ropes, escape attempts and the
+ * tap-out check.
+ *
+ * Duration: safety cap set by the SUBMISSION_LOCK event (maxFrames).
+ *
+ * Transitions OUT:
+ *   - HOLD_RELEASE                    → GETTING_UP (released on the mat)
+ *   - Timer expires (fallback safety) → GETTING_UP
+ *
+ * All other events are ignored while locked.
+ */
+export class SubmissionLockedState extends FighterState {
+	readonly id: FighterStateId = 'SUBMISSION_LOCKED';
+
+	enter(ctx: FighterContext): void {
+		// stateTimer and holdAttackerId set by the SUBMISSION_LOCK event
+		ctx.activeMoveId = null;
+		ctx.targetId = null;
+	}
+
+	update(ctx: FighterContext, _dt: number): FighterStateId | null {
+		ctx.stateTimer--;
+		if (ctx.stateTimer <= 0) {
+			ctx.stateTimer = GETTING_UP_FRAMES;
+			return 'GETTING_UP';
+		}
+		return null;
+	}
+
+	exit(ctx: FighterContext): void {
+		ctx.holdAttackerId = null;
+	}
+
+	handleEvent(ctx: FighterContext, event: FSMEvent): FighterStateId | null {
+		switch (event.type) {
+			case 'HOLD_RELEASE':
+				ctx.stateTimer = GETTING_UP_FRAMES;
+				return 'GETTING_UP';
+
+			default:
+				return null;
+		}
+	}
+
+	get interruptibleByStun(): boolean {
+		return false;
+	}
+
+	get interruptibleByKnockdown(): boolean {
+		return false;
+	}
+}
@@ -1,9 +1,76 @@
 export { MatchLoop, type MatchLoopConfig, type WrestlerInput, type HitImpactEvent, type MatchDebugger, type DebugPhase } from './MatchLoop';
 export { matchReducer } from './MatchReducer';
-export { Agent, type AgentAction, type DecisionContext } from './Agent';
+export { Agent, type AgentAction, type DecisionContext, type FighterBrain } from './Agent';
+export {
+	HumanController,
+	KeyboardInput,
+	GamepadInput,
+	InputRecorder,
+	InputPlayback,
+	mergeInputSources,
+	HUMAN_COMMANDS,
+	INPUT_BUFFER_FRAMES,
+	type HumanCommand,
+	type InputFrame,
+	type InputSource,
+	type RecordedInputFrame
+} from './input';
+export { StrategyAdapter, createStrategy, observeAgent, STRATEGY_IDS, type StrategyId } from './StrategyAdapter';
+export {
+	computeLegality,
+	canAfford,
+	inMoveRange,
+	inMoveReach,
+	inRingTogether,
+	canWhip,
+	meetsMomentumGate,
+	movesForAction,
+	type ActionLegality,
+	type LegalityInput
+} from './ActionLegality';
 export { CombatResolver, type CombatResult } from './CombatResolver';
 export { ComebackSystem } from './ComebackSystem';
+export { PinSystem, PIN_COUNT_FRAMES, PIN_RANGE } from './PinSystem';
+export { SubmissionSystem, type SubmissionOutcome, type SubmissionTickResult } from './SubmissionSystem';
+export { GrappleSystem, type GrappleAction } from './GrappleSystem';
 export { EmotionMachine } from './EmotionMachine';
+export { TargetingSystem, opponentOf, isTeammate, type TargetingPolicy } from './TargetingSystem';
+export type { MatchContext } from './MatchContext';
+export { TagTeamSystem } from './TagTeamSystem';
+export { RumbleSystem, buildRumbleSummary } from './RumbleSystem';
+export { CageSystem, exitX, CAGE_DOOR_SIDE, type EscapeExit } from './CageSystem';
+export { RingsideSystem, THROW_OUT_MOVE, COUNT_OUT_LIMIT, COUNT_INTERVAL_TICKS, type RollIntent } from './RingsideSystem';
+export {
+	CrowdSystem,
+	createCrowdState,
+	POP_VALUES,
+	STARTING_HEAT,
+	type CrowdCall,
+	type CrowdUpdate,
+	type CrowdChantCall
+} from './CrowdSystem';
+export {
+	BatchRunner,
+	roundRobin,
+	batchReportToCSV,
+	FINISH_METHODS,
+	type BatchConfig,
+	type BatchReport,
+	type BatchCSV,
+	type MatchRecord,
+	type WrestlerSummary,
+	type MoveSummary,
+	type MatchTypeSummary
+} from './BatchRunner';
+export {
+	MatchEnv,
+	SelfPlayEnv,
+	type MatchEnvConfig,
+	type EnvAction,
+	type EnvStep,
+	type EnvStepInfo
+} from './MatchEnv';
+export { TrainingSession, type TrainingSessionConfig } from './TrainingSession';
 export { computeEffectiveModifiers, type EffectiveModifiers } from './TraitFormulas';
 export { PSYCH_PROFILES, validateProfile } from './BalanceConfig';
 export type {
@@ -14,7 +81,17 @@ export type {
 	AgentPersonality,
 	MatchAction,
 	MatchResult,
-	MatchLogEntry
+	MatchLogEntry,
+	HoldState,
+	GrappleState,
+	AgentLocation,
+	RumbleState,
+	RumbleSummary,
+	EscapeState,
+	CountOutState,
+	CrowdState,
+	CrowdChant,
+	CrowdChantKind
 } from './MatchState';
 export type {
 	EmotionalState,
@@ -35,7 +112,7 @@ export type { FighterStateId, FighterContext, FSMAction, FSMEvent } from './fsm'
 
 // ── Movement ──
 export { MovementController } from './movement';
-export type { MovementConfig } from './movement';
+export type { MovementConfig, MovementArea } from './movement';
 export {
 	MAX_MOVE_SPEED,
 	STOP_THRESHOLD,
@@ -43,11 +120,42 @@ export {
 	MIN_SEPARATION,
 	KNOCKBACK_DECAY,
 	DEFAULT_ATTACK_RANGE,
-	RING_Y
+	RING_Y,
+	RING_HALF_Z,
+	ringDistance,
+	directionBetween,
+	ropeDistance,
+	nearestRope,
+	cornerAt,
+	nearestCorner,
+	cornerPosition,
+	ringZone,
+	ropePointAlong,
+	ringsideZone,
+	ringsideSpot,
+	ringEntrySpot,
+	clampToRingside,
+	APRON_EDGE,
+	BARRICADE_HALF
 } from './movement';
+export type { RingSide, RingCorner, RingZone, RingsideZone, RingPoint } from './movement';
 
 // ── Combo System ──
 export { ComboTracker, type ComboHitResult, type ComboBreakReason } from './ComboTracker';
 
 // ── Debug ──
 export { ConsoleMatchDebugger, BufferMatchDebugger, type DebugVerbosity } from './MatchDebugLogger';
+
+// ── Determinism ──
+export { hashMatchState } from './StateHash';
+export {
+	DeterminismVerifier,
+	StateHashRecorder,
+	diffAgentStates,
+	describeDesync,
+	type DeterminismTrace,
+	type DeterminismResult,
+	type DesyncReport,
+	type AgentFieldDiff,
+	type StateHashRecorderOptions
+} from './DeterminismVerifier';
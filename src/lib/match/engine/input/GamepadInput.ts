@@ -0,0 +1,71 @@
+import type { HumanCommand, InputFrame, InputSource } from './InputSource';
+
+/**
+ * Button bindings by standard-mapping button index.
+ * See https://w3c.github.io/gamepad/#remapping for the standard layout.
+ */
+export type GamepadBindings = Record<HumanCommand, number[]>;
+
+/** Default bindings for a standard-mapping controller. */
+export const DEFAULT_GAMEPAD_BINDINGS: GamepadBindings = {
+	strike_head: [3],   // Y / Triangle
+	strike_body: [0],   // A / Cross
+	strike_legs: [1],   // B / Circle
+	grapple: [2],       // X / Square
+	block: [5],         // RB
+	taunt: [4],         // LB
+	finisher: [7],      // RT
+	pin: [13],          // D-pad down
+	tag: [12],          // D-pad up
+	climb: [11],        // R3
+	door: [9],          // Start
+	ringside: [8],      // Back / Select
+	run_ropes: [10],    // L3
+	whip: [6]           // LT
+};
+
+/** Standard-mapping indices for the d-pad. */
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+/**
+ * GamepadInput — InputSource backed by the Gamepad API.
+ *
+ * The Gamepad API has no events for buttons, so state is sampled on
+ * every poll and presses are detected as up→down edges.
+ * Movement uses the left stick, or the d-pad left/right when the stick is
+ * idle (d-pad up/down are tag and pin, so depth is stick-only).
+ */
+export class GamepadInput implements InputSource {
+	private previous: boolean[] = [];
+
+	constructor(
+		private readonly index: number = 0,
+		private readonly bindings: GamepadBindings = DEFAULT_GAMEPAD_BINDINGS
+	) {}
+
+	poll(): InputFrame {
+		const pad = typeof navigator !== 'undefined' && navigator.getGamepads
+			? navigator.getGamepads()[this.index]
+			: null;
+		if (!pad) {
+			this.previous = [];
+			return { moveAxis: 0, depthAxis: 0, commands: [] };
+		}
+
+		const pressed = pad.buttons.map((b) => b.pressed);
+		const commands: HumanCommand[] = [];
+		for (const [command, buttons] of Object.entries(this.bindings) as [HumanCommand, number[]][]) {
+			if (buttons.some((i) => pressed[i] && !this.previous[i])) {
+				commands.push(command);
+			}
+		}
+		this.previous = pressed;
+
+		let moveAxis = pad.axes[0] ?? 0;
+		if (pressed[DPAD_LEFT]) moveAxis = -1;
+		else if (pressed[DPAD_RIGHT]) moveAxis = 1;
+
+		return { moveAxis, depthAxis: pad.axes[1] ?? 0, commands };
+	}
+}
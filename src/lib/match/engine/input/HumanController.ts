@@ -0,0 +1,211 @@
+import type { AgentState } from '../MatchState';
+import type { AgentAction, DecisionContext, FighterBrain } from '../Agent';
+import type { MoveDef } from '../../../combat/MoveRegistry';
+import type { BodyRegion } from '../../../utils/types';
+import type { HumanCommand, InputSource } from './InputSource';
+import { SeededRandom } from '../../../utils/random';
+
+/** How many ticks a pressed command stays buffered before it is dropped. */
+export const INPUT_BUFFER_FRAMES = 12;
+
+/** Dead zone below which an analog movement axis is ignored. */
+const AXIS_DEAD_ZONE = 0.25;
+
+/** How far ahead of the fighter a held direction sets the movement target. */
+const MOVE_STEP = 1.0;
+
+/** Momentum required for signature moves (matches Agent). */
+const SIGNATURE_MOMENTUM = 50;
+
+/** Extra reach tolerance when checking if a move is in range (matches Agent). */
+const RANGE_TOLERANCE = 0.2;
+
+/**
+ * A buffered command, stamped with the tick it was read.
+ */
+interface BufferedCommand {
+	command: HumanCommand;
+	tick: number;
+}
+
+/**
+ * HumanController — a FighterBrain driven by player input.
+ *
+ * Polls its InputSource once per tick (via onTick) and buffers pressed
+ * commands for INPUT_BUFFER_FRAMES. Buffered commands are only consumed
+ * when the FSM can act on them:
+ *   - decide() is only called by MatchLoop while the FSM acceptsInput
+ *   - attack commands and Irish whips wait until ctx.canAttack (attack
+ *     cooldown expired)
+ *   - during a COMBO_WINDOW, any buffered attack chains the combo
+ *   - while in control of a grapple, MatchLoop also calls decide(): an
+ *     attack picks a move from the position, moving toward the opponent
+ *     changes position, moving away or blocking lets go
+ *
+ * Pressing early therefore still lands the input as soon as the fighter
+ * recovers, while stale presses expire instead of firing much later.
+ *
+ * Held directions move the fighter around the ring on both axes: left and
+ * right along X, up and down the screen along Z.
+ *
+ * Move selection within a command (e.g. which head strike) uses the
+ * match's SeededRandom, so a recorded input stream replays identically.
+ */
+export class HumanController implements FighterBrain {
+	readonly manual = true;
+
+	private buffer: BufferedCommand[] = [];
+	private moveAxis = 0;
+	private depthAxis = 0;
+
+	constructor(
+		private readonly source: InputSource,
+		private readonly rng: SeededRandom,
+		private readonly availableMoves: MoveDef[]
+	) {}
+
+	/**
+	 * Poll the input source and expire stale buffered commands.
+	 * Called by MatchLoop at the start of every decision phase.
+	 */
+	onTick(tick: number): void {
+		const frame = this.source.poll();
+		this.moveAxis = Math.abs(frame.moveAxis) >= AXIS_DEAD_ZONE ? Math.sign(frame.moveAxis) : 0;
+		this.depthAxis = Math.abs(frame.depthAxis) >= AXIS_DEAD_ZONE ? Math.sign(frame.depthAxis) : 0;
+		for (const command of frame.commands) {
+			this.buffer.push({ command, tick });
+		}
+		this.buffer = this.buffer.filter((b) => tick - b.tick <= INPUT_BUFFER_FRAMES);
+	}
+
+	/**
+	 * During a COMBO_WINDOW: chain only if the player pressed an attack.
+	 * Consumes that command so it doesn't also start a fresh attack.
+	 */
+	requestComboChain(): boolean {
+		const idx = this.buffer.findIndex((b) => isAttackCommand(b.command));
+		if (idx < 0) return false;
+		this.buffer.splice(idx, 1);
+		return true;
+	}
+
+	/**
+	 * Turn the oldest actionable buffered command into an AgentAction.
+	 * Falls back to held movement, then idle.
+	 */
+	decide(self: AgentState, _opponent: AgentState, ctx: DecisionContext): AgentAction {
+		for (let i = 0; i < this.buffer.length; i++) {
+			const { command } = this.buffer[i];
+			if ((isAttackCommand(command) || command === 'whip') && !ctx.canAttack) continue;
+
+			const action = this.resolve(command, self, ctx);
+			if (!action) {
+				// Nothing usable for this press (out of range / no stamina) — drop it
+				this.buffer.splice(i, 1);
+				i--;
+				continue;
+			}
+
+			this.buffer.splice(i, 1);
+			return action;
+		}
+
+		if (this.moveAxis !== 0 || this.depthAxis !== 0) {
+			// Diagonals cover the same distance as a straight step
+			const step = MOVE_STEP / Math.hypot(this.moveAxis, this.depthAxis);
+			return {
+				type: 'move',
+				targetX: self.positionX + this.moveAxis * step,
+				targetZ: self.positionZ + this.depthAxis * step
+			};
+		}
+		return { type: 'idle' };
+	}
+
+	/** Clear buffered input (e.g. between falls or on pause). */
+	clear(): void {
+		this.buffer = [];
+		this.moveAxis = 0;
+		this.depthAxis = 0;
+	}
+
+	/** Number of commands currently buffered (for input display overlays). */
+	get bufferedCount(): number {
+		return this.buffer.length;
+	}
+
+	/**
+	 * Map a command to an AgentAction, or null if it can't be performed.
+	 */
+	private resolve(command: HumanCommand, self: AgentState, ctx: DecisionContext): AgentAction | null {
+		switch (command) {
+			case 'block':
+				return { type: 'block' };
+			case 'taunt':
+				return { type: 'taunt' };
+			case 'finisher':
+				return { type: 'finisher' };
+			case 'pin':
+				return { type: 'pin' };
+			case 'tag':
+				return { type: 'tag' };
+			case 'climb':
+				return { type: 'climb' };
+			case 'door':
+				return { type: 'door' };
+			case 'ringside':
+				return { type: 'ringside' };
+			case 'run_ropes':
+				return { type: 'run_ropes' };
+			case 'whip':
+				return { type: 'whip' };
+			case 'grapple':
+				return this.pickMove(self, ctx, (m) => m.category === 'grapple' || m.category === 'submission');
+			case 'strike_head':
+				return this.pickStrike(self, ctx, 'head');
+			case 'strike_body':
+				return this.pickStrike(self, ctx, 'body');
+			case 'strike_legs':
+				return this.pickStrike(self, ctx, 'legs');
+		}
+	}
+
+	/**
+	 * Pick a strike aimed at a body region. Falls back to any standing
+	 * attack on that region, then to any strike, so every button does something.
+	 */
+	private pickStrike(self: AgentState, ctx: DecisionContext, region: BodyRegion): AgentAction | null {
+		return this.pickMove(self, ctx, (m) => m.category === 'strike' && m.region === region)
+			?? this.pickMove(self, ctx, (m) =>
+				m.region === region && m.category !== 'grapple' && m.category !== 'finisher')
+			?? this.pickMove(self, ctx, (m) => m.category === 'strike');
+	}
+
+	/**
+	 * Pick a random affordable, in-range move matching the filter.
+	 */
+	private pickMove(
+		self: AgentState,
+		ctx: DecisionContext,
+		filter: (move: MoveDef) => boolean
+	): AgentAction | null {
+		const candidates = this.availableMoves.filter((m) =>
+			filter(m)
+			&& m.staminaCost <= self.stamina
+			&& ctx.distance <= m.hitbox.range + RANGE_TOLERANCE
+			&& (m.category !== 'signature' || self.momentum >= SIGNATURE_MOMENTUM)
+			// Corner, rope and top-rope moves only once the ring position is set up
+			&& (!m.position || (ctx.legality?.moveIds.has(m.id) ?? false))
+		);
+		if (candidates.length === 0) return null;
+		return { type: 'attack', moveId: this.rng.pick(candidates).id };
+	}
+}
+
+/** Whether a command starts an attack (and is therefore gated by attack cooldown). */
+function isAttackCommand(command: HumanCommand): boolean {
+	return command === 'strike_head'
+		|| command === 'strike_body'
+		|| command === 'strike_legs'
+		|| command === 'grapple';
+}
@@ -0,0 +1,88 @@
+/**
+ * Discrete commands a human player can issue.
+ * Each maps onto the same FSM events the AI pushes.
+ */
+export type HumanCommand =
+	| 'strike_head'
+	| 'strike_body'
+	| 'strike_legs'
+	| 'grapple'
+	| 'block'
+	| 'taunt'
+	| 'finisher'
+	| 'pin'
+	| 'tag'
+	| 'climb'
+	| 'door'
+	| 'ringside'
+	| 'run_ropes'
+	| 'whip';
+
+/** All human commands, in binding/display order. */
+export const HUMAN_COMMANDS: readonly HumanCommand[] = [
+	'strike_head',
+	'strike_body',
+	'strike_legs',
+	'grapple',
+	'block',
+	'taunt',
+	'finisher',
+	'pin',
+	'tag',
+	'climb',
+	'door',
+	'ringside',
+	'run_ropes',
+	'whip'
+];
+
+/**
+ * One tick's worth of player input.
+ */
+export interface InputFrame {
+	/** Horizontal movement axis: -1 (left) … +1 (right). 0 = no movement. */
+	moveAxis: number;
+	/** Depth movement axis: -1 (up the screen, away from the hard cam) … +1 (down, toward it). */
+	depthAxis: number;
+	/** Commands newly pressed since the previous poll (edge-triggered). */
+	commands: HumanCommand[];
+}
+
+/**
+ * InputSource — anything that can be polled once per simulation tick.
+ * Implemented by KeyboardInput, GamepadInput, and merged sources.
+ * Kept DOM-free so the engine can also be fed recorded or scripted input.
+ */
+export interface InputSource {
+	poll(): InputFrame;
+	/** Release any listeners/resources held by the source. */
+	dispose?(): void;
+}
+
+/**
+ * Combine several input sources into one.
+ * Movement axes are summed and clamped; commands are concatenated in source order.
+ */
+export function mergeInputSources(...sources: InputSource[]): InputSource {
+	return {
+		poll(): InputFrame {
+			let moveAxis = 0;
+			let depthAxis = 0;
+			const commands: HumanCommand[] = [];
+			for (const source of sources) {
+				const frame = source.poll();
+				moveAxis += frame.moveAxis;
+				depthAxis += frame.depthAxis;
+				commands.push(...frame.commands);
+			}
+			return {
+				moveAxis: Math.max(-1, Math.min(1, moveAxis)),
+				depthAxis: Math.max(-1, Math.min(1, depthAxis)),
+				commands
+			};
+		},
+		dispose(): void {
+			for (const source of sources) source.dispose?.();
+		}
+	};
+}
@@ -0,0 +1,99 @@
+import type { HumanCommand, InputFrame, InputSource } from './InputSource';
+
+/**
+ * Key bindings, keyed by KeyboardEvent.code (layout-independent).
+ */
+export interface KeyBindings {
+	left: string[];
+	right: string[];
+	up: string[];
+	down: string[];
+	commands: Record<HumanCommand, string[]>;
+}
+
+/** Default bindings: WASD-style movement on the left hand, actions on the right. */
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+	left: ['KeyA', 'ArrowLeft'],
+	right: ['KeyD', 'ArrowRight'],
+	up: ['KeyW', 'ArrowUp'],
+	down: ['KeyS', 'ArrowDown'],
+	commands: {
+		strike_head: ['KeyJ'],
+		strike_body: ['KeyK'],
+		strike_legs: ['KeyL'],
+		grapple: ['KeyI'],
+		block: ['Space'],
+		taunt: ['KeyT'],
+		finisher: ['KeyF'],
+		pin: ['KeyO'],
+		tag: ['KeyH'],
+		climb: ['KeyC'],
+		door: ['KeyE'],
+		ringside: ['KeyR'],
+		run_ropes: ['ShiftLeft', 'ShiftRight'],
+		whip: ['KeyU']
+	}
+};
+
+/**
+ * KeyboardInput — InputSource backed by window key events.
+ *
+ * Key events arrive asynchronously, so presses are collected between
+ * polls and handed over once per tick. Held keys drive the movement axis.
+ * Auto-repeat keydowns are ignored so holding a strike key doesn't spam.
+ */
+export class KeyboardInput implements InputSource {
+	private readonly held = new Set<string>();
+	private pending: HumanCommand[] = [];
+	private readonly commandByCode = new Map<string, HumanCommand>();
+
+	private readonly onKeyDown = (e: KeyboardEvent) => {
+		const command = this.commandByCode.get(e.code);
+		const { left, right, up, down } = this.bindings;
+		const isMove = [left, right, up, down].some((codes) => codes.includes(e.code));
+		if (!command && !isMove) return;
+
+		e.preventDefault();
+		if (e.repeat) return;
+		this.held.add(e.code);
+		if (command) this.pending.push(command);
+	};
+
+	private readonly onKeyUp = (e: KeyboardEvent) => {
+		this.held.delete(e.code);
+	};
+
+	private readonly onBlur = () => {
+		this.held.clear();
+	};
+
+	constructor(
+		private readonly target: Window = window,
+		private readonly bindings: KeyBindings = DEFAULT_KEY_BINDINGS
+	) {
+		for (const [command, codes] of Object.entries(bindings.commands) as [HumanCommand, string[]][]) {
+			for (const code of codes) this.commandByCode.set(code, command);
+		}
+		target.addEventListener('keydown', this.onKeyDown);
+		target.addEventListener('keyup', this.onKeyUp);
+		target.addEventListener('blur', this.onBlur);
+	}
+
+	poll(): InputFrame {
+		const left = this.bindings.left.some((c) => this.held.has(c)) ? 1 : 0;
+		const right = this.bindings.right.some((c) => this.held.has(c)) ? 1 : 0;
+		const up = this.bindings.up.some((c) => this.held.has(c)) ? 1 : 0;
+		const down = this.bindings.down.some((c) => this.held.has(c)) ? 1 : 0;
+		const commands = this.pending;
+		this.pending = [];
+		return { moveAxis: right - left, depthAxis: down - up, commands };
+	}
+
+	dispose(): void {
+		this.target.removeEventListener('keydown', this.onKeyDown);
+		this.target.removeEventListener('keyup', this.onKeyUp);
+		this.target.removeEventListener('blur', this.onBlur);
+		this.held.clear();
+		this.pending = [];
+	}
+}
@@ -0,0 +1,84 @@
+import type { HumanCommand, InputFrame, InputSource } from './InputSource';
+
+/**
+ * One change in a recorded input stream.
+ * Only polls where a movement axis changed or a command was pressed are
+ * kept — every poll in between repeats the last axes with no commands.
+ */
+export interface RecordedInputFrame {
+	/** Index of the poll (0 = first poll of the match). */
+	poll: number;
+	moveAxis: number;
+	depthAxis: number;
+	commands: HumanCommand[];
+}
+
+/**
+ * InputRecorder — passes another InputSource through unchanged while
+ * keeping a sparse log of every poll.
+ *
+ * MatchLoop polls each human controller exactly once per decision phase,
+ * and the match is deterministic, so replaying the log poll-for-poll into
+ * the same match (see InputPlayback) reproduces it exactly.
+ */
+export class InputRecorder implements InputSource {
+	private readonly log: RecordedInputFrame[] = [];
+	private polls = 0;
+	private lastAxis = 0;
+	private lastDepth = 0;
+
+	constructor(private readonly source: InputSource) {}
+
+	poll(): InputFrame {
+		const frame = this.source.poll();
+		if (frame.moveAxis !== this.lastAxis || frame.depthAxis !== this.lastDepth || frame.commands.length > 0) {
+			this.log.push({
+				poll: this.polls,
+				moveAxis: frame.moveAxis,
+				depthAxis: frame.depthAxis,
+				commands: [...frame.commands]
+			});
+			this.lastAxis = frame.moveAxis;
+			this.lastDepth = frame.depthAxis;
+		}
+		this.polls++;
+		return frame;
+	}
+
+	/** The recorded stream so far. */
+	get frames(): RecordedInputFrame[] {
+		return [...this.log];
+	}
+
+	dispose(): void {
+		this.source.dispose?.();
+	}
+}
+
+/**
+ * InputPlayback — replays a stream captured by InputRecorder, one
+ * recorded poll per poll() call.
+ */
+export class InputPlayback implements InputSource {
+	private polls = 0;
+	private next = 0;
+	private moveAxis = 0;
+	private depthAxis = 0;
+
+	constructor(private readonly frames: readonly RecordedInputFrame[]) {}
+
+	poll(): InputFrame {
+		const poll = this.polls++;
+		// Skip anything older than this poll (malformed streams)
+		while (this.next < this.frames.length && this.frames[this.next].poll < poll) this.next++;
+
+		const frame = this.frames[this.next];
+		if (frame && frame.poll === poll) {
+			this.next++;
+			this.moveAxis = frame.moveAxis;
+			this.depthAxis = frame.depthAxis;
+			return { moveAxis: frame.moveAxis, depthAxis: frame.depthAxis, commands: [...frame.commands] };
+		}
+		return { moveAxis: this.moveAxis, depthAxis: this.depthAxis, commands: [] };
+	}
+}
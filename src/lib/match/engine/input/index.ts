@@ -0,0 +1,20 @@
+/**
+ * Human Input — Barrel Export
+ *
+ * Player control for MatchLoop fighters.
+ * Input sources are polled once per tick; HumanController buffers
+ * the commands and turns them into the same actions the AI emits.
+ */
+
+export {
+	HUMAN_COMMANDS,
+	mergeInputSources,
+	type HumanCommand,
+	type InputFrame,
+	type InputSource
+} from './InputSource';
+
+export { HumanController, INPUT_BUFFER_FRAMES } from './HumanController';
+export { KeyboardInput, DEFAULT_KEY_BINDINGS, type KeyBindings } from './KeyboardInput';
+export { GamepadInput, DEFAULT_GAMEPAD_BINDINGS, type GamepadBindings } from './GamepadInput';
+export { InputRecorder, InputPlayback, type RecordedInputFrame } from './RecordedInput';
@@ -1,17 +1,29 @@
 import type { FighterStateId } from '../fsm/FighterStateId';
 import { clamp } from '../../../utils/math';
+import {
+	RING_HALF_X,
+	RING_HALF_Z,
+	RINGSIDE_OUTER,
+	clampToRingside,
+	nearestRope,
+	ropeDistance,
+	type RingSide
+} from './RingGeometry';
 
 /**
  * MovementController — kinematic movement for one fighter.
  *
  * Bridges the gap between the FSM (game logic) and the position system.
  * Instead of the FSM directly mutating positionX via MovingState,
- * this controller computes smooth, physics-like movement with:
+ * this controller computes smooth, physics-like movement on the X/Z mat with:
  *   - Deceleration near target (anti-overshoot)
- *   - Ring boundary clamping
+ *   - Ring boundary clamping (square ring, see RingGeometry)
  *   - Minimum fighter separation
  *   - Knockback impulses with exponential decay
+ *   - Rope rebounds, and sprints at the ropes for rope running
  *   - Facing direction tracking
+ *   - Steel cage walls (bounce + impact reporting) when enabled
+ *   - The ringside floor and its barricade, for fighters outside the ring
  *
  * Architecture:
  *   AI/MatchLoop decides "move toward opponent"
@@ -21,14 +33,35 @@ import { clamp } from '../../../utils/math';
  * Movement model:
  *   - Kinematic velocity control (we SET position, not apply forces)
  *   - Instant acceleration/deceleration (arcade feel, not sim)
+ *   - Straight-line walking toward a target on X and Z
  *   - Anti-jitter: velocity snaps to 0 when within stopping distance
- *   - Ring boundary clamping: fighters can't leave the mat
+ *   - Area clamping: fighters stay in the area they're in (see below)
  *   - Facing direction: stored as a signed value, always toward opponent
  *
  * Knockback:
  *   - External systems call applyKnockback(impulse) for hit reactions
  *   - Knockback is additive on top of movement velocity
  *   - Knockback decays over time (friction-like damping)
+ *
+ * Ropes:
+ *   - Knockback driving into the ropes above ROPE_REBOUND_MIN_SPEED
+ *     bounces back (ROPE_RESTITUTION) and is reported via ropeRebound
+ *   - run() sprints at ROPE_RUN_SPEED_MULTIPLIER with no slow-down; a run
+ *     that reaches the ropes rebounds (ropeRebound) and stops
+ *
+ * Cage walls:
+ *   - The cage stands at the ring boundary, so clamping is unchanged
+ *   - Knockback driving into a wall above CAGE_IMPACT_MIN_SPEED bounces
+ *     back (CAGE_RESTITUTION) and is reported once via wallImpact
+ *   - With the cage up, the steel takes the place of the ropes
+ *
+ * Areas (setArea, kept in step with AgentState.location by the match loop):
+ *   - 'ring':     the mat inside the ropes (everything above applies)
+ *   - 'floor':    the ringside floor, between the apron and the barricade;
+ *     knockback into the barricade above BARRICADE_IMPACT_MIN_SPEED
+ *     bounces back (BARRICADE_RESTITUTION) and is reported via wallImpact
+ *   - 'crossing': rolling under the ropes between the two; only the
+ *     barricade holds the fighter in
  */
 
 // ─── Constants ─────────────────────────────────────────────────────
@@ -39,9 +72,6 @@ const MAX_MOVE_SPEED = 4.8;
 /** Stopping distance: snap to target when this close (prevents oscillation). */
 const STOP_THRESHOLD = 0.05;
 
-/** Ring mat half-width on X axis. Fighters can't go beyond ±RING_HALF. */
-const RING_HALF_X = 2.8;
-
 /** Minimum separation between fighters to prevent overlap. */
 const MIN_SEPARATION = 0.6;
 
@@ -58,6 +88,27 @@ const DEFAULT_ATTACK_RANGE = 1.2;
 /** Ring height (Y position on mat). */
 const RING_Y = 1.2;
 
+/** Knockback speed into a cage wall that counts as a slam (units/second). */
+const CAGE_IMPACT_MIN_SPEED = 5.0;
+
+/** Share of knockback speed kept when bouncing off a cage wall. */
+const CAGE_RESTITUTION = 0.35;
+
+/** Knockback speed into the ropes that bounces a fighter back (units/second). */
+const ROPE_REBOUND_MIN_SPEED = 3.0;
+
+/** Share of knockback speed kept when bouncing off the ropes (they're springy). */
+const ROPE_RESTITUTION = 0.8;
+
+/** Sprint speed when running the ropes, as a multiple of the walking speed. */
+const ROPE_RUN_SPEED_MULTIPLIER = 1.5;
+
+/** Knockback speed into the ringside barricade that counts as a slam (units/second). */
+const BARRICADE_IMPACT_MIN_SPEED = 4.0;
+
+/** Share of knockback speed kept when bouncing off the barricade. */
+const BARRICADE_RESTITUTION = 0.3;
+
 // ─── Movement Config ───────────────────────────────────────────────
 
 export interface MovementConfig {
@@ -65,14 +116,27 @@ export interface MovementConfig {
 	maxSpeed?: number;
 	/** Preferred distance from opponent to stop at. Defaults to DEFAULT_ATTACK_RANGE. */
 	attackRange?: number;
+	/** Steel cage walls at the ring boundary (fighters bounce off them). */
+	cageWalls?: boolean;
 }
 
+/** Where a fighter can move: inside the ropes, on the ringside floor, or under the ropes in between. */
+export type MovementArea = 'ring' | 'floor' | 'crossing';
+
 // ─── States that allow voluntary movement ──────────────────────────
 
-/** FSM states where the fighter can actively move toward a target. */
+/**
+ * FSM states where the fighter can actively move toward a target.
+ * Both sides of a lock-up and the fighter in control of a grapple walk into
+ * the clinch; the held fighter is carried along by them. A rolling fighter
+ * is carried under the ropes to the spot the match loop picked.
+ */
 const MOVEMENT_ALLOWED_STATES: ReadonlySet<FighterStateId> = new Set([
 	'IDLE',
-	'MOVING'
+	'MOVING',
+	'LOCK_UP',
+	'GRAPPLE_CONTROL',
+	'ROLLING'
 ]);
 
 /** FSM states where the fighter's velocity is forced to zero (no sliding). */
@@ -84,7 +148,15 @@ const FROZEN_STATES: ReadonlySet<FighterStateId> = new Set([
 	'ATTACK_ACTIVE',
 	'ATTACK_RECOVERY',
 	'BLOCKING',
-	'TAUNTING'
+	'TAUNTING',
+	'PINNING',
+	'PINNED',
+	'SUBMISSION_HOLD',
+	'SUBMISSION_LOCKED',
+	'ESCAPING',
+	'GRAPPLED',
+	'CLIMBING',
+	'PERCHED'
 ]);
 
 // ─── Controller ────────────────────────────────────────────────────
@@ -92,13 +164,15 @@ const FROZEN_STATES: ReadonlySet<FighterStateId> = new Set([
 export class MovementController {
 	private readonly maxSpeed: number;
 	private readonly attackRange: number;
+	private readonly cageWalls: boolean;
 
 	/** Current position (authoritative, synced back to MatchState). */
 	private _positionX = 0;
 	private _positionZ = 0;
 
-	/** Current movement velocity (X axis, units/second). */
+	/** Current movement velocity (units/second). */
 	private _velocityX = 0;
+	private _velocityZ = 0;
 
 	/** Knockback velocity (decays over time, units/second). */
 	private _knockbackX = 0;
@@ -112,13 +186,27 @@ export class MovementController {
 
 	/** Target position to move toward (set by FSM/AI). */
 	private _targetX = 0;
+	private _targetZ = 0;
 
 	/** Has a movement target been set? */
 	private _hasTarget = false;
 
+	/** Sprinting at the ropes (set by run(), cleared on any other command). */
+	private _running = false;
+
+	/** Speed of a cage wall impact this tick (0 = none). */
+	private _wallImpact = 0;
+
+	/** Rope the fighter bounced off this tick (null = none). */
+	private _ropeRebound: RingSide | null = null;
+
+	/** Area the fighter is confined to. */
+	private _area: MovementArea = 'ring';
+
 	constructor(config?: MovementConfig) {
 		this.maxSpeed = config?.maxSpeed ?? MAX_MOVE_SPEED;
 		this.attackRange = config?.attackRange ?? DEFAULT_ATTACK_RANGE;
+		this.cageWalls = config?.cageWalls ?? false;
 	}
 
 	// ─── Public Getters ──────────────────────────────────────────
@@ -132,6 +220,9 @@ export class MovementController {
 	/** Current movement velocity on X axis. */
 	get velocityX(): number { return this._velocityX; }
 
+	/** Current movement velocity on Z axis. */
+	get velocityZ(): number { return this._velocityZ; }
+
 	/** Current knockback velocity on X axis. */
 	get knockbackX(): number { return this._knockbackX; }
 
@@ -144,18 +235,31 @@ export class MovementController {
 	/** Whether the fighter is actively moving toward a target. */
 	get isMoving(): boolean { return this._movementActive && this._hasTarget; }
 
+	/** Whether the fighter is sprinting at the ropes. */
+	get isRunning(): boolean { return this._running && this._hasTarget; }
+
 	/** Preferred attack range. */
 	get range(): number { return this.attackRange; }
 
+	/** Speed the fighter hit a cage wall or the barricade at during the last update (0 = no impact). */
+	get wallImpact(): number { return this._wallImpact; }
+
+	/** Rope the fighter bounced off during the last update (null = none). */
+	get ropeRebound(): RingSide | null { return this._ropeRebound; }
+
+	/** Area the fighter is confined to. */
+	get area(): MovementArea { return this._area; }
+
 	// ─── Commands ────────────────────────────────────────────────
 
 	/**
 	 * Set the target position to move toward.
 	 * Called by the MatchLoop when the AI decides to approach/retreat.
+	 * Leaving out targetZ keeps the fighter on their current Z line.
 	 */
-	moveToward(targetX: number): void {
-		this._targetX = clamp(targetX, -RING_HALF_X, RING_HALF_X);
-		this._hasTarget = true;
+	moveToward(targetX: number, targetZ: number = this._positionZ): void {
+		this.setTarget(targetX, targetZ);
+		this._running = false;
 	}
 
 	/**
@@ -164,12 +268,28 @@ export class MovementController {
 	 * the fighter is idle and outside attack range.
 	 *
 	 * @param opponentX  The opponent's current X position.
+	 * @param opponentZ  The opponent's current Z position.
 	 */
-	moveTowardOpponent(opponentX: number): void {
-		const dx = opponentX - this._positionX;
-		const sign = dx > 0 ? 1 : -1;
-		const desiredX = opponentX - sign * this.attackRange;
-		this.moveToward(desiredX);
+	moveTowardOpponent(opponentX: number, opponentZ: number = this._positionZ): void {
+		const target = this.approachPoint(opponentX, opponentZ);
+		this.moveToward(target.x, target.z);
+	}
+
+	/**
+	 * Sprint at a target without slowing down — running the ropes.
+	 * Reaching the ropes rebounds the fighter (see ropeRebound).
+	 */
+	run(targetX: number, targetZ: number): void {
+		this.setTarget(targetX, targetZ);
+		this._running = true;
+	}
+
+	/**
+	 * Sprint back at the opponent off the ropes, aiming for attack range.
+	 */
+	runAtOpponent(opponentX: number, opponentZ: number): void {
+		const target = this.approachPoint(opponentX, opponentZ);
+		this.run(target.x, target.z);
 	}
 
 	/**
@@ -178,8 +298,10 @@ export class MovementController {
 	 */
 	stopMovement(): void {
 		this._velocityX = 0;
+		this._velocityZ = 0;
 		this._hasTarget = false;
 		this._movementActive = false;
+		this._running = false;
 	}
 
 	/**
@@ -206,6 +328,16 @@ export class MovementController {
 		}
 	}
 
+	/**
+	 * Confine the fighter to an area (they went out to the floor, are
+	 * rolling under the ropes, or are back in the ring).
+	 * Any running movement target is kept; it's clamped on the next command.
+	 */
+	setArea(area: MovementArea): void {
+		this._area = area;
+		if (area !== 'ring') this._running = false;
+	}
+
 	/**
 	 * Teleport the fighter to a specific position.
 	 * Used for initial placement and respawns.
@@ -214,9 +346,11 @@ export class MovementController {
 		this._positionX = x;
 		this._positionZ = z;
 		this._velocityX = 0;
+		this._velocityZ = 0;
 		this._knockbackX = 0;
 		this._knockbackZ = 0;
 		this._hasTarget = false;
+		this._running = false;
 	}
 
 	// ─── Core Update ─────────────────────────────────────────────
@@ -228,30 +362,32 @@ export class MovementController {
 	 *   1. Determine movement velocity from FSM state + target
 	 *   2. Apply knockback decay
 	 *   3. Combine movement + knockback velocity
-	 *   4. Predict next position and clamp to ring boundaries
+	 *   4. Predict next position, bounce off the ropes, cage walls or
+	 *      barricade and clamp to the area
 	 *   5. Enforce minimum fighter separation
 	 *   6. Update cached position
-	 *   7. Check if target reached
+	 *   7. Check if target reached (a run that reaches the ropes rebounds)
 	 *
 	 * @param dt         Delta time in seconds (1/60 at 60Hz).
 	 * @param fsmState   Current FSM state ID (determines if movement is allowed).
 	 * @param opponentX  Opponent's current X position (for separation enforcement).
+	 * @param opponentZ  Opponent's current Z position.
 	 */
 	updateMovement(
 		dt: number,
 		fsmState: FighterStateId,
-		opponentX: number
+		opponentX: number,
+		opponentZ: number = 0
 	): void {
 		// 1. Determine voluntary movement velocity
 		this._movementActive = MOVEMENT_ALLOWED_STATES.has(fsmState);
 
-		if (FROZEN_STATES.has(fsmState)) {
-			// Frozen states: zero voluntary movement, only knockback
-			this._velocityX = 0;
-		} else if (this._movementActive && this._hasTarget) {
-			this._velocityX = this.computeMovementVelocity();
+		if (this._movementActive && this._hasTarget && !FROZEN_STATES.has(fsmState)) {
+			this.computeMovementVelocity();
 		} else {
+			// Frozen states and no target: zero voluntary movement, only knockback
 			this._velocityX = 0;
+			this._velocityZ = 0;
 		}
 
 		// 2. Decay knockback (exponential falloff)
@@ -268,23 +404,38 @@ export class MovementController {
 
 		// 3. Combined velocity = movement + knockback
 		const totalVX = this._velocityX + this._knockbackX;
-		const totalVZ = this._knockbackZ; // No voluntary Z movement
+		const totalVZ = this._velocityZ + this._knockbackZ;
 
-		// 4. Predict next position and clamp to ring boundaries
+		// 4. Predict next position
 		let nextX = this._positionX + totalVX * dt;
 		let nextZ = this._positionZ + totalVZ * dt;
 
-		// Ring boundary clamping
-		nextX = clamp(nextX, -RING_HALF_X, RING_HALF_X);
-		nextZ = clamp(nextZ, -RING_HALF_X, RING_HALF_X); // ring is square
+		// Hard knockback into the ropes, the steel or the barricade bounces the fighter back
+		this._wallImpact = 0;
+		this._ropeRebound = null;
+		if (this._area === 'ring') {
+			this._knockbackX = this.bounce(nextX, RING_HALF_X, this._knockbackX, nextX > 0 ? 'east' : 'west');
+			this._knockbackZ = this.bounce(nextZ, RING_HALF_Z, this._knockbackZ, nextZ > 0 ? 'south' : 'north');
+		} else if (this._area === 'floor') {
+			this._knockbackX = this.barricadeBounce(nextX, this._knockbackX);
+			this._knockbackZ = this.barricadeBounce(nextZ, this._knockbackZ);
+		}
+
+		// Area clamping
+		({ x: nextX, z: nextZ } = this.clampToArea(nextX, nextZ));
 
 		// 5. Minimum separation enforcement (prevent fighters from overlapping)
 		const sepDx = nextX - opponentX;
-		if (Math.abs(sepDx) < MIN_SEPARATION) {
+		const sepDz = nextZ - opponentZ;
+		const sepDist = Math.hypot(sepDx, sepDz);
+		if (sepDist < MIN_SEPARATION) {
 			// Push this fighter away from opponent to maintain minimum gap
-			const pushDir = sepDx >= 0 ? 1 : -1;
-			nextX = opponentX + pushDir * MIN_SEPARATION;
-			nextX = clamp(nextX, -RING_HALF_X, RING_HALF_X);
+			const pushX = sepDist > 1e-9 ? sepDx / sepDist : 1;
+			const pushZ = sepDist > 1e-9 ? sepDz / sepDist : 0;
+			({ x: nextX, z: nextZ } = this.clampToArea(
+				opponentX + pushX * MIN_SEPARATION,
+				opponentZ + pushZ * MIN_SEPARATION
+			));
 		}
 
 		// 6. Update cached position
@@ -293,44 +444,116 @@ export class MovementController {
 
 		// 7. Check if target reached
 		if (this._hasTarget) {
-			const remaining = Math.abs(this._targetX - this._positionX);
-			if (remaining <= STOP_THRESHOLD) {
+			const remaining = Math.hypot(this._targetX - this._positionX, this._targetZ - this._positionZ);
+			// A sprint covers more than STOP_THRESHOLD per tick, so it arrives within one step
+			const arrival = this._running ? this.maxSpeed * ROPE_RUN_SPEED_MULTIPLIER * dt : STOP_THRESHOLD;
+			if (this._running && ropeDistance(this._targetX, this._targetZ) <= STOP_THRESHOLD
+				&& ropeDistance(nextX, nextZ) <= STOP_THRESHOLD) {
+				// Ran into the ropes: rebound
+				this._ropeRebound = nearestRope(nextX, nextZ);
+				this.stopMovement();
+			} else if (remaining <= arrival) {
 				this._positionX = this._targetX;
-				this._hasTarget = false;
-				this._velocityX = 0;
+				this._positionZ = this._targetZ;
+				this.stopMovement();
 			}
 		}
 	}
 
 	// ─── Internal ────────────────────────────────────────────────
 
+	private setTarget(targetX: number, targetZ: number): void {
+		const target = this.clampToArea(targetX, targetZ);
+		this._targetX = target.x;
+		this._targetZ = target.z;
+		this._hasTarget = true;
+	}
+
+	/** Keep a spot inside the area the fighter is confined to. */
+	private clampToArea(x: number, z: number): { x: number; z: number } {
+		switch (this._area) {
+			case 'ring':
+				return { x: clamp(x, -RING_HALF_X, RING_HALF_X), z: clamp(z, -RING_HALF_Z, RING_HALF_Z) };
+			case 'floor':
+				return clampToRingside(x, z);
+			case 'crossing':
+				return { x: clamp(x, -RINGSIDE_OUTER, RINGSIDE_OUTER), z: clamp(z, -RINGSIDE_OUTER, RINGSIDE_OUTER) };
+		}
+	}
+
+	/** The spot at attack range from the opponent, on the line toward this fighter. */
+	private approachPoint(opponentX: number, opponentZ: number): { x: number; z: number } {
+		const dx = opponentX - this._positionX;
+		const dz = opponentZ - this._positionZ;
+		const dist = Math.hypot(dx, dz);
+		// Standing on top of them: approach from the west (-X)
+		const ux = dist > 1e-9 ? dx / dist : -1;
+		const uz = dist > 1e-9 ? dz / dist : 0;
+		return { x: opponentX - ux * this.attackRange, z: opponentZ - uz * this.attackRange };
+	}
+
+	/**
+	 * Bounce knockback off the cage wall or ropes on one axis when it drives
+	 * past the boundary hard enough. Returns the knockback to keep.
+	 */
+	private bounce(next: number, half: number, knockback: number, side: RingSide): number {
+		if (Math.abs(next) <= half || Math.sign(knockback) !== Math.sign(next)) return knockback;
+		const speed = Math.abs(knockback);
+		if (this.cageWalls) {
+			if (speed < CAGE_IMPACT_MIN_SPEED) return knockback;
+			this._wallImpact = Math.max(this._wallImpact, speed);
+			return -knockback * CAGE_RESTITUTION;
+		}
+		if (speed < ROPE_REBOUND_MIN_SPEED) return knockback;
+		this._ropeRebound = side;
+		return -knockback * ROPE_RESTITUTION;
+	}
+
+	/**
+	 * Bounce knockback off the ringside barricade on one axis when it drives
+	 * past it hard enough. Returns the knockback to keep.
+	 */
+	private barricadeBounce(next: number, knockback: number): number {
+		if (Math.abs(next) <= RINGSIDE_OUTER || Math.sign(knockback) !== Math.sign(next)) return knockback;
+		const speed = Math.abs(knockback);
+		if (speed < BARRICADE_IMPACT_MIN_SPEED) return knockback;
+		this._wallImpact = Math.max(this._wallImpact, speed);
+		return -knockback * BARRICADE_RESTITUTION;
+	}
+
 	/**
 	 * Compute movement velocity toward target.
-	 * Uses constant speed with smooth deceleration near target.
+	 * Uses constant speed with smooth deceleration near target;
+	 * a run keeps full sprint speed all the way to the ropes.
 	 */
-	private computeMovementVelocity(): number {
+	private computeMovementVelocity(): void {
 		const dx = this._targetX - this._positionX;
-		const absDx = Math.abs(dx);
+		const dz = this._targetZ - this._positionZ;
+		const dist = Math.hypot(dx, dz);
 
-		if (absDx <= STOP_THRESHOLD) {
-			return 0; // Close enough — stop
+		if (dist <= STOP_THRESHOLD) {
+			// Close enough — stop
+			this._velocityX = 0;
+			this._velocityZ = 0;
+			return;
 		}
 
-		const direction = dx > 0 ? 1 : -1;
-
 		// Deceleration zone: ramp down speed when close to target
 		// to prevent overshoot and oscillation
 		const decelDist = this.maxSpeed * 0.1; // ~0.48 units
 		let speed: number;
-		if (absDx < decelDist) {
+		if (this._running) {
+			speed = this.maxSpeed * ROPE_RUN_SPEED_MULTIPLIER;
+		} else if (dist < decelDist) {
 			// Linear ramp down
-			speed = this.maxSpeed * (absDx / decelDist);
+			speed = this.maxSpeed * (dist / decelDist);
 			speed = Math.max(speed, 0.5); // minimum crawl speed
 		} else {
 			speed = this.maxSpeed;
 		}
 
-		return direction * speed;
+		this._velocityX = (dx / dist) * speed;
+		this._velocityZ = (dz / dist) * speed;
 	}
 
 	// ─── Disposal ────────────────────────────────────────────────
@@ -340,11 +563,16 @@ export class MovementController {
 	 */
 	reset(): void {
 		this._velocityX = 0;
+		this._velocityZ = 0;
 		this._knockbackX = 0;
 		this._knockbackZ = 0;
 		this._hasTarget = false;
 		this._movementActive = false;
+		this._running = false;
 		this._facingSign = 1;
+		this._wallImpact = 0;
+		this._ropeRebound = null;
+		this._area = 'ring';
 	}
 }
 
@@ -353,9 +581,15 @@ export class MovementController {
 export {
 	MAX_MOVE_SPEED,
 	STOP_THRESHOLD,
-	RING_HALF_X,
 	MIN_SEPARATION,
 	KNOCKBACK_DECAY,
 	DEFAULT_ATTACK_RANGE,
-	RING_Y
+	RING_Y,
+	CAGE_IMPACT_MIN_SPEED,
+	CAGE_RESTITUTION,
+	ROPE_REBOUND_MIN_SPEED,
+	ROPE_RESTITUTION,
+	ROPE_RUN_SPEED_MULTIPLIER,
+	BARRICADE_IMPACT_MIN_SPEED,
+	BARRICADE_RESTITUTION
 };
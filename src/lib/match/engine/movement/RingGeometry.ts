@@ -0,0 +1,223 @@
+/**
+ * Ring geometry — the square mat, its four ropes and four turnbuckles,
+ * and the ringside area around them.
+ *
+ * The mat spans ±RING_HALF_X on X and ±RING_HALF_Z on Z with the ropes
+ * along its edges. Compass names follow the hard camera: east is +X,
+ * south is +Z (toward the camera).
+ *
+ *          nw ──────── north rope ──────── ne
+ *           │                               │
+ *       west rope          (0,0)        east rope
+ *           │                               │
+ *          sw ──────── south rope ──────── se
+ *
+ * Zones:
+ *   - 'ropes':  within ROPE_ZONE of a rope
+ *   - 'corner': within CORNER_ZONE of two ropes at once
+ *   - 'center': everywhere else
+ *
+ * Ringside (square bands around the ring, out to the barricade):
+ *   - 'apron':     outside the ropes, out to APRON_EDGE (the platform edge)
+ *   - 'floor':     the ringside floor between the apron and the barricade
+ *   - 'barricade': within BARRICADE_ZONE of the barricade at BARRICADE_HALF
+ * Fighters on the floor stand between RINGSIDE_INNER and RINGSIDE_OUTER.
+ *
+ * Everything here is pure: positions in, distances and zones out.
+ */
+
+import { clamp } from '../../../utils/math';
+
+// ─── Constants ─────────────────────────────────────────────────────
+
+/** Ring mat half-width on X axis. Fighters can't go beyond ±RING_HALF_X. */
+const RING_HALF_X = 2.8;
+
+/** Ring mat half-depth on Z axis (the ring is square). */
+const RING_HALF_Z = RING_HALF_X;
+
+/** Distance from a rope that counts as being on the ropes. */
+const ROPE_ZONE = 0.45;
+
+/** Distance from both ropes of a corner that counts as being in that corner. */
+const CORNER_ZONE = 0.75;
+
+/** Where a fighter stands to climb a turnbuckle, measured in from each rope. */
+const TURNBUCKLE_INSET = 0.3;
+
+/** Half-width of the ring platform; the apron runs from the ropes out to here. */
+const APRON_EDGE = 3.5;
+
+/** Half-width of the barricade square around ringside. */
+const BARRICADE_HALF = 5.0;
+
+/** Distance from the barricade that counts as being up against it. */
+const BARRICADE_ZONE = 0.5;
+
+/** Closest a fighter on the floor stands to the ring (just off the apron). */
+const RINGSIDE_INNER = APRON_EDGE + 0.3;
+
+/** Farthest a fighter on the floor can go (backed against the barricade). */
+const RINGSIDE_OUTER = BARRICADE_HALF - 0.3;
+
+/** How far inside the ropes a fighter comes up after rolling back in. */
+const ROLL_IN_INSET = 0.4;
+
+// ─── Types ─────────────────────────────────────────────────────────
+
+export type RingSide = 'north' | 'south' | 'east' | 'west';
+
+export type RingCorner = 'ne' | 'nw' | 'se' | 'sw';
+
+export type RingZone = 'center' | 'ropes' | 'corner';
+
+export type RingsideZone = 'ring' | 'apron' | 'floor' | 'barricade';
+
+/** Anything with a spot on the mat (AgentState fits). */
+export interface RingPoint {
+	positionX: number;
+	positionZ: number;
+}
+
+// ─── Distances ─────────────────────────────────────────────────────
+
+/** Straight-line distance between two fighters on the mat. */
+export function ringDistance(a: RingPoint, b: RingPoint): number {
+	return Math.hypot(b.positionX - a.positionX, b.positionZ - a.positionZ);
+}
+
+/**
+ * Unit direction from one fighter to another on the mat.
+ * Fighters on the same spot get west (-X), so pushes still have a direction.
+ */
+export function directionBetween(from: RingPoint, to: RingPoint): { x: number; z: number } {
+	const dx = to.positionX - from.positionX;
+	const dz = to.positionZ - from.positionZ;
+	const length = Math.hypot(dx, dz);
+	if (length < 1e-9) return { x: -1, z: 0 };
+	return { x: dx / length, z: dz / length };
+}
+
+/** Distance from a spot to the nearest rope (0 = against it). */
+export function ropeDistance(x: number, z: number): number {
+	return Math.max(0, Math.min(RING_HALF_X - Math.abs(x), RING_HALF_Z - Math.abs(z)));
+}
+
+/** The rope nearest a spot. Ties go to the east/west ropes. */
+export function nearestRope(x: number, z: number): RingSide {
+	if (RING_HALF_X - Math.abs(x) <= RING_HALF_Z - Math.abs(z)) return x >= 0 ? 'east' : 'west';
+	return z >= 0 ? 'south' : 'north';
+}
+
+// ─── Corners ───────────────────────────────────────────────────────
+
+/** The corner a spot is in, or null if it isn't in one. */
+export function cornerAt(x: number, z: number): RingCorner | null {
+	if (RING_HALF_X - Math.abs(x) > CORNER_ZONE || RING_HALF_Z - Math.abs(z) > CORNER_ZONE) return null;
+	return nearestCorner(x, z);
+}
+
+/** The corner nearest a spot. */
+export function nearestCorner(x: number, z: number): RingCorner {
+	const east = x >= 0;
+	return z >= 0 ? (east ? 'se' : 'sw') : (east ? 'ne' : 'nw');
+}
+
+/** Where a fighter stands to climb a corner's turnbuckle. */
+export function cornerPosition(corner: RingCorner): { x: number; z: number } {
+	const sx = corner === 'ne' || corner === 'se' ? 1 : -1;
+	const sz = corner === 'se' || corner === 'sw' ? 1 : -1;
+	return { x: sx * (RING_HALF_X - TURNBUCKLE_INSET), z: sz * (RING_HALF_Z - TURNBUCKLE_INSET) };
+}
+
+// ─── Zones ─────────────────────────────────────────────────────────
+
+/** Which part of the ring a spot is in. */
+export function ringZone(x: number, z: number): RingZone {
+	if (cornerAt(x, z)) return 'corner';
+	return ropeDistance(x, z) <= ROPE_ZONE ? 'ropes' : 'center';
+}
+
+/**
+ * Where a ray from a spot meets the ropes.
+ * Used to pick the rope a fighter runs at or is whipped into.
+ * A zero direction points east.
+ */
+export function ropePointAlong(x: number, z: number, dirX: number, dirZ: number): { x: number; z: number } {
+	const length = Math.hypot(dirX, dirZ);
+	const ux = length > 0 ? dirX / length : 1;
+	const uz = length > 0 ? dirZ / length : 0;
+	const tx = ux !== 0 ? ((ux > 0 ? RING_HALF_X : -RING_HALF_X) - x) / ux : Infinity;
+	const tz = uz !== 0 ? ((uz > 0 ? RING_HALF_Z : -RING_HALF_Z) - z) / uz : Infinity;
+	const t = Math.max(0, Math.min(tx, tz));
+	return {
+		x: clamp(x + ux * t, -RING_HALF_X, RING_HALF_X),
+		z: clamp(z + uz * t, -RING_HALF_Z, RING_HALF_Z)
+	};
+}
+
+// ─── Ringside ──────────────────────────────────────────────────────
+
+/** Which part of the arena a spot is in, from the mat out to the barricade. */
+export function ringsideZone(x: number, z: number): RingsideZone {
+	const out = Math.max(Math.abs(x), Math.abs(z));
+	if (out <= RING_HALF_X) return 'ring';
+	if (out <= APRON_EDGE) return 'apron';
+	return out >= BARRICADE_HALF - BARRICADE_ZONE ? 'barricade' : 'floor';
+}
+
+/**
+ * The floor spot beside the apron nearest a position: where a fighter
+ * rolling out at that rope lands, and where one on the floor stands to
+ * roll back in.
+ */
+export function ringsideSpot(x: number, z: number): { x: number; z: number } {
+	switch (nearestRope(x, z)) {
+		case 'east': return { x: RINGSIDE_INNER, z: clamp(z, -RING_HALF_Z, RING_HALF_Z) };
+		case 'west': return { x: -RINGSIDE_INNER, z: clamp(z, -RING_HALF_Z, RING_HALF_Z) };
+		case 'south': return { x: clamp(x, -RING_HALF_X, RING_HALF_X), z: RINGSIDE_INNER };
+		case 'north': return { x: clamp(x, -RING_HALF_X, RING_HALF_X), z: -RINGSIDE_INNER };
+	}
+}
+
+/** Where a fighter on the floor comes up after rolling in under the nearest rope. */
+export function ringEntrySpot(x: number, z: number): { x: number; z: number } {
+	const insideX = RING_HALF_X - ROLL_IN_INSET;
+	const insideZ = RING_HALF_Z - ROLL_IN_INSET;
+	switch (nearestRope(x, z)) {
+		case 'east': return { x: insideX, z: clamp(z, -insideZ, insideZ) };
+		case 'west': return { x: -insideX, z: clamp(z, -insideZ, insideZ) };
+		case 'south': return { x: clamp(x, -insideX, insideX), z: insideZ };
+		case 'north': return { x: clamp(x, -insideX, insideX), z: -insideZ };
+	}
+}
+
+/**
+ * Keep a spot on the ringside floor: inside the barricade, and pushed out
+ * past the nearest side of the ring platform if it's under it.
+ */
+export function clampToRingside(x: number, z: number): { x: number; z: number } {
+	let cx = clamp(x, -RINGSIDE_OUTER, RINGSIDE_OUTER);
+	let cz = clamp(z, -RINGSIDE_OUTER, RINGSIDE_OUTER);
+	if (Math.abs(cx) < RINGSIDE_INNER && Math.abs(cz) < RINGSIDE_INNER) {
+		if (Math.abs(cx) >= Math.abs(cz)) cx = (cx >= 0 ? 1 : -1) * RINGSIDE_INNER;
+		else cz = (cz >= 0 ? 1 : -1) * RINGSIDE_INNER;
+	}
+	return { x: cx, z: cz };
+}
+
+// ─── Exports ──────────────────────────────────────────────────────
+
+export {
+	RING_HALF_X,
+	RING_HALF_Z,
+	ROPE_ZONE,
+	CORNER_ZONE,
+	TURNBUCKLE_INSET,
+	APRON_EDGE,
+	BARRICADE_HALF,
+	BARRICADE_ZONE,
+	RINGSIDE_INNER,
+	RINGSIDE_OUTER,
+	ROLL_IN_INSET
+};
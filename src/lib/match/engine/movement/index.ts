@@ -1,18 +1,59 @@
 /**
  * Movement Controller — Barrel Export
  *
- * Kinematic movement system for fighters.
- * Handles approach/retreat, knockback, facing, boundary clamping.
+ * Kinematic movement system for fighters and the ring they move on.
+ * Handles approach/retreat, knockback, facing, boundary clamping, rope
+ * rebounds, cage walls and the ringside barricade; RingGeometry knows the
+ * ropes, corners and ringside area.
  */
 
 export {
 	MovementController,
 	type MovementConfig,
+	type MovementArea,
 	MAX_MOVE_SPEED,
 	STOP_THRESHOLD,
-	RING_HALF_X,
 	MIN_SEPARATION,
 	KNOCKBACK_DECAY,
 	DEFAULT_ATTACK_RANGE,
-	RING_Y
+	RING_Y,
+	CAGE_IMPACT_MIN_SPEED,
+	CAGE_RESTITUTION,
+	ROPE_REBOUND_MIN_SPEED,
+	ROPE_RESTITUTION,
+	ROPE_RUN_SPEED_MULTIPLIER,
+	BARRICADE_IMPACT_MIN_SPEED,
+	BARRICADE_RESTITUTION
 } from './MovementController';
+
+export {
+	ringDistance,
+	directionBetween,
+	ropeDistance,
+	nearestRope,
+	cornerAt,
+	nearestCorner,
+	cornerPosition,
+	ringZone,
+	ropePointAlong,
+	ringsideZone,
+	ringsideSpot,
+	ringEntrySpot,
+	clampToRingside,
+	type RingSide,
+	type RingCorner,
+	type RingZone,
+	type RingsideZone,
+	type RingPoint,
+	RING_HALF_X,
+	RING_HALF_Z,
+	ROPE_ZONE,
+	CORNER_ZONE,
+	TURNBUCKLE_INSET,
+	APRON_EDGE,
+	BARRICADE_HALF,
+	BARRICADE_ZONE,
+	RINGSIDE_INNER,
+	RINGSIDE_OUTER,
+	ROLL_IN_INSET
+} from './RingGeometry';
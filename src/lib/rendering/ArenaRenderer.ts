@@ -9,16 +9,24 @@ import * as THREE from 'three';
  *   - 3 rows of ring ropes connecting posts (like real WWE ring)
  *   - Dramatic directional lighting (key / fill / rim)
  *   - Large floating banners with event info
- *   - Barricade around the ringside area
+ *   - Barricade around the ringside area, with floor mats between it and
+ *     the platform where fighters brawl outside the ring
+ *   - Optional steel cage (cage matches) with a hinged door on the +X wall
  */
 export class ArenaRenderer {
 	private group: THREE.Group;
 	private fillLights: THREE.DirectionalLight[] = [];
 	private pillarOrbs: THREE.Mesh[] = [];
+	/** Steel cage — built on first setCage(true) */
+	private cageGroup: THREE.Group | null = null;
+	private cageDoorPivot: THREE.Group | null = null;
 
 	/** Ring radius — matches RingRenderer default */
 	private readonly ringRadius = 3.5;
 
+	/** Half-width of the barricade square — the ringside floor runs out to here */
+	private readonly barrierDistance = this.ringRadius + 1.5;
+
 	constructor(private scene: THREE.Scene) {
 		this.group = new THREE.Group();
 		this.group.name = 'arena';
@@ -28,6 +36,7 @@ export class ArenaRenderer {
 		this.buildArenaLighting();
 		this.buildBanners();
 		this.buildBarrierRing();
+		this.buildRingsideFloor();
 		this.buildGroundGlow();
 		this.buildRingApron();
 
@@ -405,8 +414,7 @@ export class ArenaRenderer {
 	// ──────────────────────────── barrier ring ────────────────────────────
 
 	private buildBarrierRing(): void {
-		const r = this.ringRadius;
-		const barrierDist = r + 1.5;
+		const barrierDist = this.barrierDistance;
 
 		// Low metallic barricade panels around the ring (square layout)
 		const barricadeMat = new THREE.MeshStandardMaterial({
@@ -456,6 +464,40 @@ export class ArenaRenderer {
 		}
 	}
 
+	// ──────────────────────────── ringside floor ────────────────────────────
+
+	private buildRingsideFloor(): void {
+		const r = this.ringRadius;
+		const b = this.barrierDistance;
+		const depth = b - r;
+
+		// Padded mats on the floor between the platform and the barricade
+		const matMat = new THREE.MeshStandardMaterial({
+			color: 0x14141f,
+			emissive: new THREE.Color(0x0a0814),
+			emissiveIntensity: 0.3,
+			roughness: 0.9,
+			metalness: 0.05
+		});
+
+		// Front and back strips run the full width; the side strips fill in between
+		const strips: [number, number, number, number][] = [
+			[0, -(r + depth / 2), 2 * b, depth],
+			[0, r + depth / 2, 2 * b, depth],
+			[-(r + depth / 2), 0, depth, 2 * r],
+			[r + depth / 2, 0, depth, 2 * r],
+		];
+
+		for (const [x, z, width, length] of strips) {
+			const stripGeo = new THREE.PlaneGeometry(width, length);
+			const strip = new THREE.Mesh(stripGeo, matMat);
+			strip.rotation.x = -Math.PI / 2;
+			strip.position.set(x, 0.005, z);
+			strip.name = 'ringside_floor';
+			this.group.add(strip);
+		}
+	}
+
 	// ──────────────────────────── ground glow ────────────────────────────
 
 	private buildGroundGlow(): void {
@@ -492,6 +534,123 @@ export class ArenaRenderer {
 		this.group.add(redGlow);
 	}
 
+	// ──────────────────────────── steel cage ────────────────────────────
+
+	/** Cage height above the mat */
+	private readonly cageHeight = 3.2;
+	/** Gap between the ropes and the cage walls */
+	private readonly cageOffset = 0.15;
+
+	private buildCage(): THREE.Group {
+		const cage = new THREE.Group();
+		cage.name = 'steel_cage';
+		const r = this.ringRadius + this.cageOffset;
+		const h = this.cageHeight;
+		const floorY = 0.3;
+
+		// Chain-link mesh: a diamond grid on a transparent canvas
+		const canvas = document.createElement('canvas');
+		canvas.width = 128;
+		canvas.height = 128;
+		const ctx = canvas.getContext('2d')!;
+		ctx.strokeStyle = 'rgba(190, 200, 215, 0.9)';
+		ctx.lineWidth = 3;
+		ctx.beginPath();
+		ctx.moveTo(0, 0); ctx.lineTo(128, 128);
+		ctx.moveTo(128, 0); ctx.lineTo(0, 128);
+		ctx.stroke();
+		const linkTexture = new THREE.CanvasTexture(canvas);
+		linkTexture.wrapS = THREE.RepeatWrapping;
+		linkTexture.wrapT = THREE.RepeatWrapping;
+		linkTexture.repeat.set(r * 2 * 3, h * 3);
+
+		const meshMat = new THREE.MeshStandardMaterial({
+			map: linkTexture,
+			transparent: true,
+			alphaTest: 0.1,
+			side: THREE.DoubleSide,
+			roughness: 0.4,
+			metalness: 0.8,
+			depthWrite: false
+		});
+		const frameMat = new THREE.MeshStandardMaterial({
+			color: 0x8899aa,
+			roughness: 0.3,
+			metalness: 0.9
+		});
+
+		// Four walls; the camera side (+Z) is left open so the action stays visible
+		const walls: { x: number; z: number; rotY: number }[] = [
+			{ x: 0, z: -r, rotY: 0 },
+			{ x: -r, z: 0, rotY: Math.PI / 2 },
+			{ x: r, z: 0, rotY: Math.PI / 2 }
+		];
+		for (let i = 0; i < walls.length; i++) {
+			const w = walls[i];
+			const panel = new THREE.Mesh(new THREE.PlaneGeometry(r * 2, h), meshMat);
+			panel.position.set(w.x, floorY + h / 2, w.z);
+			panel.rotation.y = w.rotY;
+			panel.name = `cage_wall_${i}`;
+			cage.add(panel);
+		}
+
+		// Corner posts
+		const corners: [number, number][] = [[-r, -r], [r, -r], [r, r], [-r, r]];
+		for (let i = 0; i < corners.length; i++) {
+			const [x, z] = corners[i];
+			const post = new THREE.Mesh(new THREE.CylinderGeometry(0.04, 0.04, h, 6), frameMat);
+			post.position.set(x, floorY + h / 2, z);
+			post.name = `cage_post_${i}`;
+			cage.add(post);
+		}
+
+		// Top rails along the walled sides
+		const rails: { x: number; z: number; rotY: number }[] = [
+			{ x: 0, z: -r, rotY: 0 },
+			{ x: -r, z: 0, rotY: Math.PI / 2 },
+			{ x: r, z: 0, rotY: Math.PI / 2 }
+		];
+		for (let i = 0; i < rails.length; i++) {
+			const rail = new THREE.Mesh(new THREE.BoxGeometry(r * 2, 0.06, 0.06), frameMat);
+			rail.position.set(rails[i].x, floorY + h, rails[i].z);
+			rail.rotation.y = rails[i].rotY;
+			rail.name = `cage_rail_${i}`;
+			cage.add(rail);
+		}
+
+		// Door on the +X wall, hinged on its -Z edge
+		const doorWidth = 1.0;
+		const doorHeight = 2.0;
+		const pivot = new THREE.Group();
+		pivot.position.set(r + 0.02, floorY, -doorWidth / 2);
+		const door = new THREE.Mesh(new THREE.BoxGeometry(0.04, doorHeight, doorWidth), frameMat);
+		door.position.set(0, doorHeight / 2, doorWidth / 2);
+		door.name = 'cage_door';
+		pivot.add(door);
+		cage.add(pivot);
+		this.cageDoorPivot = pivot;
+
+		this.group.add(cage);
+		return cage;
+	}
+
+	/**
+	 * Show or hide the steel cage (cage matches).
+	 */
+	setCage(enabled: boolean): void {
+		if (enabled && !this.cageGroup) this.cageGroup = this.buildCage();
+		if (this.cageGroup) this.cageGroup.visible = enabled;
+	}
+
+	/**
+	 * Swing the cage door open (0 = shut, 1 = fully open).
+	 */
+	setCageDoorOpen(amount: number): void {
+		if (!this.cageDoorPivot) return;
+		// Swings outward, away from the ring
+		this.cageDoorPivot.rotation.y = Math.max(0, Math.min(1, amount)) * (Math.PI / 2);
+	}
+
 	// ──────────────────────────── atmosphere API ────────────────────────────
 
 	/**
@@ -527,12 +686,16 @@ export class ArenaRenderer {
 						m.dispose();
 					});
 				} else {
-					child.material.dispose();
+					const mat = child.material as THREE.MeshStandardMaterial;
+					if (mat.map) mat.map.dispose();
+					mat.dispose();
 				}
 			}
 		});
 		this.fillLights.length = 0;
 		this.pillarOrbs.length = 0;
+		this.cageGroup = null;
+		this.cageDoorPivot = null;
 		this.group.parent?.remove(this.group);
 	}
 }
@@ -3,21 +3,26 @@ import type { AnimationCommand } from './AnimationCommand';
 import { solveTwoBoneIK, type TwoBoneIKResult } from './IKSolver';
 
 /**
- * IK target offsets for different body regions.
- * Values are offsets from the opponent's group position.
+ * IK target offsets for different body regions, sized to the stickman rig
+ * (head centre ~0.8 above the feet). Values are offsets from the
+ * opponent's group position.
  */
 const REGION_TARGETS: Record<string, { leftY: number; rightY: number; spreadX: number }> = {
-	head:  { leftY: 1.7, rightY: 1.7, spreadX: 0.12 },  // hands on sides of head
-	body:  { leftY: 1.2, rightY: 1.2, spreadX: 0.25 },  // hands around waist
-	legs:  { leftY: 0.7, rightY: 0.7, spreadX: 0.15 },  // hands on thighs
+	head:  { leftY: 0.8, rightY: 0.8, spreadX: 0.08 },  // hands on sides of head
+	body:  { leftY: 0.55, rightY: 0.55, spreadX: 0.12 }, // hands around waist
+	legs:  { leftY: 0.3, rightY: 0.3, spreadX: 0.08 },  // hands on thighs
 };
 
+/** IK weight for the fighter being held — hands braced on the controller. */
+const GRAPPLED_WEIGHT = 0.5;
+
 /**
  * GrappleIKController — manages IK weight ramping and target computation
  * for grapple/submission/finisher moves.
  *
  * The controller:
- *   1. Determines whether IK should be active (based on move category + phase)
+ *   1. Determines whether IK should be active (based on move category + phase;
+ *      lock-ups and grapple positions hold on for as long as they last)
  *   2. Ramps IK weight smoothly (0→1 during windup, hold during active, 1→0 during recovery)
  *   3. Computes hand target positions from opponent position + target region
  *   4. Runs the two-bone IK solver for each arm
@@ -60,10 +65,11 @@ export class GrappleIKController {
 	}
 
 	/**
-	 * Solve IK for both arms.
-	 * @param shoulderLPos World-space left shoulder position.
-	 * @param shoulderRPos World-space right shoulder position.
-	 * @param opponentPos World-space opponent group position.
+	 * Solve IK for both arms. All positions are in the wrestler's local
+	 * space (see solveTwoBoneIK).
+	 * @param shoulderLPos Left shoulder position.
+	 * @param shoulderRPos Right shoulder position.
+	 * @param opponentPos Opponent group position.
 	 * @param targetRegion Body region being targeted.
 	 */
 	solve(
@@ -116,6 +122,13 @@ export class GrappleIKController {
 	 * Compute the target IK weight based on phase and move category.
 	 */
 	private computeTargetWeight(cmd: AnimationCommand): number {
+		// Tied up: both hands on the opponent for the whole grapple
+		switch (cmd.phase) {
+			case 'lock_up':
+			case 'grapple_control': return 1.0;
+			case 'grappled':        return GRAPPLED_WEIGHT;
+		}
+
 		const cat = cmd.moveCategory;
 		const isGrapple = cat === 'grapple' || cat === 'submission';
 		const isFinisher = cmd.finisherRole === 'attacker';
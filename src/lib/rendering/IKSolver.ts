@@ -4,9 +4,9 @@ import * as THREE from 'three';
  * Parameters for the analytic two-bone IK solver.
  */
 export interface TwoBoneIKParams {
-	/** World-space target position for the end effector (hand). */
+	/** Target position for the end effector (hand), in the wrestler's local space. */
 	target: THREE.Vector3;
-	/** World-space pole vector hint (elbow direction). */
+	/** Pole vector hint (elbow direction), in the wrestler's local space. */
 	poleHint: THREE.Vector3;
 	/** Length of bone A (upper arm). */
 	lengthA: number;
@@ -17,13 +17,14 @@ export interface TwoBoneIKParams {
 }
 
 /**
- * Result of the two-bone IK solve.
+ * Result of the two-bone IK solve, already scaled by the blend weight.
+ * Add to the FK pose scaled by (1 - weight) to blend.
  */
 export interface TwoBoneIKResult {
-	/** Rotation angle for the shoulder joint (radians). */
+	/** Upper-arm rotation about X (swing forward/up) and Z (swing out), radians. */
 	shoulderAngleX: number;
 	shoulderAngleZ: number;
-	/** Rotation angle for the elbow joint (radians). */
+	/** Forearm rotation about X (elbow bend), radians. */
 	elbowAngleX: number;
 }
 
@@ -33,13 +34,14 @@ export interface TwoBoneIKResult {
  * Solves for the shoulder and elbow angles given a target position
  * for the hand (end effector). Single-frame, deterministic — no iteration.
  *
- * The solver works in the shoulder-local coordinate space:
- *   - X: forward (toward target)
- *   - Y: up
- *   - Z: lateral
+ * The solver works in the wrestler's local space, matching the stickman rig:
+ *   - +Z: forward (the wrestler faces its opponent)
+ *   - +Y: up; arms hang straight down (-Y) at zero rotation
+ *   - X: lateral
+ * The elbow bends downward, so a reaching arm keeps its hand above the elbow.
  */
 export function solveTwoBoneIK(
-	shoulderWorldPos: THREE.Vector3,
+	shoulderPos: THREE.Vector3,
 	params: TwoBoneIKParams
 ): TwoBoneIKResult {
 	const { target, lengthA, lengthB, weight } = params;
@@ -49,7 +51,7 @@ export function solveTwoBoneIK(
 	}
 
 	// Vector from shoulder to target
-	const toTarget = new THREE.Vector3().subVectors(target, shoulderWorldPos);
+	const toTarget = new THREE.Vector3().subVectors(target, shoulderPos);
 	const distance = toTarget.length();
 
 	// Clamp distance to reachable range
@@ -67,14 +69,16 @@ export function solveTwoBoneIK(
 		/ (2 * lengthA * clampedDist);
 	const shoulderOffset = Math.acos(THREE.MathUtils.clamp(cosShoulderOffset, -1, 1));
 
-	// Direction to target in world space
+	// Direction to target
 	const dirNorm = toTarget.clone().normalize();
 
-	// Shoulder angles (approximate — Y rotation for facing, X for elevation)
-	const shoulderAngleX = -(Math.asin(THREE.MathUtils.clamp(dirNorm.y, -1, 1)) + shoulderOffset);
-	const shoulderAngleZ = Math.atan2(dirNorm.x, -dirNorm.z);
+	// Aim the hanging arm (0, -1, 0) at the target: Z swings it out to the
+	// side, X swings it forward and up (-PI/2 points straight ahead).
+	// Dropping the upper arm by shoulderOffset lets the elbow sit below the line.
+	const shoulderAngleZ = Math.asin(THREE.MathUtils.clamp(dirNorm.x, -1, 1));
+	const shoulderAngleX = Math.atan2(-dirNorm.z, -dirNorm.y) + shoulderOffset;
 
-	// Elbow flexion (negative = bending inward)
+	// Elbow flexion (negative = forearm folds up toward the target)
 	const elbowAngleX = -(Math.PI - elbowAngle);
 
 	// Apply weight blending
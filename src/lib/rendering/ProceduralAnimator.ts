@@ -18,7 +18,8 @@ export type AnimStateId =
 	| 'recovery'
 	| 'moving'
 	| 'taunting'
-	| 'getting_up';
+	| 'getting_up'
+	| 'climbing';
 
 /**
  * Full procedural pose output — 21-channel pose that drives all body parts.
@@ -189,6 +190,16 @@ const BASE_POSES: Record<AnimStateId, ProceduralPose> = {
 		leftForearmX: -1.0, rightForearmX: -1.0,
 		bodyX: -0.15, bodyY: 0.08,
 	},
+	// Climbing — hands up on the cage, knees bent, leaning into the wall
+	climbing: {
+		...zeroPose(),
+		leftArmZ: Math.PI * 0.1, rightArmZ: -Math.PI * 0.1,
+		leftArmX: -2.6, rightArmX: -2.3,
+		leftForearmX: -0.4, rightForearmX: -0.6,
+		leftLegX: -0.9, rightLegX: -0.3,
+		leftCalfX: 1.1, rightCalfX: 0.5,
+		bodyX: -0.2, bodyY: 0.02,
+	},
 };
 
 // ─── Procedural Layer Configs ────────────────────────────────────────
@@ -316,7 +327,12 @@ export class ProceduralAnimator {
 			blocking: 'blocking', stun: 'stunned', knockdown: 'grounded',
 			getting_up: 'getting_up', taunting: 'taunting',
 			finisher_setup: 'attacking', finisher_impact: 'attacking',
-			finisher_locked: 'stunned'
+			finisher_locked: 'stunned',
+			pinning: 'grounded', pinned: 'grounded',
+			submission_hold: 'attacking', submission_locked: 'stunned',
+			escaping: 'climbing',
+			lock_up: 'stance', grapple_control: 'stance', grappled: 'stunned',
+			rolling: 'grounded'
 		};
 		const animState = stateMap[cmd.phase] ?? 'stance';
 		this.setState(animState);
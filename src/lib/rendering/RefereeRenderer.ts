@@ -6,10 +6,11 @@ import { lerp } from '../utils/math';
  * Referee poses driven by match state.
  *
  *   standing  — Default during live action (gentle hover bob + slow rotor spin)
- *   counting  — During knockdowns (rapid bob + fast rotors + red beacon)
+ *   counting  — During knockdowns and pins (rapid bob + fast rotors + red beacon)
+ *   checking  — During submission holds (low hover, leaning in to ask for the tap)
  *   signaling — Match end (spotlight flash + slow victory spin)
  */
-export type RefereePose = 'standing' | 'counting' | 'signaling';
+export type RefereePose = 'standing' | 'counting' | 'checking' | 'signaling';
 
 // ─── Pose Interpolation ─────────────────────────────────────────────
 
@@ -36,6 +37,13 @@ const POSE_TARGETS: Record<RefereePose, PoseSnapshot> = {
 		beaconFlash: true,
 		tiltX: -0.15
 	},
+	checking: {
+		bobAmplitude: 0.04,
+		bobSpeed: 3.5,
+		rotorSpeed: 18.0,
+		beaconFlash: false,
+		tiltX: -0.3
+	},
 	signaling: {
 		bobAmplitude: 0.02,
 		bobSpeed: 1.5,
@@ -47,6 +55,12 @@ const POSE_TARGETS: Record<RefereePose, PoseSnapshot> = {
 
 const LERP_SPEED = 10;
 
+/** Duration of the forward "slap" pitch for each pin count (seconds). */
+const COUNT_SLAP_DURATION = 0.25;
+
+/** Extra forward pitch at the bottom of a count slap (radians). */
+const COUNT_SLAP_TILT = -0.6;
+
 /** Drone body dimensions. */
 const BODY_WIDTH = 0.14;
 const BODY_HEIGHT = 0.04;
@@ -74,6 +88,7 @@ export class RefereeRenderer {
 	private poseTarget: PoseSnapshot;
 	private poseCurrent: PoseSnapshot;
 	private phaseAccum: number = 0;
+	private countSlapTimer: number = 0;
 	private rotorMeshes: THREE.Mesh[] = [];
 	private beaconMat: THREE.MeshStandardMaterial;
 	private beaconLight: THREE.PointLight;
@@ -273,15 +288,15 @@ export class RefereeRenderer {
 
 	/**
 	 * Update the drone's position to follow the action.
-	 * The drone hovers above the midpoint of the two bots.
+	 * The drone hovers above the midpoint of all the bots.
 	 */
 	updatePosition(wrestlerPositions: Vec3[]): void {
 		if (wrestlerPositions.length < 2) return;
 
-		const [a, b] = wrestlerPositions;
-		const midX = (a[0] + b[0]) / 2;
-		const midZ = (a[2] + b[2]) / 2;
-		const ringHeight = a[1];
+		const count = wrestlerPositions.length;
+		const midX = wrestlerPositions.reduce((sum, p) => sum + p[0], 0) / count;
+		const midZ = wrestlerPositions.reduce((sum, p) => sum + p[2], 0) / count;
+		const ringHeight = wrestlerPositions[0][1];
 
 		// Hover above and behind the action — far enough not to interfere with fighters
 		this.group.position.set(midX + 1.2, ringHeight + HOVER_HEIGHT, midZ + 1.8);
@@ -298,6 +313,13 @@ export class RefereeRenderer {
 		this.poseTarget = { ...POSE_TARGETS[pose] };
 	}
 
+	/**
+	 * Slap the mat for a pin count — a quick forward pitch of the drone.
+	 */
+	slapCount(): void {
+		this.countSlapTimer = COUNT_SLAP_DURATION;
+	}
+
 	/**
 	 * Advance pose interpolation. Call once per render frame.
 	 * @param dt Delta time in seconds.
@@ -324,8 +346,13 @@ export class RefereeRenderer {
 		const yBob = Math.sin(this.phaseAccum * this.poseCurrent.bobSpeed) * this.poseCurrent.bobAmplitude;
 		this.group.position.y += yBob * dt * 10; // soft bob via delta
 
-		// Body tilt
-		this.group.rotation.x = this.poseCurrent.tiltX;
+		// Body tilt (plus a pitch-down "slap" on each pin count)
+		let slapTilt = 0;
+		if (this.countSlapTimer > 0) {
+			this.countSlapTimer = Math.max(0, this.countSlapTimer - dt);
+			slapTilt = Math.sin(Math.PI * (1 - this.countSlapTimer / COUNT_SLAP_DURATION)) * COUNT_SLAP_TILT;
+		}
+		this.group.rotation.x = this.poseCurrent.tiltX + slapTilt;
 
 		// Slight continuous yaw rotation (drone slowly turns to survey)
 		this.group.rotation.y += dt * 0.3;
@@ -435,6 +462,19 @@ export class RefereeRenderer {
 		);
 	}
 
+	/**
+	 * Take the winner display down (e.g. when a replay is rewound past the bell).
+	 */
+	hideWinner(): void {
+		if (this.winnerSprite) {
+			this.group.remove(this.winnerSprite);
+			this.winnerSprite.material.map?.dispose();
+			this.winnerSprite.material.dispose();
+		}
+		this.winnerSprite = null;
+		this.winnerSpriteTarget = null;
+	}
+
 	/**
 	 * Whether the winner display is currently showing.
 	 */
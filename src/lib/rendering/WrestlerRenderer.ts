@@ -104,6 +104,8 @@ interface WrestlerData {
 	group: THREE.Group;
 	animator: ProceduralAnimator;
 	ikController: GrappleIKController;
+	/** Last animation command (drives the grapple IK weight). */
+	command: AnimationCommand | null;
 	meshRefs: StickMeshRefs;
 	bodyRadius: number;
 	build: StickBuildConfig;
@@ -434,6 +436,7 @@ export class WrestlerRenderer {
 
 		this.wrestlers.set(entityId, {
 			group, animator, ikController, meshRefs,
+			command: null,
 			bodyRadius: build.headRadius,
 			build,
 			headY,
@@ -509,6 +512,7 @@ export class WrestlerRenderer {
 		const data = this.wrestlers.get(entityId);
 		if (!data) return;
 		data.animator.setCommand(cmd);
+		data.command = cmd;
 	}
 
 	/**
@@ -539,12 +543,20 @@ export class WrestlerRenderer {
 
 	/**
 	 * Advance procedural animation for all stickmen.
+	 * With opponentPositions (world space, keyed by wrestler), grapples and
+	 * holds reach the arms out to the opponent through GrappleIKController.
 	 */
 	update(dt: number, opponentPositions?: Map<EntityId, THREE.Vector3>): void {
 		for (const [id, data] of this.wrestlers) {
 			const pose = data.animator.update(dt);
 			this.applyPoseToStickman(data, pose);
 
+			const opponentPos = opponentPositions?.get(id);
+			if (data.command && opponentPos) {
+				data.ikController.update(dt, data.command);
+				this.applyArmIK(data, opponentPos);
+			}
+
 			// Apply visual root motion offsets
 			if (pose.rootDeltaX !== 0 || pose.rootDeltaY !== 0 || pose.rootDeltaZ !== 0) {
 				data.group.position.x += pose.rootDeltaX;
@@ -614,6 +626,34 @@ export class WrestlerRenderer {
 		refs.rightLowerLeg.rotation.x = pose.rightCalfX;
 	}
 
+	/**
+	 * Blend the IK arm solve over the procedural arm pose by the
+	 * controller's weight (no-op while the weight is zero).
+	 */
+	private applyArmIK(data: WrestlerData, opponentWorldPos: THREE.Vector3): void {
+		const weight = data.ikController.weight;
+		if (weight < 0.001) return;
+
+		const refs = data.meshRefs;
+		data.group.updateMatrixWorld();
+		const opponentLocal = data.group.worldToLocal(opponentWorldPos.clone());
+		const { left, right } = data.ikController.solve(
+			refs.leftUpperArm.position,
+			refs.rightUpperArm.position,
+			opponentLocal,
+			data.command?.targetRegion ?? null
+		);
+
+		// IK results are pre-scaled by weight — fade the FK pose by the rest
+		const fk = 1 - weight;
+		refs.leftUpperArm.rotation.x = refs.leftUpperArm.rotation.x * fk + left.shoulderAngleX;
+		refs.leftUpperArm.rotation.z = refs.leftUpperArm.rotation.z * fk + left.shoulderAngleZ;
+		refs.leftForearm.rotation.x = refs.leftForearm.rotation.x * fk + left.elbowAngleX;
+		refs.rightUpperArm.rotation.x = refs.rightUpperArm.rotation.x * fk + right.shoulderAngleX;
+		refs.rightUpperArm.rotation.z = refs.rightUpperArm.rotation.z * fk + right.shoulderAngleZ;
+		refs.rightForearm.rotation.x = refs.rightForearm.rotation.x * fk + right.elbowAngleX;
+	}
+
 	remove(entityId: EntityId): void {
 		const data = this.wrestlers.get(entityId);
 		if (!data) return;
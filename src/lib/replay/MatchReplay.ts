@@ -0,0 +1,243 @@
+import {
+	MatchLoop,
+	InputRecorder,
+	InputPlayback,
+	StateHashRecorder,
+	DeterminismVerifier,
+	describeDesync,
+	type DeterminismTrace,
+	type MatchLoopConfig,
+	type WrestlerInput,
+	type RecordedInputFrame,
+	type MatchLogEntry,
+	type MatchState
+} from '../match/engine';
+import type { MovePack } from '../data/moves';
+
+/**
+ * Engine match replays.
+ *
+ * MatchLoop is deterministic, so a replay doesn't store frames: it stores
+ * the seed, the loop config and the recorded input of every human-controlled
+ * fighter (AI decisions follow from the seed). Loading a replay re-simulates
+ * the match from scratch.
+ */
+
+/** Replay file format version (version 1 is the ECS frame format in ReplaySerializer). */
+export const MATCH_REPLAY_VERSION = 2;
+
+/** Ticks between the state hashes stored in a replay (for desync detection). */
+const REPLAY_HASH_INTERVAL = 10;
+
+/** Log entry types worth jumping to in the replay viewer. */
+export const REPLAY_HIGHLIGHT_TYPES: readonly string[] = [
+	'knockdown',
+	'finisher_impact',
+	'finisher_counter',
+	'comeback',
+	'pin_kickout',
+	'submission_start',
+	'next_fall',
+	'elimination',
+	'cage_slam',
+	'ringside_exit',
+	'barricade_slam'
+];
+
+/**
+ * A fighter as stored in a replay: the serializable part of WrestlerInput.
+ * Custom Strategy instances can't be stored, only strategy ids.
+ */
+export type ReplayWrestler = Omit<WrestlerInput, 'strategy' | 'input'> & {
+	strategy?: string;
+	/** Driven by the recorded input stream in MatchReplayFile.inputs */
+	human: boolean;
+};
+
+export interface MatchReplayFile {
+	version: typeof MATCH_REPLAY_VERSION;
+	seed: number;
+	matchType: string;
+	/** Time limit override the match was played with (seconds), if any */
+	timeLimit?: number;
+	tickRate: number;
+	wrestlers: ReplayWrestler[];
+	/** Move packs the match was played with on top of the core pack, if any */
+	movePacks?: MovePack[];
+	/** Recorded input of each human-controlled fighter, by wrestler id */
+	inputs: Record<string, RecordedInputFrame[]>;
+	/** State hashes of the original match, to detect desyncs on playback */
+	trace: DeterminismTrace;
+	metadata: {
+		createdAt: string;
+		/** Ticks the match ran for */
+		ticks: number;
+		/** Seconds */
+		duration: number;
+		winner: string;
+		method: string;
+		matchRating: number;
+	};
+}
+
+/**
+ * MatchRecorder — wraps a MatchLoopConfig so the match it drives can be
+ * saved as a replay.
+ *
+ * Build the MatchLoop from `recorder.config` (human input sources are
+ * wrapped in InputRecorders), attach() it, run the match, then call finish().
+ */
+export class MatchRecorder {
+	readonly config: MatchLoopConfig;
+	private readonly recorders = new Map<string, InputRecorder>();
+	/** Set once attached to the loop */
+	private hashes: StateHashRecorder | null = null;
+
+	constructor(config: MatchLoopConfig) {
+		for (const w of config.wrestlers) {
+			if (w.strategy !== undefined && typeof w.strategy !== 'string') {
+				throw new Error(`MatchRecorder: ${w.id} uses a custom Strategy instance, which can't be replayed`);
+			}
+		}
+		this.config = {
+			...config,
+			wrestlers: config.wrestlers.map((w) => {
+				if (!w.input) return w;
+				const recorder = new InputRecorder(w.input);
+				this.recorders.set(w.id, recorder);
+				return { ...w, input: recorder };
+			})
+		};
+	}
+
+	/** Record the loop's state hashes, so playback can detect desyncs. */
+	attach(loop: MatchLoop): void {
+		this.hashes = new StateHashRecorder({ interval: REPLAY_HASH_INTERVAL });
+		loop.setDebugger(this.hashes);
+	}
+
+	/** Build the replay of a finished match. */
+	finish(state: MatchState): MatchReplayFile {
+		if (!state.result) {
+			throw new Error('MatchRecorder: match has not finished');
+		}
+		if (!this.hashes) {
+			throw new Error('MatchRecorder: attach() the recorder to the loop before running the match');
+		}
+		const inputs: Record<string, RecordedInputFrame[]> = {};
+		for (const [id, recorder] of this.recorders) inputs[id] = recorder.frames;
+
+		return {
+			version: MATCH_REPLAY_VERSION,
+			seed: this.config.seed,
+			matchType: state.matchType,
+			timeLimit: this.config.timeLimit,
+			tickRate: this.config.tickRate,
+			wrestlers: this.config.wrestlers.map(({ input, strategy, ...rest }) => ({
+				...rest,
+				strategy: strategy as string | undefined,
+				human: input !== undefined
+			})),
+			movePacks: this.config.movePacks,
+			inputs,
+			trace: this.hashes.trace(state),
+			metadata: {
+				createdAt: new Date().toISOString(),
+				ticks: state.tick,
+				duration: state.result.duration,
+				winner: state.result.winnerId,
+				method: state.result.method,
+				matchRating: state.result.rating
+			}
+		};
+	}
+}
+
+/**
+ * MatchLoop config that re-plays a replay (human fighters are fed their
+ * recorded input).
+ */
+export function replayLoopConfig(replay: MatchReplayFile): MatchLoopConfig {
+	return {
+		seed: replay.seed,
+		matchType: replay.matchType,
+		timeLimit: replay.timeLimit,
+		tickRate: replay.tickRate,
+		wrestlers: replay.wrestlers.map(({ human, ...w }) => ({
+			...w,
+			input: human ? new InputPlayback(replay.inputs[w.id] ?? []) : undefined
+		})),
+		movePacks: replay.movePacks
+	};
+}
+
+/**
+ * MatchReplayer — plays a replay back with seeking.
+ *
+ * The whole match is simulated once up front to find its length and
+ * highlights, and checked against the replay's state hashes — a replay
+ * recorded before an engine change may no longer play out the same way.
+ * Seeking forward steps the current loop; seeking backward
+ * re-simulates from the opening bell (a full match takes well under a
+ * second headless).
+ */
+export class MatchReplayer {
+	readonly replay: MatchReplayFile;
+	/** Ticks in the match */
+	readonly totalTicks: number;
+	/** The final match log */
+	readonly log: readonly MatchLogEntry[];
+	/** Log entries worth jumping to (REPLAY_HIGHLIGHT_TYPES), in match order */
+	readonly highlights: readonly MatchLogEntry[];
+	private _loop: MatchLoop;
+
+	constructor(replay: MatchReplayFile) {
+		this.replay = replay;
+		const check = DeterminismVerifier.verify(replayLoopConfig(replay), replay.trace);
+		if (check.desync) {
+			throw new Error(`MatchReplayer: replay no longer plays out the same — ${describeDesync(check.desync)}`);
+		}
+		const final = check.final;
+		if (final.result?.winnerId !== replay.metadata.winner || final.tick !== replay.metadata.ticks) {
+			throw new Error('MatchReplayer: replay does not reproduce its recorded result');
+		}
+		this.totalTicks = final.tick;
+		this.log = final.log;
+		this.highlights = final.log.filter((e) => REPLAY_HIGHLIGHT_TYPES.includes(e.type));
+		this._loop = new MatchLoop(replayLoopConfig(replay));
+	}
+
+	/** The loop being played back (replaced on backward seeks). */
+	get loop(): MatchLoop {
+		return this._loop;
+	}
+
+	get tick(): number {
+		return this._loop.state.tick;
+	}
+
+	/** Advance one tick. Returns false once the match is over. */
+	step(): boolean {
+		return this._loop.step();
+	}
+
+	/**
+	 * Move playback to the given tick (clamped to the match).
+	 * Returns true if the loop was rebuilt (callers should reset anything
+	 * that tracked the old loop, e.g. hit events or the director).
+	 */
+	seek(tick: number): boolean {
+		const target = Math.max(0, Math.min(Math.round(tick), this.totalTicks));
+		let rebuilt = false;
+		if (target < this._loop.state.tick) {
+			this._loop = new MatchLoop(replayLoopConfig(this.replay));
+			rebuilt = true;
+		}
+		while (this._loop.state.tick < target && this._loop.step()) {
+			// Fast-forward
+		}
+		// Effects from skipped ticks don't belong to the new position
+		this._loop.drainHitEvents();
+		return rebuilt;
+	}
+}
@@ -1,4 +1,5 @@
 import type { WorldSnapshot } from '../ecs/Serializer';
+import { MATCH_REPLAY_VERSION, type MatchReplayFile } from './MatchReplay';
 
 /**
  * Compresses/decompresses replay data for storage and sharing.
@@ -54,4 +55,34 @@ export class ReplaySerializer {
 		const text = await file.text();
 		return ReplaySerializer.decode(text);
 	}
+
+	/** Encode an engine match replay to a JSON string. */
+	static encodeMatch(replay: MatchReplayFile): string {
+		return JSON.stringify(replay);
+	}
+
+	/** Decode an engine match replay from a JSON string. */
+	static decodeMatch(json: string): MatchReplayFile {
+		const parsed = JSON.parse(json);
+		if (parsed.version !== MATCH_REPLAY_VERSION) {
+			throw new Error(`Unsupported match replay version: ${parsed.version}`);
+		}
+		if (typeof parsed.seed !== 'number' || !Array.isArray(parsed.wrestlers)
+			|| typeof parsed.inputs !== 'object' || typeof parsed.trace !== 'object' || typeof parsed.metadata !== 'object') {
+			throw new Error('Malformed match replay');
+		}
+		return parsed as MatchReplayFile;
+	}
+
+	/** Create a download URL for an engine match replay. */
+	static matchToDownloadURL(replay: MatchReplayFile): string {
+		const blob = new Blob([ReplaySerializer.encodeMatch(replay)], { type: 'application/json' });
+		return URL.createObjectURL(blob);
+	}
+
+	/** Read an engine match replay from a File (e.g., from file input). */
+	static async matchFromFile(file: File): Promise<MatchReplayFile> {
+		const text = await file.text();
+		return ReplaySerializer.decodeMatch(text);
+	}
 }
@@ -0,0 +1,100 @@
+import { writable } from 'svelte/store';
+import { EventNight, type EventSnapshot } from '../match/EventNight';
+import type { CardMatch, CardMatchResult, ShowCard } from '../match/CardBuilder';
+
+export interface EventUIState {
+	active: boolean;
+	name: string;
+	venue: string;
+	matches: CardMatch[];
+	/** Id of the next match to play (null once the show is over) */
+	nextMatchId: string | null;
+	complete: boolean;
+	showRating: number;
+}
+
+/** localStorage key the running show is saved under. */
+const STORAGE_KEY = 'wweagents.event';
+
+const EMPTY_STATE: EventUIState = {
+	active: false,
+	name: '',
+	venue: '',
+	matches: [],
+	nextMatchId: null,
+	complete: false,
+	showRating: 0
+};
+
+export const eventState = writable<EventUIState>(EMPTY_STATE);
+
+/** The running show (null when none). */
+let event: EventNight | null = null;
+
+/**
+ * The running show, resumed from the last save if the page was reloaded.
+ */
+export function getEvent(): EventNight | null {
+	if (!event) {
+		const saved = load();
+		if (saved) {
+			event = EventNight.restore(saved);
+			publish();
+		}
+	}
+	return event;
+}
+
+/** Start a booked show, replacing any running one. */
+export function startEvent(card: ShowCard): EventNight {
+	event = new EventNight(card);
+	publish();
+	save();
+	return event;
+}
+
+/** Record a finished card match and save. */
+export function recordEventMatch(matchId: string, result: CardMatchResult): void {
+	const show = getEvent();
+	if (!show) return;
+	show.recordResult(matchId, result);
+	publish();
+	save();
+}
+
+export function resetEventStore(): void {
+	event = null;
+	eventState.set(EMPTY_STATE);
+	if (typeof localStorage !== 'undefined') localStorage.removeItem(STORAGE_KEY);
+}
+
+function publish(): void {
+	if (!event) return;
+	eventState.set({
+		active: true,
+		name: event.card.name,
+		venue: event.card.venue,
+		matches: event.snapshot().card.matches,
+		nextMatchId: event.getNextMatch()?.id ?? null,
+		complete: event.complete,
+		showRating: event.showRating
+	});
+}
+
+function save(): void {
+	if (!event || typeof localStorage === 'undefined') return;
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(event.snapshot()));
+}
+
+function load(): EventSnapshot | null {
+	if (typeof localStorage === 'undefined') return null;
+	const raw = localStorage.getItem(STORAGE_KEY);
+	if (!raw) return null;
+	try {
+		return JSON.parse(raw) as EventSnapshot;
+	} catch {
+		// Corrupt save — start fresh
+		localStorage.removeItem(STORAGE_KEY);
+		return null;
+	}
+}
@@ -0,0 +1,157 @@
+import { writable } from 'svelte/store';
+import {
+	LeagueManager,
+	type LeagueConfig,
+	type LeaguePhase,
+	type LeagueSnapshot,
+	type LeagueStanding,
+	type ScheduledMatch
+} from '../match/LeagueManager';
+
+/** How a finished league match went. */
+export interface LeagueMatchResult {
+	/** Null for a draw */
+	winnerId: string | null;
+	method: string;
+	/** Seconds */
+	duration: number;
+	rating: number;
+	/** Played out on screen rather than simulated headlessly */
+	watched: boolean;
+}
+
+export interface LeagueUIState {
+	active: boolean;
+	name: string;
+	matchType: string;
+	phase: LeaguePhase;
+	currentWeek: number;
+	playoffSize: number;
+	schedule: ScheduledMatch[];
+	standings: LeagueStanding[];
+	champion: string | null;
+	/** Results of finished matches, by scheduled match id */
+	results: Record<string, LeagueMatchResult>;
+}
+
+/** localStorage key the running season is saved under. */
+const STORAGE_KEY = 'wweagents.league';
+
+interface SavedLeague {
+	snapshot: LeagueSnapshot;
+	results: Record<string, LeagueMatchResult>;
+}
+
+const EMPTY_STATE: LeagueUIState = {
+	active: false,
+	name: '',
+	matchType: '',
+	phase: 'regular_season',
+	currentWeek: 0,
+	playoffSize: 0,
+	schedule: [],
+	standings: [],
+	champion: null,
+	results: {}
+};
+
+export const leagueState = writable<LeagueUIState>(EMPTY_STATE);
+
+/** The running season (null when none). */
+let manager: LeagueManager | null = null;
+let results: Record<string, LeagueMatchResult> = {};
+
+/**
+ * The running season, resumed from the last save if the page was reloaded.
+ */
+export function getLeague(): LeagueManager | null {
+	if (!manager) {
+		const saved = load();
+		if (saved) {
+			manager = LeagueManager.restore(saved.snapshot);
+			results = saved.results;
+			publish();
+		}
+	}
+	return manager;
+}
+
+/** Start a new season, replacing any running one. */
+export function startLeague(config: LeagueConfig): LeagueManager {
+	manager = new LeagueManager(config);
+	results = {};
+	publish();
+	save();
+	return manager;
+}
+
+/**
+ * Record a finished league match and save. A regular-season match that
+ * goes the time limit is a draw, whoever the engine picked on health;
+ * playoff matches keep the engine's winner.
+ */
+export function recordLeagueMatch(matchId: string, result: LeagueMatchResult): void {
+	const league = getLeague();
+	if (!league) return;
+	const match = league.getSchedule().find((m) => m.id === matchId);
+	if (!match || match.status === 'complete') return;
+	const recorded = match.stage === 'regular' && result.method === 'timeout' ? { ...result, winnerId: null } : result;
+	league.recordResult(matchId, recorded.winnerId, recorded.rating);
+	results = { ...results, [matchId]: recorded };
+	publish();
+	save();
+}
+
+export function resetLeagueStore(): void {
+	manager = null;
+	results = {};
+	leagueState.set(EMPTY_STATE);
+	if (typeof localStorage !== 'undefined') localStorage.removeItem(STORAGE_KEY);
+}
+
+/** The running season as pretty-printed JSON (config, schedule, table and results). */
+export function exportLeague(): string | null {
+	const league = getLeague();
+	if (!league) return null;
+	const exported: SavedLeague & { rankings: LeagueStanding[] } = {
+		snapshot: league.snapshot(),
+		results,
+		rankings: league.getRankings()
+	};
+	return JSON.stringify(exported, null, 2);
+}
+
+function publish(): void {
+	if (!manager) return;
+	leagueState.set({
+		active: true,
+		name: manager.config.name,
+		matchType: manager.config.matchType,
+		phase: manager.phase,
+		currentWeek: manager.currentWeek,
+		playoffSize: manager.playoffSize,
+		schedule: manager.getSchedule().map((m) => ({ ...m })),
+		standings: manager.getRankings().map((s) => ({ ...s })),
+		champion: manager.champion,
+		results
+	});
+}
+
+function save(): void {
+	if (!manager || typeof localStorage === 'undefined') return;
+	const saved: SavedLeague = { snapshot: manager.snapshot(), results };
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+}
+
+function load(): SavedLeague | null {
+	if (typeof localStorage === 'undefined') return null;
+	const raw = localStorage.getItem(STORAGE_KEY);
+	if (!raw) return null;
+	try {
+		return JSON.parse(raw) as SavedLeague;
+	} catch {
+		// Corrupt save — start fresh
+		localStorage.removeItem(STORAGE_KEY);
+		return null;
+	}
+}
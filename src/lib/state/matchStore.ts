@@ -16,6 +16,45 @@ export interface WrestlerUIState {
 	emotion?: string;
 	/** Current confidence level (0-1) */
 	confidence?: number;
+	/** Falls won so far (multi-fall and Iron Man matches) */
+	falls?: number;
+	/** Legal man in a tag match (always true outside tag matches) */
+	legal?: boolean;
+	/** In the ring, waiting on the apron, out on the ringside floor, or backstage (Royal Rumble) */
+	location?: 'ring' | 'apron' | 'floor' | 'backstage';
+}
+
+/** Pin or submission currently in progress, for the count / rope-break overlay. */
+export interface HoldUIState {
+	type: 'pin' | 'submission';
+	/** Referee count for pins (0-3) */
+	count: number;
+	/** Submission crawl toward the ropes (0-1); null when rope breaks don't apply */
+	ropeProgress: number | null;
+}
+
+/** Cage escape in progress, for the escape meter. */
+export interface EscapeUIState {
+	/** Index into wrestlers */
+	entityId: number;
+	method: 'climb' | 'door';
+	/** 0-1; 1 = out of the cage */
+	progress: number;
+}
+
+/** Wrestler making their entrance before the bell. */
+export interface EntranceUIState {
+	name: string;
+	nickname: string;
+	color: string;
+	style: 'walk' | 'run' | 'dramatic' | 'pyro';
+}
+
+/** A line from the commentary team, for the commentary box. */
+export interface CommentaryUILine {
+	tick: number;
+	kind: 'play_by_play' | 'color' | 'callback' | 'crowd';
+	text: string;
 }
 
 export interface MatchUIState {
@@ -24,9 +63,17 @@ export interface MatchUIState {
 	elapsed: number;
 	wrestlers: WrestlerUIState[];
 	recentEvents: Array<{ frame: number; type: string; detail: string }>;
+	/** Most recent commentary lines, oldest first (absent outside a live match) */
+	commentary?: CommentaryUILine[];
 	winner: number | null;
 	winMethod: string | null;
 	matchRating: number;
+	/** Pin or submission in progress (null/absent when none) */
+	hold?: HoldUIState | null;
+	/** Cage escape in progress (null/absent when none) */
+	escape?: EscapeUIState | null;
+	/** Entrance in progress before the bell (null/absent when none) */
+	entrance?: EntranceUIState | null;
 }
 
 const DEFAULT_STATE: MatchUIState = {
@@ -35,9 +82,12 @@ const DEFAULT_STATE: MatchUIState = {
 	elapsed: 0,
 	wrestlers: [],
 	recentEvents: [],
+	commentary: [],
 	winner: null,
 	winMethod: null,
-	matchRating: 0
+	matchRating: 0,
+	hold: null,
+	escape: null
 };
 
 /** Writable match state — updated by syncEngine at end of each tick. */
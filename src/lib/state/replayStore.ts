@@ -0,0 +1,81 @@
+import { writable } from 'svelte/store';
+import type { MatchReplayFile } from '../replay/MatchReplay';
+import { setMatchConfig, setScreen } from './uiStore';
+
+/** A replay kept in the replay library. */
+export interface SavedReplay {
+	id: string;
+	/** e.g. "Iron Mike vs Phoenix Blade" */
+	title: string;
+	replay: MatchReplayFile;
+}
+
+/** localStorage key the replay library is saved under. */
+const STORAGE_KEY = 'wweagents.replays';
+
+/** Oldest replays are dropped past this many. */
+const MAX_SAVED_REPLAYS = 10;
+
+/** Saved replays, newest first. */
+export const savedReplays = writable<SavedReplay[]>(load());
+
+/** Add a replay to the library (newest first) and save. */
+export function saveReplay(replay: MatchReplayFile): SavedReplay {
+	const entry: SavedReplay = {
+		id: `${replay.metadata.createdAt}-${replay.seed}`,
+		title: replay.wrestlers.map((w) => w.name).join(' vs '),
+		replay
+	};
+	savedReplays.update((list) => {
+		const next = [entry, ...list.filter((r) => r.id !== entry.id)].slice(0, MAX_SAVED_REPLAYS);
+		save(next);
+		return next;
+	});
+	return entry;
+}
+
+export function deleteReplay(id: string): void {
+	savedReplays.update((list) => {
+		const next = list.filter((r) => r.id !== id);
+		save(next);
+		return next;
+	});
+}
+
+/** Open a replay in the match screen. */
+export function watchReplay(replay: MatchReplayFile): void {
+	setMatchConfig({
+		wrestlerIds: replay.wrestlers.map((w) => w.id),
+		matchType: replay.matchType,
+		seed: replay.seed,
+		controlMode: 'ai_vs_ai',
+		tournamentMatchId: null,
+		leagueMatchId: null,
+		eventMatchId: null,
+		timeLimit: replay.timeLimit ?? null,
+		replay
+	});
+	setScreen('match');
+}
+
+function save(list: SavedReplay[]): void {
+	if (typeof localStorage === 'undefined') return;
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+	} catch {
+		// Storage full — the in-memory library still works this session
+	}
+}
+
+function load(): SavedReplay[] {
+	if (typeof localStorage === 'undefined') return [];
+	const raw = localStorage.getItem(STORAGE_KEY);
+	if (!raw) return [];
+	try {
+		return JSON.parse(raw) as SavedReplay[];
+	} catch {
+		// Corrupt library — start fresh
+		localStorage.removeItem(STORAGE_KEY);
+		return [];
+	}
+}
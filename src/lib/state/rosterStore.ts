@@ -0,0 +1,143 @@
+import { derived, get, writable } from 'svelte/store';
+import rosterData from '../data/wrestlers/roster.json';
+import type { WrestlerDef } from '../data/wrestlers/schema';
+import { validateWrestlerDef, withMovesetPicks } from '../data/wrestlers/customWrestler';
+
+/** The roster that ships with the game. */
+export const BUILT_IN_ROSTER = rosterData as WrestlerDef[];
+
+/** localStorage key custom wrestlers are saved under. */
+const STORAGE_KEY = 'wweagents.roster';
+
+/** Wrestlers made in the editor or imported, oldest first. */
+export const customWrestlers = writable<WrestlerDef[]>(load());
+
+/** Everyone selectable: the shipped roster followed by custom wrestlers. */
+export const roster = derived(customWrestlers, (custom) => [...BUILT_IN_ROSTER, ...custom]);
+
+export function findWrestler(id: string): WrestlerDef | undefined {
+	return get(roster).find((w) => w.id === id);
+}
+
+/**
+ * Roster entries for the ids, in order. Throws if any of them is no longer
+ * in the roster (a deleted custom wrestler), rather than letting someone
+ * else wrestle in their place.
+ */
+export function requireWrestlers(ids: readonly string[]): WrestlerDef[] {
+	const list = get(roster);
+	const missing = ids.filter((id) => !list.some((w) => w.id === id));
+	if (missing.length > 0) {
+		throw new Error(`rosterStore: ${missing.map((id) => `'${id}'`).join(', ')} no longer in the roster`);
+	}
+	return ids.map((id) => list.find((w) => w.id === id)!);
+}
+
+export function isCustomWrestler(id: string): boolean {
+	return get(customWrestlers).some((w) => w.id === id);
+}
+
+/** Add a custom wrestler, or replace the one with the same id, and save. */
+export function saveCustomWrestler(def: WrestlerDef): void {
+	const problems = validateWrestlerDef(def);
+	if (problems.length > 0) throw new Error(`rosterStore: ${def.name}: ${problems.join('; ')}`);
+	if (BUILT_IN_ROSTER.some((w) => w.id === def.id)) {
+		throw new Error(`rosterStore: '${def.id}' is a built-in wrestler`);
+	}
+	customWrestlers.update((list) => {
+		const index = list.findIndex((w) => w.id === def.id);
+		const next = index >= 0 ? list.map((w, i) => (i === index ? def : w)) : [...list, def];
+		save(next);
+		return next;
+	});
+}
+
+export function deleteCustomWrestler(id: string): void {
+	customWrestlers.update((list) => {
+		const next = list.filter((w) => w.id !== id);
+		save(next);
+		return next;
+	});
+}
+
+/** Custom wrestlers as a roster JSON file (same shape as roster.json). */
+export function exportRoster(): string {
+	return JSON.stringify(get(customWrestlers), null, '\t');
+}
+
+/**
+ * Add the wrestlers in a roster JSON file (an array, or a single wrestler).
+ * Wrestlers already in the custom roster are replaced. Nothing is imported
+ * if any entry is invalid. Returns how many wrestlers were imported.
+ */
+export function importRoster(json: string): number {
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch {
+		throw new Error('rosterStore: not a JSON file');
+	}
+	const entries = Array.isArray(data) ? data : [data];
+	if (entries.length === 0) throw new Error('rosterStore: the file has no wrestlers');
+
+	const problems: string[] = [];
+	const seen = new Set<string>();
+	const defs = entries.map((entry, i) => {
+		const def = entry as WrestlerDef;
+		const label = typeof def?.name === 'string' ? `[${i}] ${def.name}` : `[${i}]`;
+		const filled = typeof def?.movesetId === 'string' ? withMovesetPicks(def) : def;
+		for (const problem of validateWrestlerDef(filled)) problems.push(`${label}: ${problem}`);
+		if (BUILT_IN_ROSTER.some((w) => w.id === def?.id)) {
+			problems.push(`${label}: id '${def.id}' clashes with a built-in wrestler`);
+		}
+		if (seen.has(def?.id)) problems.push(`${label}: id '${def.id}' appears twice`);
+		seen.add(def?.id);
+		return filled;
+	});
+	if (problems.length > 0) throw new Error(`rosterStore: ${problems.join('\n')}`);
+
+	customWrestlers.update((list) => {
+		const next = [...list.filter((w) => !seen.has(w.id)), ...defs];
+		save(next);
+		return next;
+	});
+	return defs.length;
+}
+
+function save(list: WrestlerDef[]): void {
+	if (typeof localStorage === 'undefined') return;
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+}
+
+function load(): WrestlerDef[] {
+	if (typeof localStorage === 'undefined') return [];
+	const raw = localStorage.getItem(STORAGE_KEY);
+	if (!raw) return [];
+	let data: unknown;
+	try {
+		data = JSON.parse(raw);
+	} catch {
+		// Corrupt roster — start fresh
+		localStorage.removeItem(STORAGE_KEY);
+		return [];
+	}
+	if (!Array.isArray(data)) {
+		localStorage.removeItem(STORAGE_KEY);
+		return [];
+	}
+
+	// Same checks as importRoster, but a bad entry (edited by hand, saved by an
+	// older version) is dropped rather than losing the whole roster
+	const seen = new Set<string>();
+	const list: WrestlerDef[] = [];
+	for (const entry of data) {
+		const def = entry as WrestlerDef;
+		const filled = typeof def?.movesetId === 'string' ? withMovesetPicks(def) : def;
+		if (validateWrestlerDef(filled).length > 0) continue;
+		if (BUILT_IN_ROSTER.some((w) => w.id === filled.id) || seen.has(filled.id)) continue;
+		seen.add(filled.id);
+		list.push(filled);
+	}
+	if (list.length !== data.length) save(list);
+	return list;
+}
@@ -1,34 +1,133 @@
 import { writable } from 'svelte/store';
-import type { BracketMatch } from '../match/TournamentManager';
+import {
+	TournamentManager,
+	type BracketMatch,
+	type TournamentConfig,
+	type TournamentSnapshot
+} from '../match/TournamentManager';
+
+/** How a finished bracket match went. */
+export interface TournamentMatchResult {
+	winnerId: string;
+	method: string;
+	/** Seconds */
+	duration: number;
+	rating: number;
+	/** Played out on screen rather than simulated headlessly */
+	watched: boolean;
+}
 
 export interface TournamentUIState {
 	active: boolean;
 	name: string;
 	format: string;
+	matchType: string;
 	bracket: BracketMatch[];
 	currentRound: number;
 	champion: string | null;
 	standings: Array<{ id: string; name: string; wins: number; losses: number; points: number }>;
+	/** Results of finished matches, by bracket match id */
+	results: Record<string, TournamentMatchResult>;
+}
+
+/** localStorage key the running tournament is saved under. */
+const STORAGE_KEY = 'wweagents.tournament';
+
+interface SavedTournament {
+	snapshot: TournamentSnapshot;
+	results: Record<string, TournamentMatchResult>;
 }
 
-export const tournamentState = writable<TournamentUIState>({
+const EMPTY_STATE: TournamentUIState = {
 	active: false,
 	name: '',
 	format: '',
+	matchType: '',
 	bracket: [],
 	currentRound: 0,
 	champion: null,
-	standings: []
-});
+	standings: [],
+	results: {}
+};
+
+export const tournamentState = writable<TournamentUIState>(EMPTY_STATE);
+
+/** The running tournament (null when none). */
+let manager: TournamentManager | null = null;
+let results: Record<string, TournamentMatchResult> = {};
+
+/**
+ * The running tournament, resumed from the last save if the page was reloaded.
+ */
+export function getTournament(): TournamentManager | null {
+	if (!manager) {
+		const saved = load();
+		if (saved) {
+			manager = TournamentManager.restore(saved.snapshot);
+			results = saved.results;
+			publish();
+		}
+	}
+	return manager;
+}
+
+/** Start a new tournament, replacing any running one. */
+export function startTournament(config: TournamentConfig): TournamentManager {
+	manager = new TournamentManager(config);
+	results = {};
+	publish();
+	save();
+	return manager;
+}
+
+/** Record a finished bracket match and save. */
+export function recordTournamentMatch(matchId: string, result: TournamentMatchResult): void {
+	const tournament = getTournament();
+	if (!tournament) return;
+	tournament.recordResult(matchId, result.winnerId);
+	results = { ...results, [matchId]: result };
+	publish();
+	save();
+}
 
 export function resetTournamentStore(): void {
+	manager = null;
+	results = {};
+	tournamentState.set(EMPTY_STATE);
+	if (typeof localStorage !== 'undefined') localStorage.removeItem(STORAGE_KEY);
+}
+
+function publish(): void {
+	if (!manager) return;
+	const names = new Map(manager.config.participants.map((p) => [p.id, p.name]));
 	tournamentState.set({
-		active: false,
-		name: '',
-		format: '',
-		bracket: [],
-		currentRound: 0,
-		champion: null,
-		standings: []
+		active: true,
+		name: manager.config.name,
+		format: manager.config.format,
+		matchType: manager.config.matchType,
+		bracket: manager.bracket.map((m) => ({ ...m })),
+		currentRound: manager.currentRound,
+		champion: manager.champion,
+		standings: manager.rankings().map((s) => ({ ...s, name: names.get(s.id) ?? s.id })),
+		results
 	});
 }
+
+function save(): void {
+	if (!manager || typeof localStorage === 'undefined') return;
+	const saved: SavedTournament = { snapshot: manager.snapshot(), results };
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+}
+
+function load(): SavedTournament | null {
+	if (typeof localStorage === 'undefined') return null;
+	const raw = localStorage.getItem(STORAGE_KEY);
+	if (!raw) return null;
+	try {
+		return JSON.parse(raw) as SavedTournament;
+	} catch {
+		// Corrupt save — start fresh
+		localStorage.removeItem(STORAGE_KEY);
+		return null;
+	}
+}
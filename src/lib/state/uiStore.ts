@@ -1,12 +1,27 @@
 import { writable } from 'svelte/store';
+import type { MatchReplayFile } from '../replay/MatchReplay';
 
-export type UIScreen = 'menu' | 'setup' | 'match' | 'replay' | 'tournament' | 'league' | 'training';
+export type UIScreen = 'menu' | 'setup' | 'match' | 'replay' | 'tournament' | 'league' | 'event' | 'create' | 'training';
+
+/** Who controls the fighters: both AI, or the player as wrestler 1 against the AI. */
+export type ControlMode = 'ai_vs_ai' | 'player_vs_ai';
 
 export interface MatchConfig {
-	wrestler1Id: string | null;
-	wrestler2Id: string | null;
+	/** Roster ids of the wrestlers in the match, in entrance order (P1 first). */
+	wrestlerIds: string[];
 	matchType: string;
 	seed: number;
+	controlMode: ControlMode;
+	/** Bracket match being played, when the match comes from a tournament. */
+	tournamentMatchId: string | null;
+	/** Scheduled match being played, when the match comes from a league season. */
+	leagueMatchId: string | null;
+	/** Card match being played, when the match comes from an event night. */
+	eventMatchId: string | null;
+	/** Overrides the match type's time limit (seconds), e.g. a league's TV time limit. Null keeps the match type's. */
+	timeLimit: number | null;
+	/** Replay to play back instead of running a new match. */
+	replay: MatchReplayFile | null;
 }
 
 export interface UIState {
@@ -30,10 +45,15 @@ export const uiState = writable<UIState>({
 	loading: false,
 	loadingMessage: '',
 	matchConfig: {
-		wrestler1Id: null,
-		wrestler2Id: null,
+		wrestlerIds: [],
 		matchType: 'singles',
-		seed: 42
+		seed: 42,
+		controlMode: 'ai_vs_ai',
+		tournamentMatchId: null,
+		leagueMatchId: null,
+		eventMatchId: null,
+		timeLimit: null,
+		replay: null
 	}
 });
 
@@ -2,17 +2,7 @@ import { System } from '../../ecs/System';
 import type { World } from '../../ecs/World';
 import type { EventBus } from '../../engine/EventBus';
 import type { Phase, EntityId } from '../../utils/types';
-
-/**
- * Audio cue to be played by the audio engine.
- */
-interface AudioCue {
-	soundId: string;
-	volume: number;
-	pitch: number;
-	pan: number; // -1 (left) to 1 (right)
-	priority: number;
-}
+import { impactSoundId, type AudioCue } from '../../audio/AudioEngine';
 
 interface MoveHitEvent {
 	attacker: EntityId;
@@ -51,8 +41,8 @@ interface MoveStartedEvent {
  * that are written to a world resource for the audio engine to consume.
  *
  * The system does not play audio directly. Instead, it writes to the
- * 'audioQueue' resource, which is an array of AudioCue objects. The
- * rendering layer reads and drains this queue each frame.
+ * 'audioQueue' resource, which is an array of AudioCue objects.
+ * AudioEngine.drainWorld() plays and empties this queue each frame.
  *
  * Sound mapping:
  *   - combat:move_hit -> Impact sound (varies by damage)
@@ -78,7 +68,7 @@ export class AudioSystem extends System {
 		eventBus.on('combat:move_hit', (ev: MoveHitEvent) => {
 			// Scale volume and pitch with damage
 			const damageScale = Math.min(ev.damage / 30, 1.0);
-			const soundId = this.getImpactSound(ev.moveId, ev.damage);
+			const soundId = impactSoundId(ev.damage);
 
 			this.pendingCues.push({
 				soundId,
@@ -196,16 +186,6 @@ export class AudioSystem extends System {
 		this.pendingCues.length = 0;
 	}
 
-	/**
-	 * Selects the appropriate impact sound based on move type and damage.
-	 */
-	private getImpactSound(moveId: string, damage: number): string {
-		if (damage >= 25) return 'sfx_impact_heavy';
-		if (damage >= 15) return 'sfx_impact_medium';
-		if (damage >= 8) return 'sfx_impact_light';
-		return 'sfx_impact_soft';
-	}
-
 	destroy(_world: World): void {
 		this.pendingCues.length = 0;
 	}
@@ -103,3 +103,12 @@ export class SeededRandom {
 		return ((x << k) | (x >>> (32 - k))) >>> 0;
 	}
 }
+
+/**
+ * The seed for the index-th (0-based) of a series of matches played off one
+ * base seed — a tournament bracket, a league schedule, a show's card. The
+ * golden-ratio multiplier spreads neighbouring indices across the seed space.
+ */
+export function deriveSeed(seed: Seed, index: number): Seed {
+	return (seed ^ Math.imul(index + 1, 0x9e3779b1)) >>> 0;
+}
@@ -33,3 +33,14 @@ export type Alignment = 'face' | 'heel' | 'tweener';
 
 /** Move category. */
 export type MoveCategory = 'strike' | 'grapple' | 'aerial' | 'submission' | 'signature' | 'finisher';
+
+/**
+ * Ring position a move needs before it can start.
+ *   - 'top_rope': the attacker is perched on a turnbuckle
+ *   - 'running':  the attacker is coming off the ropes
+ *   - 'corner':   the defender is in a corner
+ *   - 'ropes':    the defender is against the ropes
+ *   - 'outside':  the attacker is in the ring and the defender is on the
+ *                 floor outside (dives over or through the ropes)
+ */
+export type MovePosition = 'top_rope' | 'running' | 'corner' | 'ropes' | 'outside';